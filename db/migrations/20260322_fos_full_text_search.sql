@@ -0,0 +1,11 @@
+-- Weighted full-text search vector for the decisions corpus.
+-- Keep the expression in sync with searchDocumentExpression() in src/lib/fos/search-query.ts.
+ALTER TABLE fos_decisions ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, COALESCE(decision_reference, '') || ' ' || COALESCE(business_name, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, COALESCE(product_sector, '') || ' ' || COALESCE(decision_summary, '')), 'B')
+    || setweight(to_tsvector('english'::regconfig, COALESCE(decision_logic, '') || ' ' || LEFT(COALESCE(ombudsman_reasoning_text, ''), 200000)), 'C')
+    || setweight(to_tsvector('english'::regconfig, LEFT(COALESCE(full_text, ''), 400000)), 'D')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_fos_decisions_search_vector ON fos_decisions USING gin (search_vector);
@@ -0,0 +1,30 @@
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS complaint_pinned_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES complaints_records(id) ON DELETE CASCADE,
+  case_id TEXT NOT NULL,
+  decision_reference TEXT NOT NULL,
+  decision_date DATE,
+  firm_name TEXT,
+  product_group TEXT,
+  outcome TEXT NOT NULL DEFAULT 'unknown',
+  decision_summary TEXT,
+  note TEXT,
+  pinned_by TEXT,
+  pinned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT complaint_pinned_decisions_unique UNIQUE (complaint_id, case_id)
+);
+CREATE INDEX IF NOT EXISTS idx_complaint_pinned_decisions_complaint ON complaint_pinned_decisions (complaint_id, pinned_at DESC);
+
+ALTER TABLE complaint_activities DROP CONSTRAINT IF EXISTS complaint_activities_activity_type_check;
+ALTER TABLE complaint_activities
+  ADD CONSTRAINT complaint_activities_activity_type_check CHECK (
+    activity_type IN (
+      'complaint_created', 'status_change', 'evidence_added', 'evidence_updated', 'evidence_archived', 'evidence_deleted',
+      'letter_generated', 'letter_submitted_for_review', 'letter_approved', 'letter_rejected', 'letter_sent', 'letter_superseded',
+      'note_added', 'action_created', 'action_updated', 'action_completed', 'action_deleted',
+      'decision_pinned', 'decision_unpinned',
+      'assigned', 'priority_change', 'fos_referred', 'resolved', 'closed'
+    )
+  );
@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS uphold_risk_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version INTEGER NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'draft',
+  thresholds JSONB NOT NULL,
+  notes TEXT,
+  effective_from TIMESTAMPTZ,
+  created_by TEXT,
+  published_by TEXT,
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT uphold_risk_policies_status_check CHECK (status IN ('draft', 'published', 'discarded')),
+  CONSTRAINT uphold_risk_policies_effective_check CHECK (status <> 'published' OR effective_from IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS uphold_risk_policies_effective_idx
+  ON uphold_risk_policies (status, effective_from DESC, version DESC);
+
+CREATE TABLE IF NOT EXISTS uphold_risk_policy_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  policy_id UUID NOT NULL REFERENCES uphold_risk_policies(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  actor_id TEXT,
+  actor_name TEXT,
+  previous_thresholds JSONB,
+  thresholds JSONB NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT uphold_risk_policy_events_type_check CHECK (event_type IN ('draft_created', 'draft_updated', 'published', 'discarded'))
+);
+
+CREATE INDEX IF NOT EXISTS uphold_risk_policy_events_created_idx
+  ON uphold_risk_policy_events (created_at DESC);
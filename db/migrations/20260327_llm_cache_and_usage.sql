@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS llm_response_cache (
+  request_hash TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  content TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_hit_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS llm_response_cache_created_idx
+  ON llm_response_cache (created_at);
+
+CREATE TABLE IF NOT EXISTS llm_usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purpose TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  cached BOOLEAN NOT NULL DEFAULT FALSE,
+  status TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT llm_usage_events_status_check CHECK (status IN ('success', 'error'))
+);
+
+CREATE INDEX IF NOT EXISTS llm_usage_events_created_idx
+  ON llm_usage_events (created_at DESC);
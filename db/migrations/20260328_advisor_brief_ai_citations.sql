@@ -0,0 +1,2 @@
+-- Decisions supplied to the model as citation context for AI brief sections
+ALTER TABLE fos_advisor_briefs ADD COLUMN IF NOT EXISTS ai_context_cases JSONB;
@@ -0,0 +1,17 @@
+-- Structured redress extracted from decision text by scripts/backfill-fos-enrichment.mjs.
+-- redress_awards holds one object per award: { "type", "amount", "text" }; amount is NULL
+-- for non-monetary directions (credit file corrections, apologies).
+-- redress_extracted_at marks rows the extractor has seen, including those with no award.
+ALTER TABLE fos_decisions ADD COLUMN IF NOT EXISTS redress_awards JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE fos_decisions ADD COLUMN IF NOT EXISTS redress_award_types JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE fos_decisions ADD COLUMN IF NOT EXISTS redress_total_amount NUMERIC(12,2);
+ALTER TABLE fos_decisions ADD COLUMN IF NOT EXISTS redress_interest_rate NUMERIC(5,2);
+ALTER TABLE fos_decisions ADD COLUMN IF NOT EXISTS redress_interest_basis TEXT; -- 'simple' | 'compound'
+ALTER TABLE fos_decisions ADD COLUMN IF NOT EXISTS redress_extracted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_fos_decisions_redress_award_types
+  ON fos_decisions USING gin (redress_award_types);
+
+CREATE INDEX IF NOT EXISTS idx_fos_decisions_redress_pending
+  ON fos_decisions (id)
+  WHERE redress_extracted_at IS NULL;
@@ -0,0 +1,62 @@
+-- Firm registry: canonical firms, the raw `business_name` spellings that map to them,
+-- and a two-level group hierarchy (group -> legal entities / brands).
+-- Aliases are keyed by the normalised name: lower case, runs of non-alphanumerics
+-- collapsed to a single space, trimmed. Keep in step with normalizeFirmKey in
+-- src/lib/firms/normalize.ts and firmKeyExpression in src/lib/fos/repo-helpers.ts.
+CREATE TABLE IF NOT EXISTS fos_firms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  parent_id UUID REFERENCES fos_firms(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fos_firms_parent_check CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE INDEX IF NOT EXISTS fos_firms_parent_idx
+  ON fos_firms (parent_id)
+  WHERE parent_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS fos_firm_aliases (
+  alias_key TEXT PRIMARY KEY,
+  alias TEXT NOT NULL,
+  firm_id UUID NOT NULL REFERENCES fos_firms(id) ON DELETE CASCADE,
+  source TEXT NOT NULL DEFAULT 'manual',
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fos_firm_aliases_source_check CHECK (source IN ('manual', 'suggestion', 'merge', 'canonical'))
+);
+
+CREATE INDEX IF NOT EXISTS fos_firm_aliases_firm_idx
+  ON fos_firm_aliases (firm_id);
+
+CREATE TABLE IF NOT EXISTS fos_firm_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  firm_id UUID,
+  firm_name TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  actor_id TEXT,
+  actor_name TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fos_firm_events_type_check CHECK (
+    event_type IN ('created', 'renamed', 'parent_changed', 'alias_added', 'alias_removed', 'merged', 'deleted')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS fos_firm_events_created_idx
+  ON fos_firm_events (created_at DESC);
+
+-- One row per alias with its entity and (for brands/subsidiaries) its group.
+-- Firms without a parent have a NULL group and act as their own group.
+CREATE OR REPLACE VIEW fos_firm_lookup AS
+SELECT
+  a.alias_key,
+  f.id AS firm_id,
+  f.name AS entity_name,
+  p.id AS group_id,
+  p.name AS group_name
+FROM fos_firm_aliases a
+JOIN fos_firms f ON f.id = a.firm_id
+LEFT JOIN fos_firms p ON p.id = f.parent_id;
@@ -0,0 +1,52 @@
+-- Product taxonomy: a managed two-level hierarchy (sector -> product) and the rules
+-- that map raw `product_sector` strings onto it.
+-- Rule patterns are keyed like firm aliases: lower case, runs of non-alphanumerics
+-- collapsed to a single space, trimmed. Keep in step with normalizeProductKey in
+-- src/lib/products/normalize.ts and productLabelSql in src/lib/products/sql.ts.
+CREATE TABLE IF NOT EXISTS fos_product_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  parent_id UUID REFERENCES fos_product_categories(id),
+  description TEXT,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fos_product_categories_parent_check CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE INDEX IF NOT EXISTS fos_product_categories_parent_idx
+  ON fos_product_categories (parent_id)
+  WHERE parent_id IS NOT NULL;
+
+-- `exact` rules match the whole normalised value; `contains` rules match it as a
+-- whole-word phrase. Exact rules win, then higher priority, then longer patterns.
+CREATE TABLE IF NOT EXISTS fos_product_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pattern TEXT NOT NULL,
+  pattern_key TEXT NOT NULL,
+  match_type TEXT NOT NULL DEFAULT 'exact',
+  category_id UUID NOT NULL REFERENCES fos_product_categories(id) ON DELETE CASCADE,
+  priority INTEGER NOT NULL DEFAULT 0,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fos_product_mappings_match_type_check CHECK (match_type IN ('exact', 'contains')),
+  CONSTRAINT fos_product_mappings_pattern_unique UNIQUE (match_type, pattern_key)
+);
+
+CREATE INDEX IF NOT EXISTS fos_product_mappings_category_idx
+  ON fos_product_mappings (category_id);
+
+-- One row per rule with the product it maps to and that product's sector.
+-- Rules that point straight at a sector report the sector at both levels.
+CREATE OR REPLACE VIEW fos_product_lookup AS
+SELECT
+  m.id AS mapping_id,
+  m.pattern_key,
+  m.match_type,
+  m.priority,
+  c.id AS category_id,
+  c.name AS product_name,
+  COALESCE(p.name, c.name) AS sector_name
+FROM fos_product_mappings m
+JOIN fos_product_categories c ON c.id = m.category_id
+LEFT JOIN fos_product_categories p ON p.id = c.parent_id;
@@ -0,0 +1,42 @@
+CREATE TABLE IF NOT EXISTS fos_tag_rule_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version INTEGER NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'draft',
+  rules JSONB NOT NULL,
+  notes TEXT,
+  created_by TEXT,
+  published_by TEXT,
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fos_tag_rule_versions_status_check CHECK (status IN ('draft', 'published', 'discarded'))
+);
+
+CREATE INDEX IF NOT EXISTS fos_tag_rule_versions_status_idx
+  ON fos_tag_rule_versions (status, version DESC);
+
+CREATE TABLE IF NOT EXISTS fos_tag_retag_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_version INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  requested_by TEXT,
+  total_decisions INTEGER,
+  processed INTEGER NOT NULL DEFAULT 0,
+  changed INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fos_tag_retag_runs_status_check CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled'))
+);
+
+CREATE INDEX IF NOT EXISTS fos_tag_retag_runs_created_idx
+  ON fos_tag_retag_runs (created_at DESC);
+
+-- Rule version that produced each decision's precedents, root causes and
+-- vulnerability flags. NULL means the tags predate versioned rules.
+ALTER TABLE fos_decisions ADD COLUMN IF NOT EXISTS tag_rule_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_fos_decisions_tag_rule_version
+  ON fos_decisions (tag_rule_version);
@@ -0,0 +1,50 @@
+-- Reviewer corrections to a decision's outcome, product and tags. One row per
+-- corrected field; the value is written back to fos_decisions and re-applied
+-- by the import, enrichment and re-tag scripts after they rewrite a decision.
+CREATE TABLE IF NOT EXISTS fos_decision_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  decision_reference TEXT NOT NULL,
+  field TEXT NOT NULL,
+  value JSONB NOT NULL,
+  -- What ingestion or the tagger last produced for the field, kept for accuracy reporting.
+  machine_value JSONB,
+  note TEXT,
+  created_by TEXT,
+  updated_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fos_decision_overrides_field_check
+    CHECK (field IN ('outcome', 'product_sector', 'precedents', 'root_cause_tags', 'vulnerability_flags')),
+  CONSTRAINT fos_decision_overrides_unique UNIQUE (decision_reference, field)
+);
+
+CREATE TABLE IF NOT EXISTS fos_decision_override_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  decision_reference TEXT NOT NULL,
+  field TEXT NOT NULL,
+  action TEXT NOT NULL,
+  previous_value JSONB,
+  value JSONB,
+  note TEXT,
+  actor TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT fos_decision_override_events_action_check CHECK (action IN ('set', 'confirmed', 'cleared'))
+);
+
+CREATE INDEX IF NOT EXISTS fos_decision_override_events_reference_idx
+  ON fos_decision_override_events (decision_reference, created_at DESC);
+
+-- Randomly sampled decisions awaiting review. Confirming one pins every field
+-- as an override, which makes the sample the gold set for tagger evaluation.
+CREATE TABLE IF NOT EXISTS fos_label_queue (
+  decision_reference TEXT PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'pending',
+  sampled_by TEXT,
+  sampled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  CONSTRAINT fos_label_queue_status_check CHECK (status IN ('pending', 'reviewed', 'skipped'))
+);
+
+CREATE INDEX IF NOT EXISTS fos_label_queue_status_idx
+  ON fos_label_queue (status, sampled_at);
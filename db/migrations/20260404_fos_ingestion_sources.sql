@@ -0,0 +1,10 @@
+-- Ledger windows record which decision source they came from: the FOS website
+-- search, or a local folder/zip archive loaded with --source local. Windows are
+-- unique per source, so an archive never collides with the live date windows.
+ALTER TABLE fos_ingestion_windows
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'fos-website';
+
+ALTER TABLE fos_ingestion_windows DROP CONSTRAINT IF EXISTS fos_ingestion_windows_range_unique;
+ALTER TABLE fos_ingestion_windows DROP CONSTRAINT IF EXISTS fos_ingestion_windows_source_range_unique;
+ALTER TABLE fos_ingestion_windows
+  ADD CONSTRAINT fos_ingestion_windows_source_range_unique UNIQUE (source, window_start, window_end);
@@ -0,0 +1,52 @@
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE complaint_letters ADD COLUMN IF NOT EXISTS delivery_status TEXT;
+ALTER TABLE complaint_letters ADD COLUMN IF NOT EXISTS delivery_error TEXT;
+ALTER TABLE complaint_letters DROP CONSTRAINT IF EXISTS complaint_letters_delivery_status_check;
+ALTER TABLE complaint_letters
+  ADD CONSTRAINT complaint_letters_delivery_status_check CHECK (
+    delivery_status IS NULL OR delivery_status IN ('queued', 'sending', 'delivered', 'failed', 'bounced')
+  );
+
+CREATE TABLE IF NOT EXISTS complaint_letter_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  letter_id UUID NOT NULL REFERENCES complaint_letters(id) ON DELETE CASCADE,
+  complaint_id UUID NOT NULL REFERENCES complaints_records(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  transport TEXT NOT NULL,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  subject TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  message_id TEXT,
+  last_error TEXT,
+  requested_by TEXT,
+  requested_by_role TEXT NOT NULL DEFAULT 'operator',
+  delivered_at TIMESTAMPTZ,
+  bounced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT complaint_letter_outbox_status_check CHECK (status IN ('queued', 'sending', 'delivered', 'failed', 'bounced')),
+  CONSTRAINT complaint_letter_outbox_transport_check CHECK (transport IN ('smtp', 'file_outbox')),
+  CONSTRAINT complaint_letter_outbox_requested_by_role_check CHECK (requested_by_role IN ('operator', 'reviewer', 'manager', 'admin'))
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_complaint_letter_outbox_active_letter
+  ON complaint_letter_outbox (letter_id) WHERE status IN ('queued', 'sending');
+CREATE INDEX IF NOT EXISTS idx_complaint_letter_outbox_due ON complaint_letter_outbox (status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_complaint_letter_outbox_letter_created ON complaint_letter_outbox (letter_id, created_at DESC);
+
+ALTER TABLE complaint_activities DROP CONSTRAINT IF EXISTS complaint_activities_activity_type_check;
+ALTER TABLE complaint_activities
+  ADD CONSTRAINT complaint_activities_activity_type_check CHECK (
+    activity_type IN (
+      'complaint_created', 'status_change', 'evidence_added', 'evidence_updated', 'evidence_archived', 'evidence_deleted',
+      'letter_generated', 'letter_submitted_for_review', 'letter_approved', 'letter_rejected', 'letter_sent', 'letter_superseded',
+      'letter_delivery_queued', 'letter_delivery_failed', 'letter_bounced',
+      'note_added', 'action_created', 'action_updated', 'action_completed', 'action_deleted',
+      'decision_pinned', 'decision_unpinned',
+      'assigned', 'priority_change', 'fos_referred', 'resolved', 'closed'
+    )
+  );
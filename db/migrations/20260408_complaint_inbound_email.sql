@@ -0,0 +1,37 @@
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS complaint_inbound_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_key TEXT NOT NULL,
+  message_id TEXT,
+  complaint_id UUID REFERENCES complaints_records(id) ON DELETE SET NULL,
+  matched_by TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'upload',
+  from_email TEXT,
+  from_name TEXT,
+  subject TEXT NOT NULL DEFAULT '',
+  sent_at TIMESTAMPTZ,
+  attachment_count INTEGER NOT NULL DEFAULT 0,
+  evidence_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  skipped_attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  received_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT complaint_inbound_emails_message_key_unique UNIQUE (message_key),
+  CONSTRAINT complaint_inbound_emails_matched_by_check CHECK (matched_by IN ('reply', 'reference', 'created')),
+  CONSTRAINT complaint_inbound_emails_source_check CHECK (source IN ('upload', 'mailbox'))
+);
+CREATE INDEX IF NOT EXISTS idx_complaint_inbound_emails_created ON complaint_inbound_emails (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_complaint_inbound_emails_complaint ON complaint_inbound_emails (complaint_id, created_at DESC);
+
+ALTER TABLE complaint_activities DROP CONSTRAINT IF EXISTS complaint_activities_activity_type_check;
+ALTER TABLE complaint_activities
+  ADD CONSTRAINT complaint_activities_activity_type_check CHECK (
+    activity_type IN (
+      'complaint_created', 'status_change', 'evidence_added', 'evidence_updated', 'evidence_archived', 'evidence_deleted',
+      'letter_generated', 'letter_submitted_for_review', 'letter_approved', 'letter_rejected', 'letter_sent', 'letter_superseded',
+      'letter_delivery_queued', 'letter_delivery_failed', 'letter_bounced', 'email_received',
+      'note_added', 'action_created', 'action_updated', 'action_completed', 'action_deleted',
+      'decision_pinned', 'decision_unpinned',
+      'assigned', 'priority_change', 'fos_referred', 'resolved', 'closed'
+    )
+  );
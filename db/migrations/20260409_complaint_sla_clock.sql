@@ -0,0 +1,42 @@
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS sla_rule_set TEXT NOT NULL DEFAULT 'disp_standard';
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS sla_progress_label TEXT;
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS sla_final_label TEXT;
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS sla_paused_since DATE;
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS sla_paused_days INTEGER NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS idx_complaints_records_sla_paused ON complaints_records (sla_paused_since) WHERE sla_paused_since IS NOT NULL;
+
+ALTER TABLE complaints_workspace_settings ADD COLUMN IF NOT EXISTS sla_holiday_region TEXT NOT NULL DEFAULT 'england-and-wales';
+ALTER TABLE complaints_workspace_settings ADD COLUMN IF NOT EXISTS sla_rule_sets JSONB;
+ALTER TABLE complaints_workspace_settings DROP CONSTRAINT IF EXISTS complaints_workspace_settings_sla_holiday_region_check;
+ALTER TABLE complaints_workspace_settings
+  ADD CONSTRAINT complaints_workspace_settings_sla_holiday_region_check CHECK (sla_holiday_region IN ('england-and-wales', 'scotland', 'northern-ireland'));
+
+CREATE TABLE IF NOT EXISTS complaint_sla_pauses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES complaints_records(id) ON DELETE CASCADE,
+  paused_on DATE NOT NULL,
+  resumed_on DATE,
+  reason TEXT NOT NULL,
+  paused_by TEXT,
+  resumed_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT complaint_sla_pauses_dates_check CHECK (resumed_on IS NULL OR resumed_on >= paused_on)
+);
+CREATE INDEX IF NOT EXISTS idx_complaint_sla_pauses_complaint ON complaint_sla_pauses (complaint_id, paused_on);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_complaint_sla_pauses_open ON complaint_sla_pauses (complaint_id) WHERE resumed_on IS NULL;
+
+ALTER TABLE complaint_activities DROP CONSTRAINT IF EXISTS complaint_activities_activity_type_check;
+ALTER TABLE complaint_activities
+  ADD CONSTRAINT complaint_activities_activity_type_check CHECK (
+    activity_type IN (
+      'complaint_created', 'status_change', 'evidence_added', 'evidence_updated', 'evidence_archived', 'evidence_deleted',
+      'letter_generated', 'letter_submitted_for_review', 'letter_approved', 'letter_rejected', 'letter_sent', 'letter_superseded',
+      'letter_delivery_queued', 'letter_delivery_failed', 'letter_bounced', 'email_received',
+      'sla_clock_paused', 'sla_clock_resumed',
+      'note_added', 'action_created', 'action_updated', 'action_completed', 'action_deleted',
+      'decision_pinned', 'decision_unpinned',
+      'assigned', 'priority_change', 'fos_referred', 'resolved', 'closed'
+    )
+  );
@@ -0,0 +1,56 @@
+-- Free-text complaint types become the DISP classification. The original
+-- value is kept in legacy_complaint_type, and recognised spellings (the
+-- aliases in complaint-types.ts) map to their type.
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS legacy_complaint_type TEXT;
+
+UPDATE complaints_records
+SET legacy_complaint_type = COALESCE(legacy_complaint_type, complaint_type),
+  complaint_type = CASE TRIM(BOTH '_' FROM LOWER(REGEXP_REPLACE(COALESCE(complaint_type, ''), '[^A-Za-z0-9]+', '_', 'g')))
+    WHEN '' THEN 'standard'
+    WHEN 'general' THEN 'standard'
+    WHEN 'disp' THEN 'standard'
+    WHEN 'disp_standard' THEN 'standard'
+    WHEN 'service' THEN 'standard'
+    WHEN 'standard' THEN 'standard'
+    WHEN 'payment_services' THEN 'payment_services'
+    WHEN 'payment_service' THEN 'payment_services'
+    WHEN 'payments' THEN 'payment_services'
+    WHEN 'psd' THEN 'payment_services'
+    WHEN 'psd2' THEN 'payment_services'
+    WHEN 'psrs' THEN 'payment_services'
+    WHEN 'emd' THEN 'payment_services'
+    WHEN 'e_money' THEN 'payment_services'
+    WHEN 'emoney' THEN 'payment_services'
+    WHEN 'summary_resolution' THEN 'summary_resolution'
+    WHEN 'summary_resolution_communication' THEN 'summary_resolution'
+    WHEN 'src' THEN 'summary_resolution'
+    ELSE complaint_type
+  END
+WHERE complaint_type IS NULL OR complaint_type NOT IN ('standard', 'payment_services', 'summary_resolution');
+
+-- Anything still unrecognised is a standard DISP complaint. The count is
+-- raised as a warning so the fallbacks can be reviewed against the legacy column.
+DO $$
+DECLARE
+  defaulted INTEGER;
+BEGIN
+  UPDATE complaints_records
+  SET complaint_type = 'standard'
+  WHERE complaint_type IS NULL OR complaint_type NOT IN ('standard', 'payment_services', 'summary_resolution');
+  GET DIAGNOSTICS defaulted = ROW_COUNT;
+  IF defaulted > 0 THEN
+    RAISE WARNING '% complaint(s) had an unrecognised complaint_type and were classified as standard; originals are in legacy_complaint_type', defaulted;
+  END IF;
+END $$;
+
+ALTER TABLE complaints_records ALTER COLUMN complaint_type SET DEFAULT 'standard';
+ALTER TABLE complaints_records DROP CONSTRAINT IF EXISTS complaints_records_complaint_type_check;
+ALTER TABLE complaints_records
+  ADD CONSTRAINT complaints_records_complaint_type_check CHECK (complaint_type IN ('standard', 'payment_services', 'summary_resolution'));
+CREATE INDEX IF NOT EXISTS idx_complaints_records_complaint_type ON complaints_records (complaint_type);
+
+ALTER TABLE complaint_letters DROP CONSTRAINT IF EXISTS complaint_letters_template_key_check;
+ALTER TABLE complaint_letters
+  ADD CONSTRAINT complaint_letters_template_key_check CHECK (
+    template_key IN ('acknowledgement', 'holding_response', 'final_response', 'summary_resolution', 'fos_referral', 'custom')
+  );
@@ -0,0 +1,70 @@
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS complaint_queues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  allocation_strategy TEXT NOT NULL DEFAULT 'round_robin',
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  last_assigned_user_id UUID REFERENCES app_users(id) ON DELETE SET NULL,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT complaint_queues_allocation_strategy_check CHECK (allocation_strategy IN ('manual', 'round_robin', 'least_loaded'))
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_complaint_queues_name ON complaint_queues (LOWER(name));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_complaint_queues_default ON complaint_queues (is_default) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS complaint_queue_members (
+  queue_id UUID NOT NULL REFERENCES complaint_queues(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (queue_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_complaint_queue_members_user ON complaint_queue_members (user_id);
+
+CREATE TABLE IF NOT EXISTS complaint_handler_capacity (
+  user_id UUID PRIMARY KEY REFERENCES app_users(id) ON DELETE CASCADE,
+  max_open_complaints INTEGER NOT NULL DEFAULT 20,
+  accepting_allocations BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT complaint_handler_capacity_range_check CHECK (max_open_complaints BETWEEN 0 AND 500)
+);
+
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS assigned_user_id UUID REFERENCES app_users(id) ON DELETE SET NULL;
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS queue_id UUID REFERENCES complaint_queues(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_complaints_records_assigned_user ON complaints_records (assigned_user_id, status);
+CREATE INDEX IF NOT EXISTS idx_complaints_records_queue ON complaints_records (queue_id, status);
+
+-- Link free-text owners to the one active handler whose email or full name matches.
+UPDATE complaints_records c
+SET assigned_user_id = matched.user_id,
+    assigned_to = matched.full_name
+FROM (
+  SELECT c2.id AS complaint_id, MIN(u.id::text)::uuid AS user_id, MIN(u.full_name) AS full_name
+  FROM complaints_records c2
+  JOIN app_users u
+    ON u.is_active
+   AND u.role IN ('operator', 'reviewer', 'manager', 'admin')
+   AND (LOWER(u.email) = LOWER(TRIM(c2.assigned_to)) OR LOWER(u.full_name) = LOWER(TRIM(c2.assigned_to)))
+  WHERE c2.assigned_user_id IS NULL
+    AND COALESCE(TRIM(c2.assigned_to), '') <> ''
+  GROUP BY c2.id
+  HAVING COUNT(DISTINCT u.id) = 1
+) matched
+WHERE c.id = matched.complaint_id;
+
+ALTER TABLE complaint_activities DROP CONSTRAINT IF EXISTS complaint_activities_activity_type_check;
+ALTER TABLE complaint_activities
+  ADD CONSTRAINT complaint_activities_activity_type_check CHECK (
+    activity_type IN (
+      'complaint_created', 'status_change', 'evidence_added', 'evidence_updated', 'evidence_archived', 'evidence_deleted',
+      'letter_generated', 'letter_submitted_for_review', 'letter_approved', 'letter_rejected', 'letter_sent', 'letter_superseded',
+      'letter_delivery_queued', 'letter_delivery_failed', 'letter_bounced', 'email_received',
+      'sla_clock_paused', 'sla_clock_resumed',
+      'note_added', 'action_created', 'action_updated', 'action_completed', 'action_deleted',
+      'decision_pinned', 'decision_unpinned',
+      'assigned', 'queue_changed', 'priority_change', 'fos_referred', 'resolved', 'closed'
+    )
+  );
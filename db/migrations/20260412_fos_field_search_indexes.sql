@@ -0,0 +1,10 @@
+-- Indexes for field-scoped search terms (`reasoning:`, `complaint:`, ...).
+-- Keep the expressions in sync with TEXT_FIELD_COLUMNS in src/lib/fos/search-query.ts;
+-- the planner only uses an index whose expression matches the query exactly.
+CREATE INDEX IF NOT EXISTS idx_fos_decisions_summary_tsv ON fos_decisions USING gin (to_tsvector('english'::regconfig, LEFT(COALESCE(decision_summary, ''), 200000)));
+CREATE INDEX IF NOT EXISTS idx_fos_decisions_logic_tsv ON fos_decisions USING gin (to_tsvector('english'::regconfig, LEFT(COALESCE(decision_logic, ''), 200000)));
+CREATE INDEX IF NOT EXISTS idx_fos_decisions_complaint_tsv ON fos_decisions USING gin (to_tsvector('english'::regconfig, LEFT(COALESCE(complaint_text, ''), 200000)));
+CREATE INDEX IF NOT EXISTS idx_fos_decisions_response_tsv ON fos_decisions USING gin (to_tsvector('english'::regconfig, LEFT(COALESCE(firm_response_text, ''), 200000)));
+CREATE INDEX IF NOT EXISTS idx_fos_decisions_reasoning_tsv ON fos_decisions USING gin (to_tsvector('english'::regconfig, LEFT(COALESCE(ombudsman_reasoning_text, ''), 200000)));
+CREATE INDEX IF NOT EXISTS idx_fos_decisions_final_tsv ON fos_decisions USING gin (to_tsvector('english'::regconfig, LEFT(COALESCE(final_decision_text, ''), 200000)));
+CREATE INDEX IF NOT EXISTS idx_fos_decisions_full_text_tsv ON fos_decisions USING gin (to_tsvector('english'::regconfig, LEFT(COALESCE(full_text, ''), 400000)));
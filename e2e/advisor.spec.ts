@@ -81,7 +81,14 @@ test.describe('Advisor API - /api/fos/advisor', () => {
     expect(typeof brief.riskAssessment.upheldRate).toBe('number');
     expect(typeof brief.riskAssessment.notUpheldRate).toBe('number');
     expect(typeof brief.riskAssessment.overallUpheldRate).toBe('number');
-    expect(['low', 'medium', 'high', 'very_high']).toContain(brief.riskAssessment.upholdRiskLevel);
+    expect(['insufficient_data', 'low', 'medium', 'high', 'very_high']).toContain(brief.riskAssessment.upholdRiskLevel);
+    expect(brief.riskAssessment.confidenceInterval.method).toBe('wilson');
+    expect(brief.riskAssessment.confidenceInterval.lower).toBeLessThanOrEqual(brief.riskAssessment.upheldRate);
+    expect(brief.riskAssessment.confidenceInterval.upper).toBeGreaterThanOrEqual(brief.riskAssessment.upheldRate);
+    expect(typeof brief.riskAssessment.adjustedUpheldRate).toBe('number');
+    if (brief.riskAssessment.totalCases < brief.riskAssessment.riskPolicy.thresholds.minimumSampleSize) {
+      expect(brief.riskAssessment.upholdRiskLevel).toBe('insufficient_data');
+    }
     expect(brief.riskAssessment.riskLevel).toBe(brief.riskAssessment.upholdRiskLevel);
     expect(['improving', 'stable', 'worsening']).toContain(brief.riskAssessment.trendDirection);
     expect(Array.isArray(brief.riskAssessment.yearTrend)).toBe(true);
@@ -92,6 +99,18 @@ test.describe('Advisor API - /api/fos/advisor', () => {
     expect(Array.isArray(brief.vulnerabilities)).toBe(true);
     expect(Array.isArray(brief.sampleCases)).toBe(true);
     expect(Array.isArray(brief.recommendedActions)).toBe(true);
+
+    // AI sections are checked against the decisions they were given
+    expect(brief.aiGrounding).toBeDefined();
+    for (const key of ['executiveSummary', 'whatWins', 'whatLoses', 'guidance'] as const) {
+      const report = brief.aiGrounding[key];
+      if (!report) continue;
+      expect(['grounded', 'partially_grounded', 'ungrounded']).toContain(report.status);
+      expect(Array.isArray(report.uncitedClaims)).toBe(true);
+      for (const reference of report.unknownReferences) {
+        expect(brief.aiExecutiveSummary || '').not.toContain(reference);
+      }
+    }
   });
 
   test('returns brief with rootCause filter', async ({ request }) => {
@@ -170,4 +170,27 @@ test.describe('Synthesis API - /api/fos/analysis/synthesise', () => {
       expect(body.error).not.toContain('GROQ_API_KEY');
     }
   });
+
+  test('returns a narrative with generation metadata, degrading instead of failing', async ({ request }) => {
+    const res = await request.post('/api/fos/analysis/synthesise', {
+      data: { filters: { years: [], outcomes: [], products: [], firms: [], tags: [], query: '' } },
+    });
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    expect(body.success).toBe(true);
+    expect(body.data.narrative).toContain('## ');
+    expect(typeof body.data.generation.degraded).toBe('boolean');
+    if (!body.data.generation.degraded) {
+      expect(typeof body.data.generation.provider).toBe('string');
+    }
+  });
+});
+
+// ─── GET /api/llm/usage ──────────────────────────────────────────────────────
+
+test.describe('AI usage API - /api/llm/usage', () => {
+  test('requires a signed-in manager', async ({ request }) => {
+    const res = await request.get('/api/llm/usage');
+    expect(res.status()).toBe(401);
+  });
 });
@@ -0,0 +1,116 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+test.describe.configure({ mode: 'serial' });
+
+async function loginViaApi(request: APIRequestContext, email: string, password: string): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+type Handler = { userId: string; email: string; fullName: string; capacity: number; acceptingAllocations: boolean };
+
+test.describe('Assignment queues', () => {
+  test('queues allocate round robin, skip handlers without capacity and log reassignment', async ({ request }) => {
+    const headers = { Cookie: await loginViaApi(request, 'manager@local.test', 'ManagerPass123!') };
+    const handlers = (await (await request.get('/api/complaints/handlers', { headers })).json()).handlers as Handler[];
+    const operator = handlers.find((handler) => handler.email === 'operator@local.test')!;
+    const reviewer = handlers.find((handler) => handler.email === 'reviewer@local.test')!;
+    expect(operator).toBeTruthy();
+    expect(reviewer).toBeTruthy();
+    expect(handlers.some((handler) => handler.email === 'viewer@local.test')).toBe(false);
+
+    const stamp = Date.now();
+    const created = await request.post('/api/complaints/queues', {
+      headers,
+      data: { name: `E2E Queue ${stamp}`, allocationStrategy: 'round_robin', memberUserIds: [operator.userId, reviewer.userId] },
+    });
+    expect(created.status()).toBe(201);
+    const queue = (await created.json()).queue;
+    const complaintIds: string[] = [];
+    const create = async (suffix: string) => {
+      const complaint = (await (await request.post('/api/complaints', {
+        headers,
+        data: {
+          complaintReference: `E2E-QUEUE-${suffix}-${stamp}`,
+          complainantName: 'Queue Tester',
+          firmName: 'MEMA Test Firm',
+          receivedDate: '2026-03-20',
+          queueId: queue.id,
+          status: 'open',
+          priority: 'medium',
+        },
+      })).json()).complaint;
+      complaintIds.push(complaint.id);
+      return complaint;
+    };
+
+    try {
+      expect((await request.post('/api/complaints/queues', { headers, data: { name: queue.name.toLowerCase() } })).status()).toBe(409);
+      await request.patch(`/api/complaints/handlers/${operator.userId}`, { headers, data: { capacity: 500, acceptingAllocations: true } });
+      await request.patch(`/api/complaints/handlers/${reviewer.userId}`, { headers, data: { capacity: 500, acceptingAllocations: true } });
+
+      const first = await create('1');
+      const second = await create('2');
+      expect(first.queueId).toBe(queue.id);
+      expect([first.assignedUserId, second.assignedUserId].sort()).toEqual([operator.userId, reviewer.userId].sort());
+
+      const paused = await request.patch(`/api/complaints/handlers/${reviewer.userId}`, { headers, data: { capacity: 0 } });
+      expect((await paused.json()).handler.capacity).toBe(0);
+      const third = await create('3');
+      const fourth = await create('4');
+      expect(third.assignedUserId).toBe(operator.userId);
+      expect(fourth.assignedUserId).toBe(operator.userId);
+      expect((await request.patch(`/api/complaints/handlers/${reviewer.userId}`, { headers, data: { capacity: 501 } })).status()).toBe(400);
+
+      const target = first.assignedUserId === operator.userId ? reviewer : operator;
+      const reassigned = await request.patch(`/api/complaints/${first.id}`, { headers, data: { assignedUserId: target.userId } });
+      expect(reassigned.status()).toBe(200);
+      expect((await reassigned.json()).complaint.assignedTo).toBe(target.fullName);
+
+      const detail = (await (await request.get(`/api/complaints/${first.id}`, { headers })).json()).complaint;
+      const descriptions = (detail.activities as Array<{ activityType: string; description: string }>)
+        .filter((activity) => activity.activityType === 'assigned')
+        .map((activity) => activity.description);
+      expect(descriptions.some((description) => description.startsWith('Allocated to') && description.includes('(round robin)'))).toBe(true);
+      expect(descriptions).toContain(`Reassigned from ${first.assignedTo} to ${target.fullName}.`);
+
+      const filtered = await (await request.get(`/api/complaints?queueId=${queue.id}&assignedUserId=${operator.userId}&pageSize=50`, { headers })).json();
+      const filteredIds = (filtered.records as Array<{ id: string }>).map((record) => record.id);
+      expect(filteredIds).toEqual(expect.arrayContaining([third.id, fourth.id]));
+
+      const workload = (await (await request.get('/api/complaints/workload', { headers })).json()).workload;
+      const operatorLoad = workload.handlers.find((handler: { userId: string }) => handler.userId === operator.userId);
+      expect(operatorLoad.openComplaints).toBeGreaterThanOrEqual(2);
+      expect(workload.queues.find((candidate: { id: string }) => candidate.id === queue.id).openComplaints).toBe(4);
+    } finally {
+      for (const id of complaintIds) {
+        await request.delete(`/api/complaints/${id}`, { headers }).catch(() => undefined);
+      }
+      await request.delete(`/api/complaints/queues/${queue.id}`, { headers }).catch(() => undefined);
+      for (const handler of [operator, reviewer]) {
+        await request.patch(`/api/complaints/handlers/${handler.userId}`, {
+          headers,
+          data: { capacity: handler.capacity, acceptingAllocations: handler.acceptingAllocations },
+        }).catch(() => undefined);
+      }
+    }
+  });
+
+  test('viewers can see the workload but cannot change queues or capacity', async ({ request }) => {
+    const headers = { Cookie: await loginViaApi(request, 'viewer@local.test', 'ViewerPass123!') };
+    const workload = await request.get('/api/complaints/workload', { headers });
+    expect(workload.status()).toBe(200);
+    expect((await workload.json()).workload.unassigned).toEqual(
+      expect.objectContaining({ openComplaints: expect.any(Number), overdueComplaints: expect.any(Number) })
+    );
+    expect((await request.post('/api/complaints/queues', { headers, data: { name: `E2E Viewer Queue ${Date.now()}` } })).status()).toBe(403);
+    const handlers = (await (await request.get('/api/complaints/handlers', { headers })).json()).handlers as Handler[];
+    expect((await request.patch(`/api/complaints/handlers/${handlers[0].userId}`, { headers, data: { capacity: 1 } })).status()).toBe(403);
+  });
+});
@@ -68,6 +68,42 @@ test.describe('Similar Cases API - /api/fos/cases/[caseId]/similar', () => {
     expect(cacheControl).toContain('s-maxage');
   });
 
+  test('returns 400 for an unknown mode', async ({ request }) => {
+    const res = await request.get('/api/fos/cases/DRN-0000001/similar?mode=vector');
+    expect(res.status()).toBe(400);
+    const body = await res.json();
+    expect(body.success).toBe(false);
+    expect(body.error).toContain('mode');
+  });
+
+  test('semantic mode returns blended scores with explained signals', async ({ request }) => {
+    const dashRes = await request.get('/api/fos/analysis/cases?pageSize=1');
+    const dashBody = await dashRes.json();
+    if (!dashBody.success || !dashBody.data?.items?.length) {
+      test.skip(true, 'No cases available in the dataset.');
+      return;
+    }
+
+    const caseId = dashBody.data.items[0].caseId;
+    const res = await request.get(`/api/fos/cases/${encodeURIComponent(caseId)}/similar?mode=semantic`);
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    expect(body.success).toBe(true);
+    expect(['attribute', 'semantic']).toContain(body.data.mode);
+
+    for (const item of body.data.cases) {
+      expect(Array.isArray(item.signals)).toBe(true);
+      if (body.data.mode === 'semantic') {
+        expect(typeof item.semanticScore).toBe('number');
+        expect(item.similarityScore).toBeGreaterThanOrEqual(0);
+        expect(item.similarityScore).toBeLessThanOrEqual(100);
+        expect(item.signals.some((signal: { kind: string }) => signal.kind === 'semantic')).toBe(true);
+      } else {
+        expect(item.semanticScore).toBeNull();
+      }
+    }
+  });
+
   test('does not leak internal error details', async ({ request }) => {
     // This should trigger a 400, and response should NOT contain stack traces or DB info
     const res = await request.get('/api/fos/cases/DROP TABLE fos_decisions/similar');
@@ -0,0 +1,100 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+async function loginViaApi(
+  request: APIRequestContext,
+  email = 'operator@local.test',
+  password = 'OperatorPass123!'
+): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test('free-text comparable decision search ranks decisions and pinned decisions flow into letter intelligence', async ({ request }) => {
+  test.setTimeout(120_000);
+  const operatorCookie = await loginViaApi(request);
+  const managerCookie = await loginViaApi(request, 'manager@local.test', 'ManagerPass123!');
+  const complaintReference = `E2E-COMPARABLE-${Date.now()}`;
+
+  const createResponse = await request.post('/api/complaints', {
+    headers: { Cookie: operatorCookie },
+    data: {
+      complaintReference,
+      complainantName: 'Comparable Decisions Tester',
+      firmName: 'MEMA Test Firm',
+      receivedDate: '2026-03-23',
+      complaintType: 'service',
+      complaintCategory: 'service issue',
+      description: 'Customer says the lender did not carry out proper affordability checks before approving the loan.',
+      product: 'Banking and credit',
+      status: 'open',
+      priority: 'medium',
+    },
+  });
+  expect(createResponse.status()).toBe(201);
+  const complaintId = (await createResponse.json()).complaint.id as string;
+
+  try {
+    const searchResponse = await request.post(`/api/complaints/${complaintId}/comparable-decisions/search`, {
+      headers: { Cookie: operatorCookie },
+      data: {},
+    });
+    expect(searchResponse.status()).toBe(200);
+    const searchBody = await searchResponse.json();
+    expect(searchBody.success).toBe(true);
+    expect(searchBody.data.query.product).toBe('Banking and credit');
+    expect(Array.isArray(searchBody.data.cases)).toBe(true);
+    expect(searchBody.data.cases.length).toBeGreaterThan(0);
+
+    const top = searchBody.data.cases[0];
+    expect(top.similarityScore).toBeGreaterThanOrEqual(10);
+    expect(top.similarityScore).toBeLessThanOrEqual(100);
+    expect(top.signals.length).toBeGreaterThan(0);
+
+    const pinResponse = await request.post(`/api/complaints/${complaintId}/comparable-decisions`, {
+      headers: { Cookie: operatorCookie },
+      data: { caseId: top.caseId, note: 'Same affordability failure.' },
+    });
+    expect(pinResponse.status()).toBe(201);
+    const pinned = (await pinResponse.json()).pinnedDecision;
+    expect(pinned.caseId).toBe(top.caseId);
+    expect(pinned.note).toBe('Same affordability failure.');
+
+    const detailResponse = await request.get(`/api/complaints/${complaintId}`, {
+      headers: { Cookie: operatorCookie },
+    });
+    const detail = (await detailResponse.json()).complaint;
+    expect(detail.pinnedDecisions.map((item: { caseId: string }) => item.caseId)).toContain(top.caseId);
+    expect(detail.activities.map((item: { activityType: string }) => item.activityType)).toContain('decision_pinned');
+
+    const intelligenceResponse = await request.get(`/api/complaints/${complaintId}/letter-intelligence`, {
+      headers: { Cookie: operatorCookie },
+    });
+    const intelligence = await intelligenceResponse.json();
+    if (intelligence.data) {
+      expect(intelligence.data.sampleCases[0].caseId).toBe(top.caseId);
+      expect(intelligence.data.sampleCases[0].pinned).toBe(true);
+    }
+
+    const unpinResponse = await request.delete(
+      `/api/complaints/${complaintId}/comparable-decisions/${encodeURIComponent(top.caseId)}`,
+      { headers: { Cookie: operatorCookie } }
+    );
+    expect(unpinResponse.status()).toBe(200);
+
+    const missingResponse = await request.post(`/api/complaints/${complaintId}/comparable-decisions`, {
+      headers: { Cookie: operatorCookie },
+      data: { caseId: 'DRN-DOES-NOT-EXIST' },
+    });
+    expect(missingResponse.status()).toBe(404);
+  } finally {
+    await request.delete(`/api/complaints/${complaintId}`, {
+      headers: { Cookie: managerCookie },
+    }).catch(() => undefined);
+  }
+});
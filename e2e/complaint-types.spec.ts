@@ -0,0 +1,89 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+test.describe.configure({ mode: 'serial' });
+
+async function loginViaApi(request: APIRequestContext, email: string, password: string): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test.describe('Complaint types', () => {
+  test('aliases map to the DISP types and unknown types are rejected', async ({ request }) => {
+    const headers = { Cookie: await loginViaApi(request, 'manager@local.test', 'ManagerPass123!') };
+    const stamp = Date.now();
+    const create = (complaintReference: string, complaintType: string) => request.post('/api/complaints', {
+      headers,
+      data: {
+        complaintReference,
+        complainantName: 'Type Tester',
+        firmName: 'MEMA Test Firm',
+        receivedDate: '2026-03-20',
+        complaintType,
+        description: 'Complaint type E2E workflow.',
+        status: 'open',
+        priority: 'medium',
+      },
+    });
+
+    const rejected = await create(`E2E-TYPE-BAD-${stamp}`, 'mortgage arrears');
+    expect(rejected.status()).toBe(400);
+    expect((await rejected.json()).error).toContain('Unknown complaint type');
+
+    const payments = (await (await create(`E2E-TYPE-PSD-${stamp}`, 'PSD2')).json()).complaint;
+    const summary = (await (await create(`E2E-TYPE-SRC-${stamp}`, 'src')).json()).complaint;
+
+    try {
+      expect(payments.complaintType).toBe('payment_services');
+      expect(payments.slaSummary.ruleSet).toBe('payment_services');
+      expect(summary.complaintType).toBe('summary_resolution');
+      expect(summary.slaSummary.ruleSet).toBe('summary_resolution');
+
+      const filtered = await (await request.get(`/api/complaints?query=E2E-TYPE-&complaintType=payment_services&pageSize=50`, { headers })).json();
+      const references = (filtered.records as Array<{ complaintReference: string }>).map((record) => record.complaintReference);
+      expect(references).toContain(payments.complaintReference);
+      expect(references).not.toContain(summary.complaintReference);
+    } finally {
+      await request.delete(`/api/complaints/${payments.id}`, { headers }).catch(() => undefined);
+      await request.delete(`/api/complaints/${summary.id}`, { headers }).catch(() => undefined);
+    }
+  });
+
+  test('summary resolution letters are limited to summary resolution complaints', async ({ request }) => {
+    const headers = { Cookie: await loginViaApi(request, 'manager@local.test', 'ManagerPass123!') };
+    const stamp = Date.now();
+    const create = async (complaintReference: string, complaintType: string) => (await (await request.post('/api/complaints', {
+      headers,
+      data: {
+        complaintReference,
+        complainantName: 'Letter Tester',
+        firmName: 'MEMA Test Firm',
+        receivedDate: '2026-03-20',
+        complaintType,
+        status: 'open',
+        priority: 'medium',
+      },
+    })).json()).complaint;
+    const standard = await create(`E2E-TYPE-STD-${stamp}`, 'standard');
+    const summary = await create(`E2E-TYPE-SRCL-${stamp}`, 'summary_resolution');
+
+    try {
+      const refused = await request.post(`/api/complaints/${standard.id}/letters`, { headers, data: { templateKey: 'summary_resolution' } });
+      expect(refused.status()).toBe(400);
+
+      const drafted = await request.post(`/api/complaints/${summary.id}/letters`, { headers, data: { templateKey: 'summary_resolution' } });
+      expect(drafted.status()).toBe(201);
+      const letter = (await drafted.json()).letter;
+      expect(letter.templateKey).toBe('summary_resolution');
+      expect(letter.bodyText).toContain('If you later become dissatisfied');
+    } finally {
+      await request.delete(`/api/complaints/${standard.id}`, { headers }).catch(() => undefined);
+      await request.delete(`/api/complaints/${summary.id}`, { headers }).catch(() => undefined);
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+async function loginViaApi(
+  request: APIRequestContext,
+  email = 'reviewer@local.test',
+  password = 'ReviewerPass123!'
+): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test('reviewers correct and revert decision labels with an audit trail', async ({ request }) => {
+  test.setTimeout(120_000);
+  const casesResponse = await request.get('/api/fos/analysis/cases?pageSize=1');
+  const casesBody = await casesResponse.json();
+  test.skip(!casesBody.success || !casesBody.data?.items?.length, 'No cases available in the dataset.');
+  const caseId = casesBody.data.items[0].caseId as string;
+  const path = `/api/fos/cases/${encodeURIComponent(caseId)}/corrections`;
+
+  const reviewerCookie = await loginViaApi(request);
+  const operatorCookie = await loginViaApi(request, 'operator@local.test', 'OperatorPass123!');
+
+  const initialResponse = await request.get(path, { headers: { Cookie: reviewerCookie } });
+  expect(initialResponse.status()).toBe(200);
+  const initial = (await initialResponse.json()).corrections;
+  test.skip(initial.overrides.length > 0, 'The sample decision already carries corrections.');
+
+  const operatorPut = await request.put(path, { headers: { Cookie: operatorCookie }, data: { outcome: 'upheld' } });
+  expect(operatorPut.status()).toBe(403);
+
+  const invalid = await request.put(path, { headers: { Cookie: reviewerCookie }, data: { outcome: 'maybe' } });
+  expect(invalid.status()).toBe(400);
+
+  const outcome = initial.labels.outcome === 'upheld' ? 'not_upheld' : 'upheld';
+  const tag = `E2E correction ${Date.now().toString(36)}`;
+  const saveResponse = await request.put(path, {
+    headers: { Cookie: reviewerCookie },
+    data: { outcome, rootCauseTags: [...initial.labels.rootCauseTags, tag], note: 'E2E check' },
+  });
+  expect(saveResponse.status()).toBe(200);
+  const saved = (await saveResponse.json()).corrections;
+
+  try {
+    expect(saved.labels.outcome).toBe(outcome);
+    expect(saved.labels.rootCauseTags).toContain(tag);
+    const outcomeOverride = (saved.overrides as Array<{ field: string; machineValue: unknown }>).find((item) => item.field === 'outcome');
+    expect(outcomeOverride?.machineValue).toBe(initial.labels.outcome);
+    expect((saved.events as Array<{ action: string; note: string | null }>).some((event) => event.action === 'set' && event.note === 'E2E check')).toBe(
+      true
+    );
+  } finally {
+    const revertResponse = await request.put(path, {
+      headers: { Cookie: reviewerCookie },
+      data: { outcome: null, rootCauseTags: null },
+    });
+    expect(revertResponse.status()).toBe(200);
+    const reverted = (await revertResponse.json()).corrections;
+    expect(reverted.overrides).toHaveLength(0);
+    expect(reverted.labels.outcome).toBe(initial.labels.outcome);
+    expect(reverted.labels.rootCauseTags).not.toContain(tag);
+  }
+});
+
+test('labelling queue and tagger evaluation are reviewer-only', async ({ request }) => {
+  const reviewerCookie = await loginViaApi(request);
+  const operatorCookie = await loginViaApi(request, 'operator@local.test', 'OperatorPass123!');
+
+  const operatorQueue = await request.get('/api/labelling', { headers: { Cookie: operatorCookie } });
+  expect(operatorQueue.status()).toBe(403);
+
+  const queueResponse = await request.get('/api/labelling', { headers: { Cookie: reviewerCookie } });
+  expect(queueResponse.status()).toBe(200);
+  const queue = await queueResponse.json();
+  expect(typeof queue.summary.pending).toBe('number');
+  expect(Array.isArray(queue.items)).toBe(true);
+
+  const invalidSample = await request.post('/api/labelling', { headers: { Cookie: reviewerCookie }, data: { size: 0 } });
+  expect(invalidSample.status()).toBe(400);
+
+  const evaluationResponse = await request.get('/api/labelling/evaluation?scope=all', { headers: { Cookie: reviewerCookie } });
+  expect(evaluationResponse.status()).toBe(200);
+  const evaluation = (await evaluationResponse.json()).evaluation;
+  expect(evaluation.scope).toBe('all');
+  expect(evaluation.fields.map((field: { field: string }) => field.field)).toEqual(
+    expect.arrayContaining(['root_cause_tags', 'precedents', 'vulnerability_flags'])
+  );
+});
+
+test('labelling page requires the reviewer role', async ({ page }) => {
+  await page.goto('/labelling');
+  await expect(page).toHaveURL(/\/login\?next=/);
+
+  await page.locator('input[type="email"]').fill('reviewer@local.test');
+  await page.locator('input[type="password"]').fill('ReviewerPass123!');
+  await page.getByRole('button', { name: /sign in/i }).click();
+
+  await expect(page).toHaveURL(/\/labelling$/);
+  await expect(page.getByRole('heading', { level: 1, name: /Labelling/i })).toBeVisible();
+  await expect(page.getByTestId('labelling-summary')).toBeVisible();
+  await expect(page.getByTestId('labelling-evaluation')).toBeVisible();
+});
@@ -0,0 +1,47 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+async function loginViaApi(request: APIRequestContext, email: string, password: string): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test('section quality is admin-only and ranks decisions by section score', async ({ request }) => {
+  const anonymous = await request.get('/api/fos/data-quality');
+  expect(anonymous.status()).toBe(401);
+
+  const managerCookie = await loginViaApi(request, 'manager@local.test', 'ManagerPass123!');
+  const forbidden = await request.get('/api/fos/data-quality', { headers: { Cookie: managerCookie } });
+  expect(forbidden.status()).toBe(403);
+
+  const cookie = await loginViaApi(request, 'admin@local.test', 'AdminPass123!');
+  const response = await request.get('/api/fos/data-quality?pageSize=10', { headers: { Cookie: cookie } });
+  expect(response.status()).toBe(200);
+  const { quality } = await response.json();
+  expect(quality.current.source).toBe('live');
+  expect(Array.isArray(quality.trend)).toBe(true);
+  expect(Array.isArray(quality.runs)).toBe(true);
+  const scores = (quality.decisions as Array<{ score: number }>).map((decision) => decision.score);
+  expect(scores).toEqual([...scores].sort((a, b) => a - b));
+});
+
+test('reprocess requests are validated', async ({ request }) => {
+  const cookie = await loginViaApi(request, 'admin@local.test', 'AdminPass123!');
+
+  const tooLarge = await request.post('/api/fos/data-quality/reprocess', {
+    headers: { Cookie: cookie },
+    data: { limit: 10_000 },
+  });
+  expect(tooLarge.status()).toBe(400);
+
+  const unknown = await request.post('/api/fos/data-quality/reprocess', {
+    headers: { Cookie: cookie },
+    data: { references: ['no-such-decision-e2e'] },
+  });
+  expect(unknown.status()).toBe(409);
+});
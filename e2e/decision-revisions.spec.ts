@@ -0,0 +1,40 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+async function loginViaApi(
+  request: APIRequestContext,
+  email = 'viewer@local.test',
+  password = 'ViewerPass123!'
+): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test('decision revision history requires sign-in and lists earlier versions with diffs', async ({ request }) => {
+  const casesResponse = await request.get('/api/fos/analysis/cases?pageSize=1');
+  const casesBody = await casesResponse.json();
+  test.skip(!casesBody.success || !casesBody.data?.items?.length, 'No cases available in the dataset.');
+  const caseId = casesBody.data.items[0].caseId as string;
+  const path = `/api/fos/cases/${encodeURIComponent(caseId)}/revisions`;
+
+  const anonymous = await request.get(path);
+  expect(anonymous.status()).toBe(401);
+
+  const cookie = await loginViaApi(request);
+  const response = await request.get(path, { headers: { Cookie: cookie } });
+  expect(response.status()).toBe(200);
+  const { history } = await response.json();
+  expect(Array.isArray(history.revisions)).toBe(true);
+  for (const revision of history.revisions as Array<{ previousSha256: string; nextSha256: string; diff: unknown[] }>) {
+    expect(revision.previousSha256).not.toBe(revision.nextSha256);
+    expect(Array.isArray(revision.diff)).toBe(true);
+  }
+
+  const missing = await request.get('/api/fos/cases/no-such-decision-e2e/revisions', { headers: { Cookie: cookie } });
+  expect(missing.status()).toBe(404);
+});
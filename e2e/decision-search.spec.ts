@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+
+// ─── API tests ──────────────────────────────────────────────────────────────
+
+test.describe('Decision search - /api/fos/cases', () => {
+  test('returns ranked items with highlighted snippets for a keyword query', async ({ request }) => {
+    const res = await request.get('/api/fos/cases?query=affordability&pageSize=5');
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    expect(body.success).toBe(true);
+
+    const items = body.data.cases as Array<{ searchRank: number | null; searchSnippet: string | null }>;
+    if (!items.length) {
+      test.skip(true, 'No matching cases available in the dataset.');
+      return;
+    }
+
+    for (const item of items) {
+      expect(typeof item.searchRank).toBe('number');
+    }
+    const ranks = items.map((item) => item.searchRank as number);
+    expect([...ranks].sort((a, b) => b - a)).toEqual(ranks);
+    expect(items.some((item) => item.searchSnippet?.includes('«'))).toBe(true);
+  });
+
+  test('accepts phrase, OR, exclusion and field syntax', async ({ request }) => {
+    const queries = ['"irresponsible lending"', 'motor OR home', 'claim -settled', 'firm:bank', 'reasoning:"fair and reasonable"'];
+    for (const query of queries) {
+      const res = await request.get(`/api/fos/cases?query=${encodeURIComponent(query)}&pageSize=3`);
+      expect(res.status(), query).toBe(200);
+      const body = await res.json();
+      expect(body.success, query).toBe(true);
+      expect(Array.isArray(body.data.cases), query).toBe(true);
+    }
+  });
+
+  test('exclusions remove matching decisions', async ({ request }) => {
+    const all = await (await request.get('/api/fos/cases?query=claim&pageSize=1')).json();
+    const excluded = await (await request.get(`/api/fos/cases?query=${encodeURIComponent('claim -insurance')}&pageSize=1`)).json();
+    expect(all.success).toBe(true);
+    expect(excluded.success).toBe(true);
+    expect(excluded.data.pagination.total).toBeLessThanOrEqual(all.data.pagination.total);
+  });
+
+  test('returns unranked items without a query', async ({ request }) => {
+    const res = await request.get('/api/fos/cases?pageSize=3');
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    expect(body.success).toBe(true);
+    for (const item of body.data.cases) {
+      expect(item.searchRank).toBeNull();
+      expect(item.searchSnippet).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,100 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+async function loginViaApi(
+  request: APIRequestContext,
+  email = 'admin@local.test',
+  password = 'AdminPass123!'
+): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test('registered aliases roll published names up to an entity and its group', async ({ request }) => {
+  test.setTimeout(120_000);
+  const adminCookie = await loginViaApi(request);
+  const managerCookie = await loginViaApi(request, 'manager@local.test', 'ManagerPass123!');
+  const suffix = Date.now().toString(36);
+  const groupName = `E2E Group ${suffix}`;
+  const entityName = `E2E Entity ${suffix}`;
+
+  const suggestionsResponse = await request.get('/api/firms/suggestions?limit=5', { headers: { Cookie: managerCookie } });
+  expect(suggestionsResponse.status()).toBe(200);
+  const names = (await suggestionsResponse.json()).names as Array<{ name: string; decisionCount: number }>;
+  test.skip(names.length === 0, 'Every published firm name is already registered.');
+  const published = names[0];
+
+  const managerCreate = await request.post('/api/firms', { headers: { Cookie: managerCookie }, data: { name: groupName } });
+  expect(managerCreate.status()).toBe(403);
+
+  const groupResponse = await request.post('/api/firms', { headers: { Cookie: adminCookie }, data: { name: groupName } });
+  expect(groupResponse.status()).toBe(201);
+  const group = (await groupResponse.json()).firm;
+
+  try {
+    const entityResponse = await request.post('/api/firms', {
+      headers: { Cookie: adminCookie },
+      data: { name: entityName, parentId: group.id },
+    });
+    expect(entityResponse.status()).toBe(201);
+    const entity = (await entityResponse.json()).firm;
+    expect(entity.parentName).toBe(groupName);
+
+    const duplicate = await request.post('/api/firms', { headers: { Cookie: adminCookie }, data: { name: entityName.toUpperCase() } });
+    expect(duplicate.status()).toBe(409);
+
+    const nested = await request.patch(`/api/firms/${group.id}`, { headers: { Cookie: adminCookie }, data: { parentId: entity.id } });
+    expect(nested.status()).toBe(409);
+
+    const aliasResponse = await request.post(`/api/firms/${entity.id}/aliases`, {
+      headers: { Cookie: adminCookie },
+      data: { alias: published.name, source: 'suggestion' },
+    });
+    expect(aliasResponse.status()).toBe(201);
+    const withAlias = (await aliasResponse.json()).firm;
+    expect(withAlias.decisionCount).toBe(published.decisionCount);
+
+    const entityDashboard = await (await request.get(`/api/fos/dashboard?firm=${encodeURIComponent(entityName)}`)).json();
+    expect(entityDashboard.data.overview.totalCases).toBe(published.decisionCount);
+
+    const groupDashboard = await (
+      await request.get(`/api/fos/dashboard?firmLevel=group&firm=${encodeURIComponent(groupName)}`)
+    ).json();
+    expect(groupDashboard.data.overview.totalCases).toBe(published.decisionCount);
+
+    const directory = await (await request.get(`/api/fos/firms?firmLevel=group&q=${encodeURIComponent(groupName)}`)).json();
+    expect((directory.results as Array<{ firm: string }>).map((item) => item.firm)).toContain(groupName);
+
+    const listing = await (await request.get('/api/firms', { headers: { Cookie: managerCookie } })).json();
+    const eventTypes = (listing.events as Array<{ firmId: string; eventType: string }>)
+      .filter((event) => event.firmId === entity.id)
+      .map((event) => event.eventType);
+    expect(eventTypes).toEqual(expect.arrayContaining(['created', 'alias_added']));
+  } finally {
+    const listing = await (await request.get('/api/firms', { headers: { Cookie: adminCookie } })).json();
+    for (const firm of listing.firms as Array<{ id: string; name: string }>) {
+      if (firm.name === entityName || firm.name === groupName) {
+        await request.delete(`/api/firms/${firm.id}`, { headers: { Cookie: adminCookie } });
+      }
+    }
+  }
+});
+
+test('firm registry settings page is read-only for managers', async ({ page }) => {
+  await page.goto('/settings/firms');
+  await expect(page).toHaveURL(/\/login\?next=/);
+
+  await page.locator('input[type="email"]').fill('manager@local.test');
+  await page.locator('input[type="password"]').fill('ManagerPass123!');
+  await page.getByRole('button', { name: /sign in/i }).click();
+
+  await expect(page).toHaveURL(/\/settings\/firms$/);
+  await expect(page.getByRole('heading', { level: 1, name: /Firm registry/i })).toBeVisible();
+  await expect(page.getByTestId('firm-registry-count')).toBeVisible();
+  await expect(page.getByTestId('firm-registry-create-name')).toHaveCount(0);
+});
@@ -0,0 +1,101 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+test.describe.configure({ mode: 'serial' });
+
+interface ForecastRange {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+interface ForecastPeriod {
+  label: string;
+  start: string;
+  end: string;
+  total: ForecastRange;
+  upheldRate: ForecastRange;
+}
+
+async function loginViaApi(
+  request: APIRequestContext,
+  email = 'manager@local.test',
+  password = 'ManagerPass123!'
+): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+function expectPeriodShape(period: ForecastPeriod) {
+  expect(period.start <= period.end).toBe(true);
+  expect(period.total.lower).toBeGreaterThanOrEqual(0);
+  expect(period.total.lower).toBeLessThanOrEqual(period.total.value);
+  expect(period.total.value).toBeLessThanOrEqual(period.total.upper);
+  expect(period.upheldRate.lower).toBeGreaterThanOrEqual(0);
+  expect(period.upheldRate.lower).toBeLessThanOrEqual(period.upheldRate.value);
+  expect(period.upheldRate.value).toBeLessThanOrEqual(period.upheldRate.upper);
+  expect(period.upheldRate.upper).toBeLessThanOrEqual(100);
+}
+
+test.describe('Forecasts', () => {
+  test('forecast API returns quarterly projections with prediction intervals', async ({ request }) => {
+    const res = await request.get('/api/fos/forecast');
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    expect(body.success).toBe(true);
+    test.skip(body.data == null, 'Not enough quarterly history in the corpus.');
+
+    const forecast = body.data;
+    expect(forecast.method).toBe('damped_holt');
+    expect(forecast.intervalLevel).toBe(0.8);
+    expect(forecast.historyQuarters).toBeGreaterThanOrEqual(8);
+    expect(forecast.quarters.length).toBeGreaterThanOrEqual(5);
+    expect(forecast.quarters[1]).toEqual(forecast.nextQuarter);
+    expect(forecast.nextYear.start).toBe(forecast.quarters[1].start);
+    expect(forecast.nextYear.end).toBe(forecast.quarters[4].end);
+    (forecast.quarters as ForecastPeriod[]).forEach(expectPeriodShape);
+    expectPeriodShape(forecast.nextYear);
+
+    const currentYear = new Date().getUTCFullYear();
+    expect(forecast.years.map((year: { year: number }) => year.year)).toEqual([currentYear, currentYear + 1]);
+    expect(forecast.years[0].total.value).toBeGreaterThanOrEqual(forecast.years[0].actualToDate);
+    expect(forecast.years[1].actualToDate).toBe(0);
+  });
+
+  test('forecast ignores the year filter', async ({ request }) => {
+    const all = await (await request.get('/api/fos/forecast')).json();
+    const scoped = await (await request.get('/api/fos/forecast?year=2020')).json();
+    expect(scoped.success).toBe(true);
+    expect(scoped.data).toEqual(all.data);
+  });
+
+  test('advisor brief includes a forecast', async ({ request }) => {
+    const opts = await (await request.get('/api/fos/advisor/options')).json();
+    const product = opts.data.products[0];
+    test.skip(!product, 'No advisor briefs generated.');
+
+    const res = await request.get(`/api/fos/advisor?product=${encodeURIComponent(product)}`);
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    expect('forecast' in body.data).toBe(true);
+    if (body.data.forecast) expectPeriodShape(body.data.forecast.nextQuarter);
+  });
+
+  test('board pack preview lists the outlook section only when requested', async ({ request }) => {
+    const cookie = await loginViaApi(request);
+    const sectionStatus = async (includeForecast: boolean) => {
+      const res = await request.get(`/api/fos/board-pack?includeForecast=${includeForecast}`, { headers: { Cookie: cookie } });
+      expect(res.status()).toBe(200);
+      const body = await res.json();
+      return (body.sections as Array<{ key: string; status: string }>).find((section) => section.key === 'forecast')?.status;
+    };
+
+    expect(await sectionStatus(true)).toBe('included');
+    expect(await sectionStatus(false)).toBe('excluded');
+  });
+});
@@ -0,0 +1,137 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+test.describe.configure({ mode: 'serial' });
+
+async function loginViaApi(request: APIRequestContext, email: string, password: string): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+function buildEml(input: { messageId: string; subject: string; inReplyTo?: string; body: string }): string {
+  return [
+    'From: "Email Tester" <email.tester@example.com>',
+    'To: complaints@local.test',
+    `Subject: ${input.subject}`,
+    `Message-ID: <${input.messageId}@mail.example.com>`,
+    ...(input.inReplyTo ? [`In-Reply-To: <${input.inReplyTo}@mail.example.com>`] : []),
+    'Date: Mon, 5 Oct 2026 10:00:00 +0100',
+    'MIME-Version: 1.0',
+    'Content-Type: multipart/mixed; boundary="e2e-boundary"',
+    '',
+    '--e2e-boundary',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    input.body,
+    '--e2e-boundary',
+    'Content-Type: text/plain; name="statement.txt"',
+    'Content-Disposition: attachment; filename="statement.txt"',
+    '',
+    `Statement for ${input.messageId}`,
+    '--e2e-boundary--',
+    '',
+  ].join('\r\n');
+}
+
+test.describe('Inbound email', () => {
+  test('an unmatched email drafts a complaint and stores the message and attachment as email evidence', async ({ request }) => {
+    const headers = { Cookie: await loginViaApi(request, 'operator@local.test', 'OperatorPass123!') };
+    const messageId = `e2e-inbound-${Date.now()}`;
+    const upload = () => request.post('/api/complaints/inbound-email', {
+      headers,
+      multipart: { file: { name: 'complaint.eml', mimeType: 'message/rfc822', buffer: Buffer.from(buildEml({ messageId, subject: 'Problem with my card', body: 'My card was declined abroad.' })) } },
+    });
+
+    const first = await upload();
+    expect(first.status()).toBe(201);
+    const result = (await first.json()).results[0];
+    expect(result.duplicate).toBe(false);
+    expect(result.email).toMatchObject({ matchedBy: 'created', source: 'upload', fromEmail: 'email.tester@example.com', attachmentCount: 1 });
+    expect(result.complaint.complaintReference).toMatch(/^EML-/);
+    expect(result.complaint.complainantEmail).toBe('email.tester@example.com');
+    const complaintId = result.complaint.id as string;
+
+    try {
+      const evidence = (await (await request.get(`/api/complaints/${complaintId}/evidence`, { headers })).json()).evidence as Array<{ fileName: string; category: string }>;
+      expect(evidence.map((item) => item.category)).toEqual(['email', 'email']);
+      expect(evidence.map((item) => item.fileName).sort()).toEqual(['problem-with-my-card.eml', 'statement.txt']);
+
+      const again = await upload();
+      expect(again.status()).toBe(200);
+      const duplicate = (await again.json()).results[0];
+      expect(duplicate.duplicate).toBe(true);
+      expect(duplicate.complaint.id).toBe(complaintId);
+
+      const reply = await request.post('/api/complaints/inbound-email', {
+        headers: { ...headers, 'Content-Type': 'message/rfc822' },
+        data: buildEml({ messageId: `${messageId}-reply`, subject: 'Re: Problem with my card', inReplyTo: messageId, body: 'Any update?' }),
+      });
+      expect(reply.status()).toBe(201);
+      const replied = (await reply.json()).results[0];
+      expect(replied.email.matchedBy).toBe('reply');
+      expect(replied.complaint.id).toBe(complaintId);
+
+      const complaint = (await (await request.get(`/api/complaints/${complaintId}`, { headers })).json()).complaint;
+      const received = (complaint.activities as Array<{ activityType: string }>).filter((activity) => activity.activityType === 'email_received');
+      expect(received).toHaveLength(2);
+    } finally {
+      const manager = { Cookie: await loginViaApi(request, 'manager@local.test', 'ManagerPass123!') };
+      await request.delete(`/api/complaints/${complaintId}`, { headers: manager }).catch(() => undefined);
+    }
+  });
+
+  test('an email quoting a complaint reference is filed against that complaint', async ({ request }) => {
+    const headers = { Cookie: await loginViaApi(request, 'manager@local.test', 'ManagerPass123!') };
+    const reference = `E2E-INBOUND-${Date.now()}`;
+    const created = await request.post('/api/complaints', {
+      headers,
+      data: {
+        complaintReference: reference,
+        complainantName: 'Reference Tester',
+        firmName: 'MEMA Test Firm',
+        receivedDate: '2026-03-20',
+        description: 'Inbound email reference match.',
+        status: 'open',
+        priority: 'medium',
+      },
+    });
+    const complaintId = (await created.json()).complaint.id as string;
+
+    try {
+      const response = await request.post('/api/complaints/inbound-email', {
+        headers,
+        multipart: { file: { name: 'follow-up.eml', mimeType: 'message/rfc822', buffer: Buffer.from(buildEml({ messageId: `${reference}-msg`, subject: `RE: Your complaint [${reference.toLowerCase()}]`, body: 'Further details attached.' })) } },
+      });
+      expect(response.status()).toBe(201);
+      const result = (await response.json()).results[0];
+      expect(result.email.matchedBy).toBe('reference');
+      expect(result.complaint.id).toBe(complaintId);
+
+      const ledger = (await (await request.get('/api/complaints/inbound-email', { headers })).json()).emails as Array<{ id: string; complaintReference: string }>;
+      expect(ledger.find((entry) => entry.id === result.email.id)?.complaintReference).toBe(reference);
+    } finally {
+      await request.delete(`/api/complaints/${complaintId}`, { headers }).catch(() => undefined);
+    }
+  });
+
+  test('a message without a sender is rejected and viewers cannot upload', async ({ request }) => {
+    const operator = { Cookie: await loginViaApi(request, 'operator@local.test', 'OperatorPass123!') };
+    const rejected = await request.post('/api/complaints/inbound-email', {
+      headers: { ...operator, 'Content-Type': 'message/rfc822' },
+      data: `Subject: No sender ${Date.now()}\r\n\r\nBody`,
+    });
+    expect(rejected.status()).toBe(400);
+
+    const viewer = { Cookie: await loginViaApi(request, 'viewer@local.test', 'ViewerPass123!') };
+    const forbidden = await request.post('/api/complaints/inbound-email', {
+      headers: { ...viewer, 'Content-Type': 'message/rfc822' },
+      data: buildEml({ messageId: `viewer-${Date.now()}`, subject: 'Viewer', body: 'x' }),
+    });
+    expect(forbidden.status()).toBe(403);
+  });
+});
@@ -0,0 +1,59 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+async function loginViaApi(
+  request: APIRequestContext,
+  email = 'admin@local.test',
+  password = 'AdminPass123!'
+): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test('ingestion ledger is admin-only and validates retry requests', async ({ request }) => {
+  const adminCookie = await loginViaApi(request);
+  const managerCookie = await loginViaApi(request, 'manager@local.test', 'ManagerPass123!');
+
+  const managerLedger = await request.get('/api/fos/ingestion-ledger', { headers: { Cookie: managerCookie } });
+  expect(managerLedger.status()).toBe(403);
+
+  const ledgerResponse = await request.get('/api/fos/ingestion-ledger', { headers: { Cookie: adminCookie } });
+  expect(ledgerResponse.status()).toBe(200);
+  const ledger = (await ledgerResponse.json()).ledger;
+  expect(Array.isArray(ledger.windows)).toBe(true);
+  expect(Array.isArray(ledger.failures)).toBe(true);
+  expect(typeof ledger.totals.windows.failed).toBe('number');
+
+  const empty = await request.post('/api/fos/ingestion-ledger/retry', { headers: { Cookie: adminCookie }, data: {} });
+  expect(empty.status()).toBe(400);
+
+  const malformed = await request.post('/api/fos/ingestion-ledger/retry', {
+    headers: { Cookie: adminCookie },
+    data: { itemIds: ['not-a-uuid'] },
+  });
+  expect(malformed.status()).toBe(400);
+
+  const unknown = await request.post('/api/fos/ingestion-ledger/retry', {
+    headers: { Cookie: adminCookie },
+    data: { windowId: '00000000-0000-0000-0000-000000000000' },
+  });
+  expect(unknown.status()).toBe(404);
+});
+
+test('ingestion settings page requires the admin role', async ({ page }) => {
+  await page.goto('/settings/ingestion');
+  await expect(page).toHaveURL(/\/login\?next=/);
+
+  await page.locator('input[type="email"]').fill('admin@local.test');
+  await page.locator('input[type="password"]').fill('AdminPass123!');
+  await page.getByRole('button', { name: /sign in/i }).click();
+
+  await expect(page).toHaveURL(/\/settings\/ingestion$/);
+  await expect(page.getByRole('heading', { level: 1, name: /Ingestion/i })).toBeVisible();
+  await expect(page.getByText('Failing decisions')).toBeVisible();
+});
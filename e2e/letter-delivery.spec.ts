@@ -0,0 +1,110 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+// The dev server runs outside production without SMTP_HOST, so letters go to the file outbox.
+test.describe.configure({ mode: 'serial' });
+
+async function loginViaApi(request: APIRequestContext, email: string, password: string): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test.describe('Letter delivery', () => {
+  test('sending an approved letter delivers it, logs the send and records a bounce', async ({ request }) => {
+    const admin = await loginViaApi(request, 'admin@local.test', 'AdminPass123!');
+    const manager = await loginViaApi(request, 'manager@local.test', 'ManagerPass123!');
+    const headers = { Cookie: manager };
+
+    const originalSettings = (await (await request.get('/api/complaints/settings', { headers })).json()).settings;
+    if (!originalSettings.complaintsEmail) {
+      await request.patch('/api/complaints/settings', { headers: { Cookie: admin }, data: { ...originalSettings, complaintsEmail: 'complaints@local.test' } });
+    }
+
+    const created = await request.post('/api/complaints', {
+      headers,
+      data: {
+        complaintReference: `E2E-DELIVERY-${Date.now()}`,
+        complainantName: 'Delivery Tester',
+        complainantEmail: 'delivery.tester@example.com',
+        firmName: 'MEMA Test Firm',
+        receivedDate: '2026-03-20',
+        description: 'Letter delivery E2E workflow.',
+        product: 'Banking and credit',
+        status: 'open',
+        priority: 'medium',
+      },
+    });
+    expect(created.status()).toBe(201);
+    const complaintId = (await created.json()).complaint.id as string;
+
+    try {
+      const letterResponse = await request.post(`/api/complaints/${complaintId}/letters`, { headers, data: { templateKey: 'acknowledgement' } });
+      const letterId = (await letterResponse.json()).letter.id as string;
+      const patch = (data: Record<string, unknown>) => request.patch(`/api/complaints/letters/${letterId}`, { headers, data });
+
+      expect((await patch({ status: 'under_review' })).status()).toBe(200);
+      expect((await patch({ status: 'approved', reviewDecisionCode: 'ready_to_issue', reviewDecisionNote: 'Ready to issue.' })).status()).toBe(200);
+
+      const sent = await (await patch({ status: 'sent' })).json();
+      expect(sent.letter.status).toBe('sent');
+      expect(sent.letter.deliveryStatus).toBe('delivered');
+      expect(sent.letter.sentAt).toBeTruthy();
+
+      const deliveries = (await (await request.get(`/api/complaints/letters/${letterId}/delivery`, { headers })).json()).deliveries;
+      expect(deliveries).toHaveLength(1);
+      expect(deliveries[0]).toMatchObject({ status: 'delivered', transport: 'file_outbox', recipientEmail: 'delivery.tester@example.com', attempts: 1 });
+      expect(deliveries[0].messageId).toMatch(/^<.+@.+>$/);
+
+      const bounce = await request.post(`/api/complaints/letters/${letterId}/delivery`, { headers, data: { action: 'bounce', reason: 'Mailbox does not exist' } });
+      expect(bounce.status()).toBe(200);
+      expect((await bounce.json()).letter).toMatchObject({ deliveryStatus: 'bounced', deliveryError: 'Mailbox does not exist' });
+
+      const again = await request.post(`/api/complaints/letters/${letterId}/delivery`, { headers, data: { action: 'bounce' } });
+      expect(again.status()).toBe(409);
+
+      const complaint = (await (await request.get(`/api/complaints/${complaintId}`, { headers })).json()).complaint;
+      const types = (complaint.activities as Array<{ activityType: string }>).map((activity) => activity.activityType);
+      expect(types).toEqual(expect.arrayContaining(['letter_delivery_queued', 'letter_sent', 'letter_bounced']));
+    } finally {
+      await request.delete(`/api/complaints/${complaintId}`, { headers }).catch(() => undefined);
+      if (!originalSettings.complaintsEmail) {
+        await request.patch('/api/complaints/settings', { headers: { Cookie: admin }, data: originalSettings }).catch(() => undefined);
+      }
+    }
+  });
+
+  test('a letter without a recipient email cannot be sent', async ({ request }) => {
+    const headers = { Cookie: await loginViaApi(request, 'manager@local.test', 'ManagerPass123!') };
+    const created = await request.post('/api/complaints', {
+      headers,
+      data: {
+        complaintReference: `E2E-DELIVERY-NOEMAIL-${Date.now()}`,
+        complainantName: 'No Email Tester',
+        firmName: 'MEMA Test Firm',
+        receivedDate: '2026-03-20',
+        description: 'Letter delivery without an address.',
+        status: 'open',
+        priority: 'medium',
+      },
+    });
+    const complaintId = (await created.json()).complaint.id as string;
+
+    try {
+      const letterId = (await (await request.post(`/api/complaints/${complaintId}/letters`, { headers, data: { templateKey: 'acknowledgement' } })).json()).letter.id as string;
+      const patch = (data: Record<string, unknown>) => request.patch(`/api/complaints/letters/${letterId}`, { headers, data });
+      await patch({ status: 'under_review' });
+      await patch({ status: 'approved', reviewDecisionCode: 'ready_to_issue', reviewDecisionNote: 'Ready to issue.' });
+
+      const sent = await patch({ status: 'sent' });
+      expect(sent.status()).toBe(400);
+      expect((await sent.json()).error).toMatch(/recipient email/i);
+    } finally {
+      await request.delete(`/api/complaints/${complaintId}`, { headers }).catch(() => undefined);
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import path from 'node:path';
+import { test, expect } from '@playwright/test';
+import { createLocalArchiveSource as openLocalArchive } from '../scripts/fos/local-archive-source.mjs';
+
+// The fixture folder holds two PDFs and a manifest.csv; local-archive.zip holds the same files.
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+type LocalRecord = {
+  decision_reference: string | null;
+  decision_date_raw: string | null;
+  decision_date: string | null;
+  business_name: string | null;
+  product_sector: string | null;
+  outcome_raw: string | null;
+  snippet: string | null;
+  local_path: string;
+};
+
+type LocalArchiveSource = {
+  name: string;
+  windowed: boolean;
+  dateRange(): { startDate: string; endDate: string } | null;
+  discover(window?: { startDate?: string | null; endDate?: string | null }): Promise<LocalRecord[]>;
+  readPdf(record: LocalRecord): Promise<{ buffer: Buffer; path: string }>;
+};
+
+// The script is untyped JavaScript; this is the contract daily-ingestion.mjs relies on.
+const createLocalArchiveSource = openLocalArchive as unknown as (options: {
+  sourcePath: string;
+  log?: (message: string) => void;
+}) => Promise<LocalArchiveSource>;
+
+for (const fixture of ['local-archive', 'local-archive.zip']) {
+  test.describe(`Local archive source (${fixture})`, () => {
+    test('discovers PDFs, applies the manifest and reads each file', async () => {
+      const logs: string[] = [];
+      const source = await createLocalArchiveSource({
+        sourcePath: path.join(FIXTURES, fixture),
+        log: (message) => logs.push(message),
+      });
+      expect(source.name).toBe(`local:${fixture}`);
+      expect(source.windowed).toBe(false);
+
+      const records = await source.discover();
+      expect(records.map((record) => record.local_path)).toEqual(['2024/motor-claim.pdf', 'DRN-1234567.pdf']);
+      const [motor, bank] = records;
+
+      // Aliased headers (File Name, DRN, Date, Firm, Product, Summary); the row matched by relative path, day-first date.
+      expect(motor).toMatchObject({
+        decision_reference: 'DRN-7654321',
+        decision_date_raw: '2024-02-03',
+        decision_date: '2024-02-03',
+        business_name: 'Example Insurance Ltd',
+        product_sector: 'Motor insurance',
+        outcome_raw: 'Not upheld',
+        snippet: 'Claim declined',
+      });
+      // No DRN in the manifest: the reference comes from the file name.
+      expect(bank).toMatchObject({
+        decision_reference: 'DRN-1234567',
+        decision_date: '2024-01-15',
+        business_name: 'Example Bank plc',
+        outcome_raw: 'Upheld',
+      });
+      expect(logs.some((message) => message.includes('Manifest row 4 skipped: no PDF matches missing.pdf'))).toBe(true);
+
+      expect(source.dateRange()).toEqual({ startDate: '2024-01-15', endDate: '2024-02-03' });
+      const windowed = await source.discover({ startDate: '2024-02-01', endDate: '2024-02-29' });
+      expect(windowed.map((record) => record.decision_reference)).toEqual(['DRN-7654321']);
+
+      for (const record of records) {
+        const pdf = await source.readPdf(record);
+        expect(pdf.buffer.subarray(0, 5).toString('latin1')).toBe('%PDF-');
+        expect(pdf.path).toContain(record.local_path.split('/').pop());
+      }
+      await expect(source.readPdf({ ...bank, local_path: 'missing.pdf' })).rejects.toThrow('missing.pdf is not in');
+    });
+  });
+}
+
+test('rejects a missing local source', async () => {
+  await expect(createLocalArchiveSource({ sourcePath: path.join(FIXTURES, 'does-not-exist') })).rejects.toThrow(
+    'Local source not found'
+  );
+});
@@ -0,0 +1,78 @@
+import { test, expect } from '@playwright/test';
+
+test.describe.configure({ mode: 'serial' });
+
+// Mirrors OMBUDSMAN_MIN_DECISIONS in src/lib/fos/constants.ts.
+const MIN_DECISIONS = 30;
+
+interface OmbudsmanStat {
+  ombudsman: string;
+  total: number;
+  upheld: number | null;
+  notUpheld: number | null;
+  upheldRate: number | null;
+  notUpheldRate: number | null;
+  suppressed: boolean;
+}
+
+function expectSuppression(row: OmbudsmanStat) {
+  expect(typeof row.ombudsman).toBe('string');
+  expect(row.total).toBeGreaterThan(0);
+  if (row.total < MIN_DECISIONS) {
+    expect(row.suppressed).toBe(true);
+    expect(row.upheld).toBeNull();
+    expect(row.notUpheld).toBeNull();
+    expect(row.upheldRate).toBeNull();
+    expect(row.notUpheldRate).toBeNull();
+  } else {
+    expect(row.suppressed).toBe(false);
+    expect(row.upheldRate as number).toBeGreaterThanOrEqual(0);
+    expect(row.upheldRate as number).toBeLessThanOrEqual(100);
+    expect((row.upheld as number) + (row.notUpheld as number)).toBeLessThanOrEqual(row.total);
+  }
+}
+
+test.describe('Ombudsman analytics', () => {
+  test('analysis snapshot exposes an ombudsman distribution with small-sample suppression', async ({ request }) => {
+    const res = await request.get('/api/fos/analysis');
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    expect(body.success).toBe(true);
+    expect(Array.isArray(body.data.ombudsmen)).toBe(true);
+    expect(body.data.ombudsmen.length).toBeGreaterThan(0);
+    body.data.ombudsmen.forEach(expectSuppression);
+  });
+
+  test('ombudsman filter scopes the analysis snapshot to one ombudsman', async ({ request }) => {
+    const all = await (await request.get('/api/fos/analysis')).json();
+    const target = (all.data.ombudsmen as OmbudsmanStat[])[0];
+
+    const res = await request.get(`/api/fos/analysis?ombudsman=${encodeURIComponent(target.ombudsman)}`);
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    expect(body.filters.ombudsmen).toEqual([target.ombudsman]);
+    expect(body.data.ombudsmen).toHaveLength(1);
+    expect(body.data.ombudsmen[0].ombudsman).toBe(target.ombudsman);
+
+    const scopedTotal = (body.data.yearProductOutcome as Array<{ total: number }>).reduce((sum, row) => sum + row.total, 0);
+    expect(scopedTotal).toBeLessThanOrEqual(target.total);
+  });
+
+  test('firm comparison includes suppressed per-ombudsman breakdowns', async ({ request }) => {
+    const firmsRes = await request.get('/api/fos/firms?limit=2');
+    expect(firmsRes.status()).toBe(200);
+    const names = ((await firmsRes.json()).results as Array<{ firm: string }>).map((item) => item.firm);
+    test.skip(names.length < 2, 'Fewer than two firms in the corpus.');
+
+    const params = new URLSearchParams();
+    names.forEach((name) => params.append('firm', name));
+    const res = await request.get(`/api/fos/comparison?${params.toString()}`);
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    for (const firm of body.data.firms) {
+      expect(Array.isArray(firm.ombudsmanBreakdown)).toBe(true);
+      expect(firm.ombudsmanBreakdown.length).toBeLessThanOrEqual(10);
+      firm.ombudsmanBreakdown.forEach(expectSuppression);
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { test, expect, Page } from '@playwright/test';
+
+test.describe.configure({ mode: 'serial' });
+
+test('operational risk scores open complaints, and sorts the register', async ({ page }) => {
+  test.setTimeout(120_000);
+
+  const stamp = Date.now();
+  const riskyReference = `E2E-OPSRISK-HIGH-${stamp}`;
+  const calmReference = `E2E-OPSRISK-LOW-${stamp}`;
+  const complaintIds: string[] = [];
+
+  try {
+    await signIn(page, 'operator@local.test', 'OperatorPass123!');
+    complaintIds.push(await createComplaint(page, {
+      complaintReference: riskyReference,
+      complainantName: 'Operational Risk Tester',
+      firmName: 'MEMA Test Firm',
+      receivedDate: daysAgo(70),
+      description: 'Complainant was recently bereaved and missed repayments.',
+      product: 'Banking and credit',
+      status: 'open',
+    }));
+    complaintIds.push(await createComplaint(page, {
+      complaintReference: calmReference,
+      complainantName: 'Operational Risk Tester',
+      firmName: 'MEMA Test Firm',
+      receivedDate: daysAgo(1),
+      description: 'Routine fee query.',
+      product: 'Banking and credit',
+      status: 'open',
+    }));
+
+    const detail = await page.evaluate(async (id) => {
+      const response = await fetch(`/api/complaints/${id}`, { cache: 'no-store' });
+      return response.json();
+    }, complaintIds[0]);
+    expect(detail.success).toBeTruthy();
+    expect(detail.complaint.operationalRisk.level).toBe('critical');
+    const factorKeys = detail.complaint.operationalRisk.factors.map((factor: { key: string }) => factor.key);
+    expect(factorKeys).toEqual(expect.arrayContaining(['sla_overdue', 'vulnerability', 'evidence_gap']));
+
+    const sorted = await page.evaluate(async () => {
+      const response = await fetch('/api/complaints?query=E2E-OPSRISK&sort=operational_risk_desc&pageSize=50', { cache: 'no-store' });
+      return response.json();
+    });
+    expect(sorted.success).toBeTruthy();
+    const references = sorted.records.map((record: { complaintReference: string }) => record.complaintReference);
+    expect(references.indexOf(riskyReference)).toBeLessThan(references.indexOf(calmReference));
+
+    await page.goto(`/complaints/${complaintIds[0]}`);
+    await expect(page.getByTestId('operational-risk-badge')).toContainText(/critical/i);
+
+    await page.goto('/complaints');
+    await page.getByTestId('complaints-sort').selectOption('operational_risk_desc');
+    await expect(page.getByTestId('operational-risk-badge').first()).toBeVisible();
+  } finally {
+    await signOut(page).catch(() => undefined);
+    await signIn(page, 'manager@local.test', 'ManagerPass123!').catch(() => undefined);
+    for (const id of complaintIds) {
+      await page.evaluate(async (complaintId) => {
+        await fetch(`/api/complaints/${complaintId}`, { method: 'DELETE' });
+      }, id).catch(() => undefined);
+    }
+  }
+});
+
+async function signIn(page: Page, email: string, password: string) {
+  await page.goto('/');
+  await page.evaluate(async ({ email, password }) => {
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+      credentials: 'same-origin',
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body.success) {
+      throw new Error(body.error || 'Login failed.');
+    }
+  }, { email, password });
+  await expect.poll(async () => {
+    return page.evaluate(async () => {
+      const response = await fetch('/api/auth/me', { cache: 'no-store' });
+      return response.status;
+    });
+  }).toBe(200);
+}
+
+async function signOut(page: Page) {
+  await page.evaluate(async () => {
+    await fetch('/api/auth/logout', {
+      method: 'POST',
+      credentials: 'same-origin',
+    });
+  });
+}
+
+async function createComplaint(page: Page, payload: Record<string, unknown>) {
+  return page.evaluate(async (body) => {
+    const response = await fetch('/api/complaints', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok || !json.success) {
+      throw new Error(json.error || 'Failed to create complaint.');
+    }
+    return json.complaint.id as string;
+  }, payload);
+}
+
+function daysAgo(days: number) {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().slice(0, 10);
+}
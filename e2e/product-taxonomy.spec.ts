@@ -0,0 +1,91 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+async function loginViaApi(
+  request: APIRequestContext,
+  email = 'admin@local.test',
+  password = 'AdminPass123!'
+): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test('mapping rules relabel published product values under a product and its sector', async ({ request }) => {
+  test.setTimeout(120_000);
+  const adminCookie = await loginViaApi(request);
+  const managerCookie = await loginViaApi(request, 'manager@local.test', 'ManagerPass123!');
+  const suffix = Date.now().toString(36);
+  const sectorName = `E2E Sector ${suffix}`;
+  const productName = `E2E Product ${suffix}`;
+
+  const valuesResponse = await request.get('/api/products/values?unmapped=true&limit=5', { headers: { Cookie: managerCookie } });
+  expect(valuesResponse.status()).toBe(200);
+  const values = (await valuesResponse.json()).values as Array<{ value: string; decisionCount: number }>;
+  test.skip(values.length === 0, 'Every published product value is already mapped.');
+  const published = values[0];
+
+  const managerCreate = await request.post('/api/products', { headers: { Cookie: managerCookie }, data: { name: sectorName } });
+  expect(managerCreate.status()).toBe(403);
+
+  const sectorResponse = await request.post('/api/products', { headers: { Cookie: adminCookie }, data: { name: sectorName } });
+  expect(sectorResponse.status()).toBe(201);
+  const sector = (await sectorResponse.json()).category;
+
+  try {
+    const productResponse = await request.post('/api/products', {
+      headers: { Cookie: adminCookie },
+      data: { name: productName, parentId: sector.id },
+    });
+    expect(productResponse.status()).toBe(201);
+    const product = (await productResponse.json()).category;
+    expect(product.parentName).toBe(sectorName);
+
+    const duplicate = await request.post('/api/products', { headers: { Cookie: adminCookie }, data: { name: productName.toUpperCase() } });
+    expect(duplicate.status()).toBe(409);
+
+    const mappingResponse = await request.post('/api/products/mappings', {
+      headers: { Cookie: adminCookie },
+      data: { pattern: published.value, categoryId: product.id },
+    });
+    expect(mappingResponse.status()).toBe(201);
+    expect((await mappingResponse.json()).category.decisionCount).toBe(published.decisionCount);
+
+    const productDashboard = await (await request.get(`/api/fos/dashboard?product=${encodeURIComponent(productName)}`)).json();
+    expect(productDashboard.data.overview.totalCases).toBe(published.decisionCount);
+
+    const sectorDashboard = await (await request.get(`/api/fos/dashboard?product=${encodeURIComponent(sectorName)}`)).json();
+    expect(sectorDashboard.data.overview.totalCases).toBe(published.decisionCount);
+
+    const remaining = await (
+      await request.get('/api/products/values?unmapped=true&limit=500', { headers: { Cookie: managerCookie } })
+    ).json();
+    expect((remaining.values as Array<{ value: string }>).map((item) => item.value)).not.toContain(published.value);
+  } finally {
+    const listing = await (await request.get('/api/products', { headers: { Cookie: adminCookie } })).json();
+    const created = (listing.categories as Array<{ id: string; name: string; parentId: string | null }>)
+      .filter((category) => category.name === productName || category.name === sectorName)
+      .sort((left, right) => Number(Boolean(right.parentId)) - Number(Boolean(left.parentId)));
+    for (const category of created) {
+      await request.delete(`/api/products/${category.id}`, { headers: { Cookie: adminCookie } });
+    }
+  }
+});
+
+test('product taxonomy settings page is read-only for managers', async ({ page }) => {
+  await page.goto('/settings/products');
+  await expect(page).toHaveURL(/\/login\?next=/);
+
+  await page.locator('input[type="email"]').fill('manager@local.test');
+  await page.locator('input[type="password"]').fill('ManagerPass123!');
+  await page.getByRole('button', { name: /sign in/i }).click();
+
+  await expect(page).toHaveURL(/\/settings\/products$/);
+  await expect(page.getByRole('heading', { level: 1, name: /Product taxonomy/i })).toBeVisible();
+  await expect(page.getByTestId('product-taxonomy-count')).toBeVisible();
+  await expect(page.getByTestId('product-taxonomy-create-name')).toHaveCount(0);
+});
@@ -0,0 +1,92 @@
+import { test, expect } from '@playwright/test';
+
+test.describe.configure({ mode: 'serial' });
+
+const AWARD_TYPES = [
+  'distress_inconvenience',
+  'refund',
+  'financial_loss',
+  'claim_settlement',
+  'interest',
+  'credit_file',
+  'apology',
+  'other',
+];
+
+function expectRedressShape(redress: Record<string, unknown> & { byType: Record<string, unknown>[] }) {
+  expect(typeof redress.decisionsAnalysed).toBe('number');
+  expect(redress.decisionsAnalysed as number).toBeGreaterThan(0);
+  expect(redress.decisionsWithRedress as number).toBeLessThanOrEqual(redress.decisionsAnalysed as number);
+  expect(redress.decisionsWithMonetaryAward as number).toBeLessThanOrEqual(redress.decisionsWithRedress as number);
+
+  const amounts = redress.amounts as { p25: number; median: number; p75: number; p90: number } | null;
+  if (amounts) {
+    expect(amounts.p25).toBeLessThanOrEqual(amounts.median);
+    expect(amounts.median).toBeLessThanOrEqual(amounts.p75);
+    expect(amounts.p75).toBeLessThanOrEqual(amounts.p90);
+  }
+
+  for (const entry of redress.byType) {
+    expect(AWARD_TYPES).toContain(entry.type);
+    expect(entry.share as number).toBeGreaterThan(0);
+    expect(entry.share as number).toBeLessThanOrEqual(100);
+  }
+
+  const interest = redress.interest as { share: number; commonRate: number | null };
+  expect(interest.share).toBeGreaterThanOrEqual(0);
+  expect(interest.share).toBeLessThanOrEqual(100);
+}
+
+test.describe('Redress extraction', () => {
+  test('analysis snapshot exposes a redress distribution', async ({ request }) => {
+    const res = await request.get('/api/fos/analysis');
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    expect(body.success).toBe(true);
+    expect('redress' in body.data).toBe(true);
+
+    // Null until the enrichment backfill has extracted redress for this corpus.
+    if (body.data.redress) expectRedressShape(body.data.redress);
+  });
+
+  test('filtered analysis snapshot scopes the redress distribution', async ({ request }) => {
+    const all = await (await request.get('/api/fos/analysis')).json();
+    test.skip(!all.data.redress, 'Redress has not been extracted for this corpus.');
+
+    const res = await request.get('/api/fos/analysis?outcome=upheld');
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    if (body.data.redress) {
+      expectRedressShape(body.data.redress);
+      expect(body.data.redress.decisionsAnalysed).toBeLessThanOrEqual(all.data.redress.decisionsAnalysed);
+    }
+  });
+
+  test('advisor brief includes typical redress', async ({ request }) => {
+    const opts = await (await request.get('/api/fos/advisor/options')).json();
+    const product = opts.data.products[0];
+    test.skip(!product, 'No advisor briefs generated.');
+
+    const res = await request.get(`/api/fos/advisor?product=${encodeURIComponent(product)}`);
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    expect('typicalRedress' in body.data).toBe(true);
+    if (body.data.typicalRedress) expectRedressShape(body.data.typicalRedress);
+  });
+
+  test('advisor page renders the typical redress card when data exists', async ({ page, request }) => {
+    const opts = await (await request.get('/api/fos/advisor/options')).json();
+    const product = opts.data.products[0];
+    test.skip(!product, 'No advisor briefs generated.');
+
+    const brief = await (await request.get(`/api/fos/advisor?product=${encodeURIComponent(product)}`)).json();
+    test.skip(!brief.data.typicalRedress?.decisionsWithRedress, 'No redress extracted for this product.');
+
+    await page.goto('/advisor');
+    await expect(page.locator('#advisor-product')).not.toBeDisabled({ timeout: 15_000 });
+    await page.locator('#advisor-product').selectOption(product);
+    await page.getByRole('button', { name: /get intelligence/i }).click();
+    await expect(page.getByText('Typical Redress').first()).toBeVisible({ timeout: 30_000 });
+    await expect(page.getByTestId('redress-distribution')).toBeVisible();
+  });
+});
@@ -0,0 +1,107 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+async function loginViaApi(
+  request: APIRequestContext,
+  email = 'admin@local.test',
+  password = 'AdminPass123!'
+): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test('risk policy drafts can be simulated, scheduled and audited without changing the active bands', async ({ request }) => {
+  test.setTimeout(120_000);
+  const adminCookie = await loginViaApi(request);
+  const managerCookie = await loginViaApi(request, 'manager@local.test', 'ManagerPass123!');
+
+  const initialResponse = await request.get('/api/risk-policies', { headers: { Cookie: managerCookie } });
+  expect(initialResponse.status()).toBe(200);
+  const initial = await initialResponse.json();
+  const activeBefore = initial.active;
+  expect(activeBefore.thresholds.veryHigh).toBeGreaterThan(activeBefore.thresholds.high);
+
+  // Clear any draft left behind by an earlier run.
+  for (const policy of initial.policies as Array<{ id: string; status: string }>) {
+    if (policy.status === 'draft') {
+      await request.delete(`/api/risk-policies/${policy.id}`, { headers: { Cookie: adminCookie } });
+    }
+  }
+
+  const managerCreate = await request.post('/api/risk-policies', {
+    headers: { Cookie: managerCookie },
+    data: { thresholds: { high: 50 } },
+  });
+  expect(managerCreate.status()).toBe(403);
+
+  const invalidCreate = await request.post('/api/risk-policies', {
+    headers: { Cookie: adminCookie },
+    data: { thresholds: { medium: 90 } },
+  });
+  expect(invalidCreate.status()).toBe(400);
+
+  const invalidFloor = await request.post('/api/risk-policies', {
+    headers: { Cookie: adminCookie },
+    data: { thresholds: { minimumSampleSize: 0 } },
+  });
+  expect(invalidFloor.status()).toBe(400);
+
+  const createResponse = await request.post('/api/risk-policies', {
+    headers: { Cookie: adminCookie },
+    data: { thresholds: { veryHigh: 65 }, notes: 'E2E draft' },
+  });
+  expect(createResponse.status()).toBe(201);
+  const draft = (await createResponse.json()).policy;
+  expect(draft.state).toBe('draft');
+  expect(draft.thresholds.veryHigh).toBe(65);
+  expect(draft.thresholds.high).toBe(activeBefore.thresholds.high);
+  expect(draft.thresholds.minimumSampleSize).toBe(activeBefore.thresholds.minimumSampleSize);
+
+  const secondDraft = await request.post('/api/risk-policies', { headers: { Cookie: adminCookie }, data: {} });
+  expect(secondDraft.status()).toBe(409);
+
+  const updateResponse = await request.patch(`/api/risk-policies/${draft.id}`, {
+    headers: { Cookie: adminCookie },
+    data: { thresholds: { veryHigh: 66 } },
+  });
+  expect(updateResponse.status()).toBe(200);
+  expect((await updateResponse.json()).policy.thresholds.veryHigh).toBe(66);
+
+  const simulateResponse = await request.post('/api/risk-policies/simulate', {
+    headers: { Cookie: managerCookie },
+    data: { policyId: draft.id },
+  });
+  expect(simulateResponse.status()).toBe(200);
+  const simulation = (await simulateResponse.json()).simulation;
+  expect(simulation.proposed.veryHigh).toBe(66);
+  expect(simulation.baseline.version).toBe(activeBefore.version);
+  expect(simulation.briefs.changed).toBeLessThanOrEqual(simulation.briefs.total);
+  expect(simulation.openComplaints.escalated).toBe(0);
+
+  const publishResponse = await request.post(`/api/risk-policies/${draft.id}/publish`, {
+    headers: { Cookie: adminCookie },
+    data: { effectiveFrom: new Date(Date.now() + 365 * 86_400_000).toISOString() },
+  });
+  expect(publishResponse.status()).toBe(200);
+  const published = (await publishResponse.json()).policy;
+  expect(published.state).toBe('scheduled');
+
+  const lockedResponse = await request.patch(`/api/risk-policies/${draft.id}`, {
+    headers: { Cookie: adminCookie },
+    data: { notes: 'too late' },
+  });
+  expect(lockedResponse.status()).toBe(409);
+
+  const afterResponse = await request.get('/api/risk-policies', { headers: { Cookie: managerCookie } });
+  const after = await afterResponse.json();
+  expect(after.active.version).toBe(activeBefore.version);
+  const eventTypes = (after.events as Array<{ policyId: string; eventType: string }>)
+    .filter((event) => event.policyId === draft.id)
+    .map((event) => event.eventType);
+  expect(eventTypes).toEqual(['published', 'draft_updated', 'draft_created']);
+});
@@ -0,0 +1,100 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+async function loginViaApi(
+  request: APIRequestContext,
+  email = 'viewer@local.test',
+  password = 'ViewerPass123!'
+): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test('saved searches persist filter sets, track new decisions and export a digest', async ({ request }) => {
+  test.setTimeout(120_000);
+  const viewerCookie = await loginViaApi(request);
+  const analystCookie = await loginViaApi(request, 'operator@local.test', 'OperatorPass123!');
+  const name = `E2E saved search ${Date.now()}`;
+
+  const createResponse = await request.post('/api/fos/saved-searches', {
+    headers: { Cookie: viewerCookie },
+    data: { name, filters: { query: 'affordability', outcomes: ['upheld'], page: 3 }, alertsEnabled: true },
+  });
+  expect(createResponse.status()).toBe(201);
+  const created = (await createResponse.json()).savedSearch;
+  expect(created.filters.query).toBe('affordability');
+  expect(created.filters.outcomes).toEqual(['upheld']);
+  expect(created.filters.page).toBeUndefined();
+  expect(created.newSinceLastViewed).toBe(0);
+
+  try {
+    const duplicateResponse = await request.post('/api/fos/saved-searches', {
+      headers: { Cookie: viewerCookie },
+      data: { name: name.toUpperCase(), filters: { query: 'motor' } },
+    });
+    expect(duplicateResponse.status()).toBe(409);
+
+    const emptyResponse = await request.post('/api/fos/saved-searches', {
+      headers: { Cookie: viewerCookie },
+      data: { name: `${name} empty`, filters: {} },
+    });
+    expect(emptyResponse.status()).toBe(400);
+
+    const listResponse = await request.get('/api/fos/saved-searches', { headers: { Cookie: viewerCookie } });
+    expect(listResponse.status()).toBe(200);
+    const listed = (await listResponse.json()).savedSearches as Array<{ id: string }>;
+    expect(listed.some((item) => item.id === created.id)).toBe(true);
+
+    const otherUserList = await request.get('/api/fos/saved-searches', { headers: { Cookie: analystCookie } });
+    const otherListed = (await otherUserList.json()).savedSearches as Array<{ id: string }>;
+    expect(otherListed.some((item) => item.id === created.id)).toBe(false);
+
+    const otherUserGet = await request.get(`/api/fos/saved-searches/${created.id}`, { headers: { Cookie: analystCookie } });
+    expect(otherUserGet.status()).toBe(404);
+
+    const updateResponse = await request.patch(`/api/fos/saved-searches/${created.id}`, {
+      headers: { Cookie: viewerCookie },
+      data: { alertsEnabled: false, markViewed: true },
+    });
+    expect(updateResponse.status()).toBe(200);
+    const updated = (await updateResponse.json()).savedSearch;
+    expect(updated.alertsEnabled).toBe(false);
+    expect(updated.newSinceLastViewed).toBe(0);
+    expect(updated.unreadAlertCount).toBe(0);
+
+    const alertsResponse = await request.get('/api/fos/saved-searches/alerts?unread=true', { headers: { Cookie: viewerCookie } });
+    expect(alertsResponse.status()).toBe(200);
+    const alertsBody = await alertsResponse.json();
+    expect(Array.isArray(alertsBody.alerts)).toBe(true);
+    expect(typeof alertsBody.unreadCount).toBe('number');
+
+    const markReadResponse = await request.patch('/api/fos/saved-searches/alerts', {
+      headers: { Cookie: viewerCookie },
+      data: {},
+    });
+    expect(markReadResponse.status()).toBe(200);
+
+    const digestResponse = await request.get('/api/fos/saved-searches/digest', { headers: { Cookie: viewerCookie } });
+    expect(digestResponse.status()).toBe(200);
+    const digest = (await digestResponse.json()).digest;
+    expect(digest.entries.some((entry: { savedSearchId: string }) => entry.savedSearchId === created.id)).toBe(true);
+
+    const csvResponse = await request.get('/api/fos/saved-searches/digest?format=csv&since=2020-01-01', {
+      headers: { Cookie: viewerCookie },
+    });
+    expect(csvResponse.status()).toBe(200);
+    expect(csvResponse.headers()['content-type']).toContain('text/csv');
+    expect(await csvResponse.text()).toContain('Saved Search');
+  } finally {
+    const deleteResponse = await request.delete(`/api/fos/saved-searches/${created.id}`, { headers: { Cookie: viewerCookie } });
+    expect(deleteResponse.status()).toBe(200);
+  }
+
+  const missingResponse = await request.get(`/api/fos/saved-searches/${created.id}`, { headers: { Cookie: viewerCookie } });
+  expect(missingResponse.status()).toBe(404);
+});
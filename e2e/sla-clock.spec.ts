@@ -0,0 +1,93 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+test.describe.configure({ mode: 'serial' });
+
+async function loginViaApi(request: APIRequestContext, email: string, password: string): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test.describe('Complaint clock', () => {
+  test('payment services complaints use business days that skip Easter', async ({ request }) => {
+    const headers = { Cookie: await loginViaApi(request, 'manager@local.test', 'ManagerPass123!') };
+    const settings = (await (await request.get('/api/complaints/settings', { headers })).json()).settings;
+    test.skip(settings.slaHolidayRegion !== 'england-and-wales', 'Expected dates assume the England and Wales calendar.');
+
+    const created = await request.post('/api/complaints', {
+      headers,
+      data: {
+        complaintReference: `E2E-SLA-PSD-${Date.now()}`,
+        complainantName: 'Clock Tester',
+        firmName: 'MEMA Test Firm',
+        receivedDate: '2026-03-20',
+        complaintType: 'psd',
+        description: 'Business-day SLA E2E workflow.',
+        status: 'open',
+        priority: 'medium',
+      },
+    });
+    expect(created.status()).toBe(201);
+    const complaint = (await created.json()).complaint;
+
+    try {
+      // 15 business days from 20 March 2026, skipping Good Friday and Easter Monday.
+      expect(complaint.fourWeekDueDate).toBe('2026-04-14');
+      expect(complaint.slaSummary).toMatchObject({ ruleSet: 'payment_services', progressLabel: '15-business-day response' });
+    } finally {
+      await request.delete(`/api/complaints/${complaint.id}`, { headers }).catch(() => undefined);
+    }
+  });
+
+  test('pausing and restarting the clock moves the deadlines and logs both events', async ({ request }) => {
+    const headers = { Cookie: await loginViaApi(request, 'manager@local.test', 'ManagerPass123!') };
+    const created = await request.post('/api/complaints', {
+      headers,
+      data: {
+        complaintReference: `E2E-SLA-PAUSE-${Date.now()}`,
+        complainantName: 'Pause Tester',
+        firmName: 'MEMA Test Firm',
+        receivedDate: '2026-03-20',
+        description: 'Clock pause E2E workflow.',
+        status: 'open',
+        priority: 'medium',
+      },
+    });
+    const complaint = (await created.json()).complaint;
+    const sla = (data: Record<string, unknown>) => request.post(`/api/complaints/${complaint.id}/sla`, { headers, data });
+
+    try {
+      expect(complaint.eightWeekDueDate).toBe('2026-05-15');
+
+      expect((await sla({ action: 'pause', date: '2026-03-25' })).status()).toBe(400);
+      const paused = await sla({ action: 'pause', reason: 'Awaiting bank statements', date: '2026-03-25' });
+      expect(paused.status()).toBe(201);
+      expect((await paused.json()).complaint.slaSummary).toMatchObject({ clockPausedSince: '2026-03-25', overdue: false });
+      expect((await sla({ action: 'pause', reason: 'Again' })).status()).toBe(409);
+
+      const resumed = await sla({ action: 'resume', date: '2026-04-01' });
+      expect(resumed.status()).toBe(200);
+      const resumedComplaint = (await resumed.json()).complaint;
+      expect(resumedComplaint.eightWeekDueDate).toBe('2026-05-22');
+      expect(resumedComplaint.slaSummary).toMatchObject({ clockPausedSince: null, clockPausedDays: 7 });
+      expect((await sla({ action: 'resume' })).status()).toBe(409);
+
+      const clock = await (await request.get(`/api/complaints/${complaint.id}/sla`, { headers })).json();
+      expect(clock.pauses).toHaveLength(1);
+      expect(clock.pauses[0]).toMatchObject({ pausedOn: '2026-03-25', resumedOn: '2026-04-01', reason: 'Awaiting bank statements' });
+
+      const detail = (await (await request.get(`/api/complaints/${complaint.id}`, { headers })).json()).complaint;
+      const types = (detail.activities as Array<{ activityType: string }>).map((activity) => activity.activityType);
+      expect(types).toEqual(expect.arrayContaining(['sla_clock_paused', 'sla_clock_resumed']));
+      const finalAction = (detail.actions as Array<{ actionType: string; dueDate: string | null }>).find((action) => action.actionType === 'eight_week_final_response');
+      expect(finalAction?.dueDate).toBe('2026-05-22');
+    } finally {
+      await request.delete(`/api/complaints/${complaint.id}`, { headers }).catch(() => undefined);
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+
+async function loginViaApi(
+  request: APIRequestContext,
+  email = 'admin@local.test',
+  password = 'AdminPass123!'
+): Promise<string> {
+  const response = await request.post('/api/auth/login', {
+    data: { email, password },
+  });
+  expect(response.status()).toBe(200);
+  const setCookie = response.headers()['set-cookie'] || '';
+  const match = setCookie.match(/fci_session=([^;]+)/);
+  expect(match).toBeTruthy();
+  return `fci_session=${match![1]}`;
+}
+
+test('tag rule drafts are validated and previewed against sample decisions', async ({ request }) => {
+  test.setTimeout(120_000);
+  const adminCookie = await loginViaApi(request);
+  const managerCookie = await loginViaApi(request, 'manager@local.test', 'ManagerPass123!');
+  const label = `E2E tag ${Date.now().toString(36)}`;
+
+  const overviewResponse = await request.get('/api/tag-rules', { headers: { Cookie: managerCookie } });
+  expect(overviewResponse.status()).toBe(200);
+  const overview = await overviewResponse.json();
+  expect(overview.active.rules.root_cause_tags.length).toBeGreaterThan(0);
+  test.skip(
+    (overview.versions as Array<{ status: string }>).some((version) => version.status === 'draft'),
+    'A tag rule draft is already open.'
+  );
+
+  const managerCreate = await request.post('/api/tag-rules', { headers: { Cookie: managerCookie }, data: {} });
+  expect(managerCreate.status()).toBe(403);
+
+  const rules = structuredClone(overview.active.rules);
+  rules.root_cause_tags.push({ label, aliases: [], minScore: 1, patterns: [{ regex: '\\bthe\\b', weight: 1 }] });
+
+  const invalid = structuredClone(rules);
+  invalid.root_cause_tags[invalid.root_cause_tags.length - 1].patterns = [{ regex: '([unclosed', weight: 1 }];
+  const invalidCreate = await request.post('/api/tag-rules', { headers: { Cookie: adminCookie }, data: { rules: invalid } });
+  expect(invalidCreate.status()).toBe(400);
+
+  const catastrophic = structuredClone(rules);
+  catastrophic.root_cause_tags[catastrophic.root_cause_tags.length - 1].patterns = [{ regex: '(\\w+\\s?)*$', weight: 1 }];
+  const catastrophicPreview = await request.post('/api/tag-rules/preview', {
+    headers: { Cookie: managerCookie },
+    data: { rules: catastrophic, sampleSize: 10 },
+  });
+  expect(catastrophicPreview.status()).toBe(400);
+  expect((await catastrophicPreview.json()).error).toContain('nested quantifier');
+
+  const createResponse = await request.post('/api/tag-rules', {
+    headers: { Cookie: adminCookie },
+    data: { rules, notes: 'E2E draft' },
+  });
+  expect(createResponse.status()).toBe(201);
+  const draft = (await createResponse.json()).version;
+  expect(draft.state).toBe('draft');
+
+  try {
+    const duplicate = await request.post('/api/tag-rules', { headers: { Cookie: adminCookie }, data: {} });
+    expect(duplicate.status()).toBe(409);
+
+    const previewResponse = await request.post('/api/tag-rules/preview', {
+      headers: { Cookie: managerCookie },
+      data: { versionId: draft.id, sampleSize: 10 },
+    });
+    expect(previewResponse.status()).toBe(200);
+    const preview = (await previewResponse.json()).preview;
+    expect(preview.baselineVersion).toBe(overview.active.version);
+    const added = (preview.labels as Array<{ label: string; currentHits: number; proposedHits: number }>).find(
+      (item) => item.label === label
+    );
+    expect(added?.currentHits).toBe(0);
+    if (preview.sampleSize > 0) {
+      expect(added?.proposedHits).toBeGreaterThan(0);
+      expect(preview.changedDecisions).toBeGreaterThan(0);
+    }
+  } finally {
+    const discard = await request.delete(`/api/tag-rules/${draft.id}`, { headers: { Cookie: adminCookie } });
+    expect(discard.status()).toBe(200);
+  }
+});
+
+test('tag rule settings page is read-only for managers', async ({ page }) => {
+  await page.goto('/settings/tag-rules');
+  await expect(page).toHaveURL(/\/login\?next=/);
+
+  await page.locator('input[type="email"]').fill('manager@local.test');
+  await page.locator('input[type="password"]').fill('ManagerPass123!');
+  await page.getByRole('button', { name: /sign in/i }).click();
+
+  await expect(page).toHaveURL(/\/settings\/tag-rules$/);
+  await expect(page.getByRole('heading', { level: 1, name: /Tag rules/i })).toBeVisible();
+  await expect(page.getByTestId('tag-rules-active')).toBeVisible();
+  await expect(page.getByTestId('tag-rules-save')).toHaveCount(0);
+});
@@ -22,7 +22,7 @@ export default defineConfig({
     },
   ],
   webServer: {
-    command: `DB_SSL_MODE=require npm run dev -- --hostname ${host} --port ${port}`,
+    command: `DB_SSL_MODE=require LLM_PROVIDERS=${process.env.LLM_PROVIDERS || 'fixture'} npm run dev -- --hostname ${host} --port ${port}`,
     url: baseURL,
     reuseExistingServer: false,
     timeout: 30_000,
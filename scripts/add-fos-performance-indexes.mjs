@@ -30,6 +30,8 @@ async function main() {
       'CREATE INDEX IF NOT EXISTS idx_fos_decisions_year_expr ON fos_decisions ((EXTRACT(YEAR FROM decision_date)::INT))',
       "CREATE INDEX IF NOT EXISTS idx_fos_decisions_product_norm ON fos_decisions ((COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified')))",
       "CREATE INDEX IF NOT EXISTS idx_fos_decisions_business_norm ON fos_decisions ((COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm')))",
+      // Firm registry key (firmKeyExpression in src/lib/fos/repo-helpers.ts), used to resolve a firm filter to its spellings.
+      "CREATE INDEX IF NOT EXISTS idx_fos_decisions_firm_key ON fos_decisions ((BTRIM(REGEXP_REPLACE(LOWER(COALESCE(business_name, '')), '[^a-z0-9]+', ' ', 'g'))))",
     ];
 
     console.log('Creating FOS performance indexes...');
@@ -10,6 +10,29 @@ const { Pool } = pg;
 
 const SCRIPT_DIR = path.dirname(fileURLToPath(import.meta.url));
 
+// Mirrors searchDocumentExpression() in src/lib/fos/search-query.ts.
+const SEARCH_VECTOR_SQL = `
+  ALTER TABLE fos_decisions ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+      setweight(to_tsvector('english'::regconfig, COALESCE(decision_reference, '') || ' ' || COALESCE(business_name, '')), 'A')
+      || setweight(to_tsvector('english'::regconfig, COALESCE(product_sector, '') || ' ' || COALESCE(decision_summary, '')), 'B')
+      || setweight(to_tsvector('english'::regconfig, COALESCE(decision_logic, '') || ' ' || LEFT(COALESCE(ombudsman_reasoning_text, ''), 200000)), 'C')
+      || setweight(to_tsvector('english'::regconfig, LEFT(COALESCE(full_text, ''), 400000)), 'D')
+    ) STORED
+`;
+
+// Field-scoped search terms; mirrors TEXT_FIELD_COLUMNS in src/lib/fos/search-query.ts
+// and db/migrations/20260412_fos_field_search_indexes.sql.
+const FIELD_VECTOR_INDEXES = [
+  ['idx_fos_decisions_summary_tsv', 'decision_summary', 200000],
+  ['idx_fos_decisions_logic_tsv', 'decision_logic', 200000],
+  ['idx_fos_decisions_complaint_tsv', 'complaint_text', 200000],
+  ['idx_fos_decisions_response_tsv', 'firm_response_text', 200000],
+  ['idx_fos_decisions_reasoning_tsv', 'ombudsman_reasoning_text', 200000],
+  ['idx_fos_decisions_final_tsv', 'final_decision_text', 200000],
+  ['idx_fos_decisions_full_text_tsv', 'full_text', 400000],
+];
+
 async function main() {
   await loadLocalEnv(SCRIPT_DIR);
   if (!process.env.DATABASE_URL) {
@@ -34,8 +57,17 @@ async function main() {
       'CREATE INDEX IF NOT EXISTS idx_fos_decisions_product_trgm ON fos_decisions USING gin (product_sector gin_trgm_ops)',
       'CREATE INDEX IF NOT EXISTS idx_fos_decisions_summary_trgm ON fos_decisions USING gin (decision_summary gin_trgm_ops)',
       'CREATE INDEX IF NOT EXISTS idx_fos_decisions_logic_trgm ON fos_decisions USING gin (decision_logic gin_trgm_ops)',
+      'CREATE INDEX IF NOT EXISTS idx_fos_decisions_search_vector ON fos_decisions USING gin (search_vector)',
+      ...FIELD_VECTOR_INDEXES.map(
+        ([name, column, maxLength]) =>
+          `CREATE INDEX IF NOT EXISTS ${name} ON fos_decisions USING gin (to_tsvector('english'::regconfig, LEFT(COALESCE(${column}, ''), ${maxLength})))`
+      ),
     ];
 
+    const vectorStart = Date.now();
+    await client.query(SEARCH_VECTOR_SQL);
+    console.log(`ALTER TABLE fos_decisions ADD COLUMN search_vector (${Date.now() - vectorStart}ms)`);
+
     for (const sql of statements) {
       const start = Date.now();
       await client.query(sql);
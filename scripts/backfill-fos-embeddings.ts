@@ -0,0 +1,194 @@
+/**
+ * Backfills `fos_decisions.embedding` with the local text encoder used by
+ * semantic similar-decision search.
+ *
+ * Usage:
+ *   npm run db:backfill-fos-embeddings -- --batch-size 200
+ *
+ * Flags:
+ *   --batch-size <n>    rows per batch (default 200)
+ *   --limit <n>         stop after n rows
+ *   --model <name>      encoder to use (default FOS_EMBEDDING_MODEL or hashing-v1-512)
+ *   --rebuild           re-encode rows that already carry this model's embedding
+ *   --no-resume         ignore saved progress state
+ *   --state-file <path> custom state location
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import pg from 'pg';
+import { connectWithRetry, createPoolConfig, loadLocalEnv } from './lib/db-runtime.mjs';
+import { buildEmbeddingDocument, getTextEncoder, serializeEmbedding } from '../src/lib/fos/embeddings';
+
+const { Pool } = pg;
+
+const SCRIPT_DIR = __dirname;
+const DEFAULT_BATCH_SIZE = 200;
+const DEFAULT_STATE_FILE = path.join(SCRIPT_DIR, '..', 'tmp', 'fos-embeddings-state.json');
+
+type BackfillState = {
+  model: string;
+  startedAt: string;
+  finishedAt?: string | null;
+  completed: boolean;
+  scanned: number;
+  updated: number;
+  batches: number;
+  lastId: string | null;
+  updatedAt: string | null;
+};
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (!token.startsWith('--')) continue;
+    const key = token.slice(2);
+    const next = argv[i + 1];
+    if (!next || next.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = next;
+      i += 1;
+    }
+  }
+  return args;
+}
+
+function toInt(value: unknown, fallback = 0): number {
+  const parsed = Number.parseInt(String(value), 10);
+  return Number.isInteger(parsed) ? parsed : fallback;
+}
+
+async function readState(stateFile: string): Promise<BackfillState | null> {
+  try {
+    return JSON.parse(await fs.readFile(stateFile, 'utf8')) as BackfillState;
+  } catch {
+    return null;
+  }
+}
+
+async function writeState(stateFile: string, state: BackfillState): Promise<void> {
+  await fs.mkdir(path.dirname(stateFile), { recursive: true });
+  await fs.writeFile(stateFile, `${JSON.stringify(state, null, 2)}\n`, 'utf8');
+}
+
+async function main(): Promise<void> {
+  await loadLocalEnv(SCRIPT_DIR);
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL is required.');
+  }
+
+  const args = parseArgs(process.argv.slice(2));
+  const batchSize = Math.max(1, toInt(args['batch-size'], DEFAULT_BATCH_SIZE));
+  const limit = args.limit ? Math.max(1, toInt(args.limit, 0)) : null;
+  const stateFile = typeof args['state-file'] === 'string' ? path.resolve(args['state-file']) : DEFAULT_STATE_FILE;
+  const rebuild = Boolean(args.rebuild);
+  const encoder = getTextEncoder(typeof args.model === 'string' ? args.model : null);
+
+  const savedState = args['no-resume'] ? null : await readState(stateFile);
+  const state: BackfillState =
+    savedState && savedState.model === encoder.model
+      ? { ...savedState, completed: false, finishedAt: null }
+      : {
+          model: encoder.model,
+          startedAt: new Date().toISOString(),
+          completed: false,
+          scanned: 0,
+          updated: 0,
+          batches: 0,
+          lastId: null,
+          updatedAt: null,
+        };
+
+  const pool = new Pool(createPoolConfig({ connectionString: process.env.DATABASE_URL, connectionTimeoutMillis: 8_000 }));
+  const client = await connectWithRetry(pool, { label: 'db:backfill-fos-embeddings connect' });
+
+  try {
+    console.log(`Starting embedding backfill | model: ${encoder.model} (${encoder.dim} dims) | batch size: ${batchSize}`);
+
+    let exhausted = false;
+    while (true) {
+      if (limit && state.scanned >= limit) break;
+      const effectiveBatchSize = limit ? Math.max(1, Math.min(batchSize, limit - state.scanned)) : batchSize;
+
+      const { rows } = await client.query(
+        `
+          SELECT
+            id::TEXT AS id,
+            decision_summary,
+            decision_logic,
+            complaint_text,
+            ombudsman_reasoning_text,
+            final_decision_text
+          FROM fos_decisions
+          WHERE ($1::uuid IS NULL OR id > $1::uuid)
+            AND ($2::BOOLEAN OR embedding IS NULL OR embedding_model IS DISTINCT FROM $3)
+          ORDER BY id ASC
+          LIMIT $4
+        `,
+        [state.lastId, rebuild, encoder.model, effectiveBatchSize]
+      );
+      if (!rows.length) {
+        exhausted = true;
+        break;
+      }
+
+      const ids: string[] = [];
+      const embeddings: string[] = [];
+      for (const row of rows) {
+        const document = buildEmbeddingDocument({
+          decisionSummary: row.decision_summary,
+          decisionLogic: row.decision_logic,
+          complaintText: row.complaint_text,
+          ombudsmanReasoningText: row.ombudsman_reasoning_text,
+          finalDecisionText: row.final_decision_text,
+        });
+        if (!document) continue;
+        ids.push(row.id);
+        embeddings.push(serializeEmbedding(encoder.encode(document)));
+      }
+
+      if (ids.length > 0) {
+        await client.query(
+          `
+            UPDATE fos_decisions d
+            SET embedding = v.embedding::jsonb,
+                embedding_model = $3,
+                embedding_dim = $4,
+                updated_at = NOW()
+            FROM UNNEST($1::uuid[], $2::TEXT[]) AS v(id, embedding)
+            WHERE d.id = v.id
+          `,
+          [ids, embeddings, encoder.model, encoder.dim]
+        );
+      }
+
+      state.lastId = rows[rows.length - 1].id;
+      state.scanned += rows.length;
+      state.updated += ids.length;
+      state.batches += 1;
+      state.updatedAt = new Date().toISOString();
+
+      if (state.batches % 10 === 0) {
+        console.log(`batch=${state.batches} scanned=${state.scanned.toLocaleString()} updated=${state.updated.toLocaleString()}`);
+      }
+      await writeState(stateFile, state);
+    }
+
+    state.completed = exhausted;
+    state.finishedAt = exhausted ? new Date().toISOString() : null;
+    await writeState(stateFile, state);
+    console.log(
+      `${exhausted ? 'Embedding backfill complete' : 'Embedding backfill paused'} | scanned=${state.scanned.toLocaleString()} updated=${state.updated.toLocaleString()} state=${stateFile}`
+    );
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error('Embedding backfill failed:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
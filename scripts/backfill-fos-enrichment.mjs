@@ -6,12 +6,16 @@ import process from 'node:process';
 import { fileURLToPath } from 'node:url';
 import pg from 'pg';
 import { connectWithRetry, createPoolConfig, loadLocalEnv } from './lib/db-runtime.mjs';
+import { applyDecisionOverrides } from './lib/decision-overrides.mjs';
+import { extractRedress } from './lib/redress-extraction.mjs';
+import { buildTagSource, compileTagRules, loadActiveTagRules, normalizeTagList, tagText } from './lib/tag-rules.mjs';
 
 const { Pool } = pg;
 
 const SCRIPT_DIR = path.dirname(fileURLToPath(import.meta.url));
 const DEFAULT_BATCH_SIZE = 250;
 const DEFAULT_STATE_FILE = path.join(SCRIPT_DIR, '..', 'tmp', 'fos-backfill-state.json');
+const REDRESS_MIGRATION_PATH = path.join(SCRIPT_DIR, '..', 'db', 'migrations', '20260329_fos_redress_extraction.sql');
 
 const SECTION_CONFIDENCE = {
   stored: 0.98,
@@ -96,256 +100,6 @@ const FINAL_DECISION_HEADINGS = [
   /^decision\s*:?$/i,
 ];
 
-const PRECEDENT_RULES = [
-  {
-    label: 'DISP',
-    aliases: ['disp rules', 'fca disp'],
-    minScore: 2,
-    patterns: [
-      { regex: /\bdisp\s*\d/i, weight: 2 },
-      { regex: /\bdisp\b/i, weight: 1 },
-    ],
-  },
-  {
-    label: 'PRIN',
-    aliases: ['fca principles', 'fca principle'],
-    minScore: 2,
-    patterns: [
-      { regex: /\bprin\s*\d/i, weight: 2 },
-      { regex: /\bprin\b/i, weight: 1 },
-      { regex: /\bfca principles?\b/i, weight: 2 },
-    ],
-  },
-  {
-    label: 'ICOBS',
-    aliases: ['insurance conduct of business sourcebook'],
-    minScore: 1,
-    patterns: [{ regex: /\bicobs\b/i, weight: 2 }],
-  },
-  {
-    label: 'COBS',
-    aliases: ['conduct of business sourcebook'],
-    minScore: 1,
-    patterns: [{ regex: /\bcobs\b/i, weight: 2 }],
-  },
-  {
-    label: 'MCOB',
-    aliases: ['mortgage conduct of business sourcebook'],
-    minScore: 1,
-    patterns: [{ regex: /\bmcob\b/i, weight: 2 }],
-  },
-  {
-    label: 'CONC',
-    aliases: ['consumer credit sourcebook'],
-    minScore: 1,
-    patterns: [{ regex: /\bconc\b/i, weight: 2 }],
-  },
-  {
-    label: 'SYSC',
-    aliases: ['systems and controls'],
-    minScore: 1,
-    patterns: [{ regex: /\bsysc\b/i, weight: 2 }],
-  },
-  {
-    label: 'FSMA',
-    aliases: ['financial services and markets act'],
-    minScore: 1,
-    patterns: [
-      { regex: /\bfsma\b/i, weight: 2 },
-      { regex: /\bfinancial services and markets act\b/i, weight: 2 },
-    ],
-  },
-  {
-    label: 'Consumer Credit Act 1974',
-    aliases: ['cca', 'consumer credit act'],
-    minScore: 2,
-    patterns: [
-      { regex: /\bconsumer credit act\b/i, weight: 2 },
-      { regex: /\bcca\b/i, weight: 1 },
-    ],
-  },
-  {
-    label: 'Section 75 CCA',
-    aliases: ['s75 cca', 'section 75'],
-    minScore: 1,
-    patterns: [{ regex: /\bsection\s*75\b/i, weight: 2 }],
-  },
-  {
-    label: 'Section 140A CCA',
-    aliases: ['s140a', 'section 140a'],
-    minScore: 1,
-    patterns: [{ regex: /\bsection\s*140a\b/i, weight: 2 }],
-  },
-  {
-    label: 'Insurance Act 2015',
-    aliases: ['insurance act'],
-    minScore: 1,
-    patterns: [{ regex: /\binsurance act(?:\s*2015)?\b/i, weight: 2 }],
-  },
-  {
-    label: 'Distance Marketing Regulations',
-    aliases: ['distance marketing'],
-    minScore: 1,
-    patterns: [{ regex: /\bdistance marketing regulations?\b/i, weight: 2 }],
-  },
-  {
-    label: 'Payment Services Regulations',
-    aliases: ['psr'],
-    minScore: 1,
-    patterns: [
-      { regex: /\bpayment services regulations?\b/i, weight: 2 },
-      { regex: /\bpsr\b/i, weight: 1 },
-    ],
-  },
-];
-
-const ROOT_CAUSE_RULES = [
-  {
-    label: 'Communication failure',
-    aliases: ['poor communication', 'miscommunication'],
-    minScore: 2,
-    patterns: [
-      { regex: /\b(poor|unclear|misleading)\s+communication\b/i, weight: 2 },
-      { regex: /\bfailed to explain\b/i, weight: 2 },
-      { regex: /\bnot (told|informed|made aware)\b/i, weight: 1 },
-      { regex: /\bunclear (letter|email|advice)\b/i, weight: 1 },
-    ],
-  },
-  {
-    label: 'Delay in claim handling',
-    aliases: ['claims delay', 'service delay'],
-    minScore: 2,
-    patterns: [
-      { regex: /\b(delay|delayed|late|timescale|waiting time|took too long)\b/i, weight: 1 },
-      { regex: /\bclaim (was )?(delayed|handled late)\b/i, weight: 2 },
-      { regex: /\bunreasonable delay\b/i, weight: 2 },
-    ],
-  },
-  {
-    label: 'Policy wording ambiguity',
-    aliases: ['unclear policy terms', 'policy ambiguity'],
-    minScore: 2,
-    patterns: [
-      { regex: /\b(policy wording|ambiguous|unclear term|small print|exclusion clause)\b/i, weight: 2 },
-      { regex: /\bterm(s)? (were|was) unclear\b/i, weight: 2 },
-      { regex: /\bpolicy (didn['’]t|did not) make clear\b/i, weight: 2 },
-    ],
-  },
-  {
-    label: 'Affordability assessment failure',
-    aliases: ['irresponsible lending', 'creditworthiness failure'],
-    minScore: 2,
-    patterns: [
-      { regex: /\b(affordability|unaffordable|creditworthiness|irresponsible lending)\b/i, weight: 2 },
-      { regex: /\b(insufficient|inadequate) (checks|assessment)\b/i, weight: 1 },
-      { regex: /\bfailed to carry out affordability checks\b/i, weight: 2 },
-    ],
-  },
-  {
-    label: 'Administrative error',
-    aliases: ['clerical error', 'processing error'],
-    minScore: 2,
-    patterns: [
-      { regex: /\b(administrative|clerical|processing|data entry|system)\s+error\b/i, weight: 2 },
-      { regex: /\bincorrectly (recorded|processed|applied)\b/i, weight: 1 },
-      { regex: /\bmistake in records\b/i, weight: 1 },
-    ],
-  },
-  {
-    label: 'Fraud or scam concern',
-    aliases: ['scam', 'app fraud', 'authorised push payment'],
-    minScore: 2,
-    patterns: [
-      { regex: /\b(fraud|scam|authorised push payment|app fraud)\b/i, weight: 2 },
-      { regex: /\bimpersonation\b/i, weight: 1 },
-      { regex: /\bcriminal(?:s)?\b/i, weight: 1 },
-    ],
-  },
-  {
-    label: 'Non-disclosure or misrepresentation',
-    aliases: ['misrepresentation', 'non disclosure'],
-    minScore: 2,
-    patterns: [
-      { regex: /\b(non[- ]?disclosure|misrepresentation|failed to disclose)\b/i, weight: 2 },
-      { regex: /\bmaterial information\b/i, weight: 1 },
-      { regex: /\binaccurate information provided\b/i, weight: 1 },
-    ],
-  },
-];
-
-const VULNERABILITY_RULES = [
-  {
-    label: 'Bereavement',
-    aliases: ['bereaved', 'widow', 'widower'],
-    minScore: 1,
-    patterns: [
-      { regex: /\b(bereave|bereavement|late husband|late wife|widow|widower)\b/i, weight: 2 },
-      { regex: /\bdeath of (a|their|his|her) (partner|spouse|family member)\b/i, weight: 1 },
-    ],
-  },
-  {
-    label: 'Mental health',
-    aliases: ['depression', 'anxiety'],
-    minScore: 1,
-    patterns: [
-      { regex: /\b(mental health|depression|anxiety|stress)\b/i, weight: 2 },
-      { regex: /\bpanic attacks?\b/i, weight: 1 },
-      { regex: /\bpost[- ]?traumatic stress\b/i, weight: 1 },
-    ],
-  },
-  {
-    label: 'Physical health',
-    aliases: ['disability', 'illness'],
-    minScore: 1,
-    patterns: [
-      { regex: /\b(illness|disability|long[- ]term condition|hospital)\b/i, weight: 2 },
-      { regex: /\bserious (injury|condition)\b/i, weight: 1 },
-      { regex: /\bmedical condition\b/i, weight: 1 },
-    ],
-  },
-  {
-    label: 'Financial hardship',
-    aliases: ['hardship', 'arrears'],
-    minScore: 1,
-    patterns: [
-      { regex: /\b(financial hardship|hardship|arrears|debt|struggling financially)\b/i, weight: 2 },
-      { regex: /\bunable to (pay|afford)\b/i, weight: 1 },
-      { regex: /\bpayment difficulties\b/i, weight: 1 },
-    ],
-  },
-  {
-    label: 'Domestic abuse',
-    aliases: ['financial abuse', 'coercive control'],
-    minScore: 1,
-    patterns: [
-      { regex: /\b(domestic abuse|coercive control|financial abuse)\b/i, weight: 2 },
-      { regex: /\babusive relationship\b/i, weight: 1 },
-    ],
-  },
-  {
-    label: 'Unemployment',
-    aliases: ['redundancy', 'job loss'],
-    minScore: 1,
-    patterns: [
-      { regex: /\b(unemploy(?:ed|ment)?|redundan(?:t|cy))\b/i, weight: 2 },
-      { regex: /\blost (his|her|their) job\b/i, weight: 1 },
-    ],
-  },
-  {
-    label: 'Language barrier',
-    aliases: ['interpreter required', 'english not first language'],
-    minScore: 1,
-    patterns: [
-      { regex: /\b(language barrier|english is not (my|their) first language|interpreter)\b/i, weight: 2 },
-      { regex: /\brequired translation\b/i, weight: 1 },
-    ],
-  },
-];
-
-const PRECEDENT_ALIAS_MAP = buildAliasMap(PRECEDENT_RULES);
-const ROOT_CAUSE_ALIAS_MAP = buildAliasMap(ROOT_CAUSE_RULES);
-const VULNERABILITY_ALIAS_MAP = buildAliasMap(VULNERABILITY_RULES);
-
 const CANDIDATE_WHERE_SQL = `
   (
     NULLIF(BTRIM(COALESCE(complaint_text, '')), '') IS NULL
@@ -356,6 +110,7 @@ const CANDIDATE_WHERE_SQL = `
     OR jsonb_array_length(COALESCE(precedents, '[]'::jsonb)) = 0
     OR jsonb_array_length(COALESCE(root_cause_tags, '[]'::jsonb)) = 0
     OR jsonb_array_length(COALESCE(vulnerability_flags, '[]'::jsonb)) = 0
+    OR redress_extracted_at IS NULL
   )
 `;
 
@@ -376,6 +131,11 @@ function parseArgs(argv) {
   return args;
 }
 
+async function applyRedressSchema(client) {
+  const migrationSql = await fs.readFile(REDRESS_MIGRATION_PATH, 'utf8');
+  await client.query(migrationSql);
+}
+
 async function ensureDirectoryExists(filePath) {
   await fs.mkdir(path.dirname(filePath), { recursive: true });
 }
@@ -600,79 +360,6 @@ function parseStringArray(input) {
   return normalizeStringList(trimmed.split(','));
 }
 
-function buildAliasMap(rules) {
-  const map = new Map();
-  for (const rule of rules) {
-    map.set(rule.label.toLowerCase(), rule.label);
-    for (const alias of rule.aliases || []) {
-      map.set(String(alias).toLowerCase(), rule.label);
-    }
-  }
-  return map;
-}
-
-function normalizeTagList(values, aliasMap) {
-  const out = [];
-  const seen = new Set();
-  for (const value of values || []) {
-    const cleaned = cleanText(value);
-    if (!cleaned) continue;
-    const canonical = aliasMap.get(cleaned.toLowerCase()) || cleaned;
-    const key = canonical.toLowerCase();
-    if (seen.has(key)) continue;
-    seen.add(key);
-    out.push(canonical);
-  }
-  return out;
-}
-
-function detectTagsWithConfidence(text, rules, aliasMap, options = {}) {
-  if (!text || !text.trim()) {
-    return { labels: [], confidence: 0, detail: [] };
-  }
-
-  const detected = [];
-  for (const rule of rules) {
-    let score = 0;
-    let matched = 0;
-    for (const pattern of rule.patterns || []) {
-      if (pattern.regex.test(text)) {
-        score += pattern.weight || 1;
-        matched += 1;
-      }
-    }
-
-    if (matched === 0) continue;
-    const minScore = Math.max(1, rule.minScore || 1);
-    if (score < minScore) continue;
-
-    detected.push({
-      label: rule.label,
-      score,
-      confidence: clamp(0.42 + score * 0.09, 0, 0.96),
-    });
-  }
-
-  detected.sort((a, b) => b.score - a.score || a.label.localeCompare(b.label));
-
-  const labels = normalizeTagList(
-    detected.slice(0, options.maxTags || 12).map((item) => item.label),
-    aliasMap
-  );
-
-  const detail = detected.slice(0, options.maxTags || 12).map((item) => ({
-    label: item.label,
-    score: item.score,
-    confidence: item.confidence,
-  }));
-
-  const confidence = detail.length
-    ? detail.reduce((sum, item) => sum + item.confidence, 0) / detail.length
-    : 0;
-
-  return { labels, confidence, detail };
-}
-
 function listEqual(a, b) {
   if (a.length !== b.length) return false;
   for (let i = 0; i < a.length; i += 1) {
@@ -763,6 +450,12 @@ function createRunStats() {
       rootCauseTags: newTagCounter(),
       vulnerabilityFlags: newTagCounter(),
     },
+    redress: {
+      extracted: 0,
+      withMonetaryAward: 0,
+      withInterest: 0,
+      awardTypes: {},
+    },
   };
 }
 
@@ -788,6 +481,15 @@ function accumulateRunStats(stats, meta) {
     }
     stats.tags[name][source] += 1;
   }
+
+  if (meta.redress) {
+    stats.redress.extracted += 1;
+    if (meta.redress.totalAmount != null) stats.redress.withMonetaryAward += 1;
+    if (meta.redress.interestRate != null) stats.redress.withInterest += 1;
+    for (const type of meta.redress.awardTypes) {
+      stats.redress.awardTypes[type] = (stats.redress.awardTypes[type] || 0) + 1;
+    }
+  }
 }
 
 async function writeRunReport(reportFile, payload) {
@@ -796,7 +498,7 @@ async function writeRunReport(reportFile, payload) {
   await fs.writeFile(reportFile, `${JSON.stringify(payload, null, 2)}\n`, 'utf8');
 }
 
-function enrichRow(row) {
+function enrichRow(row, tagRules) {
   const fullText = cleanDecisionText(row.full_text);
 
   const complaintResult = resolveSectionValue({
@@ -867,32 +569,35 @@ function enrichRow(row) {
     cleanText(row.decision_logic) ||
     synthesizeDecisionLogic(row.decision_summary, reasoning, finalDecision, complaint, firmResponse);
 
-  const existingPrecedents = normalizeTagList(parseStringArray(row.precedents), PRECEDENT_ALIAS_MAP);
-  const existingRootCauses = normalizeTagList(parseStringArray(row.root_cause_tags), ROOT_CAUSE_ALIAS_MAP);
-  const existingVulnerabilityFlags = normalizeTagList(parseStringArray(row.vulnerability_flags), VULNERABILITY_ALIAS_MAP);
+  const existingPrecedents = normalizeTagList(parseStringArray(row.precedents), tagRules.precedents.aliasMap);
+  const existingRootCauses = normalizeTagList(parseStringArray(row.root_cause_tags), tagRules.root_cause_tags.aliasMap);
+  const existingVulnerabilityFlags = normalizeTagList(parseStringArray(row.vulnerability_flags), tagRules.vulnerability_flags.aliasMap);
 
-  const tagSource = [
+  const tagSource = buildTagSource({
     decisionLogic,
-    row.decision_summary,
+    decisionSummary: row.decision_summary,
     complaint,
     firmResponse,
     reasoning,
     finalDecision,
-    fullText?.slice(0, 18000),
-  ]
-    .filter(Boolean)
-    .join('\n');
+    fullText,
+  });
 
-  const detectedPrecedents = detectTagsWithConfidence(tagSource, PRECEDENT_RULES, PRECEDENT_ALIAS_MAP);
-  const detectedRootCauses = detectTagsWithConfidence(tagSource, ROOT_CAUSE_RULES, ROOT_CAUSE_ALIAS_MAP);
-  const detectedVulnerabilityFlags = detectTagsWithConfidence(tagSource, VULNERABILITY_RULES, VULNERABILITY_ALIAS_MAP);
+  const detected = tagText(tagSource, tagRules);
+  const detectedPrecedents = detected.precedents;
+  const detectedRootCauses = detected.root_cause_tags;
+  const detectedVulnerabilityFlags = detected.vulnerability_flags;
 
   const precedents = existingPrecedents.length > 0 ? existingPrecedents : detectedPrecedents.labels;
   const rootCauseTags = existingRootCauses.length > 0 ? existingRootCauses : detectedRootCauses.labels;
   const vulnerabilityFlags =
     existingVulnerabilityFlags.length > 0 ? existingVulnerabilityFlags : detectedVulnerabilityFlags.labels;
 
+  // Redress is re-extracted whenever a row is rewritten so it always reflects the current sections.
+  const redress = extractRedress({ fullText, reasoning, finalDecision });
+
   const changed =
+    !row.redress_extracted_at ||
     cleanText(row.complaint_text) !== complaint ||
     cleanText(row.firm_response_text) !== firmResponse ||
     cleanText(row.ombudsman_reasoning_text) !== reasoning ||
@@ -962,16 +667,26 @@ function enrichRow(row) {
     precedents,
     root_cause_tags: rootCauseTags,
     vulnerability_flags: vulnerabilityFlags,
+    redress_awards: redress.awards,
+    redress_award_types: redress.awardTypes,
+    redress_total_amount: redress.totalAmount,
+    redress_interest_rate: redress.interestRate,
+    redress_interest_basis: redress.interestBasis,
     _meta: {
       sections: sectionMeta,
       tags: tagMeta,
+      redress: {
+        totalAmount: redress.totalAmount,
+        interestRate: redress.interestRate,
+        awardTypes: redress.awardTypes,
+      },
       overallConfidence,
     },
   };
 }
 
 function createUpdateSql(rowCount) {
-  const columnsPerRow = 9;
+  const columnsPerRow = 14;
   const tuples = [];
   for (let i = 0; i < rowCount; i += 1) {
     const values = [];
@@ -992,6 +707,12 @@ function createUpdateSql(rowCount) {
       precedents = v.precedents::jsonb,
       root_cause_tags = v.root_cause_tags::jsonb,
       vulnerability_flags = v.vulnerability_flags::jsonb,
+      redress_awards = v.redress_awards::jsonb,
+      redress_award_types = v.redress_award_types::jsonb,
+      redress_total_amount = v.redress_total_amount::numeric,
+      redress_interest_rate = v.redress_interest_rate::numeric,
+      redress_interest_basis = v.redress_interest_basis,
+      redress_extracted_at = NOW(),
       updated_at = NOW()
     FROM (
       VALUES
@@ -1005,7 +726,12 @@ function createUpdateSql(rowCount) {
       decision_logic,
       precedents,
       root_cause_tags,
-      vulnerability_flags
+      vulnerability_flags,
+      redress_awards,
+      redress_award_types,
+      redress_total_amount,
+      redress_interest_rate,
+      redress_interest_basis
     )
     WHERE d.id = v.id::uuid
   `;
@@ -1031,7 +757,8 @@ async function fetchBatch(client, cursorId, batchSize) {
           final_decision_text,
           precedents,
           root_cause_tags,
-          vulnerability_flags
+          vulnerability_flags,
+          redress_extracted_at
         FROM fos_decisions
         WHERE ${CANDIDATE_WHERE_SQL}
           AND id > $1::uuid
@@ -1056,7 +783,8 @@ async function fetchBatch(client, cursorId, batchSize) {
         final_decision_text,
         precedents,
         root_cause_tags,
-        vulnerability_flags
+        vulnerability_flags,
+        redress_extracted_at
       FROM fos_decisions
       WHERE ${CANDIDATE_WHERE_SQL}
       ORDER BY id ASC
@@ -1081,7 +809,12 @@ async function applyUpdates(client, updates) {
       update.decision_logic,
       JSON.stringify(update.precedents),
       JSON.stringify(update.root_cause_tags),
-      JSON.stringify(update.vulnerability_flags)
+      JSON.stringify(update.vulnerability_flags),
+      JSON.stringify(update.redress_awards),
+      JSON.stringify(update.redress_award_types),
+      update.redress_total_amount,
+      update.redress_interest_rate,
+      update.redress_interest_basis
     );
   }
   await client.query(sql, params);
@@ -1092,10 +825,6 @@ function toInt(value, fallback = 0) {
   return Number.isInteger(parsed) ? parsed : fallback;
 }
 
-function clamp(value, min, max) {
-  return Math.min(max, Math.max(min, value));
-}
-
 async function main() {
   await loadLocalEnv(SCRIPT_DIR);
   if (!process.env.DATABASE_URL) {
@@ -1135,13 +864,17 @@ async function main() {
   const client = await connectWithRetry(pool, { label: 'db:backfill-fos-enrichment connect' });
 
   try {
+    await applyRedressSchema(client);
+    const activeTagRules = await loadActiveTagRules(client);
+    const tagRules = compileTagRules(activeTagRules.rules);
+
     if (state.candidateTotal == null || !resume) {
       state.candidateTotal = await countCandidates(client);
       await writeState(stateFile, state);
     }
 
     console.log(
-      `Starting enrichment backfill | candidate rows: ${state.candidateTotal.toLocaleString()} | batch size: ${batchSize.toLocaleString()}`
+      `Starting enrichment backfill | candidate rows: ${state.candidateTotal.toLocaleString()} | batch size: ${batchSize.toLocaleString()} | tag rules: v${activeTagRules.version}`
     );
 
     let exhausted = false;
@@ -1157,7 +890,7 @@ async function main() {
 
       const updates = [];
       for (const row of rows) {
-        const enriched = enrichRow(row);
+        const enriched = enrichRow(row, tagRules);
         if (enriched) {
           accumulateRunStats(runStats, enriched._meta || {});
           updates.push(enriched);
@@ -1166,6 +899,8 @@ async function main() {
 
       if (updates.length > 0) {
         await applyUpdates(client, updates);
+        // Backfilled tags fill gaps only, so they are not machine values; just re-pin corrections.
+        await applyDecisionOverrides(client, { decisionIds: updates.map((update) => update.id) });
       }
 
       state.lastId = rows[rows.length - 1].id;
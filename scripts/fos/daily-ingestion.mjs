@@ -2,12 +2,34 @@
 
 import { spawnSync } from "node:child_process";
 import { createHash } from "node:crypto";
-import { appendFile, mkdir, readFile, readdir, stat, writeFile } from "node:fs/promises";
+import { appendFile, mkdir, readFile, stat, writeFile } from "node:fs/promises";
 import path from "node:path";
 import process from "node:process";
 import { setTimeout as sleep } from "node:timers/promises";
 import { fileURLToPath } from "node:url";
+import pg from "pg";
 import { chromium } from "playwright";
+import { connectWithRetry, createPoolConfig } from "../lib/db-runtime.mjs";
+import {
+  claimWindow,
+  completeWindowItems,
+  createIngestionRun,
+  failWindowItems,
+  finishWindow,
+  listOpenItems,
+  listResumableWindows,
+  markItemFailed,
+  markItemStage,
+  openArchiveWindow,
+  openWindow,
+  recordDiscoveries,
+  updateIngestionRun,
+} from "../lib/ingestion-ledger.mjs";
+import { SECTION_SPLITTER_VERSION, splitDecisionSections } from "../lib/section-quality.mjs";
+import { DEFAULT_TAG_RULES, buildTagSource, compileTagRules, loadActiveTagRules, tagText } from "../lib/tag-rules.mjs";
+import { createLocalArchiveSource } from "./local-archive-source.mjs";
+
+const { Pool } = pg;
 
 const SCRIPT_DIR = path.dirname(fileURLToPath(import.meta.url));
 const ROOT_DIR = path.resolve(SCRIPT_DIR, "..", "..");
@@ -20,63 +42,13 @@ const DEFAULT_OUTPUT_ROOT = path.join(ROOT_DIR, "tmp", "fos-daily");
 const DEFAULT_BATCH_SIZE = 300;
 const DEFAULT_DOWNLOAD_DELAY_MS = 500;
 const DEFAULT_MAX_PAGES = 50;
-
-const PRECEDENT_RULES = [
-  { label: "DISP", patterns: [/\bdisp\s*\d/i, /\bdisp\b/i] },
-  { label: "PRIN", patterns: [/\bprin\s*\d/i, /\bprin\b/i, /\bfca principles?\b/i] },
-  { label: "ICOBS", patterns: [/\bicobs\b/i] },
-  { label: "COBS", patterns: [/\bcobs\b/i] },
-  { label: "MCOB", patterns: [/\bmcob\b/i] },
-  { label: "CONC", patterns: [/\bconc\b/i] },
-  { label: "SYSC", patterns: [/\bsysc\b/i] },
-  { label: "FSMA", patterns: [/\bfsma\b/i, /\bfinancial services and markets act\b/i] },
-  { label: "Consumer Credit Act 1974", patterns: [/\bconsumer credit act\b/i, /\bcca\b/i] },
-  { label: "Section 75 CCA", patterns: [/\bsection\s*75\b/i] },
-  { label: "Section 140A CCA", patterns: [/\bsection\s*140a\b/i] },
-  { label: "Insurance Act 2015", patterns: [/\binsurance act(?:\s*2015)?\b/i] },
-  { label: "Distance Marketing Regulations", patterns: [/\bdistance marketing regulations?\b/i] },
-  { label: "Payment Services Regulations", patterns: [/\bpayment services regulations?\b/i, /\bpsr\b/i] },
-];
-
-const ROOT_CAUSE_RULES = [
-  {
-    label: "Communication failure",
-    patterns: [/\b(poor|unclear|misleading)\s+communication\b/i, /\bfailed to explain\b/i, /\bnot (told|informed|made aware)\b/i],
-  },
-  {
-    label: "Delay in claim handling",
-    patterns: [/\b(delay|delayed|late|took too long|unreasonable delay)\b/i, /\bclaim (was )?(delayed|handled late)\b/i],
-  },
-  {
-    label: "Policy wording ambiguity",
-    patterns: [/\b(policy wording|ambiguous|unclear term|small print|exclusion clause)\b/i, /\bpolicy (didn['’]t|did not) make clear\b/i],
-  },
-  {
-    label: "Affordability assessment failure",
-    patterns: [/\b(affordability|unaffordable|creditworthiness|irresponsible lending)\b/i, /\b(insufficient|inadequate) (checks|assessment)\b/i],
-  },
-  {
-    label: "Administrative error",
-    patterns: [/\b(administrative|clerical|processing|data entry|system)\s+error\b/i, /\bincorrectly (recorded|processed|applied)\b/i],
-  },
-  {
-    label: "Fraud or scam concern",
-    patterns: [/\b(fraud|scam|authorised push payment|app fraud)\b/i, /\bimpersonation\b/i],
-  },
-  {
-    label: "Non-disclosure or misrepresentation",
-    patterns: [/\b(non[- ]?disclosure|misrepresentation|failed to disclose)\b/i, /\bmaterial information\b/i],
-  },
-];
-
-const VULNERABILITY_RULES = [
-  { label: "Bereavement", patterns: [/\b(bereave|bereavement|late husband|late wife|widow|widower)\b/i] },
-  { label: "Mental health", patterns: [/\b(mental health|depression|anxiety|stress|panic attacks?)\b/i] },
-  { label: "Physical health", patterns: [/\b(illness|disability|long[- ]term condition|hospital|medical condition)\b/i] },
-  { label: "Financial hardship", patterns: [/\b(financial hardship|hardship|arrears|debt|struggling financially)\b/i, /\bunable to (pay|afford)\b/i] },
-  { label: "Domestic abuse", patterns: [/\b(domestic abuse|coercive control|financial abuse)\b/i] },
-  { label: "Unemployment", patterns: [/\b(unemploy(?:ed|ment)?|redundan(?:t|cy)|lost (his|her|their) job)\b/i] },
-  { label: "Language barrier", patterns: [/\b(language barrier|english is not (my|their) first language|interpreter)\b/i] },
+const DEFAULT_LEDGER_WINDOW_DAYS = 14;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DAY_MS = 86_400_000;
+const WEBSITE_SOURCE = "fos-website";
+const LEDGER_MIGRATION_PATHS = [
+  path.join(ROOT_DIR, "db", "migrations", "20260403_fos_ingestion_ledger.sql"),
+  path.join(ROOT_DIR, "db", "migrations", "20260404_fos_ingestion_sources.sql"),
 ];
 
 function log(message) {
@@ -111,15 +83,26 @@ Usage:
   node scripts/fos/daily-ingestion.mjs [options]
 
 Options:
+  --source <name>       website (default) or local
+  --source-path <path>  Directory or .zip of decision PDFs for --source local
+  --manifest <path>     CSV describing the PDFs (default: manifest.csv in the source, if present)
+  --source-name <name>  Ledger name for a local source (default: local:<file or directory name>)
   --window-days <n>     Overlap window ending today UTC (default: ${DEFAULT_WINDOW_DAYS})
   --start-date <yyyy-mm-dd>
   --end-date <yyyy-mm-dd>
+                        A local source is only filtered by date when one of these is given
+  --ledger-window-days <n>
+                        Split the range into ledger windows of n days (default: ${DEFAULT_LEDGER_WINDOW_DAYS})
+  --max-attempts <n>    Retry failed windows from earlier runs up to n attempts (default: ${DEFAULT_MAX_ATTEMPTS})
+  --no-retry            Skip failed and interrupted windows from earlier runs
+  --retry-only          Only process windows from earlier runs
+  --replay              Reprocess decisions the ledger already marks as imported
   --limit <n>           Parse at most n discovered decisions
   --max-pages <n>       Discovery pagination cap (default: ${DEFAULT_MAX_PAGES})
   --batch-size <n>      Import batch size (default: ${DEFAULT_BATCH_SIZE})
   --download-delay <ms> Delay between PDF downloads (default: ${DEFAULT_DOWNLOAD_DELAY_MS})
   --output-root <path>  Scratch directory root (default: tmp/fos-daily/<timestamp>)
-  --skip-import         Scrape and parse only
+  --skip-import         Scrape and parse only; the ledger is not touched
   --allow-empty         Exit successfully when no decisions are found
   --headless <bool>     Playwright headless mode (default: true)
   --help
@@ -250,6 +233,9 @@ function extractMetadataFromText(text) {
 }
 
 function extractDecisionReference(record, text) {
+  // Local archives name the decision in the manifest or the file name.
+  if (record.local_path && record.decision_reference) return record.decision_reference;
+
   const fromUrl = record.pdf_url || record.source_url;
   if (fromUrl) {
     try {
@@ -282,70 +268,6 @@ function extractOmbudsmanName(text) {
   return null;
 }
 
-function splitSections(text) {
-  const normalized = String(text || "").replace(/\r/g, "");
-  const definitions = [
-    { key: "complaint", patterns: ["the complaint", "complaint", "background", "what happened"] },
-    { key: "firm_response", patterns: ["the business's response", "the firm's response", "the business said", "the firm said", "what the business says", "what the firm says"] },
-    { key: "ombudsman_reasoning", patterns: ["what i've decided and why", "what i have decided and why", "what i've decided", "what i have decided", "my findings", "my assessment", "what i think"] },
-    { key: "final_decision", patterns: ["my final decision", "final decision", "my decision"] },
-  ];
-
-  const matches = [];
-  for (const definition of definitions) {
-    for (const pattern of definition.patterns) {
-      const regex = new RegExp(`(^|\\n)\\s*(${pattern})\\s*(\\n|:|\\r)`, "ig");
-      let match;
-      while ((match = regex.exec(normalized))) {
-        matches.push({ key: definition.key, index: match.index });
-      }
-    }
-  }
-
-  matches.sort((a, b) => a.index - b.index);
-  const sections = {};
-
-  for (let i = 0; i < matches.length; i += 1) {
-    const current = matches[i];
-    if (sections[current.key]) continue;
-    const next = matches[i + 1];
-    const rawSlice = normalized.slice(current.index, next ? next.index : normalized.length).trim();
-    let cleaned = rawSlice;
-    const newlineIndex = cleaned.indexOf("\n");
-    if (newlineIndex > -1 && newlineIndex < 140) {
-      cleaned = cleaned.slice(newlineIndex + 1).trim();
-    }
-    sections[current.key] = cleaned;
-  }
-
-  return sections;
-}
-
-function normalizeStringList(values) {
-  const output = [];
-  const seen = new Set();
-  for (const value of values || []) {
-    const cleaned = cleanText(value);
-    if (!cleaned) continue;
-    const key = cleaned.toLowerCase();
-    if (seen.has(key)) continue;
-    seen.add(key);
-    output.push(cleaned);
-  }
-  return output;
-}
-
-function detectTags(text, rules, maxTags = 12) {
-  if (!cleanText(text)) return [];
-  const detected = [];
-  for (const rule of rules) {
-    if (rule.patterns.some((pattern) => pattern.test(text))) {
-      detected.push(rule.label);
-    }
-  }
-  return normalizeStringList(detected).slice(0, maxTags);
-}
-
 function synthesizeDecisionLogic(record, sections) {
   const candidate = cleanText(
     sections.final_decision ||
@@ -645,29 +567,64 @@ function resolvePdfFilename(record) {
   return `${base}-${suffix}.pdf`;
 }
 
-async function extractTextFromPdf(filePath) {
+async function extractTextFromPdf(buffer) {
   const pdfParseModule = await import("pdf-parse");
   const pdfParse = pdfParseModule.default || pdfParseModule;
-  const buffer = await readFile(filePath);
   const parsed = await pdfParse(buffer);
   return parsed.text || "";
 }
 
+/**
+ * A decision source feeds the pipeline below:
+ * - `name` labels its ledger windows;
+ * - `windowed` sources are searched per date window, the others are read whole
+ *   into a single window per run;
+ * - `discover({ startDate, endDate })` lists records shaped like the website
+ *   search listing;
+ * - `readPdf(record, { pdfDir })` resolves to `{ buffer, path }`.
+ */
+function createWebsiteSource(options) {
+  return {
+    name: WEBSITE_SOURCE,
+    windowed: true,
+    discover: (window) => discoverDecisions({ ...options, startDate: window.startDate, endDate: window.endDate }),
+    async readPdf(record, { pdfDir }) {
+      const pdfPath = path.join(pdfDir, resolvePdfFilename(record));
+      if (await pathExists(pdfPath)) {
+        return { buffer: await readFile(pdfPath), path: pdfPath };
+      }
+      const response = await fetchWithRetry(record.pdf_url, { retries: 3, baseDelayMs: 1_000 });
+      const buffer = Buffer.from(await response.arrayBuffer());
+      await writeFile(pdfPath, buffer);
+      if (options.downloadDelayMs > 0) {
+        await sleep(options.downloadDelayMs);
+      }
+      return { buffer, path: pdfPath };
+    },
+  };
+}
+
+async function createSource(args, options) {
+  const kind = String(args.source || "website").toLowerCase();
+  if (kind === "website") return createWebsiteSource(options);
+  if (kind === "local") {
+    if (!args["source-path"] || args["source-path"] === true) {
+      throw new Error("--source-path is required with --source local.");
+    }
+    return createLocalArchiveSource({
+      sourcePath: args["source-path"],
+      manifestPath: typeof args.manifest === "string" ? args.manifest : null,
+      name: typeof args["source-name"] === "string" ? args["source-name"] : null,
+      log,
+    });
+  }
+  throw new Error(`Unknown --source ${kind}; expected website or local.`);
+}
+
 function buildParsedRecord(record, fullText, pdfPath, pdfHash) {
-  const sections = splitSections(fullText);
+  const { sections } = splitDecisionSections(fullText);
   const reference = extractDecisionReference(record, fullText);
   const decisionDateRaw = record.decision_date_raw || extractMetadataFromText(fullText).decision_date_raw;
-  const combinedText = [
-    record.raw_text,
-    record.snippet,
-    fullText,
-    sections.complaint,
-    sections.firm_response,
-    sections.ombudsman_reasoning,
-    sections.final_decision,
-  ]
-    .filter(Boolean)
-    .join("\n\n");
 
   return {
     decision_reference: reference,
@@ -683,91 +640,202 @@ function buildParsedRecord(record, fullText, pdfPath, pdfHash) {
     pdf_sha256: pdfHash,
     full_text: fullText,
     sections,
+    section_splitter_version: SECTION_SPLITTER_VERSION,
     snippet: cleanText(record.snippet),
     raw_text: cleanText(record.raw_text),
     link_text: cleanText(record.link_text),
     ombudsman_name: extractOmbudsmanName(fullText),
     decision_logic: synthesizeDecisionLogic(record, sections),
-    precedents: detectTags(combinedText, PRECEDENT_RULES),
-    root_cause_tags: detectTags(combinedText, ROOT_CAUSE_RULES),
-    vulnerability_flags: detectTags(combinedText, VULNERABILITY_RULES),
     parsed_at: new Date().toISOString(),
   };
 }
 
-async function scrapeAndParse(options) {
-  const discoveries = await discoverDecisions(options);
-  const limitedDiscoveries = options.limit ? discoveries.slice(0, options.limit) : discoveries;
+function tagParsedRecord(parsedRecord, tagRules) {
+  const { sections } = parsedRecord;
+  const tags = tagText(
+    buildTagSource({
+      decisionLogic: parsedRecord.decision_logic,
+      decisionSummary: [parsedRecord.raw_text, parsedRecord.snippet].filter(Boolean).join("\n\n"),
+      complaint: sections.complaint,
+      firmResponse: sections.firm_response,
+      reasoning: sections.ombudsman_reasoning,
+      finalDecision: sections.final_decision,
+      fullText: parsedRecord.full_text,
+    }),
+    tagRules.compiled,
+  );
 
-  await ensureDir(options.outputRoot);
-  await ensureDir(options.pdfDir);
-  await ensureDir(options.parsedDir);
+  return {
+    ...parsedRecord,
+    precedents: tags.precedents.labels,
+    root_cause_tags: tags.root_cause_tags.labels,
+    vulnerability_flags: tags.vulnerability_flags.labels,
+    tag_rule_version: tagRules.version,
+  };
+}
 
-  await writeFile(
-    path.join(options.outputRoot, "discoveries.json"),
-    `${JSON.stringify(limitedDiscoveries, null, 2)}\n`,
-    "utf8",
-  );
+function errorMessage(error) {
+  return error instanceof Error ? error.message : String(error);
+}
 
-  if (limitedDiscoveries.length === 0) {
-    return {
-      discovered: 0,
-      parsed: 0,
-      failed: 0,
-      failures: [],
-    };
-  }
+function windowKey(window) {
+  return `${window.startDate}_${window.endDate}`;
+}
 
-  const failures = [];
-  let parsed = 0;
+/**
+ * Splits the range into windows of `windowDays` aligned to a fixed grid from
+ * 1970-01-01, so overlapping daily runs land on the same ledger windows. The
+ * first and last windows may reach outside the range.
+ */
+function planWindows(startDate, endDate, windowDays) {
+  const toDay = (value) => Math.floor(Date.parse(`${value}T00:00:00.000Z`) / DAY_MS);
+  const fromDay = (day) => formatDateUtc(new Date(day * DAY_MS));
+  const windows = [];
+  for (let day = Math.floor(toDay(startDate) / windowDays) * windowDays; day <= toDay(endDate); day += windowDays) {
+    windows.push({ startDate: fromDay(day), endDate: fromDay(day + windowDays - 1) });
+  }
+  return windows;
+}
 
-  for (const record of limitedDiscoveries) {
-    try {
-      const pdfFileName = resolvePdfFilename(record);
-      const pdfPath = path.join(options.pdfDir, pdfFileName);
+async function processWindow(window, options, db) {
+  const label = `${window.startDate} -> ${window.endDate}`;
+  const windowDir = path.join(options.outputRoot, "windows", windowKey(window));
+  const pdfDir = path.join(windowDir, "pdfs");
+  const parsedDir = path.join(windowDir, "parsed");
+  await ensureDir(pdfDir);
+  await ensureDir(parsedDir);
+
+  const result = {
+    startDate: window.startDate,
+    endDate: window.endDate,
+    status: "completed",
+    discovered: 0,
+    parsed: 0,
+    failed: 0,
+    imported: 0,
+    error: null,
+    failures: [],
+  };
 
-      let pdfBuffer;
-      if (await pathExists(pdfPath)) {
-        pdfBuffer = await readFile(pdfPath);
+  let items;
+  try {
+    if (window.rediscover) {
+      const discoveries = await options.source.discover(window.filter || window);
+      await writeFile(path.join(windowDir, "discoveries.json"), `${JSON.stringify(discoveries, null, 2)}\n`, "utf8");
+      result.discovered = discoveries.length;
+      if (db) {
+        await recordDiscoveries(db, window.id, discoveries);
+        items = await listOpenItems(db, window.id);
       } else {
-        const response = await fetchWithRetry(record.pdf_url, { retries: 3, baseDelayMs: 1_000 });
-        pdfBuffer = Buffer.from(await response.arrayBuffer());
-        await writeFile(pdfPath, pdfBuffer);
-        if (options.downloadDelayMs > 0) {
-          await sleep(options.downloadDelayMs);
-        }
+        items = discoveries.map((record) => ({ id: null, record }));
       }
+    } else {
+      items = await listOpenItems(db, window.id);
+      result.discovered = items.length;
+      log(`Resuming ${items.length} open decisions for ${label} without rediscovery`);
+    }
+  } catch (error) {
+    result.error = `Discovery failed: ${errorMessage(error)}`;
+    return finishWindowResult(result, window, db);
+  }
 
-      const fullText = await extractTextFromPdf(pdfPath);
-      const parsedRecord = buildParsedRecord(record, fullText, pdfPath, hashBuffer(pdfBuffer));
-      const outputName = slugify(parsedRecord.decision_reference || path.basename(pdfPath, ".pdf")) || `decision-${parsed + 1}`;
-      await writeFile(
-        path.join(options.parsedDir, `${outputName}.json`),
-        `${JSON.stringify(parsedRecord, null, 2)}\n`,
-        "utf8",
-      );
+  if (options.budget.remaining != null) {
+    items = items.slice(0, Math.max(0, options.budget.remaining));
+    options.budget.remaining -= items.length;
+  }
 
-      parsed += 1;
-      if (parsed % 10 === 0 || parsed === limitedDiscoveries.length) {
-        log(`Parsed ${parsed}/${limitedDiscoveries.length}`);
+  for (const item of items) {
+    const { record } = item;
+    let stage = "fetch";
+    try {
+      const { buffer: pdfBuffer, path: pdfPath } = await options.source.readPdf(record, { pdfDir });
+      const pdfHash = hashBuffer(pdfBuffer);
+      await markItemStage(db, item.id, "fetched", { pdfSha256: pdfHash });
+
+      stage = "parse";
+      const fullText = await extractTextFromPdf(pdfBuffer);
+      const parsedRecord = buildParsedRecord(record, fullText, pdfPath, pdfHash);
+      await markItemStage(db, item.id, "parsed", { decisionReference: parsedRecord.decision_reference });
+
+      stage = "tag";
+      const taggedRecord = tagParsedRecord(parsedRecord, options.tagRules);
+      const outputName =
+        slugify(taggedRecord.decision_reference || path.basename(pdfPath, ".pdf")) || `decision-${result.parsed + 1}`;
+      await writeFile(path.join(parsedDir, `${outputName}.json`), `${JSON.stringify(taggedRecord, null, 2)}\n`, "utf8");
+      await markItemStage(db, item.id, "tagged");
+
+      result.parsed += 1;
+      if (result.parsed % 10 === 0 || result.parsed === items.length) {
+        log(`Parsed ${result.parsed}/${items.length} for ${label}`);
       }
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      failures.push({
+      const message = errorMessage(error);
+      result.failed += 1;
+      result.failures.push({
         decision_reference: record.decision_reference || null,
         pdf_url: record.pdf_url,
+        local_path: record.local_path,
+        stage,
         error: message,
       });
-      log(`Parse failed for ${record.pdf_url}: ${message}`);
+      await markItemFailed(db, item.id, stage, message);
+      log(`${stage} failed for ${record.pdf_url || record.local_path}: ${message}`);
     }
   }
 
-  return {
-    discovered: limitedDiscoveries.length,
-    parsed,
-    failed: failures.length,
-    failures,
-  };
+  if (!options.skipImport && result.parsed > 0) {
+    try {
+      runNodeScript(path.join(ROOT_DIR, "scripts", "import-fos-parsed.mjs"), [
+        "--source-dir",
+        parsedDir,
+        "--state-file",
+        path.join(windowDir, "import-state.json"),
+        "--batch-size",
+        String(options.batchSize),
+        "--no-resume",
+        "--include-full-text",
+        "--skip-run-record",
+      ]);
+      result.imported = db ? await completeWindowItems(db, window.id) : result.parsed;
+    } catch (error) {
+      result.error = `Import failed: ${errorMessage(error)}`;
+      if (db) await failWindowItems(db, window.id, "upsert", result.error);
+    }
+  }
+
+  return finishWindowResult(result, window, db);
+}
+
+async function finishWindowResult(result, window, db) {
+  if (db) {
+    const finished = await finishWindow(db, window.id, { error: result.error });
+    result.status = finished?.status || "failed";
+  } else if (result.error || result.failed > 0) {
+    result.status = "failed";
+  }
+  log(
+    `Window ${result.startDate} -> ${result.endDate} ${result.status}: discovered=${result.discovered} parsed=${result.parsed} failed=${result.failed}${result.error ? ` (${result.error})` : ""}`,
+  );
+  return result;
+}
+
+async function loadTagRules(pool) {
+  let active = { version: 0, rules: DEFAULT_TAG_RULES };
+  if (pool) {
+    const client = await connectWithRetry(pool, { label: "fos:daily-ingest tag rules" });
+    try {
+      active = await loadActiveTagRules(client);
+    } finally {
+      client.release();
+    }
+  }
+  return { version: active.version, compiled: compileTagRules(active.rules) };
+}
+
+async function applyLedgerSchema(db) {
+  for (const migrationPath of LEDGER_MIGRATION_PATHS) {
+    await db.query(await readFile(migrationPath, "utf8"));
+  }
 }
 
 function runNodeScript(scriptPath, args = []) {
@@ -792,15 +860,21 @@ async function writeGithubSummary(summary) {
   const lines = [
     "## FOS Daily Ingestion",
     "",
+    `- Source: \`${summary.source}\``,
     `- Window: \`${summary.startDate}\` -> \`${summary.endDate}\``,
+    `- Ledger windows: \`${summary.windows.length}\` (failed: \`${summary.failedWindows}\`)`,
     `- Discovered: \`${summary.discovered}\``,
     `- Parsed: \`${summary.parsed}\``,
     `- Failed: \`${summary.failed}\``,
-    `- Imported: \`${summary.imported ? "yes" : "no"}\``,
+    `- Imported: \`${summary.imported}\``,
     `- Output: \`${summary.outputRoot}\``,
     "",
   ];
 
+  for (const window of summary.windows.filter((item) => item.status === "failed")) {
+    lines.push(`- Failed window \`${window.startDate}\` -> \`${window.endDate}\`: ${window.error || `${window.failed} decisions failed`}`);
+  }
+
   await appendFile(summaryPath, `${lines.join("\n")}\n`, "utf8");
 }
 
@@ -814,76 +888,159 @@ async function main() {
   const endDate = args["end-date"] || formatDateUtc(new Date());
   const windowDays = Math.max(1, toInt(args["window-days"], DEFAULT_WINDOW_DAYS));
   const startDate = args["start-date"] || addDaysUtc(endDate, -(windowDays - 1));
+  const ledgerWindowDays = Math.max(1, toInt(args["ledger-window-days"], DEFAULT_LEDGER_WINDOW_DAYS));
   const runStamp = new Date().toISOString().replace(/[:.]/g, "-");
   const outputRoot = path.resolve(args["output-root"] || path.join(DEFAULT_OUTPUT_ROOT, runStamp));
-  const pdfDir = path.join(outputRoot, "pdfs");
-  const parsedDir = path.join(outputRoot, "parsed");
-  const batchSize = Math.max(1, toInt(args["batch-size"], DEFAULT_BATCH_SIZE));
   const skipImport = Boolean(args["skip-import"]);
   const allowEmpty = Boolean(args["allow-empty"]);
+  const retryOnly = Boolean(args["retry-only"]);
+  const limit = args.limit ? Math.max(1, toInt(args.limit, 0)) : null;
 
-  const scrapeOptions = {
-    startDate,
-    endDate,
-    outputRoot,
-    pdfDir,
-    parsedDir,
-    limit: args.limit ? Math.max(1, toInt(args.limit, 0)) : null,
-    maxPages: Math.max(1, toInt(args["max-pages"], DEFAULT_MAX_PAGES)),
-    downloadDelayMs: Math.max(0, toInt(args["download-delay"], DEFAULT_DOWNLOAD_DELAY_MS)),
-    headless: toBool(args.headless, true),
-    pageWaitMs: 1_000,
-  };
+  if (!skipImport && !process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL is required when --skip-import is not set.");
+  }
 
-  log(`Starting daily FOS ingestion for ${startDate} -> ${endDate}`);
-  const scrapeSummary = await scrapeAndParse(scrapeOptions);
+  const pool = process.env.DATABASE_URL
+    ? new Pool(createPoolConfig({ connectionString: process.env.DATABASE_URL, connectionTimeoutMillis: 8_000 }))
+    : null;
+  // The ledger only tracks runs that import; a scrape-only run leaves it alone.
+  const db = pool && !skipImport ? pool : null;
+  let runId = null;
+  let progress = {};
 
-  if (scrapeSummary.discovered === 0 && !allowEmpty) {
-    throw new Error(`No FOS decisions discovered for ${startDate} -> ${endDate}`);
-  }
+  try {
+    const scrapeOptions = {
+      outputRoot,
+      limit,
+      budget: { remaining: limit },
+      maxPages: Math.max(1, toInt(args["max-pages"], DEFAULT_MAX_PAGES)),
+      downloadDelayMs: Math.max(0, toInt(args["download-delay"], DEFAULT_DOWNLOAD_DELAY_MS)),
+      batchSize: Math.max(1, toInt(args["batch-size"], DEFAULT_BATCH_SIZE)),
+      headless: toBool(args.headless, true),
+      pageWaitMs: 1_000,
+      skipImport,
+      tagRules: await loadTagRules(pool),
+    };
+    const source = await createSource(args, scrapeOptions);
+    scrapeOptions.source = source;
+    if (db) await applyLedgerSchema(db);
+
+    // A local source is read whole into one window, dated by its decisions unless a range was given.
+    const sourceRange = source.windowed ? null : source.dateRange();
+    const range = source.windowed
+      ? { startDate, endDate }
+      : {
+          startDate: args["start-date"] || sourceRange?.startDate || endDate,
+          endDate: args["end-date"] || sourceRange?.endDate || endDate,
+        };
+    const requested = retryOnly
+      ? []
+      : source.windowed
+        ? planWindows(startDate, endDate, ledgerWindowDays)
+        : [{ ...range, filter: { startDate: args["start-date"] || null, endDate: args["end-date"] || null } }];
+    const requestedKeys = new Set(requested.map(windowKey));
+    const resumable =
+      db && !args["no-retry"]
+        ? await listResumableWindows(db, {
+            source: source.name,
+            maxAttempts: Math.max(1, toInt(args["max-attempts"], DEFAULT_MAX_ATTEMPTS)),
+          })
+        : [];
+    // A requested local run reopens the source's only window, so there is nothing else to retry.
+    const alreadyRequested = (window) => (source.windowed ? requestedKeys.has(windowKey(window)) : requested.length > 0);
+    const plan = [
+      ...resumable.filter((window) => !alreadyRequested(window)).map((window) => ({ retry: true, window })),
+      ...requested.map((window) => ({ retry: false, window })),
+    ];
+
+    log(
+      `Starting daily FOS ingestion from ${source.name} for ${range.startDate} -> ${range.endDate}: ${requested.length} windows plus ${plan.length - requested.length} to retry (tag rules v${scrapeOptions.tagRules.version})`,
+    );
+    runId = db ? await createIngestionRun(db, plan.length) : null;
+
+    const results = [];
+    for (const [index, entry] of plan.entries()) {
+      let window;
+      if (!db) {
+        window = { id: null, ...entry.window, rediscover: true };
+      } else if (entry.retry) {
+        const claimed = await claimWindow(db, entry.window.id, runId);
+        if (!claimed) continue;
+        window = { ...claimed, rediscover: !claimed.discoveredAt, filter: source.windowed ? null : {} };
+      } else {
+        const open = source.windowed ? openWindow : openArchiveWindow;
+        const opened = await open(db, { ...entry.window, source: source.name, runId, replay: Boolean(args.replay) });
+        window = { ...opened, rediscover: true, filter: entry.window.filter || null };
+      }
 
-  let imported = false;
-  if (!skipImport && scrapeSummary.parsed > 0) {
-    if (!process.env.DATABASE_URL) {
-      throw new Error("DATABASE_URL is required when --skip-import is not set.");
+      results.push(await processWindow(window, scrapeOptions, db));
+      progress = {
+        activeYear: Number.parseInt(window.endDate.slice(0, 4), 10),
+        windowsDone: index + 1,
+        windowsTotal: plan.length,
+        failedWindows: results.filter((result) => result.status === "failed").length,
+        recordsIngested: results.reduce((sum, result) => sum + result.imported, 0),
+      };
+      await updateIngestionRun(db, runId, { status: "running", ...progress });
     }
 
-    const importStatePath = path.join(outputRoot, "import-state.json");
-    runNodeScript(path.join(ROOT_DIR, "scripts", "import-fos-parsed.mjs"), [
-      "--source-dir",
-      parsedDir,
-      "--state-file",
-      importStatePath,
-      "--batch-size",
-      String(batchSize),
-      "--no-resume",
-      "--include-full-text",
-    ]);
-    imported = true;
-  }
+    const total = (key) => results.reduce((sum, result) => sum + result[key], 0);
+    const failedWindows = results.filter((result) => result.status === "failed");
+    const windowErrors = results.filter((result) => result.error);
+    const summary = {
+      generatedAt: new Date().toISOString(),
+      source: source.name,
+      ...range,
+      discovered: total("discovered"),
+      parsed: total("parsed"),
+      failed: total("failed"),
+      imported: total("imported"),
+      failedWindows: failedWindows.length,
+      tagRuleVersion: scrapeOptions.tagRules.version,
+      outputRoot,
+      windows: results.map((result) => ({ ...result, failures: undefined })),
+      failures: results.flatMap((result) => result.failures),
+    };
 
-  const summary = {
-    generatedAt: new Date().toISOString(),
-    startDate,
-    endDate,
-    discovered: scrapeSummary.discovered,
-    parsed: scrapeSummary.parsed,
-    failed: scrapeSummary.failed,
-    imported,
-    outputRoot,
-    failures: scrapeSummary.failures,
-  };
+    await ensureDir(outputRoot);
+    await writeFile(path.join(outputRoot, "summary.json"), `${JSON.stringify(summary, null, 2)}\n`, "utf8");
+    await writeGithubSummary(summary);
+
+    const empty = summary.discovered === 0 && !allowEmpty && !retryOnly;
+    await updateIngestionRun(db, runId, {
+      status: windowErrors.length > 0 || empty ? "error" : failedWindows.length > 0 ? "warning" : "idle",
+      activeYear: Number.parseInt(range.endDate.slice(0, 4), 10),
+      windowsDone: plan.length,
+      windowsTotal: plan.length,
+      failedWindows: failedWindows.length,
+      recordsIngested: summary.imported,
+    });
+    runId = null;
 
-  await writeFile(path.join(outputRoot, "summary.json"), `${JSON.stringify(summary, null, 2)}\n`, "utf8");
-  await writeGithubSummary(summary);
+    if (empty) {
+      throw new Error(`No FOS decisions discovered from ${source.name} for ${range.startDate} -> ${range.endDate}`);
+    }
 
-  const parsedFiles = await readdir(parsedDir).catch(() => []);
-  log(
-    `Daily FOS ingestion finished. discovered=${summary.discovered} parsed=${summary.parsed} failed=${summary.failed} imported=${imported} files=${parsedFiles.length}`,
-  );
+    log(
+      `Daily FOS ingestion finished. windows=${results.length} failedWindows=${failedWindows.length} discovered=${summary.discovered} parsed=${summary.parsed} failed=${summary.failed} imported=${summary.imported}`,
+    );
+
+    if (windowErrors.length > 0) {
+      throw new Error(
+        `${windowErrors.length} window(s) failed: ${windowErrors.map((result) => `${result.startDate} -> ${result.endDate}: ${result.error}`).join("; ")}`,
+      );
+    }
+  } catch (error) {
+    if (runId) {
+      await updateIngestionRun(db, runId, { status: "error", ...progress }).catch(() => undefined);
+    }
+    throw error;
+  } finally {
+    await pool?.end();
+  }
 }
 
 main().catch((error) => {
-  console.error(`FOS daily ingestion failed: ${error instanceof Error ? error.message : String(error)}`);
+  console.error(`FOS daily ingestion failed: ${errorMessage(error)}`);
   process.exit(1);
 });
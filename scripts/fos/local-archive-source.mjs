@@ -0,0 +1,198 @@
+// Local decision source for scripts/fos/daily-ingestion.mjs: a directory or a
+// .zip of decision PDFs, optionally described by a CSV manifest. Discovery
+// records have the same shape as the website search listing, so the pipeline
+// parses, tags and imports them unchanged, without network access.
+
+import { readFile, readdir, stat } from "node:fs/promises";
+import path from "node:path";
+import XLSX from "xlsx";
+
+const DEFAULT_MANIFEST_NAME = "manifest.csv";
+
+// Manifest headers are matched after lower-casing and collapsing punctuation to "_".
+const MANIFEST_COLUMNS = {
+  file: ["file", "filename", "file_name", "path", "pdf", "pdf_file", "pdf_path"],
+  decision_reference: ["decision_reference", "reference", "ref", "drn", "case_reference"],
+  decision_date_raw: ["decision_date", "date", "published", "published_date"],
+  business_name: ["business_name", "business", "firm", "firm_name", "respondent"],
+  product_sector: ["product_sector", "product", "sector"],
+  outcome_raw: ["outcome", "decision_outcome", "result"],
+  pdf_url: ["pdf_url", "url"],
+  source_url: ["source_url", "page_url"],
+  snippet: ["summary", "snippet", "description"],
+};
+
+const REFERENCE_PATTERN = /^(DRN|DRS|DR)-?\d+$/i;
+
+/**
+ * Opens `sourcePath` (a directory or .zip) and returns a decision source.
+ * `manifestPath` defaults to a manifest.csv at the root of the archive, when
+ * there is one. Rows are matched to PDFs by relative path, else by file name.
+ */
+export async function createLocalArchiveSource({ sourcePath, manifestPath = null, name = null, log = () => undefined }) {
+  const resolved = path.resolve(sourcePath);
+  const info = await stat(resolved).catch(() => null);
+  if (!info) {
+    throw new Error(`Local source not found: ${sourcePath}`);
+  }
+
+  const archive = info.isDirectory() ? await openDirectory(resolved) : await openZip(resolved);
+  const manifestBuffer = manifestPath
+    ? await readFile(path.resolve(manifestPath))
+    : archive.manifest
+      ? await archive.read(archive.manifest)
+      : null;
+  const rows = manifestBuffer ? parseManifest(manifestBuffer) : [];
+
+  const records = buildRecords(archive.files, rows, log);
+  const known = new Set(archive.files);
+  log(
+    `Local source ${resolved}: ${archive.files.length} PDFs, ${rows.length} manifest rows${manifestBuffer ? "" : " (no manifest)"}`,
+  );
+
+  return {
+    name: name || `local:${path.basename(resolved)}`,
+    windowed: false,
+    /** The span of the manifest decision dates, or null when nothing is dated. */
+    dateRange() {
+      const dates = records.map((record) => record.decision_date).filter(Boolean).sort();
+      return dates.length > 0 ? { startDate: dates[0], endDate: dates[dates.length - 1] } : null;
+    },
+    async discover({ startDate = null, endDate = null } = {}) {
+      // Undated records stay in: the PDF text may still date them.
+      return records.filter(
+        (record) =>
+          !record.decision_date ||
+          ((!startDate || record.decision_date >= startDate) && (!endDate || record.decision_date <= endDate)),
+      );
+    },
+    async readPdf(record) {
+      if (!known.has(record.local_path)) {
+        throw new Error(`${record.local_path} is not in ${resolved}`);
+      }
+      return { buffer: await archive.read(record.local_path), path: archive.locate(record.local_path) };
+    },
+  };
+}
+
+async function openDirectory(root) {
+  const files = [];
+  let manifest = null;
+  async function walk(relativeDir) {
+    const entries = await readdir(path.join(root, relativeDir), { withFileTypes: true });
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await walk(relativePath);
+      } else if (/\.pdf$/i.test(entry.name)) {
+        files.push(relativePath);
+      } else if (relativePath.toLowerCase() === DEFAULT_MANIFEST_NAME) {
+        manifest = relativePath;
+      }
+    }
+  }
+  await walk("");
+  files.sort();
+
+  return {
+    files,
+    manifest,
+    read: (relativePath) => readFile(path.join(root, ...relativePath.split("/"))),
+    locate: (relativePath) => path.join(root, ...relativePath.split("/")),
+  };
+}
+
+// The whole archive is read into memory; extract very large archives to a directory instead.
+async function openZip(archivePath) {
+  const container = XLSX.CFB.read(await readFile(archivePath), { type: "buffer" });
+  const contents = new Map();
+  let manifest = null;
+  container.FileIndex.forEach((entry, index) => {
+    // FullPaths are prefixed with the container root ("Root Entry/"); directories end in "/".
+    const relativePath = container.FullPaths[index].split("/").slice(1).join("/");
+    if (entry.type !== 2 || !relativePath || relativePath.endsWith("/") || !entry.content) return;
+    if (/\.pdf$/i.test(relativePath)) {
+      contents.set(relativePath, Buffer.from(entry.content));
+    } else if (relativePath.toLowerCase() === DEFAULT_MANIFEST_NAME) {
+      manifest = relativePath;
+      contents.set(relativePath, Buffer.from(entry.content));
+    }
+  });
+
+  return {
+    files: [...contents.keys()].filter((relativePath) => relativePath !== manifest).sort(),
+    manifest,
+    read: async (relativePath) => contents.get(relativePath),
+    locate: (relativePath) => `${archivePath}#${relativePath}`,
+  };
+}
+
+function parseManifest(buffer) {
+  const workbook = XLSX.read(buffer, { type: "buffer", raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+
+  return XLSX.utils.sheet_to_json(sheet, { defval: "", raw: false }).map((row) => {
+    const values = {};
+    for (const [header, value] of Object.entries(row)) {
+      const key = header.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/(^_|_$)/g, "");
+      const field = Object.keys(MANIFEST_COLUMNS).find((candidate) => MANIFEST_COLUMNS[candidate].includes(key));
+      const text = String(value ?? "").trim();
+      if (field && text && !values[field]) values[field] = text;
+    }
+    return values;
+  });
+}
+
+function buildRecords(files, rows, log) {
+  const byPath = new Map(files.map((file) => [file.toLowerCase(), file]));
+  const byName = new Map();
+  for (const file of files) {
+    const name = path.posix.basename(file).toLowerCase();
+    byName.set(name, byName.has(name) ? null : file);
+  }
+
+  const metadata = new Map();
+  for (const [index, row] of rows.entries()) {
+    const wanted = String(row.file || "").replace(/\\/g, "/").replace(/^\.?\//, "").toLowerCase();
+    const file = byPath.get(wanted) || byName.get(path.posix.basename(wanted)) || null;
+    if (!file) {
+      log(`Manifest row ${index + 2} skipped: ${row.file ? `no PDF matches ${row.file}` : "no file column"}`);
+      continue;
+    }
+    metadata.set(file, row);
+  }
+
+  const scrapedAt = new Date().toISOString();
+  return files.map((file) => {
+    const row = metadata.get(file) || {};
+    const fileName = path.posix.basename(file, path.posix.extname(file));
+    const decisionDateRaw = normalizeManifestDate(row.decision_date_raw);
+    return {
+      decision_reference: row.decision_reference || (REFERENCE_PATTERN.test(fileName) ? fileName.toUpperCase() : null),
+      decision_date_raw: decisionDateRaw,
+      decision_date: /^\d{4}-\d{2}-\d{2}$/.test(decisionDateRaw || "") ? decisionDateRaw : null,
+      business_name: row.business_name || null,
+      product_sector: row.product_sector || null,
+      outcome_raw: row.outcome_raw || null,
+      source_url: row.source_url || null,
+      pdf_url: row.pdf_url || null,
+      link_text: null,
+      raw_text: null,
+      snippet: row.snippet || null,
+      local_path: file,
+      scraped_at: scrapedAt,
+    };
+  });
+}
+
+/** Manifests are usually UK spreadsheets: read dd/mm/yyyy as day-first and pass anything else through. */
+function normalizeManifestDate(value) {
+  const text = String(value || "").trim();
+  if (!text) return null;
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dayFirst) return `${dayFirst[3]}-${dayFirst[2].padStart(2, "0")}-${dayFirst[1].padStart(2, "0")}`;
+  return text;
+}
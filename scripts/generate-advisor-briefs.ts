@@ -4,13 +4,23 @@
  * Usage:
  *   DATABASE_URL="postgres://..." npx tsx scripts/generate-advisor-briefs.ts
  *   DATABASE_URL="postgres://..." GROQ_API_KEY="..." npx tsx scripts/generate-advisor-briefs.ts --with-ai
+ *   DATABASE_URL="postgres://..." LLM_PROVIDERS=fixture npx tsx scripts/generate-advisor-briefs.ts --with-ai
  *
  * Flags:
- *   --with-ai   Enable AI narrative generation via Groq (requires GROQ_API_KEY)
+ *   --with-ai   Enable AI narrative generation through the configured LLM
+ *               provider chain (see `src/lib/llm/providers.ts`). Responses
+ *               are cached in `llm_response_cache`; a failed call leaves the
+ *               brief without AI sections.
  */
 
 import { Pool } from 'pg';
-import { callGroq } from './lib/groq-client';
+import { completeWithProviders, resolveLlmProviders } from '../src/lib/llm/providers';
+import { LLM_SCHEMA_SQL, createSqlLlmStore } from '../src/lib/llm/store';
+import { AI_CITATION_INSTRUCTIONS, groundAiSection } from '../src/lib/fos/ai-grounding';
+import type { FOSAiCitation } from '../src/lib/fos/types';
+import { DEFAULT_UPHOLD_RISK_THRESHOLDS, assessUpholdRisk } from '../src/lib/risk-policy/policy';
+import type { UpholdRiskThresholds } from '../src/lib/risk-policy/types';
+import { productLabelSql } from '../src/lib/products/sql';
 
 const DATABASE_URL = process.env.DATABASE_URL;
 if (!DATABASE_URL) {
@@ -19,8 +29,9 @@ if (!DATABASE_URL) {
 }
 
 const WITH_AI = process.argv.includes('--with-ai');
-if (WITH_AI && !(process.env.GROQ_API_KEY || '').trim()) {
-  console.error('ERROR: --with-ai requires GROQ_API_KEY environment variable.');
+const llmProviders = resolveLlmProviders();
+if (WITH_AI && llmProviders.length === 0) {
+  console.error('ERROR: --with-ai requires an LLM provider (GROQ_API_KEY, LLM_API_KEY, LLM_LOCAL_URL or LLM_PROVIDERS=fixture).');
   process.exit(1);
 }
 
@@ -39,6 +50,8 @@ async function query<T = Record<string, unknown>>(text: string, params?: unknown
   }
 }
 
+const llmStore = createSqlLlmStore(query);
+
 async function queryOne<T = Record<string, unknown>>(text: string, params?: unknown[]): Promise<T | null> {
   const rows = await query<T>(text, params);
   return rows[0] || null;
@@ -64,6 +77,7 @@ async function ensureTable(): Promise<void> {
       ai_what_loses TEXT,
       ai_guidance TEXT,
       ai_executive_summary TEXT,
+      ai_context_cases JSONB,
       outcome_distribution JSONB,
       vulnerabilities JSONB NOT NULL,
       sample_cases JSONB NOT NULL,
@@ -76,9 +90,23 @@ async function ensureTable(): Promise<void> {
   // Ensure new columns exist on older tables
   await query(`ALTER TABLE fos_advisor_briefs ADD COLUMN IF NOT EXISTS ai_executive_summary TEXT`);
   await query(`ALTER TABLE fos_advisor_briefs ADD COLUMN IF NOT EXISTS outcome_distribution JSONB`);
+  await query(`ALTER TABLE fos_advisor_briefs ADD COLUMN IF NOT EXISTS ai_context_cases JSONB`);
   console.log('Table fos_advisor_briefs ensured.');
 }
 
+// Briefs are keyed by taxonomy product once the taxonomy exists; set in detectProductTaxonomy().
+let productExpr = productLabelSql('product_sector', 'product', false);
+
+async function detectProductTaxonomy(): Promise<void> {
+  const row = await queryOne<{ has_product_taxonomy: boolean }>(`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.views
+      WHERE table_schema = 'public' AND table_name = 'fos_product_lookup'
+    ) AS has_product_taxonomy
+  `);
+  productExpr = productLabelSql('product_sector', 'product', Boolean(row?.has_product_taxonomy));
+}
+
 const outcomeExpr = `
   CASE
     WHEN outcome IS NULL OR BTRIM(outcome) = '' THEN 'unknown'
@@ -109,6 +137,12 @@ Generate three analytical sections for a pre-computed intelligence brief. Each s
 must be 2-3 paragraphs of substantive, evidence-based analysis in formal British English.
 Cite the statistics provided. Do not use filler phrases. Be specific and actionable.`;
 
+interface AiExcerpt {
+  caseId: string;
+  decisionReference: string;
+  text: string;
+}
+
 function buildAiUserPrompt(data: {
   product: string;
   rootCause: string | null;
@@ -121,8 +155,8 @@ function buildAiUserPrompt(data: {
   keyPrecedents: { label: string; count: number; percentOfCases: number }[];
   rootCausePatterns: { label: string; count: number; upheldRate: number }[];
   vulnerabilities: { label: string; count: number; percentOfCases: number }[];
-  upheldTexts: string[];
-  notUpheldTexts: string[];
+  upheldTexts: AiExcerpt[];
+  notUpheldTexts: AiExcerpt[];
 }): string {
   const yearTrendStr = data.yearTrend.map((y) => `${y.year}: ${y.upheldRate}% (${y.total} cases)`).join(', ');
   const precedentsStr = data.keyPrecedents.map((p) => `${p.label}: ${p.count} cases (${p.percentOfCases}%)`).join(', ');
@@ -143,10 +177,10 @@ TOP ROOT CAUSES: ${rcStr || 'None'}
 VULNERABILITY FLAGS: ${vulnStr || 'None'}
 
 SAMPLE UPHELD REASONING (${data.upheldTexts.length} excerpts):
-${data.upheldTexts.map((t, i) => `[${i + 1}] ${t}`).join('\n\n') || 'None available'}
+${data.upheldTexts.map((t) => `[${t.decisionReference}] ${t.text}`).join('\n\n') || 'None available'}
 
 SAMPLE NOT-UPHELD REASONING (${data.notUpheldTexts.length} excerpts):
-${data.notUpheldTexts.map((t, i) => `[${i + 1}] ${t}`).join('\n\n') || 'None available'}
+${data.notUpheldTexts.map((t) => `[${t.decisionReference}] ${t.text}`).join('\n\n') || 'None available'}
 
 Generate FOUR sections in EXACTLY this format (use these exact delimiters):
 
@@ -160,7 +194,9 @@ Generate FOUR sections in EXACTLY this format (use these exact delimiters):
 [2-3 paragraphs: Analyse upheld decisions. What failures led to upheld findings?]
 
 === GUIDANCE ===
-[2-3 paragraphs: 4-6 specific recommendations tied to the data.]`;
+[2-3 paragraphs: 4-6 specific recommendations tied to the data.]
+
+${AI_CITATION_INSTRUCTIONS}`;
 }
 
 function parseAiSections(text: string): { executiveSummary: string; whatWins: string; whatLoses: string; guidance: string } {
@@ -181,6 +217,26 @@ function parseAiSections(text: string): { executiveSummary: string; whatWins: st
   return sections;
 }
 
+let riskThresholds: UpholdRiskThresholds = DEFAULT_UPHOLD_RISK_THRESHOLDS;
+
+/** Uses the active published risk policy (see /settings/risk-policy), else the built-in bands. */
+async function loadRiskThresholds(): Promise<void> {
+  const row = await queryOne<{ version: number; thresholds: Partial<UpholdRiskThresholds> }>(`
+    SELECT version, thresholds
+    FROM uphold_risk_policies
+    WHERE status = 'published'
+      AND effective_from <= NOW()
+    ORDER BY effective_from DESC, version DESC
+    LIMIT 1
+  `).catch(() => null);
+  if (row) {
+    riskThresholds = { ...DEFAULT_UPHOLD_RISK_THRESHOLDS, ...row.thresholds };
+    console.log(`Using risk policy v${row.version}: ${riskThresholds.veryHigh}/${riskThresholds.high}/${riskThresholds.medium}%.\n`);
+  } else {
+    console.log('No published risk policy; using default 60/45/30% bands.\n');
+  }
+}
+
 async function generateBrief(product: string, rootCause: string | null): Promise<void> {
   const params: unknown[] = [product];
   let rcFilter = '';
@@ -200,7 +256,7 @@ async function generateBrief(product: string, rootCause: string | null): Promise
       ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpr} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate,
       ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpr} = 'not_upheld') / NULLIF(COUNT(*), 0), 2) AS not_upheld_rate
     FROM fos_decisions
-    WHERE COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') = $1
+    WHERE ${productExpr} = $1
     ${rcFilter}
   `, params);
 
@@ -214,7 +270,7 @@ async function generateBrief(product: string, rootCause: string | null): Promise
   const outcomeRows = await query<Record<string, unknown>>(`
     SELECT ${outcomeExpr} AS outcome, COUNT(*)::INT AS count
     FROM fos_decisions
-    WHERE COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') = $1
+    WHERE ${productExpr} = $1
     ${rcFilter}
     GROUP BY ${outcomeExpr}
     ORDER BY count DESC
@@ -228,7 +284,7 @@ async function generateBrief(product: string, rootCause: string | null): Promise
       ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpr} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate,
       COUNT(*)::INT AS total
     FROM fos_decisions
-    WHERE COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') = $1
+    WHERE ${productExpr} = $1
     ${rcFilter}
     AND decision_date IS NOT NULL
     GROUP BY EXTRACT(YEAR FROM decision_date)
@@ -237,7 +293,7 @@ async function generateBrief(product: string, rootCause: string | null): Promise
   `, params);
   const yearTrend = yearTrendRows.map((r) => ({ year: Number(r.year), upheldRate: Number(r.upheld_rate), total: Number(r.total) }));
 
-  const upholdRiskLevel = upheldRate >= 60 ? 'very_high' : upheldRate >= 45 ? 'high' : upheldRate >= 30 ? 'medium' : 'low';
+  const { upholdRiskLevel } = assessUpholdRisk({ upheldRate, totalCases }, riskThresholds);
   let trendDirection = 'stable';
   if (yearTrend.length >= 2) {
     const recent = yearTrend[yearTrend.length - 1].upheldRate;
@@ -251,7 +307,7 @@ async function generateBrief(product: string, rootCause: string | null): Promise
     SELECT BTRIM(p.value) AS label, COUNT(*)::INT AS count,
       ROUND(100.0 * COUNT(*) / $${paramOffset + 1}::NUMERIC, 1) AS pct
     FROM fos_decisions d, jsonb_array_elements_text(COALESCE(d.precedents, '[]'::jsonb)) AS p(value)
-    WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1 ${rcFilter}
+    WHERE ${productExpr} = $1 ${rcFilter}
     GROUP BY BTRIM(p.value) ORDER BY count DESC LIMIT 10
   `, [...params, totalCases]);
   const keyPrecedents = precRows.map((r) => ({ label: normalizeTag(String(r.label)), count: Number(r.count), percentOfCases: Number(r.pct) }));
@@ -261,7 +317,7 @@ async function generateBrief(product: string, rootCause: string | null): Promise
     SELECT BTRIM(rc.value) AS label, COUNT(*)::INT AS count,
       ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpr} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate
     FROM fos_decisions d, jsonb_array_elements_text(COALESCE(d.root_cause_tags, '[]'::jsonb)) AS rc(value)
-    WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1 ${rcFilter}
+    WHERE ${productExpr} = $1 ${rcFilter}
     GROUP BY BTRIM(rc.value) ORDER BY count DESC LIMIT 12
   `, params);
   const rootCausePatterns = rcRows.map((r) => ({ label: normalizeTag(String(r.label)), count: Number(r.count), upheldRate: Number(r.upheld_rate) }));
@@ -271,7 +327,7 @@ async function generateBrief(product: string, rootCause: string | null): Promise
     SELECT BTRIM(v.value) AS label, COUNT(*)::INT AS count,
       ROUND(100.0 * COUNT(*) / $${paramOffset + 1}::NUMERIC, 1) AS pct
     FROM fos_decisions d, jsonb_array_elements_text(COALESCE(d.vulnerability_flags, '[]'::jsonb)) AS v(value)
-    WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1 ${rcFilter}
+    WHERE ${productExpr} = $1 ${rcFilter}
     GROUP BY BTRIM(v.value) ORDER BY count DESC LIMIT 8
   `, [...params, totalCases]);
   const vulnerabilities = vulnRows.map((r) => ({ label: normalizeTag(String(r.label)), count: Number(r.count), percentOfCases: Number(r.pct) }));
@@ -284,7 +340,7 @@ async function generateBrief(product: string, rootCause: string | null): Promise
       COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm') AS firm_name,
       ${outcomeExpr} AS outcome, decision_summary, root_cause_tags, precedents
     FROM fos_decisions
-    WHERE COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') = $1 ${rcFilter}
+    WHERE ${productExpr} = $1 ${rcFilter}
     AND ${outcomeExpr} = 'upheld'
     ORDER BY decision_date DESC NULLS LAST LIMIT 10
   `, params);
@@ -294,7 +350,7 @@ async function generateBrief(product: string, rootCause: string | null): Promise
       COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm') AS firm_name,
       ${outcomeExpr} AS outcome, decision_summary, root_cause_tags, precedents
     FROM fos_decisions
-    WHERE COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') = $1 ${rcFilter}
+    WHERE ${productExpr} = $1 ${rcFilter}
     AND ${outcomeExpr} = 'not_upheld'
     ORDER BY decision_date DESC NULLS LAST LIMIT 10
   `, params);
@@ -340,32 +396,42 @@ async function generateBrief(product: string, rootCause: string | null): Promise
   let aiWhatLoses: string | null = null;
   let aiGuidance: string | null = null;
   let aiExecutiveSummary: string | null = null;
+  let aiContextCases: FOSAiCitation[] | null = null;
 
   if (WITH_AI && totalCases >= 10) {
     try {
-      // Fetch reasoning texts for AI analysis (shorter excerpts to reduce token count)
-      const upheldTexts = await query<{ text: string }>(`
-        SELECT LEFT(COALESCE(ombudsman_reasoning_text, '') || E'\n' || COALESCE(decision_logic, ''), 400) AS text
+      // Fetch reasoning texts for AI analysis (shorter excerpts to reduce token count).
+      // Excerpts carry their decision reference so the model can cite them.
+      const upheldTexts = await query<AiExcerpt>(`
+        SELECT ${caseIdExpr} AS "caseId", decision_reference AS "decisionReference",
+          LEFT(COALESCE(ombudsman_reasoning_text, '') || E'\n' || COALESCE(decision_logic, ''), 400) AS text
         FROM fos_decisions
-        WHERE COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') = $1
+        WHERE ${productExpr} = $1
         ${rcFilter}
         AND ${outcomeExpr} = 'upheld'
+        AND NULLIF(BTRIM(decision_reference), '') IS NOT NULL
         AND (ombudsman_reasoning_text IS NOT NULL OR decision_logic IS NOT NULL)
         ORDER BY decision_date DESC NULLS LAST
         LIMIT 3
       `, params);
 
-      const notUpheldTexts = await query<{ text: string }>(`
-        SELECT LEFT(COALESCE(ombudsman_reasoning_text, '') || E'\n' || COALESCE(decision_logic, ''), 400) AS text
+      const notUpheldTexts = await query<AiExcerpt>(`
+        SELECT ${caseIdExpr} AS "caseId", decision_reference AS "decisionReference",
+          LEFT(COALESCE(ombudsman_reasoning_text, '') || E'\n' || COALESCE(decision_logic, ''), 400) AS text
         FROM fos_decisions
-        WHERE COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') = $1
+        WHERE ${productExpr} = $1
         ${rcFilter}
         AND ${outcomeExpr} = 'not_upheld'
+        AND NULLIF(BTRIM(decision_reference), '') IS NOT NULL
         AND (ombudsman_reasoning_text IS NOT NULL OR decision_logic IS NOT NULL)
         ORDER BY decision_date DESC NULLS LAST
         LIMIT 3
       `, params);
 
+      const upheldExcerpts = upheldTexts.filter((r) => r.text.trim().length > 50);
+      const notUpheldExcerpts = notUpheldTexts.filter((r) => r.text.trim().length > 50);
+      aiContextCases = [...upheldExcerpts, ...notUpheldExcerpts].map((r) => ({ caseId: r.caseId, decisionReference: r.decisionReference }));
+
       const prompt = buildAiUserPrompt({
         product,
         rootCause,
@@ -378,44 +444,39 @@ async function generateBrief(product: string, rootCause: string | null): Promise
         keyPrecedents: keyPrecedents.slice(0, 5),
         rootCausePatterns: rootCausePatterns.slice(0, 5),
         vulnerabilities: vulnerabilities.slice(0, 4),
-        upheldTexts: upheldTexts.map((r) => r.text).filter((t) => t.trim().length > 50),
-        notUpheldTexts: notUpheldTexts.map((r) => r.text).filter((t) => t.trim().length > 50),
+        upheldTexts: upheldExcerpts,
+        notUpheldTexts: notUpheldExcerpts,
       });
 
-      // Retry with backoff on 429 (Groq free tier: 12k TPM)
-      let aiResponse: string | null = null;
-      for (let attempt = 0; attempt < 3; attempt++) {
-        try {
-          aiResponse = await callGroq(
-            [
-              { role: 'system', content: AI_SYSTEM_PROMPT },
-              { role: 'user', content: prompt },
-            ],
-            { maxTokens: 1500, temperature: 0.3 }
-          );
-          break;
-        } catch (retryErr) {
-          const msg = retryErr instanceof Error ? retryErr.message : String(retryErr);
-          if (msg.includes('429') && attempt < 2) {
-            const backoff = 20_000 * (attempt + 1);
-            console.log(`    Rate limited, waiting ${backoff / 1000}s (attempt ${attempt + 1}/3)...`);
-            await delay(backoff);
-          } else {
-            throw retryErr;
-          }
-        }
-      }
-
-      if (aiResponse) {
-        const sections = parseAiSections(aiResponse);
-        aiExecutiveSummary = sections.executiveSummary || null;
-        aiWhatWins = sections.whatWins || null;
-        aiWhatLoses = sections.whatLoses || null;
-        aiGuidance = sections.guidance || null;
-      }
+      // Providers retry 429s and timeouts themselves; cached responses skip the call entirely.
+      const completion = await completeWithProviders({
+        providers: llmProviders,
+        messages: [
+          { role: 'system', content: AI_SYSTEM_PROMPT },
+          { role: 'user', content: prompt },
+        ],
+        options: { purpose: 'advisor_brief', maxTokens: 1500, temperature: 0.3 },
+        store: llmStore,
+      });
 
-      // Rate limit: 15s between Groq calls (12k TPM free tier)
-      await delay(15_000);
+      // Drop citations outside the supplied context; uncited claims are flagged again at read time.
+      const sections = parseAiSections(completion.content);
+      const citationContext = [...aiContextCases, ...sampleCases];
+      const grounded = (text: string) => {
+        if (!text) return null;
+        const result = groundAiSection(text, citationContext);
+        if (result.report.unknownReferences.length > 0 || result.report.uncitedClaims.length > 0) {
+          console.log(`    Grounding: ${result.report.unknownReferences.length} unknown reference(s), ${result.report.uncitedClaims.length} uncited claim(s).`);
+        }
+        return result.text || null;
+      };
+      aiExecutiveSummary = grounded(sections.executiveSummary);
+      aiWhatWins = grounded(sections.whatWins);
+      aiWhatLoses = grounded(sections.whatLoses);
+      aiGuidance = grounded(sections.guidance);
+
+      // Rate limit: 15s between hosted calls (Groq free tier: 12k TPM)
+      if (!completion.cached && completion.provider !== 'fixture') await delay(15_000);
     } catch (err) {
       console.error(`    AI generation failed for ${product}/${rootCause || 'all'}:`, err instanceof Error ? err.message : err);
     }
@@ -428,13 +489,13 @@ async function generateBrief(product: string, rootCause: string | null): Promise
       risk_level, trend_direction, year_trend, key_precedents,
       root_cause_patterns, what_wins, what_loses, ai_what_wins, ai_what_loses,
       ai_guidance, ai_executive_summary, outcome_distribution,
-      vulnerabilities, sample_cases, recommended_actions, generated_at
+      vulnerabilities, sample_cases, recommended_actions, ai_context_cases, generated_at
     ) VALUES (
       $1, $2, $3, $4, $5,
       $6, $7, $8::jsonb, $9::jsonb,
       $10::jsonb, $11::jsonb, $12::jsonb, $13, $14,
       $15, $16, $17::jsonb,
-      $18::jsonb, $19::jsonb, $20::jsonb, NOW()
+      $18::jsonb, $19::jsonb, $20::jsonb, $21::jsonb, NOW()
     )
     ON CONFLICT (product, root_cause) DO UPDATE SET
       total_cases = EXCLUDED.total_cases, upheld_rate = EXCLUDED.upheld_rate,
@@ -446,6 +507,7 @@ async function generateBrief(product: string, rootCause: string | null): Promise
       ai_what_loses = COALESCE(EXCLUDED.ai_what_loses, fos_advisor_briefs.ai_what_loses),
       ai_guidance = COALESCE(EXCLUDED.ai_guidance, fos_advisor_briefs.ai_guidance),
       ai_executive_summary = COALESCE(EXCLUDED.ai_executive_summary, fos_advisor_briefs.ai_executive_summary),
+      ai_context_cases = CASE WHEN EXCLUDED.ai_executive_summary IS NULL THEN fos_advisor_briefs.ai_context_cases ELSE EXCLUDED.ai_context_cases END,
       outcome_distribution = EXCLUDED.outcome_distribution,
       vulnerabilities = EXCLUDED.vulnerabilities,
       sample_cases = EXCLUDED.sample_cases, recommended_actions = EXCLUDED.recommended_actions,
@@ -456,6 +518,7 @@ async function generateBrief(product: string, rootCause: string | null): Promise
     JSON.stringify(rootCausePatterns), JSON.stringify([]), JSON.stringify([]), aiWhatWins, aiWhatLoses,
     aiGuidance, aiExecutiveSummary, JSON.stringify(outcomeDistribution),
     JSON.stringify(vulnerabilities), JSON.stringify(sampleCases), JSON.stringify(recommendedActions),
+    aiContextCases ? JSON.stringify(aiContextCases) : null,
   ]);
 }
 
@@ -472,15 +535,28 @@ async function main() {
   console.log(`Starting FOS Advisor Brief generation${WITH_AI ? ' (with AI narratives)' : ''}...\n`);
 
   await ensureTable();
+  await loadRiskThresholds();
+  await detectProductTaxonomy();
+  if (WITH_AI) {
+    await query(LLM_SCHEMA_SQL);
+    console.log(`LLM providers: ${llmProviders.map((provider) => `${provider.name} (${provider.model})`).join(' -> ')}.\n`);
+  }
 
   // Get all distinct products
   const productRows = await query<{ product: string }>(`
-    SELECT DISTINCT COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') AS product
+    SELECT DISTINCT ${productExpr} AS product
     FROM fos_decisions
     ORDER BY product
   `);
   console.log(`Found ${productRows.length} distinct products.\n`);
 
+  // Briefs for labels the taxonomy has since remapped would otherwise linger in the advisor options.
+  const staleRows = await query<{ product: string }>(
+    `DELETE FROM fos_advisor_briefs WHERE product <> ALL($1::TEXT[]) RETURNING product`,
+    [productRows.map((row) => row.product)]
+  );
+  if (staleRows.length > 0) console.log(`Removed ${staleRows.length} briefs for product labels no longer in the corpus.\n`);
+
   let generated = 0;
   let skipped = 0;
   let aiGenerated = 0;
@@ -500,7 +576,7 @@ async function main() {
     const rcRows = await query<{ root_cause: string }>(`
       SELECT DISTINCT BTRIM(rc.value) AS root_cause
       FROM fos_decisions d, jsonb_array_elements_text(COALESCE(d.root_cause_tags, '[]'::jsonb)) AS rc(value)
-      WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1
+      WHERE ${productExpr} = $1
       AND BTRIM(rc.value) != ''
       ORDER BY root_cause
     `, [product]);
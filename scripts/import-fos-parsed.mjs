@@ -6,6 +6,7 @@ import process from 'node:process';
 import { fileURLToPath } from 'node:url';
 import pg from 'pg';
 import { connectWithRetry, createPoolConfig, loadLocalEnv } from './lib/db-runtime.mjs';
+import { applyDecisionOverrides } from './lib/decision-overrides.mjs';
 
 const { Pool } = pg;
 
@@ -32,6 +33,8 @@ const COLUMN_NAMES = [
   'embedding',
   'embedding_model',
   'embedding_dim',
+  'tag_rule_version',
+  'section_splitter_version',
 ];
 
 const SCRIPT_DIR = path.dirname(fileURLToPath(import.meta.url));
@@ -47,6 +50,9 @@ const DEFAULT_SOURCE_DIR = path.join(
 );
 const DEFAULT_STATE_FILE = path.join(SCRIPT_DIR, '..', 'tmp', 'fos-import-state.json');
 const BATCH_SIZE_DEFAULT = 200;
+const TAG_RULES_MIGRATION_PATH = path.join(SCRIPT_DIR, '..', 'db', 'migrations', '20260401_fos_tag_rules.sql');
+const REVISIONS_MIGRATION_PATH = path.join(SCRIPT_DIR, '..', 'db', 'migrations', '20260405_fos_decision_revisions.sql');
+const SECTION_QUALITY_MIGRATION_PATH = path.join(SCRIPT_DIR, '..', 'db', 'migrations', '20260406_fos_section_quality.sql');
 
 function parseArgs(argv) {
   const args = {};
@@ -118,6 +124,8 @@ function rowFromRecord(record, fileName, includeFullText) {
     embedding: null,
     embedding_model: null,
     embedding_dim: null,
+    tag_rule_version: Number.isInteger(record.tag_rule_version) ? record.tag_rule_version : null,
+    section_splitter_version: Number.isInteger(record.section_splitter_version) ? record.section_splitter_version : null,
   };
 }
 
@@ -159,6 +167,8 @@ function createBatchInsertSql(rowCount) {
       embedding = EXCLUDED.embedding,
       embedding_model = EXCLUDED.embedding_model,
       embedding_dim = EXCLUDED.embedding_dim,
+      tag_rule_version = EXCLUDED.tag_rule_version,
+      section_splitter_version = EXCLUDED.section_splitter_version,
       updated_at = NOW()
   `;
 }
@@ -173,6 +183,57 @@ async function writeState(stateFile, state) {
   await fs.writeFile(stateFile, `${JSON.stringify(state, null, 2)}\n`, 'utf8');
 }
 
+async function applyTagRulesSchema(client) {
+  const migrationSql = await fs.readFile(TAG_RULES_MIGRATION_PATH, 'utf8');
+  await client.query(migrationSql);
+}
+
+async function applyRevisionsSchema(client) {
+  const migrationSql = await fs.readFile(REVISIONS_MIGRATION_PATH, 'utf8');
+  await client.query(migrationSql);
+}
+
+async function applySectionQualitySchema(client) {
+  const migrationSql = await fs.readFile(SECTION_QUALITY_MIGRATION_PATH, 'utf8');
+  await client.query(migrationSql);
+}
+
+/**
+ * Keeps the stored version of every decision in the batch whose PDF hash is
+ * about to change, so a republished decision does not lose its earlier text.
+ * Returns the number of revisions recorded.
+ */
+async function captureRevisions(client, rows) {
+  const incoming = rows
+    .filter((row) => row.decision_reference && row.pdf_sha256)
+    .map((row) => ({ reference: row.decision_reference, sha: row.pdf_sha256 }));
+  if (incoming.length === 0) return 0;
+
+  const result = await client.query(
+    `
+      INSERT INTO fos_decision_revisions (
+        decision_reference, pdf_sha256, replaced_by_sha256, decision_date, business_name, product_sector,
+        outcome, ombudsman_name, pdf_url, full_text, complaint_text, firm_response_text,
+        ombudsman_reasoning_text, final_decision_text, decision_summary, precedents, root_cause_tags,
+        vulnerability_flags
+      )
+      SELECT
+        d.decision_reference, d.pdf_sha256, incoming.sha, d.decision_date, d.business_name, d.product_sector,
+        d.outcome, d.ombudsman_name, d.pdf_url, d.full_text, d.complaint_text, d.firm_response_text,
+        d.ombudsman_reasoning_text, d.final_decision_text, d.decision_summary,
+        COALESCE(d.precedents, '[]'::jsonb), COALESCE(d.root_cause_tags, '[]'::jsonb),
+        COALESCE(d.vulnerability_flags, '[]'::jsonb)
+      FROM jsonb_to_recordset($1::jsonb) AS incoming(reference TEXT, sha TEXT)
+      JOIN fos_decisions d ON d.decision_reference = incoming.reference
+      WHERE NULLIF(d.pdf_sha256, '') IS NOT NULL
+        AND d.pdf_sha256 <> incoming.sha
+      ON CONFLICT (decision_reference, pdf_sha256, replaced_by_sha256) DO NOTHING
+    `,
+    [JSON.stringify(incoming)]
+  );
+  return result.rowCount || 0;
+}
+
 async function readState(stateFile) {
   try {
     const raw = await fs.readFile(stateFile, 'utf8');
@@ -203,6 +264,7 @@ async function createRun(client, totalWindows, recordsIngested, activeYear) {
 }
 
 async function updateRun(client, runId, payload) {
+  if (!runId) return;
   await client.query(
     `
       UPDATE fos_ingestion_runs
@@ -239,6 +301,8 @@ async function main() {
   const limit = args.limit ? Number.parseInt(String(args.limit), 10) : null;
   const includeFullText = Boolean(args['include-full-text']);
   const resume = !args['no-resume'];
+  // The daily ingestion keeps its own fos_ingestion_runs row across windows.
+  const recordRun = !args['skip-run-record'];
 
   if (!Number.isInteger(batchSize) || batchSize <= 0) {
     throw new Error('--batch-size must be a positive integer.');
@@ -275,12 +339,18 @@ async function main() {
 
   let runId = null;
   let inserted = 0;
+  let revised = 0;
   let failed = 0;
   let activeYear = null;
   const windowsTotal = endExclusive - startIndex;
 
   try {
-    runId = await createRun(client, windowsTotal, inserted, activeYear);
+    await applyTagRulesSchema(client);
+    await applyRevisionsSchema(client);
+    await applySectionQualitySchema(client);
+    if (recordRun) {
+      runId = await createRun(client, windowsTotal, inserted, activeYear);
+    }
 
     const buffer = [];
     let processed = startIndex;
@@ -330,11 +400,33 @@ async function main() {
             row.decision_logic,
             row.embedding ? JSON.stringify(row.embedding) : null,
             row.embedding_model,
-            row.embedding_dim
+            row.embedding_dim,
+            row.tag_rule_version,
+            row.section_splitter_version
           );
         }
 
-        await client.query(sql, values);
+        // The revision copy and the overwrite commit together, so a failed batch
+        // neither loses the old text nor leaves a revision for an upsert that never landed.
+        let batchRevised = 0;
+        await client.query('BEGIN');
+        try {
+          batchRevised = await captureRevisions(client, buffer);
+          await client.query(sql, values);
+          await applyDecisionOverrides(client, {
+            references: buffer.map((row) => row.decision_reference).filter(Boolean),
+            refreshMachineValues: true,
+          });
+          await client.query('COMMIT');
+        } catch (error) {
+          try {
+            await client.query('ROLLBACK');
+          } catch {
+            // Ignore rollback failures after statement errors.
+          }
+          throw error;
+        }
+        revised += batchRevised;
         inserted += buffer.length;
         buffer.length = 0;
       }
@@ -361,7 +453,7 @@ async function main() {
         });
         const pct = ((windowsDone / windowsTotal) * 100).toFixed(2);
         console.log(
-          `Progress ${windowsDone}/${windowsTotal} (${pct}%) | inserted=${inserted.toLocaleString()} | failed=${failed.toLocaleString()}`
+          `Progress ${windowsDone}/${windowsTotal} (${pct}%) | inserted=${inserted.toLocaleString()} | revised=${revised.toLocaleString()} | failed=${failed.toLocaleString()}`
         );
       }
     }
@@ -385,7 +477,9 @@ async function main() {
       updatedAt: new Date().toISOString(),
     });
 
-    console.log(`Import finished. inserted=${inserted.toLocaleString()}, failed=${failed.toLocaleString()}`);
+    console.log(
+      `Import finished. inserted=${inserted.toLocaleString()}, revised=${revised.toLocaleString()}, failed=${failed.toLocaleString()}`
+    );
   } catch (error) {
     if (runId) {
       await updateRun(client, runId, {
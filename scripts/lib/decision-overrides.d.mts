@@ -0,0 +1,14 @@
+// Type declarations for decision-overrides.mjs so the app can share the override writer.
+
+export type OverrideField = 'outcome' | 'product_sector' | 'precedents' | 'root_cause_tags' | 'vulnerability_flags';
+
+export const OVERRIDE_FIELDS: OverrideField[];
+
+export interface OverrideQueryClient {
+  query: (text: string, params?: unknown[]) => Promise<{ rowCount?: number | null }>;
+}
+
+export function applyDecisionOverrides(
+  client: OverrideQueryClient,
+  options?: { decisionIds?: string[]; references?: string[]; refreshMachineValues?: boolean }
+): Promise<number>;
@@ -0,0 +1,76 @@
+// Reviewer corrections (fos_decision_overrides) take precedence over whatever
+// ingestion, enrichment or the tagger writes. Scripts that rewrite decisions
+// call applyDecisionOverrides for the rows they touched so corrections survive
+// re-ingestion and re-tagging. Also used by src/lib/corrections when saving.
+
+export const OVERRIDE_FIELDS = ['outcome', 'product_sector', 'precedents', 'root_cause_tags', 'vulnerability_flags'];
+
+/**
+ * Re-applies overrides to the decisions in scope (`decisionIds` and/or
+ * `references`; neither means every overridden decision). With
+ * `refreshMachineValues` the values just written by the caller are first kept
+ * as each override's machine value, so accuracy reporting compares against the
+ * current pipeline output. Returns the number of decisions updated; a missing
+ * overrides table is treated as no overrides.
+ */
+export async function applyDecisionOverrides(client, options = {}) {
+  const decisionIds = Array.isArray(options.decisionIds) ? options.decisionIds : null;
+  const references = Array.isArray(options.references) ? options.references : null;
+  if ((decisionIds && decisionIds.length === 0) || (references && references.length === 0)) return 0;
+  const scope = `
+    ($1::uuid[] IS NULL OR d.id = ANY($1::uuid[]))
+    AND ($2::text[] IS NULL OR d.decision_reference = ANY($2::text[]))
+  `;
+
+  try {
+    if (options.refreshMachineValues) {
+      await client.query(
+        `
+          UPDATE fos_decision_overrides AS o
+          SET machine_value = CASE o.field
+            WHEN 'outcome' THEN to_jsonb(d.outcome)
+            WHEN 'product_sector' THEN to_jsonb(d.product_sector)
+            WHEN 'precedents' THEN COALESCE(d.precedents, '[]'::jsonb)
+            WHEN 'root_cause_tags' THEN COALESCE(d.root_cause_tags, '[]'::jsonb)
+            WHEN 'vulnerability_flags' THEN COALESCE(d.vulnerability_flags, '[]'::jsonb)
+          END
+          FROM fos_decisions AS d
+          WHERE d.decision_reference = o.decision_reference
+            AND ${scope}
+        `,
+        [decisionIds, references]
+      );
+    }
+
+    const result = await client.query(
+      `
+        UPDATE fos_decisions AS d
+        SET
+          outcome = COALESCE(o.outcome #>> '{}', d.outcome),
+          product_sector = COALESCE(o.product_sector #>> '{}', d.product_sector),
+          precedents = COALESCE(o.precedents, d.precedents),
+          root_cause_tags = COALESCE(o.root_cause_tags, d.root_cause_tags),
+          vulnerability_flags = COALESCE(o.vulnerability_flags, d.vulnerability_flags),
+          updated_at = NOW()
+        FROM (
+          SELECT
+            decision_reference,
+            (ARRAY_AGG(value) FILTER (WHERE field = 'outcome'))[1] AS outcome,
+            (ARRAY_AGG(value) FILTER (WHERE field = 'product_sector'))[1] AS product_sector,
+            (ARRAY_AGG(value) FILTER (WHERE field = 'precedents'))[1] AS precedents,
+            (ARRAY_AGG(value) FILTER (WHERE field = 'root_cause_tags'))[1] AS root_cause_tags,
+            (ARRAY_AGG(value) FILTER (WHERE field = 'vulnerability_flags'))[1] AS vulnerability_flags
+          FROM fos_decision_overrides
+          GROUP BY decision_reference
+        ) AS o
+        WHERE d.decision_reference = o.decision_reference
+          AND ${scope}
+      `,
+      [decisionIds, references]
+    );
+    return result.rowCount || 0;
+  } catch (error) {
+    if (error?.code === '42P01') return 0;
+    throw error;
+  }
+}
@@ -1,52 +0,0 @@
-const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
-const GROQ_MODEL = 'llama-3.3-70b-versatile';
-
-interface GroqMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-interface GroqOptions {
-  maxTokens?: number;
-  temperature?: number;
-}
-
-export async function callGroq(
-  messages: GroqMessage[],
-  options: GroqOptions = {}
-): Promise<string> {
-  const apiKey = (process.env.GROQ_API_KEY || '').trim();
-  if (!apiKey) {
-    throw new Error('GROQ_API_KEY is not configured. Set it in .env or environment.');
-  }
-
-  const response = await fetch(GROQ_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: GROQ_MODEL,
-      messages,
-      temperature: options.temperature ?? 0.3,
-      max_tokens: options.maxTokens ?? 1500,
-    }),
-  });
-
-  if (!response.ok) {
-    const body = await response.text().catch(() => '');
-    throw new Error(`Groq API error (${response.status}): ${body.slice(0, 200)}`);
-  }
-
-  const data = (await response.json()) as {
-    choices?: { message?: { content?: string } }[];
-  };
-
-  const content = data.choices?.[0]?.message?.content;
-  if (!content) {
-    throw new Error('Groq returned an empty response.');
-  }
-
-  return content;
-}
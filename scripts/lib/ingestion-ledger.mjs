@@ -0,0 +1,341 @@
+// Window and per-decision ledger for scripts/fos/daily-ingestion.mjs
+// (fos_ingestion_windows / fos_ingestion_items). Website windows are keyed by
+// source and date range, a local archive has one window per source name, and
+// decisions are keyed by window + PDF URL (or archive path), so replaying a
+// window updates its rows instead of adding new ones. Every function takes a
+// pg Pool or client.
+
+export const ITEM_STAGES = ['discovered', 'fetched', 'parsed', 'tagged', 'upserted'];
+
+const WINDOW_COLUMNS = `
+  id,
+  source,
+  window_start::TEXT AS window_start,
+  window_end::TEXT AS window_end,
+  status,
+  attempts,
+  discovered_at
+`;
+
+/** The ledger key for a discovered decision: its PDF URL, else its path in a local archive, else its reference. */
+export function decisionKey(record) {
+  return record.pdf_url || record.source_url || record.local_path || record.decision_reference || null;
+}
+
+export async function createIngestionRun(db, windowsTotal) {
+  const result = await db.query(
+    `
+      INSERT INTO fos_ingestion_runs (
+        status, windows_done, windows_total, failed_windows, records_ingested, started_at, updated_at
+      ) VALUES ('running', 0, $1, 0, 0, NOW(), NOW())
+      RETURNING id
+    `,
+    [windowsTotal],
+  );
+  return result.rows[0]?.id || null;
+}
+
+/** Status `idle` marks a clean finish; `warning` and `error` finish without moving last_success_at. */
+export async function updateIngestionRun(db, runId, payload) {
+  if (!runId) return;
+  await db.query(
+    `
+      UPDATE fos_ingestion_runs
+      SET
+        status = $2::VARCHAR,
+        active_year = $3,
+        windows_done = $4,
+        windows_total = $5,
+        failed_windows = $6,
+        records_ingested = $7,
+        updated_at = NOW(),
+        finished_at = CASE WHEN $2::TEXT IN ('idle', 'warning', 'error') THEN NOW() ELSE finished_at END,
+        last_success_at = CASE WHEN $2::TEXT = 'idle' THEN NOW() ELSE last_success_at END
+      WHERE id = $1
+    `,
+    [
+      runId,
+      payload.status,
+      payload.activeYear ?? null,
+      payload.windowsDone ?? 0,
+      payload.windowsTotal ?? 0,
+      payload.failedWindows ?? 0,
+      payload.recordsIngested ?? 0,
+    ],
+  );
+}
+
+/**
+ * Windows of `source` a run should pick up before its own: retries requested
+ * from the admin page (`pending`), failed windows under `maxAttempts`, and
+ * `running` windows whose run died more than `staleMinutes` ago.
+ */
+export async function listResumableWindows(db, { source, maxAttempts, staleMinutes = 180 }) {
+  const result = await db.query(
+    `
+      SELECT ${WINDOW_COLUMNS}
+      FROM fos_ingestion_windows
+      WHERE source = $3
+        AND (
+          status = 'pending'
+          OR (status = 'failed' AND attempts < $1)
+          OR (status = 'running' AND started_at < NOW() - make_interval(mins => $2))
+        )
+      ORDER BY window_start ASC
+    `,
+    [maxAttempts, staleMinutes, source],
+  );
+  return result.rows.map(mapWindow);
+}
+
+/** Opens (or re-opens) the window for a date range. `replay` re-queues decisions that already landed. */
+export async function openWindow(db, { source, startDate, endDate, runId, replay = false }) {
+  const result = await db.query(
+    `
+      INSERT INTO fos_ingestion_windows (source, window_start, window_end, run_id, status, attempts, started_at)
+      VALUES ($4, $1::DATE, $2::DATE, $3, 'running', 1, NOW())
+      ON CONFLICT (source, window_start, window_end) DO UPDATE SET
+        run_id = EXCLUDED.run_id,
+        status = 'running',
+        attempts = fos_ingestion_windows.attempts + 1,
+        last_error = NULL,
+        started_at = NOW(),
+        finished_at = NULL,
+        updated_at = NOW()
+      RETURNING ${WINDOW_COLUMNS}
+    `,
+    [startDate, endDate, runId, source],
+  );
+  return resetForReplay(db, mapWindow(result.rows[0]), replay);
+}
+
+/**
+ * Opens the single window of a local archive source, re-dating it to this
+ * run's range, so running the same archive again resumes where it stopped.
+ */
+export async function openArchiveWindow(db, { source, startDate, endDate, runId, replay = false }) {
+  const existing = await db.query(
+    `SELECT id FROM fos_ingestion_windows WHERE source = $1 ORDER BY updated_at DESC LIMIT 1`,
+    [source],
+  );
+  if (!existing.rows[0]) {
+    return openWindow(db, { source, startDate, endDate, runId, replay });
+  }
+
+  const result = await db.query(
+    `
+      UPDATE fos_ingestion_windows
+      SET
+        window_start = $2::DATE,
+        window_end = $3::DATE,
+        run_id = $4,
+        status = 'running',
+        attempts = attempts + 1,
+        last_error = NULL,
+        started_at = NOW(),
+        finished_at = NULL,
+        updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${WINDOW_COLUMNS}
+    `,
+    [existing.rows[0].id, startDate, endDate, runId],
+  );
+  return resetForReplay(db, mapWindow(result.rows[0]), replay);
+}
+
+/** Claims a window returned by listResumableWindows for this run. */
+export async function claimWindow(db, windowId, runId) {
+  const result = await db.query(
+    `
+      UPDATE fos_ingestion_windows
+      SET
+        run_id = $2,
+        status = 'running',
+        attempts = attempts + 1,
+        last_error = NULL,
+        started_at = NOW(),
+        finished_at = NULL,
+        updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${WINDOW_COLUMNS}
+    `,
+    [windowId, runId],
+  );
+  return result.rows[0] ? mapWindow(result.rows[0]) : null;
+}
+
+/** Upserts the discovered decisions; ones seen before keep their stage and status. */
+export async function recordDiscoveries(db, windowId, records) {
+  const seen = new Set();
+  const items = [];
+  for (const record of records) {
+    const key = decisionKey(record);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    items.push({ key, reference: record.decision_reference || null, pdfUrl: record.pdf_url || null, record });
+  }
+
+  if (items.length > 0) {
+    await db.query(
+      `
+        INSERT INTO fos_ingestion_items (window_id, decision_key, decision_reference, pdf_url, discovery)
+        SELECT $1, item->>'key', item->>'reference', item->>'pdfUrl', item->'record'
+        FROM jsonb_array_elements($2::JSONB) AS item
+        ON CONFLICT (window_id, decision_key) DO UPDATE SET
+          decision_reference = COALESCE(EXCLUDED.decision_reference, fos_ingestion_items.decision_reference),
+          pdf_url = EXCLUDED.pdf_url,
+          discovery = EXCLUDED.discovery,
+          updated_at = NOW()
+      `,
+      [windowId, JSON.stringify(items)],
+    );
+  }
+
+  await db.query(
+    `UPDATE fos_ingestion_windows SET discovered_at = NOW(), updated_at = NOW() WHERE id = $1`,
+    [windowId],
+  );
+  return items.length;
+}
+
+/** Decisions in the window that have not landed yet, as `{ id, record }`. */
+export async function listOpenItems(db, windowId) {
+  const result = await db.query(
+    `
+      SELECT id, discovery
+      FROM fos_ingestion_items
+      WHERE window_id = $1
+        AND status <> 'completed'
+      ORDER BY created_at ASC, decision_key ASC
+    `,
+    [windowId],
+  );
+  return result.rows.map((row) => ({ id: row.id, record: row.discovery }));
+}
+
+/** Records a completed stage. Each attempt passes through `fetched` once, so that is where attempts are counted. */
+export async function markItemStage(db, itemId, stage, { pdfSha256 = null, decisionReference = null } = {}) {
+  if (!itemId) return;
+  await db.query(
+    `
+      UPDATE fos_ingestion_items
+      SET
+        stage = $2,
+        status = 'pending',
+        error_stage = NULL,
+        last_error = NULL,
+        attempts = attempts + CASE WHEN $2 = 'fetched' THEN 1 ELSE 0 END,
+        pdf_sha256 = COALESCE($3, pdf_sha256),
+        decision_reference = COALESCE($4, decision_reference),
+        updated_at = NOW()
+      WHERE id = $1
+    `,
+    [itemId, stage, pdfSha256, decisionReference],
+  );
+}
+
+export async function markItemFailed(db, itemId, errorStage, message) {
+  if (!itemId) return;
+  await db.query(
+    `
+      UPDATE fos_ingestion_items
+      SET
+        status = 'failed',
+        error_stage = $2,
+        last_error = $3,
+        attempts = attempts + CASE WHEN $2 = 'fetch' THEN 1 ELSE 0 END,
+        updated_at = NOW()
+      WHERE id = $1
+    `,
+    [itemId, errorStage, String(message || '').slice(0, 2000)],
+  );
+}
+
+/** Marks every tagged decision in the window as upserted once the import succeeded. */
+export async function completeWindowItems(db, windowId) {
+  const result = await db.query(
+    `
+      UPDATE fos_ingestion_items
+      SET stage = 'upserted', status = 'completed', error_stage = NULL, last_error = NULL, updated_at = NOW()
+      WHERE window_id = $1 AND stage = 'tagged' AND status = 'pending'
+    `,
+    [windowId],
+  );
+  return result.rowCount || 0;
+}
+
+/** Fails every tagged decision in the window when the import did not go through. */
+export async function failWindowItems(db, windowId, errorStage, message) {
+  await db.query(
+    `
+      UPDATE fos_ingestion_items
+      SET status = 'failed', error_stage = $2, last_error = $3, updated_at = NOW()
+      WHERE window_id = $1 AND stage = 'tagged' AND status = 'pending'
+    `,
+    [windowId, errorStage, String(message || '').slice(0, 2000)],
+  );
+}
+
+/**
+ * Rolls the item states up onto the window. A window-level error or any failed
+ * decision fails it; decisions left untouched (for example by `--limit`) leave
+ * it `pending` for the next run to resume.
+ */
+export async function finishWindow(db, windowId, { error = null } = {}) {
+  const result = await db.query(
+    `
+      UPDATE fos_ingestion_windows AS w
+      SET
+        discovered = c.total,
+        completed = c.completed,
+        failed = c.failed,
+        status = CASE
+          WHEN $2::TEXT IS NOT NULL OR c.failed > 0 THEN 'failed'
+          WHEN c.open > 0 THEN 'pending'
+          ELSE 'completed'
+        END,
+        last_error = $2::TEXT,
+        finished_at = NOW(),
+        updated_at = NOW()
+      FROM (
+        SELECT
+          COUNT(*)::INT AS total,
+          COUNT(*) FILTER (WHERE status = 'completed')::INT AS completed,
+          COUNT(*) FILTER (WHERE status = 'failed')::INT AS failed,
+          COUNT(*) FILTER (WHERE status = 'pending')::INT AS open
+        FROM fos_ingestion_items
+        WHERE window_id = $1
+      ) AS c
+      WHERE w.id = $1
+      RETURNING w.status, w.discovered, w.completed, w.failed
+    `,
+    [windowId, error ? String(error).slice(0, 2000) : null],
+  );
+  return result.rows[0] || null;
+}
+
+function mapWindow(row) {
+  return {
+    id: row.id,
+    source: row.source,
+    startDate: row.window_start,
+    endDate: row.window_end,
+    status: row.status,
+    attempts: Number(row.attempts || 0),
+    discoveredAt: row.discovered_at ? new Date(row.discovered_at).toISOString() : null,
+  };
+}
+
+async function resetForReplay(db, window, replay) {
+  if (replay) {
+    await db.query(
+      `
+        UPDATE fos_ingestion_items
+        SET stage = 'discovered', status = 'pending', error_stage = NULL, last_error = NULL, updated_at = NOW()
+        WHERE window_id = $1
+      `,
+      [window.id],
+    );
+  }
+  return window;
+}
@@ -0,0 +1,167 @@
+// Rule-based extraction of redress directions from decision text. Used by the
+// enrichment backfill; award type keys match FOSRedressAwardType in src/lib/fos/types.ts.
+
+const MAX_SCOPE_LENGTH = 9000;
+const FALLBACK_TAIL_LENGTH = 5000;
+const MAX_AWARD_AMOUNT = 5_000_000;
+const SNIPPET_LENGTH = 240;
+
+const PUTTING_THINGS_RIGHT_MARKERS = [
+  /\bputting things right\b/i,
+  /\bto put things right\b/i,
+  /\bwhat (the )?(business|firm|insurer|lender|bank) (needs|should|must) (to )?do\b/i,
+  /\bfair compensation\b/i,
+  /\bmy (final )?award\b/i,
+];
+
+const DIRECTION_PATTERN =
+  /\b(pay|pays|paying|refund|reimburse|compensat\w*|award|settle|re-?work|reconsider|remove|amend|correct|apologi[sz]e|offer(?:ed)?)\b/i;
+
+const NEGATION_PATTERN =
+  /\b(do not|don't|does not|doesn't|did not|didn't|won't|will not|should not|shouldn't|not require|no need|no further|nothing more|not (?:be )?(?:fair|reasonable|entitled))\b/i;
+
+const AWARD_LIMIT_PATTERN = /\b(award limit|maximum award|limit of|up to £[\d,]+ (plus|and) interest)\b/i;
+
+const AMOUNT_PATTERN = /£\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?(?!\d)/;
+
+const INTEREST_PATTERN = /(\d{1,2}(?:\.\d{1,2})?)\s?%\s*(?:a year|per year|per annum|a yr|yearly)?\s*(simple|compound(?:ed)?)?/i;
+
+const MONETARY_TYPE_RULES = [
+  { type: 'distress_inconvenience', regex: /\b(distress|inconvenience|trouble and upset|upset|worry|stress)\b/i },
+  { type: 'refund', regex: /\b(refund|repay|premiums?|charges?|fees?|commission|return (?:the|any))\b/i },
+  { type: 'financial_loss', regex: /\b(loss|losses|reimburse|costs?|out of pocket|shortfall|expenses?)\b/i },
+  { type: 'claim_settlement', regex: /\b(settle (?:the|his|her|their) claim|settlement of the claim|the claim|claim (?:amount|value))\b/i },
+];
+
+const NON_MONETARY_RULES = [
+  { type: 'credit_file', regex: /\b(remove|amend|correct|rectify)\b[^.]{0,80}\b(credit (file|record|reference)|adverse (information|markers?|entries))\b/i },
+  { type: 'apology', regex: /\bapologi[sz]e\b/i },
+  { type: 'claim_settlement', regex: /\b(reconsider|re-?assess|settle|deal with)\b[^.]{0,60}\bclaim\b/i },
+];
+
+function normalizeWhitespace(value) {
+  return String(value || '').replace(/\s+/g, ' ').trim();
+}
+
+function findMarkerIndex(text, markers) {
+  let best = -1;
+  for (const marker of markers) {
+    const match = marker.exec(text);
+    if (match && (best === -1 || match.index < best)) best = match.index;
+  }
+  return best;
+}
+
+/** Text most likely to hold the ombudsman's directions: "putting things right" onwards plus the final decision. */
+export function resolveRedressScope({ fullText, reasoning, finalDecision }) {
+  const parts = [];
+  const source = fullText || reasoning || '';
+  const markerIndex = findMarkerIndex(source, PUTTING_THINGS_RIGHT_MARKERS);
+  if (markerIndex >= 0) {
+    parts.push(source.slice(markerIndex, markerIndex + MAX_SCOPE_LENGTH));
+  }
+  if (finalDecision && !parts.some((part) => part.includes(finalDecision.slice(0, 120)))) {
+    parts.push(finalDecision);
+  }
+  if (parts.length === 0 && fullText) {
+    parts.push(fullText.slice(-FALLBACK_TAIL_LENGTH));
+  }
+  return parts.join('\n').slice(0, MAX_SCOPE_LENGTH * 2);
+}
+
+function splitSentences(text) {
+  // Shield decimals (£1,234.56, 8.5%) from the sentence boundary match.
+  const shielded = text.replace(/(\d)\.(\d)/g, '$1\u0000$2');
+  return (shielded.match(/[^.!?\n]+[.!?]*/g) || [])
+    .map((sentence) => normalizeWhitespace(sentence.replace(/\u0000/g, '.')))
+    .filter((sentence) => sentence.length > 0);
+}
+
+function parseAmount(whole, fraction) {
+  const value = Number(`${whole.replace(/,/g, '')}.${fraction || '0'}`);
+  if (!Number.isFinite(value) || value < 1 || value > MAX_AWARD_AMOUNT) return null;
+  return Math.round(value * 100) / 100;
+}
+
+function classifyMonetaryAward(sentence, amountIndex) {
+  // Prefer wording close to the amount ("£300 for the distress…") over the rest of the sentence.
+  const near = sentence.slice(Math.max(0, amountIndex - 90), amountIndex + 110);
+  for (const scope of [near, sentence]) {
+    for (const rule of MONETARY_TYPE_RULES) {
+      if (rule.regex.test(scope)) return rule.type;
+    }
+  }
+  return 'other';
+}
+
+function snippet(sentence) {
+  return sentence.length <= SNIPPET_LENGTH ? sentence : `${sentence.slice(0, SNIPPET_LENGTH - 3)}...`;
+}
+
+/**
+ * Extracts redress awards from a decision. Returns one award per distinct
+ * (type, amount) pair, the interest direction if any, and the monetary total
+ * excluding interest.
+ */
+export function extractRedress({ fullText, reasoning, finalDecision }) {
+  const scope = resolveRedressScope({ fullText, reasoning, finalDecision });
+  const awards = [];
+  const seen = new Set();
+  let interestRate = null;
+  let interestBasis = null;
+
+  const pushAward = (award) => {
+    const key = `${award.type}:${award.amount ?? ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    awards.push(award);
+  };
+
+  for (const sentence of splitSentences(scope)) {
+    if (!DIRECTION_PATTERN.test(sentence) && !/\binterest\b/i.test(sentence)) continue;
+    if (NEGATION_PATTERN.test(sentence) || AWARD_LIMIT_PATTERN.test(sentence)) continue;
+    if (/\boffer(?:ed)?\b/i.test(sentence) && !/\b(fair|reasonable)\b/i.test(sentence)) continue;
+
+    if (/\binterest\b/i.test(sentence)) {
+      const interest = sentence.match(INTEREST_PATTERN);
+      if (interest && interestRate == null) {
+        const rate = Number(interest[1]);
+        if (rate > 0 && rate <= 30) {
+          interestRate = rate;
+          interestBasis = interest[2] ? (interest[2].toLowerCase().startsWith('compound') ? 'compound' : 'simple') : null;
+          pushAward({ type: 'interest', amount: null, text: snippet(sentence) });
+        }
+      }
+    }
+
+    const amountPattern = new RegExp(AMOUNT_PATTERN.source, 'g');
+    let match;
+    let monetary = false;
+    while ((match = amountPattern.exec(sentence)) !== null) {
+      const amount = parseAmount(match[1], match[2]);
+      if (amount == null) continue;
+      monetary = true;
+      pushAward({ type: classifyMonetaryAward(sentence, match.index), amount, text: snippet(sentence) });
+    }
+
+    if (monetary) continue;
+    for (const rule of NON_MONETARY_RULES) {
+      if (rule.regex.test(sentence)) {
+        pushAward({ type: rule.type, amount: null, text: snippet(sentence) });
+      }
+    }
+  }
+
+  const monetaryAwards = awards.filter((award) => award.amount != null);
+  const totalAmount = monetaryAwards.length
+    ? Math.round(monetaryAwards.reduce((sum, award) => sum + award.amount, 0) * 100) / 100
+    : null;
+
+  return {
+    awards,
+    awardTypes: Array.from(new Set(awards.map((award) => award.type))).sort(),
+    totalAmount,
+    interestRate,
+    interestBasis,
+  };
+}
@@ -0,0 +1,37 @@
+// Type declarations for section-quality.mjs so the app can share the section scoring.
+
+export type SectionKey = 'complaint' | 'firm_response' | 'ombudsman_reasoning' | 'final_decision';
+
+/** How the splitter found a section; null when it did not. */
+export type SectionMethod = 'heading' | 'inline' | 'sentence';
+
+export interface SectionSplit {
+  sections: Record<SectionKey, string | null>;
+  methods: Record<SectionKey, SectionMethod | null>;
+  confidence: Record<SectionKey, number>;
+  score: number;
+}
+
+export interface SectionCoverage {
+  total: number;
+  withFullText: number;
+  sections: Record<SectionKey, number>;
+  complete: number;
+  averageScore: number;
+}
+
+interface Queryable {
+  query: (text: string, params?: unknown[]) => Promise<{ rows: Record<string, unknown>[] }>;
+}
+
+export const SECTION_KEYS: SectionKey[];
+export const SECTION_COLUMNS: Record<SectionKey, string>;
+export const SECTION_SPLITTER_VERSION: number;
+export const SECTION_CONFIDENCE: { stored: number; heading: number; inferred: number; weakInference: number };
+
+export function splitDecisionSections(text: string | null | undefined): SectionSplit;
+export function scoreSections(confidence: Partial<Record<SectionKey, number>>): number;
+export function sectionPresentSql(column: string): string;
+export function sectionScoreSql(alias?: string): string;
+export function readSectionCoverage(db: Queryable): Promise<SectionCoverage>;
+export function recordSectionCoverage(db: Queryable, source: 'report' | 'reprocess'): Promise<SectionCoverage>;
@@ -0,0 +1,266 @@
+// Section splitting and section-coverage scoring for FOS decisions. The
+// splitter turns decision full text into the four stored sections and says how
+// each was found; the SQL helpers score what is stored. Used by daily
+// ingestion, the section reprocess job, the data-quality report and the
+// data-quality page in src/lib/data-quality.
+
+export const SECTION_KEYS = ['complaint', 'firm_response', 'ombudsman_reasoning', 'final_decision'];
+
+export const SECTION_COLUMNS = {
+  complaint: 'complaint_text',
+  firm_response: 'firm_response_text',
+  ombudsman_reasoning: 'ombudsman_reasoning_text',
+  final_decision: 'final_decision_text',
+};
+
+/**
+ * Recorded in fos_decisions.section_splitter_version. NULL means the sections
+ * came from the original header-only splitter (treated as version 1).
+ */
+export const SECTION_SPLITTER_VERSION = 2;
+
+/** Confidence by how a section was found; `stored` and `inferred` match the case view's scale. */
+export const SECTION_CONFIDENCE = {
+  stored: 0.98,
+  heading: 0.95,
+  inferred: 0.78,
+  weakInference: 0.62,
+};
+
+const MIN_SECTION_LENGTH = 40;
+
+const FIRM_NAMES = '(?:business|firm|insurer|lender|bank|broker|provider)';
+
+// Whole-line headings, matched case-insensitively after quotes and dashes are normalised.
+const SECTION_HEADINGS = {
+  complaint: [
+    'the complaint',
+    'complaint',
+    'background(?: to the complaint)?',
+    'what happened',
+    'summary of (?:the )?complaint',
+    'the complaint and background',
+  ],
+  firm_response: [
+    `(?:the )?${FIRM_NAMES}'s (?:final )?response`,
+    `what the ${FIRM_NAMES} (?:says|said)`,
+    `the ${FIRM_NAMES} said`,
+    `response from the ${FIRM_NAMES}`,
+  ],
+  ombudsman_reasoning: [
+    "what i(?:'ve| have) decided(?: ?-? ?and why)?",
+    'my (?:provisional )?findings',
+    'my assessment',
+    'what i think',
+    'reasons for (?:my )?decision',
+    'findings',
+  ],
+  final_decision: ['my final decision', 'final decision', 'my (?:provisional )?decision'],
+};
+
+// Headings that end a section without starting one we store.
+const BOUNDARY_HEADINGS = [
+  "(?:our|the) investigator's (?:view|findings|opinion)",
+  'what (?:our|the) investigator (?:said|thought|found)',
+  'responses? to (?:my|the) provisional decision',
+  'provisional decision',
+];
+
+// Phrases that open a section mid-paragraph, for text without recognisable headings.
+const INLINE_MARKERS = {
+  complaint: [/\bthe complaint\b/i, /\bbackground to the complaint\b/i, /\bwhat happened\b/i, /\bmy understanding\b/i],
+  firm_response: [
+    new RegExp(`\\bwhat (?:the )?${FIRM_NAMES} says\\b`, 'i'),
+    new RegExp(`\\bthe ${FIRM_NAMES} says\\b`, 'i'),
+    /\bour investigator thought\b/i,
+  ],
+  ombudsman_reasoning: [
+    /\bwhat i[' ]?ve decided\b/i,
+    /\bwhat i have decided\b/i,
+    /\bmy findings\b/i,
+    /\breasons for decision\b/i,
+    /\bwhat i think\b/i,
+  ],
+  final_decision: [/\bmy final decision\b/i, /\bfinal decision\b/i],
+};
+
+const UPHOLD_SENTENCE = /\bi (?:do not |don't |partly |partially |fully )?uphold[^.?!]{0,220}[.?!]/gi;
+
+const HEADING_PATTERNS = [
+  ...SECTION_KEYS.flatMap((key) => SECTION_HEADINGS[key].map((source) => ({ key, regex: headingRegex(source) }))),
+  ...BOUNDARY_HEADINGS.map((source) => ({ key: null, regex: headingRegex(source) })),
+];
+
+function headingRegex(source) {
+  return new RegExp(`(^|\\n)[ \\t]*(?:\\d{1,2}[.)][ \\t]*)?(?:${source})(?:[ \\t]*-?[ \\t]*(?=\\n|$)|[ \\t]*:)`, 'gi');
+}
+
+/**
+ * Splits decision text into sections. Headings are preferred (the first one of
+ * each kind that introduces real text; the last one for the final decision,
+ * which can also appear in a document title). Sections without a heading fall
+ * back to phrases in the prose, and the final decision to the last "I uphold"
+ * sentence. Returns the sections (null when not found), how each was found,
+ * its confidence and the mean confidence as `score`.
+ */
+export function splitDecisionSections(text) {
+  // Quote and dash replacements are one character each, so offsets stay aligned.
+  const normalized = String(text || '')
+    .replace(/\r/g, '')
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/[–—]/g, '-');
+
+  const headings = [];
+  for (const { key, regex } of HEADING_PATTERNS) {
+    regex.lastIndex = 0;
+    let match;
+    while ((match = regex.exec(normalized))) {
+      const start = match.index + match[1].length;
+      headings.push({ key, start, bodyStart: match.index + match[0].length });
+      if (match[0].length === 0) regex.lastIndex += 1;
+    }
+  }
+  headings.sort((a, b) => a.start - b.start || b.bodyStart - a.bodyStart);
+
+  const sections = Object.fromEntries(SECTION_KEYS.map((key) => [key, null]));
+  const methods = Object.fromEntries(SECTION_KEYS.map((key) => [key, null]));
+  const found = [];
+
+  for (const key of SECTION_KEYS) {
+    const candidates = headings.filter((heading) => heading.key === key);
+    if (key === 'final_decision') candidates.reverse();
+    for (const heading of candidates) {
+      // Consecutive headings of the same kind ("The complaint", "What happened") make one section.
+      const next = headings.find((other) => other.start >= heading.bodyStart && other.key !== key);
+      const end = next ? next.start : normalized.length;
+      const body = normalized.slice(heading.bodyStart, end).trim();
+      if (body.length < MIN_SECTION_LENGTH) continue;
+      sections[key] = body;
+      methods[key] = 'heading';
+      found.push({ start: heading.start, end });
+      break;
+    }
+  }
+
+  for (const key of SECTION_KEYS) {
+    if (sections[key]) continue;
+    // A phrase inside a section already found is prose, not the start of another.
+    const start = findMarkerIndex(normalized, INLINE_MARKERS[key], found);
+    if (start < 0) continue;
+    const end = [...found.map((range) => range.start), ...headings.map((heading) => heading.start)]
+      .filter((index) => index > start)
+      .reduce((min, index) => Math.min(min, index), normalized.length);
+    const body = normalized.slice(start, end).trim();
+    if (body.length < MIN_SECTION_LENGTH) continue;
+    sections[key] = body;
+    methods[key] = 'inline';
+    found.push({ start, end });
+  }
+
+  if (!sections.final_decision) {
+    const sentence = [...normalized.matchAll(UPHOLD_SENTENCE)].pop();
+    if (sentence) {
+      sections.final_decision = sentence[0].trim();
+      methods.final_decision = 'sentence';
+    }
+  }
+
+  const confidence = Object.fromEntries(SECTION_KEYS.map((key) => [key, methodConfidence(methods[key])]));
+  return { sections, methods, confidence, score: scoreSections(confidence) };
+}
+
+/** Mean of the per-section confidences, to two decimals. */
+export function scoreSections(confidence) {
+  const total = SECTION_KEYS.reduce((sum, key) => sum + (Number(confidence[key]) || 0), 0);
+  return Math.round((total / SECTION_KEYS.length) * 100) / 100;
+}
+
+/** SQL predicate: the section column holds text. */
+export function sectionPresentSql(column) {
+  return `NULLIF(BTRIM(COALESCE(${column}, '')), '') IS NOT NULL`;
+}
+
+/**
+ * SQL for a decision's section score from what is stored: a stored section
+ * counts as `stored`, an empty one as a weak inference when there is full text
+ * for the case view to infer from, else 0.
+ */
+export function sectionScoreSql(alias = 'd') {
+  const hasFullText = `COALESCE(octet_length(${alias}.full_text), 0) > 0`;
+  const terms = SECTION_KEYS.map(
+    (key) =>
+      `CASE WHEN ${sectionPresentSql(`${alias}.${SECTION_COLUMNS[key]}`)} THEN ${SECTION_CONFIDENCE.stored} ` +
+      `WHEN ${hasFullText} THEN ${SECTION_CONFIDENCE.weakInference} ELSE 0 END`
+  );
+  return `ROUND(((${terms.join(' + ')}) / ${SECTION_KEYS.length})::NUMERIC, 2)`;
+}
+
+/** Corpus-wide section coverage. `db` is a pg client or pool. */
+export async function readSectionCoverage(db) {
+  const result = await db.query(`
+    SELECT
+      COUNT(*)::INT AS total,
+      COUNT(*) FILTER (WHERE COALESCE(octet_length(d.full_text), 0) > 0)::INT AS with_full_text,
+      ${SECTION_KEYS.map((key) => `COUNT(*) FILTER (WHERE ${sectionPresentSql(`d.${SECTION_COLUMNS[key]}`)})::INT AS ${key}`).join(',\n      ')},
+      COUNT(*) FILTER (WHERE ${SECTION_KEYS.map((key) => sectionPresentSql(`d.${SECTION_COLUMNS[key]}`)).join(' AND ')})::INT AS complete,
+      COALESCE(AVG(${sectionScoreSql('d')}), 0)::FLOAT AS average_score
+    FROM fos_decisions d
+  `);
+  const row = result.rows[0] || {};
+  return {
+    total: Number(row.total || 0),
+    withFullText: Number(row.with_full_text || 0),
+    sections: Object.fromEntries(SECTION_KEYS.map((key) => [key, Number(row[key] || 0)])),
+    complete: Number(row.complete || 0),
+    averageScore: Math.round(Number(row.average_score || 0) * 10000) / 10000,
+  };
+}
+
+/**
+ * Reads the current coverage and stores it in fos_section_coverage_snapshots so
+ * it can be trended. `source` says what took it (`report` or `reprocess`).
+ */
+export async function recordSectionCoverage(db, source) {
+  const coverage = await readSectionCoverage(db);
+  await db.query(
+    `
+      INSERT INTO fos_section_coverage_snapshots (
+        source, total_decisions, with_full_text, complaint, firm_response, ombudsman_reasoning, final_decision, complete, average_score
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `,
+    [
+      source,
+      coverage.total,
+      coverage.withFullText,
+      coverage.sections.complaint,
+      coverage.sections.firm_response,
+      coverage.sections.ombudsman_reasoning,
+      coverage.sections.final_decision,
+      coverage.complete,
+      coverage.averageScore,
+    ]
+  );
+  return coverage;
+}
+
+function methodConfidence(method) {
+  if (method === 'heading') return SECTION_CONFIDENCE.heading;
+  if (method === 'inline') return SECTION_CONFIDENCE.inferred;
+  if (method === 'sentence') return SECTION_CONFIDENCE.weakInference;
+  return 0;
+}
+
+function findMarkerIndex(text, markers, excluded) {
+  let best = -1;
+  for (const marker of markers) {
+    const regex = new RegExp(marker.source, 'gi');
+    let match;
+    while ((match = regex.exec(text))) {
+      const index = match.index;
+      if (excluded.some((range) => index >= range.start && index < range.end)) continue;
+      if (best < 0 || index < best) best = index;
+      break;
+    }
+  }
+  return best;
+}
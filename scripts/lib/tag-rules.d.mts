@@ -0,0 +1,60 @@
+// Type declarations for tag-rules.mjs so the app can share the tagging engine.
+
+export type TagField = 'precedents' | 'root_cause_tags' | 'vulnerability_flags';
+
+export interface TagRulePattern {
+  regex: string;
+  weight: number;
+}
+
+export interface TagRule {
+  label: string;
+  aliases: string[];
+  minScore: number;
+  patterns: TagRulePattern[];
+}
+
+export type TagRuleSet = Record<TagField, TagRule[]>;
+
+export interface CompiledTagRule {
+  label: string;
+  aliases: string[];
+  minScore: number;
+  patterns: Array<{ regex: RegExp; weight: number }>;
+}
+
+export type CompiledTagRules = Record<TagField, { rules: CompiledTagRule[]; aliasMap: Map<string, string> }>;
+
+export interface DetectedTags {
+  labels: string[];
+  confidence: number;
+  detail: Array<{ label: string; score: number; confidence: number }>;
+}
+
+export const TAG_FIELDS: TagField[];
+export const MAX_TAGS_PER_FIELD: number;
+export const DEFAULT_TAG_RULES: TagRuleSet;
+
+export function validateTagRules(input: unknown): { rules: TagRuleSet; errors: string[] };
+export function compileTagRules(rules: TagRuleSet): CompiledTagRules;
+export function buildTagSource(parts: {
+  decisionLogic?: string | null;
+  decisionSummary?: string | null;
+  complaint?: string | null;
+  firmResponse?: string | null;
+  reasoning?: string | null;
+  finalDecision?: string | null;
+  fullText?: string | null;
+}): string;
+export function tagText(text: string, compiled: CompiledTagRules, options?: { maxTags?: number }): Record<TagField, DetectedTags>;
+export function buildAliasMap(rules: Array<Pick<TagRule, 'label' | 'aliases'>>): Map<string, string>;
+export function normalizeTagList(values: unknown[], aliasMap: Map<string, string>): string[];
+export function detectTagsWithConfidence(
+  text: string,
+  rules: CompiledTagRule[],
+  aliasMap: Map<string, string>,
+  options?: { maxTags?: number }
+): DetectedTags;
+export function loadActiveTagRules(client: {
+  query: (text: string) => Promise<{ rows: Array<Record<string, unknown>> }>;
+}): Promise<{ id: string | null; version: number; rules: TagRuleSet }>;
@@ -0,0 +1,583 @@
+// Rule-based tagging of precedents, root causes and vulnerability flags. Rule
+// sets are plain data (regex sources, weights, aliases) so they can be stored
+// as versions in fos_tag_rule_versions; the built-in set below is version 0.
+// Used by daily ingestion, the enrichment backfill, the re-tag job and the
+// admin preview in src/lib/tagging.
+
+export const TAG_FIELDS = ['precedents', 'root_cause_tags', 'vulnerability_flags'];
+
+export const MAX_TAGS_PER_FIELD = 12;
+const MAX_RULES_PER_FIELD = 80;
+const MAX_PATTERNS_PER_RULE = 20;
+const MAX_PATTERN_LENGTH = 300;
+const MAX_LABEL_LENGTH = 80;
+const MAX_WEIGHT = 5;
+const MAX_MIN_SCORE = 20;
+const FULL_TEXT_SCAN_LENGTH = 18000;
+
+const PRECEDENT_RULES = [
+  {
+    label: 'DISP',
+    aliases: ['disp rules', 'fca disp'],
+    minScore: 2,
+    patterns: [
+      { regex: /\bdisp\s*\d/i, weight: 2 },
+      { regex: /\bdisp\b/i, weight: 1 },
+    ],
+  },
+  {
+    label: 'PRIN',
+    aliases: ['fca principles', 'fca principle'],
+    minScore: 2,
+    patterns: [
+      { regex: /\bprin\s*\d/i, weight: 2 },
+      { regex: /\bprin\b/i, weight: 1 },
+      { regex: /\bfca principles?\b/i, weight: 2 },
+    ],
+  },
+  {
+    label: 'ICOBS',
+    aliases: ['insurance conduct of business sourcebook'],
+    minScore: 1,
+    patterns: [{ regex: /\bicobs\b/i, weight: 2 }],
+  },
+  {
+    label: 'COBS',
+    aliases: ['conduct of business sourcebook'],
+    minScore: 1,
+    patterns: [{ regex: /\bcobs\b/i, weight: 2 }],
+  },
+  {
+    label: 'MCOB',
+    aliases: ['mortgage conduct of business sourcebook'],
+    minScore: 1,
+    patterns: [{ regex: /\bmcob\b/i, weight: 2 }],
+  },
+  {
+    label: 'CONC',
+    aliases: ['consumer credit sourcebook'],
+    minScore: 1,
+    patterns: [{ regex: /\bconc\b/i, weight: 2 }],
+  },
+  {
+    label: 'SYSC',
+    aliases: ['systems and controls'],
+    minScore: 1,
+    patterns: [{ regex: /\bsysc\b/i, weight: 2 }],
+  },
+  {
+    label: 'FSMA',
+    aliases: ['financial services and markets act'],
+    minScore: 1,
+    patterns: [
+      { regex: /\bfsma\b/i, weight: 2 },
+      { regex: /\bfinancial services and markets act\b/i, weight: 2 },
+    ],
+  },
+  {
+    label: 'Consumer Credit Act 1974',
+    aliases: ['cca', 'consumer credit act'],
+    minScore: 2,
+    patterns: [
+      { regex: /\bconsumer credit act\b/i, weight: 2 },
+      { regex: /\bcca\b/i, weight: 1 },
+    ],
+  },
+  {
+    label: 'Section 75 CCA',
+    aliases: ['s75 cca', 'section 75'],
+    minScore: 1,
+    patterns: [{ regex: /\bsection\s*75\b/i, weight: 2 }],
+  },
+  {
+    label: 'Section 140A CCA',
+    aliases: ['s140a', 'section 140a'],
+    minScore: 1,
+    patterns: [{ regex: /\bsection\s*140a\b/i, weight: 2 }],
+  },
+  {
+    label: 'Insurance Act 2015',
+    aliases: ['insurance act'],
+    minScore: 1,
+    patterns: [{ regex: /\binsurance act(?:\s*2015)?\b/i, weight: 2 }],
+  },
+  {
+    label: 'Distance Marketing Regulations',
+    aliases: ['distance marketing'],
+    minScore: 1,
+    patterns: [{ regex: /\bdistance marketing regulations?\b/i, weight: 2 }],
+  },
+  {
+    label: 'Payment Services Regulations',
+    aliases: ['psr'],
+    minScore: 1,
+    patterns: [
+      { regex: /\bpayment services regulations?\b/i, weight: 2 },
+      { regex: /\bpsr\b/i, weight: 1 },
+    ],
+  },
+];
+
+const ROOT_CAUSE_RULES = [
+  {
+    label: 'Communication failure',
+    aliases: ['poor communication', 'miscommunication'],
+    minScore: 2,
+    patterns: [
+      { regex: /\b(poor|unclear|misleading)\s+communication\b/i, weight: 2 },
+      { regex: /\bfailed to explain\b/i, weight: 2 },
+      { regex: /\bnot (told|informed|made aware)\b/i, weight: 1 },
+      { regex: /\bunclear (letter|email|advice)\b/i, weight: 1 },
+    ],
+  },
+  {
+    label: 'Delay in claim handling',
+    aliases: ['claims delay', 'service delay'],
+    minScore: 2,
+    patterns: [
+      { regex: /\b(delay|delayed|late|timescale|waiting time|took too long)\b/i, weight: 1 },
+      { regex: /\bclaim (was )?(delayed|handled late)\b/i, weight: 2 },
+      { regex: /\bunreasonable delay\b/i, weight: 2 },
+    ],
+  },
+  {
+    label: 'Policy wording ambiguity',
+    aliases: ['unclear policy terms', 'policy ambiguity'],
+    minScore: 2,
+    patterns: [
+      { regex: /\b(policy wording|ambiguous|unclear term|small print|exclusion clause)\b/i, weight: 2 },
+      { regex: /\bterm(s)? (were|was) unclear\b/i, weight: 2 },
+      { regex: /\bpolicy (didn['’]t|did not) make clear\b/i, weight: 2 },
+    ],
+  },
+  {
+    label: 'Affordability assessment failure',
+    aliases: ['irresponsible lending', 'creditworthiness failure'],
+    minScore: 2,
+    patterns: [
+      { regex: /\b(affordability|unaffordable|creditworthiness|irresponsible lending)\b/i, weight: 2 },
+      { regex: /\b(insufficient|inadequate) (checks|assessment)\b/i, weight: 1 },
+      { regex: /\bfailed to carry out affordability checks\b/i, weight: 2 },
+    ],
+  },
+  {
+    label: 'Administrative error',
+    aliases: ['clerical error', 'processing error'],
+    minScore: 2,
+    patterns: [
+      { regex: /\b(administrative|clerical|processing|data entry|system)\s+error\b/i, weight: 2 },
+      { regex: /\bincorrectly (recorded|processed|applied)\b/i, weight: 1 },
+      { regex: /\bmistake in records\b/i, weight: 1 },
+    ],
+  },
+  {
+    label: 'Fraud or scam concern',
+    aliases: ['scam', 'app fraud', 'authorised push payment'],
+    minScore: 2,
+    patterns: [
+      { regex: /\b(fraud|scam|authorised push payment|app fraud)\b/i, weight: 2 },
+      { regex: /\bimpersonation\b/i, weight: 1 },
+      { regex: /\bcriminal(?:s)?\b/i, weight: 1 },
+    ],
+  },
+  {
+    label: 'Non-disclosure or misrepresentation',
+    aliases: ['misrepresentation', 'non disclosure'],
+    minScore: 2,
+    patterns: [
+      { regex: /\b(non[- ]?disclosure|misrepresentation|failed to disclose)\b/i, weight: 2 },
+      { regex: /\bmaterial information\b/i, weight: 1 },
+      { regex: /\binaccurate information provided\b/i, weight: 1 },
+    ],
+  },
+];
+
+const VULNERABILITY_RULES = [
+  {
+    label: 'Bereavement',
+    aliases: ['bereaved', 'widow', 'widower'],
+    minScore: 1,
+    patterns: [
+      { regex: /\b(bereave|bereavement|late husband|late wife|widow|widower)\b/i, weight: 2 },
+      { regex: /\bdeath of (a|their|his|her) (partner|spouse|family member)\b/i, weight: 1 },
+    ],
+  },
+  {
+    label: 'Mental health',
+    aliases: ['depression', 'anxiety'],
+    minScore: 1,
+    patterns: [
+      { regex: /\b(mental health|depression|anxiety|stress)\b/i, weight: 2 },
+      { regex: /\bpanic attacks?\b/i, weight: 1 },
+      { regex: /\bpost[- ]?traumatic stress\b/i, weight: 1 },
+    ],
+  },
+  {
+    label: 'Physical health',
+    aliases: ['disability', 'illness'],
+    minScore: 1,
+    patterns: [
+      { regex: /\b(illness|disability|long[- ]term condition|hospital)\b/i, weight: 2 },
+      { regex: /\bserious (injury|condition)\b/i, weight: 1 },
+      { regex: /\bmedical condition\b/i, weight: 1 },
+    ],
+  },
+  {
+    label: 'Financial hardship',
+    aliases: ['hardship', 'arrears'],
+    minScore: 1,
+    patterns: [
+      { regex: /\b(financial hardship|hardship|arrears|debt|struggling financially)\b/i, weight: 2 },
+      { regex: /\bunable to (pay|afford)\b/i, weight: 1 },
+      { regex: /\bpayment difficulties\b/i, weight: 1 },
+    ],
+  },
+  {
+    label: 'Domestic abuse',
+    aliases: ['financial abuse', 'coercive control'],
+    minScore: 1,
+    patterns: [
+      { regex: /\b(domestic abuse|coercive control|financial abuse)\b/i, weight: 2 },
+      { regex: /\babusive relationship\b/i, weight: 1 },
+    ],
+  },
+  {
+    label: 'Unemployment',
+    aliases: ['redundancy', 'job loss'],
+    minScore: 1,
+    patterns: [
+      { regex: /\b(unemploy(?:ed|ment)?|redundan(?:t|cy))\b/i, weight: 2 },
+      { regex: /\blost (his|her|their) job\b/i, weight: 1 },
+    ],
+  },
+  {
+    label: 'Language barrier',
+    aliases: ['interpreter required', 'english not first language'],
+    minScore: 1,
+    patterns: [
+      { regex: /\b(language barrier|english is not (my|their) first language|interpreter)\b/i, weight: 2 },
+      { regex: /\brequired translation\b/i, weight: 1 },
+    ],
+  },
+];
+
+
+export const DEFAULT_TAG_RULES = {
+  precedents: serializeRules(PRECEDENT_RULES),
+  root_cause_tags: serializeRules(ROOT_CAUSE_RULES),
+  vulnerability_flags: serializeRules(VULNERABILITY_RULES),
+};
+
+function serializeRules(rules) {
+  return rules.map((rule) => ({
+    label: rule.label,
+    aliases: rule.aliases || [],
+    minScore: rule.minScore || 1,
+    patterns: rule.patterns.map((pattern) => ({ regex: pattern.regex.source, weight: pattern.weight || 1 })),
+  }));
+}
+
+/**
+ * Checks and normalises a rule set supplied as data. Returns the cleaned rules
+ * and a list of problems; the rules are only safe to compile when `errors` is empty.
+ */
+export function validateTagRules(input) {
+  const errors = [];
+  const rules = {};
+  const source = input && typeof input === 'object' && !Array.isArray(input) ? input : {};
+
+  for (const field of TAG_FIELDS) {
+    const list = Array.isArray(source[field]) ? source[field] : [];
+    if (list.length > MAX_RULES_PER_FIELD) {
+      errors.push(`${field}: at most ${MAX_RULES_PER_FIELD} rules are allowed.`);
+    }
+
+    const seen = new Set();
+    rules[field] = [];
+    for (const [index, raw] of list.slice(0, MAX_RULES_PER_FIELD).entries()) {
+      const label = cleanText(raw?.label).slice(0, MAX_LABEL_LENGTH);
+      const where = `${field} rule ${index + 1}${label ? ` (${label})` : ''}`;
+      if (!label) {
+        errors.push(`${where}: a label is required.`);
+        continue;
+      }
+      if (seen.has(label.toLowerCase())) {
+        errors.push(`${where}: the label is used more than once.`);
+        continue;
+      }
+      seen.add(label.toLowerCase());
+
+      const patterns = [];
+      for (const pattern of (Array.isArray(raw?.patterns) ? raw.patterns : []).slice(0, MAX_PATTERNS_PER_RULE)) {
+        const regex = typeof pattern?.regex === 'string' ? pattern.regex.trim() : '';
+        if (!regex) continue;
+        if (regex.length > MAX_PATTERN_LENGTH) {
+          errors.push(`${where}: patterns are limited to ${MAX_PATTERN_LENGTH} characters.`);
+          continue;
+        }
+        try {
+          new RegExp(regex, 'i');
+        } catch (error) {
+          errors.push(`${where}: invalid pattern /${regex}/ (${error instanceof Error ? error.message : 'syntax error'}).`);
+          continue;
+        }
+        const unsafe = describeUnsafePattern(regex);
+        if (unsafe) {
+          errors.push(`${where}: pattern /${regex}/ ${unsafe}, which can stall tagging on long decisions.`);
+          continue;
+        }
+        patterns.push({ regex, weight: clamp(toInt(pattern.weight, 1), 1, MAX_WEIGHT) });
+      }
+      if (patterns.length === 0) {
+        errors.push(`${where}: at least one pattern is required.`);
+        continue;
+      }
+
+      rules[field].push({
+        label,
+        aliases: normalizeStringList(Array.isArray(raw?.aliases) ? raw.aliases : []).filter(
+          (alias) => alias.toLowerCase() !== label.toLowerCase()
+        ),
+        minScore: clamp(toInt(raw?.minScore, 1), 1, MAX_MIN_SCORE),
+        patterns,
+      });
+    }
+  }
+
+  return { rules, errors };
+}
+
+/**
+ * Rejects the pattern shapes that backtrack catastrophically: a repeated group
+ * that itself contains an unbounded repeat (`(a+)+`, `(\w+\s?)*`) and
+ * backreferences. Returns why the pattern is unsafe, or null. Expects a
+ * pattern that already compiles.
+ */
+function describeUnsafePattern(source) {
+  // Each open group records whether anything inside it repeats a variable number of times.
+  const groups = [{ repeats: false }];
+  let closedGroup = null;
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    const quantifier = readQuantifier(source, index);
+    if (quantifier) {
+      if (quantifier.unbounded && closedGroup?.repeats) return 'repeats a group that already repeats (nested quantifier)';
+      if (quantifier.variable) groups[groups.length - 1].repeats = true;
+      index += quantifier.length - 1;
+      closedGroup = null;
+      continue;
+    }
+
+    closedGroup = null;
+    if (char === '\\') {
+      if (/[1-9k]/.test(source[index + 1] || '')) return 'uses a backreference';
+      index += 1;
+    } else if (char === '[') {
+      for (index += 1; index < source.length && source[index] !== ']'; index += 1) {
+        if (source[index] === '\\') index += 1;
+      }
+    } else if (char === '(') {
+      groups.push({ repeats: false });
+      const prefix = source.slice(index + 1).match(/^\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>)/);
+      if (prefix) index += prefix[0].length;
+    } else if (char === ')' && groups.length > 1) {
+      closedGroup = groups.pop();
+      if (closedGroup.repeats) groups[groups.length - 1].repeats = true;
+    }
+  }
+  return null;
+}
+
+/**
+ * The quantifier starting at `index`, if any. `variable` when the repeat count
+ * can range above one (`+`, `{1,3}`); `unbounded` when it has no upper limit.
+ */
+function readQuantifier(source, index) {
+  const char = source[index];
+  let length = 1;
+  let min = 0;
+  let max = Infinity;
+  if (char === '?') {
+    max = 1;
+  } else if (char === '+') {
+    min = 1;
+  } else if (char === '{') {
+    const braces = source.slice(index).match(/^\{(\d+)(,(\d*))?\}/);
+    if (!braces) return null;
+    length = braces[0].length;
+    min = Number(braces[1]);
+    max = braces[2] === undefined ? min : braces[3] === '' ? Infinity : Number(braces[3]);
+  } else if (char !== '*') {
+    return null;
+  }
+  if (source[index + length] === '?') length += 1;
+  return { length, variable: max > 1 && max > min, unbounded: max === Infinity };
+}
+
+/** Turns a validated rule set into matchers. Patterns are always case-insensitive. */
+export function compileTagRules(rules) {
+  const compiled = {};
+  for (const field of TAG_FIELDS) {
+    const list = (rules && Array.isArray(rules[field]) ? rules[field] : []).map((rule) => ({
+      label: rule.label,
+      aliases: rule.aliases || [],
+      minScore: rule.minScore || 1,
+      patterns: (rule.patterns || []).map((pattern) => ({ regex: new RegExp(pattern.regex, 'i'), weight: pattern.weight || 1 })),
+    }));
+    compiled[field] = { rules: list, aliasMap: buildAliasMap(list) };
+  }
+  return compiled;
+}
+
+/** The text a decision is tagged from; the full text is capped so long PDFs do not dominate. */
+export function buildTagSource(parts) {
+  return [
+    parts.decisionLogic,
+    parts.decisionSummary,
+    parts.complaint,
+    parts.firmResponse,
+    parts.reasoning,
+    parts.finalDecision,
+    typeof parts.fullText === 'string' ? parts.fullText.slice(0, FULL_TEXT_SCAN_LENGTH) : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/** Tags `text` with every field of a compiled rule set. */
+export function tagText(text, compiled, options = {}) {
+  const result = {};
+  for (const field of TAG_FIELDS) {
+    result[field] = detectTagsWithConfidence(text, compiled[field].rules, compiled[field].aliasMap, options);
+  }
+  return result;
+}
+
+export function buildAliasMap(rules) {
+  const map = new Map();
+  for (const rule of rules) {
+    map.set(rule.label.toLowerCase(), rule.label);
+    for (const alias of rule.aliases || []) {
+      map.set(String(alias).toLowerCase(), rule.label);
+    }
+  }
+  return map;
+}
+
+export function normalizeTagList(values, aliasMap) {
+  const out = [];
+  const seen = new Set();
+  for (const value of values || []) {
+    const cleaned = cleanText(value);
+    if (!cleaned) continue;
+    const canonical = aliasMap.get(cleaned.toLowerCase()) || cleaned;
+    const key = canonical.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(canonical);
+  }
+  return out;
+}
+
+export function detectTagsWithConfidence(text, rules, aliasMap, options = {}) {
+  if (!text || !text.trim()) {
+    return { labels: [], confidence: 0, detail: [] };
+  }
+
+  const detected = [];
+  for (const rule of rules) {
+    let score = 0;
+    let matched = 0;
+    for (const pattern of rule.patterns || []) {
+      if (pattern.regex.test(text)) {
+        score += pattern.weight || 1;
+        matched += 1;
+      }
+    }
+
+    if (matched === 0) continue;
+    const minScore = Math.max(1, rule.minScore || 1);
+    if (score < minScore) continue;
+
+    detected.push({
+      label: rule.label,
+      score,
+      confidence: clamp(0.42 + score * 0.09, 0, 0.96),
+    });
+  }
+
+  detected.sort((a, b) => b.score - a.score || a.label.localeCompare(b.label));
+
+  const maxTags = options.maxTags || MAX_TAGS_PER_FIELD;
+  const labels = normalizeTagList(
+    detected.slice(0, maxTags).map((item) => item.label),
+    aliasMap
+  );
+
+  const detail = detected.slice(0, maxTags).map((item) => ({
+    label: item.label,
+    score: item.score,
+    confidence: item.confidence,
+  }));
+
+  const confidence = detail.length
+    ? detail.reduce((sum, item) => sum + item.confidence, 0) / detail.length
+    : 0;
+
+  return { labels, confidence, detail };
+}
+
+/**
+ * The latest published rule version, or the built-in rules as version 0 when
+ * none is published (or the table does not exist yet).
+ */
+export async function loadActiveTagRules(client) {
+  try {
+    const result = await client.query(`
+      SELECT id, version, rules
+      FROM fos_tag_rule_versions
+      WHERE status = 'published'
+      ORDER BY version DESC
+      LIMIT 1
+    `);
+    const row = result.rows[0];
+    if (row) {
+      const { rules, errors } = validateTagRules(typeof row.rules === 'string' ? JSON.parse(row.rules) : row.rules);
+      if (errors.length > 0) {
+        throw new Error(`Tag rule version ${row.version} is invalid: ${errors[0]}`);
+      }
+      return { id: String(row.id), version: Number(row.version), rules };
+    }
+  } catch (error) {
+    if (error?.code !== '42P01') throw error;
+  }
+  return { id: null, version: 0, rules: DEFAULT_TAG_RULES };
+}
+
+function cleanText(value) {
+  if (value == null) return '';
+  return String(value).replace(/\s+/g, ' ').trim();
+}
+
+function normalizeStringList(values) {
+  const output = [];
+  const seen = new Set();
+  for (const value of values || []) {
+    const cleaned = cleanText(value);
+    if (!cleaned) continue;
+    const key = cleaned.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    output.push(cleaned);
+  }
+  return output;
+}
+
+function toInt(value, fallback) {
+  const parsed = Number.parseInt(String(value), 10);
+  return Number.isInteger(parsed) ? parsed : fallback;
+}
+
+function clamp(value, min, max) {
+  return Math.min(max, Math.max(min, value));
+}
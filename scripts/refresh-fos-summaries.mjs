@@ -11,6 +11,8 @@ const { Pool } = pg;
 
 const SCRIPT_DIR = path.dirname(fileURLToPath(import.meta.url));
 const MIGRATION_PATH = path.join(SCRIPT_DIR, '..', 'db', 'migrations', '20260307_fos_summary_snapshots.sql');
+// Mirrors OMBUDSMAN_MIN_DECISIONS in src/lib/fos/constants.ts.
+const OMBUDSMAN_MIN_DECISIONS = 30;
 const SNAPSHOT_KEYS = {
   dashboard: 'dashboard_default',
   analysis: 'analysis_default',
@@ -60,6 +62,67 @@ function outcomeExpression(alias) {
   `;
 }
 
+// Set once per run; mirrors firmExpression in src/lib/fos/repo-helpers.ts.
+let firmRegistryAvailable = false;
+
+async function detectFirmRegistry(client) {
+  const rows = await client.query(`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.views
+      WHERE table_schema = current_schema() AND table_name = 'fos_firm_lookup'
+    ) AS has_firm_registry
+  `);
+  firmRegistryAvailable = Boolean(rows.rows[0]?.has_firm_registry);
+}
+
+function firmExpression(alias) {
+  const rawName = `COALESCE(NULLIF(BTRIM(${alias}.business_name), ''), 'Unknown firm')`;
+  if (!firmRegistryAvailable) return rawName;
+  return `
+    COALESCE(
+      (
+        SELECT firm_lookup.entity_name
+        FROM fos_firm_lookup firm_lookup
+        WHERE firm_lookup.alias_key = BTRIM(REGEXP_REPLACE(LOWER(COALESCE(${alias}.business_name, '')), '[^a-z0-9]+', ' ', 'g'))
+      ),
+      ${rawName}
+    )
+  `;
+}
+
+// Set once per run; mirrors productExpression in src/lib/fos/repo-helpers.ts
+// (built by productLabelSql in src/lib/products/sql.ts).
+let productTaxonomyAvailable = false;
+
+async function detectProductTaxonomy(client) {
+  const rows = await client.query(`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.views
+      WHERE table_schema = current_schema() AND table_name = 'fos_product_lookup'
+    ) AS has_product_taxonomy
+  `);
+  productTaxonomyAvailable = Boolean(rows.rows[0]?.has_product_taxonomy);
+}
+
+function productExpression(alias) {
+  const rawLabel = `COALESCE(NULLIF(BTRIM(${alias}.product_sector), ''), 'Unspecified')`;
+  if (!productTaxonomyAvailable) return rawLabel;
+  const key = `BTRIM(REGEXP_REPLACE(LOWER(${rawLabel}), '[^a-z0-9]+', ' ', 'g'))`;
+  return `
+    COALESCE(
+      (
+        SELECT product_lookup.product_name
+        FROM fos_product_lookup product_lookup
+        WHERE (product_lookup.match_type = 'exact' AND product_lookup.pattern_key = ${key})
+          OR (product_lookup.match_type = 'contains' AND ' ' || ${key} || ' ' LIKE '% ' || product_lookup.pattern_key || ' %')
+        ORDER BY (product_lookup.match_type = 'exact') DESC, product_lookup.priority DESC, LENGTH(product_lookup.pattern_key) DESC
+        LIMIT 1
+      ),
+      ${rawLabel}
+    )
+  `;
+}
+
 function toInt(value, fallback = 0) {
   if (value == null || value === '') return fallback;
   const parsed = Number.parseInt(String(value), 10);
@@ -238,16 +301,16 @@ async function queryFilterOptions(client) {
       ORDER BY year DESC
     `),
     client.query(`
-      SELECT COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') AS product
-      FROM fos_decisions
-      GROUP BY COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified')
+      SELECT ${productExpression('d')} AS product
+      FROM fos_decisions d
+      GROUP BY 1
       ORDER BY COUNT(*) DESC, product ASC
       LIMIT 40
     `),
     client.query(`
-      SELECT COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm') AS firm
-      FROM fos_decisions
-      GROUP BY COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm')
+      SELECT ${firmExpression('d')} AS firm
+      FROM fos_decisions d
+      GROUP BY 1
       ORDER BY COUNT(*) DESC, firm ASC
       LIMIT 120
     `),
@@ -268,7 +331,8 @@ async function buildDashboardSnapshot(client) {
       SELECT
         d.decision_date,
         d.business_name,
-        d.product_sector,
+        ${firmExpression('d')} AS firm_label,
+        ${productExpression('d')} AS product_label,
         d.ombudsman_reasoning_text,
         ${outcomeExpression('d')} AS outcome_bucket
       FROM fos_decisions d
@@ -334,14 +398,14 @@ async function buildDashboardSnapshot(client) {
           SELECT jsonb_agg(row_to_json(p) ORDER BY p.total DESC, p.product ASC)
           FROM (
             SELECT
-              COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') AS product,
+              product_label AS product,
               COUNT(*)::INT AS total,
               ROUND(
                 COALESCE(COUNT(*) FILTER (WHERE outcome_bucket = 'upheld')::NUMERIC / NULLIF(COUNT(*), 0) * 100, 0),
                 2
               ) AS upheld_rate
             FROM base
-            GROUP BY COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified')
+            GROUP BY product_label
             ORDER BY total DESC, product ASC
             LIMIT 12
           ) p
@@ -353,7 +417,7 @@ async function buildDashboardSnapshot(client) {
           SELECT jsonb_agg(row_to_json(fm) ORDER BY fm.total DESC, fm.firm ASC)
           FROM (
             SELECT
-              COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm') AS firm,
+              firm_label AS firm,
               COUNT(*)::INT AS total,
               ROUND(
                 COALESCE(COUNT(*) FILTER (WHERE outcome_bucket = 'upheld')::NUMERIC / NULLIF(COUNT(*), 0) * 100, 0),
@@ -364,7 +428,7 @@ async function buildDashboardSnapshot(client) {
                 2
               ) AS not_upheld_rate
             FROM base
-            GROUP BY COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm')
+            GROUP BY firm_label
             ORDER BY total DESC, firm ASC
             LIMIT 15
           ) fm
@@ -442,7 +506,7 @@ async function queryYearProductOutcome(client) {
   const rows = await client.query(`
     SELECT
       EXTRACT(YEAR FROM d.decision_date)::INT AS year,
-      COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS product,
+      ${productExpression('d')} AS product,
       COUNT(*)::INT AS total,
       COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld')::INT AS upheld,
       COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'not_upheld')::INT AS not_upheld,
@@ -457,7 +521,7 @@ async function queryYearProductOutcome(client) {
       ) AS not_upheld_rate
     FROM fos_decisions d
     WHERE d.decision_date IS NOT NULL
-    GROUP BY EXTRACT(YEAR FROM d.decision_date)::INT, COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified')
+    GROUP BY EXTRACT(YEAR FROM d.decision_date)::INT, ${productExpression('d')}
     ORDER BY year ASC, total DESC, product ASC
   `);
 
@@ -476,7 +540,7 @@ async function queryYearProductOutcome(client) {
 async function queryFirmBenchmark(client) {
   const rows = await client.query(`
     SELECT
-      COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') AS firm,
+      ${firmExpression('d')} AS firm,
       COUNT(*)::INT AS total,
       ROUND(
         COALESCE(COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld')::NUMERIC / NULLIF(COUNT(*), 0) * 100, 0),
@@ -487,9 +551,9 @@ async function queryFirmBenchmark(client) {
         2
       ) AS not_upheld_rate,
       ROUND(AVG(EXTRACT(YEAR FROM d.decision_date)))::INT AS avg_decision_year,
-      MODE() WITHIN GROUP (ORDER BY COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified')) AS predominant_product
+      MODE() WITHIN GROUP (ORDER BY ${productExpression('d')}) AS predominant_product
     FROM fos_decisions d
-    GROUP BY COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm')
+    GROUP BY ${firmExpression('d')}
     ORDER BY total DESC, firm ASC
     LIMIT 120
   `);
@@ -530,10 +594,10 @@ async function queryProductTree(client) {
   const rows = await client.query(`
     WITH product_totals AS (
       SELECT
-        COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS product,
+        ${productExpression('d')} AS product,
         COUNT(*)::INT AS product_total
       FROM fos_decisions d
-      GROUP BY COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified')
+      GROUP BY ${productExpression('d')}
     ),
     ranked_products AS (
       SELECT
@@ -544,15 +608,15 @@ async function queryProductTree(client) {
     ),
     firm_totals AS (
       SELECT
-        COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS product,
-        COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') AS firm,
+        ${productExpression('d')} AS product,
+        ${firmExpression('d')} AS firm,
         COUNT(*)::INT AS total,
         ROUND(
           COALESCE(COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld')::NUMERIC / NULLIF(COUNT(*), 0) * 100, 0),
           2
         ) AS upheld_rate
       FROM fos_decisions d
-      GROUP BY COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified'), COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm')
+      GROUP BY ${productExpression('d')}, ${firmExpression('d')}
     ),
     ranked_firms AS (
       SELECT
@@ -600,15 +664,15 @@ async function queryTopFirmByYear(client) {
     WITH ranked AS (
       SELECT
         EXTRACT(YEAR FROM d.decision_date)::INT AS year,
-        COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') AS firm,
+        ${firmExpression('d')} AS firm,
         COUNT(*)::INT AS total,
         ROW_NUMBER() OVER (
           PARTITION BY EXTRACT(YEAR FROM d.decision_date)::INT
-          ORDER BY COUNT(*) DESC, COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') ASC
+          ORDER BY COUNT(*) DESC, ${firmExpression('d')} ASC
         ) AS rank_in_year
       FROM fos_decisions d
       WHERE d.decision_date IS NOT NULL
-      GROUP BY EXTRACT(YEAR FROM d.decision_date)::INT, COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm')
+      GROUP BY EXTRACT(YEAR FROM d.decision_date)::INT, ${firmExpression('d')}
     )
     SELECT year, firm
     FROM ranked
@@ -623,11 +687,11 @@ async function queryMonthlyProductBreakdown(client) {
   const rows = await client.query(`
     SELECT
       TO_CHAR(d.decision_date, 'YYYY-MM') AS month,
-      COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS product,
+      ${productExpression('d')} AS product,
       COUNT(*)::INT AS count
     FROM fos_decisions d
     WHERE d.decision_date IS NOT NULL
-    GROUP BY TO_CHAR(d.decision_date, 'YYYY-MM'), COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified')
+    GROUP BY TO_CHAR(d.decision_date, 'YYYY-MM'), ${productExpression('d')}
     ORDER BY month ASC, count DESC
   `);
 
@@ -657,8 +721,134 @@ async function queryDecisionDayMonthGrid(client) {
   }));
 }
 
+// Mirrors queryRedressFromCte() in src/lib/fos/redress-repository.ts.
+async function queryRedressDistribution(client) {
+  let summaryRow;
+  let typeRows;
+  try {
+    const summary = await client.query(`
+      SELECT
+        COUNT(*) FILTER (WHERE d.redress_extracted_at IS NOT NULL)::INT AS decisions_analysed,
+        COUNT(*) FILTER (WHERE jsonb_array_length(COALESCE(d.redress_award_types, '[]'::jsonb)) > 0)::INT AS decisions_with_redress,
+        COUNT(d.redress_total_amount)::INT AS decisions_with_amount,
+        PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY d.redress_total_amount) AS p25,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY d.redress_total_amount) AS median,
+        PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY d.redress_total_amount) AS p75,
+        PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY d.redress_total_amount) AS p90,
+        AVG(d.redress_total_amount) AS mean,
+        COUNT(d.redress_interest_rate)::INT AS decisions_with_interest,
+        COUNT(*) FILTER (WHERE d.redress_interest_basis = 'simple')::INT AS simple_interest,
+        MODE() WITHIN GROUP (ORDER BY d.redress_interest_rate) AS common_interest_rate
+      FROM fos_decisions d
+    `);
+    const types = await client.query(`
+      SELECT
+        award.award_type,
+        COUNT(*)::INT AS decisions,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY award.amount) AS median_amount
+      FROM fos_decisions d
+      CROSS JOIN LATERAL (
+        SELECT
+          a.value->>'type' AS award_type,
+          SUM((a.value->>'amount')::NUMERIC) AS amount
+        FROM jsonb_array_elements(COALESCE(d.redress_awards, '[]'::jsonb)) AS a(value)
+        GROUP BY a.value->>'type'
+      ) AS award
+      GROUP BY award.award_type
+      ORDER BY decisions DESC, award.award_type ASC
+    `);
+    summaryRow = summary.rows[0];
+    typeRows = types.rows;
+  } catch (error) {
+    // Redress columns arrive with the enrichment backfill; snapshot without them until then.
+    if (error?.code === '42703') return null;
+    throw error;
+  }
+
+  const decisionsAnalysed = toInt(summaryRow?.decisions_analysed);
+  if (decisionsAnalysed === 0) return null;
+
+  const decisionsWithRedress = toInt(summaryRow?.decisions_with_redress);
+  const decisionsWithMonetaryAward = toInt(summaryRow?.decisions_with_amount);
+  const decisionsWithInterest = toInt(summaryRow?.decisions_with_interest);
+  const roundAmount = (value) => Math.round(toNumber(value) * 100) / 100;
+
+  return {
+    decisionsAnalysed,
+    decisionsWithRedress,
+    decisionsWithMonetaryAward,
+    amounts:
+      decisionsWithMonetaryAward > 0
+        ? {
+            p25: roundAmount(summaryRow.p25),
+            median: roundAmount(summaryRow.median),
+            p75: roundAmount(summaryRow.p75),
+            p90: roundAmount(summaryRow.p90),
+            mean: roundAmount(summaryRow.mean),
+          }
+        : null,
+    byType: typeRows.map((row) => ({
+      type: String(row.award_type || 'other'),
+      decisions: toInt(row.decisions),
+      share: percentage(toInt(row.decisions), decisionsWithRedress),
+      medianAmount: row.median_amount == null ? null : roundAmount(row.median_amount),
+    })),
+    interest: {
+      decisions: decisionsWithInterest,
+      share: percentage(decisionsWithInterest, decisionsWithRedress),
+      commonRate: summaryRow.common_interest_rate == null ? null : toNumber(summaryRow.common_interest_rate),
+      simpleShare: percentage(toInt(summaryRow.simple_interest), decisionsWithInterest),
+    },
+  };
+}
+
+// Mirrors queryOmbudsmanDistribution() and toOmbudsmanStat() in src/lib/fos/.
+async function queryOmbudsmanDistribution(client) {
+  const ombudsman = `COALESCE(NULLIF(BTRIM(d.ombudsman_name), ''), 'Unknown ombudsman')`;
+  const rows = await client.query(`
+    SELECT
+      ${ombudsman} AS ombudsman,
+      COUNT(*)::INT AS total,
+      COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld')::INT AS upheld,
+      COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'not_upheld')::INT AS not_upheld
+    FROM fos_decisions d
+    GROUP BY ${ombudsman}
+    ORDER BY total DESC, ombudsman ASC
+    LIMIT 60
+  `);
+
+  return rows.rows.map((row) => {
+    const total = toInt(row.total);
+    const name = normalizeLabel(row.ombudsman, 'Unknown ombudsman');
+    if (total < OMBUDSMAN_MIN_DECISIONS) {
+      return { ombudsman: name, total, upheld: null, notUpheld: null, upheldRate: null, notUpheldRate: null, suppressed: true };
+    }
+    const upheld = toInt(row.upheld);
+    const notUpheld = toInt(row.not_upheld);
+    return {
+      ombudsman: name,
+      total,
+      upheld,
+      notUpheld,
+      upheldRate: Number(percentage(upheld, total).toFixed(2)),
+      notUpheldRate: Number(percentage(notUpheld, total).toFixed(2)),
+      suppressed: false,
+    };
+  });
+}
+
 async function buildAnalysisSnapshot(client) {
-  const [yearProductOutcome, firmBenchmark, precedentRootCauseMatrix, productTree, topFirmByYear, monthlyProductBreakdown, decisionDayMonthGrid] = await Promise.all([
+  const [
+    yearProductOutcome,
+    firmBenchmark,
+    precedentRootCauseMatrix,
+    productTree,
+    topFirmByYear,
+    monthlyProductBreakdown,
+    decisionDayMonthGrid,
+    redress,
+    ombudsmen,
+  ] = await Promise.all([
     queryYearProductOutcome(client),
     queryFirmBenchmark(client),
     queryPrecedentRootCauseMatrix(client),
@@ -666,6 +856,8 @@ async function buildAnalysisSnapshot(client) {
     queryTopFirmByYear(client),
     queryMonthlyProductBreakdown(client),
     queryDecisionDayMonthGrid(client),
+    queryRedressDistribution(client),
+    queryOmbudsmanDistribution(client),
   ]);
 
   return {
@@ -676,6 +868,8 @@ async function buildAnalysisSnapshot(client) {
     yearNarratives: buildYearNarratives(yearProductOutcome, topFirmByYear),
     monthlyProductBreakdown,
     decisionDayMonthGrid,
+    redress,
+    ombudsmen,
   };
 }
 
@@ -769,6 +963,8 @@ async function main() {
 
   try {
     await applySchema(client);
+    await detectFirmRegistry(client);
+    await detectProductTaxonomy(client);
 
     const enabledKeys = [];
     if (args.includeDashboard) enabledKeys.push(SNAPSHOT_KEYS.dashboard);
@@ -810,6 +1006,7 @@ async function main() {
         yearProductCells: analysis.yearProductOutcome.length,
         matrixCells: analysis.precedentRootCauseMatrix.length,
         productTreeNodes: analysis.productTree.length,
+        redressDecisions: analysis.redress?.decisionsAnalysed ?? 0,
       };
     }
 
@@ -6,6 +6,7 @@ import process from 'node:process';
 import { fileURLToPath } from 'node:url';
 import pg from 'pg';
 import { connectWithRetry, createPoolConfig, loadLocalEnv } from './lib/db-runtime.mjs';
+import { SECTION_KEYS, readSectionCoverage, recordSectionCoverage } from './lib/section-quality.mjs';
 
 const { Pool } = pg;
 
@@ -13,6 +14,15 @@ const SCRIPT_DIR = path.dirname(fileURLToPath(import.meta.url));
 const DEFAULT_TOP_LIMIT = 20;
 const DEFAULT_PRODUCT_LIMIT = 15;
 const DEFAULT_REPORT_DIR = path.join(SCRIPT_DIR, '..', 'tmp', 'reports');
+const DEFAULT_TREND_LIMIT = 12;
+// Same names as the byYear / byProduct segment fields.
+const SECTION_COVERAGE_FIELDS = {
+  complaint: 'complaintTextCoveragePct',
+  firm_response: 'firmResponseTextCoveragePct',
+  ombudsman_reasoning: 'ombudsmanReasoningTextCoveragePct',
+  final_decision: 'finalDecisionTextCoveragePct',
+};
+const SECTION_QUALITY_MIGRATION_PATH = path.join(SCRIPT_DIR, '..', 'db', 'migrations', '20260406_fos_section_quality.sql');
 
 function parseArgs(argv) {
   const args = {};
@@ -152,6 +162,61 @@ function buildCoverageSummary(aggregateRow) {
   };
 }
 
+function sectionCoveragePoint(capturedAt, coverage) {
+  return {
+    capturedAt,
+    total: coverage.total,
+    ...Object.fromEntries(SECTION_KEYS.map((key) => [SECTION_COVERAGE_FIELDS[key], pct(coverage.sections[key], coverage.total)])),
+    completeCoveragePct: pct(coverage.complete, coverage.total),
+    averageScore: coverage.averageScore,
+  };
+}
+
+/**
+ * Corpus-wide section coverage now, plus earlier snapshots (oldest first). The
+ * current figures are stored as a new snapshot unless `record` is false.
+ */
+async function buildSectionCoverageTrend(client, { record, trendLimit }) {
+  const migrationSql = await fs.readFile(SECTION_QUALITY_MIGRATION_PATH, 'utf8');
+  await client.query(migrationSql);
+
+  const previous = await client.query(
+    `
+      SELECT *
+      FROM fos_section_coverage_snapshots
+      ORDER BY captured_at DESC
+      LIMIT $1
+    `,
+    [trendLimit]
+  );
+  const capturedAt = new Date().toISOString();
+  const coverage = record ? await recordSectionCoverage(client, 'report') : await readSectionCoverage(client);
+
+  const trend = previous.rows.reverse().map((row) =>
+    sectionCoveragePoint(new Date(row.captured_at).toISOString(), {
+      total: toInt(row.total_decisions),
+      sections: Object.fromEntries(SECTION_KEYS.map((key) => [key, toInt(row[key])])),
+      complete: toInt(row.complete),
+      averageScore: Number(row.average_score || 0),
+    })
+  );
+  const current = sectionCoveragePoint(capturedAt, coverage);
+  const last = trend[trend.length - 1] || null;
+
+  return {
+    recorded: record,
+    current: { ...current, withFullText: coverage.withFullText },
+    changeSinceLastSnapshot: last
+      ? {
+          since: last.capturedAt,
+          completeCoveragePct: Number((current.completeCoveragePct - last.completeCoveragePct).toFixed(2)),
+          averageScore: Number((current.averageScore - last.averageScore).toFixed(4)),
+        }
+      : null,
+    trend,
+  };
+}
+
 async function ensureDirectoryExists(filePath) {
   await fs.mkdir(path.dirname(filePath), { recursive: true });
 }
@@ -165,6 +230,7 @@ async function main() {
   const args = parseArgs(process.argv.slice(2));
   const topLimit = clamp(toInt(args['sample-size'], DEFAULT_TOP_LIMIT), 5, 100);
   const productLimit = clamp(toInt(args['product-limit'], DEFAULT_PRODUCT_LIMIT), 5, 50);
+  const trendLimit = clamp(toInt(args['trend-limit'], DEFAULT_TREND_LIMIT), 1, 100);
 
   const scope = buildScope(args);
   const outFile = args.out
@@ -242,6 +308,11 @@ async function main() {
     ]);
 
     const coverage = buildCoverageSummary(aggregateRows.rows[0] || {});
+    // Snapshots are corpus-wide, so year-scoped reports read the trend without adding to it.
+    const sectionCoverage = await buildSectionCoverageTrend(client, {
+      record: !args['no-snapshot'] && scope.params.length === 0,
+      trendLimit,
+    });
 
     const byYear = byYearRows.rows.map((row) => {
       const total = toInt(row.total);
@@ -281,6 +352,7 @@ async function main() {
         productLimit,
       },
       coverage,
+      sectionCoverage,
       topTags: {
         precedents: topPrecedents,
         rootCauseTags: topRootCauses,
@@ -304,6 +376,13 @@ async function main() {
     console.log(`Coverage precedents: ${coverage.fields.precedents.filledRatePct}%`);
     console.log(`Coverage root_cause_tags: ${coverage.fields.rootCauseTags.filledRatePct}%`);
     console.log(`Coverage vulnerability_flags: ${coverage.fields.vulnerabilityFlags.filledRatePct}%`);
+    console.log(
+      `Section coverage (all four sections): ${sectionCoverage.current.completeCoveragePct}%` +
+        (sectionCoverage.changeSinceLastSnapshot
+          ? ` (${sectionCoverage.changeSinceLastSnapshot.completeCoveragePct >= 0 ? '+' : ''}${sectionCoverage.changeSinceLastSnapshot.completeCoveragePct} pts since ${sectionCoverage.changeSinceLastSnapshot.since})`
+          : '') +
+        `${sectionCoverage.recorded ? '' : ' [snapshot not recorded]'}`
+    );
   } finally {
     client.release();
     await pool.end();
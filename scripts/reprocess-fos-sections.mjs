@@ -0,0 +1,272 @@
+#!/usr/bin/env node
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+import pg from 'pg';
+import { connectWithRetry, createPoolConfig, loadLocalEnv } from './lib/db-runtime.mjs';
+import {
+  SECTION_COLUMNS,
+  SECTION_KEYS,
+  SECTION_SPLITTER_VERSION,
+  recordSectionCoverage,
+  sectionScoreSql,
+  splitDecisionSections,
+} from './lib/section-quality.mjs';
+
+const { Pool } = pg;
+
+const SCRIPT_DIR = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_BATCH_SIZE = 100;
+const MAX_CLI_BATCH = 5000;
+const SECTION_QUALITY_MIGRATION_PATH = path.join(SCRIPT_DIR, '..', 'db', 'migrations', '20260406_fos_section_quality.sql');
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (!token.startsWith('--')) continue;
+    const key = token.slice(2);
+    const next = argv[i + 1];
+    if (!next || next.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = next;
+      i += 1;
+    }
+  }
+  return args;
+}
+
+function usage() {
+  console.log(`Re-split FOS decision sections with the current section splitter (v${SECTION_SPLITTER_VERSION}).
+
+Usage:
+  node scripts/reprocess-fos-sections.mjs [--limit <n>] [--batch-size <n>] [--no-snapshot]
+
+Processes every queued reprocess run (queued from the data-quality page),
+oldest first. With --limit a run is first queued for the <n> lowest-scoring
+decisions that have full text and were not split by the current version.
+A section the splitter finds replaces the stored one; a section it misses
+keeps its stored text. A section coverage snapshot is recorded afterwards.`);
+}
+
+function toInt(value, fallback = 0) {
+  const parsed = Number.parseInt(String(value), 10);
+  return Number.isInteger(parsed) ? parsed : fallback;
+}
+
+function hasText(value) {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+async function applySectionQualitySchema(client) {
+  const migrationSql = await fs.readFile(SECTION_QUALITY_MIGRATION_PATH, 'utf8');
+  await client.query(migrationSql);
+}
+
+async function queueCliRun(client, limit) {
+  const result = await client.query(
+    `
+      INSERT INTO fos_section_reprocess_runs (splitter_version, requested_by, decision_ids, criteria)
+      SELECT $1, 'cli', COALESCE(ARRAY_AGG(ranked.id), '{}'), jsonb_build_object('limit', $2::INT)
+      FROM (
+        SELECT d.id
+        FROM fos_decisions d
+        WHERE COALESCE(octet_length(d.full_text), 0) > 0
+          AND COALESCE(d.section_splitter_version, 1) < $1
+        ORDER BY ${sectionScoreSql('d')} ASC, d.decision_date DESC NULLS LAST, d.id ASC
+        LIMIT $2
+      ) ranked
+      RETURNING id::TEXT AS id
+    `,
+    [SECTION_SPLITTER_VERSION, limit]
+  );
+  return result.rows[0].id;
+}
+
+async function listPendingRuns(client) {
+  const result = await client.query(`
+    SELECT id::TEXT AS id, decision_ids::TEXT[] AS decision_ids
+    FROM fos_section_reprocess_runs
+    WHERE status IN ('queued', 'running')
+    ORDER BY created_at ASC
+  `);
+  return result.rows;
+}
+
+async function updateRun(client, runId, fields) {
+  const result = await client.query(
+    `
+      UPDATE fos_section_reprocess_runs
+      SET
+        status = COALESCE($2, status),
+        total_decisions = COALESCE($3, total_decisions),
+        processed = COALESCE($4, processed),
+        improved = COALESCE($5, improved),
+        sections_added = COALESCE($6, sections_added),
+        error = $7,
+        started_at = CASE WHEN $2 = 'running' THEN COALESCE(started_at, NOW()) ELSE started_at END,
+        completed_at = CASE WHEN $2 IN ('completed', 'failed') THEN NOW() ELSE completed_at END,
+        updated_at = NOW()
+      WHERE id = $1::uuid
+      RETURNING status
+    `,
+    [
+      runId,
+      fields.status ?? null,
+      fields.totalDecisions ?? null,
+      fields.processed ?? null,
+      fields.improved ?? null,
+      fields.sectionsAdded ?? null,
+      fields.error ?? null,
+    ]
+  );
+  return result.rows[0]?.status || null;
+}
+
+async function fetchDecisions(client, ids) {
+  const result = await client.query(
+    `
+      SELECT id::TEXT AS id, full_text, ${SECTION_KEYS.map((key) => SECTION_COLUMNS[key]).join(', ')}
+      FROM fos_decisions
+      WHERE id = ANY($1::uuid[])
+    `,
+    [ids]
+  );
+  return result.rows;
+}
+
+function reprocessRow(row) {
+  const split = splitDecisionSections(row.full_text);
+  const update = { id: row.id, sectionsAdded: 0 };
+  for (const key of SECTION_KEYS) {
+    const column = SECTION_COLUMNS[key];
+    const stored = hasText(row[column]) ? row[column] : null;
+    update[column] = split.sections[key] || stored;
+    if (!stored && split.sections[key]) update.sectionsAdded += 1;
+  }
+  return update;
+}
+
+function createUpdateSql(rowCount) {
+  const columns = ['id', ...SECTION_KEYS.map((key) => SECTION_COLUMNS[key])];
+  const tuples = [];
+  for (let i = 0; i < rowCount; i += 1) {
+    tuples.push(`(${columns.map((_, c) => `$${i * columns.length + c + 2}`).join(', ')})`);
+  }
+
+  return `
+    UPDATE fos_decisions AS d
+    SET
+      ${SECTION_KEYS.map((key) => `${SECTION_COLUMNS[key]} = v.${SECTION_COLUMNS[key]}`).join(',\n      ')},
+      section_splitter_version = $1::INT,
+      updated_at = NOW()
+    FROM (
+      VALUES
+        ${tuples.join(',\n        ')}
+    ) AS v(${columns.join(', ')})
+    WHERE d.id = v.id::uuid
+  `;
+}
+
+async function processRun(client, run, batchSize) {
+  const ids = Array.isArray(run.decision_ids) ? run.decision_ids : [];
+  await updateRun(client, run.id, { status: 'running', totalDecisions: ids.length, processed: 0, improved: 0, sectionsAdded: 0 });
+  console.log(`Reprocessing run ${run.id} | decisions: ${ids.length.toLocaleString()} | splitter v${SECTION_SPLITTER_VERSION}`);
+
+  let processed = 0;
+  let improved = 0;
+  let sectionsAdded = 0;
+  for (let offset = 0; offset < ids.length; offset += batchSize) {
+    const rows = await fetchDecisions(client, ids.slice(offset, offset + batchSize));
+    if (rows.length > 0) {
+      const updates = rows.map(reprocessRow);
+      const values = [SECTION_SPLITTER_VERSION];
+      for (const update of updates) {
+        values.push(update.id, ...SECTION_KEYS.map((key) => update[SECTION_COLUMNS[key]]));
+      }
+      await client.query(createUpdateSql(updates.length), values);
+      improved += updates.filter((update) => update.sectionsAdded > 0).length;
+      sectionsAdded += updates.reduce((sum, update) => sum + update.sectionsAdded, 0);
+    }
+    // Decisions deleted since the run was queued still count as processed.
+    processed = Math.min(ids.length, offset + batchSize);
+
+    const status = await updateRun(client, run.id, { processed, improved, sectionsAdded });
+    if (status === 'cancelled') {
+      console.log(`Run ${run.id} was cancelled; stopping.`);
+      return { processed, improved, sectionsAdded, cancelled: true };
+    }
+  }
+
+  await updateRun(client, run.id, { status: 'completed', processed, improved, sectionsAdded });
+  console.log(`Run ${run.id} complete | processed=${processed.toLocaleString()} improved=${improved.toLocaleString()} sections added=${sectionsAdded.toLocaleString()}`);
+  return { processed, improved, sectionsAdded, cancelled: false };
+}
+
+async function main() {
+  await loadLocalEnv(SCRIPT_DIR);
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help) {
+    usage();
+    return;
+  }
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL is required.');
+  }
+
+  const batchSize = Math.max(1, toInt(args['batch-size'], DEFAULT_BATCH_SIZE));
+  const limit = args.limit ? Math.max(1, Math.min(toInt(args.limit, 0), MAX_CLI_BATCH)) : null;
+
+  const pool = new Pool(
+    createPoolConfig({
+      connectionString: process.env.DATABASE_URL,
+      connectionTimeoutMillis: 8_000,
+    })
+  );
+  const client = await connectWithRetry(pool, { label: 'db:reprocess-fos-sections connect' });
+
+  let current = null;
+  try {
+    await applySectionQualitySchema(client);
+    if (limit) {
+      await queueCliRun(client, limit);
+    }
+
+    const runs = await listPendingRuns(client);
+    if (runs.length === 0) {
+      console.log('No queued reprocess runs. Queue one from the data-quality page or pass --limit <n>.');
+      return;
+    }
+
+    let processed = 0;
+    for (const run of runs) {
+      current = run;
+      processed += (await processRun(client, run, batchSize)).processed;
+    }
+    current = null;
+
+    if (processed > 0 && !args['no-snapshot']) {
+      const coverage = await recordSectionCoverage(client, 'reprocess');
+      const pct = coverage.total > 0 ? ((coverage.complete / coverage.total) * 100).toFixed(2) : '0.00';
+      console.log(`Section coverage snapshot recorded | all four sections: ${pct}% | average score: ${coverage.averageScore}`);
+    }
+  } catch (error) {
+    if (current) {
+      await updateRun(client, current.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) }).catch(
+        () => undefined
+      );
+    }
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error('Section reprocess failed:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
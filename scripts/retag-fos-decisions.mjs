@@ -0,0 +1,333 @@
+#!/usr/bin/env node
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+import pg from 'pg';
+import { connectWithRetry, createPoolConfig, loadLocalEnv } from './lib/db-runtime.mjs';
+import { applyDecisionOverrides } from './lib/decision-overrides.mjs';
+import { DEFAULT_TAG_RULES, TAG_FIELDS, buildTagSource, compileTagRules, tagText, validateTagRules } from './lib/tag-rules.mjs';
+
+const { Pool } = pg;
+
+const SCRIPT_DIR = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_BATCH_SIZE = 500;
+const TAG_RULES_MIGRATION_PATH = path.join(SCRIPT_DIR, '..', 'db', 'migrations', '20260401_fos_tag_rules.sql');
+const FULL_TEXT_SCAN_LENGTH = 18000;
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (!token.startsWith('--')) continue;
+    const key = token.slice(2);
+    const next = argv[i + 1];
+    if (!next || next.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = next;
+      i += 1;
+    }
+  }
+  return args;
+}
+
+function usage() {
+  console.log(`Re-tag FOS decisions with a tag rule version.
+
+Usage:
+  node scripts/retag-fos-decisions.mjs [--version <n>] [--batch-size <n>] [--limit <n>]
+
+Without --version the newest queued re-tag run is processed; with no queued run
+the latest published version (or the built-in rules, v0) is applied. Only
+decisions not already tagged by the target version are touched, so an
+interrupted run can simply be started again.`);
+}
+
+function toInt(value, fallback = 0) {
+  const parsed = Number.parseInt(String(value), 10);
+  return Number.isInteger(parsed) ? parsed : fallback;
+}
+
+function parseTagArray(value) {
+  const parsed = typeof value === 'string' ? safeJson(value) : value;
+  return Array.isArray(parsed) ? parsed.map((item) => String(item)) : [];
+}
+
+function safeJson(value) {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function listEqual(a, b) {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i += 1) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+async function applyTagRulesSchema(client) {
+  const migrationSql = await fs.readFile(TAG_RULES_MIGRATION_PATH, 'utf8');
+  await client.query(migrationSql);
+}
+
+async function loadRuleVersion(client, version) {
+  if (version === 0) return DEFAULT_TAG_RULES;
+  const result = await client.query(
+    `SELECT rules FROM fos_tag_rule_versions WHERE version = $1 AND status = 'published'`,
+    [version]
+  );
+  if (!result.rows[0]) {
+    throw new Error(`Tag rule version ${version} is not published.`);
+  }
+  const { rules, errors } = validateTagRules(result.rows[0].rules);
+  if (errors.length > 0) {
+    throw new Error(`Tag rule version ${version} is invalid: ${errors[0]}`);
+  }
+  return rules;
+}
+
+async function resolveRun(client, requestedVersion) {
+  if (requestedVersion == null) {
+    const pending = await client.query(`
+      SELECT id::TEXT AS id, rule_version
+      FROM fos_tag_retag_runs
+      WHERE status IN ('queued', 'running')
+      ORDER BY created_at DESC
+      LIMIT 1
+    `);
+    if (pending.rows[0]) {
+      return { id: pending.rows[0].id, version: Number(pending.rows[0].rule_version) };
+    }
+    const active = await client.query(
+      `SELECT version FROM fos_tag_rule_versions WHERE status = 'published' ORDER BY version DESC LIMIT 1`
+    );
+    requestedVersion = active.rows[0] ? Number(active.rows[0].version) : 0;
+  }
+
+  await client.query(
+    `UPDATE fos_tag_retag_runs SET status = 'cancelled', updated_at = NOW() WHERE status IN ('queued', 'running')`
+  );
+  const inserted = await client.query(
+    `INSERT INTO fos_tag_retag_runs (rule_version, requested_by) VALUES ($1, 'cli') RETURNING id::TEXT AS id`,
+    [requestedVersion]
+  );
+  return { id: inserted.rows[0].id, version: requestedVersion };
+}
+
+async function updateRun(client, runId, fields) {
+  const result = await client.query(
+    `
+      UPDATE fos_tag_retag_runs
+      SET
+        status = COALESCE($2, status),
+        total_decisions = COALESCE($3, total_decisions),
+        processed = COALESCE($4, processed),
+        changed = COALESCE($5, changed),
+        error = $6,
+        started_at = CASE WHEN $2 = 'running' THEN COALESCE(started_at, NOW()) ELSE started_at END,
+        completed_at = CASE WHEN $2 IN ('completed', 'failed') THEN NOW() ELSE completed_at END,
+        updated_at = NOW()
+      WHERE id = $1::uuid
+      RETURNING status
+    `,
+    [
+      runId,
+      fields.status ?? null,
+      fields.totalDecisions ?? null,
+      fields.processed ?? null,
+      fields.changed ?? null,
+      fields.error ?? null,
+    ]
+  );
+  return result.rows[0]?.status || null;
+}
+
+async function fetchBatch(client, version, cursorId, batchSize) {
+  const result = await client.query(
+    `
+      SELECT
+        id::TEXT AS id,
+        LEFT(full_text, ${FULL_TEXT_SCAN_LENGTH}) AS full_text,
+        decision_summary,
+        decision_logic,
+        complaint_text,
+        firm_response_text,
+        ombudsman_reasoning_text,
+        final_decision_text,
+        precedents,
+        root_cause_tags,
+        vulnerability_flags
+      FROM fos_decisions
+      WHERE tag_rule_version IS DISTINCT FROM $1
+        AND ($2::uuid IS NULL OR id > $2::uuid)
+      ORDER BY id ASC
+      LIMIT $3
+    `,
+    [version, cursorId, batchSize]
+  );
+  return result.rows;
+}
+
+function createUpdateSql(rowCount) {
+  const columnsPerRow = 4;
+  const tuples = [];
+  for (let i = 0; i < rowCount; i += 1) {
+    const values = [];
+    for (let c = 0; c < columnsPerRow; c += 1) {
+      values.push(`$${i * columnsPerRow + c + 2}`);
+    }
+    tuples.push(`(${values.join(', ')})`);
+  }
+
+  return `
+    UPDATE fos_decisions AS d
+    SET
+      precedents = v.precedents::jsonb,
+      root_cause_tags = v.root_cause_tags::jsonb,
+      vulnerability_flags = v.vulnerability_flags::jsonb,
+      tag_rule_version = $1::INT,
+      updated_at = NOW()
+    FROM (
+      VALUES
+        ${tuples.join(',\n        ')}
+    ) AS v(id, precedents, root_cause_tags, vulnerability_flags)
+    WHERE d.id = v.id::uuid
+  `;
+}
+
+function retagRow(row, compiled) {
+  const tags = tagText(
+    buildTagSource({
+      decisionLogic: row.decision_logic,
+      decisionSummary: row.decision_summary,
+      complaint: row.complaint_text,
+      firmResponse: row.firm_response_text,
+      reasoning: row.ombudsman_reasoning_text,
+      finalDecision: row.final_decision_text,
+      fullText: row.full_text,
+    }),
+    compiled
+  );
+  const changed = TAG_FIELDS.some((field) => !listEqual(parseTagArray(row[field]), tags[field].labels));
+  return {
+    id: row.id,
+    changed,
+    precedents: tags.precedents.labels,
+    root_cause_tags: tags.root_cause_tags.labels,
+    vulnerability_flags: tags.vulnerability_flags.labels,
+  };
+}
+
+async function main() {
+  await loadLocalEnv(SCRIPT_DIR);
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help) {
+    usage();
+    return;
+  }
+  if (!process.env.DATABASE_URL) {
+    throw new Error('DATABASE_URL is required.');
+  }
+
+  const batchSize = Math.max(1, toInt(args['batch-size'], DEFAULT_BATCH_SIZE));
+  const limit = args.limit ? Math.max(1, toInt(args.limit, 0)) : null;
+  const requestedVersion = args.version != null && args.version !== true ? Math.max(0, toInt(args.version, 0)) : null;
+
+  const pool = new Pool(
+    createPoolConfig({
+      connectionString: process.env.DATABASE_URL,
+      connectionTimeoutMillis: 8_000,
+    })
+  );
+  const client = await connectWithRetry(pool, { label: 'db:retag-fos-decisions connect' });
+
+  let run = null;
+  try {
+    await applyTagRulesSchema(client);
+    run = await resolveRun(client, requestedVersion);
+    const compiled = compileTagRules(await loadRuleVersion(client, run.version));
+
+    const countResult = await client.query(
+      `SELECT COUNT(*)::INT AS count FROM fos_decisions WHERE tag_rule_version IS DISTINCT FROM $1`,
+      [run.version]
+    );
+    const totalDecisions = Number(countResult.rows[0]?.count || 0);
+    await updateRun(client, run.id, { status: 'running', totalDecisions, processed: 0, changed: 0 });
+    console.log(`Re-tagging with rule v${run.version} | decisions to process: ${totalDecisions.toLocaleString()} | batch size: ${batchSize}`);
+
+    let cursorId = null;
+    let processed = 0;
+    let changed = 0;
+    let batches = 0;
+    let stopped = false;
+    while (!limit || processed < limit) {
+      const rows = await fetchBatch(client, run.version, cursorId, limit ? Math.min(batchSize, limit - processed) : batchSize);
+      if (!rows.length) break;
+
+      const updates = rows.map((row) => retagRow(row, compiled));
+      const values = [run.version];
+      for (const update of updates) {
+        values.push(
+          update.id,
+          JSON.stringify(update.precedents),
+          JSON.stringify(update.root_cause_tags),
+          JSON.stringify(update.vulnerability_flags)
+        );
+      }
+      await client.query(createUpdateSql(updates.length), values);
+      await applyDecisionOverrides(client, {
+        decisionIds: updates.map((update) => update.id),
+        refreshMachineValues: true,
+      });
+
+      cursorId = rows[rows.length - 1].id;
+      processed += rows.length;
+      changed += updates.filter((update) => update.changed).length;
+      batches += 1;
+
+      // A newer run (queued from the settings page) cancels this one.
+      const status = await updateRun(client, run.id, { processed, changed });
+      if (status === 'cancelled') {
+        stopped = true;
+        console.log(`Run ${run.id} was cancelled by a newer re-tag request; stopping.`);
+        break;
+      }
+      if (batches % 10 === 0) {
+        const pct = totalDecisions > 0 ? ((processed / totalDecisions) * 100).toFixed(2) : '0.00';
+        console.log(`batch=${batches} processed=${processed.toLocaleString()} changed=${changed.toLocaleString()} progress=${pct}%`);
+      }
+    }
+
+    const finished = !stopped && (!limit || processed < limit);
+    if (!stopped) {
+      await updateRun(client, run.id, { status: finished ? 'completed' : 'queued', processed, changed });
+    }
+    console.log(
+      `${finished ? 'Re-tag complete' : 'Re-tag paused'} | rule v${run.version} processed=${processed.toLocaleString()} changed=${changed.toLocaleString()}`
+    );
+    if (finished) {
+      console.log('Run `npm run db:refresh-fos-summaries` so the summary snapshots use the new tags.');
+    }
+  } catch (error) {
+    if (run) {
+      await updateRun(client, run.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) }).catch(
+        () => undefined
+      );
+    }
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error('Re-tag failed:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
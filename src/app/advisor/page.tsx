@@ -13,7 +13,9 @@ import { RootCausePatterns } from '@/components/advisor/root-cause-patterns';
 import { ThemeCard } from '@/components/advisor/theme-card';
 import { ActionChecklist } from '@/components/advisor/action-checklist';
 import { ExecutiveSummary } from '@/components/advisor/executive-summary';
+import { AiGroundingNote, CitedText } from '@/components/advisor/cited-text';
 import { OutcomeDonutChart } from '@/components/advisor/outcome-donut-chart';
+import { RedressDistribution } from '@/components/shared/redress-distribution';
 import { YearTrendChart } from '@/components/advisor/year-trend-chart';
 import { PrecedentBarChart } from '@/components/advisor/precedent-bar-chart';
 import { DecisionsBrowser } from '@/components/advisor/decisions-browser';
@@ -104,7 +106,11 @@ export default function AdvisorPage() {
 
             {/* 2. Executive Summary (AI narrative) */}
             {brief.aiExecutiveSummary && (
-              <ExecutiveSummary summary={brief.aiExecutiveSummary} />
+              <ExecutiveSummary
+                summary={brief.aiExecutiveSummary}
+                grounding={brief.aiGrounding.executiveSummary}
+                onSelectCase={setSelectedCaseId}
+              />
             )}
 
             {/* 3. Risk Assessment + Outcome Donut side-by-side */}
@@ -124,10 +130,17 @@ export default function AdvisorPage() {
             {brief.riskAssessment.yearTrend.length > 1 && (
               <div className="rounded-2xl border border-slate-200 bg-white p-5">
                 <h3 className="mb-3 text-sm font-semibold text-slate-900">Year-over-Year Trend</h3>
-                <YearTrendChart yearTrend={brief.riskAssessment.yearTrend} />
+                <YearTrendChart yearTrend={brief.riskAssessment.yearTrend} forecast={brief.forecast} />
               </div>
             )}
 
+            {/* Typical redress when decisions in this scope are upheld */}
+            {brief.typicalRedress && (
+              <ExpandableCard title="Typical Redress" description="What the ombudsman directed firms to pay or do in these decisions, extracted from the decision text.">
+                <RedressDistribution redress={brief.typicalRedress} />
+              </ExpandableCard>
+            )}
+
             {/* 5. Precedent Analysis (bar chart) + 6. Root Cause Patterns */}
             <section className="grid gap-4 xl:grid-cols-2">
               <ExpandableCard title="Precedent Analysis" description="Most frequently cited precedents in decisions for this product.">
@@ -146,14 +159,18 @@ export default function AdvisorPage() {
               <ThemeCard
                 title="What Wins Cases (Not Upheld)"
                 aiNarrative={brief.aiWhatWins}
+                aiGrounding={brief.aiGrounding.whatWins}
                 themes={brief.whatWins}
                 variant="wins"
+                onSelectCase={setSelectedCaseId}
               />
               <ThemeCard
                 title="What Loses Cases (Upheld)"
                 aiNarrative={brief.aiWhatLoses}
+                aiGrounding={brief.aiGrounding.whatLoses}
                 themes={brief.whatLoses}
                 variant="loses"
+                onSelectCase={setSelectedCaseId}
               />
             </section>
 
@@ -161,9 +178,8 @@ export default function AdvisorPage() {
             {brief.aiGuidance && (
               <div className="rounded-xl border-l-4 border-blue-500 bg-white p-5 shadow-sm">
                 <h3 className="mb-3 text-sm font-semibold text-slate-900">Compliance Guidance</h3>
-                <div className="whitespace-pre-line text-sm leading-relaxed text-slate-700">
-                  {brief.aiGuidance}
-                </div>
+                <CitedText text={brief.aiGuidance} citations={brief.aiGrounding.guidance?.citations || []} onSelectCase={setSelectedCaseId} />
+                <AiGroundingNote report={brief.aiGrounding.guidance} />
               </div>
             )}
 
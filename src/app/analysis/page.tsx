@@ -21,11 +21,14 @@ import { ProductBubbleChart } from '@/components/analysis/product-bubble-chart';
 import { CategoriesByMonth } from '@/components/analysis/categories-by-month';
 import { DecisionsHeatmap } from '@/components/analysis/decisions-heatmap';
 import { YearFilterBar } from '@/components/shared/year-filter-bar';
+import { FirmLevelToggle } from '@/components/shared/firm-level-toggle';
 import { OutcomeFilterBar } from '@/components/shared/outcome-filter-bar';
 import { SubsetAnalysisPanel } from '@/components/analysis/subset-analysis-panel';
 import { SubsetDecisionsTable } from '@/components/analysis/subset-decisions-table';
 import { CaseDetailSheet } from '@/components/dashboard/case-detail-sheet';
-import { OUTCOME_LABELS } from '@/lib/fos/constants';
+import { RedressDistribution } from '@/components/shared/redress-distribution';
+import { OmbudsmanDistribution } from '@/components/analysis/ombudsman-distribution';
+import { OMBUDSMAN_MIN_DECISIONS, OUTCOME_LABELS } from '@/lib/fos/constants';
 import { formatNumber, formatPercent, formatDateTime } from '@/lib/utils';
 
 export default function AnalysisPage() {
@@ -39,6 +42,8 @@ export default function AnalysisPage() {
     toggleOutcome,
     toggleProduct,
     toggleFirm,
+    setFirmLevel,
+    toggleOmbudsman,
     toggleTag,
     setYears,
     applySearchQuery,
@@ -67,6 +72,9 @@ export default function AnalysisPage() {
   const upheldCases = useMemo(() => yearRollup.reduce((sum, r) => sum + r.upheld, 0), [yearRollup]);
   const notUpheldCases = useMemo(() => yearRollup.reduce((sum, r) => sum + r.notUpheld, 0), [yearRollup]);
   const upheldRate = totalCases ? (upheldCases / totalCases) * 100 : 0;
+  // An ombudsman filter below the small-sample floor would expose an individual's uphold rate.
+  const ratesWithheld = filters.ombudsmen.length > 0 && totalCases < OMBUDSMAN_MIN_DECISIONS;
+  const withheldHelper = `Withheld below ${OMBUDSMAN_MIN_DECISIONS} decisions for one ombudsman.`;
   const availableYears = useMemo(() => yearRollup.map((r) => r.year), [yearRollup]);
 
   const loadingStatusText = useMemo(() => {
@@ -155,6 +163,9 @@ export default function AnalysisPage() {
             {filters.firms.map((firm) => (
               <FilterPill key={`firm-${firm}`} label={`Firm: ${firm}`} onClear={() => toggleFirm(firm)} />
             ))}
+            {filters.ombudsmen.map((ombudsman) => (
+              <FilterPill key={`ombudsman-${ombudsman}`} label={`Ombudsman: ${ombudsman}`} onClear={() => toggleOmbudsman(ombudsman)} />
+            ))}
             {filters.tags.map((tag) => (
               <FilterPill key={`tag-${tag}`} label={`Tag: ${tag}`} onClear={() => toggleTag(tag)} />
             ))}
@@ -186,8 +197,8 @@ export default function AnalysisPage() {
           ) : (
             <>
               <KpiCard label="Decisions in scope" value={formatNumber(totalCases)} helper="Filtered corpus volume." accent="bg-blue-400" />
-              <KpiCard label="Upheld rate" value={formatPercent(upheldRate)} helper={`${formatNumber(upheldCases)} upheld`} accent="bg-emerald-400" />
-              <KpiCard label="Not upheld rate" value={totalCases ? formatPercent((notUpheldCases / totalCases) * 100) : '0.0%'} helper={`${formatNumber(notUpheldCases)} not upheld`} accent="bg-rose-400" />
+              <KpiCard label="Upheld rate" value={ratesWithheld ? formatPercent(null) : formatPercent(upheldRate)} helper={ratesWithheld ? withheldHelper : `${formatNumber(upheldCases)} upheld`} accent="bg-emerald-400" />
+              <KpiCard label="Not upheld rate" value={ratesWithheld ? formatPercent(null) : totalCases ? formatPercent((notUpheldCases / totalCases) * 100) : '0.0%'} helper={ratesWithheld ? withheldHelper : `${formatNumber(notUpheldCases)} not upheld`} accent="bg-rose-400" />
               <KpiCard label="Firm rows benchmarked" value={formatNumber(snapshot?.firmBenchmark.length || 0)} helper="Volume vs adjudication performance." accent="bg-cyan-400" />
             </>
           )}
@@ -196,10 +207,14 @@ export default function AnalysisPage() {
         {/* ---- dual upheld gauges + bubble chart ---- */}
         <section className="grid gap-4 md:grid-cols-2">
           <ExpandableCard title="Upheld vs Not Upheld rates" description="Overall upheld vs not-upheld rates against a 50% baseline. Lower upheld rate is better for firms.">
-            <div className="grid grid-cols-2 items-start gap-4 py-4">
-              <UpheldRateGauge upheldRate={upheldRate} label="Upheld rate" color="#06b6d4" />
-              <UpheldRateGauge upheldRate={totalCases ? (notUpheldCases / totalCases) * 100 : 0} label="Not upheld rate" color="#f43f5e" />
-            </div>
+            {ratesWithheld ? (
+              <p className="py-4 text-sm text-slate-500">{withheldHelper}</p>
+            ) : (
+              <div className="grid grid-cols-2 items-start gap-4 py-4">
+                <UpheldRateGauge upheldRate={upheldRate} label="Upheld rate" color="#06b6d4" />
+                <UpheldRateGauge upheldRate={totalCases ? (notUpheldCases / totalCases) * 100 : 0} label="Not upheld rate" color="#f43f5e" />
+              </div>
+            )}
           </ExpandableCard>
           <ExpandableCard title="Product performance" description="Products by total cases, upheld rate, and volume." interactionHint="Click a bubble to filter by that product.">
             <ProductBubbleChart yearProductOutcome={snapshot?.yearProductOutcome || []} onToggleProduct={toggleProduct} activeProduct={filters.products[0] || null} />
@@ -228,7 +243,12 @@ export default function AnalysisPage() {
 
         {/* ---- firm benchmark + precedent matrix ---- */}
         <section className="grid gap-4 xl:grid-cols-[1.25fr_1fr] xl:items-start">
-          <ExpandableCard title="Firm benchmark: volume vs upheld rate" description="Compare firm scale against adjudication outcomes." interactionHint="Click a bar to filter by that firm.">
+          <ExpandableCard
+            title="Firm benchmark: volume vs upheld rate"
+            description="Compare firm scale against adjudication outcomes."
+            interactionHint="Click a bar to filter by that firm."
+            legend={<FirmLevelToggle firmLevel={filters.firmLevel} onChange={setFirmLevel} />}
+          >
             <FirmBenchmark
               firmBenchmark={snapshot?.firmBenchmark || []}
               activeFirms={filters.firms}
@@ -254,6 +274,24 @@ export default function AnalysisPage() {
           </ExpandableCard>
         </section>
 
+        {/* ---- typical redress + ombudsman distribution ---- */}
+        <section className="grid gap-4 xl:grid-cols-2 xl:items-start">
+          <ExpandableCard title="Typical redress" description="Award amounts, award types and interest directions extracted from decision text in scope.">
+            <RedressDistribution redress={snapshot?.redress} />
+          </ExpandableCard>
+          <ExpandableCard
+            title="Ombudsman distribution"
+            description="Decision volume and uphold rates by signing ombudsman."
+            interactionHint="Click a row to filter by that ombudsman."
+          >
+            <OmbudsmanDistribution
+              ombudsmen={snapshot?.ombudsmen || []}
+              activeOmbudsmen={filters.ombudsmen}
+              onToggleOmbudsman={toggleOmbudsman}
+            />
+          </ExpandableCard>
+        </section>
+
         {/* ---- product tree + year narratives ---- */}
         <section className="grid gap-4 xl:grid-cols-[1.15fr_1fr] xl:items-start">
           <ExpandableCard title="Product to firm distribution" description="High-volume products with their top firms." interactionHint="Click a product badge or firm card to filter.">
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { unpinComplaintDecision } from '@/lib/complaints/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string; caseId: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'operator');
+    const { id, caseId } = await params;
+    const deleted = await unpinComplaintDecision(id, decodeURIComponent(caseId), user.fullName);
+    if (!deleted) {
+      return Response.json({ success: false, error: 'Pinned decision not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to unpin decision.' }, { status });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { listComplaintPinnedDecisions, pinComplaintDecision } from '@/lib/complaints/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'viewer');
+    const { id } = await params;
+    const pinnedDecisions = await listComplaintPinnedDecisions(id);
+    return Response.json({ success: true, pinnedDecisions });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to fetch pinned decisions.' }, { status });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'operator');
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+    if (typeof body.caseId !== 'string' || body.caseId.trim().length === 0) {
+      return Response.json({ success: false, error: 'Decision caseId is required.' }, { status: 400 });
+    }
+    const pinnedDecision = await pinComplaintDecision({
+      complaintId: id,
+      caseId: body.caseId,
+      note: typeof body.note === 'string' ? body.note : null,
+    }, user.fullName);
+    if (!pinnedDecision) {
+      return Response.json({ success: false, error: 'Complaint not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, pinnedDecision }, { status: 201 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to pin decision.';
+    const status = 'status' in (error as object)
+      ? Number((error as { status?: number }).status || 500)
+      : (message.toLowerCase().includes('required') ? 400 : 500);
+    return Response.json({ success: false, error: message }, { status });
+  }
+}
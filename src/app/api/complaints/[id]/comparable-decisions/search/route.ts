@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { getComplaintById } from '@/lib/complaints/repository';
+import { getComparableDecisions } from '@/lib/fos/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 25;
+
+/**
+ * Ranks published decisions against a free-text narrative. Fields omitted
+ * from the body default to the complaint's own description, product and
+ * root cause, so an empty POST searches "decisions like this complaint".
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'viewer');
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+    const complaint = await getComplaintById(id);
+    if (!complaint) {
+      return Response.json({ success: false, error: 'Complaint not found.' }, { status: 404 });
+    }
+
+    const text = pickText(body.text, complaint.description);
+    if (!text) {
+      return Response.json({ success: false, error: 'Describe the complaint or add a description before searching.' }, { status: 400 });
+    }
+    const product = pickText(body.product, complaint.product);
+    const rootCause = pickText(body.rootCause, complaint.rootCause);
+    const requestedLimit = Number.parseInt(String(body.limit ?? DEFAULT_LIMIT), 10);
+    const limit = Number.isFinite(requestedLimit) ? Math.min(Math.max(requestedLimit, 1), MAX_LIMIT) : DEFAULT_LIMIT;
+
+    const cases = await getComparableDecisions({ text, product, rootCause }, limit);
+    return Response.json(
+      { success: true, data: { query: { text, product, rootCause }, cases } },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to search comparable decisions.' }, { status });
+  }
+}
+
+function pickText(value: unknown, fallback: string | null | undefined): string | null {
+  if (typeof value === 'string') return value.trim() || null;
+  return fallback?.trim() || null;
+}
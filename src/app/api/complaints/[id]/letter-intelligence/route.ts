@@ -1,6 +1,6 @@
 import { NextRequest } from 'next/server';
 import { requireAuthenticatedUser } from '@/lib/auth/session';
-import { getComplaintById } from '@/lib/complaints/repository';
+import { getComplaintById, listComplaintPinnedDecisions } from '@/lib/complaints/repository';
 import { buildComplaintLetterIntelligence, getComplaintLetterIntelligenceFromCorpus } from '@/lib/complaints/letter-intelligence';
 import { getAdvisorBrief } from '@/lib/fos/repository';
 import type { ComplaintLetterIntelligence, ComplaintLetterIntelligenceResponse, ComplaintLetterIntelligenceSourceScope } from '@/lib/complaints/types';
@@ -31,6 +31,8 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return Response.json(payload, { headers: { 'Cache-Control': 'no-store' } });
     }
 
+    const pinnedDecisions = await listComplaintPinnedDecisions(complaint.id);
+
     let brief = null;
     try {
       brief = await getAdvisorBrief({
@@ -45,7 +47,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     }
 
     if (!brief) {
-      const fallbackIntelligence = await getComplaintLetterIntelligenceFromCorpus(complaint);
+      const fallbackIntelligence = await getComplaintLetterIntelligenceFromCorpus(complaint, { pinnedDecisions });
       if (fallbackIntelligence) {
         const payload: ComplaintLetterIntelligenceResponse = {
           success: true,
@@ -73,7 +75,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     }
 
     const sourceScope: Exclude<ComplaintLetterIntelligenceSourceScope, 'none'> = brief.query.rootCause ? 'product_root_cause' : 'product_only';
-    const intelligence = buildComplaintLetterIntelligence(complaint, brief, sourceScope);
+    const intelligence = buildComplaintLetterIntelligence(complaint, brief, sourceScope, pinnedDecisions);
     const payload: ComplaintLetterIntelligenceResponse = {
       success: true,
       data: serializeComplaintLetterIntelligence(intelligence),
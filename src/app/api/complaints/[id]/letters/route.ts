@@ -3,7 +3,7 @@ import { requireAuthenticatedUser } from '@/lib/auth/session';
 import { createComplaintLetter, getComplaintById, listComplaintLetters } from '@/lib/complaints/repository';
 import type { ComplaintLetterTemplateKey, ComplaintWorkspaceActorRole } from '@/lib/complaints/types';
 
-const VALID_TEMPLATE_KEYS: ComplaintLetterTemplateKey[] = ['acknowledgement', 'holding_response', 'final_response', 'fos_referral', 'custom'];
+const VALID_TEMPLATE_KEYS: ComplaintLetterTemplateKey[] = ['acknowledgement', 'holding_response', 'final_response', 'summary_resolution', 'fos_referral', 'custom'];
 const VALID_ACTOR_ROLES: ComplaintWorkspaceActorRole[] = ['operator', 'reviewer', 'manager', 'admin'];
 const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
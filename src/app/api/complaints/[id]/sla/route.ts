@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { getComplaintById, listComplaintSlaPauses, pauseComplaintSlaClock, resumeComplaintSlaClock } from '@/lib/complaints/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'viewer');
+    const { id } = await params;
+    const complaint = await getComplaintById(id);
+    if (!complaint) {
+      return Response.json({ success: false, error: 'Complaint not found.' }, { status: 404 });
+    }
+
+    const pauses = await listComplaintSlaPauses(id);
+    return Response.json({ success: true, slaSummary: complaint.slaSummary, pauses });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to fetch the complaint clock.' }, { status });
+  }
+}
+
+/**
+ * Stops or restarts the complaint clock.
+ * Body: `{ "action": "pause", "reason": "...", "date"?: "YYYY-MM-DD" }` or `{ "action": "resume", "date"?: "YYYY-MM-DD" }`.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'operator');
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    const payload = body as { action?: unknown; reason?: unknown; date?: unknown };
+    const date = typeof payload.date === 'string' ? payload.date : null;
+    if (payload.action === 'pause') {
+      const result = await pauseComplaintSlaClock({
+        complaintId: id,
+        reason: typeof payload.reason === 'string' ? payload.reason : '',
+        pausedOn: date,
+        performedBy: user.fullName,
+      });
+      return Response.json({ success: true, ...result }, { status: 201 });
+    }
+    if (payload.action === 'resume') {
+      const result = await resumeComplaintSlaClock({ complaintId: id, resumedOn: date, performedBy: user.fullName });
+      return Response.json({ success: true, ...result });
+    }
+
+    return Response.json({ success: false, error: 'Unsupported clock action.' }, { status: 400 });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to update the complaint clock.' }, { status });
+  }
+}
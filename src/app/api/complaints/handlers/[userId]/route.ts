@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { updateComplaintHandlerCapacity } from '@/lib/complaints/repository';
+import type { ComplaintHandlerCapacityInput } from '@/lib/complaints/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ userId: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'manager');
+    const { userId } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+    const handler = await updateComplaintHandlerCapacity(userId, body as ComplaintHandlerCapacityInput, user.fullName);
+    if (!handler) {
+      return Response.json({ success: false, error: 'Complaint handler not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, handler });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to update handler capacity.' }, { status });
+  }
+}
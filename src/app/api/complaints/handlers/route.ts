@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { listComplaintHandlers } from '@/lib/complaints/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'viewer');
+    const handlers = await listComplaintHandlers();
+    return Response.json({ success: true, handlers });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to fetch complaint handlers.' }, { status });
+  }
+}
@@ -87,7 +87,7 @@ export async function POST(request: NextRequest) {
       overwrittenCount: result.overwrittenCount,
       skippedCount: result.skippedCount,
       importRunId: result.importRunId,
-      warnings: parsed.warnings,
+      warnings: [...parsed.warnings, ...result.warnings],
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to import complaint file.';
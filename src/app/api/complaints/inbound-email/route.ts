@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { ingestInboundComplaintEmail, listComplaintInboundEmails } from '@/lib/complaints/repository';
+import type { ComplaintInboundEmailResult } from '@/lib/complaints/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_MESSAGE_SIZE_BYTES = 15 * 1024 * 1024;
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'viewer');
+    const limit = Number.parseInt(request.nextUrl.searchParams.get('limit') || '25', 10);
+    const emails = await listComplaintInboundEmails(Number.isFinite(limit) ? limit : 25);
+    return Response.json({ success: true, emails });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to fetch inbound emails.' }, { status });
+  }
+}
+
+/** Accepts `.eml` files as multipart `file` fields, or a single raw `message/rfc822` body. */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'operator');
+    const contentType = (request.headers.get('content-type') || '').toLowerCase();
+
+    const messages: Buffer[] = [];
+    if (contentType.startsWith('multipart/form-data')) {
+      const formData = await request.formData();
+      for (const file of formData.getAll('file')) {
+        if (typeof File === 'undefined' || !(file instanceof File)) continue;
+        if (file.size > MAX_MESSAGE_SIZE_BYTES) {
+          return Response.json({ success: false, error: `${file.name} exceeds the 15MB inbound email limit.` }, { status: 400 });
+        }
+        messages.push(Buffer.from(await file.arrayBuffer()));
+      }
+    } else {
+      const body = Buffer.from(await request.arrayBuffer());
+      if (body.length > MAX_MESSAGE_SIZE_BYTES) {
+        return Response.json({ success: false, error: 'Message exceeds the 15MB inbound email limit.' }, { status: 400 });
+      }
+      if (body.length > 0) messages.push(body);
+    }
+    if (messages.length === 0) {
+      return Response.json({ success: false, error: 'An .eml file is required.' }, { status: 400 });
+    }
+
+    const results: ComplaintInboundEmailResult[] = [];
+    for (const raw of messages) {
+      results.push(await ingestInboundComplaintEmail({ raw, source: 'upload', receivedBy: user.fullName }));
+    }
+
+    return Response.json({ success: true, results }, { status: results.some((result) => !result.duplicate) ? 201 : 200 });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to ingest email.' }, { status });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { getComplaintLetterContext, listComplaintLetterDeliveries, recordComplaintLetterBounce } from '@/lib/complaints/repository';
+import type { ComplaintWorkspaceActorRole } from '@/lib/complaints/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ letterId: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'viewer');
+    const { letterId } = await params;
+    const context = await getComplaintLetterContext(letterId);
+    if (!context) {
+      return Response.json({ success: false, error: 'Letter not found.' }, { status: 404 });
+    }
+
+    const deliveries = await listComplaintLetterDeliveries(letterId);
+    return Response.json({ success: true, deliveries });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to fetch letter deliveries.' }, { status });
+  }
+}
+
+/** Marks the latest delivery as bounced. Body: `{ "action": "bounce", "reason": "..." }`. */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ letterId: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'operator');
+    const { letterId } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+    if ((body as { action?: unknown }).action !== 'bounce') {
+      return Response.json({ success: false, error: 'Unsupported delivery action.' }, { status: 400 });
+    }
+
+    const letter = await recordComplaintLetterBounce({
+      letterId,
+      reason: typeof (body as { reason?: string }).reason === 'string' ? (body as { reason?: string }).reason : null,
+      performedBy: user.fullName,
+      performedByRole: user.role as ComplaintWorkspaceActorRole,
+    });
+    if (!letter) {
+      return Response.json({ success: false, error: 'Letter not found.' }, { status: 404 });
+    }
+
+    return Response.json({ success: true, letter });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to record letter bounce.' }, { status });
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest } from 'next/server';
 import { requireAuthenticatedUser } from '@/lib/auth/session';
 import { buildComplaintLetterPdf } from '@/lib/complaints/build-letter-pdf';
-import { getComplaintLetterContext, updateComplaintLetter } from '@/lib/complaints/repository';
+import { getComplaintLetterContext, processComplaintLetterOutbox, updateComplaintLetter } from '@/lib/complaints/repository';
 import type { ComplaintLetterReviewDecisionCode, ComplaintLetterStatus, ComplaintWorkspaceActorRole } from '@/lib/complaints/types';
 
 const VALID_LETTER_STATUSES: ComplaintLetterStatus[] = ['draft', 'generated', 'under_review', 'approved', 'rejected_for_rework', 'sent', 'superseded'];
@@ -96,6 +96,13 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       return Response.json({ success: false, error: 'Letter not found.' }, { status: 404 });
     }
 
+    // Try the queued delivery straight away; failures stay queued for the outbox cron to retry.
+    if (rawStatus === 'sent' && letter.deliveryStatus === 'queued') {
+      await processComplaintLetterOutbox({ letterId, limit: 1 });
+      const context = await getComplaintLetterContext(letterId);
+      return Response.json({ success: true, letter: context?.letter ?? letter });
+    }
+
     return Response.json({ success: true, letter });
   } catch (error) {
     const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
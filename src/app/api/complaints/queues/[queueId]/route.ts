@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { deleteComplaintQueue, updateComplaintQueue } from '@/lib/complaints/repository';
+import type { ComplaintQueueInput } from '@/lib/complaints/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ queueId: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const { queueId } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+    const queue = await updateComplaintQueue(queueId, body as ComplaintQueueInput);
+    if (!queue) {
+      return Response.json({ success: false, error: 'Complaint queue not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, queue });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to update complaint queue.' }, { status });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ queueId: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const { queueId } = await params;
+    const deleted = await deleteComplaintQueue(queueId);
+    if (!deleted) {
+      return Response.json({ success: false, error: 'Complaint queue not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to delete complaint queue.' }, { status });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { createComplaintQueue, listComplaintQueues } from '@/lib/complaints/repository';
+import type { ComplaintQueueInput } from '@/lib/complaints/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'viewer');
+    const queues = await listComplaintQueues();
+    return Response.json({ success: true, queues });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to fetch complaint queues.' }, { status });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'manager');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+    const queue = await createComplaintQueue(body as ComplaintQueueInput, user.fullName);
+    return Response.json({ success: true, queue }, { status: 201 });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to create complaint queue.' }, { status });
+  }
+}
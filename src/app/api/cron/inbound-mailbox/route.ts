@@ -0,0 +1,32 @@
+import { processInboundEmailMailbox } from '@/lib/complaints/inbound-mailbox';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Cron entry point: ingests `.eml` files dropped into INBOUND_EMAIL_DIR. */
+export async function GET(request: Request) {
+  const startedAt = Date.now();
+  // Creates complaints from whatever is in the mailbox, so it never runs unauthenticated.
+  const configuredSecret = process.env.CRON_SECRET;
+  if (!configuredSecret) {
+    return Response.json({ success: false, error: 'CRON_SECRET is not configured.' }, { status: 503 });
+  }
+  const authHeader = request.headers.get('authorization') || '';
+  if (authHeader !== `Bearer ${configuredSecret}`) {
+    return Response.json({ success: false, error: 'Unauthorized.' }, { status: 401 });
+  }
+
+  try {
+    const result = await processInboundEmailMailbox();
+    return Response.json({ success: true, ...result, durationMs: Date.now() - startedAt });
+  } catch (error) {
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Inbound mailbox run failed.',
+        durationMs: Date.now() - startedAt,
+      },
+      { status: 500 }
+    );
+  }
+}
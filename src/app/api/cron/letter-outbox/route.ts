@@ -0,0 +1,32 @@
+import { processComplaintLetterOutbox } from '@/lib/complaints/repository';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Cron entry point: sends queued letters and retries transient failures that are due. */
+export async function GET(request: Request) {
+  const startedAt = Date.now();
+  // Sends email to complainants, so it never runs unauthenticated.
+  const configuredSecret = process.env.CRON_SECRET;
+  if (!configuredSecret) {
+    return Response.json({ success: false, error: 'CRON_SECRET is not configured.' }, { status: 503 });
+  }
+  const authHeader = request.headers.get('authorization') || '';
+  if (authHeader !== `Bearer ${configuredSecret}`) {
+    return Response.json({ success: false, error: 'Unauthorized.' }, { status: 401 });
+  }
+
+  try {
+    const result = await processComplaintLetterOutbox({ limit: 25 });
+    return Response.json({ success: true, ...result, durationMs: Date.now() - startedAt });
+  } catch (error) {
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Letter outbox run failed.',
+        durationMs: Date.now() - startedAt,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { addFirmAlias, removeFirmAlias } from '@/lib/firms/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Maps another spelling onto the firm; body `{ alias, source? }` where source is `manual` or `suggestion`. */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body) || typeof body.alias !== 'string') {
+      return Response.json({ success: false, error: 'alias is required.' }, { status: 400 });
+    }
+
+    const firm = await addFirmAlias(id, body.alias, body.source === 'suggestion' ? 'suggestion' : 'manual', user);
+    if (!firm) {
+      return Response.json({ success: false, error: 'Firm not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, firm }, { status: 201 });
+  } catch (error) {
+    return failure(error, 'Failed to add alias.');
+  }
+}
+
+/** Removes an alias by key: `DELETE /api/firms/:id/aliases?aliasKey=...`. */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const aliasKey = request.nextUrl.searchParams.get('aliasKey')?.trim();
+    if (!aliasKey) {
+      return Response.json({ success: false, error: 'aliasKey parameter is required.' }, { status: 400 });
+    }
+
+    const firm = await removeFirmAlias(id, aliasKey, user);
+    if (!firm) {
+      return Response.json({ success: false, error: 'Firm not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, firm });
+  } catch (error) {
+    return failure(error, 'Failed to remove alias.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { deleteFirm, getFirm, listFirmEvents, updateFirm } from '@/lib/firms/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const { id } = await params;
+    const firm = await getFirm(id);
+    if (!firm) {
+      return Response.json({ success: false, error: 'Firm not found.' }, { status: 404 });
+    }
+    const events = await listFirmEvents({ firmId: id });
+    return Response.json({ success: true, firm, events }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load firm.');
+  }
+}
+
+/** Renames a firm, sets or clears its parent group, or edits notes. */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    const firm = await updateFirm(
+      id,
+      {
+        name: typeof body.name === 'string' ? body.name : undefined,
+        parentId: body.parentId === undefined ? undefined : typeof body.parentId === 'string' ? body.parentId : null,
+        notes: body.notes === undefined ? undefined : typeof body.notes === 'string' ? body.notes : null,
+      },
+      user
+    );
+    if (!firm) {
+      return Response.json({ success: false, error: 'Firm not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, firm });
+  } catch (error) {
+    return failure(error, 'Failed to update firm.');
+  }
+}
+
+/** Deletes a firm and its aliases. Member firms are detached from the group, not deleted. */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const deleted = await deleteFirm(id, user);
+    if (!deleted) {
+      return Response.json({ success: false, error: 'Firm not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true });
+  } catch (error) {
+    return failure(error, 'Failed to delete firm.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
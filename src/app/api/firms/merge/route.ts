@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { mergeFirms } from '@/lib/firms/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Folds one firm into another; body `{ sourceId, targetId }`. The source's aliases and members move to the target. */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || typeof body.sourceId !== 'string' || typeof body.targetId !== 'string') {
+      return Response.json({ success: false, error: 'sourceId and targetId are required.' }, { status: 400 });
+    }
+
+    const firm = await mergeFirms(body.sourceId, body.targetId, user);
+    if (!firm) {
+      return Response.json({ success: false, error: 'Firm not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, firm });
+  } catch (error) {
+    return failure(error, 'Failed to merge firms.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
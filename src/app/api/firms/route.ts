@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { createFirm, listFirmEvents, listFirms } from '@/lib/firms/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const [firms, events] = await Promise.all([listFirms(), listFirmEvents({ limit: 50 })]);
+    return Response.json({ success: true, firms, events }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load firm registry.');
+  }
+}
+
+/** Registers a firm; body `{ name, parentId?, notes?, aliases? }`. */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    const firm = await createFirm(
+      {
+        name: typeof body.name === 'string' ? body.name : '',
+        parentId: typeof body.parentId === 'string' ? body.parentId : null,
+        notes: typeof body.notes === 'string' ? body.notes : null,
+        aliases: Array.isArray(body.aliases) ? body.aliases.filter((alias: unknown): alias is string => typeof alias === 'string') : [],
+      },
+      user
+    );
+    return Response.json({ success: true, firm }, { status: 201 });
+  } catch (error) {
+    return failure(error, 'Failed to create firm.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
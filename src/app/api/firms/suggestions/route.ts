@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { listUnregisteredFirmNames } from '@/lib/firms/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Published firm spellings with no alias yet, each with its closest registered firms. */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const params = request.nextUrl.searchParams;
+    const names = await listUnregisteredFirmNames({
+      limit: Number.parseInt(params.get('limit') || '50', 10) || 50,
+      query: params.get('query'),
+    });
+    return Response.json({ success: true, names }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load unregistered firm names.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server';
 import { getAdvisorBrief } from '@/lib/fos/repository';
+import { getActiveRiskPolicy } from '@/lib/risk-policy/repository';
 import type { FOSAdvisorBrief } from '@/lib/fos/types';
 import type { FOSAdvisorApiResponse } from '@/types/fos-dashboard';
 
@@ -45,8 +46,10 @@ export async function GET(request: NextRequest) {
       return Response.json({ success: false, error: 'freeText parameter too long' }, { status: 400 });
     }
 
-    // Only cache when no free text (pre-computed data is stable)
-    const cacheKey = `${product}::${rootCause || ''}`;
+    // Only cache when no free text (pre-computed data is stable). Keyed by policy
+    // version so a newly effective risk policy is not masked by cached levels.
+    const riskPolicy = await getActiveRiskPolicy();
+    const cacheKey = `${product}::${rootCause || ''}::v${riskPolicy.version}`;
     if (!freeText) {
       const cached = cache.get(cacheKey);
       if (cached && cached.expiresAt > Date.now()) {
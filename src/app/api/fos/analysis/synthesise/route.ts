@@ -11,7 +11,8 @@ import {
   toInt,
   toNumber,
 } from '@/lib/fos/repo-helpers';
-import { callGroq } from '@/lib/fos/groq-client';
+import { completeChat } from '@/lib/llm/repository';
+import { isLlmUnavailableError, llmDeadlineForRoute } from '@/lib/llm/providers';
 import { FOSSynthesisApiResponse } from '@/types/fos-dashboard';
 
 export const dynamic = 'force-dynamic';
@@ -94,6 +95,25 @@ Which rules are most frequently invoked? Are there emerging patterns in how the
 Provide 5-7 specific, prioritised recommendations. Each should state the action, reference the evidence, and assign a priority: CRITICAL, HIGH, or MEDIUM.`;
 }
 
+/** Deterministic summary used when no AI provider is reachable, so the panel still renders. */
+function buildStatisticsNarrative(stats: SynthesisStats): string {
+  const rootCauseLines = stats.rootCauses
+    .slice(0, 5)
+    .map((rc) => `${rc.label}: ${rc.count} cases, ${rc.upheldRate.toFixed(1)}% upheld.`);
+  const precedentLines = stats.precedents
+    .slice(0, 5)
+    .map((p) => `${p.label}: cited in ${p.count} cases (${p.percentOfCases.toFixed(1)}%).`);
+
+  return [
+    '## Executive Overview',
+    `AI analysis is temporarily unavailable, so this is a statistics-only summary. The subset contains ${stats.totalCases} decisions: ${stats.upheldRate.toFixed(1)}% upheld, ${stats.notUpheldRate.toFixed(1)}% not upheld and ${stats.partialRate.toFixed(1)}% partially upheld.`,
+    '## Root Cause Analysis',
+    ...(rootCauseLines.length > 0 ? rootCauseLines : ['No root cause data available.']),
+    '## Regulatory & Precedent Implications',
+    ...(precedentLines.length > 0 ? precedentLines : ['No precedent data available.']),
+  ].join('\n');
+}
+
 interface SynthesisStats {
   totalCases: number;
   upheldCount: number;
@@ -267,6 +287,7 @@ export async function POST(request: NextRequest) {
       outcomes: isStringArray(raw.outcomes) ? raw.outcomes.slice(0, 10) : [],
       products: isStringArray(raw.products) ? raw.products.slice(0, 50) : [],
       firms: isStringArray(raw.firms) ? raw.firms.slice(0, 50) : [],
+      ombudsmen: isStringArray(raw.ombudsmen) ? raw.ombudsmen.slice(0, 20) : [],
       tags: isStringArray(raw.tags) ? raw.tags.slice(0, 20) : [],
       query: typeof raw.query === 'string' ? raw.query.slice(0, 500) : '',
       page: 1,
@@ -282,13 +303,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const narrative = await callGroq(
-      [
-        { role: 'system', content: SYSTEM_PROMPT },
-        { role: 'user', content: buildUserPrompt(stats) },
-      ],
-      { maxTokens: 2500, temperature: 0.3 }
-    );
+    let generation: NonNullable<FOSSubsetAnalysis['generation']>;
+    let narrative: string;
+    try {
+      const completion = await completeChat(
+        [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: buildUserPrompt(stats) },
+        ],
+        { purpose: 'fos_synthesis', maxTokens: 2500, temperature: 0.3, deadlineMs: llmDeadlineForRoute(maxDuration), signal: request.signal }
+      );
+      narrative = completion.content;
+      generation = { provider: completion.provider, model: completion.model, cached: completion.cached, degraded: false };
+    } catch (error) {
+      if (!isLlmUnavailableError(error)) throw error;
+      console.warn('[synthesise] falling back to statistics-only summary:', error instanceof Error ? error.message : error);
+      narrative = buildStatisticsNarrative(stats);
+      generation = { provider: null, model: null, cached: false, degraded: true };
+    }
 
     const result: FOSSubsetAnalysis = {
       narrative,
@@ -296,6 +328,7 @@ export async function POST(request: NextRequest) {
       precedents: stats.precedents.slice(0, 5),
       totalCases: stats.totalCases,
       upheldRate: stats.upheldRate,
+      generation,
     };
 
     return Response.json(
@@ -303,7 +336,7 @@ export async function POST(request: NextRequest) {
         success: true,
         data: result,
         meta: {
-          cached: false,
+          cached: generation.cached,
           queryMs: Date.now() - startedAt,
           snapshotAt: new Date().toISOString(),
         },
@@ -312,13 +345,8 @@ export async function POST(request: NextRequest) {
     );
   } catch (error) {
     const message = error instanceof Error ? error.message : '';
-    // Don't leak internal/Groq API error details to the client
-    const safeMessage =
-      message.includes('GROQ_API_KEY') || message.includes('api.groq.com') || message.includes('429')
-        ? 'AI analysis service is temporarily unavailable. Please try again later.'
-        : message || 'Failed to generate synthesis.';
     return Response.json(
-      { success: false, error: safeMessage },
+      { success: false, error: message || 'Failed to generate synthesis.' },
       { status: 500 }
     );
   }
@@ -28,6 +28,7 @@ export async function GET(request: NextRequest) {
       includeOperationalComplaints: searchParams.get('includeOperationalComplaints') !== 'false',
       includeComparison: searchParams.get('includeComparison') === 'true',
       includeRootCauseDeepDive: searchParams.get('includeRootCauseDeepDive') !== 'false',
+      includeForecast: searchParams.get('includeForecast') === 'true',
       includeAppendix: searchParams.get('includeAppendix') !== 'false',
     });
     logRouteMetric({
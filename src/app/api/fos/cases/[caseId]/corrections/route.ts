@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { getDecisionCorrections, saveDecisionCorrections } from '@/lib/corrections/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ caseId: string }> }) {
+  try {
+    await requireAuthenticatedUser(request);
+    const { caseId } = await params;
+    const corrections = await getDecisionCorrections(decodeURIComponent(caseId || '').trim());
+    if (!corrections) {
+      return Response.json({ success: false, error: 'Case not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, corrections }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load corrections.');
+  }
+}
+
+/**
+ * Body `{ outcome?, product?, precedents?, rootCauseTags?, vulnerabilityFlags?, note? }`.
+ * A value sets the correction and `null` removes it.
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ caseId: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'reviewer');
+    const { caseId } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    const corrections = await saveDecisionCorrections(decodeURIComponent(caseId || '').trim(), body, user);
+    if (!corrections) {
+      return Response.json({ success: false, error: 'Case not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, corrections });
+  } catch (error) {
+    return failure(error, 'Failed to save corrections.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
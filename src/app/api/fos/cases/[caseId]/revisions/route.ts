@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { getDecisionRevisions } from '@/lib/revisions/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ caseId: string }> }) {
+  try {
+    await requireAuthenticatedUser(request);
+    const { caseId } = await params;
+    const history = await getDecisionRevisions(decodeURIComponent(caseId || '').trim());
+    if (!history) {
+      return Response.json({ success: false, error: 'Case not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, history }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load decision revisions.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -6,7 +6,7 @@ export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: { caseId: string } }
 ) {
   try {
@@ -15,8 +15,13 @@ export async function GET(
       return Response.json({ success: false, error: 'Invalid or missing caseId.' }, { status: 400 });
     }
 
-    const [cases, context] = await Promise.all([
-      getSimilarCases(caseId, 10),
+    const modeParam = request.nextUrl.searchParams.get('mode') || 'attribute';
+    if (modeParam !== 'attribute' && modeParam !== 'semantic') {
+      return Response.json({ success: false, error: 'mode must be "attribute" or "semantic".' }, { status: 400 });
+    }
+
+    const [similar, context] = await Promise.all([
+      getSimilarCases(caseId, 10, { mode: modeParam }),
       getCaseContext(caseId),
     ]);
 
@@ -27,7 +32,7 @@ export async function GET(
     return Response.json(
       {
         success: true,
-        data: { cases, context },
+        data: { cases: similar.cases, context, mode: similar.mode, embeddingModel: similar.embeddingModel },
       } satisfies FOSSimilarCasesApiResponse,
       { headers: { 'Cache-Control': 's-maxage=120, stale-while-revalidate=300' } }
     );
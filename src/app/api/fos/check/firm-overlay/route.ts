@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server';
 import { getEstimatorFirmOverlay } from '@/lib/fos/advisor-repository';
+import { parseFirmLevel } from '@/lib/fos/repo-helpers';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -50,7 +51,9 @@ export async function GET(request: NextRequest) {
       return Response.json({ success: false, error: 'Invalid rootCause parameter' }, { status: 400 });
     }
 
-    const cacheKey = JSON.stringify([product, rootCause || null, firm]);
+    const firmLevel = parseFirmLevel(params.get('firmLevel'));
+
+    const cacheKey = JSON.stringify([product, rootCause || null, firm, firmLevel]);
     const cached = cache.get(cacheKey);
     if (cached && cached.expiresAt > Date.now()) {
       return Response.json(cached.payload, {
@@ -58,7 +61,7 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    const overlay = await getEstimatorFirmOverlay(product, rootCause, firm);
+    const overlay = await getEstimatorFirmOverlay(product, rootCause, firm, firmLevel);
 
     const payload = overlay
       ? { success: true, data: overlay }
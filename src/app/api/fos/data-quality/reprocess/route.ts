@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { queueSectionReprocessRun } from '@/lib/data-quality/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Queues `{ references }`, or the `{ limit }` lowest-scoring decisions matching
+ * `{ productSector, yearFrom, yearTo }`, for re-splitting with the current splitter.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const body = await request.json().catch(() => null);
+    const run = await queueSectionReprocessRun(
+      {
+        references: Array.isArray(body?.references) ? body.references : undefined,
+        limit: typeof body?.limit === 'number' ? body.limit : undefined,
+        productSector: typeof body?.productSector === 'string' ? body.productSector : null,
+        yearFrom: typeof body?.yearFrom === 'number' ? body.yearFrom : null,
+        yearTo: typeof body?.yearTo === 'number' ? body.yearTo : null,
+      },
+      user
+    );
+    return Response.json({ success: true, run }, { status: 201 });
+  } catch (error) {
+    return failure(error, 'Failed to queue the reprocess run.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { getSectionQualityOverview } from '@/lib/data-quality/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Section coverage, its trend and the decisions with incomplete sections, worst
+ * first. Filters: `product`, `yearFrom`, `yearTo`, `reprocessable=true`, `page`, `pageSize`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'admin');
+    const params = request.nextUrl.searchParams;
+    const quality = await getSectionQualityOverview({
+      productSector: params.get('product'),
+      yearFrom: optionalInt(params.get('yearFrom')),
+      yearTo: optionalInt(params.get('yearTo')),
+      reprocessableOnly: params.get('reprocessable') === 'true',
+      page: optionalInt(params.get('page')) ?? undefined,
+      pageSize: optionalInt(params.get('pageSize')) ?? undefined,
+    });
+    return Response.json({ success: true, quality }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load section quality.');
+  }
+}
+
+function optionalInt(value: string | null): number | null {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { requestIngestionRetry } from '@/lib/ingestion/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Queues `{ windowId }` or `{ itemIds }` for the next ingestion run. */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const body = await request.json().catch(() => null);
+    const result = await requestIngestionRetry(
+      {
+        windowId: typeof body?.windowId === 'string' ? body.windowId : undefined,
+        itemIds: Array.isArray(body?.itemIds) ? body.itemIds : undefined,
+      },
+      user
+    );
+    return Response.json({ success: true, ...result });
+  } catch (error) {
+    return failure(error, 'Failed to queue the retry.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
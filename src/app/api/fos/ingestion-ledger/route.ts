@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { getIngestionLedger } from '@/lib/ingestion/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Recent ingestion windows and failed decisions; `?windowId=` narrows the failures to one window. */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'admin');
+    const params = request.nextUrl.searchParams;
+    const windowLimit = Number.parseInt(params.get('windows') || '', 10);
+    const failureLimit = Number.parseInt(params.get('failures') || '', 10);
+
+    const ledger = await getIngestionLedger({
+      windowId: params.get('windowId'),
+      windowLimit: Number.isFinite(windowLimit) ? windowLimit : undefined,
+      failureLimit: Number.isFinite(failureLimit) ? failureLimit : undefined,
+    });
+    return Response.json({ success: true, ledger }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load the ingestion ledger.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { deleteSavedSearch, getSavedSearch, markSavedSearchViewed, updateSavedSearch } from '@/lib/saved-searches/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'viewer');
+    const { id } = await params;
+    const savedSearch = await getSavedSearch(user.id, id);
+    if (!savedSearch) {
+      return Response.json({ success: false, error: 'Saved search not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, savedSearch }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to fetch saved search.' }, { status });
+  }
+}
+
+/** Updates name, filters or alerting; `{ markViewed: true }` resets the new-decision counter. */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'viewer');
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    const hasChanges = body.name !== undefined || body.filters !== undefined || typeof body.alertsEnabled === 'boolean';
+    let savedSearch = hasChanges
+      ? await updateSavedSearch(user.id, id, {
+          name: body.name !== undefined ? String(body.name) : undefined,
+          filters: body.filters,
+          alertsEnabled: typeof body.alertsEnabled === 'boolean' ? body.alertsEnabled : undefined,
+        })
+      : await getSavedSearch(user.id, id);
+    if (savedSearch && body.markViewed === true) {
+      savedSearch = await markSavedSearchViewed(user.id, id);
+    }
+    if (!savedSearch) {
+      return Response.json({ success: false, error: 'Saved search not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, savedSearch });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to update saved search.' }, { status });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'viewer');
+    const { id } = await params;
+    const deleted = await deleteSavedSearch(user.id, id);
+    if (!deleted) {
+      return Response.json({ success: false, error: 'Saved search not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to delete saved search.' }, { status });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { listSavedSearchAlerts, markSavedSearchAlertsRead } from '@/lib/saved-searches/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'viewer');
+    const searchParams = request.nextUrl.searchParams;
+    const alerts = await listSavedSearchAlerts(user.id, {
+      unreadOnly: searchParams.get('unread') === 'true',
+      limit: Number.parseInt(searchParams.get('limit') || '', 10) || undefined,
+    });
+    return Response.json(
+      { success: true, alerts, unreadCount: alerts.filter((alert) => !alert.readAt).length },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to fetch alerts.' }, { status });
+  }
+}
+
+/** Marks alerts read: `{ ids: [...] }` for specific alerts, or an empty body for all. */
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'viewer');
+    const body = await request.json().catch(() => ({}));
+    const ids = body && Array.isArray(body.ids) ? body.ids.filter((id: unknown): id is string => typeof id === 'string') : undefined;
+    const updated = await markSavedSearchAlertsRead(user.id, ids);
+    return Response.json({ success: true, updated });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to update alerts.' }, { status });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { savedSearchDigestToCsv } from '@/lib/export/csv';
+import { getSavedSearchDigest } from '@/lib/saved-searches/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'viewer');
+    const searchParams = request.nextUrl.searchParams;
+    const format = (searchParams.get('format') || 'json').toLowerCase();
+    if (format !== 'json' && format !== 'csv') {
+      return Response.json({ success: false, error: 'format must be json or csv.' }, { status: 400 });
+    }
+
+    const digest = await getSavedSearchDigest(user.id, {
+      since: searchParams.get('since'),
+      decisionsPerSearch: Number.parseInt(searchParams.get('limit') || '', 10) || undefined,
+    });
+
+    if (format === 'csv') {
+      const filename = `saved-search-digest-${digest.generatedAt.slice(0, 10)}.csv`;
+      return new Response(savedSearchDigestToCsv(digest), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    return Response.json({ success: true, digest }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to build digest.' }, { status });
+  }
+}
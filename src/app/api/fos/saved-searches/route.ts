@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { createSavedSearch, listSavedSearches } from '@/lib/saved-searches/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'viewer');
+    const savedSearches = await listSavedSearches(user.id);
+    return Response.json({ success: true, savedSearches }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to fetch saved searches.' }, { status });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'viewer');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+    const savedSearch = await createSavedSearch(user.id, {
+      name: typeof body.name === 'string' ? body.name : undefined,
+      filters: body.filters,
+      alertsEnabled: typeof body.alertsEnabled === 'boolean' ? body.alertsEnabled : undefined,
+    });
+    return Response.json({ success: true, savedSearch }, { status: 201 });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to save search.' }, { status });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { reviewLabelQueueItem } from '@/lib/corrections/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Body `{ action: 'confirm' | 'skip', corrections? }`; confirming adds the decision to the gold set. */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ reference: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'reviewer');
+    const { reference } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || (body.action !== 'confirm' && body.action !== 'skip')) {
+      return Response.json({ success: false, error: 'action must be "confirm" or "skip".' }, { status: 400 });
+    }
+    if (body.corrections != null && (typeof body.corrections !== 'object' || Array.isArray(body.corrections))) {
+      return Response.json({ success: false, error: 'corrections must be an object.' }, { status: 400 });
+    }
+
+    const corrections = await reviewLabelQueueItem(
+      decodeURIComponent(reference || '').trim(),
+      { action: body.action, corrections: body.corrections || undefined },
+      user
+    );
+    if (!corrections) {
+      return Response.json({ success: false, error: 'Decision is not in the labelling queue.' }, { status: 404 });
+    }
+    return Response.json({ success: true, corrections });
+  } catch (error) {
+    return failure(error, 'Failed to review decision.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { evaluateTagger } from '@/lib/corrections/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Tagger precision/recall against the gold set; `?scope=queue|all&versionId=` (default: active rules). */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'reviewer');
+    const scope = request.nextUrl.searchParams.get('scope') === 'all' ? 'all' : 'queue';
+    const versionId = request.nextUrl.searchParams.get('versionId');
+    const evaluation = await evaluateTagger({ scope, versionId });
+    return Response.json({ success: true, evaluation }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to evaluate the tagger.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
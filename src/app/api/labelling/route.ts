@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { getLabelQueueSummary, listLabelQueue, sampleLabelQueue } from '@/lib/corrections/repository';
+import type { LabelQueueStatus } from '@/lib/corrections/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const STATUSES: LabelQueueStatus[] = ['pending', 'reviewed', 'skipped'];
+
+/** Queue counts plus one page of items; `?status=pending|reviewed|skipped&limit=`. */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'reviewer');
+    const statusParam = request.nextUrl.searchParams.get('status') || 'pending';
+    if (!STATUSES.includes(statusParam as LabelQueueStatus)) {
+      return Response.json({ success: false, error: `status must be one of: ${STATUSES.join(', ')}.` }, { status: 400 });
+    }
+    const limit = Number.parseInt(request.nextUrl.searchParams.get('limit') || '', 10);
+
+    const [summary, items] = await Promise.all([
+      getLabelQueueSummary(),
+      listLabelQueue({ status: statusParam as LabelQueueStatus, limit: Number.isFinite(limit) ? limit : undefined }),
+    ]);
+    return Response.json({ success: true, summary, items }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load the labelling queue.');
+  }
+}
+
+/** Samples `{ size }` random unqueued decisions into the queue. */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'reviewer');
+    const body = await request.json().catch(() => null);
+    const size = Number(body?.size);
+    if (!Number.isFinite(size) || size < 1) {
+      return Response.json({ success: false, error: 'size must be a positive number.' }, { status: 400 });
+    }
+
+    const added = await sampleLabelQueue(size, user);
+    return Response.json({ success: true, added, summary: await getLabelQueueSummary() }, { status: 201 });
+  } catch (error) {
+    return failure(error, 'Failed to sample decisions.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { resolveLlmProviders } from '@/lib/llm/providers';
+import { getLlmUsageSummary } from '@/lib/llm/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Token and cost totals per purpose, provider and model over `?days=` (default 30). */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const days = Number.parseInt(request.nextUrl.searchParams.get('days') || '30', 10);
+    const usage = await getLlmUsageSummary(Number.isFinite(days) ? days : 30);
+    const providers = resolveLlmProviders().map((provider) => ({ kind: provider.kind, name: provider.name, model: provider.model }));
+    return Response.json({ success: true, providers, usage }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to load AI usage.' }, { status });
+  }
+}
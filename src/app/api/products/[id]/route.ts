@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { deleteProductCategory, getProductCategory, updateProductCategory } from '@/lib/products/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const { id } = await params;
+    const category = await getProductCategory(id);
+    if (!category) {
+      return Response.json({ success: false, error: 'Product category not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, category }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load product category.');
+  }
+}
+
+/** Renames a category, moves a product under another sector (or makes it a sector), or edits its description. */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    const category = await updateProductCategory(id, {
+      name: typeof body.name === 'string' ? body.name : undefined,
+      parentId: body.parentId === undefined ? undefined : typeof body.parentId === 'string' ? body.parentId : null,
+      description: body.description === undefined ? undefined : typeof body.description === 'string' ? body.description : null,
+    });
+    if (!category) {
+      return Response.json({ success: false, error: 'Product category not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, category });
+  } catch (error) {
+    return failure(error, 'Failed to update product category.');
+  }
+}
+
+/** Deletes a category and its mapping rules. Sectors must have no products left. */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const deleted = await deleteProductCategory(id);
+    if (!deleted) {
+      return Response.json({ success: false, error: 'Product category not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true });
+  } catch (error) {
+    return failure(error, 'Failed to delete product category.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { deleteProductMapping } from '@/lib/products/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const deleted = await deleteProductMapping(id);
+    if (!deleted) {
+      return Response.json({ success: false, error: 'Mapping rule not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true });
+  } catch (error) {
+    return failure(error, 'Failed to delete mapping rule.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { addProductMapping } from '@/lib/products/repository';
+import type { ProductMatchType } from '@/lib/products/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Adds a mapping rule; body `{ pattern, categoryId, matchType?: 'exact' | 'contains', priority? }`. */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    const category = await addProductMapping(
+      {
+        pattern: typeof body.pattern === 'string' ? body.pattern : '',
+        categoryId: typeof body.categoryId === 'string' ? body.categoryId : '',
+        matchType: typeof body.matchType === 'string' ? (body.matchType as ProductMatchType) : undefined,
+        priority: typeof body.priority === 'number' ? body.priority : undefined,
+      },
+      user
+    );
+    if (!category) {
+      return Response.json({ success: false, error: 'Product category not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, category }, { status: 201 });
+  } catch (error) {
+    return failure(error, 'Failed to add mapping rule.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
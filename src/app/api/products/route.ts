@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { createProductCategory, listProductCategories } from '@/lib/products/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const categories = await listProductCategories();
+    return Response.json({ success: true, categories }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load product taxonomy.');
+  }
+}
+
+/** Adds a taxonomy category; body `{ name, parentId?, description? }`. Omit `parentId` for a sector. */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    const category = await createProductCategory(
+      {
+        name: typeof body.name === 'string' ? body.name : '',
+        parentId: typeof body.parentId === 'string' ? body.parentId : null,
+        description: typeof body.description === 'string' ? body.description : null,
+      },
+      user
+    );
+    return Response.json({ success: true, category }, { status: 201 });
+  } catch (error) {
+    return failure(error, 'Failed to create product category.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { listProductSourceValues } from '@/lib/products/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Raw `product_sector` values with case counts and their current mapping; `?unmapped=true` keeps the uncovered ones. */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const params = request.nextUrl.searchParams;
+    const values = await listProductSourceValues({
+      unmappedOnly: params.get('unmapped') === 'true',
+      limit: Number.parseInt(params.get('limit') || '100', 10) || 100,
+    });
+    return Response.json({ success: true, values }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load product values.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { publishRiskPolicy } from '@/lib/risk-policy/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Publishes a draft; body `{ effectiveFrom? }` schedules it for a future date. */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const effectiveFrom = typeof body?.effectiveFrom === 'string' && body.effectiveFrom.trim() ? body.effectiveFrom.trim() : null;
+
+    const policy = await publishRiskPolicy(id, { effectiveFrom }, user);
+    if (!policy) {
+      return Response.json({ success: false, error: 'Risk policy not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, policy });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to publish risk policy.' }, { status });
+  }
+}
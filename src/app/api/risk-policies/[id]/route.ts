@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import {
+  discardRiskPolicyDraft,
+  getRiskPolicy,
+  listRiskPolicyEvents,
+  updateRiskPolicyDraft,
+} from '@/lib/risk-policy/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const { id } = await params;
+    const policy = await getRiskPolicy(id);
+    if (!policy) {
+      return Response.json({ success: false, error: 'Risk policy not found.' }, { status: 404 });
+    }
+    const events = await listRiskPolicyEvents({ policyId: id });
+    return Response.json({ success: true, policy, events }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load risk policy.');
+  }
+}
+
+/** Edits a draft's thresholds or notes. Published versions are immutable. */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    const policy = await updateRiskPolicyDraft(
+      id,
+      {
+        thresholds: body.thresholds && typeof body.thresholds === 'object' ? body.thresholds : undefined,
+        notes: body.notes === undefined ? undefined : typeof body.notes === 'string' ? body.notes : null,
+      },
+      user
+    );
+    if (!policy) {
+      return Response.json({ success: false, error: 'Risk policy not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, policy });
+  } catch (error) {
+    return failure(error, 'Failed to update risk policy draft.');
+  }
+}
+
+/** Discards a draft. The row is kept so the audit log still resolves its version. */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const policy = await discardRiskPolicyDraft(id, user);
+    if (!policy) {
+      return Response.json({ success: false, error: 'Risk policy not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, policy });
+  } catch (error) {
+    return failure(error, 'Failed to discard risk policy draft.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
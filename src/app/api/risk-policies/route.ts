@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import {
+  createRiskPolicyDraft,
+  getActiveRiskPolicy,
+  listRiskPolicies,
+  listRiskPolicyEvents,
+} from '@/lib/risk-policy/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const [policies, events] = await Promise.all([listRiskPolicies(), listRiskPolicyEvents({ limit: 50 })]);
+    const active = await getActiveRiskPolicy();
+    return Response.json({ success: true, active, policies, events }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load risk policies.');
+  }
+}
+
+/** Opens a draft seeded from the active thresholds; body `{ thresholds?, notes? }`. */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    const policy = await createRiskPolicyDraft(
+      {
+        thresholds: body.thresholds && typeof body.thresholds === 'object' ? body.thresholds : undefined,
+        notes: typeof body.notes === 'string' ? body.notes : null,
+      },
+      user
+    );
+    return Response.json({ success: true, policy }, { status: 201 });
+  } catch (error) {
+    return failure(error, 'Failed to create risk policy draft.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
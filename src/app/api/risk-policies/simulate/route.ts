@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { normalizeUpholdRiskThresholds } from '@/lib/risk-policy/policy';
+import { getActiveRiskPolicy, getRiskPolicy, simulateRiskPolicy } from '@/lib/risk-policy/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Previews reclassification of advisor briefs and open complaints against the
+ * active policy. Body `{ policyId }` simulates a stored version; `{ thresholds }`
+ * simulates unsaved values (missing bounds default to the active policy).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    let thresholds;
+    if (typeof body.policyId === 'string' && body.policyId.trim()) {
+      const policy = await getRiskPolicy(body.policyId.trim());
+      if (!policy) {
+        return Response.json({ success: false, error: 'Risk policy not found.' }, { status: 404 });
+      }
+      thresholds = policy.thresholds;
+    } else {
+      const active = await getActiveRiskPolicy();
+      thresholds = normalizeUpholdRiskThresholds(
+        body.thresholds && typeof body.thresholds === 'object' ? body.thresholds : null,
+        active.thresholds
+      );
+    }
+
+    const simulation = await simulateRiskPolicy(thresholds);
+    return Response.json({ success: true, simulation }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to simulate risk policy.' }, { status });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { publishTagRuleVersion } from '@/lib/tagging/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Publishes a draft and queues a re-tag run for it. */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const result = await publishTagRuleVersion(id, user);
+    if (!result) {
+      return Response.json({ success: false, error: 'Tag rule version not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, version: result.version, run: result.run });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to publish tag rules.' }, { status });
+  }
+}
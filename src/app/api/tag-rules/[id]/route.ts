@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { discardTagRuleDraft, getTagRuleVersion, updateTagRuleDraft } from '@/lib/tagging/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const { id } = await params;
+    const version = await getTagRuleVersion(id);
+    if (!version) {
+      return Response.json({ success: false, error: 'Tag rule version not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, version }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load tag rule version.');
+  }
+}
+
+/** Edits a draft's rules or notes. Published versions are immutable. */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    const version = await updateTagRuleDraft(id, {
+      rules: body.rules === undefined ? undefined : body.rules,
+      notes: body.notes === undefined ? undefined : typeof body.notes === 'string' ? body.notes : null,
+    });
+    if (!version) {
+      return Response.json({ success: false, error: 'Tag rule version not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, version });
+  } catch (error) {
+    return failure(error, 'Failed to update tag rule draft.');
+  }
+}
+
+/** Discards a draft. The row is kept so its version number is not reused. */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await requireAuthenticatedUser(request, 'admin');
+    const { id } = await params;
+    const version = await discardTagRuleDraft(id);
+    if (!version) {
+      return Response.json({ success: false, error: 'Tag rule version not found.' }, { status: 404 });
+    }
+    return Response.json({ success: true, version });
+  } catch (error) {
+    return failure(error, 'Failed to discard tag rule draft.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { getTagRuleVersion, previewTagRules } from '@/lib/tagging/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Tests rules against sample decisions and compares them with the active rules.
+ * Body `{ versionId }` previews a stored version; `{ rules }` previews unsaved
+ * rules. `sampleSize` (default 50, max 200) takes the most recent decisions;
+ * `references` tests specific decisions instead.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    let rules: unknown = body.rules;
+    if (typeof body.versionId === 'string' && body.versionId.trim()) {
+      const version = await getTagRuleVersion(body.versionId.trim());
+      if (!version) {
+        return Response.json({ success: false, error: 'Tag rule version not found.' }, { status: 404 });
+      }
+      rules = version.rules;
+    }
+    if (!rules || typeof rules !== 'object') {
+      return Response.json({ success: false, error: '`rules` or `versionId` is required.' }, { status: 400 });
+    }
+
+    const preview = await previewTagRules(rules, {
+      sampleSize: typeof body.sampleSize === 'number' ? body.sampleSize : undefined,
+      references: Array.isArray(body.references) ? body.references.filter((value: unknown): value is string => typeof value === 'string') : [],
+    });
+    return Response.json({ success: true, preview }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to preview tag rules.' }, { status });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import { queueRetagRun } from '@/lib/tagging/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/** Queues a re-tag of the corpus with the active rules, replacing any pending run. */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const run = await queueRetagRun(user);
+    return Response.json({ success: true, run }, { status: 201 });
+  } catch (error) {
+    const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+    return Response.json({ success: false, error: error instanceof Error ? error.message : 'Failed to queue re-tag run.' }, { status });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server';
+import { requireAuthenticatedUser } from '@/lib/auth/session';
+import {
+  createTagRuleDraft,
+  getActiveTagRules,
+  getTagRuleCoverage,
+  listRetagRuns,
+  listTagRuleVersions,
+} from '@/lib/tagging/repository';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuthenticatedUser(request, 'manager');
+    const [versions, runs, coverage] = await Promise.all([listTagRuleVersions(), listRetagRuns(), getTagRuleCoverage()]);
+    const active = await getActiveTagRules();
+    return Response.json({ success: true, active, versions, runs, coverage }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return failure(error, 'Failed to load tag rules.');
+  }
+}
+
+/** Opens a draft seeded from the active rules; body `{ rules?, notes? }`. */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuthenticatedUser(request, 'admin');
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return Response.json({ success: false, error: 'Invalid request body.' }, { status: 400 });
+    }
+
+    const version = await createTagRuleDraft(
+      {
+        rules: body.rules === undefined ? undefined : body.rules,
+        notes: typeof body.notes === 'string' ? body.notes : null,
+      },
+      user
+    );
+    return Response.json({ success: true, version }, { status: 201 });
+  } catch (error) {
+    return failure(error, 'Failed to create tag rule draft.');
+  }
+}
+
+function failure(error: unknown, fallback: string) {
+  const status = 'status' in (error as object) ? Number((error as { status?: number }).status || 500) : 500;
+  return Response.json({ success: false, error: error instanceof Error ? error.message : fallback }, { status });
+}
@@ -15,6 +15,7 @@ import { FirmComparisonBar } from '@/components/check/firm-comparison-bar';
 import { OutcomeBreakdown } from '@/components/check/outcome-breakdown';
 import { RiskGauge } from '@/components/check/risk-gauge';
 import { PublicStatusBanner } from '@/components/public/public-status-banner';
+import type { FOSAdvisorOptions } from '@/lib/fos/types';
 import type { PublicDataStatus } from '@/lib/insights/types';
 
 type CheckEstimatorPageProps = {
@@ -28,15 +29,6 @@ type CheckEstimatorPageProps = {
   };
 };
 
-const PREFERRED_PRODUCTS = [
-  'Banking and credit',
-  'Banking and Payments',
-  'Payment protection insurance (PPI)',
-  'Mortgage and home finance',
-  'Insurance',
-  'Consumer Credit',
-];
-
 const PREFERRED_ROOT_CAUSES = [
   'Delay in claim handling',
   'Fraud Or Scam Concern',
@@ -53,13 +45,15 @@ function matchPreferred(options: string[], preferred: string[]): string | undefi
     .find(Boolean);
 }
 
-function buildExampleChips(options: { products: string[]; rootCauses: string[] } | null): CheckExampleChip[] {
+function buildExampleChips(options: FOSAdvisorOptions | null): CheckExampleChip[] {
   if (!options?.products.length) return [];
 
+  // Featured products are the busiest taxonomy products, so the examples follow the corpus rather than a fixed list.
+  const featured = options.featuredProducts.length ? options.featuredProducts : options.products;
   const rootCause = matchPreferred(options.rootCauses, PREFERRED_ROOT_CAUSES);
-  const overlayProduct = matchPreferred(options.products, ['Banking and Payments', 'Banking and credit', 'Payment protection insurance (PPI)']) || options.products[0];
-  const signalProduct = matchPreferred(options.products, ['Banking and credit', 'Consumer Credit', 'Insurance']) || overlayProduct;
-  const secondOverlayProduct = matchPreferred(options.products, ['Payment protection insurance (PPI)', 'Mortgages', 'Insurance']) || overlayProduct;
+  const overlayProduct = featured[0];
+  const signalProduct = featured[1] || overlayProduct;
+  const secondOverlayProduct = featured[2] || overlayProduct;
 
   const draft: CheckExampleChip[] = [
     {
@@ -342,7 +336,12 @@ export function CheckEstimatorPage({ status, liveStats }: CheckEstimatorPageProp
 
           <section className="grid gap-6 xl:grid-cols-[1.1fr_0.9fr]">
             <div className="grid gap-6">
-              <RiskGauge upheldRate={risk.upheldRate} upholdRiskLevel={risk.upholdRiskLevel} />
+              <RiskGauge
+                upheldRate={risk.upheldRate}
+                upholdRiskLevel={risk.upholdRiskLevel}
+                thresholds={risk.riskPolicy?.thresholds}
+                interval={risk.confidenceInterval}
+              />
               {brief.outcomeDistribution && brief.outcomeDistribution.length > 0 ? (
                 <div className="rounded-[1.9rem] border border-slate-200 bg-white p-6 shadow-sm">
                   <OutcomeBreakdown distribution={brief.outcomeDistribution} totalCases={risk.totalCases} />
@@ -350,7 +349,11 @@ export function CheckEstimatorPage({ status, liveStats }: CheckEstimatorPageProp
               ) : null}
             </div>
             <div className="grid gap-6">
-              <ConfidenceBadge sampleSize={risk.sampleSize} />
+              <ConfidenceBadge
+                sampleSize={risk.sampleSize}
+                interval={risk.confidenceInterval}
+                minimumSampleSize={risk.riskPolicy?.thresholds.minimumSampleSize}
+              />
               <section className="rounded-[1.9rem] border border-[#102a4e] bg-[#102a4e] p-6 text-white shadow-[0_24px_70px_rgba(16,42,78,0.22)]">
                 <p className="text-[11px] font-semibold uppercase tracking-[0.22em] text-white/55">How to read this</p>
                 <h3 className="mt-3 text-xl font-semibold tracking-tight">Use the estimate as fast complaint context, not as the final decision.</h3>
@@ -373,6 +376,9 @@ export function CheckEstimatorPage({ status, liveStats }: CheckEstimatorPageProp
                     {firmOverlay.sourceScope === 'product_only' && rootCause
                       ? `Widened to the selected product because the firm + root-cause slice was too thin. Based on ${firmOverlay.totalCases.toLocaleString()} published decision${firmOverlay.totalCases !== 1 ? 's' : ''} for this firm in the wider product context.`
                       : `Based on ${firmOverlay.totalCases.toLocaleString()} published decision${firmOverlay.totalCases !== 1 ? 's' : ''} for this firm in the selected ${rootCause ? 'product and root-cause' : 'product'} context.`}
+                    {firmOverlay.matchedBy === 'registry'
+                      ? ` Matched to the registered firm, including decisions published under its known aliases.`
+                      : ''}
                   </p>
                 </div>
               ) : submitted && firm && !loading ? (
@@ -6,16 +6,18 @@ import { useLoadingProgress } from '@/hooks/use-loading-progress';
 import { Card, CardContent } from '@/components/ui/card';
 import { SkeletonCard } from '@/components/shared/skeleton-card';
 import { YearFilterBar } from '@/components/shared/year-filter-bar';
+import { FirmLevelToggle } from '@/components/shared/firm-level-toggle';
 import { MultiFirmSelector, type FirmSearchResult } from '@/components/comparison/multi-firm-selector';
 import { OutcomeComparison } from '@/components/comparison/outcome-comparison';
 import { ThemeRadar } from '@/components/comparison/theme-radar';
 import { ComparisonTable } from '@/components/comparison/comparison-table';
-import { FOSComparisonSnapshot } from '@/lib/fos/types';
+import { OmbudsmanBreakdown } from '@/components/comparison/ombudsman-breakdown';
+import { FOSComparisonSnapshot, FOSFirmLevel } from '@/lib/fos/types';
 
 const COMPARISON_TIMEOUT_MS = 60_000;
 
 export default function ComparisonPage() {
-  const { filters, initialized, toggleYear, setYears } = useFosFilters();
+  const { filters, initialized, toggleYear, setYears, setFirmLevel } = useFosFilters();
   const [firmQuery, setFirmQuery] = useState('');
   const [firmResults, setFirmResults] = useState<FirmSearchResult[]>([]);
   const [firmsLoading, setFirmsLoading] = useState(true);
@@ -38,6 +40,7 @@ export default function ComparisonPage() {
       try {
         const params = buildQueryParams(filters);
         params.delete('firm');
+        params.delete('firmLevel');
         const response = await fetch(`/api/fos/analysis?${params.toString()}`, { signal: controller.signal });
         if (!response.ok) throw new Error('Failed to fetch analysis metadata.');
         const payload = await response.json();
@@ -153,6 +156,12 @@ export default function ComparisonPage() {
 
   useEffect(() => () => { requestRef.current?.abort(); }, []);
 
+  const changeFirmLevel = useCallback((firmLevel: FOSFirmLevel) => {
+    // Entity and group labels differ, so a selection made at one level does not carry over.
+    setSelectedFirms([]);
+    setFirmLevel(firmLevel);
+  }, [setFirmLevel]);
+
   const hasEnoughFirms = selectedFirms.length >= 2;
   const metaLine = meta ? `${meta.cached ? 'cache hit' : 'fresh query'} · ${meta.queryMs}ms` : null;
   const helperLine = useMemo(() => {
@@ -197,6 +206,10 @@ export default function ComparisonPage() {
 
       <Card>
         <CardContent className="pt-6">
+          <div className="mb-4 flex items-center gap-2">
+            <span className="text-xs font-medium text-slate-500">Compare by:</span>
+            <FirmLevelToggle firmLevel={filters.firmLevel} onChange={changeFirmLevel} />
+          </div>
           <MultiFirmSelector
             results={firmResults}
             searchQuery={firmQuery}
@@ -256,6 +269,12 @@ export default function ComparisonPage() {
             <p className="mb-4 text-sm text-slate-500">Side-by-side metric comparison with explainers.</p>
             <ComparisonTable firms={snapshot.firms} />
           </section>
+
+          <section>
+            <h2 className="mb-3 text-lg font-semibold text-slate-900">Ombudsman Breakdown</h2>
+            <p className="mb-4 text-sm text-slate-500">Busiest ombudsmen on each firm&apos;s decisions, with small samples suppressed.</p>
+            <OmbudsmanBreakdown firms={snapshot.firms} />
+          </section>
         </>
       )}
     </div>
@@ -0,0 +1,10 @@
+import { RequireAuth } from '@/components/auth/require-auth';
+import { ComplaintWorkloadClient } from '@/components/complaints/ComplaintWorkloadClient';
+
+export default function ComplaintWorkloadPage() {
+  return (
+    <RequireAuth minimumRole="viewer">
+      <ComplaintWorkloadClient />
+    </RequireAuth>
+  );
+}
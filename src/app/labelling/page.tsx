@@ -0,0 +1,10 @@
+import { RequireAuth } from '@/components/auth/require-auth';
+import { LabellingWorkspace } from '@/components/corrections/labelling-workspace';
+
+export default function LabellingPage() {
+  return (
+    <RequireAuth minimumRole="reviewer">
+      <LabellingWorkspace />
+    </RequireAuth>
+  );
+}
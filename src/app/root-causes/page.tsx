@@ -42,6 +42,7 @@ export default function RootCausesPage() {
     toggleYear,
     toggleProduct,
     toggleFirm,
+    toggleOmbudsman,
     toggleTag,
     setYears,
     applySearchQuery,
@@ -211,6 +212,9 @@ export default function RootCausesPage() {
             {filters.firms.map((firm) => (
               <FilterPill key={`firm-${firm}`} label={`Firm: ${firm}`} onClear={() => toggleFirm(firm)} />
             ))}
+            {filters.ombudsmen.map((ombudsman) => (
+              <FilterPill key={`ombudsman-${ombudsman}`} label={`Ombudsman: ${ombudsman}`} onClear={() => toggleOmbudsman(ombudsman)} />
+            ))}
             {filters.tags.map((tag) => (
               <FilterPill key={`tag-${tag}`} label={`Tag: ${tag}`} onClear={() => toggleTag(tag)} />
             ))}
@@ -0,0 +1,10 @@
+import { RequireAuth } from '@/components/auth/require-auth';
+import { DataQualityControls } from '@/components/data-quality/data-quality-controls';
+
+export default function DataQualitySettingsPage() {
+  return (
+    <RequireAuth minimumRole="admin">
+      <DataQualityControls />
+    </RequireAuth>
+  );
+}
@@ -0,0 +1,10 @@
+import { RequireAuth } from '@/components/auth/require-auth';
+import { FirmRegistryControls } from '@/components/firms/firm-registry-controls';
+
+export default function FirmRegistrySettingsPage() {
+  return (
+    <RequireAuth minimumRole="manager">
+      <FirmRegistryControls />
+    </RequireAuth>
+  );
+}
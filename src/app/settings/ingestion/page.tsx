@@ -0,0 +1,10 @@
+import { RequireAuth } from '@/components/auth/require-auth';
+import { IngestionControls } from '@/components/ingestion/ingestion-controls';
+
+export default function IngestionSettingsPage() {
+  return (
+    <RequireAuth minimumRole="admin">
+      <IngestionControls />
+    </RequireAuth>
+  );
+}
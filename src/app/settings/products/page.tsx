@@ -0,0 +1,10 @@
+import { RequireAuth } from '@/components/auth/require-auth';
+import { ProductTaxonomyControls } from '@/components/products/product-taxonomy-controls';
+
+export default function ProductTaxonomySettingsPage() {
+  return (
+    <RequireAuth minimumRole="manager">
+      <ProductTaxonomyControls />
+    </RequireAuth>
+  );
+}
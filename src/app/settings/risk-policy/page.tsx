@@ -0,0 +1,10 @@
+import { RequireAuth } from '@/components/auth/require-auth';
+import { RiskPolicyControls } from '@/components/risk-policy/risk-policy-controls';
+
+export default function RiskPolicySettingsPage() {
+  return (
+    <RequireAuth minimumRole="manager">
+      <RiskPolicyControls />
+    </RequireAuth>
+  );
+}
@@ -0,0 +1,10 @@
+import { RequireAuth } from '@/components/auth/require-auth';
+import { TagRuleControls } from '@/components/tag-rules/tag-rule-controls';
+
+export default function TagRuleSettingsPage() {
+  return (
+    <RequireAuth minimumRole="manager">
+      <TagRuleControls />
+    </RequireAuth>
+  );
+}
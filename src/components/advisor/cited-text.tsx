@@ -0,0 +1,84 @@
+'use client';
+
+import { Fragment } from 'react';
+import { FOSAiCitation, FOSAiGroundingReport } from '@/lib/fos/types';
+
+const BRACKET_SPLIT = /(\[[^\]]+\])/g;
+
+interface CitedTextProps {
+  text: string;
+  citations: FOSAiCitation[];
+  onSelectCase?: (caseId: string) => void;
+  className?: string;
+}
+
+/** Renders AI text with `[DRN-…]` citations as links that open the case detail sheet. */
+export function CitedText({ text, citations, onSelectCase, className }: CitedTextProps) {
+  const byReference = new Map(citations.map((citation) => [citation.decisionReference.toUpperCase(), citation]));
+
+  return (
+    <div className={className ?? 'whitespace-pre-line text-sm leading-relaxed text-slate-700'}>
+      {text.split(BRACKET_SPLIT).map((part, index) => {
+        if (!part.startsWith('[') || !part.endsWith(']')) return <Fragment key={index}>{part}</Fragment>;
+        const references = part.slice(1, -1).split(/[,;]/).map((token) => token.trim());
+        const resolved = references.map((reference) => byReference.get(reference.toUpperCase()));
+        if (resolved.some((citation) => !citation)) return <Fragment key={index}>{part}</Fragment>;
+
+        return (
+          <span key={index} className="whitespace-nowrap text-xs">
+            [
+            {resolved.map((citation, i) => (
+              <Fragment key={citation!.caseId}>
+                {i > 0 && ', '}
+                <button
+                  type="button"
+                  data-testid="ai-citation"
+                  className="font-medium text-blue-700 underline decoration-dotted underline-offset-2 hover:text-blue-900 disabled:no-underline"
+                  disabled={!onSelectCase}
+                  onClick={() => onSelectCase?.(citation!.caseId)}
+                >
+                  {citation!.decisionReference}
+                </button>
+              </Fragment>
+            ))}
+            ]
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+interface AiGroundingNoteProps {
+  report: FOSAiGroundingReport | undefined;
+}
+
+/** One-line citation check result shown under an AI section. */
+export function AiGroundingNote({ report }: AiGroundingNoteProps) {
+  if (!report) return null;
+  const tone =
+    report.status === 'grounded'
+      ? 'text-emerald-700'
+      : report.status === 'partially_grounded'
+        ? 'text-amber-700'
+        : 'text-rose-700';
+  const parts = [`${report.citations.length} cited decision${report.citations.length === 1 ? '' : 's'}`];
+  if (report.uncitedClaims.length > 0) {
+    parts.push(`${report.uncitedClaims.length} uncited statement${report.uncitedClaims.length === 1 ? '' : 's'}`);
+  }
+  if (report.unknownReferences.length > 0) {
+    parts.push(`${report.unknownReferences.length} unverifiable reference${report.unknownReferences.length === 1 ? '' : 's'} removed`);
+  }
+
+  return (
+    <p
+      data-testid="ai-grounding-note"
+      className={`mt-2 text-[11px] ${tone}`}
+      title={report.uncitedClaims.length > 0 ? `Uncited:\n${report.uncitedClaims.join('\n')}` : undefined}
+    >
+      {report.status === 'ungrounded' ? 'Not grounded in cited decisions' : report.status === 'grounded' ? 'Grounded' : 'Partially grounded'}
+      {' · '}
+      {parts.join(' · ')}
+    </p>
+  );
+}
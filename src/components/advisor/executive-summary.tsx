@@ -1,21 +1,24 @@
 'use client';
 
 import { FileText } from 'lucide-react';
+import { FOSAiGroundingReport } from '@/lib/fos/types';
+import { AiGroundingNote, CitedText } from './cited-text';
 
 interface ExecutiveSummaryProps {
   summary: string;
+  grounding?: FOSAiGroundingReport;
+  onSelectCase?: (caseId: string) => void;
 }
 
-export function ExecutiveSummary({ summary }: ExecutiveSummaryProps) {
+export function ExecutiveSummary({ summary, grounding, onSelectCase }: ExecutiveSummaryProps) {
   return (
     <div className="rounded-xl border-l-4 border-amber-500 bg-white p-5 shadow-sm">
       <div className="mb-3 flex items-center gap-2">
         <FileText className="h-4 w-4 text-amber-600" />
         <h3 className="text-sm font-semibold text-slate-900">Executive Summary</h3>
       </div>
-      <div className="whitespace-pre-line text-sm leading-relaxed text-slate-700">
-        {summary}
-      </div>
+      <CitedText text={summary} citations={grounding?.citations || []} onSelectCase={onSelectCase} />
+      <AiGroundingNote report={grounding} />
     </div>
   );
 }
@@ -6,8 +6,10 @@ import { Badge } from '@/components/ui/badge';
 import { Tooltip as UiTooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { FOSAdvisorRiskAssessment } from '@/lib/fos/types';
 import { formatNumber, formatPercent } from '@/lib/utils';
+import { describeRiskPolicy } from '@/lib/risk-policy/policy';
 
 const RISK_STYLES = {
+  insufficient_data: { bg: 'bg-slate-50', border: 'border-slate-200', text: 'text-slate-600', label: 'Insufficient data', icon: CircleHelp },
   low: { bg: 'bg-emerald-50', border: 'border-emerald-200', text: 'text-emerald-700', label: 'Low', icon: ShieldCheck },
   medium: { bg: 'bg-amber-50', border: 'border-amber-200', text: 'text-amber-700', label: 'Medium', icon: Shield },
   high: { bg: 'bg-orange-50', border: 'border-orange-200', text: 'text-orange-700', label: 'High', icon: ShieldAlert },
@@ -51,7 +53,11 @@ export function RiskAssessmentCard({ risk }: RiskAssessmentCardProps) {
                     <CircleHelp className="h-3.5 w-3.5" />
                   </button>
                 </TooltipTrigger>
-                <TooltipContent side="top">Based on similar historical FOS outcomes.</TooltipContent>
+                <TooltipContent side="top">
+                  Based on similar historical FOS outcomes
+                  {risk.adjustedUpheldRate != null ? `, banded on ${formatPercent(risk.adjustedUpheldRate)} after shrinking toward the baseline` : ''}.{' '}
+                  {describeRiskPolicy(risk.riskPolicy)}
+                </TooltipContent>
               </UiTooltip>
             </div>
             <Badge variant="outline" className={style.text}>
@@ -73,6 +79,12 @@ export function RiskAssessmentCard({ risk }: RiskAssessmentCardProps) {
         <div>
           <p className="text-xs text-slate-500">Upheld rate</p>
           <p className="mt-0.5 text-2xl font-semibold text-slate-900">{formatPercent(risk.upheldRate)}</p>
+          {risk.confidenceInterval ? (
+            <p className="mt-0.5 text-[11px] text-slate-500">
+              {Math.round(risk.confidenceInterval.confidence * 100)}% interval {formatPercent(risk.confidenceInterval.lower)}–
+              {formatPercent(risk.confidenceInterval.upper)}
+            </p>
+          ) : null}
         </div>
         <div>
           <p className="text-xs text-slate-500">Not upheld rate</p>
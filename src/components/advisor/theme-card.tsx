@@ -1,15 +1,18 @@
 'use client';
 
-import { FOSAdvisorThemeExtract } from '@/lib/fos/types';
+import { FOSAdvisorThemeExtract, FOSAiGroundingReport } from '@/lib/fos/types';
+import { AiGroundingNote, CitedText } from './cited-text';
 
 interface ThemeCardProps {
   title: string;
   aiNarrative: string | null;
+  aiGrounding?: FOSAiGroundingReport;
   themes: FOSAdvisorThemeExtract[];
   variant: 'wins' | 'loses';
+  onSelectCase?: (caseId: string) => void;
 }
 
-export function ThemeCard({ title, aiNarrative, themes, variant }: ThemeCardProps) {
+export function ThemeCard({ title, aiNarrative, aiGrounding, themes, variant, onSelectCase }: ThemeCardProps) {
   const isWins = variant === 'wins';
   const borderColor = isWins ? 'border-emerald-200' : 'border-rose-200';
   const headerBg = isWins ? 'bg-emerald-50' : 'bg-rose-50';
@@ -27,7 +30,8 @@ export function ThemeCard({ title, aiNarrative, themes, variant }: ThemeCardProp
         {aiNarrative && (
           <div className="mb-4 rounded-lg border border-slate-100 bg-slate-50/50 p-3">
             <p className="mb-1 text-[10px] font-medium uppercase tracking-wider text-slate-400">AI Analysis</p>
-            <div className="text-sm leading-relaxed text-slate-700 whitespace-pre-line">{aiNarrative}</div>
+            <CitedText text={aiNarrative} citations={aiGrounding?.citations || []} onSelectCase={onSelectCase} />
+            <AiGroundingNote report={aiGrounding} />
           </div>
         )}
 
@@ -2,7 +2,9 @@
 
 import {
   ComposedChart,
+  Area,
   Bar,
+  ErrorBar,
   Line,
   XAxis,
   YAxis,
@@ -11,32 +13,98 @@ import {
   ResponsiveContainer,
   Legend,
 } from 'recharts';
+import type { FOSForecast } from '@/lib/fos/types';
 
 interface YearTrendChartProps {
   yearTrend: { year: number; upheldRate: number; total: number }[];
+  forecast?: FOSForecast | null;
 }
 
-export function YearTrendChart({ yearTrend }: YearTrendChartProps) {
+interface YearTrendPoint {
+  year: number;
+  total?: number;
+  upheldRate?: number;
+  projectedTotal?: number;
+  projectedTotalError?: [number, number];
+  projectedRate?: number;
+  projectedRateBand?: [number, number];
+}
+
+const RATE_SERIES = new Set(['Upheld Rate', 'Projected Rate', 'Rate Interval']);
+
+export function YearTrendChart({ yearTrend, forecast }: YearTrendChartProps) {
   if (yearTrend.length === 0) {
     return <p className="py-4 text-center text-sm text-slate-500">Insufficient data for trend chart.</p>;
   }
 
+  const data = buildChartData(yearTrend, forecast ?? null);
+  const hasForecast = data.some((point) => point.projectedTotal != null);
+
   return (
-    <ResponsiveContainer width="100%" height={280}>
-      <ComposedChart data={yearTrend} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
-        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-        <XAxis dataKey="year" className="text-xs" />
-        <YAxis yAxisId="left" orientation="left" className="text-xs" label={{ value: 'Cases', angle: -90, position: 'insideLeft', style: { fontSize: 11 } }} />
-        <YAxis yAxisId="right" orientation="right" domain={[0, 100]} tickFormatter={(v) => `${v}%`} className="text-xs" label={{ value: 'Upheld %', angle: 90, position: 'insideRight', style: { fontSize: 11 } }} />
-        <Tooltip
-          formatter={(value, name) =>
-            name === 'Upheld Rate' ? `${Number(value || 0).toFixed(1)}%` : Number(value || 0).toLocaleString()
-          }
-        />
-        <Legend verticalAlign="top" height={30} formatter={(value: string) => <span className="text-xs">{value}</span>} />
-        <Bar yAxisId="left" dataKey="total" name="Volume" fill="#cbd5e1" radius={[4, 4, 0, 0]} barSize={30} />
-        <Line yAxisId="right" dataKey="upheldRate" name="Upheld Rate" stroke="#f43f5e" strokeWidth={2} dot={{ fill: '#f43f5e', r: 3 }} />
-      </ComposedChart>
-    </ResponsiveContainer>
+    <div className="space-y-2">
+      <ResponsiveContainer width="100%" height={280}>
+        <ComposedChart data={data} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <XAxis dataKey="year" className="text-xs" />
+          <YAxis yAxisId="left" orientation="left" className="text-xs" label={{ value: 'Cases', angle: -90, position: 'insideLeft', style: { fontSize: 11 } }} />
+          <YAxis yAxisId="right" orientation="right" domain={[0, 100]} tickFormatter={(v) => `${v}%`} className="text-xs" label={{ value: 'Upheld %', angle: 90, position: 'insideRight', style: { fontSize: 11 } }} />
+          <Tooltip
+            formatter={(value, name) => {
+              const format = RATE_SERIES.has(String(name))
+                ? (v: unknown) => `${Number(v || 0).toFixed(1)}%`
+                : (v: unknown) => Number(v || 0).toLocaleString();
+              return Array.isArray(value) ? `${format(value[0])}–${format(value[1])}` : format(value);
+            }}
+          />
+          <Legend verticalAlign="top" height={30} formatter={(value: string) => <span className="text-xs">{value}</span>} />
+          <Bar yAxisId="left" dataKey="total" name="Volume" fill="#cbd5e1" radius={[4, 4, 0, 0]} barSize={30} />
+          {hasForecast && (
+            <Bar yAxisId="left" dataKey="projectedTotal" name="Projected Volume" fill="#e2e8f0" stroke="#94a3b8" strokeDasharray="4 3" radius={[4, 4, 0, 0]} barSize={30}>
+              <ErrorBar dataKey="projectedTotalError" width={6} stroke="#64748b" />
+            </Bar>
+          )}
+          {hasForecast && (
+            <Area yAxisId="right" dataKey="projectedRateBand" name="Rate Interval" stroke="none" fill="#f43f5e" fillOpacity={0.12} isAnimationActive={false} legendType="none" />
+          )}
+          <Line yAxisId="right" dataKey="upheldRate" name="Upheld Rate" stroke="#f43f5e" strokeWidth={2} dot={{ fill: '#f43f5e', r: 3 }} />
+          {hasForecast && (
+            <Line yAxisId="right" dataKey="projectedRate" name="Projected Rate" stroke="#f43f5e" strokeWidth={2} strokeDasharray="6 4" dot={{ fill: '#f43f5e', r: 3 }} isAnimationActive={false} />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+      {hasForecast && forecast && (
+        <p className="text-xs text-slate-500">
+          Projections show full calendar years with a {Math.round(forecast.intervalLevel * 100)}% prediction interval, fitted on{' '}
+          {forecast.historyQuarters} complete quarters to {forecast.lastCompleteQuarter}.
+        </p>
+      )}
+    </div>
   );
 }
+
+/** Anchors the projected rate on the last year before the forecast so the dashed line continues the actuals. */
+function buildChartData(
+  yearTrend: YearTrendChartProps['yearTrend'],
+  forecast: FOSForecast | null
+): YearTrendPoint[] {
+  const points = new Map<number, YearTrendPoint>(yearTrend.map((row) => [row.year, { ...row }]));
+  if (!forecast || forecast.years.length === 0) {
+    return Array.from(points.values());
+  }
+
+  const anchor = points.get(forecast.years[0].year - 1);
+  if (anchor?.upheldRate != null) {
+    anchor.projectedRate = anchor.upheldRate;
+    anchor.projectedRateBand = [anchor.upheldRate, anchor.upheldRate];
+  }
+  for (const year of forecast.years) {
+    const point = points.get(year.year) ?? { year: year.year };
+    point.projectedTotal = year.total.value;
+    point.projectedTotalError = [year.total.value - year.total.lower, year.total.upper - year.total.value];
+    point.projectedRate = year.upheldRate.value;
+    point.projectedRateBand = [year.upheldRate.lower, year.upheldRate.upper];
+    points.set(year.year, point);
+  }
+
+  return Array.from(points.values()).sort((a, b) => a.year - b.year);
+}
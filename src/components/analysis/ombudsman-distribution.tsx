@@ -0,0 +1,86 @@
+'use client';
+
+import { useMemo } from 'react';
+import { EmptyState } from '@/components/shared/empty-state';
+import { OMBUDSMAN_MIN_DECISIONS } from '@/lib/fos/constants';
+import type { FOSOmbudsmanStat } from '@/lib/fos/types';
+import { formatNumber, formatPercent } from '@/lib/utils';
+
+interface OmbudsmanDistributionProps {
+  ombudsmen: FOSOmbudsmanStat[];
+  activeOmbudsmen: string[];
+  onToggleOmbudsman: (ombudsman: string) => void;
+}
+
+export function OmbudsmanDistribution({
+  ombudsmen,
+  activeOmbudsmen,
+  onToggleOmbudsman,
+}: OmbudsmanDistributionProps) {
+  const rows = useMemo(() => ombudsmen.slice().sort((a, b) => b.total - a.total).slice(0, 25), [ombudsmen]);
+  const maxTotal = rows[0]?.total || 0;
+  const suppressedCount = ombudsmen.filter((row) => row.suppressed).length;
+
+  if (rows.length === 0) {
+    return <EmptyState label="No ombudsman data under current filters." />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-[420px] overflow-y-auto">
+        <table className="w-full text-left text-xs" data-testid="ombudsman-distribution">
+          <thead className="sticky top-0 bg-white text-slate-500">
+            <tr>
+              <th className="py-2 pr-3 font-medium">Ombudsman</th>
+              <th className="py-2 pr-3 font-medium">Decisions</th>
+              <th className="py-2 pr-3 text-right font-medium">Upheld</th>
+              <th className="py-2 text-right font-medium">Not upheld</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map((row) => {
+              const active = activeOmbudsmen.includes(row.ombudsman);
+              return (
+                <tr
+                  key={row.ombudsman}
+                  onClick={() => onToggleOmbudsman(row.ombudsman)}
+                  className={`cursor-pointer transition hover:bg-slate-50 ${active ? 'bg-blue-50' : ''} ${
+                    activeOmbudsmen.length > 0 && !active ? 'opacity-40' : ''
+                  }`}
+                >
+                  <td className="py-2 pr-3 font-medium text-slate-800">{row.ombudsman}</td>
+                  <td className="py-2 pr-3">
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 w-24 overflow-hidden rounded-full bg-slate-100">
+                        <div
+                          className="h-full rounded-full bg-cyan-500"
+                          style={{ width: `${maxTotal ? (row.total / maxTotal) * 100 : 0}%` }}
+                        />
+                      </div>
+                      <span className="tabular-nums text-slate-600">{formatNumber(row.total)}</span>
+                    </div>
+                  </td>
+                  {row.suppressed || row.upheldRate == null || row.notUpheldRate == null ? (
+                    <td colSpan={2} className="py-2 text-right text-slate-400">
+                      Below {OMBUDSMAN_MIN_DECISIONS} decisions
+                    </td>
+                  ) : (
+                    <>
+                      <td className="py-2 pr-3 text-right tabular-nums text-emerald-700">{formatPercent(row.upheldRate)}</td>
+                      <td className="py-2 text-right tabular-nums text-rose-700">{formatPercent(row.notUpheldRate)}</td>
+                    </>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-500">
+        Rates are withheld for ombudsmen with fewer than {OMBUDSMAN_MIN_DECISIONS} decisions in scope
+        {suppressedCount > 0 ? ` (${formatNumber(suppressedCount)} shown by volume only)` : ''}. Individual rates reflect the
+        cases allocated to each ombudsman, not their relative strictness.
+      </p>
+    </div>
+  );
+}
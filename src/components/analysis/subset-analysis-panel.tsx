@@ -107,6 +107,16 @@ export function SubsetAnalysisPanel({ filters, totalCases }: SubsetAnalysisPanel
           <span className="rounded-full border border-teal-200 bg-teal-50 px-2 py-0.5 text-[10px] font-medium text-teal-700">
             {synthesis.totalCases.toLocaleString()} decisions · {synthesis.upheldRate.toFixed(1)}% upheld
           </span>
+          {synthesis.generation?.degraded && (
+            <span data-testid="synthesis-degraded" className="rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-[10px] font-medium text-amber-700">
+              Statistics only · AI unavailable
+            </span>
+          )}
+          {synthesis.generation?.cached && (
+            <span className="rounded-full border border-slate-200 bg-slate-50 px-2 py-0.5 text-[10px] font-medium text-slate-600">
+              Cached
+            </span>
+          )}
         </div>
         <div className="prose prose-sm prose-slate max-w-none">
           {synthesis.narrative.split('\n').map((line, i) => {
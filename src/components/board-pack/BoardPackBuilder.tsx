@@ -23,6 +23,7 @@ export function BoardPackBuilder() {
     includeOperationalComplaints: true,
     includeComparison: true,
     includeRootCauseDeepDive: true,
+    includeForecast: true,
     includeAppendix: true,
     executiveSummaryNote: '',
     boardFocusNote: '',
@@ -45,6 +46,7 @@ export function BoardPackBuilder() {
     params.set('includeOperationalComplaints', String(form.includeOperationalComplaints));
     params.set('includeComparison', String(form.includeComparison));
     params.set('includeRootCauseDeepDive', String(form.includeRootCauseDeepDive));
+    params.set('includeForecast', String(form.includeForecast));
     params.set('includeAppendix', String(form.includeAppendix));
     return params.toString();
   }, [form]);
@@ -224,6 +226,7 @@ export function BoardPackBuilder() {
             <Toggle label="Include operational complaints section" checked={form.includeOperationalComplaints} onChange={(checked) => setForm((current) => ({ ...current, includeOperationalComplaints: checked }))} />
             <Toggle label="Include comparison section" checked={form.includeComparison} onChange={(checked) => setForm((current) => ({ ...current, includeComparison: checked }))} />
             <Toggle label="Include root-cause deep dive" checked={form.includeRootCauseDeepDive} onChange={(checked) => setForm((current) => ({ ...current, includeRootCauseDeepDive: checked }))} />
+            <Toggle label="Include outlook and forecast" checked={form.includeForecast} onChange={(checked) => setForm((current) => ({ ...current, includeForecast: checked }))} />
             <Toggle label="Include appendix" checked={form.includeAppendix} onChange={(checked) => setForm((current) => ({ ...current, includeAppendix: checked }))} />
           </CardContent>
         </Card>
@@ -365,6 +368,7 @@ function templateDefaults(templateKey: BoardPackTemplateKey): Partial<Omit<Board
         title: 'Risk Committee Complaints Pack',
         includeComparison: false,
         includeRootCauseDeepDive: true,
+        includeForecast: true,
         includeOperationalComplaints: true,
         includeAppendix: true,
       };
@@ -373,6 +377,7 @@ function templateDefaults(templateKey: BoardPackTemplateKey): Partial<Omit<Board
         title: 'Executive Complaints Pack',
         includeComparison: true,
         includeRootCauseDeepDive: false,
+        includeForecast: true,
         includeOperationalComplaints: true,
         includeAppendix: true,
       };
@@ -381,6 +386,7 @@ function templateDefaults(templateKey: BoardPackTemplateKey): Partial<Omit<Board
         title: 'Complaints MI Pack',
         includeComparison: false,
         includeRootCauseDeepDive: true,
+        includeForecast: false,
         includeOperationalComplaints: true,
         includeAppendix: true,
       };
@@ -390,6 +396,7 @@ function templateDefaults(templateKey: BoardPackTemplateKey): Partial<Omit<Board
         title: 'FOS Complaints Board Pack',
         includeComparison: true,
         includeRootCauseDeepDive: true,
+        includeForecast: true,
         includeOperationalComplaints: true,
         includeAppendix: true,
       };
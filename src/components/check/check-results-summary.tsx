@@ -15,7 +15,7 @@ export function CheckResultsSummary({
   overlayScope,
 }: {
   upheldRate: number;
-  upholdRiskLevel: 'low' | 'medium' | 'high' | 'very_high';
+  upholdRiskLevel: 'insufficient_data' | 'low' | 'medium' | 'high' | 'very_high';
   sampleSize: number;
   overallUpheldRate: number;
   firmName?: string | null;
@@ -1,7 +1,12 @@
 'use client';
 
+import type { UpholdRiskInterval } from '@/lib/risk-policy/types';
+
 interface ConfidenceBadgeProps {
   sampleSize: number;
+  interval?: UpholdRiskInterval | null;
+  /** Risk policy sample floor; below it the helper explains why no band was assigned. */
+  minimumSampleSize?: number;
 }
 
 type ConfidenceLevel = 'very_low' | 'low' | 'moderate' | 'high';
@@ -13,8 +18,9 @@ const LEVELS: { min: number; level: ConfidenceLevel; label: string; className: s
   { min: 0, level: 'very_low', label: 'Very low confidence', className: 'border-slate-200 bg-slate-50 text-slate-700', helper: 'Very limited comparable history.' },
 ];
 
-export function ConfidenceBadge({ sampleSize }: ConfidenceBadgeProps) {
+export function ConfidenceBadge({ sampleSize, interval, minimumSampleSize }: ConfidenceBadgeProps) {
   const conf = LEVELS.find((l) => sampleSize >= l.min) || LEVELS[LEVELS.length - 1];
+  const belowFloor = minimumSampleSize != null && sampleSize < minimumSampleSize;
 
   return (
     <div className={`rounded-[1.5rem] border p-4 ${conf.className}`}>
@@ -25,7 +31,27 @@ export function ConfidenceBadge({ sampleSize }: ConfidenceBadgeProps) {
           {sampleSize.toLocaleString()} decisions
         </span>
       </div>
-      <p className="mt-3 text-sm leading-6 opacity-90">{conf.helper}</p>
+      {interval ? (
+        <div className="mt-3">
+          <div className="flex items-center justify-between text-xs font-medium">
+            <span>{Math.round(interval.confidence * 100)}% interval</span>
+            <span>
+              {interval.lower.toFixed(1)}–{interval.upper.toFixed(1)}%
+            </span>
+          </div>
+          <div className="relative mt-1.5 h-2 w-full rounded-full bg-white/70">
+            <div
+              className="absolute inset-y-0 rounded-full bg-current opacity-50"
+              style={{ left: `${interval.lower}%`, width: `${Math.max(interval.upper - interval.lower, 1)}%` }}
+            />
+          </div>
+        </div>
+      ) : null}
+      <p className="mt-3 text-sm leading-6 opacity-90">
+        {belowFloor
+          ? `Below the ${minimumSampleSize}-decision floor in the risk policy, so no Uphold Risk band is assigned.`
+          : conf.helper}
+      </p>
     </div>
   );
 }
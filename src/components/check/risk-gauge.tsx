@@ -1,13 +1,17 @@
 'use client';
 
-type UpholdRiskLevel = 'low' | 'medium' | 'high' | 'very_high';
+import { DEFAULT_UPHOLD_RISK_THRESHOLDS } from '@/lib/risk-policy/policy';
+import type { UpholdRiskInterval, UpholdRiskLevel, UpholdRiskThresholds } from '@/lib/risk-policy/types';
 
 interface RiskGaugeProps {
   upheldRate: number;
   upholdRiskLevel: UpholdRiskLevel;
+  thresholds?: UpholdRiskThresholds;
+  interval?: UpholdRiskInterval | null;
 }
 
 const RISK_LABELS: Record<UpholdRiskLevel, string> = {
+  insufficient_data: 'Insufficient data',
   low: 'Low',
   medium: 'Medium',
   high: 'High',
@@ -15,13 +19,14 @@ const RISK_LABELS: Record<UpholdRiskLevel, string> = {
 };
 
 const RISK_COLORS: Record<UpholdRiskLevel, string> = {
+  insufficient_data: '#64748b',
   low: '#10b981',
   medium: '#f59e0b',
   high: '#f97316',
   very_high: '#ef4444',
 };
 
-export function RiskGauge({ upheldRate, upholdRiskLevel }: RiskGaugeProps) {
+export function RiskGauge({ upheldRate, upholdRiskLevel, thresholds = DEFAULT_UPHOLD_RISK_THRESHOLDS, interval }: RiskGaugeProps) {
   const rate = Math.max(0, Math.min(100, Number(upheldRate) || 0));
   const needleColor = RISK_COLORS[upholdRiskLevel];
   const cx = 160;
@@ -30,25 +35,25 @@ export function RiskGauge({ upheldRate, upholdRiskLevel }: RiskGaugeProps) {
   const startAngle = Math.PI;
 
   const zones: { from: number; to: number; color: string }[] = [
-    { from: 0, to: 30, color: '#10b981' },
-    { from: 30, to: 45, color: '#f59e0b' },
-    { from: 45, to: 60, color: '#f97316' },
-    { from: 60, to: 100, color: '#ef4444' },
+    { from: 0, to: thresholds.medium, color: '#10b981' },
+    { from: thresholds.medium, to: thresholds.high, color: '#f59e0b' },
+    { from: thresholds.high, to: thresholds.veryHigh, color: '#f97316' },
+    { from: thresholds.veryHigh, to: 100, color: '#ef4444' },
   ];
 
   function pctToAngle(pct: number): number {
     return startAngle - (pct / 100) * Math.PI;
   }
 
-  function arcPath(fromPct: number, toPct: number): string {
+  function arcPath(fromPct: number, toPct: number, radius = r): string {
     const a1 = pctToAngle(fromPct);
     const a2 = pctToAngle(toPct);
-    const x1 = cx + r * Math.cos(a1);
-    const y1 = cy + r * Math.sin(a1);
-    const x2 = cx + r * Math.cos(a2);
-    const y2 = cy + r * Math.sin(a2);
+    const x1 = cx + radius * Math.cos(a1);
+    const y1 = cy + radius * Math.sin(a1);
+    const x2 = cx + radius * Math.cos(a2);
+    const y2 = cy + radius * Math.sin(a2);
     const largeArc = toPct - fromPct > 50 ? 1 : 0;
-    return `M ${x1} ${y1} A ${r} ${r} 0 ${largeArc} 0 ${x2} ${y2}`;
+    return `M ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 0 ${x2} ${y2}`;
   }
 
   const needleAngle = pctToAngle(rate);
@@ -84,6 +89,18 @@ export function RiskGauge({ upheldRate, upholdRiskLevel }: RiskGaugeProps) {
               opacity={0.88}
             />
           ))}
+          {interval && interval.upper > interval.lower ? (
+            <path
+              d={arcPath(interval.lower, interval.upper, r - 19)}
+              fill="none"
+              stroke="#0f172a"
+              strokeWidth={6}
+              strokeLinecap="round"
+              opacity={0.28}
+            >
+              <title>{`${Math.round(interval.confidence * 100)}% interval: ${interval.lower.toFixed(1)}–${interval.upper.toFixed(1)}%`}</title>
+            </path>
+          ) : null}
           <line x1={cx} y1={cy} x2={nx} y2={ny} stroke={needleColor} strokeWidth={3.5} strokeLinecap="round" />
           <circle cx={cx} cy={cy} r={7} fill={needleColor} />
           <circle cx={cx} cy={cy} r={3.5} fill="white" />
@@ -96,6 +113,11 @@ export function RiskGauge({ upheldRate, upholdRiskLevel }: RiskGaugeProps) {
           <text x="32" y={cy + 18} textAnchor="middle" fill="#94a3b8" fontSize={10}>0%</text>
           <text x="288" y={cy + 18} textAnchor="middle" fill="#94a3b8" fontSize={10}>100%</text>
         </svg>
+        {interval ? (
+          <p className="mt-1 text-xs font-medium text-slate-500">
+            {Math.round(interval.confidence * 100)}% interval {interval.lower.toFixed(1)}–{interval.upper.toFixed(1)}%
+          </p>
+        ) : null}
         <p className="mt-2 max-w-xs text-center text-sm leading-6 text-slate-600">
           Based on similar historical FOS outcomes. Use it as a decision-support signal, not as the final complaint answer.
         </p>
@@ -0,0 +1,72 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { FOSFirmComparisonData } from '@/lib/fos/types';
+import { EmptyState } from '@/components/shared/empty-state';
+import { OMBUDSMAN_MIN_DECISIONS } from '@/lib/fos/constants';
+import { formatNumber, formatPercent } from '@/lib/utils';
+
+const FIRM_COLORS = ['#3b82f6', '#8b5cf6', '#f59e0b', '#10b981', '#f43f5e'];
+
+interface OmbudsmanBreakdownProps {
+  firms: FOSFirmComparisonData[];
+}
+
+export function OmbudsmanBreakdown({ firms }: OmbudsmanBreakdownProps) {
+  if (firms.every((f) => f.ombudsmanBreakdown.length === 0)) {
+    return <EmptyState label="No ombudsman data available for selected firms." />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {firms.map((firm, i) => (
+          <Card key={firm.name}>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: FIRM_COLORS[i % FIRM_COLORS.length] }} />
+                {firm.name}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {firm.ombudsmanBreakdown.length === 0 ? (
+                <p className="text-sm text-slate-500">No decisions in scope.</p>
+              ) : (
+                <table className="w-full text-left text-xs">
+                  <thead className="text-slate-500">
+                    <tr>
+                      <th className="py-1.5 pr-2 font-medium">Ombudsman</th>
+                      <th className="py-1.5 pr-2 text-right font-medium">Decisions</th>
+                      <th className="py-1.5 text-right font-medium">Upheld</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {firm.ombudsmanBreakdown.map((row) => (
+                      <tr key={row.ombudsman}>
+                        <td className="py-1.5 pr-2 text-slate-800">{row.ombudsman}</td>
+                        <td className="py-1.5 pr-2 text-right tabular-nums text-slate-600">{formatNumber(row.total)}</td>
+                        <td className="py-1.5 text-right tabular-nums">
+                          {row.upheldRate == null ? (
+                            <span className="text-slate-400" title={`Fewer than ${OMBUDSMAN_MIN_DECISIONS} decisions`}>
+                              —
+                            </span>
+                          ) : (
+                            formatPercent(row.upheldRate)
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">
+        Uphold rates are shown only where an ombudsman decided at least {OMBUDSMAN_MIN_DECISIONS} of the firm&apos;s
+        cases in scope.
+      </p>
+    </div>
+  );
+}
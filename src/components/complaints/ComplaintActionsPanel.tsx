@@ -100,8 +100,9 @@ export function ComplaintActionsPanel({
                 Next milestone: {slaSummary.nextMilestoneLabel || 'None'}
                 {slaSummary.nextMilestoneDate ? ` · ${formatDate(slaSummary.nextMilestoneDate)}` : ''}
               </p>
-              {slaSummary.overdue ? <p className="font-semibold text-rose-600">Eight-week deadline has passed.</p> : null}
-              {!slaSummary.overdue && slaSummary.atRisk ? <p className="font-semibold text-amber-600">Eight-week deadline is within 7 days.</p> : null}
+              {slaSummary.clockPausedSince ? <p className="font-semibold text-slate-700">Complaint clock paused since {formatDate(slaSummary.clockPausedSince)}.</p> : null}
+              {slaSummary.overdue ? <p className="font-semibold text-rose-600">{slaSummary.finalLabel} deadline has passed.</p> : null}
+              {!slaSummary.overdue && slaSummary.atRisk ? <p className="font-semibold text-amber-600">{slaSummary.finalLabel} deadline is within 7 days.</p> : null}
             </div>
           ) : null}
         </div>
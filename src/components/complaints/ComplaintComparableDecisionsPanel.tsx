@@ -0,0 +1,195 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Loader2, Pin, PinOff, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/components/auth/auth-provider';
+import { OUTCOME_LABELS } from '@/lib/fos/constants';
+import type { ComplaintPinnedDecision, ComplaintRecord } from '@/lib/complaints/types';
+import type { FOSOutcome, FOSSimilarCase } from '@/lib/fos/types';
+import { formatDate, truncate } from '@/lib/utils';
+
+export function ComplaintComparableDecisionsPanel({
+  complaint,
+  pinnedDecisions,
+  onRefresh,
+}: {
+  complaint: ComplaintRecord;
+  pinnedDecisions: ComplaintPinnedDecision[];
+  onRefresh: () => Promise<void>;
+}) {
+  const { user } = useAuth();
+  const canPin = Boolean(user && ['operator', 'reviewer', 'manager', 'admin'].includes(user.role));
+  const [text, setText] = useState(complaint.description || '');
+  const [product, setProduct] = useState(complaint.product || '');
+  const [rootCause, setRootCause] = useState(complaint.rootCause || '');
+  const [results, setResults] = useState<FOSSimilarCase[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const pinnedIds = useMemo(() => new Set(pinnedDecisions.map((item) => item.caseId)), [pinnedDecisions]);
+
+  async function search() {
+    if (!text.trim()) return;
+    setSearching(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/complaints/${complaint.id}/comparable-decisions/search`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text, product, rootCause }),
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(payload.error || 'Failed to search comparable decisions.');
+      setResults(payload.data?.cases || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search comparable decisions.');
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  async function pin(caseId: string) {
+    setSaving(caseId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/complaints/${complaint.id}/comparable-decisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ caseId }),
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(payload.error || 'Failed to pin decision.');
+      await onRefresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to pin decision.');
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  async function unpin(caseId: string) {
+    setSaving(caseId);
+    setError(null);
+    try {
+      const response = await fetch(`/api/complaints/${complaint.id}/comparable-decisions/${encodeURIComponent(caseId)}`, {
+        method: 'DELETE',
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(payload.error || 'Failed to unpin decision.');
+      await onRefresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unpin decision.');
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Comparable FOS decisions</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          <textarea
+            data-testid="comparable-text-input"
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            rows={4}
+            placeholder="Describe the complaint in your own words"
+            className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          />
+          <div className="grid gap-3 md:grid-cols-2">
+            <input value={product} onChange={(event) => setProduct(event.target.value)} placeholder="Product" className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm" />
+            <input value={rootCause} onChange={(event) => setRootCause(event.target.value)} placeholder="Root cause" className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm" />
+          </div>
+          <Button data-testid="comparable-search-button" className="gap-2" onClick={() => void search()} disabled={searching || !text.trim()}>
+            {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            Find decisions like this complaint
+          </Button>
+        </div>
+
+        {error ? <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div> : null}
+
+        <div className="space-y-2" data-testid="pinned-decisions-list">
+          <p className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Pinned to this complaint</p>
+          {pinnedDecisions.length === 0 ? (
+            <p className="text-sm text-slate-500">No decisions pinned yet. Pinned decisions are cited first in letter intelligence.</p>
+          ) : pinnedDecisions.map((item) => (
+            <div key={item.id} data-testid="pinned-decision-card" className="flex items-start justify-between gap-3 rounded-2xl border border-blue-100 bg-blue-50/40 px-4 py-3">
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-semibold text-slate-900">{item.decisionReference}</span>
+                  <Badge variant="outline">{formatOutcome(item.outcome)}</Badge>
+                </div>
+                <p className="mt-0.5 text-xs text-slate-500">
+                  {item.decisionDate ? formatDate(item.decisionDate) : 'n/a'} · {item.firmName || 'Unknown firm'} · {item.productGroup || 'Unspecified'}
+                </p>
+                {item.decisionSummary ? <p className="mt-1 text-xs text-slate-600">{truncate(item.decisionSummary, 160)}</p> : null}
+                {item.note ? <p className="mt-1 text-xs italic text-slate-500">{item.note}</p> : null}
+              </div>
+              {canPin ? (
+                <Button size="sm" variant="outline" className="gap-2" onClick={() => void unpin(item.caseId)} disabled={saving === item.caseId} data-testid={`unpin-decision-${item.caseId}`}>
+                  {saving === item.caseId ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <PinOff className="h-3.5 w-3.5" />}
+                  Unpin
+                </Button>
+              ) : null}
+            </div>
+          ))}
+        </div>
+
+        {results ? (
+          <div className="space-y-2" data-testid="comparable-results">
+            <p className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Search results</p>
+            {results.length === 0 ? (
+              <p className="text-sm text-slate-500">No published decisions matched closely enough. Try adding more detail.</p>
+            ) : results.map((item) => (
+              <div key={item.caseId} data-testid="comparable-result-card" className="flex items-start justify-between gap-3 rounded-2xl border border-slate-200 bg-white px-4 py-3">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-semibold text-slate-900">{item.decisionReference || item.caseId}</span>
+                    <Badge variant="outline">{formatOutcome(item.outcome)}</Badge>
+                    <span className="rounded-full bg-indigo-50 px-2 py-0.5 text-[10px] font-medium text-indigo-600">Score {item.similarityScore}</span>
+                  </div>
+                  <p className="mt-0.5 text-xs text-slate-500">
+                    {item.decisionDate ? formatDate(item.decisionDate) : 'n/a'} · {item.firmName || 'Unknown firm'} · {item.productGroup || 'Unspecified'}
+                  </p>
+                  {item.decisionSummary ? <p className="mt-1 text-xs text-slate-600">{truncate(item.decisionSummary, 160)}</p> : null}
+                  {item.signals.length > 0 ? (
+                    <div className="mt-1.5 flex flex-wrap gap-1">
+                      {item.signals.map((signal) => (
+                        <span key={signal.kind} title={signal.matches?.join(', ')} className="rounded-full bg-slate-100 px-2 py-0.5 text-[10px] font-medium text-slate-600">
+                          {signal.label} +{signal.contribution}
+                        </span>
+                      ))}
+                    </div>
+                  ) : null}
+                </div>
+                {canPin ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-2"
+                    onClick={() => void pin(item.caseId)}
+                    disabled={saving === item.caseId || pinnedIds.has(item.caseId)}
+                    data-testid={`pin-decision-${item.caseId}`}
+                  >
+                    {saving === item.caseId ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Pin className="h-3.5 w-3.5" />}
+                    {pinnedIds.has(item.caseId) ? 'Pinned' : 'Pin'}
+                  </Button>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+function formatOutcome(outcome: string): string {
+  return OUTCOME_LABELS[outcome as FOSOutcome] || outcome.replace(/_/g, ' ');
+}
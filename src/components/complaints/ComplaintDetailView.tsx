@@ -9,9 +9,11 @@ import { ComplaintTimeline } from './ComplaintTimeline';
 import { DeadlineTracker } from './DeadlineTracker';
 import { QuickActions } from './QuickActions';
 import { ComplaintActionsPanel } from './ComplaintActionsPanel';
+import { ComplaintComparableDecisionsPanel } from './ComplaintComparableDecisionsPanel';
 import { ComplaintEvidencePanel } from './ComplaintEvidencePanel';
 import { ComplaintLettersPanel } from './ComplaintLettersPanel';
-import type { ComplaintAction, ComplaintActivity, ComplaintEvidence, ComplaintLetter, ComplaintRecord } from '@/lib/complaints/types';
+import { OperationalRiskBadge } from './OperationalRiskBadge';
+import type { ComplaintAction, ComplaintActivity, ComplaintEvidence, ComplaintLetter, ComplaintPinnedDecision, ComplaintQueue, ComplaintRecord } from '@/lib/complaints/types';
 import { formatDate, formatDateTime, formatNumber } from '@/lib/utils';
 
 interface ComplaintPayload extends ComplaintRecord {
@@ -19,6 +21,7 @@ interface ComplaintPayload extends ComplaintRecord {
   evidence?: ComplaintEvidence[];
   letters?: ComplaintLetter[];
   actions?: ComplaintAction[];
+  pinnedDecisions?: ComplaintPinnedDecision[];
 }
 
 export function ComplaintDetailView({ complaintId }: { complaintId: string }) {
@@ -26,6 +29,7 @@ export function ComplaintDetailView({ complaintId }: { complaintId: string }) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'overview' | 'timeline' | 'evidence' | 'letters'>('overview');
+  const [queues, setQueues] = useState<ComplaintQueue[]>([]);
 
   const fetchComplaint = useCallback(async () => {
     setLoading(true);
@@ -48,6 +52,13 @@ export function ComplaintDetailView({ complaintId }: { complaintId: string }) {
     void fetchComplaint();
   }, [fetchComplaint]);
 
+  useEffect(() => {
+    void fetch('/api/complaints/queues')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload) => setQueues(payload?.queues || []))
+      .catch(() => undefined);
+  }, []);
+
   const statusTone = useMemo(() => {
     switch (complaint?.status) {
       case 'resolved':
@@ -92,6 +103,7 @@ export function ComplaintDetailView({ complaintId }: { complaintId: string }) {
         <div className="flex flex-wrap items-center gap-2">
           <Badge className={statusTone}>{complaint.status.replace(/_/g, ' ')}</Badge>
           <Badge variant="outline">{complaint.priority}</Badge>
+          <OperationalRiskBadge risk={complaint.operationalRisk} showScore />
           {complaint.fosReferred ? <Badge className="bg-rose-100 text-rose-700"><Scale className="mr-1 h-3.5 w-3.5" />FOS referred</Badge> : null}
         </div>
       </div>
@@ -118,9 +130,15 @@ export function ComplaintDetailView({ complaintId }: { complaintId: string }) {
                   <Row label="Received" value={formatDate(complaint.receivedDate)} />
                   <Row label="Product" value={complaint.product || 'Unspecified'} />
                   <Row label="Assigned owner" value={complaint.assignedTo || 'Unassigned'} />
+                  <Row label="Queue" value={queues.find((queue) => queue.id === complaint.queueId)?.name || (complaint.queueId ? 'Loading' : 'No queue')} />
                   <Row label="Root cause" value={complaint.rootCause || 'Not yet classified'} />
                   <Row label="Updated" value={formatDateTime(complaint.updatedAt)} />
                   {complaint.linkedFosCaseId ? <Row label="Linked FOS case" value={complaint.linkedFosCaseId} /> : null}
+                  {complaint.linkedFosRevisedAt ? (
+                    <p className="rounded-lg bg-amber-50 p-2 text-xs text-amber-800" data-testid="complaint-linked-revised">
+                      FOS republished the linked decision on {formatDate(complaint.linkedFosRevisedAt)}. Check it still supports this complaint.
+                    </p>
+                  ) : null}
                 </CardContent>
               </Card>
 
@@ -141,6 +159,10 @@ export function ComplaintDetailView({ complaintId }: { complaintId: string }) {
                   </div>
                 </CardContent>
               </Card>
+
+              <div className="md:col-span-2">
+                <ComplaintComparableDecisionsPanel complaint={complaint} pinnedDecisions={complaint.pinnedDecisions || []} onRefresh={fetchComplaint} />
+              </div>
             </div>
           ) : null}
 
@@ -153,12 +175,15 @@ export function ComplaintDetailView({ complaintId }: { complaintId: string }) {
 
         <div className="space-y-5">
           <DeadlineTracker
+            complaintId={complaint.id}
+            complaintType={complaint.complaintType}
             receivedDate={complaint.receivedDate}
             fourWeekDueDate={complaint.fourWeekDueDate}
             eightWeekDueDate={complaint.eightWeekDueDate}
             finalResponseDate={complaint.finalResponseDate}
             resolvedDate={complaint.resolvedDate}
             slaSummary={complaint.slaSummary || null}
+            onRefresh={fetchComplaint}
           />
           <ComplaintActionsPanel complaintId={complaint.id} actions={complaint.actions || []} slaSummary={complaint.slaSummary || null} onRefresh={fetchComplaint} />
           <QuickActions complaint={complaint} onRefresh={fetchComplaint} />
@@ -10,7 +10,15 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import type { ComplaintPriority, ComplaintRecord, ComplaintStatus } from '@/lib/complaints/types';
+import {
+  COMPLAINT_TYPES,
+  type ComplaintHandler,
+  type ComplaintPriority,
+  type ComplaintQueue,
+  type ComplaintRecord,
+  type ComplaintStatus,
+  type ComplaintType,
+} from '@/lib/complaints/types';
 
 const STATUS_OPTIONS: ComplaintStatus[] = ['open', 'investigating', 'escalated', 'referred_to_fos', 'resolved', 'closed'];
 const PRIORITY_OPTIONS: ComplaintPriority[] = ['low', 'medium', 'high', 'urgent'];
@@ -29,15 +37,30 @@ export function ComplaintFormDialog({ open, onOpenChange, record, onSaved }: Com
     complainantName: '',
     firmName: '',
     product: '',
+    complaintType: 'standard' as ComplaintType,
     receivedDate: new Date().toISOString().slice(0, 10),
     status: 'open' as ComplaintStatus,
     priority: 'medium' as ComplaintPriority,
     description: '',
     rootCause: '',
-    assignedTo: '',
+    assignedUserId: '',
+    queueId: '',
     fosReferred: false,
     notes: '',
   });
+  const [handlers, setHandlers] = useState<ComplaintHandler[]>([]);
+  const [queues, setQueues] = useState<ComplaintQueue[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    void Promise.all([
+      fetch('/api/complaints/handlers').then((response) => (response.ok ? response.json() : null)),
+      fetch('/api/complaints/queues').then((response) => (response.ok ? response.json() : null)),
+    ]).then(([handlerPayload, queuePayload]) => {
+      setHandlers(handlerPayload?.handlers || []);
+      setQueues(queuePayload?.queues || []);
+    }).catch(() => undefined);
+  }, [open]);
 
   useEffect(() => {
     if (!open) return;
@@ -47,12 +70,14 @@ export function ComplaintFormDialog({ open, onOpenChange, record, onSaved }: Com
         complainantName: record.complainantName,
         firmName: record.firmName,
         product: record.product || '',
+        complaintType: record.complaintType,
         receivedDate: record.receivedDate,
         status: record.status,
         priority: record.priority,
         description: record.description || '',
         rootCause: record.rootCause || '',
-        assignedTo: record.assignedTo || '',
+        assignedUserId: record.assignedUserId || '',
+        queueId: record.queueId || '',
         fosReferred: record.fosReferred,
         notes: record.notes || '',
       });
@@ -64,12 +89,14 @@ export function ComplaintFormDialog({ open, onOpenChange, record, onSaved }: Com
       complainantName: '',
       firmName: '',
       product: '',
+      complaintType: 'standard',
       receivedDate: new Date().toISOString().slice(0, 10),
       status: 'open',
       priority: 'medium',
       description: '',
       rootCause: '',
-      assignedTo: '',
+      assignedUserId: '',
+      queueId: '',
       fosReferred: false,
       notes: '',
     });
@@ -78,10 +105,17 @@ export function ComplaintFormDialog({ open, onOpenChange, record, onSaved }: Com
   async function handleSave() {
     setSaving(true);
     try {
+      // Only send the owner and queue when they change, so an edit leaves an
+      // unlinked legacy owner alone and a new complaint without either is
+      // allocated from the default queue.
+      const { assignedUserId, queueId, ...fields } = form;
+      const body: Record<string, unknown> = { ...fields };
+      if (assignedUserId !== (record?.assignedUserId || '')) body.assignedUserId = assignedUserId || null;
+      if (queueId !== (record?.queueId || '')) body.queueId = queueId || null;
       const response = await fetch(record ? `/api/complaints/${record.id}` : '/api/complaints', {
         method: record ? 'PATCH' : 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(form),
+        body: JSON.stringify(body),
       });
       const payload = await response.json().catch(() => ({}));
       if (!response.ok) {
@@ -109,6 +143,18 @@ export function ComplaintFormDialog({ open, onOpenChange, record, onSaved }: Com
           <Field label="Complainant name" value={form.complainantName} onChange={(value) => setForm((current) => ({ ...current, complainantName: value }))} />
           <Field label="Firm name" value={form.firmName} onChange={(value) => setForm((current) => ({ ...current, firmName: value }))} />
           <Field label="Product" value={form.product} onChange={(value) => setForm((current) => ({ ...current, product: value }))} />
+          <div className="space-y-1">
+            <label className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Complaint type</label>
+            <select
+              className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+              value={form.complaintType}
+              onChange={(event) => setForm((current) => ({ ...current, complaintType: event.target.value as ComplaintType }))}
+              data-testid="complaint-type-select"
+            >
+              {COMPLAINT_TYPES.map((type) => <option key={type.key} value={type.key}>{type.label}</option>)}
+            </select>
+            <p className="text-xs text-slate-500">{COMPLAINT_TYPES.find((type) => type.key === form.complaintType)?.description}</p>
+          </div>
           <Field type="date" label="Received date" value={form.receivedDate} onChange={(value) => setForm((current) => ({ ...current, receivedDate: value }))} />
           <div className="space-y-1">
             <label className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Status</label>
@@ -123,7 +169,35 @@ export function ComplaintFormDialog({ open, onOpenChange, record, onSaved }: Com
             </select>
           </div>
           <Field label="Root cause" value={form.rootCause} onChange={(value) => setForm((current) => ({ ...current, rootCause: value }))} />
-          <Field label="Assigned owner" value={form.assignedTo} onChange={(value) => setForm((current) => ({ ...current, assignedTo: value }))} />
+          <div className="space-y-1">
+            <label className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Queue</label>
+            <select
+              className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+              value={form.queueId}
+              onChange={(event) => setForm((current) => ({ ...current, queueId: event.target.value }))}
+              data-testid="complaint-queue-select"
+            >
+              <option value="">{record ? 'No queue' : 'Default queue'}</option>
+              {queues.map((queue) => <option key={queue.id} value={queue.id}>{queue.name}{queue.isDefault ? ' (default)' : ''}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Assigned owner</label>
+            <select
+              className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+              value={form.assignedUserId}
+              onChange={(event) => setForm((current) => ({ ...current, assignedUserId: event.target.value }))}
+              data-testid="complaint-owner-select"
+            >
+              <option value="">{record ? 'Unassigned' : 'Allocate from the queue'}</option>
+              {handlers.map((handler) => (
+                <option key={handler.userId} value={handler.userId}>{handler.fullName}</option>
+              ))}
+            </select>
+            {record?.assignedTo && !record.assignedUserId ? (
+              <p className="text-xs text-amber-700">Currently {record.assignedTo}, which is not linked to a user.</p>
+            ) : null}
+          </div>
           <label className="md:col-span-2 flex items-center gap-2 rounded-xl border border-slate-200 px-3 py-2 text-sm text-slate-700">
             <input type="checkbox" checked={form.fosReferred} onChange={(event) => setForm((current) => ({ ...current, fosReferred: event.target.checked }))} />
             Mark as referred to FOS
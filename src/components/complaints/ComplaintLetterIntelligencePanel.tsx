@@ -32,6 +32,7 @@ import {
   buildReviewPointsBlock,
 } from '@/lib/complaints/letter-drafting';
 import { formatDate, formatDateTime, formatNumber, formatPercent, truncate } from '@/lib/utils';
+import { describeRiskPolicy } from '@/lib/risk-policy/policy';
 
 type InsertTarget = 'draft' | 'reviewer';
 
@@ -57,6 +58,10 @@ const ACTIONS_BY_TEMPLATE: Record<ComplaintLetterTemplateKey, Array<{ key: strin
     { key: 'precedentNote', label: 'Add precedent note', target: 'reviewer' },
     { key: 'caseSummary', label: 'Add case summary', target: 'reviewer' },
   ],
+  summary_resolution: [
+    { key: 'reviewPoints', label: 'Add review points', target: 'reviewer' },
+    { key: 'caseSummary', label: 'Add case summary', target: 'reviewer' },
+  ],
   fos_referral: [
     { key: 'referralScaffold', label: 'Insert referral scaffold', target: 'draft' },
     { key: 'referralChecklist', label: 'Add referral checklist', target: 'reviewer' },
@@ -241,9 +246,15 @@ export function ComplaintLetterIntelligencePanel({
                         <CircleHelp className="h-3.5 w-3.5" />
                       </button>
                     </TooltipTrigger>
-                    <TooltipContent side="top">Based on similar historical FOS outcomes.</TooltipContent>
+                    <TooltipContent side="top">
+                      Based on similar historical FOS outcomes. {describeRiskPolicy(intelligence.riskSnapshot.riskPolicy)}
+                    </TooltipContent>
                   </Tooltip>
                 </div>
+                <span>
+                  {intelligence.riskSnapshot.upheldRate.toFixed(1)}% upheld (95% interval{' '}
+                  {intelligence.riskSnapshot.confidenceInterval.lower.toFixed(1)}–{intelligence.riskSnapshot.confidenceInterval.upper.toFixed(1)}%)
+                </span>
                 <span>Generated {formatDateTime(intelligence.generatedAt)}</span>
               </div>
 
@@ -362,7 +373,10 @@ export function ComplaintLetterIntelligencePanel({
                         >
                           <div className="flex flex-wrap items-center justify-between gap-2">
                             <p className="text-sm font-semibold text-slate-900">{item.decisionReference}</p>
-                            <Badge variant="outline">{item.outcome.replace(/_/g, ' ')}</Badge>
+                            <div className="flex items-center gap-1">
+                              {item.pinned ? <Badge className="bg-blue-100 text-blue-700">Pinned</Badge> : null}
+                              <Badge variant="outline">{item.outcome.replace(/_/g, ' ')}</Badge>
+                            </div>
                           </div>
                           <p className="mt-1 text-xs text-slate-500">
                             {item.firmName || 'Unknown firm'}
@@ -14,14 +14,18 @@ import {
   type ComplaintLetterDecisionPath,
   type ComplaintLetterStructuredSection,
 } from '@/lib/complaints/letter-templates';
+import { getComplaintTypeDefinition } from '@/lib/complaints/complaint-types';
+import { DEFAULT_COMPLAINT_SLA_RULE_SETS } from '@/lib/complaints/sla-engine';
 import {
   COMPLAINT_LETTER_REVIEW_DECISION_CODES,
   COMPLAINT_LETTER_TEMPLATES,
   type ComplaintLetter,
   type ComplaintLetterStatus,
+  type ComplaintLetterTemplateKey,
   type ComplaintLetterReviewDecisionCode,
   type ComplaintLetterVersion,
   type ComplaintRecord,
+  type ComplaintType,
   type ComplaintWorkspaceActorRole,
   type ComplaintWorkspaceSettings,
 } from '@/lib/complaints/types';
@@ -40,6 +44,8 @@ const DEFAULT_SETTINGS: ComplaintWorkspaceSettings = {
   currentActorRole: 'reviewer',
   letterApprovalRole: 'reviewer',
   requireIndependentReviewer: false,
+  slaHolidayRegion: 'england-and-wales',
+  slaRuleSets: DEFAULT_COMPLAINT_SLA_RULE_SETS,
   updatedAt: new Date(0).toISOString(),
 };
 
@@ -52,6 +58,7 @@ export function ComplaintLettersPanel({
   letters: ComplaintLetter[];
   onRefresh: () => Promise<void>;
 }) {
+  const responseTemplateKey = getComplaintTypeDefinition(complaint.complaintType).responseTemplateKey;
   const [creating, setCreating] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -180,6 +187,7 @@ export function ComplaintLettersPanel({
       || reviewerNotes !== (selectedLetter.reviewerNotes || '')
     );
   }, [editorRecipientEmail, editorRecipientName, editorSubject, effectiveEditorBody, reviewerNotes, selectedLetter]);
+  const deliveryInProgress = selectedLetter?.deliveryStatus === 'queued' || selectedLetter?.deliveryStatus === 'sending';
 
   async function generateTemplate(templateKey: string) {
     setCreating(templateKey);
@@ -261,7 +269,13 @@ export function ComplaintLettersPanel({
       await onRefresh();
       await loadVersions(payload.letter?.id || selectedLetter.id);
       setApprovalNote('');
-      setStatusNotice(getLetterActionNotice(nextStatus || selectedLetter.status));
+      if (nextStatus === 'sent' && payload.letter?.deliveryStatus === 'failed') {
+        setError(`Delivery failed: ${payload.letter.deliveryError || 'unknown error'}.`);
+      } else if (nextStatus === 'sent' && payload.letter?.deliveryStatus === 'queued') {
+        setStatusNotice(`Letter queued for delivery${payload.letter.deliveryError ? ` (last attempt: ${payload.letter.deliveryError})` : ''}. It will be retried automatically.`);
+      } else {
+        setStatusNotice(getLetterActionNotice(nextStatus || selectedLetter.status));
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update complaint letter.');
     } finally {
@@ -269,6 +283,30 @@ export function ComplaintLettersPanel({
     }
   }
 
+  async function recordBounce() {
+    if (!selectedLetter) return;
+    const reason = window.prompt('Why did this letter bounce? (e.g. mailbox does not exist)');
+    if (reason === null) return;
+    setSaving(true);
+    setError(null);
+    setStatusNotice(null);
+    try {
+      const response = await fetch(`/api/complaints/letters/${selectedLetter.id}/delivery`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'bounce', reason }),
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(payload.error || 'Failed to record letter bounce.');
+      await onRefresh();
+      setStatusNotice('Bounce recorded. Correct the recipient details and send a new version.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record letter bounce.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
   function downloadDraft(letter: ComplaintLetter) {
     const blob = new Blob([`Subject: ${letter.subject}\n\n${effectiveEditorBody}`], { type: 'text/plain;charset=utf-8' });
     const url = URL.createObjectURL(blob);
@@ -338,7 +376,7 @@ export function ComplaintLettersPanel({
           <CardTitle className="flex items-center gap-2 text-base"><Mail className="h-4 w-4" />Letter templates</CardTitle>
         </CardHeader>
         <CardContent className="grid gap-3 md:grid-cols-2 xl:grid-cols-4">
-          {COMPLAINT_LETTER_TEMPLATES.filter((template) => template.key !== 'custom').map((template) => (
+          {COMPLAINT_LETTER_TEMPLATES.filter((template) => isTemplateAvailable(template.key, complaint.complaintType)).map((template) => (
             <button
               key={template.key}
               onClick={() => void generateTemplate(template.key)}
@@ -347,7 +385,10 @@ export function ComplaintLettersPanel({
               className="rounded-2xl border border-slate-200 bg-white p-4 text-left shadow-sm transition hover:border-blue-300 hover:bg-blue-50 disabled:opacity-60"
             >
               <div className="flex items-center justify-between gap-3">
-                <p className="text-sm font-semibold text-slate-900">{template.label}</p>
+                <p className="text-sm font-semibold text-slate-900">
+                  {template.label}
+                  {template.key === responseTemplateKey ? <Badge variant="outline" className="ml-2">Recommended</Badge> : null}
+                </p>
                 {creating === template.key ? <Loader2 className="h-4 w-4 animate-spin text-slate-500" /> : <FileText className="h-4 w-4 text-slate-400" />}
               </div>
               <p className="mt-2 text-xs text-slate-500">{template.description}</p>
@@ -420,7 +461,12 @@ export function ComplaintLettersPanel({
               >
                 <div className="flex flex-wrap items-center justify-between gap-2">
                   <p className="text-sm font-semibold text-slate-900">{letter.subject}</p>
-                  <Badge variant={letter.status === 'sent' ? 'default' : 'outline'}>{letter.status}</Badge>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant={letter.status === 'sent' ? 'default' : 'outline'}>{letter.status}</Badge>
+                    {letter.deliveryStatus && letter.deliveryStatus !== 'delivered' ? (
+                      <Badge variant={['failed', 'bounced'].includes(letter.deliveryStatus) ? 'destructive' : 'outline'}>{letter.deliveryStatus}</Badge>
+                    ) : null}
+                  </div>
                 </div>
                 <p className="mt-1 text-xs text-slate-500">{letter.recipientName || 'No named recipient'}{letter.recipientEmail ? ` · ${letter.recipientEmail}` : ''}</p>
                 <p className="mt-2 text-xs text-slate-500">{formatDateTime(letter.createdAt)}</p>
@@ -588,6 +634,8 @@ export function ComplaintLettersPanel({
                     {selectedLetter.approvedBy ? <span>Approved by: {selectedLetter.approvedBy}</span> : null}
                     {selectedLetter.approvedRole ? <span>Approved role: {selectedLetter.approvedRole}</span> : null}
                     {selectedLetter.sentAt ? <span>Sent: {formatDateTime(selectedLetter.sentAt)}</span> : null}
+                    {selectedLetter.deliveryStatus ? <span data-testid="letter-delivery-status">Delivery: {selectedLetter.deliveryStatus}</span> : null}
+                    {selectedLetter.deliveryError ? <span className="text-rose-600">Delivery error: {selectedLetter.deliveryError}</span> : null}
                     <span>Updated: {formatDateTime(selectedLetter.updatedAt)}</span>
                   </div>
                   <div className="flex flex-wrap gap-2">
@@ -602,7 +650,7 @@ export function ComplaintLettersPanel({
                     <Button size="sm" variant="outline" className="gap-2" onClick={() => downloadDraft({ ...selectedLetter, subject: editorSubject, recipientName: editorRecipientName || null, recipientEmail: editorRecipientEmail || null, bodyText: editorBody })}>
                       <Download className="h-3.5 w-3.5" /> TXT
                     </Button>
-                    <Button size="sm" variant="outline" className="gap-2" onClick={() => void saveLetter('draft')} disabled={saving || !hasEditorChanges || !isSignedIn} data-testid="letter-save-draft">
+                    <Button size="sm" variant="outline" className="gap-2" onClick={() => void saveLetter('draft')} disabled={saving || deliveryInProgress || !hasEditorChanges || !isSignedIn} data-testid="letter-save-draft">
                       {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Save className="h-3.5 w-3.5" />}
                       {['approved', 'sent', 'under_review'].includes(selectedLetter.status) ? 'Create new draft' : 'Save draft'}
                     </Button>
@@ -611,7 +659,7 @@ export function ComplaintLettersPanel({
                       variant="outline"
                       className="gap-2"
                       onClick={() => void saveLetter('under_review')}
-                      disabled={saving || !isSignedIn || selectedLetter.status === 'under_review' || selectedLetter.status === 'sent'}
+                      disabled={saving || deliveryInProgress || !isSignedIn || selectedLetter.status === 'under_review' || selectedLetter.status === 'sent'}
                       data-testid="letter-submit-review"
                     >
                       {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <FileText className="h-3.5 w-3.5" />}
@@ -643,12 +691,17 @@ export function ComplaintLettersPanel({
                       size="sm"
                       className="gap-2"
                       onClick={() => void saveLetter('sent')}
-                      disabled={saving || selectedLetter.status === 'sent' || selectedLetter.status !== 'approved' || hasEditorChanges || !canApprove || !isSignedIn}
+                      disabled={saving || selectedLetter.status !== 'approved' || deliveryInProgress || hasEditorChanges || !canApprove || !isSignedIn}
                       data-testid="letter-send"
                     >
                       {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Send className="h-3.5 w-3.5" />}
-                      Mark sent
+                      {selectedLetter.deliveryStatus === 'failed' ? 'Retry delivery' : deliveryInProgress ? 'Sending…' : 'Send letter'}
                     </Button>
+                    {selectedLetter.status === 'sent' && selectedLetter.deliveryStatus === 'delivered' ? (
+                      <Button size="sm" variant="outline" className="gap-2" onClick={() => void recordBounce()} disabled={saving || !isSignedIn} data-testid="letter-record-bounce">
+                        <AlertCircle className="h-3.5 w-3.5" /> Record bounce
+                      </Button>
+                    ) : null}
                   </div>
                 </div>
 
@@ -733,6 +786,12 @@ export function ComplaintLettersPanel({
   );
 }
 
+/** Summary resolution communications only apply to complaints classified as summary resolutions. */
+function isTemplateAvailable(key: ComplaintLetterTemplateKey, complaintType: ComplaintType): boolean {
+  if (key === 'custom') return false;
+  return key !== 'summary_resolution' || complaintType === 'summary_resolution';
+}
+
 function actorRoleRank(role: ComplaintWorkspaceActorRole | 'viewer'): number {
   switch (role) {
     case 'admin':
@@ -783,7 +842,7 @@ function getLetterActionNotice(status: ComplaintLetterStatus): string {
     case 'rejected_for_rework':
       return 'Letter returned for rework.';
     case 'sent':
-      return 'Letter marked as sent.';
+      return 'Letter delivered.';
     case 'draft':
       return 'Draft saved.';
     case 'generated':
@@ -1,7 +1,7 @@
 'use client';
 
 import { useMemo } from 'react';
-import { AlertCircle, CheckCircle2, Clock3, FileText, Flag, Mail, MessageSquare, Paperclip, Scale, UserRound } from 'lucide-react';
+import { AlertCircle, CheckCircle2, Clock3, FileText, Flag, Mail, MessageSquare, Paperclip, Scale, UserRound, Users } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import type { ComplaintActivity, ComplaintActivityType } from '@/lib/complaints/types';
 import { formatDateTime } from '@/lib/utils';
@@ -19,12 +19,21 @@ const ICONS: Record<ComplaintActivityType, React.ComponentType<{ className?: str
   letter_rejected: AlertCircle,
   letter_sent: Mail,
   letter_superseded: FileText,
+  letter_delivery_queued: Clock3,
+  letter_delivery_failed: AlertCircle,
+  letter_bounced: AlertCircle,
+  email_received: Mail,
+  sla_clock_paused: Clock3,
+  sla_clock_resumed: Clock3,
   note_added: MessageSquare,
   action_created: CheckCircle2,
   action_updated: FileText,
   action_completed: CheckCircle2,
   action_deleted: AlertCircle,
+  decision_pinned: Scale,
+  decision_unpinned: Scale,
   assigned: UserRound,
+  queue_changed: Users,
   priority_change: Flag,
   fos_referred: Scale,
   resolved: CheckCircle2,
@@ -121,6 +130,18 @@ function labelForActivity(activity: ComplaintActivity): string {
       return 'Letter Sent';
     case 'letter_superseded':
       return 'Letter Superseded';
+    case 'letter_delivery_queued':
+      return 'Letter Queued for Delivery';
+    case 'letter_delivery_failed':
+      return 'Letter Delivery Failed';
+    case 'letter_bounced':
+      return 'Letter Bounced';
+    case 'email_received':
+      return 'Email Received';
+    case 'sla_clock_paused':
+      return 'Complaint Clock Paused';
+    case 'sla_clock_resumed':
+      return 'Complaint Clock Restarted';
     case 'note_added':
       return 'Note Added';
     case 'action_created':
@@ -131,8 +152,14 @@ function labelForActivity(activity: ComplaintActivity): string {
       return 'Action Completed';
     case 'action_deleted':
       return 'Action Deleted';
+    case 'decision_pinned':
+      return 'Decision Pinned';
+    case 'decision_unpinned':
+      return 'Decision Unpinned';
     case 'assigned':
       return 'Assignment Updated';
+    case 'queue_changed':
+      return 'Queue Changed';
     case 'priority_change':
       return 'Priority Changed';
     case 'fos_referred':
@@ -0,0 +1,381 @@
+'use client';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Loader2, Plus } from 'lucide-react';
+import { useAuth } from '@/components/auth/auth-provider';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MAX_HANDLER_CAPACITY } from '@/lib/complaints/assignment';
+import {
+  COMPLAINT_ALLOCATION_STRATEGIES,
+  type ComplaintAllocationStrategy,
+  type ComplaintHandlerWorkload,
+  type ComplaintQueue,
+  type ComplaintWorkload,
+} from '@/lib/complaints/types';
+import { formatNumber } from '@/lib/utils';
+
+type QueueEditorState = {
+  name: string;
+  description: string;
+  allocationStrategy: ComplaintAllocationStrategy;
+  isDefault: boolean;
+  memberUserIds: string[];
+};
+
+const EMPTY_QUEUE: QueueEditorState = { name: '', description: '', allocationStrategy: 'round_robin', isDefault: false, memberUserIds: [] };
+
+export function ComplaintWorkloadClient() {
+  const { can } = useAuth();
+  const canManage = can('manager');
+  const [workload, setWorkload] = useState<ComplaintWorkload | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [capacityDrafts, setCapacityDrafts] = useState<Record<string, string>>({});
+  // `null` is the create form; a queue id edits that queue.
+  const [editingQueueId, setEditingQueueId] = useState<string | null>(null);
+  const [queueEditor, setQueueEditor] = useState<QueueEditorState>(EMPTY_QUEUE);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/complaints/workload', { credentials: 'include', cache: 'no-store' });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to load complaint workload.');
+      }
+      setWorkload(payload.workload as ComplaintWorkload);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load complaint workload.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const activeHandlers = useMemo(() => (workload?.handlers || []).filter((handler) => handler.isActive), [workload?.handlers]);
+  const handlerNames = useMemo(
+    () => new Map((workload?.handlers || []).map((handler) => [handler.userId, handler.fullName])),
+    [workload?.handlers]
+  );
+
+  async function request(key: string, url: string, init: RequestInit, successMessage: string) {
+    setBusy(key);
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetch(url, {
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        ...init,
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Workload request failed.');
+      }
+      setStatus(successMessage);
+      await load();
+      return payload;
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : 'Workload request failed.');
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function saveCapacity(handler: ComplaintHandlerWorkload, changes: { capacity?: number; acceptingAllocations?: boolean }) {
+    const result = await request(
+      `capacity:${handler.userId}`,
+      `/api/complaints/handlers/${handler.userId}`,
+      { method: 'PATCH', body: JSON.stringify(changes) },
+      `${handler.fullName} updated.`
+    );
+    if (result) {
+      setCapacityDrafts((current) => {
+        const next = { ...current };
+        delete next[handler.userId];
+        return next;
+      });
+    }
+  }
+
+  function editQueue(queue: ComplaintQueue | null) {
+    setEditingQueueId(queue?.id || null);
+    setQueueEditor(queue
+      ? {
+          name: queue.name,
+          description: queue.description || '',
+          allocationStrategy: queue.allocationStrategy,
+          isDefault: queue.isDefault,
+          memberUserIds: queue.memberUserIds,
+        }
+      : EMPTY_QUEUE);
+  }
+
+  async function saveQueue() {
+    const body = JSON.stringify({ ...queueEditor, description: queueEditor.description || null });
+    const result = editingQueueId
+      ? await request('queue', `/api/complaints/queues/${editingQueueId}`, { method: 'PATCH', body }, `${queueEditor.name.trim()} saved.`)
+      : await request('queue', '/api/complaints/queues', { method: 'POST', body }, `${queueEditor.name.trim()} created.`);
+    if (result) editQueue(null);
+  }
+
+  async function deleteQueue(queue: ComplaintQueue) {
+    if (!window.confirm(`Delete the ${queue.name} queue? Its complaints keep their owners and leave the queue.`)) return;
+    const result = await request(`delete:${queue.id}`, `/api/complaints/queues/${queue.id}`, { method: 'DELETE' }, `${queue.name} deleted.`);
+    if (result && editingQueueId === queue.id) editQueue(null);
+  }
+
+  function toggleMember(userId: string) {
+    setQueueEditor((current) => ({
+      ...current,
+      memberUserIds: current.memberUserIds.includes(userId)
+        ? current.memberUserIds.filter((id) => id !== userId)
+        : [...current.memberUserIds, userId],
+    }));
+  }
+
+  return (
+    <div className="mx-auto flex w-full max-w-[1320px] flex-col gap-5 px-4 py-5 md:px-8">
+      <section className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <Link href="/complaints" className="inline-flex items-center gap-1 text-sm font-semibold text-slate-500 hover:text-slate-700">
+            <ArrowLeft className="h-4 w-4" /> Complaints register
+          </Link>
+          <h1 className="mt-2 text-2xl font-semibold text-slate-900">Complaint Workload</h1>
+          <p className="mt-1 text-sm text-slate-600">Open, due-soon and overdue complaints per handler, team queues and how new complaints are allocated.</p>
+        </div>
+      </section>
+
+      {error ? <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div> : null}
+      {status ? <div className="rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800" data-testid="workload-status">{status}</div> : null}
+
+      {loading && !workload ? (
+        <div className="flex items-center gap-2 px-2 py-12 text-sm text-slate-500"><Loader2 className="h-4 w-4 animate-spin" /> Loading workload</div>
+      ) : workload ? (
+        <>
+          <section className="grid gap-4 md:grid-cols-3" data-testid="workload-unassigned">
+            <SummaryCard label="Unassigned open" value={workload.unassigned.openComplaints} href="/complaints?assignedUserId=unassigned" />
+            <SummaryCard label="Unassigned due soon" value={workload.unassigned.dueSoonComplaints} href="/complaints?assignedUserId=unassigned&slaState=due_soon" />
+            <SummaryCard label="Unassigned overdue" value={workload.unassigned.overdueComplaints} href="/complaints?assignedUserId=unassigned&slaState=overdue" />
+          </section>
+
+          <section className="rounded-3xl border border-slate-200 bg-white shadow-sm">
+            <div className="border-b border-slate-200 px-5 py-4">
+              <h2 className="text-lg font-semibold text-slate-900">Handlers</h2>
+              <p className="text-sm text-slate-500">Automatic allocation skips handlers at capacity or not accepting allocations. Manual assignment is not limited.</p>
+            </div>
+            <div className="overflow-x-auto">
+              <Table data-testid="workload-handlers">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Handler</TableHead>
+                    <TableHead>Open</TableHead>
+                    <TableHead>Due soon</TableHead>
+                    <TableHead>Overdue</TableHead>
+                    <TableHead>Urgent</TableHead>
+                    <TableHead>Capacity</TableHead>
+                    <TableHead>Allocations</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {workload.handlers.map((handler) => {
+                    const used = handler.capacity > 0 ? Math.min(100, Math.round((handler.openComplaints / handler.capacity) * 100)) : 100;
+                    const base = `/complaints?assignedUserId=${handler.userId}`;
+                    const draft = capacityDrafts[handler.userId];
+                    return (
+                      <TableRow key={handler.userId} data-testid={`workload-handler-${handler.userId}`}>
+                        <TableCell>
+                          <p className="font-semibold text-slate-900">{handler.fullName}</p>
+                          <p className="text-xs text-slate-500">{handler.email} · {handler.role}</p>
+                          {!handler.isActive ? <Badge className="mt-1 bg-amber-100 text-amber-800">Inactive, reassign</Badge> : null}
+                        </TableCell>
+                        <TableCell><Link href={base} className="font-semibold text-blue-700 hover:underline">{formatNumber(handler.openComplaints)}</Link></TableCell>
+                        <TableCell><Link href={`${base}&slaState=due_soon`} className="text-amber-700 hover:underline">{formatNumber(handler.dueSoonComplaints)}</Link></TableCell>
+                        <TableCell><Link href={`${base}&slaState=overdue`} className="text-rose-700 hover:underline">{formatNumber(handler.overdueComplaints)}</Link></TableCell>
+                        <TableCell>{formatNumber(handler.urgentComplaints)}</TableCell>
+                        <TableCell className="min-w-[180px]">
+                          <div className="h-2 rounded-full bg-slate-100">
+                            <div
+                              className={`h-2 rounded-full ${handler.openComplaints >= handler.capacity ? 'bg-rose-500' : used >= 80 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                              style={{ width: `${used}%` }}
+                            />
+                          </div>
+                          {canManage && handler.isActive ? (
+                            <div className="mt-2 flex items-center gap-2">
+                              <input
+                                type="number"
+                                min={0}
+                                max={MAX_HANDLER_CAPACITY}
+                                value={draft ?? String(handler.capacity)}
+                                onChange={(event) => setCapacityDrafts((current) => ({ ...current, [handler.userId]: event.target.value }))}
+                                className="w-20 rounded-lg border border-slate-200 px-2 py-1 text-xs"
+                                data-testid={`workload-capacity-${handler.userId}`}
+                              />
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={draft === undefined || busy === `capacity:${handler.userId}`}
+                                onClick={() => void saveCapacity(handler, { capacity: Number(draft) })}
+                              >
+                                Save
+                              </Button>
+                            </div>
+                          ) : (
+                            <p className="mt-1 text-xs text-slate-500">{handler.openComplaints} of {handler.capacity}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {canManage && handler.isActive ? (
+                            <label className="flex items-center gap-2 text-xs text-slate-600">
+                              <input
+                                type="checkbox"
+                                checked={handler.acceptingAllocations}
+                                disabled={busy === `capacity:${handler.userId}`}
+                                onChange={(event) => void saveCapacity(handler, { acceptingAllocations: event.target.checked })}
+                              />
+                              Accepting
+                            </label>
+                          ) : (
+                            <span className="text-xs text-slate-500">{handler.acceptingAllocations ? 'Accepting' : 'Paused'}</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {workload.handlers.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="py-10 text-center text-sm text-slate-500">No active operators, reviewers, managers or admins yet.</TableCell>
+                    </TableRow>
+                  ) : null}
+                </TableBody>
+              </Table>
+            </div>
+          </section>
+
+          <section className="grid gap-5 xl:grid-cols-[1.4fr_1fr]">
+            <Card>
+              <CardHeader><CardTitle className="text-base">Queues</CardTitle></CardHeader>
+              <CardContent className="space-y-3">
+                {workload.queues.map((queue) => (
+                  <div key={queue.id} className="rounded-2xl border border-slate-200 p-4" data-testid={`workload-queue-${queue.id}`}>
+                    <div className="flex flex-wrap items-start justify-between gap-3">
+                      <div>
+                        <p className="font-semibold text-slate-900">
+                          {queue.name} {queue.isDefault ? <Badge className="ml-1 bg-blue-100 text-blue-700">Default</Badge> : null}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {COMPLAINT_ALLOCATION_STRATEGIES.find((strategy) => strategy.key === queue.allocationStrategy)?.label}
+                          {' · '}
+                          {queue.memberUserIds.length > 0 ? queue.memberUserIds.map((id) => handlerNames.get(id) || 'Unknown user').join(', ') : 'No members'}
+                        </p>
+                        {queue.description ? <p className="mt-1 text-sm text-slate-600">{queue.description}</p> : null}
+                      </div>
+                      <div className="flex items-center gap-3 text-sm">
+                        <Link href={`/complaints?queueId=${queue.id}`} className="text-blue-700 hover:underline">{formatNumber(queue.openComplaints)} open</Link>
+                        <Link href={`/complaints?queueId=${queue.id}&assignedUserId=unassigned`} className="text-amber-700 hover:underline">{formatNumber(queue.unassignedComplaints)} waiting</Link>
+                      </div>
+                    </div>
+                    {canManage ? (
+                      <div className="mt-3 flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => editQueue(queue)}>Edit</Button>
+                        <Button size="sm" variant="outline" disabled={busy === `delete:${queue.id}`} onClick={() => void deleteQueue(queue)}>Delete</Button>
+                      </div>
+                    ) : null}
+                  </div>
+                ))}
+                {workload.queues.length === 0 ? (
+                  <p className="text-sm text-slate-500">No queues yet. Without a default queue, new complaints stay unassigned until someone picks them up.</p>
+                ) : null}
+              </CardContent>
+            </Card>
+
+            {canManage ? (
+              <Card>
+                <CardHeader><CardTitle className="text-base">{editingQueueId ? 'Edit queue' : 'New queue'}</CardTitle></CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <label className="block space-y-1">
+                    <span className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Name</span>
+                    <input
+                      value={queueEditor.name}
+                      onChange={(event) => setQueueEditor((current) => ({ ...current, name: event.target.value }))}
+                      className="w-full rounded-xl border border-slate-200 px-3 py-2"
+                      data-testid="workload-queue-name"
+                    />
+                  </label>
+                  <label className="block space-y-1">
+                    <span className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Description</span>
+                    <input
+                      value={queueEditor.description}
+                      onChange={(event) => setQueueEditor((current) => ({ ...current, description: event.target.value }))}
+                      className="w-full rounded-xl border border-slate-200 px-3 py-2"
+                    />
+                  </label>
+                  <label className="block space-y-1">
+                    <span className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Allocation</span>
+                    <select
+                      value={queueEditor.allocationStrategy}
+                      onChange={(event) => setQueueEditor((current) => ({ ...current, allocationStrategy: event.target.value as ComplaintAllocationStrategy }))}
+                      className="w-full rounded-xl border border-slate-200 px-3 py-2"
+                      data-testid="workload-queue-strategy"
+                    >
+                      {COMPLAINT_ALLOCATION_STRATEGIES.map((strategy) => <option key={strategy.key} value={strategy.key}>{strategy.label}</option>)}
+                    </select>
+                    <span className="block text-xs text-slate-500">
+                      {COMPLAINT_ALLOCATION_STRATEGIES.find((strategy) => strategy.key === queueEditor.allocationStrategy)?.description}
+                    </span>
+                  </label>
+                  <label className="flex items-center gap-2 text-slate-700">
+                    <input type="checkbox" checked={queueEditor.isDefault} onChange={(event) => setQueueEditor((current) => ({ ...current, isDefault: event.target.checked }))} />
+                    Default queue for new and imported complaints
+                  </label>
+                  <div className="space-y-1">
+                    <span className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Members</span>
+                    <div className="max-h-56 space-y-1 overflow-y-auto rounded-xl border border-slate-200 p-2">
+                      {activeHandlers.map((handler) => (
+                        <label key={handler.userId} className="flex items-center gap-2 text-slate-700">
+                          <input type="checkbox" checked={queueEditor.memberUserIds.includes(handler.userId)} onChange={() => toggleMember(handler.userId)} />
+                          {handler.fullName}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    {editingQueueId ? <Button variant="outline" onClick={() => editQueue(null)}>Cancel</Button> : null}
+                    <Button className="gap-2" disabled={busy === 'queue' || !queueEditor.name.trim()} onClick={() => void saveQueue()} data-testid="workload-queue-save">
+                      {busy === 'queue' ? <Loader2 className="h-4 w-4 animate-spin" /> : editingQueueId ? null : <Plus className="h-4 w-4" />}
+                      {editingQueueId ? 'Save queue' : 'Create queue'}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : null}
+          </section>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+function SummaryCard({ label, value, href }: { label: string; value: number; href: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-xs uppercase tracking-[0.16em] text-slate-400">{label}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Link href={href} className="text-2xl font-semibold text-slate-900 hover:underline">{formatNumber(value)}</Link>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,7 +4,16 @@ import { useEffect, useState } from 'react';
 import { Loader2, Save } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { COMPLAINT_WORKSPACE_ACTOR_ROLES, type ComplaintWorkspaceSettings } from '@/lib/complaints/types';
+import { DEFAULT_COMPLAINT_SLA_RULE_SETS } from '@/lib/complaints/sla-engine';
+import {
+  COMPLAINT_SLA_HOLIDAY_REGIONS,
+  COMPLAINT_TYPES,
+  COMPLAINT_WORKSPACE_ACTOR_ROLES,
+  type ComplaintSlaDurationUnit,
+  type ComplaintSlaMilestoneRule,
+  type ComplaintSlaRuleSet,
+  type ComplaintWorkspaceSettings,
+} from '@/lib/complaints/types';
 
 const DEFAULT_SETTINGS: ComplaintWorkspaceSettings = {
   organizationName: 'MEMA Consultants',
@@ -19,6 +28,8 @@ const DEFAULT_SETTINGS: ComplaintWorkspaceSettings = {
   currentActorRole: 'reviewer',
   letterApprovalRole: 'reviewer',
   requireIndependentReviewer: false,
+  slaHolidayRegion: 'england-and-wales',
+  slaRuleSets: DEFAULT_COMPLAINT_SLA_RULE_SETS,
   updatedAt: new Date(0).toISOString(),
 };
 
@@ -164,8 +175,38 @@ export function ComplaintWorkspaceSettingsPanel({
                 />
               </label>
             ) : null}
+            <div className="space-y-3 rounded-2xl border border-slate-200 px-4 py-4">
+              <div className="flex flex-wrap items-end justify-between gap-3">
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">Complaint clock</p>
+                  <p className="text-xs text-slate-500">Business-day rules skip weekends and the region&apos;s bank holidays. Saving recomputes the deadlines of open complaints.</p>
+                </div>
+                <label className="block text-sm">
+                  <span className="mb-1 block text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Bank holiday calendar</span>
+                  <select
+                    value={settings.slaHolidayRegion}
+                    onChange={(event) => setSettings((current) => ({ ...current, slaHolidayRegion: event.target.value as ComplaintWorkspaceSettings['slaHolidayRegion'] }))}
+                    className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                  >
+                    {COMPLAINT_SLA_HOLIDAY_REGIONS.map((region) => (
+                      <option key={region.key} value={region.key}>{region.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {settings.slaRuleSets.map((ruleSet, index) => (
+                <SlaRuleSetEditor
+                  key={ruleSet.key}
+                  ruleSet={ruleSet}
+                  onChange={(next) => setSettings((current) => ({
+                    ...current,
+                    slaRuleSets: current.slaRuleSets.map((item, itemIndex) => (itemIndex === index ? next : item)),
+                  }))}
+                />
+              ))}
+            </div>
             <div className="flex items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-xs text-slate-500">
-              <span>These settings control complaint correspondence policy, reviewer thresholds, and board-pack branding across the workspace.</span>
+              <span>These settings control complaint correspondence policy, reviewer thresholds, complaint clock rules, and board-pack branding across the workspace.</span>
               <Button size="sm" className="gap-2" onClick={() => void save()} disabled={saving}>
                 {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Save className="h-3.5 w-3.5" />}
                 Save settings
@@ -187,3 +228,61 @@ function Field({ label, value, onChange }: { label: string; value: string; onCha
     </label>
   );
 }
+
+function SlaRuleSetEditor({ ruleSet, onChange }: { ruleSet: ComplaintSlaRuleSet; onChange: (ruleSet: ComplaintSlaRuleSet) => void }) {
+  return (
+    <div className="grid gap-3 rounded-xl border border-slate-100 bg-slate-50 p-3 md:grid-cols-2">
+      <Field label={`Rule set (${ruleSet.key})`} value={ruleSet.label} onChange={(value) => onChange({ ...ruleSet, label: value })} />
+      <div className="text-sm">
+        <span className="mb-1 block text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Complaint types</span>
+        <div className="flex flex-wrap gap-3 py-2">
+          {COMPLAINT_TYPES.map((type) => (
+            <label key={type.key} className="flex items-center gap-2 text-slate-700">
+              <input
+                type="checkbox"
+                checked={ruleSet.complaintTypes.includes(type.key)}
+                onChange={(event) => onChange({
+                  ...ruleSet,
+                  complaintTypes: event.target.checked
+                    ? [...ruleSet.complaintTypes, type.key]
+                    : ruleSet.complaintTypes.filter((key) => key !== type.key),
+                })}
+                className="h-4 w-4 rounded border-slate-300"
+              />
+              {type.label}
+            </label>
+          ))}
+        </div>
+      </div>
+      <SlaMilestoneEditor rule={ruleSet.progress} onChange={(progress) => onChange({ ...ruleSet, progress })} />
+      <SlaMilestoneEditor rule={ruleSet.final} onChange={(final) => onChange({ ...ruleSet, final })} />
+    </div>
+  );
+}
+
+function SlaMilestoneEditor({ rule, onChange }: { rule: ComplaintSlaMilestoneRule; onChange: (rule: ComplaintSlaMilestoneRule) => void }) {
+  return (
+    <div className="grid grid-cols-[1fr_5rem_9rem] items-end gap-2">
+      <Field label="Milestone" value={rule.label} onChange={(value) => onChange({ ...rule, label: value })} />
+      <label className="block text-sm">
+        <span className="mb-1 block text-xs font-semibold uppercase tracking-[0.16em] text-slate-400">Days</span>
+        <input
+          type="number"
+          min={1}
+          max={365}
+          value={rule.amount}
+          onChange={(event) => onChange({ ...rule, amount: Number(event.target.value) })}
+          className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+        />
+      </label>
+      <select
+        value={rule.unit}
+        onChange={(event) => onChange({ ...rule, unit: event.target.value as ComplaintSlaDurationUnit })}
+        className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+      >
+        <option value="calendar_days">calendar days</option>
+        <option value="business_days">business days</option>
+      </select>
+    </div>
+  );
+}
@@ -2,13 +2,22 @@
 
 import Link from 'next/link';
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { Download, ExternalLink, Loader2, Plus, Search, Upload } from 'lucide-react';
+import { Download, ExternalLink, Loader2, Mail, Plus, Search, Upload, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { ComplaintFormDialog } from './ComplaintFormDialog';
-import type { ComplaintFilters, ComplaintListResult, ComplaintRecord } from '@/lib/complaints/types';
+import { OperationalRiskBadge } from './OperationalRiskBadge';
+import {
+  COMPLAINT_TYPES,
+  type ComplaintFilters,
+  type ComplaintHandler,
+  type ComplaintInboundEmailResult,
+  type ComplaintListResult,
+  type ComplaintQueue,
+  type ComplaintRecord,
+} from '@/lib/complaints/types';
 import { formatDate, formatNumber } from '@/lib/utils';
 
 const DEFAULT_FILTERS: ComplaintFilters = {
@@ -18,11 +27,15 @@ const DEFAULT_FILTERS: ComplaintFilters = {
   firm: '',
   product: '',
   assignedTo: '',
+  assignedUserId: '',
+  queueId: '',
   reviewer: '',
   letterStatus: 'all',
   hasEvidence: 'all',
   slaState: 'all',
+  complaintType: 'all',
   fosReferred: 'all',
+  sort: 'received_desc',
   page: 1,
   pageSize: 20,
 };
@@ -34,6 +47,31 @@ export function ComplaintsRegisterClient() {
   const [error, setError] = useState<string | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editing, setEditing] = useState<ComplaintRecord | null>(null);
+  const [emailImporting, setEmailImporting] = useState(false);
+  const [emailNotice, setEmailNotice] = useState<{ tone: 'success' | 'error'; message: string; results: ComplaintInboundEmailResult[] } | null>(null);
+  const [handlers, setHandlers] = useState<ComplaintHandler[]>([]);
+  const [queues, setQueues] = useState<ComplaintQueue[]>([]);
+
+  useEffect(() => {
+    // The workload view links here with the handler, queue and SLA state preselected.
+    const search = new URLSearchParams(window.location.search);
+    const slaState = search.get('slaState');
+    if (search.has('assignedUserId') || search.has('queueId') || slaState) {
+      setFilters((current) => ({
+        ...current,
+        assignedUserId: search.get('assignedUserId') || '',
+        queueId: search.get('queueId') || '',
+        slaState: slaState && ['on_track', 'due_soon', 'overdue', 'closed'].includes(slaState) ? (slaState as ComplaintFilters['slaState']) : current.slaState,
+      }));
+    }
+    void Promise.all([
+      fetch('/api/complaints/handlers').then((response) => (response.ok ? response.json() : null)),
+      fetch('/api/complaints/queues').then((response) => (response.ok ? response.json() : null)),
+    ]).then(([handlerPayload, queuePayload]) => {
+      setHandlers(handlerPayload?.handlers || []);
+      setQueues(queuePayload?.queues || []);
+    }).catch(() => undefined);
+  }, []);
 
   const fetchComplaints = useCallback(async () => {
     setLoading(true);
@@ -46,11 +84,15 @@ export function ComplaintsRegisterClient() {
       if (filters.firm) params.set('firm', filters.firm);
       if (filters.product) params.set('product', filters.product);
       if (filters.assignedTo) params.set('assignedTo', filters.assignedTo);
+      if (filters.assignedUserId) params.set('assignedUserId', filters.assignedUserId);
+      if (filters.queueId) params.set('queueId', filters.queueId);
       if (filters.reviewer) params.set('reviewer', filters.reviewer);
       if (filters.letterStatus !== 'all') params.set('letterStatus', filters.letterStatus);
       if (filters.hasEvidence !== 'all') params.set('hasEvidence', filters.hasEvidence);
       if (filters.slaState !== 'all') params.set('slaState', filters.slaState);
+      if (filters.complaintType !== 'all') params.set('complaintType', filters.complaintType);
       if (filters.fosReferred !== 'all') params.set('fosReferred', filters.fosReferred);
+      if (filters.sort !== 'received_desc') params.set('sort', filters.sort);
       params.set('page', String(filters.page));
       params.set('pageSize', String(filters.pageSize));
       const response = await fetch(`/api/complaints?${params.toString()}`);
@@ -77,6 +119,36 @@ export function ComplaintsRegisterClient() {
     void fetchComplaints();
   }, [fetchComplaints]);
 
+  const importEmails = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    setEmailImporting(true);
+    setEmailNotice(null);
+    try {
+      const formData = new FormData();
+      files.forEach((file) => formData.append('file', file));
+      const response = await fetch('/api/complaints/inbound-email', { method: 'POST', body: formData });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(payload.error || 'Failed to import email.');
+      }
+      const results = (payload.results || []) as ComplaintInboundEmailResult[];
+      const created = results.filter((result) => !result.duplicate && result.email.matchedBy === 'created').length;
+      const matched = results.filter((result) => !result.duplicate && result.email.matchedBy !== 'created').length;
+      const duplicates = results.filter((result) => result.duplicate).length;
+      const parts = [
+        created > 0 ? `${created} new complaint${created === 1 ? '' : 's'} drafted` : null,
+        matched > 0 ? `${matched} filed against existing complaints` : null,
+        duplicates > 0 ? `${duplicates} already imported` : null,
+      ].filter(Boolean);
+      setEmailNotice({ tone: 'success', message: `Email import: ${parts.join(', ')}.`, results });
+      await fetchComplaints();
+    } catch (err) {
+      setEmailNotice({ tone: 'error', message: err instanceof Error ? err.message : 'Failed to import email.', results: [] });
+    } finally {
+      setEmailImporting(false);
+    }
+  }, [fetchComplaints]);
+
   const firms = useMemo(() => Array.from(new Set((data?.records || []).map((record) => record.firmName))).sort((a, b) => a.localeCompare(b)), [data?.records]);
   const products = useMemo(() => Array.from(new Set((data?.records || []).map((record) => record.product).filter(Boolean) as string[])).sort((a, b) => a.localeCompare(b)), [data?.records]);
   const exportHref = useMemo(() => {
@@ -87,11 +159,15 @@ export function ComplaintsRegisterClient() {
     if (filters.firm) params.set('firm', filters.firm);
     if (filters.product) params.set('product', filters.product);
     if (filters.assignedTo) params.set('assignedTo', filters.assignedTo);
+    if (filters.assignedUserId) params.set('assignedUserId', filters.assignedUserId);
+    if (filters.queueId) params.set('queueId', filters.queueId);
     if (filters.reviewer) params.set('reviewer', filters.reviewer);
     if (filters.letterStatus !== 'all') params.set('letterStatus', filters.letterStatus);
     if (filters.hasEvidence !== 'all') params.set('hasEvidence', filters.hasEvidence);
     if (filters.slaState !== 'all') params.set('slaState', filters.slaState);
+    if (filters.complaintType !== 'all') params.set('complaintType', filters.complaintType);
     if (filters.fosReferred !== 'all') params.set('fosReferred', filters.fosReferred);
+    if (filters.sort !== 'received_desc') params.set('sort', filters.sort);
     return `/api/complaints/export?${params.toString()}`;
   }, [filters]);
 
@@ -106,6 +182,24 @@ export function ComplaintsRegisterClient() {
           <Link href="/imports/complaints" className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:border-slate-300">
             <Upload className="h-4 w-4" /> Bulk import
           </Link>
+          <label data-testid="complaints-import-email" className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:border-slate-300">
+            {emailImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />} Import email
+            <input
+              type="file"
+              className="hidden"
+              accept=".eml,message/rfc822"
+              multiple
+              disabled={emailImporting}
+              onChange={(event) => {
+                const files = Array.from(event.target.files || []);
+                event.target.value = '';
+                void importEmails(files);
+              }}
+            />
+          </label>
+          <Link href="/complaints/workload" className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:border-slate-300">
+            <Users className="h-4 w-4" /> Workload
+          </Link>
           <Link data-testid="complaints-export" href={exportHref} className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm hover:border-slate-300">
             <Download className="h-4 w-4" /> Export CSV
           </Link>
@@ -115,6 +209,24 @@ export function ComplaintsRegisterClient() {
         </div>
       </section>
 
+      {emailNotice ? (
+        <div
+          data-testid="complaints-email-notice"
+          className={`rounded-2xl border px-4 py-3 text-sm ${emailNotice.tone === 'success' ? 'border-emerald-200 bg-emerald-50 text-emerald-800' : 'border-rose-200 bg-rose-50 text-rose-700'}`}
+        >
+          <p>{emailNotice.message}</p>
+          {emailNotice.results.some((result) => result.complaint) ? (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {emailNotice.results.filter((result) => result.complaint).map((result) => (
+                <Link key={result.email.id} href={`/complaints/${result.complaint!.id}`} className="inline-flex items-center gap-1 rounded-full bg-white px-3 py-1 text-xs font-semibold text-slate-700 shadow-sm">
+                  {result.complaint!.complaintReference} <ExternalLink className="h-3 w-3" />
+                </Link>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
       <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-6">
         <MetricCard label="Total complaints" value={formatNumber(data?.stats.totalComplaints || 0)} helper="Operational complaints records in workspace." />
         <MetricCard label="Open complaints" value={formatNumber(data?.stats.openComplaints || 0)} helper="Still in active workflow." />
@@ -179,6 +291,10 @@ export function ComplaintsRegisterClient() {
             <option value="overdue">Overdue</option>
             <option value="closed">Closed</option>
           </select>
+          <select data-testid="complaints-complaint-type" value={filters.complaintType} onChange={(event) => setFilters((current) => ({ ...current, complaintType: event.target.value as ComplaintFilters['complaintType'], page: 1 }))} className="rounded-xl border border-slate-200 px-3 py-2 text-sm">
+            <option value="all">All complaint types</option>
+            {COMPLAINT_TYPES.map((type) => <option key={type.key} value={type.key}>{type.label}</option>)}
+          </select>
           <select value={filters.firm} onChange={(event) => setFilters((current) => ({ ...current, firm: event.target.value, page: 1 }))} className="rounded-xl border border-slate-200 px-3 py-2 text-sm">
             <option value="">All firms</option>
             {firms.map((firm) => <option key={firm} value={firm}>{firm}</option>)}
@@ -187,8 +303,22 @@ export function ComplaintsRegisterClient() {
             <option value="">All products</option>
             {products.map((product) => <option key={product} value={product}>{product}</option>)}
           </select>
+          <select data-testid="complaints-assigned-user" value={filters.assignedUserId} onChange={(event) => setFilters((current) => ({ ...current, assignedUserId: event.target.value, page: 1 }))} className="rounded-xl border border-slate-200 px-3 py-2 text-sm">
+            <option value="">All handlers</option>
+            <option value="unassigned">Unassigned</option>
+            {handlers.map((handler) => <option key={handler.userId} value={handler.userId}>{handler.fullName}</option>)}
+          </select>
+          <select data-testid="complaints-queue" value={filters.queueId} onChange={(event) => setFilters((current) => ({ ...current, queueId: event.target.value, page: 1 }))} className="rounded-xl border border-slate-200 px-3 py-2 text-sm">
+            <option value="">All queues</option>
+            <option value="none">No queue</option>
+            {queues.map((queue) => <option key={queue.id} value={queue.id}>{queue.name}</option>)}
+          </select>
           <input value={filters.assignedTo} onChange={(event) => setFilters((current) => ({ ...current, assignedTo: event.target.value, page: 1 }))} placeholder="Filter by owner" className="rounded-xl border border-slate-200 px-3 py-2 text-sm" />
           <input value={filters.reviewer} onChange={(event) => setFilters((current) => ({ ...current, reviewer: event.target.value, page: 1 }))} placeholder="Filter by reviewer" className="rounded-xl border border-slate-200 px-3 py-2 text-sm" />
+          <select data-testid="complaints-sort" value={filters.sort} onChange={(event) => setFilters((current) => ({ ...current, sort: event.target.value as ComplaintFilters['sort'], page: 1 }))} className="rounded-xl border border-slate-200 px-3 py-2 text-sm">
+            <option value="received_desc">Newest first</option>
+            <option value="operational_risk_desc">Highest ops risk first</option>
+          </select>
           <div className="md:col-span-6 xl:col-span-8 flex justify-end">
             <Button variant="outline" onClick={() => setFilters(DEFAULT_FILTERS)}>Reset filters</Button>
           </div>
@@ -231,6 +361,7 @@ export function ComplaintsRegisterClient() {
                   <TableHead>Priority</TableHead>
                   <TableHead>Received</TableHead>
                   <TableHead>SLA</TableHead>
+                  <TableHead>Ops risk</TableHead>
                   <TableHead>Letters</TableHead>
                   <TableHead>Evidence</TableHead>
                   <TableHead>FOS</TableHead>
@@ -240,13 +371,26 @@ export function ComplaintsRegisterClient() {
               <TableBody>
                 {(data?.records || []).map((record) => (
                   <TableRow key={record.id}>
-                    <TableCell className="font-medium text-slate-900">{record.complaintReference}</TableCell>
+                    <TableCell className="font-medium text-slate-900">
+                      {record.complaintReference}
+                      {record.linkedFosRevisedAt ? (
+                        <p className="mt-1 text-xs font-normal text-amber-700" data-testid="complaint-linked-revised">
+                          FOS decision revised {formatDate(record.linkedFosRevisedAt)}
+                        </p>
+                      ) : null}
+                    </TableCell>
                     <TableCell>{record.complainantName}</TableCell>
                     <TableCell>{record.firmName}</TableCell>
                     <TableCell><Badge className="bg-slate-100 text-slate-700">{record.status.replace(/_/g, ' ')}</Badge></TableCell>
                     <TableCell><Badge variant="outline">{record.priority}</Badge></TableCell>
                     <TableCell>{formatDate(record.receivedDate)}</TableCell>
-                    <TableCell>{record.slaSummary?.state ? record.slaSummary.state.replace(/_/g, ' ') : 'n/a'}</TableCell>
+                    <TableCell>
+                      {record.slaSummary?.state ? record.slaSummary.state.replace(/_/g, ' ') : 'n/a'}
+                      {record.complaintType !== 'standard' ? (
+                        <p className="mt-1 text-xs text-slate-500">{COMPLAINT_TYPES.find((type) => type.key === record.complaintType)?.label}</p>
+                      ) : null}
+                    </TableCell>
+                    <TableCell><OperationalRiskBadge risk={record.operationalRisk} /></TableCell>
                     <TableCell>
                       {record.latestLetterStatus ? (
                         <div className="space-y-1">
@@ -271,7 +415,7 @@ export function ComplaintsRegisterClient() {
                 ))}
                 {data && data.records.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={11} className="py-12 text-center">
+                    <TableCell colSpan={12} className="py-12 text-center">
                       <div className="mx-auto max-w-md space-y-3">
                         <p className="text-base font-semibold text-slate-900">No complaints matched the current filter set.</p>
                         <p className="text-sm text-slate-500">Try widening the search, clearing one of the workflow filters, or import a new complaints file.</p>
@@ -1,32 +1,75 @@
 'use client';
 
-import { AlertTriangle, CheckCircle2, Clock3 } from 'lucide-react';
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle2, Clock3, Loader2, PauseCircle, PlayCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import type { ComplaintSlaSummary } from '@/lib/complaints/types';
+import { useAuth } from '@/components/auth/auth-provider';
+import { getComplaintTypeDefinition } from '@/lib/complaints/complaint-types';
+import type { ComplaintSlaSummary, ComplaintType } from '@/lib/complaints/types';
 import { cn, formatDate } from '@/lib/utils';
 
 export function DeadlineTracker({
+  complaintId,
+  complaintType,
   receivedDate,
   fourWeekDueDate,
   eightWeekDueDate,
   finalResponseDate,
   resolvedDate,
   slaSummary,
+  onRefresh,
 }: {
+  complaintId: string;
+  complaintType: ComplaintType;
   receivedDate: string;
   fourWeekDueDate: string | null;
   eightWeekDueDate: string | null;
   finalResponseDate: string | null;
   resolvedDate: string | null;
   slaSummary: ComplaintSlaSummary | null;
+  onRefresh: () => Promise<void>;
 }) {
+  const { user } = useAuth();
+  const [pauseReason, setPauseReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const now = new Date();
   const received = new Date(receivedDate);
   const dayCount = Math.max(0, Math.floor((now.getTime() - received.getTime()) / (1000 * 60 * 60 * 24)));
-  const progress = Math.min(100, Math.round((dayCount / 56) * 100));
-  const overdue = Boolean(eightWeekDueDate && new Date(eightWeekDueDate) < now && !resolvedDate && !finalResponseDate);
-  const atRisk = !overdue && dayCount >= 42;
-  const statusTone = overdue ? 'bg-rose-500' : atRisk ? 'bg-amber-500' : 'bg-emerald-500';
+  const totalDays = eightWeekDueDate
+    ? Math.max(1, Math.round((new Date(eightWeekDueDate).getTime() - received.getTime()) / (1000 * 60 * 60 * 24)))
+    : 56;
+  const progress = Math.min(100, Math.round((dayCount / totalDays) * 100));
+  const closedOut = Boolean(resolvedDate || finalResponseDate);
+  const pausedSince = slaSummary?.clockPausedSince || null;
+  const overdue = Boolean(eightWeekDueDate && new Date(eightWeekDueDate) < now && !closedOut && !pausedSince);
+  const atRisk = !overdue && !pausedSince && (slaSummary ? slaSummary.atRisk : dayCount >= 42);
+  const statusTone = pausedSince ? 'bg-slate-400' : overdue ? 'bg-rose-500' : atRisk ? 'bg-amber-500' : 'bg-emerald-500';
+  const progressLabel = slaSummary?.progressLabel || '4-week progress update';
+  const finalLabel = slaSummary?.finalLabel || '8-week final response';
+  const canChangeClock = Boolean(user && user.role !== 'viewer') && !closedOut;
+  const typeDefinition = getComplaintTypeDefinition(complaintType);
+
+  async function changeClock(body: Record<string, unknown>) {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/complaints/${complaintId}/sla`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(payload.error || 'Failed to update the complaint clock.');
+      setPauseReason('');
+      await onRefresh();
+    } catch (changeError) {
+      setError(changeError instanceof Error ? changeError.message : 'Failed to update the complaint clock.');
+    } finally {
+      setSaving(false);
+    }
+  }
 
   return (
     <Card>
@@ -34,11 +77,14 @@ export function DeadlineTracker({
         <CardTitle className="text-base">Deadline Tracker</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-600" data-testid="deadline-complaint-type">
+          <span className="font-semibold text-slate-800">{typeDefinition.label}</span>: {typeDefinition.description}
+        </div>
         <div>
           <div className="mb-2 flex items-center justify-between text-xs text-slate-500">
             <span>{dayCount} days elapsed</span>
             <span className={cn('font-semibold', overdue ? 'text-rose-600' : atRisk ? 'text-amber-600' : 'text-emerald-600')}>
-              {resolvedDate || finalResponseDate ? 'Closed out' : overdue ? 'Overdue' : atRisk ? 'Approaching deadline' : 'On track'}
+              {closedOut ? 'Closed out' : pausedSince ? 'Clock paused' : overdue ? 'Overdue' : atRisk ? 'Approaching deadline' : 'On track'}
             </span>
           </div>
           <div className="h-3 overflow-hidden rounded-full bg-slate-100">
@@ -46,21 +92,52 @@ export function DeadlineTracker({
           </div>
           <div className="mt-2 flex justify-between text-[11px] text-slate-400">
             <span>Day 0</span>
-            <span>4 weeks</span>
-            <span>8 weeks</span>
+            <span>{progressLabel}</span>
+            <span>{finalLabel}</span>
           </div>
         </div>
 
         <DeadlineRow label="Received" value={formatDate(receivedDate)} done />
-        <DeadlineRow label="4-week due" value={fourWeekDueDate ? formatDate(fourWeekDueDate) : 'Pending'} done={Boolean(finalResponseDate || resolvedDate || (fourWeekDueDate && new Date(fourWeekDueDate) >= now))} warn={Boolean(fourWeekDueDate && new Date(fourWeekDueDate) < now && !finalResponseDate && !resolvedDate)} />
-        <DeadlineRow label="8-week due" value={eightWeekDueDate ? formatDate(eightWeekDueDate) : 'Pending'} done={Boolean(finalResponseDate || resolvedDate)} warn={overdue} />
+        <DeadlineRow label={`${progressLabel} due`} value={fourWeekDueDate ? formatDate(fourWeekDueDate) : 'Pending'} done={Boolean(finalResponseDate || resolvedDate || (fourWeekDueDate && new Date(fourWeekDueDate) >= now))} warn={Boolean(fourWeekDueDate && new Date(fourWeekDueDate) < now && !finalResponseDate && !resolvedDate)} />
+        <DeadlineRow label={`${finalLabel} due`} value={eightWeekDueDate ? formatDate(eightWeekDueDate) : 'Pending'} done={Boolean(finalResponseDate || resolvedDate)} warn={overdue} />
         <DeadlineRow label="Final response" value={finalResponseDate ? formatDate(finalResponseDate) : resolvedDate ? formatDate(resolvedDate) : 'Pending'} done={Boolean(finalResponseDate || resolvedDate)} />
+        {pausedSince ? (
+          <div className="rounded-xl border border-slate-200 bg-slate-100 px-3 py-2 text-xs text-slate-600" data-testid="sla-clock-paused">
+            Clock paused since <span className="font-semibold text-slate-800">{formatDate(pausedSince)}</span>. Due dates move out by the paused period when it restarts.
+          </div>
+        ) : null}
+        {slaSummary && slaSummary.clockPausedDays > 0 ? (
+          <p className="text-xs text-slate-500">Clock stopped for {slaSummary.clockPausedDays} day{slaSummary.clockPausedDays === 1 ? '' : 's'} so far.</p>
+        ) : null}
         {slaSummary?.nextMilestoneLabel ? (
           <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-600">
             Next milestone: <span className="font-semibold text-slate-800">{slaSummary.nextMilestoneLabel}</span>
             {slaSummary.nextMilestoneDate ? ` by ${formatDate(slaSummary.nextMilestoneDate)}` : ''}
           </div>
         ) : null}
+        {canChangeClock ? (
+          pausedSince ? (
+            <Button size="sm" variant="outline" className="w-full gap-2" onClick={() => void changeClock({ action: 'resume' })} disabled={saving} data-testid="sla-resume-button">
+              {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <PlayCircle className="h-3.5 w-3.5" />}
+              Restart clock
+            </Button>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                value={pauseReason}
+                onChange={(event) => setPauseReason(event.target.value)}
+                placeholder="Reason for pausing the clock"
+                className="min-w-0 flex-1 rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                data-testid="sla-pause-reason"
+              />
+              <Button size="sm" variant="outline" className="gap-2" onClick={() => void changeClock({ action: 'pause', reason: pauseReason })} disabled={saving || !pauseReason.trim()} data-testid="sla-pause-button">
+                {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <PauseCircle className="h-3.5 w-3.5" />}
+                Pause
+              </Button>
+            </div>
+          )
+        ) : null}
+        {error ? <p className="text-xs text-rose-600">{error}</p> : null}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,23 @@
+import { Badge } from '@/components/ui/badge';
+import type { ComplaintOperationalRisk, ComplaintOperationalRiskLevel } from '@/lib/complaints/types';
+
+const LEVEL_TONES: Record<ComplaintOperationalRiskLevel, string> = {
+  low: 'bg-emerald-100 text-emerald-700',
+  medium: 'bg-amber-100 text-amber-700',
+  high: 'bg-orange-100 text-orange-700',
+  critical: 'bg-rose-100 text-rose-700',
+};
+
+export function OperationalRiskBadge({ risk, showScore = false }: { risk: ComplaintOperationalRisk | null | undefined; showScore?: boolean }) {
+  if (!risk) return null;
+  const explanation = risk.factors.length > 0
+    ? risk.factors.map((factor) => `${factor.label} (+${factor.points})`).join('\n')
+    : 'No handling-risk factors on file.';
+
+  return (
+    <Badge data-testid="operational-risk-badge" className={LEVEL_TONES[risk.level]} title={explanation}>
+      Ops risk {risk.level}
+      {showScore ? ` · ${risk.score}` : ''}
+    </Badge>
+  );
+}
@@ -1,10 +1,10 @@
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Loader2, MessageSquarePlus, Send, UserRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import type { ComplaintPriority, ComplaintRecord, ComplaintStatus } from '@/lib/complaints/types';
+import type { ComplaintHandler, ComplaintPriority, ComplaintRecord, ComplaintStatus } from '@/lib/complaints/types';
 
 const STATUS_OPTIONS: ComplaintStatus[] = ['open', 'investigating', 'escalated', 'referred_to_fos', 'resolved', 'closed'];
 const PRIORITY_OPTIONS: ComplaintPriority[] = ['low', 'medium', 'high', 'urgent'];
@@ -18,11 +18,19 @@ export function QuickActions({
 }) {
   const [status, setStatus] = useState<ComplaintStatus>(complaint.status);
   const [priority, setPriority] = useState<ComplaintPriority>(complaint.priority);
-  const [assignee, setAssignee] = useState(complaint.assignedTo || '');
+  const [assignee, setAssignee] = useState(complaint.assignedUserId || '');
+  const [handlers, setHandlers] = useState<ComplaintHandler[]>([]);
   const [note, setNote] = useState('');
   const [saving, setSaving] = useState(false);
   const hasNote = useMemo(() => note.trim().length > 0, [note]);
 
+  useEffect(() => {
+    void fetch('/api/complaints/handlers')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload) => setHandlers(payload?.handlers || []))
+      .catch(() => undefined);
+  }, []);
+
   async function updateComplaint(body: Record<string, unknown>) {
     setSaving(true);
     try {
@@ -98,8 +106,13 @@ export function QuickActions({
         <label className="block text-sm">
           <span className="mb-1 flex items-center gap-1 text-xs font-semibold uppercase tracking-[0.16em] text-slate-400"><UserRound className="h-3.5 w-3.5" />Assign owner</span>
           <div className="flex gap-2">
-            <input value={assignee} onChange={(event) => setAssignee(event.target.value)} placeholder="e.g. Complaints lead" className="flex-1 rounded-xl border border-slate-200 px-3 py-2 text-sm" />
-            <Button size="sm" variant="outline" onClick={() => void updateComplaint({ assignedTo: assignee || null })} disabled={saving || assignee === (complaint.assignedTo || '')}>
+            <select data-testid="quick-assign-owner" value={assignee} onChange={(event) => setAssignee(event.target.value)} className="flex-1 rounded-xl border border-slate-200 px-3 py-2 text-sm">
+              <option value="">{complaint.assignedTo && !complaint.assignedUserId ? `${complaint.assignedTo} (unlinked)` : 'Unassigned'}</option>
+              {handlers.map((handler) => (
+                <option key={handler.userId} value={handler.userId}>{handler.fullName}</option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" onClick={() => void updateComplaint({ assignedUserId: assignee || null })} disabled={saving || assignee === (complaint.assignedUserId || '')}>
               Assign
             </Button>
           </div>
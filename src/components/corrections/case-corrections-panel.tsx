@@ -0,0 +1,214 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/components/auth/auth-provider';
+import { CORRECTION_FIELD_LABELS, DecisionLabelEditor } from '@/components/corrections/decision-label-editor';
+import { OUTCOME_LABELS } from '@/lib/fos/constants';
+import type { FOSOutcome } from '@/lib/fos/types';
+import type { CorrectionField, CorrectionValue, DecisionCorrections, DecisionLabels } from '@/lib/corrections/types';
+import { formatDateTime } from '@/lib/utils';
+
+interface CaseCorrectionsPanelProps {
+  caseId: string;
+  /** Called with the corrected values after a save so the sheet can show them straight away. */
+  onLabelsChange: (labels: DecisionLabels) => void;
+}
+
+export function CaseCorrectionsPanel({ caseId, onLabelsChange }: CaseCorrectionsPanelProps) {
+  const { user, can } = useAuth();
+  const canCorrect = can('reviewer');
+  const [corrections, setCorrections] = useState<DecisionCorrections | null>(null);
+  const [draft, setDraft] = useState<DecisionLabels | null>(null);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/fos/cases/${encodeURIComponent(caseId)}/corrections`, { cache: 'no-store' });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to load corrections.');
+      }
+      setCorrections(payload.corrections as DecisionCorrections);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load corrections.');
+    }
+  }, [caseId]);
+
+  useEffect(() => {
+    setCorrections(null);
+    setDraft(null);
+    if (user) void load();
+  }, [load, user]);
+
+  async function submit(body: Record<string, unknown>) {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/fos/cases/${encodeURIComponent(caseId)}/corrections`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to save corrections.');
+      }
+      const next = payload.corrections as DecisionCorrections;
+      setCorrections(next);
+      setDraft(null);
+      setNote('');
+      onLabelsChange(next.labels);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save corrections.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function save() {
+    if (!corrections || !draft) return;
+    const body: Record<string, unknown> = {};
+    for (const field of Object.keys(CORRECTION_FIELD_LABELS) as CorrectionField[]) {
+      const before = corrections.labels[field];
+      const after = draft[field];
+      if (field === 'product' && !String(after || '').trim()) continue;
+      if (!sameValue(before, after)) body[field] = after;
+    }
+    if (Object.keys(body).length === 0) {
+      setDraft(null);
+      return;
+    }
+    void submit({ ...body, note });
+  }
+
+  if (!user) return null;
+
+  const correctedFields = corrections?.overrides.map((override) => override.field) || [];
+
+  return (
+    <section className="rounded-xl border border-violet-200 bg-violet-50/40 p-4" data-testid="case-corrections">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-slate-900">Reviewer corrections</h3>
+        <div className="flex items-center gap-2">
+          {corrections?.queueStatus === 'reviewed' ? (
+            <span className="rounded-full bg-emerald-100 px-2.5 py-1 text-[11px] font-semibold text-emerald-700">Gold set</span>
+          ) : null}
+          {canCorrect && corrections && !draft ? (
+            <button
+              type="button"
+              data-testid="case-corrections-edit"
+              onClick={() => setDraft(corrections.labels)}
+              className="rounded-full border border-violet-300 bg-white px-3 py-1.5 text-xs font-semibold text-violet-700 hover:bg-violet-50"
+            >
+              Correct labels
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {error ? <p className="mt-3 rounded-lg bg-rose-50 p-2 text-xs text-rose-700">{error}</p> : null}
+
+      {corrections && draft ? (
+        <div className="mt-3 grid gap-3">
+          <DecisionLabelEditor
+            idPrefix="case-corrections"
+            labels={draft}
+            labelOptions={corrections.labelOptions}
+            correctedFields={correctedFields}
+            onChange={setDraft}
+            disabled={saving}
+          />
+          <label className="grid gap-1.5 text-sm text-slate-700">
+            <span className="font-medium">Note</span>
+            <input
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder="Why the machine value was wrong"
+              className="rounded-xl border border-slate-200 px-3 py-2"
+            />
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              data-testid="case-corrections-save"
+              onClick={save}
+              disabled={saving}
+              className="rounded-full bg-[#0f1f4f] px-4 py-2 text-xs font-semibold text-white hover:bg-[#0c1940] disabled:opacity-60"
+            >
+              {saving ? 'Saving…' : 'Save corrections'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              disabled={saving}
+              className="rounded-full border border-slate-300 bg-white px-4 py-2 text-xs font-semibold text-slate-700 hover:border-slate-400"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : corrections ? (
+        <div className="mt-3 grid gap-2 text-xs text-slate-700">
+          {corrections.overrides.length === 0 ? (
+            <p className="text-slate-500">No corrections. Values are as ingested and tagged.</p>
+          ) : (
+            corrections.overrides.map((override) => (
+              <div key={override.field} className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-white px-3 py-2">
+                <span>
+                  <span className="font-semibold">{CORRECTION_FIELD_LABELS[override.field]}:</span> {formatValue(override.field, override.value)}
+                  <span className="text-slate-500"> (machine: {formatValue(override.field, override.machineValue)})</span>
+                  {override.updatedBy ? <span className="text-slate-500"> · {override.updatedBy}</span> : null}
+                </span>
+                {canCorrect ? (
+                  <button
+                    type="button"
+                    onClick={() => void submit({ [override.field]: null })}
+                    disabled={saving}
+                    className="text-[11px] font-semibold text-rose-700 hover:underline disabled:opacity-60"
+                  >
+                    Revert
+                  </button>
+                ) : null}
+              </div>
+            ))
+          )}
+
+          {corrections.events.length > 0 ? (
+            <details className="mt-1">
+              <summary className="cursor-pointer text-slate-500">History ({corrections.events.length})</summary>
+              <ul className="mt-2 grid gap-1">
+                {corrections.events.map((event) => (
+                  <li key={event.id} className="text-slate-600">
+                    {formatDateTime(event.createdAt)} · {event.actor || 'Unknown'} {event.action}{' '}
+                    {CORRECTION_FIELD_LABELS[event.field].toLowerCase()}: {formatValue(event.field, event.previousValue)} →{' '}
+                    {formatValue(event.field, event.value)}
+                    {event.note ? <span className="text-slate-500"> — {event.note}</span> : null}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ) : null}
+        </div>
+      ) : !error ? (
+        <p className="mt-3 text-xs text-slate-500">Loading corrections…</p>
+      ) : null}
+    </section>
+  );
+}
+
+function formatValue(field: CorrectionField, value: CorrectionValue | null): string {
+  if (value == null) return '—';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : 'none';
+  if (field === 'outcome') return OUTCOME_LABELS[value as FOSOutcome] || value;
+  return value;
+}
+
+function sameValue(left: CorrectionValue | null, right: CorrectionValue | null): boolean {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((value) => right.some((other) => other.toLowerCase() === value.toLowerCase()));
+  }
+  return (left || '') === (right || '');
+}
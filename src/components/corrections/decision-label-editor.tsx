@@ -0,0 +1,173 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { OUTCOME_LABELS } from '@/lib/fos/constants';
+import type { FOSOutcome } from '@/lib/fos/types';
+import type { CorrectionField, CorrectionTagField, DecisionLabels } from '@/lib/corrections/types';
+
+export const CORRECTION_FIELD_LABELS: Record<CorrectionField, string> = {
+  outcome: 'Outcome',
+  product: 'Product',
+  precedents: 'Precedents',
+  rootCauseTags: 'Root causes',
+  vulnerabilityFlags: 'Vulnerability flags',
+};
+
+const TAG_FIELDS: CorrectionTagField[] = ['rootCauseTags', 'precedents', 'vulnerabilityFlags'];
+
+interface DecisionLabelEditorProps {
+  labels: DecisionLabels;
+  labelOptions: Record<CorrectionTagField, string[]>;
+  onChange: (labels: DecisionLabels) => void;
+  /** Fields that carry a reviewer correction, marked in the editor. */
+  correctedFields?: CorrectionField[];
+  disabled?: boolean;
+  idPrefix: string;
+}
+
+export function DecisionLabelEditor({ labels, labelOptions, onChange, correctedFields = [], disabled, idPrefix }: DecisionLabelEditorProps) {
+  return (
+    <div className="grid gap-4">
+      <div className="grid gap-3 md:grid-cols-2">
+        <label className="grid gap-1.5 text-sm text-slate-700">
+          <FieldHeading field="outcome" corrected={correctedFields.includes('outcome')} />
+          <select
+            data-testid={`${idPrefix}-outcome`}
+            value={labels.outcome}
+            disabled={disabled}
+            onChange={(event) => onChange({ ...labels, outcome: event.target.value as FOSOutcome })}
+            className="rounded-xl border border-slate-200 bg-white px-3 py-2"
+          >
+            {(Object.keys(OUTCOME_LABELS) as FOSOutcome[]).map((outcome) => (
+              <option key={outcome} value={outcome}>
+                {OUTCOME_LABELS[outcome]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1.5 text-sm text-slate-700">
+          <FieldHeading field="product" corrected={correctedFields.includes('product')} />
+          <input
+            data-testid={`${idPrefix}-product`}
+            value={labels.product || ''}
+            disabled={disabled}
+            onChange={(event) => onChange({ ...labels, product: event.target.value })}
+            placeholder="Product as published"
+            className="rounded-xl border border-slate-200 px-3 py-2"
+          />
+        </label>
+      </div>
+
+      {TAG_FIELDS.map((field) => (
+        <TagListEditor
+          key={field}
+          field={field}
+          values={labels[field]}
+          options={labelOptions[field]}
+          corrected={correctedFields.includes(field)}
+          disabled={disabled}
+          listId={`${idPrefix}-${field}-options`}
+          onChange={(values) => onChange({ ...labels, [field]: values })}
+        />
+      ))}
+    </div>
+  );
+}
+
+function FieldHeading({ field, corrected }: { field: CorrectionField; corrected: boolean }) {
+  return (
+    <span className="flex items-center gap-2 font-medium">
+      {CORRECTION_FIELD_LABELS[field]}
+      {corrected ? (
+        <span className="rounded-full bg-violet-100 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.12em] text-violet-700">
+          corrected
+        </span>
+      ) : null}
+    </span>
+  );
+}
+
+function TagListEditor({
+  field,
+  values,
+  options,
+  corrected,
+  disabled,
+  listId,
+  onChange,
+}: {
+  field: CorrectionTagField;
+  values: string[];
+  options: string[];
+  corrected: boolean;
+  disabled?: boolean;
+  listId: string;
+  onChange: (values: string[]) => void;
+}) {
+  const [draft, setDraft] = useState('');
+
+  function addDraft() {
+    const value = draft.replace(/\s+/g, ' ').trim();
+    if (!value) return;
+    if (!values.some((existing) => existing.toLowerCase() === value.toLowerCase())) {
+      onChange([...values, value]);
+    }
+    setDraft('');
+  }
+
+  return (
+    <div className="grid gap-1.5 text-sm text-slate-700">
+      <FieldHeading field={field} corrected={corrected} />
+      <div className="flex flex-wrap items-center gap-2">
+        {values.length === 0 ? <span className="text-xs text-slate-500">None</span> : null}
+        {values.map((value) => (
+          <span key={value} className="flex items-center gap-1 rounded-full border border-slate-200 bg-white px-2.5 py-1 text-xs text-slate-800">
+            {value}
+            {!disabled ? (
+              <button
+                type="button"
+                aria-label={`Remove ${value}`}
+                onClick={() => onChange(values.filter((existing) => existing !== value))}
+                className="text-slate-400 hover:text-rose-600"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            ) : null}
+          </span>
+        ))}
+      </div>
+      {!disabled ? (
+        <div className="flex gap-2">
+          <input
+            list={listId}
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                event.preventDefault();
+                addDraft();
+              }
+            }}
+            placeholder={`Add ${CORRECTION_FIELD_LABELS[field].toLowerCase().replace(/s$/, '')}`}
+            className="min-w-0 flex-1 rounded-xl border border-slate-200 px-3 py-1.5 text-sm"
+          />
+          <datalist id={listId}>
+            {options
+              .filter((option) => !values.some((value) => value.toLowerCase() === option.toLowerCase()))
+              .map((option) => (
+                <option key={option} value={option} />
+              ))}
+          </datalist>
+          <button
+            type="button"
+            onClick={addDraft}
+            className="rounded-full border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:border-slate-400"
+          >
+            Add
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
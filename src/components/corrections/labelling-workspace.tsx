@@ -0,0 +1,421 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CORRECTION_FIELD_LABELS, DecisionLabelEditor } from '@/components/corrections/decision-label-editor';
+import { OUTCOME_LABELS } from '@/lib/fos/constants';
+import type { FOSCaseDetail } from '@/lib/fos/types';
+import type {
+  CorrectionField,
+  DecisionCorrections,
+  DecisionLabels,
+  LabelQueueItem,
+  LabelQueueSummary,
+  TaggerEvaluation,
+  TaggerFieldMetrics,
+} from '@/lib/corrections/types';
+import { formatDate, formatNumber, truncate } from '@/lib/utils';
+
+const FIELD_TITLES: Record<TaggerFieldMetrics['field'], string> = {
+  root_cause_tags: 'Root causes',
+  precedents: 'Precedents',
+  vulnerability_flags: 'Vulnerability flags',
+};
+
+type Selected = { reference: string; detail: FOSCaseDetail | null; corrections: DecisionCorrections };
+
+export function LabellingWorkspace() {
+  const [summary, setSummary] = useState<LabelQueueSummary | null>(null);
+  const [items, setItems] = useState<LabelQueueItem[]>([]);
+  const [evaluation, setEvaluation] = useState<TaggerEvaluation | null>(null);
+  const [scope, setScope] = useState<'queue' | 'all'>('queue');
+  const [sampleSize, setSampleSize] = useState('20');
+  const [selected, setSelected] = useState<Selected | null>(null);
+  const [draft, setDraft] = useState<DecisionLabels | null>(null);
+  const [note, setNote] = useState('');
+  const [metricField, setMetricField] = useState<TaggerFieldMetrics['field']>('root_cause_tags');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    const response = await fetch('/api/labelling?status=pending&limit=100', { credentials: 'include', cache: 'no-store' });
+    const payload = await response.json().catch(() => null);
+    if (!response.ok || !payload?.success) {
+      throw new Error(payload?.error || 'Failed to load the labelling queue.');
+    }
+    setSummary(payload.summary as LabelQueueSummary);
+    setItems(Array.isArray(payload.items) ? (payload.items as LabelQueueItem[]) : []);
+    return payload.items as LabelQueueItem[];
+  }, []);
+
+  const loadEvaluation = useCallback(async (nextScope: 'queue' | 'all') => {
+    const response = await fetch(`/api/labelling/evaluation?scope=${nextScope}`, { credentials: 'include', cache: 'no-store' });
+    const payload = await response.json().catch(() => null);
+    if (!response.ok || !payload?.success) {
+      throw new Error(payload?.error || 'Failed to evaluate the tagger.');
+    }
+    setEvaluation(payload.evaluation as TaggerEvaluation);
+  }, []);
+
+  const select = useCallback(async (reference: string) => {
+    setError(null);
+    setBusy('select');
+    try {
+      const [detailResponse, correctionsResponse] = await Promise.all([
+        fetch(`/api/fos/cases/${encodeURIComponent(reference)}`, { cache: 'no-store' }),
+        fetch(`/api/fos/cases/${encodeURIComponent(reference)}/corrections`, { credentials: 'include', cache: 'no-store' }),
+      ]);
+      const detailPayload = await detailResponse.json().catch(() => null);
+      const correctionsPayload = await correctionsResponse.json().catch(() => null);
+      if (!correctionsResponse.ok || !correctionsPayload?.success) {
+        throw new Error(correctionsPayload?.error || 'Failed to load the decision.');
+      }
+      const corrections = correctionsPayload.corrections as DecisionCorrections;
+      setSelected({ reference, detail: detailPayload?.success ? (detailPayload.data as FOSCaseDetail) : null, corrections });
+      setDraft(corrections.labels);
+      setNote('');
+    } catch (selectError) {
+      setError(selectError instanceof Error ? selectError.message : 'Failed to load the decision.');
+    } finally {
+      setBusy(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([loadQueue(), loadEvaluation('queue')])
+      .then(([queue]) => {
+        if (queue[0]) void select(queue[0].decisionReference);
+      })
+      .catch((loadError) => setError(loadError instanceof Error ? loadError.message : 'Failed to load labelling.'))
+      .finally(() => setLoading(false));
+  }, [loadEvaluation, loadQueue, select]);
+
+  async function sample() {
+    setBusy('sample');
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetch('/api/labelling', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ size: Number(sampleSize) }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to sample decisions.');
+      }
+      setStatus(`${payload.added} decision${payload.added === 1 ? '' : 's'} added to the queue.`);
+      const queue = await loadQueue();
+      if (!selected && queue[0]) void select(queue[0].decisionReference);
+    } catch (sampleError) {
+      setError(sampleError instanceof Error ? sampleError.message : 'Failed to sample decisions.');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function review(action: 'confirm' | 'skip') {
+    if (!selected || !draft) return;
+    const corrections: Record<string, unknown> = { note };
+    for (const field of Object.keys(CORRECTION_FIELD_LABELS) as CorrectionField[]) {
+      const before = selected.corrections.labels[field];
+      const after = draft[field];
+      if (field === 'product' && !String(after || '').trim()) continue;
+      if (JSON.stringify(before) !== JSON.stringify(after)) corrections[field] = after;
+    }
+
+    setBusy(action);
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetch(`/api/labelling/${encodeURIComponent(selected.reference)}`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'confirm' ? { action, corrections } : { action }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to review the decision.');
+      }
+      setStatus(action === 'confirm' ? `${selected.reference} added to the gold set.` : `${selected.reference} skipped.`);
+      const [queue] = await Promise.all([loadQueue(), loadEvaluation(scope)]);
+      const next = queue.find((item) => item.decisionReference !== selected.reference);
+      if (next) {
+        void select(next.decisionReference);
+      } else {
+        setSelected(null);
+        setDraft(null);
+      }
+    } catch (reviewError) {
+      setError(reviewError instanceof Error ? reviewError.message : 'Failed to review the decision.');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function changeScope(nextScope: 'queue' | 'all') {
+    setScope(nextScope);
+    loadEvaluation(nextScope).catch((scopeError) =>
+      setError(scopeError instanceof Error ? scopeError.message : 'Failed to evaluate the tagger.')
+    );
+  }
+
+  const metrics = evaluation?.fields.find((field) => field.field === metricField) || null;
+  const detail = selected?.detail || null;
+
+  return (
+    <div className="mx-auto flex w-full max-w-7xl flex-col gap-6 px-4 py-8 md:px-8">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <p className="text-xs font-semibold uppercase tracking-[0.22em] text-slate-500">Data quality</p>
+        <h1 className="mt-2 text-3xl font-semibold tracking-tight text-slate-950">Labelling</h1>
+        <p className="mt-3 max-w-3xl text-sm leading-7 text-slate-600">
+          Review randomly sampled decisions and confirm or correct their outcome, product and tags. Confirmed decisions form the gold set
+          the tagger is scored against; corrections are written back to the decision and survive re-ingestion and re-tagging.
+        </p>
+        <div className="mt-4 flex flex-wrap items-end gap-4">
+          <div className="flex flex-wrap gap-2 text-xs" data-testid="labelling-summary">
+            <span className="rounded-full bg-sky-100 px-3 py-1 font-semibold text-sky-700">{formatNumber(summary?.pending || 0)} pending</span>
+            <span className="rounded-full bg-emerald-100 px-3 py-1 font-semibold text-emerald-700">
+              {formatNumber(summary?.reviewed || 0)} in gold set
+            </span>
+            <span className="rounded-full bg-slate-100 px-3 py-1 font-semibold text-slate-600">{formatNumber(summary?.skipped || 0)} skipped</span>
+          </div>
+          <div className="ml-auto flex items-end gap-2">
+            <label className="grid gap-1 text-xs text-slate-600">
+              <span className="font-medium">Sample size</span>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={sampleSize}
+                onChange={(event) => setSampleSize(event.target.value)}
+                className="w-24 rounded-xl border border-slate-200 px-3 py-2 text-sm"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => void sample()}
+              disabled={busy !== null || loading}
+              className="rounded-full bg-[#0f1f4f] px-5 py-2.5 text-sm font-semibold text-white hover:bg-[#0c1940] disabled:opacity-60"
+            >
+              {busy === 'sample' ? 'Sampling…' : 'Sample decisions'}
+            </button>
+          </div>
+        </div>
+      </section>
+
+      {error ? <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</p> : null}
+      {status ? <p className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">{status}</p> : null}
+
+      <section className="grid gap-6 xl:grid-cols-[0.7fr_1.6fr]">
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-950">Queue</h2>
+          {items.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">{loading ? 'Loading…' : 'Nothing to review. Sample some decisions to start.'}</p>
+          ) : (
+            <ul className="mt-3 grid max-h-[36rem] gap-1 overflow-y-auto" data-testid="labelling-queue">
+              {items.map((item) => (
+                <li key={item.decisionReference}>
+                  <button
+                    type="button"
+                    onClick={() => void select(item.decisionReference)}
+                    className={`w-full rounded-xl px-3 py-2 text-left text-sm ${
+                      selected?.reference === item.decisionReference ? 'bg-sky-50 text-sky-800' : 'text-slate-700 hover:bg-slate-50'
+                    }`}
+                  >
+                    <span className="font-semibold">{item.decisionReference}</span>
+                    <span className="block text-xs text-slate-500">
+                      {[item.firmName, item.product, item.decisionDate ? formatDate(item.decisionDate) : null].filter(Boolean).join(' · ')}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm" data-testid="labelling-review">
+          {selected && draft ? (
+            <div className="grid gap-5">
+              <div>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h2 className="text-lg font-semibold text-slate-950">{selected.reference}</h2>
+                  {detail?.pdfUrl ? (
+                    <a href={detail.pdfUrl} target="_blank" rel="noreferrer" className="text-xs font-semibold text-blue-700 hover:underline">
+                      Open PDF
+                    </a>
+                  ) : null}
+                </div>
+                <p className="mt-1 text-xs text-slate-500">
+                  {[detail?.firmName, detail?.decisionDate ? formatDate(detail.decisionDate) : null, OUTCOME_LABELS[selected.corrections.labels.outcome]]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              </div>
+
+              {detail ? (
+                <div className="grid max-h-80 gap-3 overflow-y-auto rounded-2xl border border-slate-200 bg-slate-50 p-4 text-sm leading-6 text-slate-700">
+                  {detail.decisionLogic || detail.decisionSummary ? <p>{detail.decisionLogic || detail.decisionSummary}</p> : null}
+                  {detail.ombudsmanReasoningText ? (
+                    <p>
+                      <span className="font-semibold text-slate-900">Reasoning: </span>
+                      {truncate(detail.ombudsmanReasoningText, 3000)}
+                    </p>
+                  ) : null}
+                  {detail.finalDecisionText ? (
+                    <p>
+                      <span className="font-semibold text-slate-900">Final decision: </span>
+                      {truncate(detail.finalDecisionText, 1200)}
+                    </p>
+                  ) : null}
+                </div>
+              ) : null}
+
+              <DecisionLabelEditor
+                idPrefix="labelling"
+                labels={draft}
+                labelOptions={selected.corrections.labelOptions}
+                correctedFields={selected.corrections.overrides.map((override) => override.field)}
+                onChange={setDraft}
+                disabled={busy !== null}
+              />
+
+              <label className="grid gap-1.5 text-sm text-slate-700">
+                <span className="font-medium">Note</span>
+                <input
+                  value={note}
+                  onChange={(event) => setNote(event.target.value)}
+                  placeholder="Optional, recorded against every field you change"
+                  className="rounded-xl border border-slate-200 px-3 py-2"
+                />
+              </label>
+
+              <div className="flex flex-wrap gap-3">
+                <button
+                  type="button"
+                  data-testid="labelling-confirm"
+                  onClick={() => void review('confirm')}
+                  disabled={busy !== null}
+                  className="rounded-full bg-emerald-600 px-5 py-2.5 text-sm font-semibold text-white hover:bg-emerald-700 disabled:opacity-60"
+                >
+                  {busy === 'confirm' ? 'Saving…' : 'Confirm labels'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void review('skip')}
+                  disabled={busy !== null}
+                  className="rounded-full border border-slate-300 bg-white px-5 py-2.5 text-sm font-semibold text-slate-700 hover:border-slate-400 disabled:opacity-60"
+                >
+                  Skip
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">{busy === 'select' ? 'Loading decision…' : 'Select a queued decision to review it.'}</p>
+          )}
+        </div>
+      </section>
+
+      <section className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm" data-testid="labelling-evaluation">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-950">Tagger accuracy</h2>
+            <p className="mt-1 text-xs text-slate-500">
+              {evaluation
+                ? `Tag rules v${evaluation.ruleVersion} against ${formatNumber(evaluation.goldDecisions)} gold decision${evaluation.goldDecisions === 1 ? '' : 's'}.`
+                : 'Loading…'}{' '}
+              Ad-hoc corrections skew towards decisions the tagger got wrong, so the queue sample is the fairer measure.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {(['queue', 'all'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => changeScope(option)}
+                className={`rounded-full px-4 py-1.5 text-xs font-semibold ${
+                  scope === option ? 'bg-[#0f1f4f] text-white' : 'border border-slate-200 bg-white text-slate-700 hover:border-slate-300'
+                }`}
+              >
+                {option === 'queue' ? 'Queue sample' : 'All corrections'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {evaluation ? (
+          <div className="mt-4 grid gap-5">
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="text-xs text-slate-500">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">Field</th>
+                    <th className="py-1 pr-3 font-medium">Decisions</th>
+                    <th className="py-1 pr-3 font-medium">Precision</th>
+                    <th className="py-1 pr-3 font-medium">Recall</th>
+                    <th className="py-1 font-medium">F1</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {evaluation.fields.map((field) => (
+                    <tr
+                      key={field.field}
+                      onClick={() => setMetricField(field.field)}
+                      className={`cursor-pointer border-t border-slate-100 ${metricField === field.field ? 'bg-sky-50' : 'hover:bg-slate-50'}`}
+                    >
+                      <td className="py-1.5 pr-3 font-medium text-slate-900">{FIELD_TITLES[field.field]}</td>
+                      <td className="py-1.5 pr-3 text-slate-700">{formatNumber(field.decisions)}</td>
+                      <td className="py-1.5 pr-3 text-slate-700">{formatPercent(field.precision)}</td>
+                      <td className="py-1.5 pr-3 text-slate-700">{formatPercent(field.recall)}</td>
+                      <td className="py-1.5 text-slate-700">{formatPercent(field.f1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-slate-500">
+                Outcome as ingested: {formatPercent(evaluation.outcome.accuracy)} correct ({formatNumber(evaluation.outcome.decisions)} decisions) ·
+                Product as published: {formatPercent(evaluation.product.accuracy)} correct ({formatNumber(evaluation.product.decisions)} decisions)
+              </p>
+            </div>
+
+            {metrics && metrics.labels.length > 0 ? (
+              <div className="overflow-x-auto">
+                <h3 className="text-sm font-semibold text-slate-900">{FIELD_TITLES[metrics.field]} by label</h3>
+                <table className="mt-2 w-full text-left text-xs">
+                  <thead className="text-slate-500">
+                    <tr>
+                      <th className="py-1 pr-3 font-medium">Label</th>
+                      <th className="py-1 pr-3 font-medium">Gold</th>
+                      <th className="py-1 pr-3 font-medium">Tagged</th>
+                      <th className="py-1 pr-3 font-medium">Precision</th>
+                      <th className="py-1 font-medium">Recall</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {metrics.labels.map((label) => (
+                      <tr key={label.label} className="border-t border-slate-100">
+                        <td className="py-1.5 pr-3 text-slate-800">{label.label}</td>
+                        <td className="py-1.5 pr-3 text-slate-700">{label.support}</td>
+                        <td className="py-1.5 pr-3 text-slate-700">{label.predicted}</td>
+                        <td className="py-1.5 pr-3 text-slate-700">{formatPercent(label.precision)}</td>
+                        <td className="py-1.5 text-slate-700">{formatPercent(label.recall)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+      </section>
+    </div>
+  );
+}
+
+function formatPercent(value: number | null): string {
+  return value == null ? '–' : `${(value * 100).toFixed(1)}%`;
+}
@@ -4,10 +4,13 @@ import { useCallback, useRef, useState, useEffect } from 'react';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { FOSCaseContext, FOSCaseDetail, FOSSimilarCase } from '@/lib/fos/types';
+import { CaseCorrectionsPanel } from '@/components/corrections/case-corrections-panel';
+import { DecisionRevisionBanner } from '@/components/dashboard/decision-revision-banner';
+import type { DecisionLabels } from '@/lib/corrections/types';
+import { FOSCaseContext, FOSCaseDetail, FOSSimilarCase, FOSSimilarityMode } from '@/lib/fos/types';
 import { OUTCOME_LABELS } from '@/lib/fos/constants';
 import { formatDate, truncate } from '@/lib/utils';
-import { Loader2, Search } from 'lucide-react';
+import { Loader2, Search, Sparkles } from 'lucide-react';
 
 interface CaseDetailSheetProps {
   open: boolean;
@@ -86,6 +89,8 @@ const OUTCOME_BADGE_STYLES: Record<string, string> = {
 function SimilarDecisionsSection({ caseId, onSelectCase }: { caseId: string; onSelectCase?: (id: string) => void }) {
   const [context, setContext] = useState<FOSCaseContext | null>(null);
   const [similar, setSimilar] = useState<FOSSimilarCase[]>([]);
+  const [mode, setMode] = useState<FOSSimilarityMode>('attribute');
+  const [fellBack, setFellBack] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [triggered, setTriggered] = useState(false);
@@ -96,7 +101,7 @@ function SimilarDecisionsSection({ caseId, onSelectCase }: { caseId: string; onS
     return () => { abortRef.current?.abort(); };
   }, []);
 
-  const handleFindSimilar = useCallback(async () => {
+  const handleFindSimilar = useCallback(async (requestedMode: FOSSimilarityMode) => {
     abortRef.current?.abort();
     const controller = new AbortController();
     abortRef.current = controller;
@@ -105,13 +110,15 @@ function SimilarDecisionsSection({ caseId, onSelectCase }: { caseId: string; onS
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch(`/api/fos/cases/${encodeURIComponent(caseId)}/similar`, {
+      const res = await fetch(`/api/fos/cases/${encodeURIComponent(caseId)}/similar?mode=${requestedMode}`, {
         signal: controller.signal,
       });
       const data = await res.json();
       if (!data.success) throw new Error(data.error || 'Failed to load similar decisions.');
       setContext(data.data.context);
       setSimilar(data.data.cases);
+      setMode(data.data.mode);
+      setFellBack(requestedMode === 'semantic' && data.data.mode !== 'semantic');
     } catch (err) {
       if (err instanceof DOMException && err.name === 'AbortError') return;
       setError(err instanceof Error ? err.message : 'Unknown error.');
@@ -124,13 +131,22 @@ function SimilarDecisionsSection({ caseId, onSelectCase }: { caseId: string; onS
 
   if (!triggered) {
     return (
-      <button
-        onClick={handleFindSimilar}
-        className="flex items-center gap-2 rounded-full border border-indigo-300 bg-indigo-50 px-4 py-2 text-sm font-semibold text-indigo-700 transition hover:bg-indigo-100"
-      >
-        <Search className="h-4 w-4" />
-        Find Similar Decisions
-      </button>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => handleFindSimilar('attribute')}
+          className="flex items-center gap-2 rounded-full border border-indigo-300 bg-indigo-50 px-4 py-2 text-sm font-semibold text-indigo-700 transition hover:bg-indigo-100"
+        >
+          <Search className="h-4 w-4" />
+          Find Similar Decisions
+        </button>
+        <button
+          onClick={() => handleFindSimilar('semantic')}
+          className="flex items-center gap-2 rounded-full border border-violet-300 bg-violet-50 px-4 py-2 text-sm font-semibold text-violet-700 transition hover:bg-violet-100"
+        >
+          <Sparkles className="h-4 w-4" />
+          Find Similar Wording
+        </button>
+      </div>
     );
   }
 
@@ -199,8 +215,11 @@ function SimilarDecisionsSection({ caseId, onSelectCase }: { caseId: string; onS
       {similar.length > 0 ? (
         <div className="rounded-xl border border-slate-200 bg-white p-4">
           <h3 className="mb-2 text-sm font-semibold text-slate-900">
-            Similar Decisions ({similar.length})
+            Similar Decisions ({similar.length}){mode === 'semantic' ? ' · wording + attributes' : ''}
           </h3>
+          {fellBack && (
+            <p className="mb-2 text-xs text-amber-700">No decision embeddings are available yet, so these are attribute matches only.</p>
+          )}
           <div className="space-y-2">
             {similar.map((c) => (
               <div
@@ -227,6 +246,19 @@ function SimilarDecisionsSection({ caseId, onSelectCase }: { caseId: string; onS
                   {c.decisionSummary && (
                     <p className="mt-1 text-xs text-slate-600">{truncate(c.decisionSummary, 120)}</p>
                   )}
+                  {c.signals.length > 0 && (
+                    <div className="mt-1.5 flex flex-wrap gap-1">
+                      {c.signals.map((signal) => (
+                        <span
+                          key={signal.kind}
+                          title={signal.matches?.join(', ')}
+                          className="rounded-full bg-slate-100 px-2 py-0.5 text-[10px] font-medium text-slate-600"
+                        >
+                          {signal.label} +{signal.contribution}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -240,6 +272,10 @@ function SimilarDecisionsSection({ caseId, onSelectCase }: { caseId: string; onS
 }
 
 export function CaseDetailSheet({ open, onOpenChange, caseDetail, loading, error, onSelectCase }: CaseDetailSheetProps) {
+  // Corrections saved from this sheet, shown until the parent reloads the case.
+  const [corrected, setCorrected] = useState<{ caseId: string; labels: DecisionLabels } | null>(null);
+  const labels = caseDetail && corrected?.caseId === caseDetail.caseId ? corrected.labels : null;
+
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
       <SheetContent side="right" className="overflow-y-auto sm:max-w-2xl">
@@ -247,7 +283,7 @@ export function CaseDetailSheet({ open, onOpenChange, caseDetail, loading, error
           <SheetTitle>{caseDetail?.decisionReference || 'Case Detail'}</SheetTitle>
           <SheetDescription>
             {caseDetail
-              ? `${caseDetail.decisionDate ? formatDate(caseDetail.decisionDate) : 'Date unavailable'} | ${caseDetail.firmName || 'Unknown firm'} | ${caseDetail.productGroup || 'Unspecified'}`
+              ? `${caseDetail.decisionDate ? formatDate(caseDetail.decisionDate) : 'Date unavailable'} | ${caseDetail.firmName || 'Unknown firm'} | ${(labels ? labels.product : caseDetail.productGroup) || 'Unspecified'}`
               : 'Loading case information...'}
           </SheetDescription>
         </SheetHeader>
@@ -264,9 +300,11 @@ export function CaseDetailSheet({ open, onOpenChange, caseDetail, loading, error
 
         {caseDetail && (
           <div className="mt-4 space-y-5">
+            <DecisionRevisionBanner caseId={caseDetail.caseId} />
+
             <div className="flex flex-wrap gap-2">
               <Badge variant="secondary" className="rounded-full">
-                {OUTCOME_LABELS[caseDetail.outcome]}
+                {OUTCOME_LABELS[labels?.outcome || caseDetail.outcome]}
               </Badge>
               {caseDetail.pdfUrl && (
                 <a href={caseDetail.pdfUrl} target="_blank" rel="noreferrer">
@@ -316,12 +354,17 @@ export function CaseDetailSheet({ open, onOpenChange, caseDetail, loading, error
             <section className="rounded-xl border border-slate-200 bg-slate-50 p-4">
               <h3 className="text-sm font-semibold text-slate-900">Smart tags</h3>
               <div className="mt-3 space-y-3">
-                <TagCluster title="Precedents" values={caseDetail.precedents} />
-                <TagCluster title="Root causes" values={caseDetail.rootCauseTags} />
-                <TagCluster title="Vulnerability flags" values={caseDetail.vulnerabilityFlags} />
+                <TagCluster title="Precedents" values={labels?.precedents || caseDetail.precedents} />
+                <TagCluster title="Root causes" values={labels?.rootCauseTags || caseDetail.rootCauseTags} />
+                <TagCluster title="Vulnerability flags" values={labels?.vulnerabilityFlags || caseDetail.vulnerabilityFlags} />
               </div>
             </section>
 
+            <CaseCorrectionsPanel
+              caseId={caseDetail.caseId}
+              onLabelsChange={(next) => setCorrected({ caseId: caseDetail.caseId, labels: next })}
+            />
+
             {/* Decision context + similar decisions */}
             <section className="space-y-3">
               <SimilarDecisionsSection caseId={caseDetail.caseId} onSelectCase={onSelectCase} />
@@ -7,6 +7,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { FOSCaseListItem, FOSPagination } from '@/lib/fos/types';
 import { OUTCOME_LABELS } from '@/lib/fos/constants';
 import { EmptyState } from '@/components/shared/empty-state';
+import { SearchSnippet } from '@/components/shared/search-snippet';
 import { formatDate, formatNumber, truncate } from '@/lib/utils';
 
 interface CaseExplorerProps {
@@ -24,7 +25,9 @@ export function CaseExplorer({ cases, pagination, loading, error, onSelectCase,
     <article className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
       <header className="border-b border-slate-200 px-5 py-4">
         <h2 className="text-lg font-semibold text-slate-900">Case explorer</h2>
-        <p className="text-sm text-slate-500">Click a row to open full complaint, reasoning, and decision content.</p>
+        <p className="text-sm text-slate-500">
+          Click a row to open full complaint, reasoning, and decision content. Search results are ordered by relevance.
+        </p>
       </header>
 
       <Table>
@@ -35,7 +38,9 @@ export function CaseExplorer({ cases, pagination, loading, error, onSelectCase,
             <TableHead className="text-xs uppercase tracking-wider">Firm</TableHead>
             <TableHead className="text-xs uppercase tracking-wider">Product</TableHead>
             <TableHead className="text-xs uppercase tracking-wider">Outcome</TableHead>
-            <TableHead className="text-xs uppercase tracking-wider">Decision logic</TableHead>
+            <TableHead className="text-xs uppercase tracking-wider">
+              {cases.some((item) => item.searchSnippet) ? 'Matching text' : 'Decision logic'}
+            </TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -54,7 +59,13 @@ export function CaseExplorer({ cases, pagination, loading, error, onSelectCase,
                   {OUTCOME_LABELS[item.outcome]}
                 </Badge>
               </TableCell>
-              <TableCell className="text-slate-600">{truncate(item.decisionLogic || item.decisionSummary || 'n/a', 120)}</TableCell>
+              <TableCell className="text-slate-600">
+                {item.searchSnippet ? (
+                  <SearchSnippet snippet={item.searchSnippet} className="text-sm" />
+                ) : (
+                  truncate(item.decisionLogic || item.decisionSummary || 'n/a', 120)
+                )}
+              </TableCell>
             </TableRow>
           ))}
           {error && (
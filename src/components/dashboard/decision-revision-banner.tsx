@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/components/auth/auth-provider';
+import { OUTCOME_LABELS } from '@/lib/fos/constants';
+import type { FOSOutcome } from '@/lib/fos/types';
+import type { DecisionRevisionHistory, RevisionField } from '@/lib/revisions/types';
+import { formatDate, formatNumber } from '@/lib/utils';
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  decisionDate: 'Decision date',
+  firmName: 'Firm',
+  productGroup: 'Product',
+  outcome: 'Outcome',
+  ombudsmanName: 'Ombudsman',
+  precedents: 'Precedents',
+  rootCauseTags: 'Root causes',
+  vulnerabilityFlags: 'Vulnerability flags',
+};
+
+const DIFF_STYLES = {
+  same: 'text-slate-600',
+  added: 'bg-emerald-50 text-emerald-800',
+  removed: 'bg-rose-50 text-rose-800 line-through decoration-rose-300',
+};
+
+const DIFF_MARKERS = { same: ' ', added: '+', removed: '−' };
+
+/** Shown on a decision FOS has republished since it was first ingested; renders nothing otherwise. */
+export function DecisionRevisionBanner({ caseId }: { caseId: string }) {
+  const { user } = useAuth();
+  const [history, setHistory] = useState<DecisionRevisionHistory | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    setHistory(null);
+    setSelectedId(null);
+    setExpanded(false);
+    if (!user) return;
+
+    const controller = new AbortController();
+    fetch(`/api/fos/cases/${encodeURIComponent(caseId)}/revisions`, { cache: 'no-store', signal: controller.signal })
+      .then((response) => response.json().catch(() => null))
+      .then((payload) => {
+        if (payload?.success) setHistory(payload.history as DecisionRevisionHistory);
+      })
+      .catch(() => undefined);
+    return () => controller.abort();
+  }, [caseId, user]);
+
+  if (!history || history.revisions.length === 0) return null;
+
+  const latest = history.revisions[0];
+  const revision = history.revisions.find((item) => item.id === selectedId) || latest;
+
+  return (
+    <section className="rounded-xl border border-amber-200 bg-amber-50 p-4" data-testid="case-revision-banner">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-semibold text-amber-900">
+          This decision changed on {formatDate(latest.detectedAt)}
+          {history.revisions.length > 1 ? (
+            <span className="font-normal text-amber-800"> · {history.revisions.length} earlier versions</span>
+          ) : null}
+        </p>
+        <button
+          type="button"
+          data-testid="case-revision-toggle"
+          onClick={() => setExpanded((value) => !value)}
+          className="rounded-full border border-amber-300 bg-white px-3 py-1.5 text-xs font-semibold text-amber-800 hover:bg-amber-100"
+        >
+          {expanded ? 'Hide changes' : 'Show changes'}
+        </button>
+      </div>
+
+      {expanded ? (
+        <div className="mt-3 grid gap-3 text-xs">
+          {history.revisions.length > 1 ? (
+            <label className="flex items-center gap-2 text-slate-700">
+              <span className="font-medium">Change</span>
+              <select
+                value={revision.id}
+                onChange={(event) => setSelectedId(event.target.value)}
+                className="rounded-lg border border-amber-200 bg-white px-2 py-1"
+              >
+                {history.revisions.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {formatDate(item.detectedAt)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
+          {revision.fieldChanges.length > 0 ? (
+            <ul className="grid gap-1 text-slate-700">
+              {revision.fieldChanges.map((change) => (
+                <li key={change.field}>
+                  <span className="font-semibold">{FIELD_LABELS[change.field]}:</span>{' '}
+                  {formatValue(change.field, change.before)} → {formatValue(change.field, change.after)}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+
+          {revision.diff.length === 0 ? (
+            <p className="text-slate-600">The text is unchanged; only the PDF was republished.</p>
+          ) : (
+            <div className="rounded-lg border border-amber-200 bg-white">
+              <p className="border-b border-amber-100 px-3 py-2 text-slate-600">
+                <span className="text-emerald-700">+{formatNumber(revision.addedLines)}</span>{' '}
+                <span className="text-rose-700">−{formatNumber(revision.removedLines)}</span> lines
+              </p>
+              <div className="max-h-96 overflow-y-auto px-3 py-2 font-mono text-[11px] leading-relaxed" data-testid="case-revision-diff">
+                {revision.diff.map((line, index) =>
+                  line.type === 'skipped' ? (
+                    <p key={index} className="py-0.5 text-slate-400">
+                      … {formatNumber(line.count)} unchanged line{line.count === 1 ? '' : 's'}
+                    </p>
+                  ) : (
+                    <p key={index} className={`whitespace-pre-wrap px-1 ${DIFF_STYLES[line.type]}`}>
+                      {DIFF_MARKERS[line.type]} {line.text}
+                    </p>
+                  )
+                )}
+                {revision.truncated ? <p className="py-1 text-slate-500">Diff cut short; see the PDF for the full text.</p> : null}
+              </div>
+            </div>
+          )}
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+function formatValue(field: RevisionField, value: string | null): string {
+  if (value == null) return '—';
+  if (field === 'outcome') return OUTCOME_LABELS[value as FOSOutcome] || value;
+  if (field === 'decisionDate') return formatDate(value);
+  return value;
+}
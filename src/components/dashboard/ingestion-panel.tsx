@@ -4,14 +4,27 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { StatusBadge } from '@/components/shared/status-badge';
 import { EmptyState } from '@/components/shared/empty-state';
 import { FOSIngestionStatus, FOSDataQuality } from '@/lib/fos/types';
-import { formatNumber, formatDateTime } from '@/lib/utils';
+import type { IngestionLedger, IngestionRetryInput, IngestionWindowStatus } from '@/lib/ingestion/types';
+import { formatNumber, formatDateTime, truncate } from '@/lib/utils';
 
 interface IngestionPanelProps {
   ingestion: FOSIngestionStatus | null;
   dataQuality: FOSDataQuality | null;
   loading: boolean;
+  /** Per-window and per-decision ledger; shown when supplied. */
+  ledger?: IngestionLedger | null;
+  /** Queues failed work for the next run; the retry controls only render when supplied. */
+  onRetry?: (target: IngestionRetryInput) => void;
+  retrying?: boolean;
 }
 
+const WINDOW_STYLES: Record<IngestionWindowStatus, string> = {
+  pending: 'bg-sky-100 text-sky-700',
+  running: 'bg-amber-100 text-amber-700',
+  completed: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-rose-100 text-rose-700',
+};
+
 function QualityRow({ label, value }: { label: string; value: string }) {
   return (
     <div className="flex items-center justify-between rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
@@ -21,7 +34,132 @@ function QualityRow({ label, value }: { label: string; value: string }) {
   );
 }
 
-export function IngestionPanel({ ingestion, dataQuality, loading }: IngestionPanelProps) {
+function RetryButton({ onClick, disabled }: { onClick: () => void; disabled?: boolean }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className="rounded-full border border-slate-300 bg-white px-3 py-1 text-xs font-semibold text-slate-700 hover:border-slate-400 disabled:opacity-60"
+    >
+      Retry
+    </button>
+  );
+}
+
+function LedgerSection({ ledger, onRetry, retrying }: { ledger: IngestionLedger; onRetry?: IngestionPanelProps['onRetry']; retrying?: boolean }) {
+  const { totals } = ledger;
+  return (
+    <div className="mt-6 space-y-6">
+      <div>
+        <h3 className="text-sm font-semibold text-slate-900">Windows</h3>
+        <p className="mt-1 text-xs text-slate-500">
+          {formatNumber(totals.windows.completed)} completed · {formatNumber(totals.windows.failed)} failed · {formatNumber(totals.windows.pending)} queued ·{' '}
+          {formatNumber(totals.windows.running)} running · {formatNumber(totals.pendingItems)} decisions waiting
+        </p>
+        {ledger.windows.length === 0 ? (
+          <p className="mt-3 text-sm text-slate-500">No windows recorded yet. The ledger fills on the next daily ingestion.</p>
+        ) : (
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-left text-sm" data-testid="ingestion-windows">
+              <thead className="text-xs text-slate-500">
+                <tr>
+                  <th className="py-1 pr-3 font-medium">Window</th>
+                  <th className="py-1 pr-3 font-medium">Status</th>
+                  <th className="py-1 pr-3 font-medium">Decisions</th>
+                  <th className="py-1 pr-3 font-medium">Attempts</th>
+                  <th className="py-1 pr-3 font-medium">Updated</th>
+                  <th className="py-1 font-medium" />
+                </tr>
+              </thead>
+              <tbody>
+                {ledger.windows.map((window) => (
+                  <tr key={window.id} className="border-t border-slate-100 align-top">
+                    <td className="py-2 pr-3 font-medium text-slate-900">
+                      {window.startDate} → {window.endDate}
+                      {window.source !== 'fos-website' ? (
+                        <span className="ml-2 rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-600">{window.source}</span>
+                      ) : null}
+                      {window.lastError ? <p className="mt-1 text-xs font-normal text-rose-700">{truncate(window.lastError, 200)}</p> : null}
+                      {window.retryRequestedAt ? (
+                        <p className="mt-1 text-xs font-normal text-slate-500">
+                          Retry requested {formatDateTime(window.retryRequestedAt)}
+                          {window.retryRequestedBy ? ` by ${window.retryRequestedBy}` : ''}
+                        </p>
+                      ) : null}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <span className={`rounded-full px-2.5 py-1 text-[11px] font-semibold ${WINDOW_STYLES[window.status]}`}>{window.status}</span>
+                    </td>
+                    <td className="py-2 pr-3 text-slate-700">
+                      {formatNumber(window.completed)}/{formatNumber(window.discovered)}
+                      {window.failed > 0 ? <span className="text-rose-700"> ({formatNumber(window.failed)} failed)</span> : null}
+                    </td>
+                    <td className="py-2 pr-3 text-slate-700">{window.attempts}</td>
+                    <td className="py-2 pr-3 text-xs text-slate-500">{formatDateTime(window.updatedAt)}</td>
+                    <td className="py-2 text-right">
+                      {onRetry && window.status === 'failed' ? (
+                        <RetryButton onClick={() => onRetry({ windowId: window.id })} disabled={retrying} />
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-sm font-semibold text-slate-900">Failing decisions ({formatNumber(totals.failedItems)})</h3>
+          {onRetry && ledger.failures.length > 1 ? (
+            <button
+              type="button"
+              onClick={() => onRetry({ itemIds: ledger.failures.map((item) => item.id) })}
+              disabled={retrying}
+              className="rounded-full bg-[#0f1f4f] px-4 py-1.5 text-xs font-semibold text-white hover:bg-[#0c1940] disabled:opacity-60"
+            >
+              Retry all shown
+            </button>
+          ) : null}
+        </div>
+        {ledger.failures.length === 0 ? (
+          <p className="mt-3 text-sm text-slate-500">No failing decisions.</p>
+        ) : (
+          <ul className="mt-3 space-y-2" data-testid="ingestion-failures">
+            {ledger.failures.map((item) => (
+              <li key={item.id} className="flex flex-wrap items-start justify-between gap-3 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+                <div className="min-w-0 flex-1 text-sm">
+                  <p className="font-medium text-slate-900">
+                    {item.pdfUrl ? (
+                      <a href={item.pdfUrl} target="_blank" rel="noreferrer" className="hover:underline">
+                        {item.decisionReference || item.pdfUrl}
+                      </a>
+                    ) : (
+                      item.decisionReference || item.decisionKey
+                    )}
+                    <span className="ml-2 text-xs font-normal text-slate-500">
+                      {item.windowSource !== 'fos-website' ? `${item.windowSource} · ` : ''}
+                      {item.windowStart} → {item.windowEnd} · {item.attempts} attempt{item.attempts === 1 ? '' : 's'}
+                    </span>
+                  </p>
+                  <p className="mt-1 text-xs text-rose-700">
+                    <span className="font-semibold uppercase tracking-[0.12em]">{item.errorStage || item.stage}</span>{' '}
+                    {truncate(item.lastError || 'Unknown error', 300)}
+                  </p>
+                </div>
+                {onRetry ? <RetryButton onClick={() => onRetry({ itemIds: [item.id] })} disabled={retrying} /> : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function IngestionPanel({ ingestion, dataQuality, loading, ledger, onRetry, retrying }: IngestionPanelProps) {
   return (
     <Card className="shadow-sm">
       <CardHeader className="pb-3">
@@ -64,6 +202,7 @@ export function IngestionPanel({ ingestion, dataQuality, loading }: IngestionPan
         ) : (
           <EmptyState label={loading ? 'Loading ingestion diagnostics...' : 'No diagnostics available.'} />
         )}
+        {ledger ? <LedgerSection ledger={ledger} onRetry={onRetry} retrying={retrying} /> : null}
       </CardContent>
     </Card>
   );
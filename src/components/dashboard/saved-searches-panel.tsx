@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { Bell, BellOff, Bookmark, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { FOSSavedSearch } from '@/lib/saved-searches/types';
+import { formatNumber } from '@/lib/utils';
+
+interface SavedSearchesPanelProps {
+  savedSearches: FOSSavedSearch[];
+  canSave: boolean;
+  activeSavedSearchId: string | null;
+  onSave: (name: string) => Promise<void>;
+  onApply: (savedSearch: FOSSavedSearch) => void;
+  onToggleAlerts: (savedSearch: FOSSavedSearch) => Promise<void>;
+  onDelete: (savedSearch: FOSSavedSearch) => Promise<void>;
+}
+
+export function SavedSearchesPanel({
+  savedSearches,
+  canSave,
+  activeSavedSearchId,
+  onSave,
+  onApply,
+  onToggleAlerts,
+  onDelete,
+}: SavedSearchesPanelProps) {
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(key: string, action: () => Promise<void>) {
+    setSaving(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Saved search request failed.');
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white px-4 py-3 shadow-sm" data-testid="saved-searches-panel">
+      <div className="flex flex-wrap items-center gap-2">
+        <Bookmark className="h-4 w-4 text-slate-400" />
+        <span className="text-xs font-semibold uppercase tracking-[0.16em] text-slate-500">Saved searches</span>
+        {savedSearches.length === 0 ? (
+          <span className="text-xs text-slate-500">Save a filter set to track new decisions that match it.</span>
+        ) : (
+          savedSearches.map((item) => (
+            <span
+              key={item.id}
+              data-testid="saved-search-chip"
+              className={`inline-flex items-center gap-1 rounded-full border py-1 pl-3 pr-1 text-xs ${
+                activeSavedSearchId === item.id ? 'border-blue-300 bg-blue-50 text-blue-800' : 'border-slate-200 bg-slate-50 text-slate-700'
+              }`}
+            >
+              <button type="button" onClick={() => onApply(item)} className="font-medium hover:underline">
+                {item.name}
+              </button>
+              {item.newSinceLastViewed > 0 && (
+                <span className="rounded-full bg-emerald-100 px-1.5 py-0.5 text-[10px] font-semibold text-emerald-700" data-testid="saved-search-new-count">
+                  {formatNumber(item.newSinceLastViewed)} new
+                </span>
+              )}
+              <button
+                type="button"
+                title={item.alertsEnabled ? 'Alerts on - click to mute' : 'Alerts off - click to watch'}
+                onClick={() => void run(item.id, () => onToggleAlerts(item))}
+                className="rounded-full p-1 text-slate-400 hover:bg-white hover:text-slate-700"
+              >
+                {item.alertsEnabled ? <Bell className="h-3 w-3" /> : <BellOff className="h-3 w-3" />}
+              </button>
+              <button
+                type="button"
+                title="Delete saved search"
+                onClick={() => void run(item.id, () => onDelete(item))}
+                className="rounded-full p-1 text-slate-400 hover:bg-white hover:text-rose-600"
+              >
+                {saving === item.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3" />}
+              </button>
+            </span>
+          ))
+        )}
+        {canSave && (
+          <div className="ml-auto flex items-center gap-2">
+            <input
+              data-testid="saved-search-name-input"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter' && name.trim()) void run('create', async () => { await onSave(name); setName(''); });
+              }}
+              placeholder="Name this search"
+              className="w-44 rounded-lg border border-slate-200 px-2.5 py-1.5 text-xs"
+            />
+            <Button
+              data-testid="saved-search-save-button"
+              size="sm"
+              variant="outline"
+              className="gap-1.5"
+              disabled={!name.trim() || saving === 'create'}
+              onClick={() => void run('create', async () => { await onSave(name); setName(''); })}
+            >
+              {saving === 'create' ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Bookmark className="h-3.5 w-3.5" />}
+              Save search
+            </Button>
+          </div>
+        )}
+      </div>
+      {error && <p className="mt-2 text-xs text-rose-600">{error}</p>}
+    </div>
+  );
+}
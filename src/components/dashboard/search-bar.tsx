@@ -37,7 +37,8 @@ export function SearchBar({
             value={queryDraft}
             onChange={(e) => onQueryDraftChange(e.target.value)}
             onKeyDown={(e) => { if (e.key === 'Enter') onApply(); }}
-            placeholder="Case reference, firm, product, precedent, reasoning keyword..."
+            placeholder='Keywords, "exact phrase", OR, -exclude, firm:, product:, reasoning:...'
+            title='Search decisions. Use "quoted phrases", OR between alternatives, -term to exclude, and prefixes such as firm:, product:, ref:, summary:, reasoning: or text:.'
             className="w-full rounded-xl border border-slate-300 bg-white py-3 pl-10 pr-4 text-sm text-slate-900 outline-none ring-0 transition focus:border-blue-400 focus:shadow-[0_0_0_4px_rgba(59,130,246,0.12)]"
           />
         </div>
@@ -1,7 +1,7 @@
 'use client';
 
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { FOSYearTrend } from '@/lib/fos/types';
+import { AreaChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { FOSForecast, FOSYearTrend } from '@/lib/fos/types';
 import { EmptyState } from '@/components/shared/empty-state';
 import { formatNumber } from '@/lib/utils';
 
@@ -9,20 +9,30 @@ interface TrendChartProps {
   trends: FOSYearTrend[];
   activeYears: number[];
   onToggleYear: (year: number) => void;
+  /** Full-year projection band; only drawn while no year filter is active. */
+  forecast?: FOSForecast | null;
 }
 
-export function TrendChart({ trends, activeYears, onToggleYear }: TrendChartProps) {
+interface TrendChartPoint {
+  year: number;
+  total?: number;
+  projected?: number;
+  band?: [number, number];
+}
+
+const SERIES_LABELS: Record<string, string> = {
+  total: 'Total',
+  projected: 'Projected',
+  band: 'Prediction interval',
+};
+
+export function TrendChart({ trends, activeYears, onToggleYear, forecast }: TrendChartProps) {
   if (trends.length === 0) {
     return <EmptyState label="No yearly trend data matches the current filters." />;
   }
 
-  const data = trends.map((t) => ({
-    year: t.year,
-    total: t.total,
-    upheld: t.upheld,
-    notUpheld: t.notUpheld,
-    partiallyUpheld: t.partiallyUpheld,
-  }));
+  const showForecast = Boolean(forecast) && activeYears.length === 0;
+  const data = buildChartData(trends, showForecast ? forecast ?? null : null);
 
   return (
     <div className="space-y-4">
@@ -39,7 +49,10 @@ export function TrendChart({ trends, activeYears, onToggleYear }: TrendChartProp
             <XAxis dataKey="year" tick={{ fontSize: 12 }} stroke="#94a3b8" />
             <YAxis tick={{ fontSize: 12 }} stroke="#94a3b8" tickFormatter={(v) => formatNumber(Number(v))} />
             <Tooltip
-              formatter={(value: unknown, name: unknown) => [formatNumber(Number(value)), name === 'total' ? 'Total' : String(name)]}
+              formatter={(value: unknown, name: unknown) => [
+                Array.isArray(value) ? `${formatNumber(Number(value[0]))}–${formatNumber(Number(value[1]))}` : formatNumber(Number(value)),
+                SERIES_LABELS[String(name)] ?? String(name),
+              ]}
               labelFormatter={(label: unknown) => `Year ${label}`}
               contentStyle={{ borderRadius: 8, border: '1px solid #e2e8f0', fontSize: 12 }}
             />
@@ -52,15 +65,38 @@ export function TrendChart({ trends, activeYears, onToggleYear }: TrendChartProp
               dot={{ r: 4, fill: '#06b6d4', strokeWidth: 0 }}
               activeDot={{ r: 6, fill: '#06b6d4', cursor: 'pointer' }}
               onClick={(_d, index) => {
-                if (typeof index === 'number' && data[index]) {
+                if (typeof index === 'number' && data[index]?.total != null) {
                   onToggleYear(data[index].year);
                 }
               }}
             />
+            {showForecast && (
+              <>
+                <Area type="monotone" dataKey="band" stroke="none" fill="#06b6d4" fillOpacity={0.12} isAnimationActive={false} />
+                <Line
+                  type="monotone"
+                  dataKey="projected"
+                  stroke="#0e7490"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={{ r: 3, fill: '#0e7490', strokeWidth: 0 }}
+                  isAnimationActive={false}
+                />
+              </>
+            )}
           </AreaChart>
         </ResponsiveContainer>
       </div>
 
+      {showForecast && forecast && (
+        <p className="text-xs text-slate-500">
+          Dashed line: projected full-year decisions with a {Math.round(forecast.intervalLevel * 100)}% prediction interval,
+          fitted on {forecast.historyQuarters} complete quarters to {forecast.lastCompleteQuarter}. {forecast.nextQuarter.label}:{' '}
+          {formatNumber(forecast.nextQuarter.total.value)} ({formatNumber(forecast.nextQuarter.total.lower)}–
+          {formatNumber(forecast.nextQuarter.total.upper)}).
+        </p>
+      )}
+
       <div className="flex flex-wrap gap-2">
         {trends.map((t) => {
           const isActive = activeYears.includes(t.year);
@@ -82,3 +118,26 @@ export function TrendChart({ trends, activeYears, onToggleYear }: TrendChartProp
     </div>
   );
 }
+
+/** Joins the projection onto the last complete year so the dashed line continues the actuals. */
+function buildChartData(trends: FOSYearTrend[], forecast: FOSForecast | null): TrendChartPoint[] {
+  const points = new Map<number, TrendChartPoint>(trends.map((t) => [t.year, { year: t.year, total: t.total }]));
+  if (!forecast || forecast.years.length === 0) {
+    return Array.from(points.values());
+  }
+
+  const anchorYear = forecast.years[0].year - 1;
+  const anchor = points.get(anchorYear);
+  if (anchor?.total != null) {
+    anchor.projected = anchor.total;
+    anchor.band = [anchor.total, anchor.total];
+  }
+  for (const year of forecast.years) {
+    const point = points.get(year.year) ?? { year: year.year };
+    point.projected = year.total.value;
+    point.band = [year.total.lower, year.total.upper];
+    points.set(year.year, point);
+  }
+
+  return Array.from(points.values()).sort((a, b) => a.year - b.year);
+}
@@ -0,0 +1,418 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { FOSCaseSectionSources, FOSSectionSource } from '@/lib/fos/types';
+import type {
+  SectionCoveragePoint,
+  SectionQualityOverview,
+  SectionReprocessCriteria,
+  SectionReprocessRunStatus,
+} from '@/lib/data-quality/types';
+import { formatDate, formatDateTime, formatNumber } from '@/lib/utils';
+
+const SECTIONS: Array<{ key: keyof FOSCaseSectionSources; label: string }> = [
+  { key: 'complaint', label: 'Complaint' },
+  { key: 'firmResponse', label: 'Firm response' },
+  { key: 'ombudsmanReasoning', label: 'Reasoning' },
+  { key: 'finalDecision', label: 'Final decision' },
+];
+
+const SOURCE_STYLES: Record<FOSSectionSource, string> = {
+  stored: 'bg-emerald-100 text-emerald-700',
+  inferred: 'bg-amber-100 text-amber-700',
+  missing: 'bg-rose-100 text-rose-700',
+};
+
+const RUN_STYLES: Record<SectionReprocessRunStatus, string> = {
+  queued: 'bg-sky-100 text-sky-700',
+  running: 'bg-amber-100 text-amber-700',
+  completed: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-rose-100 text-rose-700',
+  cancelled: 'bg-slate-100 text-slate-600',
+};
+
+type Filters = { product: string; yearFrom: string; yearTo: string; reprocessableOnly: boolean };
+
+const EMPTY_FILTERS: Filters = { product: '', yearFrom: '', yearTo: '', reprocessableOnly: true };
+
+export function DataQualityControls() {
+  const [quality, setQuality] = useState<SectionQualityOverview | null>(null);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [batchSize, setBatchSize] = useState('100');
+  const [loading, setLoading] = useState(true);
+  const [queueing, setQueueing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ page: String(page), reprocessable: String(applied.reprocessableOnly) });
+      if (applied.product.trim()) params.set('product', applied.product.trim());
+      if (applied.yearFrom) params.set('yearFrom', applied.yearFrom);
+      if (applied.yearTo) params.set('yearTo', applied.yearTo);
+      const response = await fetch(`/api/fos/data-quality?${params.toString()}`, { credentials: 'include', cache: 'no-store' });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to load section quality.');
+      }
+      setQuality(payload.quality as SectionQualityOverview);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load section quality.');
+    } finally {
+      setLoading(false);
+    }
+  }, [applied, page]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  function applyFilters() {
+    setSelected([]);
+    setPage(1);
+    setApplied(filters);
+  }
+
+  async function queue(criteria: SectionReprocessCriteria) {
+    setQueueing(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetch('/api/fos/data-quality/reprocess', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(criteria),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to queue the reprocess run.');
+      }
+      const total = Number(payload.run?.totalDecisions || 0);
+      setStatus(`Queued ${formatNumber(total)} decision${total === 1 ? '' : 's'} for reprocessing.`);
+      setSelected([]);
+      await load();
+    } catch (queueError) {
+      setError(queueError instanceof Error ? queueError.message : 'Failed to queue the reprocess run.');
+    } finally {
+      setQueueing(false);
+    }
+  }
+
+  function queueWorst() {
+    const limit = Number.parseInt(batchSize, 10);
+    void queue({
+      limit: Number.isFinite(limit) ? limit : 100,
+      productSector: applied.product.trim() || null,
+      yearFrom: applied.yearFrom ? Number.parseInt(applied.yearFrom, 10) : null,
+      yearTo: applied.yearTo ? Number.parseInt(applied.yearTo, 10) : null,
+    });
+  }
+
+  function toggle(caseId: string) {
+    setSelected((current) => (current.includes(caseId) ? current.filter((id) => id !== caseId) : [...current, caseId]));
+  }
+
+  const decisions = quality?.decisions || [];
+  const pagination = quality?.pagination;
+  const trend = quality ? [...quality.trend].reverse() : [];
+
+  return (
+    <div className="mx-auto flex w-full max-w-6xl flex-col gap-6 px-4 py-8 md:px-8">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <p className="text-xs font-semibold uppercase tracking-[0.22em] text-slate-500">Admin controls</p>
+        <h1 className="mt-2 text-3xl font-semibold tracking-tight text-slate-950">Data quality</h1>
+        <p className="mt-3 max-w-3xl text-sm leading-7 text-slate-600">
+          Decisions are split into complaint, firm response, reasoning and final decision sections at ingestion. Sections that were not
+          stored are inferred from the full text when a case is opened, at lower confidence. Reprocessing re-splits a batch with the
+          current splitter (v{quality?.splitterVersion ?? '…'}); runs are processed by <code>npm run db:reprocess-fos-sections</code>.
+        </p>
+      </section>
+
+      {error ? <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</p> : null}
+      {status ? <p className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">{status}</p> : null}
+
+      <section className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm" data-testid="data-quality-coverage">
+        <h2 className="text-lg font-semibold text-slate-950">Section coverage</h2>
+        {quality ? (
+          <>
+            <div className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+              {SECTIONS.map((section) => (
+                <CoverageTile key={section.key} label={section.label} value={quality.current.coveragePct[section.key]} />
+              ))}
+              <CoverageTile label="All four" value={quality.current.coveragePct.complete} />
+            </div>
+            <p className="mt-3 text-xs text-slate-500">
+              {formatNumber(quality.current.total)} decisions · {formatNumber(quality.current.withFullText)} with full text · average section
+              score {quality.current.averageScore.toFixed(2)}
+            </p>
+
+            <h3 className="mt-5 text-sm font-semibold text-slate-900">Trend</h3>
+            {trend.length === 0 ? (
+              <p className="mt-2 text-sm text-slate-500">
+                No snapshots yet. <code>npm run db:report-fos-quality</code> and each reprocess run record one.
+              </p>
+            ) : (
+              <div className="mt-2 overflow-x-auto">
+                <table className="w-full text-left text-xs" data-testid="data-quality-trend">
+                  <thead className="text-slate-500">
+                    <tr>
+                      <th className="py-1 pr-3 font-medium">Captured</th>
+                      <th className="py-1 pr-3 font-medium">Source</th>
+                      <th className="py-1 pr-3 font-medium">Decisions</th>
+                      {SECTIONS.map((section) => (
+                        <th key={section.key} className="py-1 pr-3 font-medium">
+                          {section.label}
+                        </th>
+                      ))}
+                      <th className="py-1 pr-3 font-medium">All four</th>
+                      <th className="py-1 font-medium">Score</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[quality.current, ...trend].map((point) => (
+                      <TrendRow key={`${point.source}-${point.capturedAt}`} point={point} />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="mt-3 text-sm text-slate-500">{loading ? 'Loading…' : 'No coverage available.'}</p>
+        )}
+      </section>
+
+      <section className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-950">Decisions with incomplete sections</h2>
+        <p className="mt-2 text-xs text-slate-500">Lowest section score first. A decision is reprocessable when it has full text and an older split.</p>
+        <div className="mt-4 grid gap-3 md:grid-cols-[1fr_auto_auto_auto_auto] md:items-end">
+          <label className="grid gap-2 text-sm text-slate-700">
+            <span className="font-medium">Product</span>
+            <input
+              value={filters.product}
+              onChange={(event) => setFilters((current) => ({ ...current, product: event.target.value }))}
+              placeholder="Any product"
+              className="rounded-xl border border-slate-200 px-3 py-2"
+            />
+          </label>
+          <label className="grid gap-2 text-sm text-slate-700">
+            <span className="font-medium">From year</span>
+            <input
+              type="number"
+              value={filters.yearFrom}
+              onChange={(event) => setFilters((current) => ({ ...current, yearFrom: event.target.value }))}
+              className="w-28 rounded-xl border border-slate-200 px-3 py-2"
+            />
+          </label>
+          <label className="grid gap-2 text-sm text-slate-700">
+            <span className="font-medium">To year</span>
+            <input
+              type="number"
+              value={filters.yearTo}
+              onChange={(event) => setFilters((current) => ({ ...current, yearTo: event.target.value }))}
+              className="w-28 rounded-xl border border-slate-200 px-3 py-2"
+            />
+          </label>
+          <label className="flex items-center gap-2 pb-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={filters.reprocessableOnly}
+              onChange={(event) => setFilters((current) => ({ ...current, reprocessableOnly: event.target.checked }))}
+            />
+            Reprocessable only
+          </label>
+          <button
+            type="button"
+            onClick={applyFilters}
+            disabled={loading}
+            className="rounded-full border border-slate-300 bg-white px-5 py-2.5 text-sm font-semibold text-slate-700 hover:border-slate-400 disabled:opacity-60"
+          >
+            Apply
+          </button>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={() => void queue({ references: selected })}
+            disabled={queueing || selected.length === 0}
+            className="rounded-full bg-[#0f1f4f] px-4 py-2 text-xs font-semibold text-white hover:bg-[#0c1940] disabled:opacity-60"
+            data-testid="data-quality-reprocess-selected"
+          >
+            Reprocess selected ({selected.length})
+          </button>
+          <span className="text-xs text-slate-500">or the worst</span>
+          <input
+            type="number"
+            min={1}
+            max={500}
+            value={batchSize}
+            onChange={(event) => setBatchSize(event.target.value)}
+            className="w-24 rounded-xl border border-slate-200 px-3 py-1.5 text-sm"
+          />
+          <button
+            type="button"
+            onClick={queueWorst}
+            disabled={queueing || !pagination || pagination.total === 0}
+            className="rounded-full border border-slate-300 bg-white px-4 py-2 text-xs font-semibold text-slate-700 hover:border-slate-400 disabled:opacity-60"
+          >
+            {queueing ? 'Queueing…' : 'Reprocess worst matching'}
+          </button>
+        </div>
+
+        {decisions.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-500">{loading ? 'Loading…' : 'No decisions match.'}</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-left text-sm" data-testid="data-quality-decisions">
+              <thead className="text-xs text-slate-500">
+                <tr>
+                  <th className="py-1 pr-3 font-medium" />
+                  <th className="py-1 pr-3 font-medium">Decision</th>
+                  <th className="py-1 pr-3 font-medium">Sections</th>
+                  <th className="py-1 pr-3 font-medium">Score</th>
+                  <th className="py-1 font-medium">Splitter</th>
+                </tr>
+              </thead>
+              <tbody>
+                {decisions.map((decision) => (
+                  <tr key={decision.caseId} className="border-t border-slate-100 align-top">
+                    <td className="py-2 pr-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(decision.caseId)}
+                        onChange={() => toggle(decision.caseId)}
+                        disabled={!decision.reprocessable}
+                        aria-label={`Select ${decision.decisionReference || decision.caseId}`}
+                      />
+                    </td>
+                    <td className="py-2 pr-3">
+                      <p className="font-medium text-slate-900">{decision.decisionReference || decision.caseId}</p>
+                      <p className="text-xs text-slate-500">
+                        {[decision.decisionDate ? formatDate(decision.decisionDate) : null, decision.firmName, decision.productGroup]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <div className="flex flex-wrap gap-1">
+                        {SECTIONS.map((section) => (
+                          <span
+                            key={section.key}
+                            title={decision.sectionSources[section.key]}
+                            className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${SOURCE_STYLES[decision.sectionSources[section.key]]}`}
+                          >
+                            {section.label}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3 text-slate-700">{decision.score.toFixed(2)}</td>
+                    <td className="py-2 text-xs text-slate-500">v{decision.splitterVersion}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {pagination && pagination.totalPages > 1 ? (
+          <div className="mt-4 flex items-center justify-between text-xs text-slate-500">
+            <span>
+              Page {pagination.page} of {formatNumber(pagination.totalPages)} · {formatNumber(pagination.total)} decisions
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setPage((current) => Math.max(1, current - 1))}
+                disabled={loading || pagination.page <= 1}
+                className="rounded-full border border-slate-300 bg-white px-3 py-1 font-semibold text-slate-700 disabled:opacity-60"
+              >
+                Previous
+              </button>
+              <button
+                type="button"
+                onClick={() => setPage((current) => current + 1)}
+                disabled={loading || pagination.page >= pagination.totalPages}
+                className="rounded-full border border-slate-300 bg-white px-3 py-1 font-semibold text-slate-700 disabled:opacity-60"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        ) : null}
+      </section>
+
+      <section className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-950">Reprocess runs</h2>
+        <p className="mt-2 text-xs text-slate-500">
+          A section the splitter finds replaces the stored one; a section it misses keeps its stored text.
+        </p>
+        {!quality || quality.runs.length === 0 ? (
+          <p className="mt-3 text-sm text-slate-500">{loading ? 'Loading…' : 'No reprocess runs yet.'}</p>
+        ) : (
+          <ul className="mt-3 grid gap-2" data-testid="data-quality-runs">
+            {quality.runs.map((run) => (
+              <li key={run.id} className="rounded-2xl border border-slate-200 px-4 py-3 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="font-medium text-slate-900">
+                    {formatNumber(run.totalDecisions)} decision{run.totalDecisions === 1 ? '' : 's'} · splitter v{run.splitterVersion}
+                  </span>
+                  <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold uppercase tracking-[0.14em] ${RUN_STYLES[run.status]}`}>
+                    {run.status}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-slate-600">
+                  {run.status === 'queued'
+                    ? 'Waiting for the reprocess job'
+                    : `${formatNumber(run.processed)} of ${formatNumber(run.totalDecisions)} processed · ${formatNumber(run.improved)} improved · ${formatNumber(run.sectionsAdded)} sections added`}
+                </p>
+                <p className="mt-1 text-xs text-slate-500">
+                  Requested {formatDateTime(run.createdAt)}
+                  {run.requestedBy ? ` by ${run.requestedBy}` : ''}
+                  {run.completedAt ? ` · finished ${formatDateTime(run.completedAt)}` : ''}
+                </p>
+                {run.error ? <p className="mt-1 text-xs text-rose-700">{run.error}</p> : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function CoverageTile({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3">
+      <p className="text-xs uppercase tracking-[0.12em] text-slate-500">{label}</p>
+      <p className="mt-1 text-xl font-semibold text-slate-900">{value.toFixed(1)}%</p>
+      <div className="mt-2 h-1.5 rounded-full bg-slate-200">
+        <div className="h-1.5 rounded-full bg-[#0f1f4f]" style={{ width: `${Math.min(100, Math.max(0, value))}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function TrendRow({ point }: { point: SectionCoveragePoint }) {
+  return (
+    <tr className={`border-t border-slate-100 ${point.source === 'live' ? 'font-semibold text-slate-900' : 'text-slate-700'}`}>
+      <td className="py-1.5 pr-3">{point.source === 'live' ? 'Now' : formatDateTime(point.capturedAt)}</td>
+      <td className="py-1.5 pr-3">{point.source}</td>
+      <td className="py-1.5 pr-3">{formatNumber(point.total)}</td>
+      {SECTIONS.map((section) => (
+        <td key={section.key} className="py-1.5 pr-3">
+          {point.coveragePct[section.key].toFixed(1)}%
+        </td>
+      ))}
+      <td className="py-1.5 pr-3">{point.coveragePct.complete.toFixed(1)}%</td>
+      <td className="py-1.5">{point.averageScore.toFixed(2)}</td>
+    </tr>
+  );
+}
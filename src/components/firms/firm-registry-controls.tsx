@@ -0,0 +1,600 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAuth } from '@/components/auth/auth-provider';
+import type { FirmEvent, FirmRecord, UnregisteredFirmName } from '@/lib/firms/types';
+import { formatDateTime, formatNumber } from '@/lib/utils';
+
+type EditorState = {
+  name: string;
+  parentId: string;
+  notes: string;
+  alias: string;
+};
+
+const EVENT_LABELS: Record<FirmEvent['eventType'], string> = {
+  created: 'Registered',
+  renamed: 'Renamed',
+  parent_changed: 'Group changed',
+  alias_added: 'Alias added',
+  alias_removed: 'Alias removed',
+  merged: 'Merged',
+  deleted: 'Deleted',
+};
+
+export function FirmRegistryControls() {
+  const { can } = useAuth();
+  const canEdit = can('admin');
+  const [firms, setFirms] = useState<FirmRecord[]>([]);
+  const [events, setEvents] = useState<FirmEvent[]>([]);
+  const [unregistered, setUnregistered] = useState<UnregisteredFirmName[]>([]);
+  const [unregisteredQuery, setUnregisteredQuery] = useState('');
+  // Reloads after a write keep the last submitted search rather than refetching per keystroke.
+  const submittedQuery = useRef('');
+  const [firmQuery, setFirmQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editor, setEditor] = useState<EditorState>({ name: '', parentId: '', notes: '', alias: '' });
+  const [createForm, setCreateForm] = useState({ name: '', parentId: '', aliases: '' });
+  const [mergeForm, setMergeForm] = useState({ sourceId: '', targetId: '' });
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const selected = useMemo(() => firms.find((firm) => firm.id === selectedId) || null, [firms, selectedId]);
+  const groups = useMemo(() => firms.filter((firm) => !firm.parentId), [firms]);
+  const visibleFirms = useMemo(() => {
+    const query = firmQuery.trim().toLowerCase();
+    if (!query) return firms;
+    return firms.filter(
+      (firm) => firm.name.toLowerCase().includes(query) || firm.aliases.some((alias) => alias.alias.toLowerCase().includes(query))
+    );
+  }, [firms, firmQuery]);
+
+  const loadUnregistered = useCallback(async (query: string) => {
+    const params = new URLSearchParams({ limit: '50' });
+    if (query.trim()) params.set('query', query.trim());
+    const response = await fetch(`/api/firms/suggestions?${params.toString()}`, { credentials: 'include', cache: 'no-store' });
+    const payload = await response.json().catch(() => null);
+    if (!response.ok || !payload?.success) {
+      throw new Error(payload?.error || 'Failed to load unregistered firm names.');
+    }
+    setUnregistered(Array.isArray(payload.names) ? (payload.names as UnregisteredFirmName[]) : []);
+  }, []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/firms', { credentials: 'include', cache: 'no-store' });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to load firm registry.');
+      }
+      setFirms(Array.isArray(payload.firms) ? (payload.firms as FirmRecord[]) : []);
+      setEvents(Array.isArray(payload.events) ? (payload.events as FirmEvent[]) : []);
+      await loadUnregistered(submittedQuery.current);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load firm registry.');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadUnregistered]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!selected) return;
+    setEditor({ name: selected.name, parentId: selected.parentId || '', notes: selected.notes || '', alias: '' });
+  }, [selected]);
+
+  async function request(key: string, url: string, init: RequestInit, successMessage: string) {
+    setBusy(key);
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetch(url, {
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        ...init,
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Firm registry request failed.');
+      }
+      setStatus(successMessage);
+      await load();
+      return payload;
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : 'Firm registry request failed.');
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function createFirm(name = createForm.name, aliases = splitAliases(createForm.aliases), parentId = createForm.parentId) {
+    const result = await request(
+      'create',
+      '/api/firms',
+      { method: 'POST', body: JSON.stringify({ name, parentId: parentId || null, aliases }) },
+      `${name.trim()} registered.`
+    );
+    if (result) {
+      setCreateForm({ name: '', parentId: '', aliases: '' });
+      setSelectedId(String(result.firm.id));
+    }
+  }
+
+  async function saveFirm() {
+    if (!selected) return;
+    await request(
+      'save',
+      `/api/firms/${selected.id}`,
+      { method: 'PATCH', body: JSON.stringify({ name: editor.name, parentId: editor.parentId || null, notes: editor.notes }) },
+      `${editor.name.trim() || selected.name} saved.`
+    );
+  }
+
+  async function deleteFirm() {
+    if (!selected) return;
+    if (!window.confirm(`Delete ${selected.name}? Its aliases are removed and decisions fall back to their published names.`)) return;
+    const result = await request('delete', `/api/firms/${selected.id}`, { method: 'DELETE' }, `${selected.name} deleted.`);
+    if (result) setSelectedId(null);
+  }
+
+  async function addAlias(firmId: string, alias: string, source: 'manual' | 'suggestion') {
+    const result = await request(
+      `alias:${alias}`,
+      `/api/firms/${firmId}/aliases`,
+      { method: 'POST', body: JSON.stringify({ alias, source }) },
+      `"${alias}" now resolves to ${firms.find((firm) => firm.id === firmId)?.name || 'the firm'}.`
+    );
+    if (result) setEditor((current) => ({ ...current, alias: '' }));
+  }
+
+  async function removeAlias(firmId: string, aliasKey: string, alias: string) {
+    await request(
+      `alias:${aliasKey}`,
+      `/api/firms/${firmId}/aliases?aliasKey=${encodeURIComponent(aliasKey)}`,
+      { method: 'DELETE' },
+      `"${alias}" removed.`
+    );
+  }
+
+  async function mergeFirms() {
+    const source = firms.find((firm) => firm.id === mergeForm.sourceId);
+    const target = firms.find((firm) => firm.id === mergeForm.targetId);
+    if (!source || !target) return;
+    if (!window.confirm(`Merge ${source.name} into ${target.name}? ${source.name} is removed and its aliases move across.`)) return;
+    const result = await request(
+      'merge',
+      '/api/firms/merge',
+      { method: 'POST', body: JSON.stringify(mergeForm) },
+      `${source.name} merged into ${target.name}.`
+    );
+    if (result) {
+      setMergeForm({ sourceId: '', targetId: '' });
+      setSelectedId(target.id);
+    }
+  }
+
+  async function searchUnregistered() {
+    setBusy('search');
+    setError(null);
+    try {
+      submittedQuery.current = unregisteredQuery;
+      await loadUnregistered(unregisteredQuery);
+    } catch (searchError) {
+      setError(searchError instanceof Error ? searchError.message : 'Failed to load unregistered firm names.');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="mx-auto flex w-full max-w-7xl flex-col gap-6 px-4 py-8 md:px-8">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <p className="text-xs font-semibold uppercase tracking-[0.22em] text-slate-500">Admin controls</p>
+        <h1 className="mt-2 text-3xl font-semibold tracking-tight text-slate-950">Firm registry</h1>
+        <p className="mt-3 max-w-3xl text-sm leading-7 text-slate-600">
+          Map the spellings firms are published under onto one registered entity, and group entities and brands under their parent.
+          Dashboard, analysis, comparison and insight pages aggregate by registered firm, with a group-level view where a parent exists.
+        </p>
+        <div className="mt-4 flex flex-wrap gap-3 text-sm text-slate-700">
+          <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700" data-testid="firm-registry-count">
+            {formatNumber(firms.length)} registered firm{firms.length === 1 ? '' : 's'}
+          </span>
+          <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700">
+            {formatNumber(groups.filter((firm) => firm.children.length > 0).length)} groups
+          </span>
+        </div>
+      </section>
+
+      {error ? <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</p> : null}
+      {status ? <p className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">{status}</p> : null}
+
+      <section className="grid gap-6 xl:grid-cols-[0.9fr_1.1fr]">
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-slate-950">Registered firms</h2>
+            <input
+              type="search"
+              value={firmQuery}
+              onChange={(event) => setFirmQuery(event.target.value)}
+              placeholder="Filter by name or alias"
+              className="w-48 rounded-xl border border-slate-200 px-3 py-1.5 text-sm"
+            />
+          </div>
+          {visibleFirms.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">{loading ? 'Loading…' : 'No firms registered yet. Published names are shown as-is.'}</p>
+          ) : (
+            <ul className="mt-3 grid max-h-[32rem] gap-2 overflow-y-auto" data-testid="firm-registry-list">
+              {visibleFirms.map((firm) => (
+                <li key={firm.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(firm.id)}
+                    className={`w-full rounded-2xl border px-4 py-3 text-left text-sm ${
+                      firm.id === selectedId ? 'border-sky-300 bg-sky-50' : 'border-slate-200 bg-slate-50 hover:border-slate-300'
+                    }`}
+                  >
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-slate-900">{firm.name}</span>
+                      {firm.parentName ? (
+                        <span className="rounded-full bg-indigo-100 px-2 py-0.5 text-[11px] font-semibold text-indigo-700">{firm.parentName}</span>
+                      ) : null}
+                      {firm.children.length > 0 ? (
+                        <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[11px] font-semibold text-amber-700">
+                          Group · {firm.children.length} member{firm.children.length === 1 ? '' : 's'}
+                        </span>
+                      ) : null}
+                    </div>
+                    <p className="mt-1 text-xs text-slate-500">
+                      {formatNumber(firm.decisionCount)} decisions · {firm.aliases.length} alias{firm.aliases.length === 1 ? '' : 'es'}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm" data-testid="firm-registry-editor">
+          {selected ? (
+            <div className="grid gap-4">
+              <div className="flex items-center justify-between gap-3">
+                <h2 className="text-lg font-semibold text-slate-950">{selected.name}</h2>
+                <span className="text-xs text-slate-500">Updated {formatDateTime(selected.updatedAt)}</span>
+              </div>
+
+              <div className="grid gap-3 md:grid-cols-2">
+                <label className="grid gap-2 text-sm text-slate-700">
+                  <span className="font-medium">Registered name</span>
+                  <input
+                    value={editor.name}
+                    disabled={!canEdit}
+                    onChange={(event) => setEditor((current) => ({ ...current, name: event.target.value }))}
+                    className="rounded-xl border border-slate-200 px-3 py-2"
+                  />
+                </label>
+                <label className="grid gap-2 text-sm text-slate-700">
+                  <span className="font-medium">Group</span>
+                  <select
+                    value={editor.parentId}
+                    disabled={!canEdit || selected.children.length > 0}
+                    onChange={(event) => setEditor((current) => ({ ...current, parentId: event.target.value }))}
+                    className="rounded-xl border border-slate-200 px-3 py-2"
+                  >
+                    <option value="">No group (top level)</option>
+                    {groups
+                      .filter((firm) => firm.id !== selected.id)
+                      .map((firm) => (
+                        <option key={firm.id} value={firm.id}>
+                          {firm.name}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+              </div>
+              {selected.children.length > 0 ? (
+                <p className="text-xs text-slate-500">
+                  Members: {selected.children.map((child) => child.name).join(', ')}. A group cannot itself belong to a group.
+                </p>
+              ) : null}
+
+              <label className="grid gap-2 text-sm text-slate-700">
+                <span className="font-medium">Notes</span>
+                <textarea
+                  value={editor.notes}
+                  disabled={!canEdit}
+                  onChange={(event) => setEditor((current) => ({ ...current, notes: event.target.value }))}
+                  rows={2}
+                  placeholder="FRN, trading names, or why spellings were grouped"
+                  className="rounded-xl border border-slate-200 px-3 py-2"
+                />
+              </label>
+
+              {canEdit ? (
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    type="button"
+                    onClick={() => void saveFirm()}
+                    disabled={busy !== null}
+                    className="rounded-full bg-[#0f1f4f] px-5 py-2.5 text-sm font-semibold text-white hover:bg-[#0c1940] disabled:opacity-60"
+                  >
+                    {busy === 'save' ? 'Saving…' : 'Save firm'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void deleteFirm()}
+                    disabled={busy !== null}
+                    className="rounded-full border border-rose-200 bg-white px-5 py-2.5 text-sm font-semibold text-rose-700 hover:border-rose-300 disabled:opacity-60"
+                  >
+                    Delete firm
+                  </button>
+                </div>
+              ) : null}
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-900">Aliases</h3>
+                <ul className="mt-2 flex flex-wrap gap-2" data-testid="firm-registry-aliases">
+                  {selected.aliases.map((alias) => (
+                    <li key={alias.aliasKey} className="flex items-center gap-2 rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-xs text-slate-700">
+                      <span>{alias.alias}</span>
+                      <span className="text-slate-400">{formatNumber(alias.decisionCount)}</span>
+                      {canEdit && alias.source !== 'canonical' ? (
+                        <button
+                          type="button"
+                          aria-label={`Remove alias ${alias.alias}`}
+                          onClick={() => void removeAlias(selected.id, alias.aliasKey, alias.alias)}
+                          disabled={busy !== null}
+                          className="text-rose-600 hover:text-rose-800 disabled:opacity-60"
+                        >
+                          ×
+                        </button>
+                      ) : null}
+                    </li>
+                  ))}
+                </ul>
+                {canEdit ? (
+                  <div className="mt-3 flex gap-2">
+                    <input
+                      value={editor.alias}
+                      onChange={(event) => setEditor((current) => ({ ...current, alias: event.target.value }))}
+                      placeholder="Another published spelling"
+                      className="flex-1 rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => void addAlias(selected.id, editor.alias, 'manual')}
+                      disabled={busy !== null || !editor.alias.trim()}
+                      className="rounded-full border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 hover:border-slate-400 disabled:opacity-60"
+                    >
+                      Add alias
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+            </div>
+          ) : (
+            <div className="rounded-2xl border border-dashed border-slate-200 bg-slate-50 p-6 text-sm text-slate-500">
+              Select a registered firm to rename it, move it under a group or manage the spellings that resolve to it.
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="grid gap-6 xl:grid-cols-[0.9fr_1.1fr]">
+        <div className="grid gap-6">
+          {canEdit ? (
+            <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+              <h2 className="text-lg font-semibold text-slate-950">Register a firm</h2>
+              <div className="mt-4 grid gap-3">
+                <label className="grid gap-2 text-sm text-slate-700">
+                  <span className="font-medium">Name</span>
+                  <input
+                    data-testid="firm-registry-create-name"
+                    value={createForm.name}
+                    onChange={(event) => setCreateForm((current) => ({ ...current, name: event.target.value }))}
+                    className="rounded-xl border border-slate-200 px-3 py-2"
+                  />
+                </label>
+                <label className="grid gap-2 text-sm text-slate-700">
+                  <span className="font-medium">Group</span>
+                  <select
+                    value={createForm.parentId}
+                    onChange={(event) => setCreateForm((current) => ({ ...current, parentId: event.target.value }))}
+                    className="rounded-xl border border-slate-200 px-3 py-2"
+                  >
+                    <option value="">No group (top level)</option>
+                    {groups.map((firm) => (
+                      <option key={firm.id} value={firm.id}>
+                        {firm.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="grid gap-2 text-sm text-slate-700">
+                  <span className="font-medium">Other spellings</span>
+                  <textarea
+                    value={createForm.aliases}
+                    onChange={(event) => setCreateForm((current) => ({ ...current, aliases: event.target.value }))}
+                    rows={2}
+                    placeholder="One per line"
+                    className="rounded-xl border border-slate-200 px-3 py-2"
+                  />
+                </label>
+                <div>
+                  <button
+                    type="button"
+                    onClick={() => void createFirm()}
+                    disabled={busy !== null || !createForm.name.trim()}
+                    className="rounded-full bg-[#0f1f4f] px-5 py-2.5 text-sm font-semibold text-white hover:bg-[#0c1940] disabled:opacity-60"
+                  >
+                    {busy === 'create' ? 'Registering…' : 'Register firm'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : null}
+
+          {canEdit ? (
+            <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+              <h2 className="text-lg font-semibold text-slate-950">Merge duplicate firms</h2>
+              <p className="mt-2 text-xs text-slate-500">The first firm is removed; its aliases and group members move to the second.</p>
+              <div className="mt-4 grid gap-3 md:grid-cols-2">
+                {(['sourceId', 'targetId'] as const).map((key) => (
+                  <label key={key} className="grid gap-2 text-sm text-slate-700">
+                    <span className="font-medium">{key === 'sourceId' ? 'Merge' : 'Into'}</span>
+                    <select
+                      value={mergeForm[key]}
+                      onChange={(event) => setMergeForm((current) => ({ ...current, [key]: event.target.value }))}
+                      className="rounded-xl border border-slate-200 px-3 py-2"
+                    >
+                      <option value="">Select a firm</option>
+                      {firms.map((firm) => (
+                        <option key={firm.id} value={firm.id}>
+                          {firm.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => void mergeFirms()}
+                disabled={busy !== null || !mergeForm.sourceId || !mergeForm.targetId || mergeForm.sourceId === mergeForm.targetId}
+                className="mt-4 rounded-full border border-slate-300 bg-white px-5 py-2.5 text-sm font-semibold text-slate-700 hover:border-slate-400 disabled:opacity-60"
+              >
+                {busy === 'merge' ? 'Merging…' : 'Merge firms'}
+              </button>
+            </div>
+          ) : null}
+
+          <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+            <h2 className="text-lg font-semibold text-slate-950">Audit log</h2>
+            {events.length === 0 ? (
+              <p className="mt-3 text-sm text-slate-500">{loading ? 'Loading…' : 'No registry changes recorded yet.'}</p>
+            ) : (
+              <ul className="mt-3 grid max-h-96 gap-2 overflow-y-auto" data-testid="firm-registry-audit-log">
+                {events.map((event) => (
+                  <li key={event.id} className="rounded-2xl border border-slate-200 px-4 py-3 text-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <span className="font-medium text-slate-900">
+                        {EVENT_LABELS[event.eventType]} · {event.firmName}
+                      </span>
+                      <span className="text-xs text-slate-500">{formatDateTime(event.createdAt)}</span>
+                    </div>
+                    <p className="mt-1 text-xs text-slate-600">
+                      {event.actorName || 'Unknown user'}
+                      {describeEvent(event)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-950">Unregistered names</h2>
+          <p className="mt-2 text-xs text-slate-500">
+            Published spellings that no alias covers yet, busiest first, with the registered firms they most resemble.
+          </p>
+          <form
+            className="mt-3 flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              void searchUnregistered();
+            }}
+          >
+            <input
+              type="search"
+              value={unregisteredQuery}
+              onChange={(event) => setUnregisteredQuery(event.target.value)}
+              placeholder="Search published names"
+              className="flex-1 rounded-xl border border-slate-200 px-3 py-2 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={busy !== null}
+              className="rounded-full border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 hover:border-slate-400 disabled:opacity-60"
+            >
+              {busy === 'search' ? 'Searching…' : 'Search'}
+            </button>
+          </form>
+          {unregistered.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">{loading ? 'Loading…' : 'Every published name is covered by an alias.'}</p>
+          ) : (
+            <ul className="mt-3 grid max-h-[40rem] gap-2 overflow-y-auto" data-testid="firm-registry-unregistered">
+              {unregistered.map((item) => (
+                <li key={item.aliasKey} className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="font-medium text-slate-900">{item.name}</span>
+                    <span className="text-xs text-slate-500">{formatNumber(item.decisionCount)} decisions</span>
+                  </div>
+                  {canEdit ? (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {item.suggestions.map((suggestion) => (
+                        <button
+                          key={suggestion.firmId}
+                          type="button"
+                          onClick={() => void addAlias(suggestion.firmId, item.name, 'suggestion')}
+                          disabled={busy !== null}
+                          title={`Closest alias: ${suggestion.matchedAlias}`}
+                          className="rounded-full border border-sky-200 bg-white px-3 py-1 text-xs font-semibold text-sky-700 hover:border-sky-300 disabled:opacity-60"
+                        >
+                          Add as alias of {suggestion.firmName} · {Math.round(suggestion.score * 100)}%
+                        </button>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => void createFirm(item.name, [], '')}
+                        disabled={busy !== null}
+                        className="rounded-full border border-slate-300 bg-white px-3 py-1 text-xs font-semibold text-slate-700 hover:border-slate-400 disabled:opacity-60"
+                      >
+                        Register as new firm
+                      </button>
+                    </div>
+                  ) : item.suggestions.length > 0 ? (
+                    <p className="mt-1 text-xs text-slate-500">
+                      Looks like {item.suggestions.map((suggestion) => suggestion.firmName).join(', ')}
+                    </p>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function splitAliases(value: string): string[] {
+  return value
+    .split(/\n|,/)
+    .map((alias) => alias.trim())
+    .filter(Boolean);
+}
+
+function describeEvent(event: FirmEvent): string {
+  const details = event.details || {};
+  switch (event.eventType) {
+    case 'renamed':
+      return ` · ${String(details.from || '')} → ${String(details.to || '')}`;
+    case 'alias_added':
+    case 'alias_removed':
+      return details.alias ? ` · "${String(details.alias)}"` : '';
+    case 'merged':
+      return details.sourceName ? ` · absorbed ${String(details.sourceName)}` : '';
+    case 'parent_changed':
+      return ` · ${String(details.fromName || 'no group')} → ${String(details.toName || 'no group')}`;
+    default:
+      return '';
+  }
+}
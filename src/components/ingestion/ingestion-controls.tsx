@@ -0,0 +1,86 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { IngestionPanel } from '@/components/dashboard/ingestion-panel';
+import type { FOSIngestionStatus } from '@/lib/fos/types';
+import type { IngestionLedger, IngestionRetryInput } from '@/lib/ingestion/types';
+
+export function IngestionControls() {
+  const [ingestion, setIngestion] = useState<FOSIngestionStatus | null>(null);
+  const [ledger, setLedger] = useState<IngestionLedger | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [statusResponse, ledgerResponse] = await Promise.all([
+        fetch('/api/fos/ingestion-status', { cache: 'no-store' }),
+        fetch('/api/fos/ingestion-ledger', { credentials: 'include', cache: 'no-store' }),
+      ]);
+      const statusPayload = await statusResponse.json().catch(() => null);
+      const ledgerPayload = await ledgerResponse.json().catch(() => null);
+      if (!ledgerResponse.ok || !ledgerPayload?.success) {
+        throw new Error(ledgerPayload?.error || 'Failed to load the ingestion ledger.');
+      }
+      setIngestion(statusPayload?.success ? (statusPayload.data as FOSIngestionStatus) : null);
+      setLedger(ledgerPayload.ledger as IngestionLedger);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load the ingestion ledger.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function retry(target: IngestionRetryInput) {
+    setRetrying(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetch('/api/fos/ingestion-ledger/retry', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(target),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to queue the retry.');
+      }
+      setStatus(
+        `Queued ${payload.items} decision${payload.items === 1 ? '' : 's'} in ${payload.windows} window${payload.windows === 1 ? '' : 's'} for the next ingestion run.`
+      );
+      await load();
+    } catch (retryError) {
+      setError(retryError instanceof Error ? retryError.message : 'Failed to queue the retry.');
+    } finally {
+      setRetrying(false);
+    }
+  }
+
+  return (
+    <div className="mx-auto flex w-full max-w-6xl flex-col gap-6 px-4 py-8 md:px-8">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <p className="text-xs font-semibold uppercase tracking-[0.22em] text-slate-500">Admin controls</p>
+        <h1 className="mt-2 text-3xl font-semibold tracking-tight text-slate-950">Ingestion</h1>
+        <p className="mt-3 max-w-3xl text-sm leading-7 text-slate-600">
+          The daily ingestion records each date window and every decision in it as it is fetched, parsed, tagged and imported. Failed
+          windows are retried automatically on the next runs; retrying here queues failed decisions for the next run, which picks them
+          up before its own windows.
+        </p>
+      </section>
+
+      {error ? <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</p> : null}
+      {status ? <p className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">{status}</p> : null}
+
+      <IngestionPanel ingestion={ingestion} dataQuality={null} loading={loading} ledger={ledger} onRetry={(target) => void retry(target)} retrying={retrying} />
+    </div>
+  );
+}
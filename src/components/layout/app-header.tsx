@@ -5,6 +5,7 @@ import { Loader2, LogIn, LogOut, Menu } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ExportButton } from '@/components/shared/export-button';
 import { useAuth } from '@/components/auth/auth-provider';
+import { SavedSearchAlertsMenu } from './saved-search-alerts-menu';
 
 interface AppHeaderProps {
   onToggleSidebar?: () => void;
@@ -45,6 +46,7 @@ export function AppHeader({ onToggleSidebar }: AppHeaderProps) {
           </div>
         ) : user ? (
           <>
+            <SavedSearchAlertsMenu />
             <div className="hidden items-center gap-2 rounded-full border border-slate-200 bg-slate-50 px-3 py-1.5 md:flex">
               <div className="flex h-8 w-8 items-center justify-center rounded-full bg-blue-600 text-xs font-bold text-white">
                 {user.fullName.split(' ').map((part) => part[0]).join('').slice(0, 2).toUpperCase() || 'WS'}
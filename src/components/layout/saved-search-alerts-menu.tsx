@@ -0,0 +1,73 @@
+'use client';
+
+import Link from 'next/link';
+import { Bell, CheckCheck, FileSpreadsheet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useSavedSearchAlerts } from '@/hooks/use-saved-searches';
+import { formatDateTime, formatNumber } from '@/lib/utils';
+
+export function SavedSearchAlertsMenu() {
+  const { alerts, unreadCount, refresh, markAllRead } = useSavedSearchAlerts(true);
+
+  return (
+    <DropdownMenu onOpenChange={(open) => { if (open) void refresh(); }}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Saved search alerts" data-testid="saved-search-alerts-trigger">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-rose-600 px-1 text-[10px] font-bold text-white">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Saved search alerts</span>
+          {unreadCount > 0 && <span className="text-xs font-normal text-slate-500">{unreadCount} unread</span>}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {alerts.length === 0 ? (
+          <p className="px-2 py-3 text-xs text-slate-500">
+            No alerts yet. Turn on alerts for a saved search to be notified when new matching decisions are ingested.
+          </p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto">
+            {alerts.map((alert) => (
+              <DropdownMenuItem key={alert.id} asChild>
+                <Link href="/workspace" className="flex flex-col items-start gap-0.5" data-testid="saved-search-alert-item">
+                  <span className={`text-xs ${alert.readAt ? 'text-slate-600' : 'font-semibold text-slate-900'}`}>
+                    {formatNumber(alert.newDecisionCount)} new {alert.newDecisionCount === 1 ? 'decision' : 'decisions'} for &ldquo;{alert.savedSearchName}&rdquo;
+                  </span>
+                  <span className="text-[11px] text-slate-500">
+                    {alert.sampleCaseIds.length > 0 ? `${alert.sampleCaseIds.slice(0, 3).join(', ')} · ` : ''}
+                    {formatDateTime(alert.windowEnd || alert.createdAt)}
+                  </span>
+                </Link>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => void markAllRead()} disabled={unreadCount === 0}>
+          <CheckCheck className="mr-2 h-4 w-4" />
+          Mark all read
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href="/api/fos/saved-searches/digest?format=csv">
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Export digest (CSV)
+          </a>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Home, BarChart3, Network, GitCompare, Settings, HelpCircle, ClipboardList, Upload, Briefcase, Lightbulb, Newspaper, SlidersHorizontal } from 'lucide-react';
+import { Home, BarChart3, Network, GitCompare, Settings, HelpCircle, ClipboardList, Upload, Briefcase, Lightbulb, Newspaper, SlidersHorizontal, Gauge, Building2, Tags, Regex, ClipboardCheck, Activity, ShieldCheck, Users } from 'lucide-react';
 import { useAuth } from '@/components/auth/auth-provider';
 import type { AppUserRole } from '@/lib/auth/types';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
@@ -26,10 +26,18 @@ const NAV_ITEMS: NavItem[] = [
   { href: '/comparison', label: 'Firm Comparison', icon: GitCompare, requiresAuth: false },
   { href: '/insights', label: 'Public Insights', icon: Newspaper, requiresAuth: false },
   { href: '/complaints', label: 'Complaints', icon: ClipboardList, requiresAuth: true },
+  { href: '/complaints/workload', label: 'Workload', icon: Users, requiresAuth: true },
   { href: '/imports/complaints', label: 'Imports', icon: Upload, requiresAuth: true },
   { href: '/board-pack', label: 'Board Pack', icon: Briefcase, requiresAuth: true },
+  { href: '/labelling', label: 'Labelling', icon: ClipboardCheck, requiresAuth: true, minimumRole: 'reviewer' },
   { href: '/advisor', label: 'Complaint Advisor', icon: Lightbulb, requiresAuth: false },
   { href: '/settings/insights', label: 'Insight Controls', icon: SlidersHorizontal, requiresAuth: true, minimumRole: 'admin' },
+  { href: '/settings/risk-policy', label: 'Risk Policy', icon: Gauge, requiresAuth: true, minimumRole: 'manager' },
+  { href: '/settings/firms', label: 'Firm Registry', icon: Building2, requiresAuth: true, minimumRole: 'manager' },
+  { href: '/settings/products', label: 'Product Taxonomy', icon: Tags, requiresAuth: true, minimumRole: 'manager' },
+  { href: '/settings/tag-rules', label: 'Tag Rules', icon: Regex, requiresAuth: true, minimumRole: 'manager' },
+  { href: '/settings/ingestion', label: 'Ingestion', icon: Activity, requiresAuth: true, minimumRole: 'admin' },
+  { href: '/settings/data-quality', label: 'Data Quality', icon: ShieldCheck, requiresAuth: true, minimumRole: 'admin' },
 ];
 
 export function SidebarNav() {
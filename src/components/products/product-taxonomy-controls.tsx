@@ -0,0 +1,463 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/components/auth/auth-provider';
+import type { ProductCategory, ProductMatchType, ProductSourceValue } from '@/lib/products/types';
+import { formatDateTime, formatNumber } from '@/lib/utils';
+
+type EditorState = {
+  name: string;
+  parentId: string;
+  description: string;
+};
+
+type RuleFormState = {
+  pattern: string;
+  matchType: ProductMatchType;
+  priority: string;
+};
+
+export function ProductTaxonomyControls() {
+  const { can } = useAuth();
+  const canEdit = can('admin');
+  const [categories, setCategories] = useState<ProductCategory[]>([]);
+  const [unmapped, setUnmapped] = useState<ProductSourceValue[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editor, setEditor] = useState<EditorState>({ name: '', parentId: '', description: '' });
+  const [ruleForm, setRuleForm] = useState<RuleFormState>({ pattern: '', matchType: 'exact', priority: '0' });
+  const [createForm, setCreateForm] = useState({ name: '', parentId: '' });
+  const [mapTargets, setMapTargets] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const selected = useMemo(() => categories.find((category) => category.id === selectedId) || null, [categories, selectedId]);
+  const sectors = useMemo(() => categories.filter((category) => !category.parentId), [categories]);
+  const productCount = categories.length - sectors.length;
+  const unmappedDecisions = useMemo(() => unmapped.reduce((sum, value) => sum + value.decisionCount, 0), [unmapped]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [taxonomyResponse, valuesResponse] = await Promise.all([
+        fetch('/api/products', { credentials: 'include', cache: 'no-store' }),
+        fetch('/api/products/values?unmapped=true&limit=200', { credentials: 'include', cache: 'no-store' }),
+      ]);
+      const taxonomy = await taxonomyResponse.json().catch(() => null);
+      if (!taxonomyResponse.ok || !taxonomy?.success) {
+        throw new Error(taxonomy?.error || 'Failed to load product taxonomy.');
+      }
+      const values = await valuesResponse.json().catch(() => null);
+      if (!valuesResponse.ok || !values?.success) {
+        throw new Error(values?.error || 'Failed to load product values.');
+      }
+      setCategories(Array.isArray(taxonomy.categories) ? (taxonomy.categories as ProductCategory[]) : []);
+      setUnmapped(Array.isArray(values.values) ? (values.values as ProductSourceValue[]) : []);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load product taxonomy.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!selected) return;
+    setEditor({ name: selected.name, parentId: selected.parentId || '', description: selected.description || '' });
+  }, [selected]);
+
+  async function request(key: string, url: string, init: RequestInit, successMessage: string) {
+    setBusy(key);
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetch(url, {
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        ...init,
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Product taxonomy request failed.');
+      }
+      setStatus(successMessage);
+      await load();
+      return payload;
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : 'Product taxonomy request failed.');
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function createCategory() {
+    const name = createForm.name.trim();
+    const result = await request(
+      'create',
+      '/api/products',
+      { method: 'POST', body: JSON.stringify({ name, parentId: createForm.parentId || null }) },
+      `${name} added${createForm.parentId ? '' : ' as a sector'}.`
+    );
+    if (result) {
+      setCreateForm({ name: '', parentId: '' });
+      setSelectedId(String(result.category.id));
+    }
+  }
+
+  async function saveCategory() {
+    if (!selected) return;
+    await request(
+      'save',
+      `/api/products/${selected.id}`,
+      { method: 'PATCH', body: JSON.stringify({ name: editor.name, parentId: editor.parentId || null, description: editor.description }) },
+      `${editor.name.trim() || selected.name} saved.`
+    );
+  }
+
+  async function deleteCategory() {
+    if (!selected) return;
+    if (!window.confirm(`Delete ${selected.name}? Its mapping rules are removed and matching decisions fall back to their published values.`)) return;
+    const result = await request('delete', `/api/products/${selected.id}`, { method: 'DELETE' }, `${selected.name} deleted.`);
+    if (result) setSelectedId(null);
+  }
+
+  async function addRule(categoryId: string, pattern: string, matchType: ProductMatchType, priority: number) {
+    const category = categories.find((item) => item.id === categoryId);
+    return request(
+      `rule:${pattern}`,
+      '/api/products/mappings',
+      { method: 'POST', body: JSON.stringify({ pattern, categoryId, matchType, priority }) },
+      `"${pattern}" now maps to ${category?.name || 'the category'}.`
+    );
+  }
+
+  async function addSelectedRule() {
+    if (!selected) return;
+    const result = await addRule(selected.id, ruleForm.pattern, ruleForm.matchType, Number.parseInt(ruleForm.priority, 10) || 0);
+    if (result) setRuleForm({ pattern: '', matchType: 'exact', priority: '0' });
+  }
+
+  async function removeRule(mappingId: string, pattern: string) {
+    await request(`rule:${mappingId}`, `/api/products/mappings/${mappingId}`, { method: 'DELETE' }, `"${pattern}" rule removed.`);
+  }
+
+  return (
+    <div className="mx-auto flex w-full max-w-7xl flex-col gap-6 px-4 py-8 md:px-8">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <p className="text-xs font-semibold uppercase tracking-[0.22em] text-slate-500">Admin controls</p>
+        <h1 className="mt-2 text-3xl font-semibold tracking-tight text-slate-950">Product taxonomy</h1>
+        <p className="mt-3 max-w-3xl text-sm leading-7 text-slate-600">
+          Organise the published product values into sectors and products, and map each raw value onto one of them.
+          Filters, dashboard and analysis breakdowns, advisor briefs and insight product pages use the mapped names; unmapped values appear as published.
+        </p>
+        <div className="mt-4 flex flex-wrap gap-3 text-sm text-slate-700">
+          <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700" data-testid="product-taxonomy-count">
+            {formatNumber(sectors.length)} sector{sectors.length === 1 ? '' : 's'} · {formatNumber(productCount)} product{productCount === 1 ? '' : 's'}
+          </span>
+          <span className="rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-700">
+            {formatNumber(unmapped.length)} unmapped value{unmapped.length === 1 ? '' : 's'} · {formatNumber(unmappedDecisions)} decisions
+          </span>
+        </div>
+      </section>
+
+      {error ? <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</p> : null}
+      {status ? <p className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">{status}</p> : null}
+
+      <section className="grid gap-6 xl:grid-cols-[0.9fr_1.1fr]">
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-950">Sectors and products</h2>
+          {sectors.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">{loading ? 'Loading…' : 'No taxonomy yet. Published product values are shown as-is.'}</p>
+          ) : (
+            <ul className="mt-3 grid max-h-[32rem] gap-3 overflow-y-auto" data-testid="product-taxonomy-tree">
+              {sectors.map((sector) => (
+                <li key={sector.id} className="grid gap-2">
+                  <CategoryButton category={sector} selected={sector.id === selectedId} onSelect={setSelectedId} />
+                  {sector.children.length > 0 ? (
+                    <ul className="ml-5 grid gap-2 border-l border-slate-200 pl-3">
+                      {sector.children.map((child) => {
+                        const product = categories.find((category) => category.id === child.id);
+                        return product ? (
+                          <li key={product.id}>
+                            <CategoryButton category={product} selected={product.id === selectedId} onSelect={setSelectedId} />
+                          </li>
+                        ) : null;
+                      })}
+                    </ul>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm" data-testid="product-taxonomy-editor">
+          {selected ? (
+            <div className="grid gap-4">
+              <div className="flex items-center justify-between gap-3">
+                <h2 className="text-lg font-semibold text-slate-950">{selected.name}</h2>
+                <span className="text-xs text-slate-500">Updated {formatDateTime(selected.updatedAt)}</span>
+              </div>
+
+              <div className="grid gap-3 md:grid-cols-2">
+                <label className="grid gap-2 text-sm text-slate-700">
+                  <span className="font-medium">Name</span>
+                  <input
+                    value={editor.name}
+                    disabled={!canEdit}
+                    onChange={(event) => setEditor((current) => ({ ...current, name: event.target.value }))}
+                    className="rounded-xl border border-slate-200 px-3 py-2"
+                  />
+                </label>
+                <label className="grid gap-2 text-sm text-slate-700">
+                  <span className="font-medium">Sector</span>
+                  <select
+                    value={editor.parentId}
+                    disabled={!canEdit || selected.children.length > 0}
+                    onChange={(event) => setEditor((current) => ({ ...current, parentId: event.target.value }))}
+                    className="rounded-xl border border-slate-200 px-3 py-2"
+                  >
+                    <option value="">None (this is a sector)</option>
+                    {sectors
+                      .filter((sector) => sector.id !== selected.id)
+                      .map((sector) => (
+                        <option key={sector.id} value={sector.id}>
+                          {sector.name}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+              </div>
+
+              <label className="grid gap-2 text-sm text-slate-700">
+                <span className="font-medium">Description</span>
+                <textarea
+                  value={editor.description}
+                  disabled={!canEdit}
+                  onChange={(event) => setEditor((current) => ({ ...current, description: event.target.value }))}
+                  rows={2}
+                  placeholder="What belongs here, e.g. which FOS product headings"
+                  className="rounded-xl border border-slate-200 px-3 py-2"
+                />
+              </label>
+
+              {canEdit ? (
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    type="button"
+                    onClick={() => void saveCategory()}
+                    disabled={busy !== null}
+                    className="rounded-full bg-[#0f1f4f] px-5 py-2.5 text-sm font-semibold text-white hover:bg-[#0c1940] disabled:opacity-60"
+                  >
+                    {busy === 'save' ? 'Saving…' : 'Save category'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void deleteCategory()}
+                    disabled={busy !== null || selected.children.length > 0}
+                    className="rounded-full border border-rose-200 bg-white px-5 py-2.5 text-sm font-semibold text-rose-700 hover:border-rose-300 disabled:opacity-60"
+                  >
+                    Delete category
+                  </button>
+                </div>
+              ) : null}
+
+              <div>
+                <h3 className="text-sm font-semibold text-slate-900">Mapping rules</h3>
+                <p className="mt-1 text-xs text-slate-500">
+                  Exact rules match the whole published value; contains rules match a phrase inside it. Exact rules win, then priority, then the longer pattern.
+                </p>
+                {selected.mappings.length === 0 ? (
+                  <p className="mt-2 text-sm text-slate-500">No rules map onto this category yet.</p>
+                ) : (
+                  <ul className="mt-2 grid gap-2" data-testid="product-taxonomy-rules">
+                    {selected.mappings.map((mapping) => (
+                      <li key={mapping.id} className="flex items-center justify-between gap-2 rounded-2xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-700">
+                        <span>
+                          <span className="font-semibold text-slate-900">{mapping.pattern}</span>
+                          <span className="ml-2 text-slate-500">
+                            {mapping.matchType}
+                            {mapping.priority !== 0 ? ` · priority ${mapping.priority}` : ''}
+                          </span>
+                        </span>
+                        {canEdit ? (
+                          <button
+                            type="button"
+                            aria-label={`Remove rule ${mapping.pattern}`}
+                            onClick={() => void removeRule(mapping.id, mapping.pattern)}
+                            disabled={busy !== null}
+                            className="text-rose-600 hover:text-rose-800 disabled:opacity-60"
+                          >
+                            ×
+                          </button>
+                        ) : null}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {canEdit ? (
+                  <div className="mt-3 grid gap-2 md:grid-cols-[1fr_auto_auto_auto]">
+                    <input
+                      value={ruleForm.pattern}
+                      onChange={(event) => setRuleForm((current) => ({ ...current, pattern: event.target.value }))}
+                      placeholder="Published value or phrase"
+                      className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                    />
+                    <select
+                      value={ruleForm.matchType}
+                      onChange={(event) => setRuleForm((current) => ({ ...current, matchType: event.target.value as ProductMatchType }))}
+                      className="rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                    >
+                      <option value="exact">Exact</option>
+                      <option value="contains">Contains</option>
+                    </select>
+                    <input
+                      type="number"
+                      value={ruleForm.priority}
+                      onChange={(event) => setRuleForm((current) => ({ ...current, priority: event.target.value }))}
+                      aria-label="Priority"
+                      className="w-20 rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => void addSelectedRule()}
+                      disabled={busy !== null || !ruleForm.pattern.trim()}
+                      className="rounded-full border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 hover:border-slate-400 disabled:opacity-60"
+                    >
+                      Add rule
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+            </div>
+          ) : (
+            <div className="rounded-2xl border border-dashed border-slate-200 bg-slate-50 p-6 text-sm text-slate-500">
+              Select a sector or product to rename it, move it, or manage the rules that map published values onto it.
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="grid gap-6 xl:grid-cols-[0.9fr_1.1fr]">
+        {canEdit ? (
+          <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+            <h2 className="text-lg font-semibold text-slate-950">Add a sector or product</h2>
+            <div className="mt-4 grid gap-3">
+              <label className="grid gap-2 text-sm text-slate-700">
+                <span className="font-medium">Name</span>
+                <input
+                  data-testid="product-taxonomy-create-name"
+                  value={createForm.name}
+                  onChange={(event) => setCreateForm((current) => ({ ...current, name: event.target.value }))}
+                  className="rounded-xl border border-slate-200 px-3 py-2"
+                />
+              </label>
+              <label className="grid gap-2 text-sm text-slate-700">
+                <span className="font-medium">Sector</span>
+                <select
+                  value={createForm.parentId}
+                  onChange={(event) => setCreateForm((current) => ({ ...current, parentId: event.target.value }))}
+                  className="rounded-xl border border-slate-200 px-3 py-2"
+                >
+                  <option value="">None (add as a sector)</option>
+                  {sectors.map((sector) => (
+                    <option key={sector.id} value={sector.id}>
+                      {sector.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div>
+                <button
+                  type="button"
+                  onClick={() => void createCategory()}
+                  disabled={busy !== null || !createForm.name.trim()}
+                  className="rounded-full bg-[#0f1f4f] px-5 py-2.5 text-sm font-semibold text-white hover:bg-[#0c1940] disabled:opacity-60"
+                >
+                  {busy === 'create' ? 'Adding…' : 'Add category'}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div />
+        )}
+
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-950">Unmapped values</h2>
+          <p className="mt-2 text-xs text-slate-500">Published product values that no rule covers yet, busiest first.</p>
+          {unmapped.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">{loading ? 'Loading…' : 'Every published product value is mapped.'}</p>
+          ) : (
+            <ul className="mt-3 grid max-h-[40rem] gap-2 overflow-y-auto" data-testid="product-taxonomy-unmapped">
+              {unmapped.map((item) => (
+                <li key={item.value} className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="font-medium text-slate-900">{item.value}</span>
+                    <span className="text-xs text-slate-500">{formatNumber(item.decisionCount)} decisions</span>
+                  </div>
+                  {canEdit && categories.length > 0 ? (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      <select
+                        value={mapTargets[item.value] || ''}
+                        onChange={(event) => setMapTargets((current) => ({ ...current, [item.value]: event.target.value }))}
+                        aria-label={`Map ${item.value} to`}
+                        className="rounded-xl border border-slate-200 px-3 py-1 text-xs"
+                      >
+                        <option value="">Map to…</option>
+                        {categories.map((category) => (
+                          <option key={category.id} value={category.id}>
+                            {category.parentName ? `${category.parentName} › ${category.name}` : category.name}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => void addRule(mapTargets[item.value], item.value, 'exact', 0)}
+                        disabled={busy !== null || !mapTargets[item.value]}
+                        className="rounded-full border border-sky-200 bg-white px-3 py-1 text-xs font-semibold text-sky-700 hover:border-sky-300 disabled:opacity-60"
+                      >
+                        Add exact rule
+                      </button>
+                    </div>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function CategoryButton({
+  category,
+  selected,
+  onSelect,
+}: {
+  category: ProductCategory;
+  selected: boolean;
+  onSelect: (id: string) => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(category.id)}
+      className={`w-full rounded-2xl border px-4 py-3 text-left text-sm ${
+        selected ? 'border-sky-300 bg-sky-50' : 'border-slate-200 bg-slate-50 hover:border-slate-300'
+      }`}
+    >
+      <span className="font-semibold text-slate-900">{category.name}</span>
+      <p className="mt-1 text-xs text-slate-500">
+        {formatNumber(category.decisionCount)} decisions · {category.mappings.length} rule{category.mappings.length === 1 ? '' : 's'}
+      </p>
+    </button>
+  );
+}
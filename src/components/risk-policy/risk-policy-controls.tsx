@@ -0,0 +1,483 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/components/auth/auth-provider';
+import type {
+  ActiveRiskPolicy,
+  RiskPolicyEvent,
+  RiskPolicySimulation,
+  RiskPolicySimulationSummary,
+  RiskPolicyState,
+  RiskPolicyVersion,
+  UpholdRiskLevel,
+  UpholdRiskThresholds,
+} from '@/lib/risk-policy/types';
+import { formatDateTime } from '@/lib/utils';
+
+type FormState = {
+  veryHigh: string;
+  high: string;
+  medium: string;
+  minimumSampleSize: string;
+  priorStrength: string;
+  notes: string;
+  effectiveFrom: string;
+};
+
+const LEVEL_LABELS: Record<UpholdRiskLevel, string> = {
+  insufficient_data: 'Insufficient',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  very_high: 'Very high',
+};
+
+const STATE_STYLES: Record<RiskPolicyState, string> = {
+  draft: 'bg-amber-100 text-amber-700',
+  scheduled: 'bg-sky-100 text-sky-700',
+  active: 'bg-emerald-100 text-emerald-700',
+  superseded: 'bg-slate-100 text-slate-600',
+  discarded: 'bg-rose-100 text-rose-700',
+};
+
+const EVENT_LABELS: Record<RiskPolicyEvent['eventType'], string> = {
+  draft_created: 'Draft created',
+  draft_updated: 'Draft updated',
+  published: 'Published',
+  discarded: 'Discarded',
+};
+
+export function RiskPolicyControls() {
+  const { can } = useAuth();
+  const canEdit = can('admin');
+  const [active, setActive] = useState<ActiveRiskPolicy | null>(null);
+  const [policies, setPolicies] = useState<RiskPolicyVersion[]>([]);
+  const [events, setEvents] = useState<RiskPolicyEvent[]>([]);
+  const [form, setForm] = useState<FormState>({
+    veryHigh: '',
+    high: '',
+    medium: '',
+    minimumSampleSize: '',
+    priorStrength: '',
+    notes: '',
+    effectiveFrom: '',
+  });
+  const [simulation, setSimulation] = useState<RiskPolicySimulation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const draft = useMemo(() => policies.find((policy) => policy.status === 'draft') || null, [policies]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/risk-policies', { credentials: 'include', cache: 'no-store' });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to load risk policies.');
+      }
+      setActive(payload.active as ActiveRiskPolicy);
+      setPolicies(Array.isArray(payload.policies) ? (payload.policies as RiskPolicyVersion[]) : []);
+      setEvents(Array.isArray(payload.events) ? (payload.events as RiskPolicyEvent[]) : []);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load risk policies.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    const source = draft?.thresholds || active?.thresholds;
+    if (!source) return;
+    setForm((current) => ({
+      ...current,
+      veryHigh: String(source.veryHigh),
+      high: String(source.high),
+      medium: String(source.medium),
+      minimumSampleSize: String(source.minimumSampleSize),
+      priorStrength: String(source.priorStrength),
+      notes: draft?.notes || '',
+    }));
+  }, [active, draft]);
+
+  async function request(key: string, url: string, init: RequestInit, successMessage: string) {
+    setBusy(key);
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetch(url, {
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        ...init,
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Risk policy request failed.');
+      }
+      setStatus(successMessage);
+      await load();
+      return payload;
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : 'Risk policy request failed.');
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function formThresholds(): Partial<UpholdRiskThresholds> {
+    return {
+      veryHigh: Number(form.veryHigh),
+      high: Number(form.high),
+      medium: Number(form.medium),
+      minimumSampleSize: Number(form.minimumSampleSize),
+      priorStrength: Number(form.priorStrength),
+    };
+  }
+
+  async function saveDraft() {
+    const body = JSON.stringify({ thresholds: formThresholds(), notes: form.notes });
+    if (draft) {
+      await request('save', `/api/risk-policies/${draft.id}`, { method: 'PATCH', body }, `Draft v${draft.version} saved.`);
+    } else {
+      await request('save', '/api/risk-policies', { method: 'POST', body }, 'Draft created.');
+    }
+  }
+
+  async function publishDraft() {
+    if (!draft) return;
+    const effectiveFrom = form.effectiveFrom ? new Date(form.effectiveFrom).toISOString() : null;
+    const result = await request(
+      'publish',
+      `/api/risk-policies/${draft.id}/publish`,
+      { method: 'POST', body: JSON.stringify({ effectiveFrom }) },
+      effectiveFrom ? `Draft v${draft.version} scheduled.` : `Draft v${draft.version} is now active.`
+    );
+    if (result) {
+      setSimulation(null);
+      setForm((current) => ({ ...current, effectiveFrom: '' }));
+    }
+  }
+
+  async function discardDraft() {
+    if (!draft) return;
+    await request('discard', `/api/risk-policies/${draft.id}`, { method: 'DELETE' }, `Draft v${draft.version} discarded.`);
+  }
+
+  async function runSimulation() {
+    setBusy('simulate');
+    setError(null);
+    try {
+      const response = await fetch('/api/risk-policies/simulate', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ thresholds: formThresholds() }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to simulate risk policy.');
+      }
+      setSimulation(payload.simulation as RiskPolicySimulation);
+    } catch (simulationError) {
+      setError(simulationError instanceof Error ? simulationError.message : 'Failed to simulate risk policy.');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const changedBriefs = simulation?.briefs.items.filter((item) => item.currentLevel !== item.proposedLevel) || [];
+  const changedComplaints = simulation?.openComplaints.items.filter((item) => item.currentLevel !== item.proposedLevel) || [];
+
+  return (
+    <div className="mx-auto flex w-full max-w-7xl flex-col gap-6 px-4 py-8 md:px-8">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <p className="text-xs font-semibold uppercase tracking-[0.22em] text-slate-500">Admin controls</p>
+        <h1 className="mt-2 text-3xl font-semibold tracking-tight text-slate-950">Uphold Risk policy</h1>
+        <p className="mt-3 max-w-3xl text-sm leading-7 text-slate-600">
+          Upheld-rate bands used by the advisor, the check estimator and complaint letter intelligence. Changes are staged as a draft, previewed with the simulator, then published with an effective date.
+        </p>
+        {active ? (
+          <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-slate-700" data-testid="risk-policy-active">
+            <span className="rounded-full bg-emerald-100 px-3 py-1 text-xs font-semibold text-emerald-700">
+              {active.version === 0 ? 'Built-in default' : `Active v${active.version}`}
+            </span>
+            <span>{formatBands(active.thresholds)}</span>
+            {active.effectiveFrom ? <span className="text-xs text-slate-500">since {formatDateTime(active.effectiveFrom)}</span> : null}
+          </div>
+        ) : null}
+      </section>
+
+      {error ? <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</p> : null}
+      {status ? <p className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">{status}</p> : null}
+
+      <section className="grid gap-6 xl:grid-cols-[0.9fr_1.1fr]">
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-slate-950">{draft ? `Draft v${draft.version}` : 'Propose new thresholds'}</h2>
+            {draft ? <span className={`rounded-full px-2 py-1 text-[11px] font-semibold uppercase tracking-[0.18em] ${STATE_STYLES.draft}`}>draft</span> : null}
+          </div>
+          <p className="mt-2 text-xs text-slate-500">Lower bound of each band, as a comparable upheld rate (%). Rates below the medium bound are low.</p>
+
+          <div className="mt-4 grid gap-3 md:grid-cols-3">
+            {(['veryHigh', 'high', 'medium'] as const).map((key) => (
+              <label key={key} className="grid gap-2 text-sm text-slate-700">
+                <span className="font-medium">{key === 'veryHigh' ? 'Very high from' : key === 'high' ? 'High from' : 'Medium from'}</span>
+                <input
+                  data-testid={`risk-policy-${key}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.5}
+                  value={form[key]}
+                  disabled={!canEdit}
+                  onChange={(event) => setForm((current) => ({ ...current, [key]: event.target.value }))}
+                  className="rounded-xl border border-slate-200 px-3 py-2"
+                />
+              </label>
+            ))}
+          </div>
+
+          <p className="mt-4 text-xs text-slate-500">
+            Evidence rules: samples below the floor are rated insufficient data, and each rate is blended with this many
+            decisions&apos; worth of its product (or corpus) baseline before banding.
+          </p>
+          <div className="mt-2 grid gap-3 md:grid-cols-2">
+            {(['minimumSampleSize', 'priorStrength'] as const).map((key) => (
+              <label key={key} className="grid gap-2 text-sm text-slate-700">
+                <span className="font-medium">{key === 'minimumSampleSize' ? 'Minimum decisions' : 'Baseline weight (decisions)'}</span>
+                <input
+                  data-testid={`risk-policy-${key}`}
+                  type="number"
+                  min={key === 'minimumSampleSize' ? 1 : 0}
+                  max={1000}
+                  step={1}
+                  value={form[key]}
+                  disabled={!canEdit}
+                  onChange={(event) => setForm((current) => ({ ...current, [key]: event.target.value }))}
+                  className="rounded-xl border border-slate-200 px-3 py-2"
+                />
+              </label>
+            ))}
+          </div>
+
+          <label className="mt-3 grid gap-2 text-sm text-slate-700">
+            <span className="font-medium">Rationale</span>
+            <textarea
+              value={form.notes}
+              disabled={!canEdit}
+              onChange={(event) => setForm((current) => ({ ...current, notes: event.target.value }))}
+              rows={3}
+              placeholder="Why the bands are changing, and any evidence reviewed"
+              className="rounded-xl border border-slate-200 px-3 py-2"
+            />
+          </label>
+
+          <div className="mt-4 flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={() => void runSimulation()}
+              disabled={busy !== null || loading}
+              className="rounded-full border border-slate-300 bg-white px-5 py-2.5 text-sm font-semibold text-slate-700 hover:border-slate-400 disabled:opacity-60"
+            >
+              {busy === 'simulate' ? 'Simulating…' : 'Simulate'}
+            </button>
+            {canEdit ? (
+              <button
+                type="button"
+                onClick={() => void saveDraft()}
+                disabled={busy !== null || loading}
+                className="rounded-full bg-[#0f1f4f] px-5 py-2.5 text-sm font-semibold text-white hover:bg-[#0c1940] disabled:opacity-60"
+              >
+                {busy === 'save' ? 'Saving…' : draft ? 'Save draft' : 'Create draft'}
+              </button>
+            ) : null}
+          </div>
+
+          {canEdit && draft ? (
+            <div className="mt-5 grid gap-3 rounded-2xl border border-slate-200 bg-slate-50 p-4">
+              <label className="grid gap-2 text-sm text-slate-700">
+                <span className="font-medium">Effective from</span>
+                <input
+                  type="datetime-local"
+                  value={form.effectiveFrom}
+                  onChange={(event) => setForm((current) => ({ ...current, effectiveFrom: event.target.value }))}
+                  className="rounded-xl border border-slate-200 px-3 py-2"
+                />
+                <span className="text-xs text-slate-500">Leave blank to apply immediately. Published versions cannot be edited.</span>
+              </label>
+              <div className="flex flex-wrap gap-3">
+                <button
+                  type="button"
+                  onClick={() => void publishDraft()}
+                  disabled={busy !== null}
+                  className="rounded-full bg-emerald-600 px-5 py-2.5 text-sm font-semibold text-white hover:bg-emerald-700 disabled:opacity-60"
+                >
+                  {busy === 'publish' ? 'Publishing…' : 'Publish saved draft'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void discardDraft()}
+                  disabled={busy !== null}
+                  className="rounded-full border border-rose-200 bg-white px-5 py-2.5 text-sm font-semibold text-rose-700 hover:border-rose-300 disabled:opacity-60"
+                >
+                  Discard draft
+                </button>
+              </div>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm" data-testid="risk-policy-simulation">
+          <h2 className="text-lg font-semibold text-slate-950">Reclassification preview</h2>
+          {simulation ? (
+            <div className="mt-4 grid gap-5">
+              <p className="text-xs text-slate-500">
+                {formatBands(simulation.baseline.thresholds)} → {formatBands(simulation.proposed)}
+              </p>
+              <SimulationSummary title="Advisor briefs" summary={simulation.briefs} />
+              <SimulationSummary
+                title="Open complaints"
+                summary={simulation.openComplaints}
+                footnote={simulation.openComplaints.unclassified > 0 ? `${simulation.openComplaints.unclassified} open complaints have no matching brief and are not classified.` : null}
+              />
+
+              {changedComplaints.length > 0 ? (
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-900">Complaints that would change</h3>
+                  <ul className="mt-2 grid gap-2">
+                    {changedComplaints.slice(0, 25).map((item) => (
+                      <li key={item.complaintId} className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-slate-200 px-3 py-2 text-sm">
+                        <Link href={`/complaints/${item.complaintId}`} className="font-medium text-sky-700 hover:text-sky-900">
+                          {item.complaintReference}
+                        </Link>
+                        <span className="text-xs text-slate-500">{item.product}{item.rootCause ? ` · ${item.rootCause}` : ''} · {item.upheldRate.toFixed(1)}%</span>
+                        <LevelChange from={item.currentLevel} to={item.proposedLevel} />
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+
+              {changedBriefs.length > 0 ? (
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-900">Briefs that would change</h3>
+                  <ul className="mt-2 grid max-h-80 gap-2 overflow-y-auto">
+                    {changedBriefs.slice(0, 100).map((item) => (
+                      <li key={`${item.product}::${item.rootCause || ''}`} className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-slate-200 px-3 py-2 text-sm">
+                        <span className="text-slate-800">{item.product}{item.rootCause ? ` · ${item.rootCause}` : ''}</span>
+                        <span className="text-xs text-slate-500">{item.upheldRate.toFixed(1)}% of {item.totalCases.toLocaleString()}</span>
+                        <LevelChange from={item.currentLevel} to={item.proposedLevel} />
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+            </div>
+          ) : (
+            <div className="mt-4 rounded-2xl border border-dashed border-slate-200 bg-slate-50 p-6 text-sm text-slate-500">
+              Simulate the proposed bands to see how stored advisor briefs and open complaints would be reclassified before publishing.
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="grid gap-6 xl:grid-cols-2">
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-950">Version history</h2>
+          {policies.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">{loading ? 'Loading…' : 'No versions yet. The built-in 60/45/30% bands apply.'}</p>
+          ) : (
+            <ul className="mt-3 grid gap-2">
+              {policies.map((policy) => (
+                <li key={policy.id} className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-slate-900">v{policy.version}</span>
+                    <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold uppercase tracking-[0.14em] ${STATE_STYLES[policy.state]}`}>{policy.state}</span>
+                    <span className="text-slate-700">{formatBands(policy.thresholds)}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-500">
+                    {policy.effectiveFrom ? `Effective ${formatDateTime(policy.effectiveFrom)}` : `Created ${formatDateTime(policy.createdAt)}`}
+                    {policy.publishedBy ? ` · published by ${policy.publishedBy}` : policy.createdBy ? ` · by ${policy.createdBy}` : ''}
+                  </p>
+                  {policy.notes ? <p className="mt-1 text-xs leading-5 text-slate-600">{policy.notes}</p> : null}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-950">Audit log</h2>
+          {events.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">{loading ? 'Loading…' : 'No policy changes recorded yet.'}</p>
+          ) : (
+            <ul className="mt-3 grid gap-2" data-testid="risk-policy-audit-log">
+              {events.map((event) => (
+                <li key={event.id} className="rounded-2xl border border-slate-200 px-4 py-3 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="font-medium text-slate-900">{EVENT_LABELS[event.eventType]} · v{event.version}</span>
+                    <span className="text-xs text-slate-500">{formatDateTime(event.createdAt)}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-600">
+                    {event.actorName || 'Unknown user'}
+                    {event.previousThresholds ? ` · ${formatBands(event.previousThresholds)} → ${formatBands(event.thresholds)}` : ` · ${formatBands(event.thresholds)}`}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function SimulationSummary({ title, summary, footnote = null }: { title: string; summary: RiskPolicySimulationSummary; footnote?: string | null }) {
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-slate-50 p-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="text-sm font-semibold text-slate-900">{title}</h3>
+        <span className="text-xs text-slate-500">
+          {summary.changed} of {summary.total} change · {summary.escalated} up · {summary.deescalated} down
+        </span>
+      </div>
+      <div className="mt-3 grid grid-cols-5 gap-2 text-center text-xs">
+        {(Object.keys(LEVEL_LABELS) as UpholdRiskLevel[]).map((level) => (
+          <div key={level} className="rounded-xl bg-white px-2 py-2">
+            <p className="font-medium text-slate-500">{LEVEL_LABELS[level]}</p>
+            <p className="mt-1 text-slate-900">
+              {summary.levelCounts.current[level]} → <span className="font-semibold">{summary.levelCounts.proposed[level]}</span>
+            </p>
+          </div>
+        ))}
+      </div>
+      {summary.transitions.length > 0 ? (
+        <p className="mt-3 text-xs text-slate-600">
+          {summary.transitions.map((transition) => `${LEVEL_LABELS[transition.from]} → ${LEVEL_LABELS[transition.to]}: ${transition.count}`).join(' · ')}
+        </p>
+      ) : null}
+      {footnote ? <p className="mt-2 text-xs text-slate-500">{footnote}</p> : null}
+    </div>
+  );
+}
+
+function LevelChange({ from, to }: { from: UpholdRiskLevel; to: UpholdRiskLevel }) {
+  return (
+    <span className="text-xs font-semibold text-slate-700">
+      {LEVEL_LABELS[from]} → {LEVEL_LABELS[to]}
+    </span>
+  );
+}
+
+function formatBands(thresholds: UpholdRiskThresholds): string {
+  return `very high ≥ ${thresholds.veryHigh}% · high ≥ ${thresholds.high}% · medium ≥ ${thresholds.medium}% · min ${thresholds.minimumSampleSize} decisions · baseline weight ${thresholds.priorStrength}`;
+}
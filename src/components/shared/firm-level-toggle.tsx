@@ -0,0 +1,41 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { FOSFirmLevel } from '@/lib/fos/types';
+
+interface FirmLevelToggleProps {
+  firmLevel?: FOSFirmLevel;
+  onChange: (firmLevel: FOSFirmLevel) => void;
+}
+
+const LEVEL_OPTIONS: { value: FOSFirmLevel; label: string; title: string }[] = [
+  { value: 'entity', label: 'Entity', title: 'One row per registered firm or unregistered published name' },
+  { value: 'group', label: 'Group', title: 'Roll registered entities and brands up to their parent group' },
+];
+
+/** Switches firm aggregation between registered entities and their parent groups. */
+export function FirmLevelToggle({ firmLevel = 'entity', onChange }: FirmLevelToggleProps) {
+  return (
+    <div className="flex items-center gap-1" data-testid="firm-level-toggle">
+      {LEVEL_OPTIONS.map(({ value, label, title }) => (
+        <button
+          key={value}
+          type="button"
+          title={title}
+          aria-pressed={firmLevel === value}
+          onClick={() => {
+            if (firmLevel !== value) onChange(value);
+          }}
+          className={cn(
+            'rounded-full border px-2.5 py-0.5 text-[11px] font-semibold transition',
+            firmLevel === value
+              ? 'border-blue-300 bg-blue-100 text-blue-800'
+              : 'border-slate-300 bg-white text-slate-600 hover:border-slate-400'
+          )}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
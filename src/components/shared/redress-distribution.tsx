@@ -0,0 +1,71 @@
+'use client';
+
+import { FOSRedressDistribution } from '@/lib/fos/types';
+import { REDRESS_AWARD_TYPE_LABELS } from '@/lib/fos/constants';
+import { EmptyState } from '@/components/shared/empty-state';
+import { formatCurrency, formatNumber, formatPercent } from '@/lib/utils';
+
+interface RedressDistributionProps {
+  redress: FOSRedressDistribution | null | undefined;
+}
+
+/** Typical redress: award amount quartiles, award type mix and interest directions. */
+export function RedressDistribution({ redress }: RedressDistributionProps) {
+  if (!redress) {
+    return <EmptyState label="No extracted redress yet. Run the enrichment backfill to populate award data." />;
+  }
+  if (redress.decisionsWithRedress === 0) {
+    return <EmptyState label={`No redress directions found in ${formatNumber(redress.decisionsAnalysed)} analysed decisions.`} />;
+  }
+
+  const { amounts, interest } = redress;
+
+  return (
+    <div data-testid="redress-distribution" className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="rounded-xl border border-slate-200 bg-white p-3">
+          <p className="text-[10px] uppercase tracking-wider text-slate-500">Median award</p>
+          <p className="mt-1 text-lg font-semibold text-slate-900">{amounts ? formatCurrency(amounts.median) : '—'}</p>
+          <p className="text-[11px] text-slate-500">
+            {amounts
+              ? `Middle half ${formatCurrency(amounts.p25)}–${formatCurrency(amounts.p75)} · 90th pct ${formatCurrency(amounts.p90)}`
+              : 'No monetary awards found'}
+          </p>
+        </div>
+        <div className="rounded-xl border border-slate-200 bg-white p-3">
+          <p className="text-[10px] uppercase tracking-wider text-slate-500">Decisions with redress</p>
+          <p className="mt-1 text-lg font-semibold text-slate-900">{formatNumber(redress.decisionsWithRedress)}</p>
+          <p className="text-[11px] text-slate-500">
+            {formatNumber(redress.decisionsWithMonetaryAward)} with a money award · {formatNumber(redress.decisionsAnalysed)} analysed
+          </p>
+        </div>
+        <div className="rounded-xl border border-slate-200 bg-white p-3">
+          <p className="text-[10px] uppercase tracking-wider text-slate-500">Interest directed</p>
+          <p className="mt-1 text-lg font-semibold text-slate-900">{formatPercent(interest.share)}</p>
+          <p className="text-[11px] text-slate-500">
+            {interest.commonRate != null
+              ? `Usually ${interest.commonRate}% · ${formatPercent(interest.simpleShare)} simple`
+              : 'No interest directions found'}
+          </p>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {redress.byType.map((entry) => (
+          <li key={entry.type} className="text-xs">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-slate-800">{REDRESS_AWARD_TYPE_LABELS[entry.type] ?? entry.type}</span>
+              <span className="text-slate-500">
+                {formatPercent(entry.share)} of decisions
+                {entry.medianAmount != null && ` · median ${formatCurrency(entry.medianAmount)}`}
+              </span>
+            </div>
+            <div className="mt-1 h-1.5 w-full rounded-full bg-slate-100">
+              <div className="h-full rounded-full bg-indigo-400" style={{ width: `${Math.min(entry.share, 100)}%` }} />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START } from '@/lib/fos/constants';
+
+export function SearchSnippet({ snippet, className }: { snippet: string; className?: string }) {
+  const parts = snippet.split(SEARCH_HIGHLIGHT_START);
+  return (
+    <span className={className}>
+      {parts.map((part, index) => {
+        if (index === 0) return <span key={index}>{part}</span>;
+        const [highlighted, ...rest] = part.split(SEARCH_HIGHLIGHT_END);
+        return (
+          <span key={index}>
+            <mark className="rounded bg-amber-100 px-0.5 text-slate-900">{highlighted}</mark>
+            {rest.join('')}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
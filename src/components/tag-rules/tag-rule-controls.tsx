@@ -0,0 +1,641 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/components/auth/auth-provider';
+import type {
+  ActiveTagRules,
+  TagField,
+  TagRetagRun,
+  TagRetagRunStatus,
+  TagRuleCoverage,
+  TagRulePreview,
+  TagRuleSet,
+  TagRuleVersion,
+  TagRuleVersionState,
+} from '@/lib/tagging/types';
+import { formatDateTime, formatNumber } from '@/lib/utils';
+
+type EditableRule = {
+  label: string;
+  aliases: string;
+  minScore: string;
+  patterns: string;
+};
+
+type EditableRuleSet = Record<TagField, EditableRule[]>;
+
+const FIELDS: Array<{ key: TagField; label: string }> = [
+  { key: 'root_cause_tags', label: 'Root causes' },
+  { key: 'precedents', label: 'Precedents' },
+  { key: 'vulnerability_flags', label: 'Vulnerability flags' },
+];
+
+const STATE_STYLES: Record<TagRuleVersionState, string> = {
+  draft: 'bg-amber-100 text-amber-700',
+  active: 'bg-emerald-100 text-emerald-700',
+  superseded: 'bg-slate-100 text-slate-600',
+  discarded: 'bg-rose-100 text-rose-700',
+};
+
+const RUN_STYLES: Record<TagRetagRunStatus, string> = {
+  queued: 'bg-sky-100 text-sky-700',
+  running: 'bg-amber-100 text-amber-700',
+  completed: 'bg-emerald-100 text-emerald-700',
+  failed: 'bg-rose-100 text-rose-700',
+  cancelled: 'bg-slate-100 text-slate-600',
+};
+
+const EMPTY_RULE: EditableRule = { label: '', aliases: '', minScore: '1', patterns: '' };
+
+export function TagRuleControls() {
+  const { can } = useAuth();
+  const canEdit = can('admin');
+  const [active, setActive] = useState<ActiveTagRules | null>(null);
+  const [versions, setVersions] = useState<TagRuleVersion[]>([]);
+  const [runs, setRuns] = useState<TagRetagRun[]>([]);
+  const [coverage, setCoverage] = useState<TagRuleCoverage[]>([]);
+  const [rules, setRules] = useState<EditableRuleSet>({ precedents: [], root_cause_tags: [], vulnerability_flags: [] });
+  const [notes, setNotes] = useState('');
+  const [field, setField] = useState<TagField>('root_cause_tags');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [sampleSize, setSampleSize] = useState('50');
+  const [references, setReferences] = useState('');
+  const [preview, setPreview] = useState<TagRulePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const draft = useMemo(() => versions.find((version) => version.status === 'draft') || null, [versions]);
+  const totalDecisions = useMemo(() => coverage.reduce((sum, item) => sum + item.decisions, 0), [coverage]);
+  const activeCoverage = coverage.find((item) => item.version === active?.version)?.decisions || 0;
+  const fieldRules = rules[field];
+  const selected = fieldRules[selectedIndex] || null;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/tag-rules', { credentials: 'include', cache: 'no-store' });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to load tag rules.');
+      }
+      setActive(payload.active as ActiveTagRules);
+      setVersions(Array.isArray(payload.versions) ? (payload.versions as TagRuleVersion[]) : []);
+      setRuns(Array.isArray(payload.runs) ? (payload.runs as TagRetagRun[]) : []);
+      setCoverage(Array.isArray(payload.coverage) ? (payload.coverage as TagRuleCoverage[]) : []);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load tag rules.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    const source = draft?.rules || active?.rules;
+    if (!source) return;
+    setRules(toEditable(source));
+    setNotes(draft?.notes || '');
+    setSelectedIndex(0);
+  }, [active, draft]);
+
+  async function request(key: string, url: string, init: RequestInit, successMessage: string) {
+    setBusy(key);
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetch(url, {
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        ...init,
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Tag rule request failed.');
+      }
+      setStatus(successMessage);
+      await load();
+      return payload;
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : 'Tag rule request failed.');
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function updateRule(patch: Partial<EditableRule>) {
+    setRules((current) => ({
+      ...current,
+      [field]: current[field].map((rule, index) => (index === selectedIndex ? { ...rule, ...patch } : rule)),
+    }));
+  }
+
+  function addRule() {
+    setRules((current) => ({ ...current, [field]: [...current[field], { ...EMPTY_RULE }] }));
+    setSelectedIndex(fieldRules.length);
+  }
+
+  function removeRule() {
+    setRules((current) => ({ ...current, [field]: current[field].filter((_, index) => index !== selectedIndex) }));
+    setSelectedIndex((current) => Math.max(0, current - 1));
+  }
+
+  async function saveDraft() {
+    const body = JSON.stringify({ rules: toRuleSet(rules), notes });
+    if (draft) {
+      await request('save', `/api/tag-rules/${draft.id}`, { method: 'PATCH', body }, `Draft v${draft.version} saved.`);
+    } else {
+      await request('save', '/api/tag-rules', { method: 'POST', body }, 'Draft created.');
+    }
+  }
+
+  async function publishDraft() {
+    if (!draft) return;
+    const result = await request(
+      'publish',
+      `/api/tag-rules/${draft.id}/publish`,
+      { method: 'POST', body: JSON.stringify({}) },
+      `Draft v${draft.version} is now active. A re-tag run is queued for npm run db:retag-fos-decisions.`
+    );
+    if (result) setPreview(null);
+  }
+
+  async function discardDraft() {
+    if (!draft) return;
+    await request('discard', `/api/tag-rules/${draft.id}`, { method: 'DELETE' }, `Draft v${draft.version} discarded.`);
+  }
+
+  async function queueRetag() {
+    await request(
+      'retag',
+      '/api/tag-rules/retag',
+      { method: 'POST', body: JSON.stringify({}) },
+      `Re-tag with v${active?.version ?? 0} queued for npm run db:retag-fos-decisions.`
+    );
+  }
+
+  async function runPreview() {
+    setBusy('preview');
+    setError(null);
+    try {
+      const response = await fetch('/api/tag-rules/preview', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rules: toRuleSet(rules),
+          sampleSize: Number(sampleSize) || undefined,
+          references: references
+            .split(/[\s,]+/)
+            .map((value) => value.trim())
+            .filter(Boolean),
+        }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.success) {
+        throw new Error(payload?.error || 'Failed to preview tag rules.');
+      }
+      setPreview(payload.preview as TagRulePreview);
+    } catch (previewError) {
+      setError(previewError instanceof Error ? previewError.message : 'Failed to preview tag rules.');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const changedDecisions = preview?.decisions.filter((decision) => decision.changed) || [];
+  const previewLabels = preview?.labels.filter((item) => item.currentHits > 0 || item.proposedHits > 0 || item.field === field) || [];
+
+  return (
+    <div className="mx-auto flex w-full max-w-7xl flex-col gap-6 px-4 py-8 md:px-8">
+      <section className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        <p className="text-xs font-semibold uppercase tracking-[0.22em] text-slate-500">Admin controls</p>
+        <h1 className="mt-2 text-3xl font-semibold tracking-tight text-slate-950">Tag rules</h1>
+        <p className="mt-3 max-w-3xl text-sm leading-7 text-slate-600">
+          Pattern rules that tag each decision with precedents, root causes and vulnerability flags. Changes are staged as a draft,
+          tested against sample decisions, then published; publishing queues a re-tag of the whole corpus and every decision records
+          the version that tagged it.
+        </p>
+        {active ? (
+          <div className="mt-4 flex flex-wrap items-center gap-3 text-sm text-slate-700" data-testid="tag-rules-active">
+            <span className="rounded-full bg-emerald-100 px-3 py-1 text-xs font-semibold text-emerald-700">
+              {active.version === 0 ? 'Built-in rules (v0)' : `Active v${active.version}`}
+            </span>
+            <span>{FIELDS.map((item) => `${active.rules[item.key].length} ${item.label.toLowerCase()}`).join(' · ')}</span>
+            {totalDecisions > 0 ? (
+              <span className="text-xs text-slate-500">
+                {formatNumber(activeCoverage)} of {formatNumber(totalDecisions)} decisions tagged by v{active.version}
+              </span>
+            ) : null}
+          </div>
+        ) : null}
+      </section>
+
+      {error ? <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">{error}</p> : null}
+      {status ? <p className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">{status}</p> : null}
+
+      <section className="grid gap-6 xl:grid-cols-[1fr_1fr]">
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-slate-950">{draft ? `Draft v${draft.version}` : 'Propose new rules'}</h2>
+            {draft ? <span className={`rounded-full px-2 py-1 text-[11px] font-semibold uppercase tracking-[0.18em] ${STATE_STYLES.draft}`}>draft</span> : null}
+          </div>
+
+          <div className="mt-4 flex flex-wrap gap-2">
+            {FIELDS.map((item) => (
+              <button
+                key={item.key}
+                type="button"
+                onClick={() => {
+                  setField(item.key);
+                  setSelectedIndex(0);
+                }}
+                className={`rounded-full px-4 py-1.5 text-xs font-semibold ${
+                  field === item.key ? 'bg-[#0f1f4f] text-white' : 'border border-slate-200 bg-white text-slate-700 hover:border-slate-300'
+                }`}
+              >
+                {item.label} ({rules[item.key].length})
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-4 grid gap-4 md:grid-cols-[0.8fr_1.2fr]">
+            <ul className="grid max-h-96 content-start gap-1 overflow-y-auto" data-testid="tag-rules-list">
+              {fieldRules.map((rule, index) => (
+                <li key={`${field}-${index}`}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedIndex(index)}
+                    className={`w-full rounded-xl px-3 py-2 text-left text-sm ${
+                      index === selectedIndex ? 'bg-sky-50 font-semibold text-sky-800' : 'text-slate-700 hover:bg-slate-50'
+                    }`}
+                  >
+                    {rule.label || 'Untitled rule'}
+                  </button>
+                </li>
+              ))}
+              {canEdit ? (
+                <li>
+                  <button
+                    type="button"
+                    onClick={addRule}
+                    className="w-full rounded-xl border border-dashed border-slate-300 px-3 py-2 text-left text-sm text-slate-600 hover:border-slate-400"
+                  >
+                    + Add rule
+                  </button>
+                </li>
+              ) : null}
+            </ul>
+
+            {selected ? (
+              <div className="grid content-start gap-3">
+                <label className="grid gap-2 text-sm text-slate-700">
+                  <span className="font-medium">Label</span>
+                  <input
+                    data-testid="tag-rules-label"
+                    value={selected.label}
+                    disabled={!canEdit}
+                    onChange={(event) => updateRule({ label: event.target.value })}
+                    className="rounded-xl border border-slate-200 px-3 py-2"
+                  />
+                </label>
+                <label className="grid gap-2 text-sm text-slate-700">
+                  <span className="font-medium">Patterns</span>
+                  <textarea
+                    data-testid="tag-rules-patterns"
+                    value={selected.patterns}
+                    disabled={!canEdit}
+                    onChange={(event) => updateRule({ patterns: event.target.value })}
+                    rows={6}
+                    spellCheck={false}
+                    className="rounded-xl border border-slate-200 px-3 py-2 font-mono text-xs"
+                  />
+                  <span className="text-xs text-slate-500">
+                    One case-insensitive regular expression per line, optionally prefixed with a weight, e.g. <code>2 | \bfailed to explain\b</code>.
+                  </span>
+                </label>
+                <div className="grid gap-3 md:grid-cols-[1fr_auto]">
+                  <label className="grid gap-2 text-sm text-slate-700">
+                    <span className="font-medium">Aliases</span>
+                    <input
+                      value={selected.aliases}
+                      disabled={!canEdit}
+                      onChange={(event) => updateRule({ aliases: event.target.value })}
+                      placeholder="Comma-separated names folded into this label"
+                      className="rounded-xl border border-slate-200 px-3 py-2"
+                    />
+                  </label>
+                  <label className="grid gap-2 text-sm text-slate-700">
+                    <span className="font-medium">Min score</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={20}
+                      value={selected.minScore}
+                      disabled={!canEdit}
+                      onChange={(event) => updateRule({ minScore: event.target.value })}
+                      className="w-24 rounded-xl border border-slate-200 px-3 py-2"
+                    />
+                  </label>
+                </div>
+                <p className="text-xs text-slate-500">A decision gets the label when the weights of its matching patterns add up to the minimum score.</p>
+                {canEdit ? (
+                  <div>
+                    <button
+                      type="button"
+                      onClick={removeRule}
+                      className="rounded-full border border-rose-200 bg-white px-4 py-2 text-xs font-semibold text-rose-700 hover:border-rose-300"
+                    >
+                      Remove rule
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500">{loading ? 'Loading…' : 'No rules for this tag type yet.'}</p>
+            )}
+          </div>
+
+          <label className="mt-4 grid gap-2 text-sm text-slate-700">
+            <span className="font-medium">Rationale</span>
+            <textarea
+              value={notes}
+              disabled={!canEdit}
+              onChange={(event) => setNotes(event.target.value)}
+              rows={2}
+              placeholder="What the change fixes, and the sample decisions checked"
+              className="rounded-xl border border-slate-200 px-3 py-2"
+            />
+          </label>
+
+          <div className="mt-4 flex flex-wrap gap-3">
+            {canEdit ? (
+              <button
+                type="button"
+                data-testid="tag-rules-save"
+                onClick={() => void saveDraft()}
+                disabled={busy !== null || loading}
+                className="rounded-full bg-[#0f1f4f] px-5 py-2.5 text-sm font-semibold text-white hover:bg-[#0c1940] disabled:opacity-60"
+              >
+                {busy === 'save' ? 'Saving…' : draft ? 'Save draft' : 'Create draft'}
+              </button>
+            ) : null}
+            {canEdit && draft ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => void publishDraft()}
+                  disabled={busy !== null}
+                  className="rounded-full bg-emerald-600 px-5 py-2.5 text-sm font-semibold text-white hover:bg-emerald-700 disabled:opacity-60"
+                >
+                  {busy === 'publish' ? 'Publishing…' : 'Publish saved draft'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void discardDraft()}
+                  disabled={busy !== null}
+                  className="rounded-full border border-rose-200 bg-white px-5 py-2.5 text-sm font-semibold text-rose-700 hover:border-rose-300 disabled:opacity-60"
+                >
+                  Discard draft
+                </button>
+              </>
+            ) : null}
+          </div>
+        </div>
+
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm" data-testid="tag-rules-preview">
+          <h2 className="text-lg font-semibold text-slate-950">Test against sample decisions</h2>
+          <p className="mt-2 text-xs text-slate-500">
+            Tags the most recent decisions (or the references listed) with the rules on the left and with the active rules, and shows
+            which tags each set hits and misses.
+          </p>
+          <div className="mt-3 grid gap-3 md:grid-cols-[auto_1fr_auto] md:items-end">
+            <label className="grid gap-2 text-sm text-slate-700">
+              <span className="font-medium">Sample size</span>
+              <input
+                type="number"
+                min={1}
+                max={200}
+                value={sampleSize}
+                onChange={(event) => setSampleSize(event.target.value)}
+                className="w-24 rounded-xl border border-slate-200 px-3 py-2"
+              />
+            </label>
+            <label className="grid gap-2 text-sm text-slate-700">
+              <span className="font-medium">Decision references</span>
+              <input
+                value={references}
+                onChange={(event) => setReferences(event.target.value)}
+                placeholder="Optional, e.g. DRN-1234567 DRN-7654321"
+                className="rounded-xl border border-slate-200 px-3 py-2"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => void runPreview()}
+              disabled={busy !== null || loading}
+              className="rounded-full border border-slate-300 bg-white px-5 py-2.5 text-sm font-semibold text-slate-700 hover:border-slate-400 disabled:opacity-60"
+            >
+              {busy === 'preview' ? 'Testing…' : 'Run test'}
+            </button>
+          </div>
+
+          {preview ? (
+            <div className="mt-5 grid gap-5">
+              <p className="text-sm text-slate-700">
+                {preview.changedDecisions} of {preview.sampleSize} sample decisions change against v{preview.baselineVersion}.
+              </p>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-xs">
+                  <thead className="text-slate-500">
+                    <tr>
+                      <th className="py-1 pr-3 font-medium">Label</th>
+                      <th className="py-1 pr-3 font-medium">Hits (active → proposed)</th>
+                      <th className="py-1 pr-3 font-medium">New hits</th>
+                      <th className="py-1 font-medium">Misses</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewLabels.map((item) => (
+                      <tr key={`${item.field}-${item.label}`} className="border-t border-slate-100">
+                        <td className="py-1.5 pr-3 text-slate-800">
+                          {item.label}
+                          <span className="ml-1 text-slate-400">{FIELDS.find((entry) => entry.key === item.field)?.label}</span>
+                        </td>
+                        <td className="py-1.5 pr-3 text-slate-700">
+                          {item.currentHits} → <span className="font-semibold">{item.proposedHits}</span>
+                        </td>
+                        <td className="py-1.5 pr-3 text-emerald-700">{item.gained > 0 ? `+${item.gained}` : '–'}</td>
+                        <td className="py-1.5 text-rose-700">{item.lost > 0 ? `−${item.lost}` : '–'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {changedDecisions.length > 0 ? (
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-900">Decisions that would change</h3>
+                  <ul className="mt-2 grid max-h-96 gap-2 overflow-y-auto">
+                    {changedDecisions.map((decision) => (
+                      <li key={decision.decisionReference} className="rounded-xl border border-slate-200 px-3 py-2 text-sm">
+                        <div className="flex flex-wrap items-baseline justify-between gap-2">
+                          <span className="font-medium text-slate-900">{decision.decisionReference}</span>
+                          <span className="text-xs text-slate-500">
+                            {[decision.businessName, decision.product, decision.decisionDate].filter(Boolean).join(' · ')}
+                          </span>
+                        </div>
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {FIELDS.flatMap((item) => [
+                            ...decision.fields[item.key].added.map((label) => (
+                              <span key={`${item.key}+${label}`} className="rounded-full bg-emerald-100 px-2 py-0.5 text-[11px] text-emerald-800">
+                                + {label}
+                              </span>
+                            )),
+                            ...decision.fields[item.key].removed.map((label) => (
+                              <span key={`${item.key}-${label}`} className="rounded-full bg-rose-100 px-2 py-0.5 text-[11px] text-rose-800">
+                                − {label}
+                              </span>
+                            )),
+                          ])}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+            </div>
+          ) : (
+            <div className="mt-4 rounded-2xl border border-dashed border-slate-200 bg-slate-50 p-6 text-sm text-slate-500">
+              Run a test to see how the edited rules would tag real decisions before saving or publishing them.
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="grid gap-6 xl:grid-cols-2">
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+          <h2 className="text-lg font-semibold text-slate-950">Version history</h2>
+          {versions.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">{loading ? 'Loading…' : 'No versions yet. The built-in rules (v0) apply.'}</p>
+          ) : (
+            <ul className="mt-3 grid gap-2">
+              {versions.map((version) => (
+                <li key={version.id} className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-slate-900">v{version.version}</span>
+                    <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold uppercase tracking-[0.14em] ${STATE_STYLES[version.state]}`}>
+                      {version.state}
+                    </span>
+                    <span className="text-slate-700">{FIELDS.map((item) => version.rules[item.key].length).join(' / ')} rules</span>
+                    <span className="text-xs text-slate-500">
+                      {formatNumber(coverage.find((item) => item.version === version.version)?.decisions || 0)} decisions
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-500">
+                    {version.publishedAt ? `Published ${formatDateTime(version.publishedAt)}` : `Created ${formatDateTime(version.createdAt)}`}
+                    {version.publishedBy ? ` by ${version.publishedBy}` : version.createdBy ? ` by ${version.createdBy}` : ''}
+                  </p>
+                  {version.notes ? <p className="mt-1 text-xs leading-5 text-slate-600">{version.notes}</p> : null}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-slate-950">Re-tag runs</h2>
+            {canEdit ? (
+              <button
+                type="button"
+                onClick={() => void queueRetag()}
+                disabled={busy !== null || loading}
+                className="rounded-full border border-slate-300 bg-white px-4 py-2 text-xs font-semibold text-slate-700 hover:border-slate-400 disabled:opacity-60"
+              >
+                {busy === 'retag' ? 'Queueing…' : `Queue re-tag with v${active?.version ?? 0}`}
+              </button>
+            ) : null}
+          </div>
+          <p className="mt-2 text-xs text-slate-500">
+            Runs are processed by <code>npm run db:retag-fos-decisions</code>, which only touches decisions tagged by another version.
+          </p>
+          {runs.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">{loading ? 'Loading…' : 'No re-tag runs yet.'}</p>
+          ) : (
+            <ul className="mt-3 grid gap-2" data-testid="tag-rules-runs">
+              {runs.map((run) => (
+                <li key={run.id} className="rounded-2xl border border-slate-200 px-4 py-3 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="font-medium text-slate-900">v{run.ruleVersion}</span>
+                    <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold uppercase tracking-[0.14em] ${RUN_STYLES[run.status]}`}>
+                      {run.status}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-600">
+                    {run.totalDecisions != null
+                      ? `${formatNumber(run.processed)} of ${formatNumber(run.totalDecisions)} processed · ${formatNumber(run.changed)} changed`
+                      : 'Waiting for the re-tag job'}
+                  </p>
+                  <p className="mt-1 text-xs text-slate-500">
+                    Requested {formatDateTime(run.createdAt)}
+                    {run.requestedBy ? ` by ${run.requestedBy}` : ''}
+                    {run.completedAt ? ` · finished ${formatDateTime(run.completedAt)}` : ''}
+                  </p>
+                  {run.error ? <p className="mt-1 text-xs text-rose-700">{run.error}</p> : null}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function toEditable(rules: TagRuleSet): EditableRuleSet {
+  const convert = (list: TagRuleSet[TagField]): EditableRule[] =>
+    list.map((rule) => ({
+      label: rule.label,
+      aliases: rule.aliases.join(', '),
+      minScore: String(rule.minScore),
+      patterns: rule.patterns.map((pattern) => `${pattern.weight} | ${pattern.regex}`).join('\n'),
+    }));
+  return {
+    precedents: convert(rules.precedents),
+    root_cause_tags: convert(rules.root_cause_tags),
+    vulnerability_flags: convert(rules.vulnerability_flags),
+  };
+}
+
+function toRuleSet(rules: EditableRuleSet): TagRuleSet {
+  const convert = (list: EditableRule[]): TagRuleSet[TagField] =>
+    list.map((rule) => ({
+      label: rule.label.trim(),
+      aliases: rule.aliases
+        .split(',')
+        .map((alias) => alias.trim())
+        .filter(Boolean),
+      minScore: Number(rule.minScore) || 1,
+      patterns: rule.patterns
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => {
+          const match = line.match(/^(\d+)\s*\|\s*(.+)$/);
+          return match ? { weight: Number(match[1]), regex: match[2].trim() } : { weight: 1, regex: line };
+        }),
+    }));
+  return {
+    precedents: convert(rules.precedents),
+    root_cause_tags: convert(rules.root_cause_tags),
+    vulnerability_flags: convert(rules.vulnerability_flags),
+  };
+}
@@ -1,11 +1,14 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import Link from 'next/link';
 import { ArrowRight } from 'lucide-react';
 import { ExpandableCard } from '@/components/shared/expandable-card';
 import { useFosFilters } from '@/hooks/use-fos-filters';
 import { useFosDashboard, useCaseDetail } from '@/hooks/use-fos-dashboard';
+import { useFosForecast } from '@/hooks/use-fos-forecast';
+import { useSavedSearches } from '@/hooks/use-saved-searches';
+import { useAuth } from '@/components/auth/auth-provider';
 import { KpiCard } from '@/components/dashboard/kpi-card';
 import { SearchBar } from '@/components/dashboard/search-bar';
 import { TrendChart } from '@/components/dashboard/trend-chart';
@@ -14,9 +17,15 @@ import { ProductBarChart } from '@/components/dashboard/product-bar-chart';
 import { FirmConcentration } from '@/components/dashboard/firm-concentration';
 import { CaseExplorer } from '@/components/dashboard/case-explorer';
 import { CaseDetailSheet } from '@/components/dashboard/case-detail-sheet';
+import { SavedSearchesPanel } from '@/components/dashboard/saved-searches-panel';
 import { SkeletonCard } from '@/components/shared/skeleton-card';
 import { YearFilterBar } from '@/components/shared/year-filter-bar';
+import { FirmLevelToggle } from '@/components/shared/firm-level-toggle';
 import { formatNumber, formatPercent, formatDate, formatDateTime } from '@/lib/utils';
+import type { FOSSavedSearch } from '@/lib/saved-searches/types';
+import { OMBUDSMAN_MIN_DECISIONS } from '@/lib/fos/constants';
+
+const withheldHelper = `Withheld below ${OMBUDSMAN_MIN_DECISIONS} decisions for one ombudsman.`;
 
 export default function FOSComplaintsDashboardPage() {
   const {
@@ -29,18 +38,34 @@ export default function FOSComplaintsDashboardPage() {
     toggleOutcome,
     toggleProduct,
     toggleFirm,
+    setFirmLevel,
     setTagFilter,
     setYears,
     setPage,
     applySearchQuery,
     clearFilters,
+    applyFilterSet,
   } = useFosFilters();
 
+  const { user } = useAuth();
+  const { savedSearches, saveSearch, updateSavedSearch, deleteSavedSearch } = useSavedSearches(Boolean(user));
+  const [activeSavedSearchId, setActiveSavedSearchId] = useState<string | null>(null);
+
   const { snapshot, loading, error, casesLoading, casesError, responseMeta, progress, fetchDashboard } =
     useFosDashboard(filters, initialized);
+  const { forecast } = useFosForecast(filters, initialized);
 
   const { selectedCaseId, setSelectedCaseId, selectedCase, caseLoading, caseError } = useCaseDetail();
 
+  const applySavedSearch = useCallback(
+    (savedSearch: FOSSavedSearch) => {
+      applyFilterSet(savedSearch.filters);
+      setActiveSavedSearchId(savedSearch.id);
+      void updateSavedSearch(savedSearch.id, { markViewed: true }).catch(() => undefined);
+    },
+    [applyFilterSet, updateSavedSearch]
+  );
+
   const activeProduct = filters.products[0] || null;
   const activeOutcome = filters.outcomes[0] || null;
 
@@ -122,6 +147,27 @@ export default function FOSComplaintsDashboardPage() {
           />
         </section>
 
+        {/* Saved searches */}
+        {user && (
+          <section>
+            <SavedSearchesPanel
+              savedSearches={savedSearches}
+              canSave={hasActiveFilters}
+              activeSavedSearchId={activeSavedSearchId}
+              onSave={async (name) => {
+                const created = await saveSearch(name, filters);
+                setActiveSavedSearchId(created.id);
+              }}
+              onApply={applySavedSearch}
+              onToggleAlerts={(savedSearch) => updateSavedSearch(savedSearch.id, { alertsEnabled: !savedSearch.alertsEnabled })}
+              onDelete={async (savedSearch) => {
+                await deleteSavedSearch(savedSearch.id);
+                if (activeSavedSearchId === savedSearch.id) setActiveSavedSearchId(null);
+              }}
+            />
+          </section>
+        )}
+
         {/* Year filter bar */}
         {availableYears.length > 0 && (
           <section>
@@ -173,7 +219,7 @@ export default function FOSComplaintsDashboardPage() {
               <KpiCard
                 label="Upheld rate"
                 value={snapshot ? formatPercent(snapshot.overview.upheldRate) : null}
-                helper={snapshot ? `${formatNumber(snapshot.overview.upheldCases)} cases upheld` : ''}
+                helper={snapshot ? (snapshot.overview.upheldRate == null ? withheldHelper : `${formatNumber(snapshot.overview.upheldCases)} cases upheld`) : ''}
                 accent="bg-emerald-400"
                 borderColor="#f97316"
                 loading={loading && !snapshot}
@@ -181,13 +227,16 @@ export default function FOSComplaintsDashboardPage() {
               <KpiCard
                 label="Not upheld rate"
                 value={snapshot ? formatPercent(snapshot.overview.notUpheldRate) : null}
-                helper={snapshot ? `${formatNumber(snapshot.overview.notUpheldCases)} not upheld` : ''}
+                helper={snapshot ? (snapshot.overview.notUpheldRate == null ? withheldHelper : `${formatNumber(snapshot.overview.notUpheldCases)} not upheld`) : ''}
                 accent="bg-rose-400"
                 borderColor="#f97316"
                 loading={loading && !snapshot}
               />
               <article className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm" style={{ borderTopColor: '#3b82f6', borderTopWidth: '3px' }}>
-                <h3 className="text-xs uppercase tracking-[0.16em] text-slate-500">Firm concentration</h3>
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="text-xs uppercase tracking-[0.16em] text-slate-500">Firm concentration</h3>
+                  <FirmLevelToggle firmLevel={filters.firmLevel} onChange={setFirmLevel} />
+                </div>
                 <div className="mt-2">
                   {snapshot ? (
                     <FirmConcentration
@@ -209,7 +258,12 @@ export default function FOSComplaintsDashboardPage() {
         <section className="grid gap-4 xl:grid-cols-[1.85fr_1fr] xl:items-start">
           <ExpandableCard title="Year trend and drill-down" description="Click a year to filter. Multi-select enabled." interactionHint="Click a dot or year pill to filter all panels by that year.">
             {snapshot ? (
-              <TrendChart trends={snapshot.trends} activeYears={filters.years} onToggleYear={toggleYear} />
+              <TrendChart
+                trends={snapshot.trends}
+                activeYears={filters.years}
+                onToggleYear={toggleYear}
+                forecast={forecast}
+              />
             ) : (
               <div className="h-[320px] animate-pulse rounded-xl bg-slate-100" />
             )}
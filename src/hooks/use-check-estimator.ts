@@ -1,7 +1,7 @@
 'use client';
 
 import { useCallback, useEffect, useRef, useState } from 'react';
-import type { FOSAdvisorBrief } from '@/lib/fos/types';
+import type { FOSAdvisorBrief, FOSAdvisorOptions } from '@/lib/fos/types';
 import type { FOSAdvisorApiResponse, FOSAdvisorOptionsApiResponse } from '@/types/fos-dashboard';
 import type { EstimatorFirmOverlay } from '@/lib/fos/advisor-repository';
 
@@ -18,7 +18,7 @@ export function useCheckEstimator() {
   const [firmOverlay, setFirmOverlay] = useState<EstimatorFirmOverlay | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [options, setOptions] = useState<{ products: string[]; rootCauses: string[] } | null>(null);
+  const [options, setOptions] = useState<FOSAdvisorOptions | null>(null);
   const [optionsLoading, setOptionsLoading] = useState(true);
   const requestRef = useRef<AbortController | null>(null);
 
@@ -33,7 +33,7 @@ export function useCheckEstimator() {
       setOptions(payload.data);
     } catch (err) {
       console.error('Failed to load estimator options:', err);
-      setOptions({ products: [], rootCauses: [] });
+      setOptions({ products: [], rootCauses: [], featuredProducts: [] });
     } finally {
       setOptionsLoading(false);
     }
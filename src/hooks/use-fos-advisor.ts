@@ -1,7 +1,7 @@
 'use client';
 
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { FOSAdvisorBrief, FOSAdvisorQuery } from '@/lib/fos/types';
+import { FOSAdvisorBrief, FOSAdvisorOptions, FOSAdvisorQuery } from '@/lib/fos/types';
 import { FOSAdvisorApiResponse, FOSAdvisorOptionsApiResponse } from '@/types/fos-dashboard';
 
 const ADVISOR_TIMEOUT_MS = 30_000;
@@ -10,7 +10,7 @@ export function useFosAdvisor() {
   const [brief, setBrief] = useState<FOSAdvisorBrief | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [options, setOptions] = useState<{ products: string[]; rootCauses: string[] } | null>(null);
+  const [options, setOptions] = useState<FOSAdvisorOptions | null>(null);
   const [optionsLoading, setOptionsLoading] = useState(true);
   const requestRef = useRef<AbortController | null>(null);
 
@@ -25,7 +25,7 @@ export function useFosAdvisor() {
       setOptions(payload.data);
     } catch (err) {
       console.error('Failed to load advisor options:', err);
-      setOptions({ products: [], rootCauses: [] });
+      setOptions({ products: [], rootCauses: [], featuredProducts: [] });
     } finally {
       setOptionsLoading(false);
     }
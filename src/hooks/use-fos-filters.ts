@@ -1,7 +1,7 @@
 'use client';
 
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { FOSDashboardFilters, FOSOutcome } from '@/lib/fos/types';
+import { FOSDashboardFilters, FOSFirmLevel, FOSOutcome } from '@/lib/fos/types';
 import { INITIAL_FILTERS } from '@/lib/fos/constants';
 import { clamp, parsePositiveInt, toggleNumber, toggleText } from '@/lib/utils';
 
@@ -30,6 +30,8 @@ function parseFiltersFromQueryString(search: string): FOSDashboardFilters {
     outcomes,
     products: parseStringList('product'),
     firms: parseStringList('firm'),
+    firmLevel: params.get('firmLevel') === 'group' ? 'group' : 'entity',
+    ombudsmen: parseStringList('ombudsman'),
     tags: parseStringList('tag'),
     page: parsePositiveInt(params.get('page'), 1),
     pageSize: clamp(parsePositiveInt(params.get('pageSize'), 25), 5, 100),
@@ -43,6 +45,8 @@ export function buildQueryParams(filters: FOSDashboardFilters): URLSearchParams
   filters.outcomes.forEach((outcome) => params.append('outcome', outcome));
   filters.products.forEach((product) => params.append('product', product));
   filters.firms.forEach((firm) => params.append('firm', firm));
+  if (filters.firmLevel === 'group') params.set('firmLevel', 'group');
+  filters.ombudsmen.forEach((ombudsman) => params.append('ombudsman', ombudsman));
   filters.tags.forEach((tag) => params.append('tag', tag));
   params.set('page', String(filters.page));
   params.set('pageSize', String(filters.pageSize));
@@ -76,6 +80,8 @@ export function useFosFilters() {
       filters.outcomes.length > 0 ||
       filters.products.length > 0 ||
       filters.firms.length > 0 ||
+      filters.firmLevel === 'group' ||
+      filters.ombudsmen.length > 0 ||
       filters.tags.length > 0,
     [filters]
   );
@@ -104,6 +110,19 @@ export function useFosFilters() {
     }));
   }, []);
 
+  // Firm labels differ between levels, so switching level drops the firm selection.
+  const setFirmLevel = useCallback((firmLevel: FOSFirmLevel) => {
+    setFilters((prev) => (prev.firmLevel === firmLevel ? prev : { ...prev, firmLevel, firms: [], page: 1 }));
+  }, []);
+
+  const toggleOmbudsman = useCallback((ombudsman: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      ombudsmen: prev.ombudsmen.includes(ombudsman) ? [] : [ombudsman],
+      page: 1,
+    }));
+  }, []);
+
   const setTagFilter = useCallback((tag: string) => {
     setFilters((prev) => ({
       ...prev,
@@ -138,6 +157,11 @@ export function useFosFilters() {
     setQueryDraft('');
   }, []);
 
+  const applyFilterSet = useCallback((next: Omit<FOSDashboardFilters, 'page' | 'pageSize'>) => {
+    setFilters((prev) => ({ ...INITIAL_FILTERS, ...next, page: 1, pageSize: prev.pageSize }));
+    setQueryDraft(next.query);
+  }, []);
+
   return {
     filters,
     setFilters,
@@ -149,11 +173,14 @@ export function useFosFilters() {
     toggleOutcome,
     toggleProduct,
     toggleFirm,
+    setFirmLevel,
+    toggleOmbudsman,
     setTagFilter,
     toggleTag,
     setYears,
     setPage,
     applySearchQuery,
     clearFilters,
+    applyFilterSet,
   };
 }
@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { FOSDashboardFilters, FOSForecast } from '@/lib/fos/types';
+import { FOSForecastApiResponse } from '@/types/fos-dashboard';
+import { buildQueryParams } from './use-fos-filters';
+
+/**
+ * Forecast for the current filter scope. Year and paging changes do not refetch:
+ * the projection is always fitted on the full history of the scope.
+ */
+export function useFosForecast(filters: FOSDashboardFilters, initialized: boolean) {
+  const [forecast, setForecast] = useState<FOSForecast | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const query = useMemo(() => {
+    const params = buildQueryParams({ ...filters, years: [], page: 1 });
+    params.delete('page');
+    params.delete('pageSize');
+    return params.toString();
+  }, [filters]);
+
+  useEffect(() => {
+    if (!initialized) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+
+    void (async () => {
+      try {
+        const response = await fetch(`/api/fos/forecast${query ? `?${query}` : ''}`, { signal: controller.signal });
+        const payload = (await response.json()) as FOSForecastApiResponse;
+
+        if (!response.ok || !payload.success) {
+          throw new Error(payload.error || `Forecast request failed (${response.status}).`);
+        }
+
+        setForecast(payload.data ?? null);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        setForecast(null);
+        setError(err instanceof Error ? err.message : 'Failed to load forecast.');
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setLoading(false);
+        }
+      }
+    })();
+  }, [initialized, query]);
+
+  useEffect(() => () => { controllerRef.current?.abort(); }, []);
+
+  return { forecast, loading, error };
+}
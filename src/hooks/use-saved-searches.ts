@@ -0,0 +1,107 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { FOSDashboardFilters } from '@/lib/fos/types';
+import type { FOSSavedSearch, FOSSavedSearchAlert } from '@/lib/saved-searches/types';
+
+export function useSavedSearches(enabled: boolean) {
+  const [savedSearches, setSavedSearches] = useState<FOSSavedSearch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/fos/saved-searches', { cache: 'no-store' });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok || !payload.success) throw new Error(payload.error || 'Failed to load saved searches.');
+      setSavedSearches(payload.savedSearches || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load saved searches.');
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const saveSearch = useCallback(
+    async (name: string, filters: FOSDashboardFilters) => {
+      const response = await fetch('/api/fos/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, filters, alertsEnabled: true }),
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok || !payload.success) throw new Error(payload.error || 'Failed to save search.');
+      await refresh();
+      return payload.savedSearch as FOSSavedSearch;
+    },
+    [refresh]
+  );
+
+  const updateSavedSearch = useCallback(
+    async (id: string, body: { name?: string; alertsEnabled?: boolean; markViewed?: boolean }) => {
+      const response = await fetch(`/api/fos/saved-searches/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok || !payload.success) throw new Error(payload.error || 'Failed to update saved search.');
+      setSavedSearches((prev) => prev.map((item) => (item.id === id ? (payload.savedSearch as FOSSavedSearch) : item)));
+    },
+    []
+  );
+
+  const deleteSavedSearch = useCallback(async (id: string) => {
+    const response = await fetch(`/api/fos/saved-searches/${id}`, { method: 'DELETE' });
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok || !payload.success) throw new Error(payload.error || 'Failed to delete saved search.');
+    setSavedSearches((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  return { savedSearches, loading, error, refresh, saveSearch, updateSavedSearch, deleteSavedSearch };
+}
+
+export function useSavedSearchAlerts(enabled: boolean) {
+  const [alerts, setAlerts] = useState<FOSSavedSearchAlert[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+    setLoading(true);
+    try {
+      const response = await fetch('/api/fos/saved-searches/alerts?limit=20', { cache: 'no-store' });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok || !payload.success) return;
+      setAlerts(payload.alerts || []);
+      setUnreadCount(payload.unreadCount || 0);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const markAllRead = useCallback(async () => {
+    const response = await fetch('/api/fos/saved-searches/alerts', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+    if (!response.ok) return;
+    const readAt = new Date().toISOString();
+    setAlerts((prev) => prev.map((alert) => (alert.readAt ? alert : { ...alert, readAt })));
+    setUnreadCount(0);
+  }, []);
+
+  return { alerts, unreadCount, loading, refresh, markAllRead };
+}
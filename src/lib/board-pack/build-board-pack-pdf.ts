@@ -1,4 +1,5 @@
 import { PDFDocument, rgb, StandardFonts, type PDFFont, type PDFPage } from 'pdf-lib';
+import type { FOSForecast, FOSForecastPeriod } from '@/lib/fos/types';
 import type { BoardPackData } from './types';
 
 const PAGE_WIDTH = 841.89;
@@ -38,6 +39,12 @@ export async function buildBoardPackPdf(data: BoardPackData): Promise<Uint8Array
   pages.push(concentration);
   drawConcentrationPage(concentration, data, regular, bold);
 
+  if (data.forecast && data.sections.some((section) => section.key === 'forecast' && section.status === 'included')) {
+    const outlook = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    pages.push(outlook);
+    drawForecastPage(outlook, data.forecast, regular, bold);
+  }
+
   if (data.sections.some((section) => section.key === 'appendix' && section.status === 'included')) {
     const appendix = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
     pages.push(appendix);
@@ -122,9 +129,10 @@ function drawSummaryPage(page: PDFPage, data: BoardPackData, regular: PDFFont, b
     `Overdue complaints: ${formatNumber(data.summary.overdueComplaints)}`,
     `Referred to FOS: ${formatNumber(data.summary.referredToFos)}`,
     `Not upheld rate: ${data.summary.notUpheldRate.toFixed(1)}%`,
+    `Ops risk critical / high: ${formatNumber(data.summary.operationalRisk.levels.critical)} / ${formatNumber(data.summary.operationalRisk.levels.high)}`,
   ];
   operationsLines.forEach((line, index) => {
-    page.drawText(line, { x: 514, y: 198 - index * 18, size: 10, font: regular, color: theme.slate });
+    page.drawText(line, { x: 514, y: 198 - index * 15, size: 10, font: regular, color: theme.slate });
   });
 }
 
@@ -158,6 +166,51 @@ function drawConcentrationPage(page: PDFPage, data: BoardPackData, regular: PDFF
   drawWrappedText(page, 'Use this page to challenge whether management attention is directed to the businesses, products, and recurring themes that are driving complaint exposure and upheld outcomes.', MARGIN + 18, 78, PAGE_WIDTH - MARGIN * 2 - 36, 10, regular, theme.muted, 13);
 }
 
+function drawForecastPage(page: PDFPage, forecast: NonNullable<BoardPackData['forecast']>, regular: PDFFont, bold: PDFFont) {
+  page.drawRectangle({ x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT, color: theme.white });
+  drawPageTitle(page, 'Outlook and Forecast', 'Projected decision volumes and uphold rates for the next quarter and the next four quarters.', regular, bold);
+
+  const scope = forecast.scope;
+  const cardWidth = 178;
+  const cards: Array<[string, string, ReturnType<typeof rgb>]> = scope
+    ? [
+        [`${scope.nextQuarter.label} decisions · ${formatRange(scope.nextQuarter.total)}`, formatNumber(scope.nextQuarter.total.value), theme.blue],
+        [`${scope.nextQuarter.label} upheld · ${formatRateRange(scope.nextQuarter.upheldRate)}`, `${scope.nextQuarter.upheldRate.value.toFixed(1)}%`, theme.red],
+        [`Next 4 quarters decisions · ${formatRange(scope.nextYear.total)}`, formatNumber(scope.nextYear.total.value), theme.teal],
+        [`Next 4 quarters upheld · ${formatRateRange(scope.nextYear.upheldRate)}`, `${scope.nextYear.upheldRate.value.toFixed(1)}%`, theme.amber],
+      ]
+    : [['Scope forecast', 'Insufficient history', theme.muted]];
+  cards.forEach(([label, value, accent], index) => {
+    drawMetricCard(page, MARGIN + index * (cardWidth + 15), 410, cardWidth, 92, label, value, accent, regular, bold);
+  });
+
+  drawRoundedPanel(page, MARGIN, 150, 356, 236, theme.panel, theme.border);
+  drawRoundedPanel(page, 444, 150, 356, 236, theme.panel, theme.border);
+  page.drawText('Largest products', { x: MARGIN + 18, y: 360, size: 12, font: bold, color: theme.ink });
+  page.drawText('Largest firms', { x: 462, y: 360, size: 12, font: bold, color: theme.ink });
+  drawForecastRows(page, MARGIN + 18, forecast.products.map((row) => [row.product, row.forecast]), regular, bold);
+  drawForecastRows(page, 462, forecast.firms.map((row) => [row.firm, row.forecast]), regular, bold);
+
+  drawRoundedPanel(page, MARGIN, 54, PAGE_WIDTH - MARGIN * 2, 76, theme.panelWarm, theme.border);
+  page.drawText('Method', { x: MARGIN + 18, y: 108, size: 12, font: bold, color: theme.ink });
+  const method = scope
+    ? `Damped-trend exponential smoothing fitted on ${scope.historyQuarters} complete quarters to ${scope.lastCompleteQuarter}. Ranges are ${Math.round(scope.intervalLevel * 100)}% prediction intervals and ignore the pack's date range. Projections extend recent history and do not anticipate regulatory or market events.`
+    : 'Fewer than two years of complete quarterly history are available for this scope, so no projection has been made.';
+  drawWrappedText(page, method, MARGIN + 18, 88, PAGE_WIDTH - MARGIN * 2 - 36, 10, regular, theme.slate, 13);
+}
+
+function drawForecastRows(page: PDFPage, x: number, rows: Array<[string, FOSForecast]>, regular: PDFFont, bold: PDFFont) {
+  if (rows.length === 0) {
+    drawWrappedText(page, 'Not enough quarterly history to project any entry in this scope.', x, 334, 320, 10, regular, theme.muted, 14);
+    return;
+  }
+  let y = 316;
+  rows.slice(0, 3).forEach(([label, forecast]) => {
+    drawMiniRowCard(page, x, y, 320, 38, label, formatForecastPeriod(forecast.nextYear), regular, bold);
+    y -= 52;
+  });
+}
+
 function drawAppendixPage(page: PDFPage, data: BoardPackData, regular: PDFFont, bold: PDFFont) {
   page.drawRectangle({ x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT, color: theme.white });
   drawPageTitle(page, 'Appendix and Methodology', 'Scope notes, included sections, and supporting observations.', regular, bold);
@@ -267,6 +320,18 @@ function drawFooter(page: PDFPage, regular: PDFFont, organizationName: string, p
   page.drawText(text, { x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(text, 8), y: 14, size: 8, font: regular, color: theme.muted });
 }
 
+function formatForecastPeriod(period: FOSForecastPeriod): string {
+  return `${formatNumber(period.total.value)} (${formatRange(period.total)}) · ${period.upheldRate.value.toFixed(1)}% upheld (${formatRateRange(period.upheldRate)})`;
+}
+
+function formatRange(range: FOSForecastPeriod['total']): string {
+  return `${formatNumber(range.lower)}–${formatNumber(range.upper)}`;
+}
+
+function formatRateRange(range: FOSForecastPeriod['upheldRate']): string {
+  return `${range.lower.toFixed(1)}–${range.upper.toFixed(1)}%`;
+}
+
 function formatNumber(value: number): string {
   return value.toLocaleString('en-GB');
 }
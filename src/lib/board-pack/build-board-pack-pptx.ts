@@ -1,4 +1,5 @@
 import PptxGenJS from 'pptxgenjs';
+import type { FOSForecastPeriod } from '@/lib/fos/types';
 import type { BoardPackData } from './types';
 
 const palette = {
@@ -89,11 +90,12 @@ export async function buildBoardPackPptx(data: BoardPackData): Promise<Buffer> {
     `Open complaints: ${formatNumber(data.summary.openComplaints)}`,
     `Overdue complaints: ${formatNumber(data.summary.overdueComplaints)}`,
     `Referred to FOS: ${formatNumber(data.summary.referredToFos)}`,
+    `Ops risk critical / high: ${formatNumber(data.summary.operationalRisk.levels.critical)} / ${formatNumber(data.summary.operationalRisk.levels.high)}`,
   ].join('\n'), {
     x: 8.0,
     y: 2.9,
     w: 4.35,
-    h: 0.58,
+    h: 0.7,
     fontSize: 10,
     color: palette.slate,
     breakLine: false,
@@ -174,6 +176,37 @@ export async function buildBoardPackPptx(data: BoardPackData): Promise<Buffer> {
   );
   addFooter(concentration, 'Concentration and Root-Cause View', data.branding.organizationName);
 
+  if (data.forecast && data.sections.some((section) => section.key === 'forecast' && section.status === 'included')) {
+    const outlook = pptx.addSlide();
+    const scope = data.forecast.scope;
+    drawSlideBase(outlook);
+    addTitle(outlook, 'Outlook and Forecast', 'Projected decision volumes and uphold rates for the next quarter and the next four quarters.');
+    if (scope) {
+      addMetricCard(outlook, 0.7, 1.3, 2.85, 1.05, `${scope.nextQuarter.label} decisions · ${formatRange(scope.nextQuarter.total)}`, formatNumber(scope.nextQuarter.total.value), palette.blue);
+      addMetricCard(outlook, 3.72, 1.3, 2.85, 1.05, `${scope.nextQuarter.label} upheld · ${formatRateRange(scope.nextQuarter.upheldRate)}`, `${scope.nextQuarter.upheldRate.value.toFixed(1)}%`, palette.red);
+      addMetricCard(outlook, 6.74, 1.3, 2.85, 1.05, `Next 4 quarters decisions · ${formatRange(scope.nextYear.total)}`, formatNumber(scope.nextYear.total.value), palette.teal);
+      addMetricCard(outlook, 9.76, 1.3, 2.84, 1.05, `Next 4 quarters upheld · ${formatRateRange(scope.nextYear.upheldRate)}`, `${scope.nextYear.upheldRate.value.toFixed(1)}%`, palette.amber);
+    } else {
+      addMetricCard(outlook, 0.7, 1.3, 2.85, 1.05, 'Scope forecast', 'Insufficient history', palette.muted);
+    }
+    addPanel(outlook, 0.7, 2.6, 5.95, 2.0, 'Largest products · next 4 quarters', palette.panel, palette.border);
+    addPanel(outlook, 6.95, 2.6, 5.65, 2.0, 'Largest firms · next 4 quarters', palette.panel, palette.border);
+    data.forecast.products.slice(0, 3).forEach((item, index) => {
+      addListItem(outlook, 0.95, 2.97 + index * 0.44, 5.45, item.product, formatForecastPeriod(item.forecast.nextYear));
+    });
+    data.forecast.firms.slice(0, 3).forEach((item, index) => {
+      addListItem(outlook, 7.2, 2.97 + index * 0.44, 5.15, item.firm, formatForecastPeriod(item.forecast.nextYear));
+    });
+    addPanel(outlook, 0.7, 4.8, 11.9, 0.95, 'Method', palette.warm, palette.border);
+    outlook.addText(
+      scope
+        ? `Damped-trend exponential smoothing fitted on ${scope.historyQuarters} complete quarters to ${scope.lastCompleteQuarter}. Ranges are ${Math.round(scope.intervalLevel * 100)}% prediction intervals and ignore the pack's date range. Projections extend recent history and do not anticipate regulatory or market events.`
+        : 'Fewer than two years of complete quarterly history are available for this scope, so no projection has been made.',
+      { x: 0.95, y: 5.14, w: 11.35, h: 0.4, fontSize: 10, color: palette.slate, fit: 'shrink' }
+    );
+    addFooter(outlook, 'Outlook and Forecast', data.branding.organizationName);
+  }
+
   if (data.sections.some((section) => section.key === 'appendix' && section.status === 'included')) {
     const appendix = pptx.addSlide();
     drawSlideBase(appendix);
@@ -312,6 +345,18 @@ function addFooter(slide: PptxGenJS.Slide, sectionTitle: string, organizationNam
   slide.addText(sectionTitle, { x: 10.2, y: 7.02, w: 2.4, h: 0.12, fontSize: 8, color: palette.muted, align: 'right' });
 }
 
+function formatForecastPeriod(period: FOSForecastPeriod): string {
+  return `${formatNumber(period.total.value)} (${formatRange(period.total)}) · ${period.upheldRate.value.toFixed(1)}% upheld`;
+}
+
+function formatRange(range: FOSForecastPeriod['total']): string {
+  return `${formatNumber(range.lower)}–${formatNumber(range.upper)}`;
+}
+
+function formatRateRange(range: FOSForecastPeriod['upheldRate']): string {
+  return `${range.lower.toFixed(1)}–${range.upper.toFixed(1)}%`;
+}
+
 function formatNumber(value: number): string {
   return value.toLocaleString('en-GB');
 }
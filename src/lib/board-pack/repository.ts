@@ -1,6 +1,6 @@
 import { INITIAL_FILTERS } from '@/lib/fos/constants';
 import type { FOSDashboardFilters } from '@/lib/fos/types';
-import { getDashboardSnapshot, getAnalysisSnapshot, getRootCauseSnapshot } from '@/lib/fos/repository';
+import { getDashboardSnapshot, getAnalysisSnapshot, getForecast, getRootCauseSnapshot } from '@/lib/fos/repository';
 import { getComplaintOperationsSummary, getComplaintWorkspaceSettings, listBoardPackDefinitions, listBoardPackRuns, listComplaintAppendixArtifacts } from '@/lib/complaints/repository';
 import type { BoardPackData, BoardPackDefinition, BoardPackPreview, BoardPackRequest, BoardPackSection, BoardPackTemplateKey } from './types';
 
@@ -27,7 +27,8 @@ export async function getBoardPackPreview(input: Partial<BoardPackRequest>): Pro
     sections,
     metrics: {
       totalCases: dashboard.overview.totalCases,
-      upheldRate: dashboard.overview.upheldRate,
+      // Packs are never scoped to an ombudsman, so the overview rates are always present.
+      upheldRate: dashboard.overview.upheldRate ?? 0,
       complaintsOpen: complaintSummary.open,
       overdueComplaints: complaintSummary.overdue,
       fosReferredCount: complaintSummary.referredToFos,
@@ -82,6 +83,8 @@ export async function buildBoardPackData(input: BoardPackRequest): Promise<Board
     notUpheld: trend.notUpheld,
   }));
 
+  const forecast = effectiveInput.includeForecast ? await buildForecastSection(filters, topProducts, topFirms) : null;
+
   const periodLabel = buildPeriodLabel(effectiveInput.dateFrom, effectiveInput.dateTo, filters.years);
 
   return {
@@ -98,14 +101,15 @@ export async function buildBoardPackData(input: BoardPackRequest): Promise<Board
     },
     summary: {
       totalCases: dashboard.overview.totalCases,
-      upheldRate: dashboard.overview.upheldRate,
-      notUpheldRate: dashboard.overview.notUpheldRate,
+      upheldRate: dashboard.overview.upheldRate ?? 0,
+      notUpheldRate: dashboard.overview.notUpheldRate ?? 0,
       totalComplaints: complaintSummary.total,
       openComplaints: complaintSummary.open,
       overdueComplaints: complaintSummary.overdue,
       referredToFos: complaintSummary.referredToFos,
       openActions: complaintSummary.openActions,
       overdueActions: complaintSummary.overdueActions,
+      operationalRisk: complaintSummary.operationalRisk,
     },
     topFirms,
     topProducts,
@@ -113,6 +117,7 @@ export async function buildBoardPackData(input: BoardPackRequest): Promise<Board
     trends: analysis.yearNarratives.length > 0
       ? analysis.yearNarratives.map((row) => ({ year: row.year, total: row.total, upheld: Math.round((row.upheldRate / 100) * row.total), notUpheld: row.total - Math.round((row.upheldRate / 100) * row.total) }))
       : trends,
+    forecast,
     boardNotes: {
       executiveSummaryNote: sanitizeText(effectiveInput.executiveSummaryNote),
       boardFocusNote: sanitizeText(effectiveInput.boardFocusNote),
@@ -142,11 +147,37 @@ export function buildBoardPackSections(input: Partial<BoardPackRequest>): BoardP
     { key: 'concentration', title: 'Firm and product concentration', status: 'included' },
     { key: 'operations', title: 'Operational complaints health', status: input.includeOperationalComplaints === false ? 'excluded' : 'included' },
     { key: 'comparison', title: 'Comparison section', status: input.includeComparison ? 'included' : 'excluded' },
+    { key: 'forecast', title: 'Outlook and forecast', status: input.includeForecast ? 'included' : 'excluded' },
     { key: 'actions', title: 'Management actions', status: 'included' },
     { key: 'appendix', title: 'Appendix', status: input.includeAppendix === false ? 'excluded' : 'included' },
   ];
 }
 
+/** Forecasts ignore the pack's date range: projections are fitted on each scope's full history. */
+async function buildForecastSection(
+  filters: FOSDashboardFilters,
+  topProducts: BoardPackData['topProducts'],
+  topFirms: BoardPackData['topFirms']
+): Promise<NonNullable<BoardPackData['forecast']>> {
+  const [scope, productForecasts, firmForecasts] = await Promise.all([
+    getForecast(filters),
+    Promise.all(topProducts.slice(0, 3).map((row) => getForecast({ ...filters, products: [row.product] }))),
+    Promise.all(topFirms.slice(0, 3).map((row) => getForecast({ ...filters, firms: [row.firm] }))),
+  ]);
+
+  return {
+    scope,
+    products: topProducts.slice(0, 3).flatMap((row, index) => {
+      const forecast = productForecasts[index];
+      return forecast ? [{ product: row.product, forecast }] : [];
+    }),
+    firms: topFirms.slice(0, 3).flatMap((row, index) => {
+      const forecast = firmForecasts[index];
+      return forecast ? [{ firm: row.firm, forecast }] : [];
+    }),
+  };
+}
+
 function resolveBoardPackInput(input: Partial<BoardPackRequest>): Partial<BoardPackRequest> {
   const templateDefaults = getTemplateDefaults(normalizeTemplateKey(input.templateKey));
   return {
@@ -223,6 +254,7 @@ function getTemplateDefaults(templateKey: BoardPackTemplateKey | null): Partial<
         includeOperationalComplaints: true,
         includeComparison: false,
         includeRootCauseDeepDive: true,
+        includeForecast: true,
         includeAppendix: true,
       };
     case 'exco':
@@ -232,6 +264,7 @@ function getTemplateDefaults(templateKey: BoardPackTemplateKey | null): Partial<
         includeOperationalComplaints: true,
         includeComparison: true,
         includeRootCauseDeepDive: false,
+        includeForecast: true,
         includeAppendix: true,
       };
     case 'complaints_mi':
@@ -241,6 +274,7 @@ function getTemplateDefaults(templateKey: BoardPackTemplateKey | null): Partial<
         includeOperationalComplaints: true,
         includeComparison: false,
         includeRootCauseDeepDive: true,
+        includeForecast: false,
         includeAppendix: true,
       };
     case 'board':
@@ -251,6 +285,7 @@ function getTemplateDefaults(templateKey: BoardPackTemplateKey | null): Partial<
         includeOperationalComplaints: true,
         includeComparison: true,
         includeRootCauseDeepDive: true,
+        includeForecast: true,
         includeAppendix: true,
       };
   }
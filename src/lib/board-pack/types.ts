@@ -1,4 +1,5 @@
-import type { ComplaintLetterStatus } from '@/lib/complaints/types';
+import type { FOSForecast } from '@/lib/fos/types';
+import type { ComplaintLetterStatus, ComplaintOperationalRiskFactorKey, ComplaintOperationalRiskLevel } from '@/lib/complaints/types';
 
 export type BoardPackTemplateKey = 'board' | 'risk_committee' | 'exco' | 'complaints_mi';
 
@@ -13,6 +14,7 @@ export interface BoardPackRequest {
   includeOperationalComplaints: boolean;
   includeComparison: boolean;
   includeRootCauseDeepDive: boolean;
+  includeForecast: boolean;
   includeAppendix: boolean;
   executiveSummaryNote: string | null;
   boardFocusNote: string | null;
@@ -94,11 +96,22 @@ export interface BoardPackData {
     referredToFos: number;
     openActions: number;
     overdueActions: number;
+    /** Open complaints in the period by Operational Risk level, with the most common contributing factors. */
+    operationalRisk: {
+      levels: Record<ComplaintOperationalRiskLevel, number>;
+      factors: Array<{ key: ComplaintOperationalRiskFactorKey; count: number }>;
+    };
   };
   topFirms: Array<{ firm: string; total: number; upheldRate: number; notUpheldRate: number }>;
   topProducts: Array<{ product: string; total: number; upheldRate: number }>;
   topRootCauses: Array<{ label: string; count: number }>;
   trends: Array<{ year: number; total: number; upheld: number; notUpheld: number }>;
+  /** Projections for the pack scope and its largest products and firms; null when the section is excluded. */
+  forecast: {
+    scope: FOSForecast | null;
+    products: Array<{ product: string; forecast: FOSForecast }>;
+    firms: Array<{ firm: string; forecast: FOSForecast }>;
+  } | null;
   boardNotes: {
     executiveSummaryNote: string | null;
     boardFocusNote: string | null;
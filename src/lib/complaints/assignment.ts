@@ -0,0 +1,63 @@
+import type { ComplaintAllocationStrategy } from './types';
+
+// Pure handler selection for queue allocation. The repository loads the queue
+// members with their open complaint counts inside the allocating transaction
+// and records the pick as the queue's last assignee.
+
+export const DEFAULT_HANDLER_CAPACITY = 20;
+export const MAX_HANDLER_CAPACITY = 500;
+
+export interface ComplaintAllocationCandidate {
+  userId: string;
+  fullName: string;
+  openComplaints: number;
+  capacity: number;
+  acceptingAllocations: boolean;
+}
+
+/** Members who are accepting allocations and below their capacity. */
+export function hasAllocationCapacity(candidate: ComplaintAllocationCandidate): boolean {
+  return candidate.acceptingAllocations && candidate.openComplaints < candidate.capacity;
+}
+
+/**
+ * The member the next complaint goes to, or `null` when nobody has capacity
+ * (or the queue is manual). Round robin walks the members in name order,
+ * starting after `lastAssignedUserId`. Least loaded takes the lowest share of
+ * capacity in use, then the fewest open complaints, then name order.
+ */
+export function pickComplaintHandler(
+  strategy: ComplaintAllocationStrategy,
+  candidates: ComplaintAllocationCandidate[],
+  lastAssignedUserId: string | null
+): ComplaintAllocationCandidate | null {
+  if (strategy === 'manual') return null;
+  const ring = [...candidates].sort(compareByName);
+  const eligible = ring.filter(hasAllocationCapacity);
+  if (eligible.length === 0) return null;
+
+  if (strategy === 'least_loaded') {
+    return [...eligible].sort((a, b) => (
+      a.openComplaints / a.capacity - b.openComplaints / b.capacity
+      || a.openComplaints - b.openComplaints
+      || compareByName(a, b)
+    ))[0];
+  }
+
+  const lastIndex = ring.findIndex((candidate) => candidate.userId === lastAssignedUserId);
+  for (let step = 1; step <= ring.length; step += 1) {
+    const candidate = ring[(lastIndex + step) % ring.length];
+    if (hasAllocationCapacity(candidate)) return candidate;
+  }
+  return null;
+}
+
+export function labelForAllocationStrategy(strategy: ComplaintAllocationStrategy): string {
+  if (strategy === 'round_robin') return 'round robin';
+  if (strategy === 'least_loaded') return 'least loaded';
+  return 'manual';
+}
+
+function compareByName(a: ComplaintAllocationCandidate, b: ComplaintAllocationCandidate): number {
+  return a.fullName.localeCompare(b.fullName) || a.userId.localeCompare(b.userId);
+}
@@ -29,6 +29,9 @@ const BODY_HEADINGS = new Set([
   'Our decision and reasons',
   'Redress and remedial action',
   'If you remain dissatisfied',
+  'Your complaint',
+  'How we resolved it',
+  'If you later become dissatisfied',
   'When you can refer the complaint',
   'What to provide',
   'Financial Ombudsman Service details',
@@ -215,6 +218,8 @@ function formatTemplateLabel(templateKey: ComplaintLetter['templateKey']): strin
       return 'Delay response';
     case 'final_response':
       return 'Final response';
+    case 'summary_resolution':
+      return 'Summary resolution';
     case 'fos_referral':
       return 'FOS referral';
     case 'custom':
@@ -0,0 +1,38 @@
+import { COMPLAINT_TYPES, type ComplaintType } from './types';
+
+// Complaint type parsing shared by the API, imports and SLA settings. Older
+// records and spreadsheets used free text (`general`, `PSD`, ...), so common
+// spellings are accepted as aliases of the typed keys.
+
+export const DEFAULT_COMPLAINT_TYPE: ComplaintType = 'standard';
+
+const COMPLAINT_TYPE_ALIASES: Record<string, ComplaintType> = {
+  standard: 'standard',
+  general: 'standard',
+  disp: 'standard',
+  disp_standard: 'standard',
+  service: 'standard',
+  payment_services: 'payment_services',
+  payment_service: 'payment_services',
+  payments: 'payment_services',
+  psd: 'payment_services',
+  psd2: 'payment_services',
+  psrs: 'payment_services',
+  emd: 'payment_services',
+  e_money: 'payment_services',
+  emoney: 'payment_services',
+  summary_resolution: 'summary_resolution',
+  summary_resolution_communication: 'summary_resolution',
+  src: 'summary_resolution',
+};
+
+/** The typed key for a value or alias; `null` when the value is not recognised. Blank values are the default type. */
+export function normalizeComplaintType(value: unknown): ComplaintType | null {
+  const key = String(value ?? '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!key) return DEFAULT_COMPLAINT_TYPE;
+  return COMPLAINT_TYPE_ALIASES[key] ?? null;
+}
+
+export function getComplaintTypeDefinition(type: ComplaintType) {
+  return COMPLAINT_TYPES.find((definition) => definition.key === type) || COMPLAINT_TYPES[0];
+}
@@ -1,4 +1,5 @@
 import * as XLSX from 'xlsx';
+import { normalizeComplaintType } from './complaint-types';
 import type { ComplaintImportPreviewRow, ComplaintMutationInput } from './types';
 
 const HEADER_ALIASES: Record<string, keyof ComplaintMutationInput> = {
@@ -45,6 +46,10 @@ const HEADER_ALIASES: Record<string, keyof ComplaintMutationInput> = {
   priority: 'priority',
   assignedto: 'assignedTo',
   assigned_to: 'assignedTo',
+  queue: 'queue',
+  queue_name: 'queue',
+  queuename: 'queue',
+  team: 'queue',
   linkedfoscaseid: 'linkedFosCaseId',
   linked_fos_case_id: 'linkedFosCaseId',
   complainantemail: 'complainantEmail',
@@ -144,16 +149,20 @@ function normalizeComplaintImportRow(rowNumber: number, raw: Record<string, unkn
   normalizedFields.resolution = sanitizeNullable(normalizedFields.resolution);
   normalizedFields.fosOutcome = sanitizeNullable(normalizedFields.fosOutcome);
   normalizedFields.assignedTo = sanitizeNullable(normalizedFields.assignedTo);
+  normalizedFields.queue = sanitizeNullable(normalizedFields.queue);
   normalizedFields.linkedFosCaseId = sanitizeNullable(normalizedFields.linkedFosCaseId);
   normalizedFields.complainantEmail = sanitizeNullable(normalizedFields.complainantEmail);
   normalizedFields.complainantPhone = sanitizeNullable(normalizedFields.complainantPhone);
   normalizedFields.complainantAddress = sanitizeNullable(normalizedFields.complainantAddress);
-  normalizedFields.complaintType = sanitizeText(normalizedFields.complaintType) || 'general';
+  const rawComplaintType = sanitizeText(normalizedFields.complaintType);
+  const complaintType = normalizeComplaintType(rawComplaintType);
+  normalizedFields.complaintType = complaintType || rawComplaintType;
   normalizedFields.complaintCategory = sanitizeText(normalizedFields.complaintCategory) || 'pending';
 
   if (!normalizedFields.complaintReference) issues.push('Complaint reference is required.');
   if (!normalizedFields.complainantName) issues.push('Complainant name is required.');
   if (!normalizedFields.receivedDate) issues.push('Received date is required or invalid.');
+  if (!complaintType) issues.push(`Complaint type "${rawComplaintType}" is not recognised.`);
 
   return { rowNumber, normalizedFields, issues };
 }
@@ -0,0 +1,299 @@
+// Parses inbound complaint emails (.eml / RFC 5322 with MIME parts). Kept
+// dependency-free and without database imports so it can be used from the
+// upload route, the mailbox poller and tests alike.
+
+const MAX_MIME_DEPTH = 8;
+
+export interface InboundEmailAddress {
+  email: string;
+  name: string | null;
+}
+
+export interface InboundEmailAttachment {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedInboundEmail {
+  /** Message-ID with angle brackets, e.g. `<abc@host>`. */
+  messageId: string | null;
+  /** Message-IDs from In-Reply-To and References, most recent first. */
+  references: string[];
+  from: InboundEmailAddress | null;
+  to: InboundEmailAddress[];
+  subject: string;
+  /** ISO timestamp from the Date header, when it parses. */
+  sentAt: string | null;
+  /** Plain-text body; HTML-only messages are reduced to text. */
+  text: string;
+  attachments: InboundEmailAttachment[];
+}
+
+type HeaderMap = Map<string, string[]>;
+
+interface ContentType {
+  type: string;
+  params: Record<string, string>;
+}
+
+interface ParsedBody {
+  text: string | null;
+  html: string | null;
+  attachments: InboundEmailAttachment[];
+}
+
+export function parseInboundEmail(raw: Buffer | string): ParsedInboundEmail {
+  // latin1 keeps every byte addressable while the structure is parsed; parts are decoded by their own charset.
+  const source = (typeof raw === 'string' ? Buffer.from(raw, 'utf8') : raw).toString('latin1');
+  const { headers, body } = splitHeaderBlock(source);
+  const parsed = parseEntity(headers, body, 0);
+
+  const inReplyTo = extractMessageIds(header(headers, 'in-reply-to'));
+  const references = extractMessageIds(header(headers, 'references')).reverse();
+  const sentAtDate = header(headers, 'date') ? new Date(header(headers, 'date')!) : null;
+
+  return {
+    messageId: extractMessageIds(header(headers, 'message-id'))[0] ?? null,
+    references: Array.from(new Set([...inReplyTo, ...references])),
+    from: parseAddressList(decodeEncodedWords(header(headers, 'from') || ''))[0] ?? null,
+    to: parseAddressList(decodeEncodedWords(header(headers, 'to') || '')),
+    subject: decodeEncodedWords(header(headers, 'subject') || '').replace(/\s+/g, ' ').trim(),
+    sentAt: sentAtDate && !Number.isNaN(sentAtDate.getTime()) ? sentAtDate.toISOString() : null,
+    text: (parsed.text ?? (parsed.html ? htmlToText(parsed.html) : '')).replace(/\r\n/g, '\n').trim(),
+    attachments: parsed.attachments,
+  };
+}
+
+/**
+ * Tokens in a subject that could be a complaint reference: at least four
+ * characters and containing a digit, e.g. `CMP-2026-0042` in
+ * "RE: Your complaint [CMP-2026-0042]". Upper-cased and de-duplicated.
+ */
+export function extractComplaintReferenceCandidates(subject: string): string[] {
+  const tokens = subject.match(/[A-Za-z0-9][A-Za-z0-9/_.-]*[A-Za-z0-9]/g) || [];
+  return Array.from(new Set(tokens.filter((token) => token.length >= 4 && /\d/.test(token)).map((token) => token.toUpperCase())));
+}
+
+// ─── Entities ────────────────────────────────────────────────────────────────
+
+function parseEntity(headers: HeaderMap, body: string, depth: number): ParsedBody {
+  const contentType = parseContentType(header(headers, 'content-type'));
+  const disposition = parseContentType(header(headers, 'content-disposition'));
+  const fileName = decodeEncodedWords(disposition.params.filename || contentType.params.name || '').trim();
+
+  if (contentType.type.startsWith('multipart/') && contentType.params.boundary && depth < MAX_MIME_DEPTH) {
+    const result: ParsedBody = { text: null, html: null, attachments: [] };
+    for (const part of splitMultipart(body, contentType.params.boundary)) {
+      const child = splitHeaderBlock(part);
+      const parsed = parseEntity(child.headers, child.body, depth + 1);
+      // The first plain-text body wins; HTML is only used when there is none (see parseInboundEmail).
+      if (parsed.text !== null && result.text === null) result.text = parsed.text;
+      if (parsed.html !== null && result.html === null) result.html = parsed.html;
+      result.attachments.push(...parsed.attachments);
+    }
+    return result;
+  }
+
+  const content = decodeTransferEncoding(body, header(headers, 'content-transfer-encoding'));
+  const isAttachment = disposition.type === 'attachment'
+    || Boolean(fileName)
+    || !(contentType.type.startsWith('text/') || contentType.type === '');
+  if (isAttachment) {
+    return {
+      text: null,
+      html: null,
+      attachments: [{
+        fileName: sanitizeFileName(fileName) || defaultFileName(contentType.type),
+        contentType: contentType.type || 'application/octet-stream',
+        content,
+      }],
+    };
+  }
+
+  const decoded = decodeCharset(content, contentType.params.charset);
+  return contentType.type === 'text/html'
+    ? { text: null, html: decoded, attachments: [] }
+    : { text: decoded, html: null, attachments: [] };
+}
+
+function splitHeaderBlock(source: string): { headers: HeaderMap; body: string } {
+  const match = /\r?\n\r?\n/.exec(source);
+  const headerText = match ? source.slice(0, match.index) : source;
+  const body = match ? source.slice(match.index + match[0].length) : '';
+  const headers: HeaderMap = new Map();
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers.set(name, [...(headers.get(name) || []), line.slice(colon + 1).trim()]);
+  }
+  return { headers, body };
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      if (current) parts.push(current.join('\r\n'));
+      if (line.slice(delimiter.length).startsWith('--')) return parts;
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+  if (current) parts.push(current.join('\r\n'));
+  return parts;
+}
+
+function header(headers: HeaderMap, name: string): string | null {
+  return headers.get(name)?.[0] ?? null;
+}
+
+function parseContentType(value: string | null): ContentType {
+  if (!value) return { type: '', params: {} };
+  const [type, ...rest] = splitParams(value);
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf('=');
+    if (eq <= 0) continue;
+    const key = param.slice(0, eq).trim().toLowerCase();
+    let paramValue = param.slice(eq + 1).trim();
+    if (paramValue.startsWith('"') && paramValue.endsWith('"')) paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    if (key.endsWith('*')) {
+      // RFC 2231: charset'language'percent-encoded
+      const [, charset = 'utf-8', , encoded = paramValue] = /^([^']*)'([^']*)'(.*)$/.exec(paramValue) || [];
+      params[key.replace(/\*(?:\d+\*?)?$/, '')] = decodeCharset(Buffer.from(decodeURIComponentSafe(encoded), 'latin1'), charset || 'utf-8');
+    } else {
+      params[key] = paramValue;
+    }
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function splitParams(value: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (char === ';' && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+// ─── Decoding ────────────────────────────────────────────────────────────────
+
+function decodeTransferEncoding(body: string, encoding: string | null): Buffer {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(decodeQuotedPrintable(body), 'latin1');
+    default:
+      return Buffer.from(body.replace(/\r?\n$/, ''), 'latin1');
+  }
+}
+
+function decodeQuotedPrintable(value: string): string {
+  return value
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder((charset || 'utf-8').trim().toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/** RFC 2047 encoded words, e.g. `=?UTF-8?B?...?=`; whitespace between adjacent words is dropped. */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(decodeQuotedPrintable(text.replace(/_/g, ' ')), 'latin1');
+      return decodeCharset(bytes, charset.split('*')[0]);
+    })
+    // Headers were read as latin1; re-read any raw 8-bit UTF-8 bytes.
+    .replace(/[\u0080-\u00ff]+/g, (run) => {
+      const decoded = Buffer.from(run, 'latin1').toString('utf8');
+      return decoded.includes('\ufffd') ? run : decoded;
+    });
+}
+
+function decodeURIComponentSafe(value: string): string {
+  return value.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+// ─── Addresses and identifiers ───────────────────────────────────────────────
+
+function parseAddressList(value: string): InboundEmailAddress[] {
+  const addresses: InboundEmailAddress[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (const char of `${value},`) {
+    if (char === '"') quoted = !quoted;
+    if (char === '<' && !quoted) angle = true;
+    if (char === '>' && !quoted) angle = false;
+    if (char === ',' && !quoted && !angle) {
+      const address = parseAddress(current);
+      if (address) addresses.push(address);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return addresses;
+}
+
+function parseAddress(value: string): InboundEmailAddress | null {
+  const angled = /^(.*)<([^>]+)>\s*$/.exec(value.trim());
+  const email = (angled ? angled[2] : value).trim().replace(/^mailto:/i, '');
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) return null;
+  const name = angled ? angled[1].trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1').trim() : '';
+  return { email: email.toLowerCase(), name: name || null };
+}
+
+function extractMessageIds(value: string | null): string[] {
+  return (value?.match(/<[^<>\s]+>/g) || []).map((id) => id.toLowerCase());
+}
+
+function sanitizeFileName(value: string): string {
+  return value.replace(/[\\/\r\n"]+/g, '-').slice(0, 200).trim();
+}
+
+function defaultFileName(contentType: string): string {
+  if (contentType === 'message/rfc822') return 'attached-message.eml';
+  const extension = contentType.split('/')[1]?.replace(/[^a-z0-9]+/g, '') || 'bin';
+  return `attachment.${extension}`;
+}
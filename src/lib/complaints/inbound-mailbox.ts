@@ -0,0 +1,84 @@
+import { mkdir, readdir, readFile, rename, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { DatabaseClient } from '@/lib/database';
+import { ingestInboundComplaintEmail } from './repository';
+
+const MAX_MAILBOX_MESSAGE_BYTES = 15 * 1024 * 1024;
+// SQLSTATE classes for connection loss, rollbacks, resource limits, operator intervention and system errors.
+const TRANSIENT_SQLSTATE_CLASSES = new Set(['08', '40', '53', '57', '58', 'XX']);
+
+export interface InboundMailboxRunResult {
+  directory: string | null;
+  processed: number;
+  created: number;
+  matched: number;
+  duplicates: number;
+  failed: Array<{ fileName: string; error: string }>;
+}
+
+/**
+ * Ingests every `.eml` file dropped into the watched mailbox directory
+ * (`INBOUND_EMAIL_DIR`). Ingested files move to `processed/` and unreadable or
+ * rejected ones to `failed/`, so a run never picks the same file up twice.
+ * Database and filesystem failures abort the run and leave the file in place.
+ * Returns an empty result when no directory is configured.
+ */
+export async function processInboundEmailMailbox(
+  directory: string | undefined = process.env.INBOUND_EMAIL_DIR,
+  limit = 50
+): Promise<InboundMailboxRunResult> {
+  const result: InboundMailboxRunResult = { directory: directory || null, processed: 0, created: 0, matched: 0, duplicates: 0, failed: [] };
+  if (!directory) return result;
+
+  const entries = await readdir(directory, { withFileTypes: true }).catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  });
+  const fileNames = entries
+    .filter((entry) => entry.isFile() && entry.name.toLowerCase().endsWith('.eml'))
+    .map((entry) => entry.name)
+    .sort()
+    .slice(0, Math.max(1, limit));
+
+  for (const fileName of fileNames) {
+    const filePath = path.join(directory, fileName);
+    try {
+      const { size } = await stat(filePath);
+      if (size > MAX_MAILBOX_MESSAGE_BYTES) {
+        throw Object.assign(new Error('Message exceeds the 15MB inbound email limit.'), { status: 400 });
+      }
+      const ingested = await ingestInboundComplaintEmail({ raw: await readFile(filePath), source: 'mailbox' });
+      result.processed += 1;
+      if (ingested.duplicate) result.duplicates += 1;
+      else if (ingested.email.matchedBy === 'created') result.created += 1;
+      else result.matched += 1;
+      await moveMailboxFile(directory, fileName, 'processed');
+    } catch (error) {
+      // A database or filesystem outage leaves the file for the next run; anything
+      // else is a problem with the message itself and would fail again forever.
+      if (await isInfrastructureError(error)) throw error;
+      result.failed.push({ fileName, error: error instanceof Error ? error.message : 'Inbound email failed.' });
+      await moveMailboxFile(directory, fileName, 'failed');
+    }
+  }
+
+  return result;
+}
+
+async function moveMailboxFile(directory: string, fileName: string, folder: 'processed' | 'failed'): Promise<void> {
+  const target = path.join(directory, folder);
+  await mkdir(target, { recursive: true });
+  await rename(path.join(directory, fileName), path.join(target, fileName));
+}
+
+async function isInfrastructureError(error: unknown): Promise<boolean> {
+  const { status, code } = (error || {}) as { status?: number; code?: string };
+  if (typeof status === 'number') return status >= 500;
+  if (typeof code === 'string') {
+    // Node system errors (ECONNREFUSED, EACCES, ...) or a transient Postgres SQLSTATE.
+    if (/^E[A-Z]+$/.test(code)) return true;
+    return code.length === 5 && TRANSIENT_SQLSTATE_CLASSES.has(code.slice(0, 2));
+  }
+  // pg reports a dropped connection as a bare Error, so check the database is still there.
+  return DatabaseClient.query('SELECT 1').then(() => false, () => true);
+}
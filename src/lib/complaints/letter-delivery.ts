@@ -0,0 +1,368 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import net, { type Socket } from 'node:net';
+import path from 'node:path';
+import tls from 'node:tls';
+import type { ComplaintLetterDeliveryTransportKind, ComplaintWorkspaceSettings } from './types';
+
+// Outbound letter transports. Kept free of database imports, like the LLM
+// provider chain, so a transport can be exercised on its own.
+
+export const DEFAULT_LETTER_OUTBOX_DIR = 'tmp/letter-outbox';
+
+const DEFAULT_SMTP_PORT = 587;
+const DEFAULT_SMTP_TIMEOUT_MS = 20_000;
+
+type DeliveryEnv = Record<string, string | undefined>;
+
+export interface LetterDeliveryAddress {
+  email: string;
+  name: string | null;
+}
+
+export interface LetterDeliveryAttachment {
+  fileName: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface LetterDeliveryMessage {
+  /** Stable id for the message, reused as the Message-ID local part so bounces can be matched back. */
+  id: string;
+  from: LetterDeliveryAddress;
+  to: LetterDeliveryAddress;
+  subject: string;
+  text: string;
+  attachments: LetterDeliveryAttachment[];
+}
+
+export interface LetterDeliveryResult {
+  messageId: string;
+  detail: string | null;
+}
+
+export interface LetterDeliveryTransport {
+  kind: ComplaintLetterDeliveryTransportKind;
+  name: string;
+  send(message: LetterDeliveryMessage): Promise<LetterDeliveryResult>;
+}
+
+export interface SmtpTransportConfig {
+  host: string;
+  port?: number;
+  /** Implicit TLS from the first byte (usually port 465). Otherwise STARTTLS is used when offered. */
+  secure?: boolean;
+  requireTls?: boolean;
+  username?: string | null;
+  password?: string | null;
+  heloName?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// ─── Transports ──────────────────────────────────────────────────────────────
+
+/** Minimal SMTP submission client: EHLO, optional STARTTLS and AUTH PLAIN/LOGIN, one recipient. */
+export function createSmtpTransport(config: SmtpTransportConfig): LetterDeliveryTransport {
+  return {
+    kind: 'smtp',
+    name: `smtp:${config.host}`,
+    async send(message) {
+      const messageId = buildMessageId(message);
+      const reply = await sendSmtpMessage(config, message.from.email, message.to.email, buildMimeMessage(message, messageId));
+      return { messageId, detail: reply.lines.join(' ').trim() || null };
+    },
+  };
+}
+
+/** Writes each message as an `.eml` file instead of sending it. For local development and tests. */
+export function createFileOutboxTransport(directory: string = DEFAULT_LETTER_OUTBOX_DIR): LetterDeliveryTransport {
+  return {
+    kind: 'file_outbox',
+    name: `file_outbox:${directory}`,
+    async send(message) {
+      const messageId = buildMessageId(message);
+      await mkdir(directory, { recursive: true });
+      const filePath = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.id}.eml`);
+      await writeFile(filePath, buildMimeMessage(message, messageId), 'utf8');
+      return { messageId, detail: filePath };
+    },
+  };
+}
+
+/**
+ * Picks the transport from the environment. `LETTER_DELIVERY_TRANSPORT` is
+ * `smtp` or `file_outbox`; without it, SMTP is used when `SMTP_HOST` is set and
+ * the file outbox outside production. Returns null when nothing is configured.
+ */
+export function resolveLetterDeliveryTransport(env: DeliveryEnv = process.env): LetterDeliveryTransport | null {
+  const smtpHost = (env.SMTP_HOST || '').trim();
+  const requested = (env.LETTER_DELIVERY_TRANSPORT || '').trim().toLowerCase();
+  const kind = requested || (smtpHost ? 'smtp' : env.NODE_ENV === 'production' ? '' : 'file_outbox');
+
+  if (kind === 'smtp' && smtpHost) {
+    const port = parseIntEnv(env.SMTP_PORT, DEFAULT_SMTP_PORT, 1, 65_535);
+    return createSmtpTransport({
+      host: smtpHost,
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+      requireTls: env.SMTP_REQUIRE_TLS === 'true',
+      username: (env.SMTP_USER || '').trim() || null,
+      password: env.SMTP_PASSWORD || null,
+      heloName: (env.SMTP_HELO_NAME || '').trim() || undefined,
+      timeoutMs: parseIntEnv(env.SMTP_TIMEOUT_MS, DEFAULT_SMTP_TIMEOUT_MS, 1_000, 120_000),
+    });
+  }
+  if (kind === 'file_outbox') {
+    return createFileOutboxTransport((env.LETTER_OUTBOX_DIR || '').trim() || DEFAULT_LETTER_OUTBOX_DIR);
+  }
+  return null;
+}
+
+/** Sender for outbound letters: `LETTER_FROM_EMAIL`/`LETTER_FROM_NAME`, else the workspace complaints mailbox. */
+export function resolveLetterSender(
+  settings: Pick<ComplaintWorkspaceSettings, 'complaintsEmail' | 'complaintsTeamName'>,
+  env: DeliveryEnv = process.env
+): LetterDeliveryAddress | null {
+  const email = (env.LETTER_FROM_EMAIL || '').trim() || settings.complaintsEmail;
+  if (!email) return null;
+  return { email, name: (env.LETTER_FROM_NAME || '').trim() || settings.complaintsTeamName || null };
+}
+
+/** True for failures that will not succeed on retry (SMTP 5xx replies, invalid addresses). */
+export function isPermanentDeliveryError(error: unknown): boolean {
+  return Boolean(error && typeof error === 'object' && (error as { permanent?: boolean }).permanent);
+}
+
+/** Error carrying whether a retry could succeed; permanent failures are not retried. */
+export function createDeliveryError(message: string, permanent: boolean) {
+  return Object.assign(new Error(message), { permanent });
+}
+
+// ─── MIME ────────────────────────────────────────────────────────────────────
+
+export function buildMimeMessage(message: LetterDeliveryMessage, messageId: string, date: Date = new Date()): string {
+  const boundary = `letter-${message.id.replace(/[^a-zA-Z0-9]/g, '')}`;
+  const headers = [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${formatAddress(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+  ];
+  const parts = [
+    [
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(Buffer.from(message.text, 'utf8')),
+    ].join('\r\n'),
+    ...message.attachments.map((attachment) => {
+      const fileName = attachment.fileName.replace(/["\r\n]/g, '');
+      return [
+        `--${boundary}`,
+        `Content-Type: ${attachment.contentType}; name="${fileName}"`,
+        `Content-Disposition: attachment; filename="${fileName}"`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        wrapBase64(Buffer.from(attachment.content)),
+      ].join('\r\n');
+    }),
+  ];
+
+  return `${headers.join('\r\n')}\r\n\r\n${parts.join('\r\n')}\r\n--${boundary}--\r\n`;
+}
+
+function buildMessageId(message: LetterDeliveryMessage): string {
+  const domain = message.from.email.split('@')[1] || 'localhost';
+  return `<${message.id}@${domain}>`;
+}
+
+function formatAddress(address: LetterDeliveryAddress): string {
+  if (!address.name) return `<${address.email}>`;
+  return `${encodeHeader(address.name.replace(/"/g, "'"))} <${address.email}>`;
+}
+
+function encodeHeader(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+function wrapBase64(content: Buffer): string {
+  return (content.toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+// ─── SMTP session ────────────────────────────────────────────────────────────
+
+async function sendSmtpMessage(config: SmtpTransportConfig, from: string, to: string, data: string): Promise<SmtpReply> {
+  const port = config.port ?? DEFAULT_SMTP_PORT;
+  const timeoutMs = config.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS;
+  const heloName = config.heloName || 'localhost';
+  assertAddress(from, 'sender');
+  assertAddress(to, 'recipient');
+
+  let socket: Socket = config.secure
+    ? tls.connect({ host: config.host, port, servername: config.host })
+    : net.connect({ host: config.host, port });
+  // The reader only listens while a reply is awaited. This listener stays on
+  // every socket (including the plain one under STARTTLS) until it closes, so
+  // a reset while closing is not an uncaught 'error' event.
+  socket.on('error', ignoreSocketError);
+  const reader = createReplyReader(timeoutMs);
+  reader.attach(socket);
+
+  try {
+    await expectReply(reader, [220], 'greeting');
+    let capabilities = (await command(socket, reader, `EHLO ${heloName}`, [250])).lines;
+
+    if (!config.secure) {
+      const offersStartTls = capabilities.some((line) => line.toUpperCase() === 'STARTTLS');
+      if (offersStartTls) {
+        await command(socket, reader, 'STARTTLS', [220]);
+        socket = tls.connect({ socket, servername: config.host });
+        socket.on('error', ignoreSocketError);
+        reader.attach(socket);
+        capabilities = (await command(socket, reader, `EHLO ${heloName}`, [250])).lines;
+      } else if (config.requireTls) {
+        throw createDeliveryError(`${config.host} does not offer STARTTLS.`, true);
+      }
+    }
+
+    if (config.username) {
+      const auth = capabilities.find((line) => line.toUpperCase().startsWith('AUTH')) || '';
+      if (/\bPLAIN\b/i.test(auth) || !/\bLOGIN\b/i.test(auth)) {
+        const token = Buffer.from(`\u0000${config.username}\u0000${config.password || ''}`, 'utf8').toString('base64');
+        await command(socket, reader, `AUTH PLAIN ${token}`, [235], 'AUTH');
+      } else {
+        await command(socket, reader, 'AUTH LOGIN', [334], 'AUTH');
+        await command(socket, reader, Buffer.from(config.username, 'utf8').toString('base64'), [334], 'AUTH');
+        await command(socket, reader, Buffer.from(config.password || '', 'utf8').toString('base64'), [235], 'AUTH');
+      }
+    }
+
+    await command(socket, reader, `MAIL FROM:<${from}>`, [250]);
+    await command(socket, reader, `RCPT TO:<${to}>`, [250, 251]);
+    await command(socket, reader, 'DATA', [354]);
+    // Dot-stuff any line that starts with a period, then terminate with <CRLF>.<CRLF>.
+    socket.write(`${data.replace(/\r\n\./g, '\r\n..')}\r\n.\r\n`);
+    const accepted = await expectReply(reader, [250], 'DATA');
+    socket.write('QUIT\r\n');
+    return accepted;
+  } finally {
+    reader.detach();
+    const closing = socket;
+    closing.end();
+    closing.setTimeout(timeoutMs, () => closing.destroy());
+  }
+}
+
+function ignoreSocketError() {
+  // Late errors on a socket being closed; the delivery outcome is already known.
+}
+
+async function command(socket: Socket, reader: ReturnType<typeof createReplyReader>, line: string, expected: number[], label?: string): Promise<SmtpReply> {
+  socket.write(`${line}\r\n`);
+  return expectReply(reader, expected, label || line.split(' ')[0]);
+}
+
+async function expectReply(reader: ReturnType<typeof createReplyReader>, expected: number[], label: string): Promise<SmtpReply> {
+  const reply = await reader.next();
+  if (!expected.includes(reply.code)) {
+    throw createDeliveryError(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`.trim(), reply.code >= 500);
+  }
+  return reply;
+}
+
+/** Buffers socket data into complete (possibly multi-line) SMTP replies. */
+function createReplyReader(timeoutMs: number) {
+  let socket: Socket | null = null;
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let failure: Error | null = null;
+  let waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+
+  const settle = () => {
+    if (!waiter) return;
+    const current = waiter;
+    if (replies.length > 0) {
+      waiter = null;
+      current.resolve(replies.shift()!);
+    } else if (failure) {
+      waiter = null;
+      current.reject(failure);
+    }
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index = buffer.indexOf('\r\n');
+    while (index >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line.slice(4));
+      if (/^\d{3}(?: |$)/.test(line)) {
+        replies.push({ code: Number(line.slice(0, 3)), lines });
+        lines = [];
+      }
+      index = buffer.indexOf('\r\n');
+    }
+    settle();
+  };
+  const onError = (error: Error) => {
+    failure = createDeliveryError(`SMTP connection failed: ${error.message}`, false);
+    settle();
+  };
+  const onClose = () => {
+    failure = failure || createDeliveryError('SMTP connection closed unexpectedly.', false);
+    settle();
+  };
+  const onTimeout = () => {
+    failure = createDeliveryError(`SMTP server did not respond within ${timeoutMs}ms.`, false);
+    socket?.destroy();
+    settle();
+  };
+
+  return {
+    attach(next: Socket) {
+      this.detach();
+      socket = next;
+      socket.setTimeout(timeoutMs);
+      socket.on('data', onData);
+      socket.on('error', onError);
+      socket.on('close', onClose);
+      socket.on('timeout', onTimeout);
+    },
+    detach() {
+      if (!socket) return;
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+      socket.off('timeout', onTimeout);
+      socket = null;
+    },
+    next(): Promise<SmtpReply> {
+      return new Promise((resolve, reject) => {
+        waiter = { resolve, reject };
+        settle();
+      });
+    },
+  };
+}
+
+function assertAddress(value: string, label: string) {
+  if (!/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(value)) {
+    throw createDeliveryError(`Invalid ${label} email address "${value}".`, true);
+  }
+}
+
+function parseIntEnv(value: string | undefined, fallback: number, min: number, max: number): number {
+  const parsed = Number.parseInt(String(value ?? ''), 10);
+  if (!Number.isFinite(parsed)) return fallback;
+  return Math.min(max, Math.max(min, parsed));
+}
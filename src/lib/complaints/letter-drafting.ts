@@ -75,7 +75,7 @@ export function buildRiskSnapshotBlock(intelligence: ComplaintLetterIntelligence
   const lines = [
     `Scope used: ${intelligence.sourceScope === 'product_root_cause' ? 'product and root cause' : 'product only'}.`,
     `Sample size: ${intelligence.riskSnapshot.sampleSize}.`,
-    `Upheld rate: ${intelligence.riskSnapshot.upheldRate.toFixed(1)}%.`,
+    `Upheld rate: ${intelligence.riskSnapshot.upheldRate.toFixed(1)}% (95% interval ${intelligence.riskSnapshot.confidenceInterval.lower.toFixed(1)}-${intelligence.riskSnapshot.confidenceInterval.upper.toFixed(1)}%).`,
     `Not upheld rate: ${intelligence.riskSnapshot.notUpheldRate.toFixed(1)}%.`,
     `Overall upheld benchmark: ${intelligence.riskSnapshot.overallUpheldRate.toFixed(1)}%.`,
     `Uphold risk: ${intelligence.riskSnapshot.upholdRiskLevel.replace(/_/g, ' ')}.`,
@@ -2,16 +2,23 @@ import { DatabaseClient } from '@/lib/database';
 import {
   caseIdExpression,
   ensureDatabaseConfigured,
+  ensureFosDecisionsTableExists,
+  hasProductTaxonomy,
   normalizeTagLabel,
   outcomeExpression,
+  productFilterCondition,
   toInt,
   toIsoDate,
   toNumber,
 } from '@/lib/fos/repo-helpers';
+import { assessUpholdRisk, compareUpholdRiskLevels } from '@/lib/risk-policy/policy';
+import { getActiveRiskPolicy } from '@/lib/risk-policy/repository';
+import type { ActiveRiskPolicy } from '@/lib/risk-policy/types';
 import type {
   ComplaintLetterIntelligence,
   ComplaintLetterIntelligenceAction,
   ComplaintLetterIntelligenceSourceScope,
+  ComplaintPinnedDecision,
   ComplaintRecord,
 } from './types';
 
@@ -39,6 +46,8 @@ type AdvisorSampleCaseLike = {
   firmName: string | null;
   outcome: string;
   decisionSummary: string | null;
+  pinned?: boolean;
+  pinNote?: string | null;
 };
 
 type AdvisorRiskAssessmentLike = {
@@ -48,7 +57,11 @@ type AdvisorRiskAssessmentLike = {
   notUpheldRate: number;
   overallUpheldRate: number;
   upholdRiskLevel: ComplaintLetterIntelligence['riskSnapshot']['upholdRiskLevel'];
+  adjustedUpheldRate: number;
+  baselineUpheldRate: number | null;
+  confidenceInterval: ComplaintLetterIntelligence['riskSnapshot']['confidenceInterval'];
   trendDirection: ComplaintLetterIntelligence['riskSnapshot']['trendDirection'];
+  riskPolicy: ComplaintLetterIntelligence['riskSnapshot']['riskPolicy'];
 };
 
 type AdvisorBriefLike = {
@@ -76,9 +89,12 @@ type QueryScope = {
 export function buildComplaintLetterIntelligence(
   complaint: ComplaintRecord,
   brief: AdvisorBriefLike,
-  sourceScope: Exclude<ComplaintLetterIntelligenceSourceScope, 'none'>
+  sourceScope: Exclude<ComplaintLetterIntelligenceSourceScope, 'none'>,
+  pinnedDecisions: ComplaintPinnedDecision[] = []
 ): ComplaintLetterIntelligence {
   const complaintDescription = describeComplaint(complaint);
+  const comparableCases = mergePinnedSampleCases(pinnedDecisions, brief.sampleCases);
+  const sampleLimit = Math.max(5, pinnedDecisions.length);
   const challengeAreas = dedupeLines([
     `Address the complaint chronology clearly against the recorded issue: ${complaintDescription}.`,
     ...brief.whatLoses.slice(0, 4).map((item) => `Cover likely challenge area: ${formatTheme(item.theme)}.`),
@@ -165,19 +181,21 @@ export function buildComplaintLetterIntelligence(
   ]);
 
   const comparableCaseSummary = dedupeLines([
-    ...brief.sampleCases.slice(0, 3).map((item) => {
+    ...comparableCases.slice(0, Math.max(3, pinnedDecisions.length)).map((item) => {
       const summary = item.decisionSummary?.trim() ? stripTrailingPunctuation(item.decisionSummary) : 'No summary recorded';
       const dateText = item.decisionDate ? ` on ${formatDateLabel(item.decisionDate)}` : '';
-      return `Comparable case ${item.decisionReference} (${formatOutcomeLabel(item.outcome)}${dateText}) focused on ${summary}.`;
+      const label = item.pinned ? 'Pinned comparable case' : 'Comparable case';
+      return `${label} ${item.decisionReference} (${formatOutcomeLabel(item.outcome)}${dateText}) focused on ${summary}.`;
     }),
     ...brief.whatLoses.slice(0, 2).map((item) => `Repeated challenge theme across comparable cases: ${formatTheme(item.theme)}.`),
   ]);
 
-  const comparableCaseReviews = brief.sampleCases.slice(0, 5).map((item) => ({
+  const comparableCaseReviews = comparableCases.slice(0, sampleLimit).map((item) => ({
     caseId: item.caseId,
     decisionReference: item.decisionReference,
     internalReviewNote: dedupeLines([
       `Compare the complaint chronology against ${item.decisionReference} before final approval.`,
+      ...(item.pinNote?.trim() ? [`Handler note when pinning: ${stripTrailingPunctuation(normalizeSentence(item.pinNote))}.`] : []),
       `Outcome to consider internally: ${formatOutcomeLabel(item.outcome)}${item.decisionDate ? ` on ${formatDateLabel(item.decisionDate)}` : ''}.`,
       ...(item.decisionSummary?.trim() ? [`Published summary: ${stripTrailingPunctuation(item.decisionSummary)}.`] : []),
       ...(brief.whatLoses[0] ? [`Test whether the same challenge theme appears here: ${formatTheme(brief.whatLoses[0].theme)}.`] : []),
@@ -203,7 +221,11 @@ export function buildComplaintLetterIntelligence(
       notUpheldRate: brief.riskAssessment.notUpheldRate,
       overallUpheldRate: brief.riskAssessment.overallUpheldRate,
       upholdRiskLevel: brief.riskAssessment.upholdRiskLevel,
+      adjustedUpheldRate: brief.riskAssessment.adjustedUpheldRate,
+      baselineUpheldRate: brief.riskAssessment.baselineUpheldRate,
+      confidenceInterval: brief.riskAssessment.confidenceInterval,
       trendDirection: brief.riskAssessment.trendDirection,
+      riskPolicy: brief.riskAssessment.riskPolicy,
     },
     draftingGuidance: {
       reviewPoints,
@@ -227,13 +249,14 @@ export function buildComplaintLetterIntelligence(
       count: item.count,
       percentOfCases: roundOneDecimal(item.percentOfCases),
     })),
-    sampleCases: brief.sampleCases.slice(0, 5).map((item) => ({
+    sampleCases: comparableCases.slice(0, sampleLimit).map((item) => ({
       caseId: item.caseId,
       decisionReference: item.decisionReference,
       decisionDate: item.decisionDate,
       firmName: item.firmName,
       outcome: item.outcome,
       summary: item.decisionSummary,
+      ...(item.pinned ? { pinned: true } : {}),
     })),
     whatWins: brief.whatWins.slice(0, 5).map((item) => ({ theme: formatTheme(item.theme), frequency: item.frequency })),
     whatLoses: brief.whatLoses.slice(0, 5).map((item) => ({ theme: formatTheme(item.theme), frequency: item.frequency })),
@@ -248,12 +271,16 @@ export function buildComplaintLetterIntelligence(
 }
 
 export async function getComplaintLetterIntelligenceFromCorpus(
-  complaint: ComplaintRecord
+  complaint: ComplaintRecord,
+  options: { pinnedDecisions?: ComplaintPinnedDecision[] } = {}
 ): Promise<ComplaintLetterIntelligence | null> {
+  const pinnedDecisions = options.pinnedDecisions || [];
   const product = complaint.product?.trim();
   if (!product) return null;
 
   ensureDatabaseConfigured();
+  await ensureFosDecisionsTableExists();
+  const riskPolicy = await getActiveRiskPolicy();
 
   const initialScope: QueryScope = {
     product,
@@ -261,33 +288,52 @@ export async function getComplaintLetterIntelligenceFromCorpus(
     sourceScope: complaint.rootCause?.trim() ? 'product_root_cause' : 'product_only',
   };
 
-  const scopedBrief = await queryCorpusBriefWithFallback(initialScope);
+  const scopedBrief = await queryCorpusBriefWithFallback(initialScope, riskPolicy);
   if (scopedBrief) {
-    return buildComplaintLetterIntelligence(complaint, scopedBrief, initialScope.sourceScope);
+    return buildComplaintLetterIntelligence(complaint, scopedBrief, initialScope.sourceScope, pinnedDecisions);
   }
 
   if (initialScope.rootCause) {
     const fallbackScope: QueryScope = { product, rootCause: null, sourceScope: 'product_only' };
-    const fallbackBrief = await queryCorpusBriefWithFallback(fallbackScope);
+    const fallbackBrief = await queryCorpusBriefWithFallback(fallbackScope, riskPolicy);
     if (fallbackBrief) {
-      return buildComplaintLetterIntelligence(complaint, fallbackBrief, fallbackScope.sourceScope);
+      return buildComplaintLetterIntelligence(complaint, fallbackBrief, fallbackScope.sourceScope, pinnedDecisions);
     }
   }
 
   return null;
 }
 
-async function queryCorpusBriefWithFallback(scope: QueryScope): Promise<AdvisorBriefLike | null> {
+async function queryCorpusBriefWithFallback(scope: QueryScope, riskPolicy: ActiveRiskPolicy): Promise<AdvisorBriefLike | null> {
   try {
-    return await queryCorpusBrief(scope);
+    return await queryCorpusBrief(scope, riskPolicy);
   } catch (error) {
     if (!isQueryTimeoutError(error)) {
       throw error;
     }
-    return queryCorpusBriefLightweight(scope);
+    return queryCorpusBriefLightweight(scope, riskPolicy);
   }
 }
 
+/** Handler-pinned decisions lead the comparable list; corpus samples fill the rest without repeats. */
+function mergePinnedSampleCases(
+  pinnedDecisions: ComplaintPinnedDecision[],
+  sampleCases: AdvisorSampleCaseLike[]
+): AdvisorSampleCaseLike[] {
+  const pinned: AdvisorSampleCaseLike[] = pinnedDecisions.map((item) => ({
+    caseId: item.caseId,
+    decisionReference: item.decisionReference,
+    decisionDate: item.decisionDate,
+    firmName: item.firmName,
+    outcome: item.outcome,
+    decisionSummary: item.decisionSummary,
+    pinned: true,
+    pinNote: item.note,
+  }));
+  const pinnedIds = new Set(pinned.map((item) => item.caseId));
+  return [...pinned, ...sampleCases.filter((item) => !pinnedIds.has(item.caseId))];
+}
+
 function describeComplaint(complaint: ComplaintRecord): string {
   if (complaint.description?.trim()) return stripTrailingPunctuation(normalizeSentence(complaint.description));
   if (complaint.rootCause?.trim()) return stripTrailingPunctuation(`the ${complaint.rootCause.trim()} issue recorded on the complaint file`);
@@ -341,7 +387,7 @@ function roundOneDecimal(value: number): number {
   return Number(value.toFixed(1));
 }
 
-async function queryCorpusBrief(scope: QueryScope): Promise<AdvisorBriefLike | null> {
+async function queryCorpusBrief(scope: QueryScope, riskPolicy: ActiveRiskPolicy): Promise<AdvisorBriefLike | null> {
   const scopeSql = buildScopeSql(scope);
   const [statsRow, yearlyRows, overallRow, precedentRows, rootCauseRows, losingThemeRows, winningThemeRows, sampleRows] =
     await Promise.all([
@@ -371,12 +417,7 @@ async function queryCorpusBrief(scope: QueryScope): Promise<AdvisorBriefLike | n
         `,
         scopeSql.params
       ),
-      DatabaseClient.queryOne<Record<string, unknown>>(
-        `
-          SELECT ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS rate
-          FROM fos_decisions d
-        `
-      ),
+      queryBaselineRates(scope.product),
       DatabaseClient.query<Record<string, unknown>>(
         `
           SELECT
@@ -434,6 +475,10 @@ async function queryCorpusBrief(scope: QueryScope): Promise<AdvisorBriefLike | n
   const upheldRate = toNumber(statsRow?.upheld_rate);
   const notUpheldRate = toNumber(statsRow?.not_upheld_rate);
   const overallUpheldRate = toNumber(overallRow?.rate);
+  const estimate = assessUpholdRisk(
+    { upheldRate, totalCases, baselineUpheldRate: baselineRateForScope(scope, overallRow) },
+    riskPolicy.thresholds
+  );
   const yearTrend = yearlyRows.map((row) => ({
     year: toInt(row.year),
     upheldRate: toNumber(row.upheld_rate),
@@ -471,8 +516,9 @@ async function queryCorpusBrief(scope: QueryScope): Promise<AdvisorBriefLike | n
       upheldRate,
       notUpheldRate,
       overallUpheldRate,
-      upholdRiskLevel: deriveUpholdRiskLevel(upheldRate),
+      ...estimate,
       trendDirection,
+      riskPolicy: { version: riskPolicy.version, thresholds: riskPolicy.thresholds },
     },
     keyPrecedents: mappedPrecedents,
     rootCausePatterns: mappedRootCausePatterns,
@@ -491,7 +537,7 @@ async function queryCorpusBrief(scope: QueryScope): Promise<AdvisorBriefLike | n
   };
 }
 
-async function queryCorpusBriefLightweight(scope: QueryScope): Promise<AdvisorBriefLike | null> {
+async function queryCorpusBriefLightweight(scope: QueryScope, riskPolicy: ActiveRiskPolicy): Promise<AdvisorBriefLike | null> {
   const scopeSql = buildScopeSql(scope);
   const [statsRow, overallRow, sampleRows] = await Promise.all([
     DatabaseClient.queryOne<Record<string, unknown>>(
@@ -505,12 +551,7 @@ async function queryCorpusBriefLightweight(scope: QueryScope): Promise<AdvisorBr
       `,
       scopeSql.params
     ),
-    DatabaseClient.queryOne<Record<string, unknown>>(
-      `
-        SELECT ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS rate
-        FROM fos_decisions d
-      `
-    ),
+    queryBaselineRates(scope.product),
     DatabaseClient.query<Record<string, unknown>>(
       `
         SELECT
@@ -535,12 +576,15 @@ async function queryCorpusBriefLightweight(scope: QueryScope): Promise<AdvisorBr
   const upheldRate = toNumber(statsRow?.upheld_rate);
   const notUpheldRate = toNumber(statsRow?.not_upheld_rate);
   const overallUpheldRate = toNumber(overallRow?.rate);
-  const upholdRiskLevel = deriveUpholdRiskLevel(upheldRate);
+  const estimate = assessUpholdRisk(
+    { upheldRate, totalCases, baselineUpheldRate: baselineRateForScope(scope, overallRow) },
+    riskPolicy.thresholds
+  );
   const genericActions: ComplaintLetterIntelligenceAction[] = dedupeActions([
     {
       item: `Stress-test the draft against the ${scope.product} upheld rate before issue.`,
       source: 'theme',
-      priority: upheldRate >= 45 ? 'critical' : 'important',
+      priority: compareUpholdRiskLevels(estimate.upholdRiskLevel, 'high') >= 0 ? 'critical' : 'important',
     },
     {
       item: 'Confirm the chronology, evidence pack, and explanation of outcome are internally consistent.',
@@ -568,8 +612,9 @@ async function queryCorpusBriefLightweight(scope: QueryScope): Promise<AdvisorBr
       upheldRate,
       notUpheldRate,
       overallUpheldRate,
-      upholdRiskLevel,
+      ...estimate,
       trendDirection: 'stable',
+      riskPolicy: { version: riskPolicy.version, thresholds: riskPolicy.thresholds },
     },
     keyPrecedents: [],
     rootCausePatterns: scope.rootCause
@@ -666,16 +711,34 @@ function dedupeActions(actions: ComplaintLetterIntelligenceAction[]): ComplaintL
   return result;
 }
 
-function deriveUpholdRiskLevel(upheldRate: number): AdvisorRiskAssessmentLike['upholdRiskLevel'] {
-  if (upheldRate >= 60) return 'very_high';
-  if (upheldRate >= 45) return 'high';
-  if (upheldRate >= 30) return 'medium';
-  return 'low';
+/** Corpus-wide upheld rate plus the product-wide rate used as the shrinkage baseline for root-cause scopes. */
+function queryBaselineRates(product: string): Promise<Record<string, unknown> | null> {
+  const productMatch = productFilterCondition('d', 'ARRAY[$1]::TEXT[]', { taxonomyAvailable: hasProductTaxonomy(), includeSectors: false });
+  return DatabaseClient.queryOne<Record<string, unknown>>(
+    `
+      SELECT
+        ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS rate,
+        ROUND(
+          100.0 * COUNT(*) FILTER (WHERE ${productMatch} AND ${outcomeExpression('d')} = 'upheld')
+          / NULLIF(COUNT(*) FILTER (WHERE ${productMatch}), 0),
+          2
+        ) AS product_rate
+      FROM fos_decisions d
+    `,
+    [product]
+  );
+}
+
+function baselineRateForScope(scope: QueryScope, row: Record<string, unknown> | null): number | null {
+  const value = scope.rootCause ? row?.product_rate ?? row?.rate : row?.rate;
+  return value == null ? null : toNumber(value);
 }
 
 function buildScopeSql(scope: { product: string; rootCause: string | null }): { whereSql: string; params: unknown[] } {
   const params: unknown[] = [scope.product];
-  const conditions = [`COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1`];
+  const conditions = [
+    productFilterCondition('d', 'ARRAY[$1]::TEXT[]', { taxonomyAvailable: hasProductTaxonomy(), includeSectors: false }),
+  ];
 
   if (scope.rootCause) {
     params.push(scope.rootCause);
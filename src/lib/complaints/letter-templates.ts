@@ -1,4 +1,4 @@
-import type { ComplaintLetterTemplateKey, ComplaintRecord, ComplaintWorkspaceSettings } from './types';
+import type { ComplaintLetterTemplateKey, ComplaintRecord, ComplaintType, ComplaintWorkspaceSettings } from './types';
 
 export type ComplaintLetterDecisionPath = 'upheld' | 'not_upheld' | 'partially_upheld' | 'other';
 
@@ -106,7 +106,7 @@ export function composeComplaintLetterBodyFromStructuredState(
         '',
         'What happens next',
         'We are reviewing the information currently available, including our internal records and any supporting evidence you have provided.',
-        `We aim to provide a further progress update by ${fourWeek} and a final response by ${eightWeek}. If we are not in a position to issue a final response within eight weeks, we will explain why and set out your right to refer the complaint to the Financial Ombudsman Service.`,
+        responseTimetableSentence(complaint.complaintType, fourWeek, eightWeek),
         'If there is any further information you would like us to consider, please send it to us as soon as possible so it can be included in our review.',
         '',
         ...signoffLines(settings),
@@ -126,7 +126,7 @@ export function composeComplaintLetterBodyFromStructuredState(
         section('delay_reason'),
         '',
         'Your right to refer to the Financial Ombudsman Service',
-        `Because eight weeks have now passed since we received your complaint on ${received}, you may now refer the complaint to the Financial Ombudsman Service free of charge if you do not want to wait for our final response.`,
+        delayReferralSentence(complaint.complaintType, received, eightWeek),
         fosRightsParagraph('delay_response'),
         lateReferralPositionParagraph(settings),
         'Enclosure when issued: Financial Ombudsman Service standard explanatory leaflet.',
@@ -165,6 +165,29 @@ export function composeComplaintLetterBodyFromStructuredState(
         ...signoffLines(settings),
       ].join('\n');
     }
+    case 'summary_resolution':
+      return [
+        `Dear ${recipientName},`,
+        '',
+        `Complaint reference: ${complaint.complaintReference}`,
+        `Date received: ${received}`,
+        '',
+        'Thank you for contacting us. We have treated the concerns you raised as a complaint, and we now consider that complaint resolved.',
+        '',
+        'Your complaint',
+        section('complaint_summary'),
+        '',
+        'How we resolved it',
+        section('resolution_summary'),
+        '',
+        'If you later become dissatisfied',
+        'If you later decide that you are dissatisfied with this resolution, you may be able to refer your complaint to the Financial Ombudsman Service free of charge.',
+        fosRightsParagraph('summary_resolution'),
+        lateReferralPositionParagraph(settings),
+        'More information about the Financial Ombudsman Service, and how it can help, is available on its website.',
+        '',
+        ...signoffLines(settings),
+      ].join('\n');
     case 'fos_referral':
       return [
         `Dear ${recipientName},`,
@@ -174,7 +197,7 @@ export function composeComplaintLetterBodyFromStructuredState(
         'You have asked for information about referring your complaint to the Financial Ombudsman Service.',
         '',
         'When you can refer the complaint',
-        'You may usually refer the complaint if you remain dissatisfied with our final response, or if we have not issued a final response within the applicable complaint-handling timeframe.',
+        referralEligibilitySentence(complaint.complaintType),
         '',
         'What to provide',
         section('what_to_provide'),
@@ -272,6 +295,26 @@ function getDefaultStructuredEditorState(
           },
         ],
       };
+    case 'summary_resolution':
+      return {
+        templateKey,
+        decisionPath: null,
+        lockedSectionLabels: ['Resolution statement', 'FOS rights wording', 'Late-referral wording', 'Sign-off'],
+        sections: [
+          {
+            key: 'complaint_summary',
+            label: 'Complaint summary',
+            value: matterSummary,
+            placeholder: 'Summarise the complaint in customer-facing terms.',
+          },
+          {
+            key: 'resolution_summary',
+            label: 'How it was resolved',
+            value: complaint.resolution || 'Explain what we did to put things right and the outcome agreed with the customer.',
+            placeholder: 'Describe the resolution and any action taken or redress paid.',
+          },
+        ],
+      };
     case 'fos_referral':
       return {
         templateKey,
@@ -346,6 +389,19 @@ function parseStructuredEditorState(
         ),
       };
     }
+    case 'summary_resolution': {
+      const complaintSummary = extractSectionValue(normalized, 'Your complaint', 'How we resolved it');
+      const resolutionSummary = extractSectionValue(normalized, 'How we resolved it', 'If you later become dissatisfied');
+      if (complaintSummary == null || resolutionSummary == null) return null;
+      return {
+        ...fallback,
+        sections: replaceStructuredSectionValue(
+          replaceStructuredSectionValue(fallback.sections, 'complaint_summary', complaintSummary),
+          'resolution_summary',
+          resolutionSummary
+        ),
+      };
+    }
     case 'fos_referral': {
       const whatToProvide = extractSectionValue(normalized, 'What to provide', 'Financial Ombudsman Service details');
       if (whatToProvide == null) return null;
@@ -412,6 +468,8 @@ function subjectForTemplate(complaint: ComplaintRecord, templateKey: ComplaintLe
       return `Complaint delay response - ${complaint.complaintReference}`;
     case 'final_response':
       return `Final response and Ombudsman rights - ${complaint.complaintReference}`;
+    case 'summary_resolution':
+      return `Resolution of your complaint - ${complaint.complaintReference}`;
     case 'fos_referral':
       return `FOS referral information - ${complaint.complaintReference}`;
     case 'custom':
@@ -463,7 +521,7 @@ function formatDate(value: string | null): string {
   return new Intl.DateTimeFormat('en-GB', { dateStyle: 'long' }).format(date);
 }
 
-function fosRightsParagraph(context: 'delay_response' | 'final_response' | 'fos_referral'): string {
+function fosRightsParagraph(context: 'delay_response' | 'final_response' | 'summary_resolution' | 'fos_referral'): string {
   const firstSentence = context === 'delay_response'
     ? 'You should usually do so within 6 months of the date of this letter, unless a different regulatory time limit applies to your complaint.'
     : 'You should usually do so within 6 months of the date of this letter, unless a different regulatory time limit applies to your complaint.';
@@ -475,6 +533,41 @@ function fosRightsParagraph(context: 'delay_response' | 'final_response' | 'fos_
   ].join(' ');
 }
 
+// Timing wording differs by complaint type: payment services complaints run on
+// 15/35 business days (DISP 1.6.2A), summary resolutions on three business days
+// (DISP 1.5) and everything else on the eight-week DISP 1.6 timetable.
+
+function responseTimetableSentence(complaintType: ComplaintType, progressDue: string, finalDue: string): string {
+  switch (complaintType) {
+    case 'payment_services':
+      return `We aim to send our final response by ${progressDue}, within 15 business days of receiving your complaint. If exceptional circumstances beyond our control mean we cannot, we will write to explain why and tell you when you will receive it, which will be no later than ${finalDue}.`;
+    case 'summary_resolution':
+      return `We aim to resolve your complaint by ${progressDue}. If we cannot resolve it by then, we will continue our investigation and send a final response by ${finalDue}.`;
+    case 'standard':
+    default:
+      return `We aim to provide a further progress update by ${progressDue} and a final response by ${finalDue}. If we are not in a position to issue a final response within eight weeks, we will explain why and set out your right to refer the complaint to the Financial Ombudsman Service.`;
+  }
+}
+
+function delayReferralSentence(complaintType: ComplaintType, received: string, finalDue: string): string {
+  if (complaintType === 'payment_services') {
+    return `Because of exceptional circumstances, we will send our final response by ${finalDue}, no later than 35 business days after we received your complaint on ${received}. If you do not receive it by then, or you are unhappy with it, you may refer the complaint to the Financial Ombudsman Service free of charge.`;
+  }
+  return `Because eight weeks have now passed since we received your complaint on ${received}, you may now refer the complaint to the Financial Ombudsman Service free of charge if you do not want to wait for our final response.`;
+}
+
+function referralEligibilitySentence(complaintType: ComplaintType): string {
+  switch (complaintType) {
+    case 'payment_services':
+      return 'You may usually refer the complaint if you remain dissatisfied with our final response, or if we have not issued a final response within 35 business days of receiving your complaint.';
+    case 'summary_resolution':
+      return 'You may usually refer the complaint if you have become dissatisfied with the resolution we confirmed to you.';
+    case 'standard':
+    default:
+      return 'You may usually refer the complaint if you remain dissatisfied with our final response, or if we have not issued a final response within the applicable complaint-handling timeframe.';
+  }
+}
+
 function lateReferralPositionParagraph(settings: ComplaintWorkspaceSettings): string {
   if (settings.lateReferralPosition === 'consent') {
     return 'If the Financial Ombudsman Service receives your complaint outside the applicable time limit, our organisation consents to the Ombudsman considering the complaint.';
@@ -0,0 +1,116 @@
+import type {
+  ComplaintEvidenceCategory,
+  ComplaintOperationalRisk,
+  ComplaintOperationalRiskFactor,
+  ComplaintOperationalRiskLevel,
+  ComplaintSlaState,
+} from './types';
+
+// Pure scoring for the Operational Risk signal. The complaints repository mirrors
+// these weights in SQL so the register can sort by score across pages.
+
+export const OPERATIONAL_RISK_WEIGHTS = Object.freeze({
+  slaOverdue: 40,
+  slaDueSoon: 20,
+  perOverdueAction: 15,
+  overdueActionsCap: 30,
+  perLetterRework: 10,
+  letterReworkCap: 30,
+  perMissingEvidenceGroup: 10,
+  vulnerability: 15,
+});
+
+/** Minimum score for each level above `low`. */
+export const OPERATIONAL_RISK_LEVEL_FLOORS: Record<Exclude<ComplaintOperationalRiskLevel, 'low'>, number> = Object.freeze({
+  critical: 70,
+  high: 45,
+  medium: 20,
+});
+
+export const OPERATIONAL_RISK_LEVELS: ComplaintOperationalRiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+/** An open complaint is expected to hold at least one file from each group. */
+export const EXPECTED_EVIDENCE_GROUPS: Array<{ key: string; label: string; categories: ComplaintEvidenceCategory[] }> = [
+  { key: 'complainant_account', label: 'complainant account', categories: ['email', 'statement', 'call_recording'] },
+  { key: 'firm_records', label: 'firm records', categories: ['policy_document', 'letter', 'screenshot'] },
+];
+
+/** Case-insensitive stems matched against the complaint description, notes, type and category. */
+export const VULNERABILITY_INDICATOR_PATTERNS = [
+  'vulnerab',
+  'bereave',
+  'disabilit',
+  'mental health',
+  'dementia',
+  'terminal',
+  'carer',
+  'financial difficult',
+  'domestic abuse',
+];
+
+export interface ComplaintOperationalRiskInput {
+  slaState: ComplaintSlaState;
+  overdueActionCount: number;
+  letterReworkCount: number;
+  evidenceCategories: ComplaintEvidenceCategory[];
+  text: Array<string | null | undefined>;
+}
+
+export function assessComplaintOperationalRisk(input: ComplaintOperationalRiskInput): ComplaintOperationalRisk {
+  if (input.slaState === 'closed') {
+    return { level: 'low', score: 0, factors: [] };
+  }
+
+  const factors: ComplaintOperationalRiskFactor[] = [];
+
+  if (input.slaState === 'overdue') {
+    factors.push({ key: 'sla_overdue', label: '8-week deadline passed', points: OPERATIONAL_RISK_WEIGHTS.slaOverdue });
+  } else if (input.slaState === 'due_soon') {
+    factors.push({ key: 'sla_due_soon', label: '8-week deadline within 7 days', points: OPERATIONAL_RISK_WEIGHTS.slaDueSoon });
+  }
+
+  if (input.overdueActionCount > 0) {
+    factors.push({
+      key: 'overdue_actions',
+      label: `${input.overdueActionCount} overdue action${input.overdueActionCount === 1 ? '' : 's'}`,
+      points: Math.min(input.overdueActionCount * OPERATIONAL_RISK_WEIGHTS.perOverdueAction, OPERATIONAL_RISK_WEIGHTS.overdueActionsCap),
+    });
+  }
+
+  if (input.letterReworkCount > 0) {
+    factors.push({
+      key: 'letter_rework',
+      label: `${input.letterReworkCount} letter rejection${input.letterReworkCount === 1 ? '' : 's'} at review`,
+      points: Math.min(input.letterReworkCount * OPERATIONAL_RISK_WEIGHTS.perLetterRework, OPERATIONAL_RISK_WEIGHTS.letterReworkCap),
+    });
+  }
+
+  const present = new Set(input.evidenceCategories);
+  const missingGroups = EXPECTED_EVIDENCE_GROUPS.filter((group) => !group.categories.some((category) => present.has(category)));
+  if (missingGroups.length > 0) {
+    factors.push({
+      key: 'evidence_gap',
+      label: `No ${missingGroups.map((group) => group.label).join(' or ')} evidence`,
+      points: missingGroups.length * OPERATIONAL_RISK_WEIGHTS.perMissingEvidenceGroup,
+    });
+  }
+
+  if (hasVulnerabilityIndicator(input.text)) {
+    factors.push({ key: 'vulnerability', label: 'Vulnerability indicator on file', points: OPERATIONAL_RISK_WEIGHTS.vulnerability });
+  }
+
+  const score = Math.min(100, factors.reduce((sum, factor) => sum + factor.points, 0));
+  return { level: classifyOperationalRisk(score), score, factors };
+}
+
+export function classifyOperationalRisk(score: number): ComplaintOperationalRiskLevel {
+  if (score >= OPERATIONAL_RISK_LEVEL_FLOORS.critical) return 'critical';
+  if (score >= OPERATIONAL_RISK_LEVEL_FLOORS.high) return 'high';
+  if (score >= OPERATIONAL_RISK_LEVEL_FLOORS.medium) return 'medium';
+  return 'low';
+}
+
+function hasVulnerabilityIndicator(text: Array<string | null | undefined>): boolean {
+  const haystack = text.filter(Boolean).join(' ').toLowerCase();
+  return haystack.length > 0 && VULNERABILITY_INDICATOR_PATTERNS.some((pattern) => haystack.includes(pattern));
+}
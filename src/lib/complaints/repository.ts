@@ -4,6 +4,7 @@ import type { PoolClient } from 'pg';
 import {
   ComplaintAction,
   ComplaintActionMutationInput,
+  ComplaintAllocationStrategy,
   ComplaintActionSource,
   ComplaintActionStatus,
   ComplaintActionType,
@@ -12,34 +13,90 @@ import {
   ComplaintEvidence,
   ComplaintEvidenceCategory,
   ComplaintFilters,
+  ComplaintHandler,
+  ComplaintHandlerCapacityInput,
+  ComplaintHandlerWorkload,
   ComplaintImportPreviewRow,
+  ComplaintInboundEmail,
+  ComplaintInboundEmailMatch,
+  ComplaintInboundEmailResult,
+  ComplaintInboundEmailSource,
   ComplaintImportRun,
   ComplaintLateReferralPosition,
   ComplaintLetter,
+  ComplaintLetterDelivery,
+  ComplaintLetterDeliveryStatus,
+  ComplaintLetterOutboxRunResult,
   ComplaintLetterReviewDecisionCode,
   ComplaintLetterVersion,
   ComplaintLetterStatus,
   ComplaintLetterTemplateKey,
   ComplaintListResult,
   ComplaintMutationInput,
+  ComplaintOperationalRiskFactorKey,
+  ComplaintOperationalRiskLevel,
+  ComplaintPinnedDecision,
   ComplaintPriority,
+  ComplaintQueue,
+  ComplaintQueueInput,
   ComplaintRecord,
+  ComplaintSlaHolidayRegion,
+  ComplaintSlaPause,
+  ComplaintSlaRuleSet,
   ComplaintSlaState,
   ComplaintSlaSummary,
+  ComplaintSort,
   ComplaintStatus,
   ComplaintStats,
+  ComplaintType,
+  ComplaintWorkload,
   ComplaintWorkspaceActorRole,
   ComplaintWorkspaceSettings,
   ComplaintWorkspaceSettingsInput,
   COMPLAINT_ACTION_STATUSES,
+  COMPLAINT_ALLOCATION_STRATEGIES,
   COMPLAINT_ACTION_TYPES,
   COMPLAINT_EVIDENCE_CATEGORIES,
   COMPLAINT_LETTER_REVIEW_DECISION_CODES,
+  COMPLAINT_SLA_HOLIDAY_REGIONS,
+  COMPLAINT_TYPES,
   COMPLAINT_WORKSPACE_ACTOR_ROLES,
 } from './types';
 import type { BoardPackDefinition, BoardPackRequest, BoardPackTemplateKey } from '@/lib/board-pack/types';
 import { buildComplaintLetterDraft } from './letter-templates';
+import { buildComplaintLetterPdf } from './build-letter-pdf';
+import {
+  DEFAULT_HANDLER_CAPACITY,
+  MAX_HANDLER_CAPACITY,
+  labelForAllocationStrategy,
+  pickComplaintHandler,
+  type ComplaintAllocationCandidate,
+} from './assignment';
+import { DEFAULT_COMPLAINT_TYPE, normalizeComplaintType } from './complaint-types';
+import { extractComplaintReferenceCandidates, parseInboundEmail, type ParsedInboundEmail } from './inbound-email';
+import {
+  createDeliveryError,
+  isPermanentDeliveryError,
+  resolveLetterDeliveryTransport,
+  resolveLetterSender,
+  type LetterDeliveryTransport,
+} from './letter-delivery';
+import {
+  EXPECTED_EVIDENCE_GROUPS,
+  OPERATIONAL_RISK_LEVEL_FLOORS,
+  OPERATIONAL_RISK_WEIGHTS,
+  VULNERABILITY_INDICATOR_PATTERNS,
+  assessComplaintOperationalRisk,
+} from './operational-risk';
+import {
+  DEFAULT_COMPLAINT_SLA_RULE_SETS,
+  computeComplaintSlaDeadlines,
+  normalizeComplaintSlaRuleSets,
+  withDefaultComplaintSlaRuleSets,
+} from './sla-engine';
 import { ensureComplaintsWorkspaceSchema } from './schema';
+import { ensureDecisionRevisionsSchema } from '@/lib/revisions/schema';
+import { caseIdExpression, outcomeExpression } from '@/lib/fos/repo-helpers';
 
 const DEFAULT_PAGE = 1;
 const DEFAULT_PAGE_SIZE = 25;
@@ -47,13 +104,27 @@ const MAX_PAGE_SIZE = 100;
 const VALID_STATUSES: ComplaintStatus[] = ['open', 'investigating', 'resolved', 'closed', 'escalated', 'referred_to_fos'];
 const VALID_PRIORITIES: ComplaintPriority[] = ['low', 'medium', 'high', 'urgent'];
 const VALID_EVIDENCE_CATEGORIES: ComplaintEvidenceCategory[] = [...COMPLAINT_EVIDENCE_CATEGORIES];
-const VALID_LETTER_TEMPLATE_KEYS: ComplaintLetterTemplateKey[] = ['acknowledgement', 'holding_response', 'final_response', 'fos_referral', 'custom'];
+const VALID_LETTER_TEMPLATE_KEYS: ComplaintLetterTemplateKey[] = ['acknowledgement', 'holding_response', 'final_response', 'summary_resolution', 'fos_referral', 'custom'];
+const VALID_COMPLAINT_TYPES: ComplaintType[] = COMPLAINT_TYPES.map((type) => type.key);
 const VALID_LETTER_STATUSES: ComplaintLetterStatus[] = ['draft', 'generated', 'under_review', 'approved', 'rejected_for_rework', 'sent', 'superseded'];
 const VALID_LATE_REFERRAL_POSITIONS: ComplaintLateReferralPosition[] = ['review_required', 'consent', 'do_not_consent', 'custom'];
 const VALID_ACTOR_ROLES: ComplaintWorkspaceActorRole[] = [...COMPLAINT_WORKSPACE_ACTOR_ROLES];
 const VALID_ACTION_TYPES: ComplaintActionType[] = [...COMPLAINT_ACTION_TYPES];
 const VALID_ACTION_STATUSES: ComplaintActionStatus[] = [...COMPLAINT_ACTION_STATUSES];
 const VALID_REVIEW_DECISION_CODES: ComplaintLetterReviewDecisionCode[] = [...COMPLAINT_LETTER_REVIEW_DECISION_CODES];
+const VALID_SORTS: ComplaintSort[] = ['received_desc', 'operational_risk_desc'];
+const VALID_SLA_HOLIDAY_REGIONS: ComplaintSlaHolidayRegion[] = COMPLAINT_SLA_HOLIDAY_REGIONS.map((region) => region.key);
+const VALID_DELIVERY_STATUSES: ComplaintLetterDeliveryStatus[] = ['queued', 'sending', 'delivered', 'failed', 'bounced'];
+const VALID_ALLOCATION_STRATEGIES: ComplaintAllocationStrategy[] = COMPLAINT_ALLOCATION_STRATEGIES.map((strategy) => strategy.key);
+// Roles that can own complaints; viewers cannot be assigned or join queues.
+const HANDLER_ROLES: ComplaintWorkspaceActorRole[] = [...COMPLAINT_WORKSPACE_ACTOR_ROLES];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const LETTER_OUTBOX_BATCH_SIZE = 10;
+// Retries back off 1, 4, 16, 64 minutes; a 'sending' row older than this is assumed abandoned.
+const LETTER_OUTBOX_RETRY_BASE_MS = 60_000;
+const LETTER_OUTBOX_STALE_SENDING_MINUTES = 15;
+// Same ceiling as the evidence upload route; larger attachments are skipped and listed on the ledger row.
+const INBOUND_EMAIL_MAX_EVIDENCE_BYTES = 5 * 1024 * 1024;
 const VALID_ACTIVITY_TYPES: ComplaintActivityType[] = [
   'complaint_created',
   'status_change',
@@ -67,12 +138,21 @@ const VALID_ACTIVITY_TYPES: ComplaintActivityType[] = [
   'letter_rejected',
   'letter_sent',
   'letter_superseded',
+  'letter_delivery_queued',
+  'letter_delivery_failed',
+  'letter_bounced',
+  'email_received',
+  'sla_clock_paused',
+  'sla_clock_resumed',
   'note_added',
   'action_created',
   'action_updated',
   'action_completed',
   'action_deleted',
+  'decision_pinned',
+  'decision_unpinned',
   'assigned',
+  'queue_changed',
   'priority_change',
   'fos_referred',
   'resolved',
@@ -92,9 +172,24 @@ const DEFAULT_COMPLAINT_WORKSPACE_SETTINGS: ComplaintWorkspaceSettings = {
   currentActorRole: 'reviewer',
   letterApprovalRole: 'reviewer',
   requireIndependentReviewer: false,
+  slaHolidayRegion: 'england-and-wales',
+  slaRuleSets: DEFAULT_COMPLAINT_SLA_RULE_SETS,
   updatedAt: new Date(0).toISOString(),
 };
 
+/** Settings and pause history the SLA engine needs to date a complaint. */
+interface ComplaintSlaClockContext {
+  ruleSets: ComplaintSlaRuleSet[];
+  region: ComplaintSlaHolidayRegion;
+  pauses: Array<Pick<ComplaintSlaPause, 'pausedOn' | 'resumedOn'>>;
+}
+
+const DEFAULT_SLA_CLOCK_CONTEXT: ComplaintSlaClockContext = {
+  ruleSets: DEFAULT_COMPLAINT_SLA_RULE_SETS,
+  region: 'england-and-wales',
+  pauses: [],
+};
+
 export function parseComplaintFilters(searchParams: URLSearchParams): ComplaintFilters {
   const statusRaw = (searchParams.get('status') || 'all').trim();
   const priorityRaw = (searchParams.get('priority') || 'all').trim();
@@ -102,6 +197,8 @@ export function parseComplaintFilters(searchParams: URLSearchParams): ComplaintF
   const letterStatusRaw = (searchParams.get('letterStatus') || 'all').trim();
   const hasEvidenceRaw = (searchParams.get('hasEvidence') || 'all').trim();
   const slaStateRaw = (searchParams.get('slaState') || 'all').trim();
+  const complaintTypeRaw = (searchParams.get('complaintType') || 'all').trim();
+  const sortRaw = (searchParams.get('sort') || 'received_desc').trim();
   return {
     query: (searchParams.get('query') || '').trim(),
     status: statusRaw === 'all' || VALID_STATUSES.includes(statusRaw as ComplaintStatus) ? (statusRaw as ComplaintStatus | 'all') : 'all',
@@ -111,6 +208,8 @@ export function parseComplaintFilters(searchParams: URLSearchParams): ComplaintF
     firm: (searchParams.get('firm') || '').trim(),
     product: (searchParams.get('product') || '').trim(),
     assignedTo: (searchParams.get('assignedTo') || '').trim(),
+    assignedUserId: parseIdFilter(searchParams.get('assignedUserId'), 'unassigned'),
+    queueId: parseIdFilter(searchParams.get('queueId'), 'none'),
     reviewer: (searchParams.get('reviewer') || '').trim(),
     letterStatus: letterStatusRaw === 'all' || VALID_LETTER_STATUSES.includes(letterStatusRaw as ComplaintLetterStatus)
       ? (letterStatusRaw as ComplaintLetterStatus | 'all')
@@ -119,7 +218,9 @@ export function parseComplaintFilters(searchParams: URLSearchParams): ComplaintF
     slaState: ['all', 'on_track', 'due_soon', 'overdue', 'closed'].includes(slaStateRaw)
       ? (slaStateRaw as ComplaintSlaState | 'all')
       : 'all',
+    complaintType: VALID_COMPLAINT_TYPES.includes(complaintTypeRaw as ComplaintType) ? (complaintTypeRaw as ComplaintType) : 'all',
     fosReferred: ['yes', 'no', 'all'].includes(fosReferredRaw) ? (fosReferredRaw as 'all' | 'yes' | 'no') : 'all',
+    sort: VALID_SORTS.includes(sortRaw as ComplaintSort) ? (sortRaw as ComplaintSort) : 'received_desc',
     page: clamp(parsePositiveInt(searchParams.get('page'), DEFAULT_PAGE), 1, 10_000),
     pageSize: clamp(parsePositiveInt(searchParams.get('pageSize'), DEFAULT_PAGE_SIZE), 5, MAX_PAGE_SIZE),
   };
@@ -154,9 +255,11 @@ export async function updateComplaintWorkspaceSettings(input: ComplaintWorkspace
         current_actor_role,
         letter_approval_role,
         require_independent_reviewer,
+        sla_holiday_region,
+        sla_rule_sets,
         updated_at
       ) VALUES (
-        TRUE, $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW()
+        TRUE, $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14::jsonb, NOW()
       )
       ON CONFLICT (singleton)
       DO UPDATE SET
@@ -172,6 +275,8 @@ export async function updateComplaintWorkspaceSettings(input: ComplaintWorkspace
         current_actor_role = EXCLUDED.current_actor_role,
         letter_approval_role = EXCLUDED.letter_approval_role,
         require_independent_reviewer = EXCLUDED.require_independent_reviewer,
+        sla_holiday_region = EXCLUDED.sla_holiday_region,
+        sla_rule_sets = EXCLUDED.sla_rule_sets,
         updated_at = NOW()
       RETURNING *
     `,
@@ -188,14 +293,24 @@ export async function updateComplaintWorkspaceSettings(input: ComplaintWorkspace
       payload.currentActorRole,
       payload.letterApprovalRole,
       payload.requireIndependentReviewer,
+      payload.slaHolidayRegion,
+      JSON.stringify(payload.slaRuleSets),
     ]
   );
 
-  return mapComplaintWorkspaceSettings(row || {});
+  const settings = mapComplaintWorkspaceSettings(row || {});
+  if (
+    settings.slaHolidayRegion !== current.slaHolidayRegion
+    || JSON.stringify(settings.slaRuleSets) !== JSON.stringify(current.slaRuleSets)
+  ) {
+    await recomputeOpenComplaintSlaDeadlines(settings, payload.currentActorName);
+  }
+  return settings;
 }
 
 export async function listComplaints(filters: ComplaintFilters): Promise<ComplaintListResult> {
   await ensureComplaintsWorkspaceSchema();
+  await ensureDecisionRevisionsSchema();
   const where = buildComplaintWhereClause(filters, 1);
   const offset = (filters.page - 1) * filters.pageSize;
 
@@ -246,10 +361,12 @@ export async function listComplaints(filters: ComplaintFilters): Promise<Complai
             WHERE complaint_letters.complaint_id = complaints_records.id
             ORDER BY updated_at DESC, created_at DESC
             LIMIT 1
-          ) AS latest_reviewed_by
+          ) AS latest_reviewed_by,
+          ${LINKED_FOS_REVISION_SQL},
+          ${OPERATIONAL_RISK_INPUT_COLUMNS_SQL}
         FROM complaints_records
         ${where.whereSql}
-        ORDER BY received_date DESC, created_at DESC
+        ORDER BY ${filters.sort === 'operational_risk_desc' ? `${operationalRiskSql().score} DESC, ` : ''}received_date DESC, created_at DESC
         LIMIT $${where.nextIndex}
         OFFSET $${where.nextIndex + 1}
       `,
@@ -272,11 +389,13 @@ export async function listComplaints(filters: ComplaintFilters): Promise<Complai
           COUNT(*) FILTER (WHERE fos_referred = TRUE)::INT AS referred_to_fos,
           COUNT(*) FILTER (
             WHERE status NOT IN ('resolved', 'closed')
+              AND sla_paused_since IS NULL
               AND eight_week_due_date IS NOT NULL
               AND eight_week_due_date < CURRENT_DATE
           )::INT AS overdue_complaints,
           COUNT(*) FILTER (
             WHERE status NOT IN ('resolved', 'closed')
+              AND sla_paused_since IS NULL
               AND eight_week_due_date IS NOT NULL
               AND eight_week_due_date BETWEEN CURRENT_DATE AND CURRENT_DATE + 7
           )::INT AS due_soon_complaints,
@@ -354,10 +473,11 @@ export async function exportComplaints(filters: ComplaintFilters): Promise<strin
             AND complaint_actions.status IN ('open', 'in_progress')
             AND complaint_actions.due_date IS NOT NULL
             AND complaint_actions.due_date < CURRENT_DATE
-        ) AS overdue_action_count
+        ) AS overdue_action_count,
+        ${OPERATIONAL_RISK_INPUT_COLUMNS_SQL}
       FROM complaints_records
       ${where.whereSql}
-      ORDER BY received_date DESC, created_at DESC
+      ORDER BY ${filters.sort === 'operational_risk_desc' ? `${operationalRiskSql().score} DESC, ` : ''}received_date DESC, created_at DESC
       LIMIT 5000
     `,
     where.params
@@ -381,6 +501,8 @@ export async function exportComplaints(filters: ComplaintFilters): Promise<strin
     'Evidence count',
     'Open actions',
     'Overdue actions',
+    'Operational risk',
+    'Operational risk score',
     'Root cause',
     'Description',
     'Notes',
@@ -404,6 +526,8 @@ export async function exportComplaints(filters: ComplaintFilters): Promise<strin
       String(record.evidenceCount || 0),
       String(record.openActionCount || 0),
       String(record.overdueActionCount || 0),
+      record.operationalRisk?.level || '',
+      String(record.operationalRisk?.score ?? ''),
       record.rootCause || '',
       record.description || '',
       record.notes || '',
@@ -414,8 +538,30 @@ export async function exportComplaints(filters: ComplaintFilters): Promise<strin
 
 export async function getComplaintById(id: string): Promise<ComplaintRecord | null> {
   await ensureComplaintsWorkspaceSchema();
+  await ensureDecisionRevisionsSchema();
   const row = await DatabaseClient.queryOne<Record<string, unknown>>(
-    `SELECT * FROM complaints_records WHERE id = $1`,
+    `
+      SELECT
+        complaints_records.*,
+        (
+          SELECT COUNT(*)::INT
+          FROM complaint_evidence
+          WHERE complaint_evidence.complaint_id = complaints_records.id
+            AND complaint_evidence.archived_at IS NULL
+        ) AS evidence_count,
+        (
+          SELECT COUNT(*)::INT
+          FROM complaint_actions
+          WHERE complaint_actions.complaint_id = complaints_records.id
+            AND complaint_actions.status IN ('open', 'in_progress')
+            AND complaint_actions.due_date IS NOT NULL
+            AND complaint_actions.due_date < CURRENT_DATE
+        ) AS overdue_action_count,
+        ${LINKED_FOS_REVISION_SQL},
+        ${OPERATIONAL_RISK_INPUT_COLUMNS_SQL}
+      FROM complaints_records
+      WHERE id = $1
+    `,
     [id]
   );
   return row ? mapComplaintRecord(row) : null;
@@ -667,6 +813,151 @@ export async function deleteComplaintAction(actionId: string, performedBy?: stri
   }
 }
 
+export async function listComplaintPinnedDecisions(complaintId: string): Promise<ComplaintPinnedDecision[]> {
+  await ensureComplaintsWorkspaceSchema();
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT *
+      FROM complaint_pinned_decisions
+      WHERE complaint_id = $1
+      ORDER BY pinned_at DESC
+    `,
+    [complaintId]
+  );
+
+  return rows.map(mapComplaintPinnedDecision);
+}
+
+/**
+ * Pins a published decision to a complaint. The decision's headline fields are
+ * snapshotted so the pin still reads correctly if the corpus row is re-imported.
+ * Re-pinning an existing decision only updates the note.
+ */
+export async function pinComplaintDecision(
+  input: { complaintId: string; caseId: string; note?: string | null },
+  performedBy?: string | null
+): Promise<ComplaintPinnedDecision | null> {
+  await ensureComplaintsWorkspaceSchema();
+  const caseId = sanitizeText(input.caseId);
+  if (!caseId) throw new Error('Decision caseId is required.');
+
+  const complaint = await DatabaseClient.queryOne<Record<string, unknown>>(
+    `SELECT id FROM complaints_records WHERE id = $1`,
+    [input.complaintId]
+  );
+  if (!complaint) return null;
+
+  const decision = await DatabaseClient.queryOne<Record<string, unknown>>(
+    `
+      SELECT
+        ${caseIdExpression('d')} AS case_id,
+        d.decision_reference,
+        d.decision_date,
+        NULLIF(BTRIM(d.business_name), '') AS firm_name,
+        NULLIF(BTRIM(d.product_sector), '') AS product_group,
+        ${outcomeExpression('d')} AS outcome,
+        d.decision_summary
+      FROM fos_decisions d
+      WHERE ${caseIdExpression('d')} = $1
+         OR d.decision_reference = $1
+      LIMIT 1
+    `,
+    [caseId]
+  );
+  if (!decision) {
+    throw Object.assign(new Error('FOS decision not found.'), { status: 404 });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const inserted = await client.query<Record<string, unknown>>(
+      `
+        INSERT INTO complaint_pinned_decisions (
+          complaint_id,
+          case_id,
+          decision_reference,
+          decision_date,
+          firm_name,
+          product_group,
+          outcome,
+          decision_summary,
+          note,
+          pinned_by
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        ON CONFLICT (complaint_id, case_id) DO UPDATE
+        SET note = COALESCE(EXCLUDED.note, complaint_pinned_decisions.note)
+        RETURNING *, (xmax = 0) AS inserted
+      `,
+      [
+        input.complaintId,
+        String(decision.case_id || caseId),
+        String(decision.decision_reference || caseId),
+        toDateOnly(decision.decision_date),
+        sanitizeNullable(decision.firm_name),
+        sanitizeNullable(decision.product_group),
+        String(decision.outcome || 'unknown'),
+        sanitizeNullable(decision.decision_summary),
+        sanitizeNullable(input.note),
+        sanitizeNullable(performedBy),
+      ]
+    );
+    const pinned = mapComplaintPinnedDecision(inserted.rows[0]);
+    if (inserted.rows[0]?.inserted === true) {
+      await insertComplaintActivityTx(client, {
+        complaintId: input.complaintId,
+        activityType: 'decision_pinned',
+        description: `Comparable FOS decision ${pinned.decisionReference} pinned.`,
+        performedBy,
+        metadata: { caseId: pinned.caseId, decisionReference: pinned.decisionReference, outcome: pinned.outcome },
+      });
+    }
+    await client.query('COMMIT');
+    return pinned;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function unpinComplaintDecision(complaintId: string, caseId: string, performedBy?: string | null): Promise<boolean> {
+  await ensureComplaintsWorkspaceSchema();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const deleted = await client.query<Record<string, unknown>>(
+      `
+        DELETE FROM complaint_pinned_decisions
+        WHERE complaint_id = $1
+          AND (case_id = $2 OR decision_reference = $2)
+        RETURNING *
+      `,
+      [complaintId, caseId]
+    );
+    if (deleted.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+    const pinned = mapComplaintPinnedDecision(deleted.rows[0]);
+    await insertComplaintActivityTx(client, {
+      complaintId,
+      activityType: 'decision_unpinned',
+      description: `Comparable FOS decision ${pinned.decisionReference} unpinned.`,
+      performedBy,
+      metadata: { caseId: pinned.caseId, decisionReference: pinned.decisionReference },
+    });
+    await client.query('COMMIT');
+    return true;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 export async function listComplaintEvidence(
   complaintId: string,
   options: { includeArchived?: boolean } = {}
@@ -743,80 +1034,17 @@ export async function createComplaintEvidence(input: {
   category?: ComplaintEvidenceCategory | null;
   summary?: string | null;
   uploadedBy?: string | null;
+  /** Overrides the preview extracted from the file, e.g. a decoded email instead of raw MIME. */
+  previewText?: string | null;
 }): Promise<ComplaintEvidence> {
   await ensureComplaintsWorkspaceSchema();
-  const category = normalizeEvidenceCategory(input.category);
-  const fileName = sanitizeText(input.fileName) || 'complaint-evidence.bin';
-  const contentType = sanitizeText(input.contentType) || 'application/octet-stream';
-  const summary = sanitizeNullable(input.summary);
-  const sha256 = createHash('sha256').update(input.fileBytes).digest('hex');
-  const previewText = extractEvidencePreviewText(input.fileBytes, contentType, fileName);
   const client = await pool.connect();
 
   try {
     await client.query('BEGIN');
-    const duplicateRow = await client.query<Record<string, unknown>>(
-      `
-        SELECT id, complaint_id, file_name, content_type, file_size, sha256, category, summary, preview_text, uploaded_by, archived_at, archived_by, created_at
-        FROM complaint_evidence
-        WHERE complaint_id = $1
-          AND sha256 = $2
-          AND archived_at IS NULL
-        ORDER BY created_at DESC
-        LIMIT 1
-      `,
-      [input.complaintId, sha256]
-    );
-    if (duplicateRow.rows[0]) {
-      throw createDuplicateEvidenceError(mapComplaintEvidence(duplicateRow.rows[0]));
-    }
-
-    const inserted = await client.query<Record<string, unknown>>(
-      `
-        INSERT INTO complaint_evidence (
-          complaint_id,
-          file_name,
-          content_type,
-          file_size,
-          category,
-          summary,
-          preview_text,
-          file_bytes,
-          sha256,
-          uploaded_by
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-        RETURNING id, complaint_id, file_name, content_type, file_size, sha256, category, summary, preview_text, uploaded_by, archived_at, archived_by, created_at
-      `,
-      [
-        input.complaintId,
-        fileName,
-        contentType,
-        input.fileBytes.length,
-        category,
-        summary,
-        previewText,
-        input.fileBytes,
-        sha256,
-        sanitizeNullable(input.uploadedBy),
-      ]
-    );
-
-    const row = inserted.rows[0];
-    await insertComplaintActivityTx(client, {
-      complaintId: input.complaintId,
-      activityType: 'evidence_added',
-      description: `Evidence added: ${fileName}.`,
-      performedBy: input.uploadedBy,
-      metadata: {
-        source: 'evidence',
-        evidenceId: String(row.id),
-        fileName,
-        category,
-      },
-    });
-
+    const evidence = await createComplaintEvidenceTx(client, input);
     await client.query('COMMIT');
-    return mapComplaintEvidence(row);
+    return evidence;
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
@@ -825,6 +1053,81 @@ export async function createComplaintEvidence(input: {
   }
 }
 
+async function createComplaintEvidenceTx(
+  client: PoolClient,
+  input: Parameters<typeof createComplaintEvidence>[0]
+): Promise<ComplaintEvidence> {
+  const category = normalizeEvidenceCategory(input.category);
+  const fileName = sanitizeText(input.fileName) || 'complaint-evidence.bin';
+  const contentType = sanitizeText(input.contentType) || 'application/octet-stream';
+  const summary = sanitizeNullable(input.summary);
+  const sha256 = createHash('sha256').update(input.fileBytes).digest('hex');
+  const previewText = input.previewText !== undefined
+    ? sanitizeNullable(input.previewText)?.slice(0, 8000) ?? null
+    : extractEvidencePreviewText(input.fileBytes, contentType, fileName);
+  const duplicateRow = await client.query<Record<string, unknown>>(
+    `
+      SELECT id, complaint_id, file_name, content_type, file_size, sha256, category, summary, preview_text, uploaded_by, archived_at, archived_by, created_at
+      FROM complaint_evidence
+      WHERE complaint_id = $1
+        AND sha256 = $2
+        AND archived_at IS NULL
+      ORDER BY created_at DESC
+      LIMIT 1
+    `,
+    [input.complaintId, sha256]
+  );
+  if (duplicateRow.rows[0]) {
+    throw createDuplicateEvidenceError(mapComplaintEvidence(duplicateRow.rows[0]));
+  }
+
+  const inserted = await client.query<Record<string, unknown>>(
+    `
+      INSERT INTO complaint_evidence (
+        complaint_id,
+        file_name,
+        content_type,
+        file_size,
+        category,
+        summary,
+        preview_text,
+        file_bytes,
+        sha256,
+        uploaded_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING id, complaint_id, file_name, content_type, file_size, sha256, category, summary, preview_text, uploaded_by, archived_at, archived_by, created_at
+    `,
+    [
+      input.complaintId,
+      fileName,
+      contentType,
+      input.fileBytes.length,
+      category,
+      summary,
+      previewText,
+      input.fileBytes,
+      sha256,
+      sanitizeNullable(input.uploadedBy),
+    ]
+  );
+
+  const row = inserted.rows[0];
+  await insertComplaintActivityTx(client, {
+    complaintId: input.complaintId,
+    activityType: 'evidence_added',
+    description: `Evidence added: ${fileName}.`,
+    performedBy: input.uploadedBy,
+    metadata: {
+      source: 'evidence',
+      evidenceId: String(row.id),
+      fileName,
+      category,
+    },
+  });
+
+  return mapComplaintEvidence(row);
+}
+
 export async function updateComplaintEvidence(input: {
   evidenceId: string;
   fileName?: string | null;
@@ -1128,6 +1431,12 @@ export async function createComplaintLetter(input: {
   }
 
   const templateKey = normalizeLetterTemplateKey(input.templateKey);
+  if (templateKey === 'summary_resolution' && complaint.complaintType !== 'summary_resolution') {
+    throw Object.assign(
+      new Error('A summary resolution communication can only be issued for a complaint classified as summary resolution.'),
+      { status: 400 }
+    );
+  }
   const draft = buildComplaintLetterDraft(complaint, templateKey, settings, {
     subject: input.subject,
     bodyText: input.bodyText,
@@ -1288,6 +1597,19 @@ export async function updateComplaintLetter(input: {
       throw new Error('Reviewer decision code and reviewer decision note are required.');
     }
 
+    const existingDeliveryStatus = normalizeDeliveryStatus(existing.delivery_status);
+    if ((existingDeliveryStatus === 'queued' || existingDeliveryStatus === 'sending') && (contentChanged || reviewerNotesChanged || requestedStatus !== null)) {
+      throw Object.assign(new Error('This letter is queued for delivery and cannot be changed until the delivery completes.'), { status: 409 });
+    }
+    if (requestedStatus === 'sent') {
+      // Sending only queues a delivery; the letter becomes 'sent' once the transport accepts it.
+      const letter = existingStatus === 'sent'
+        ? mapComplaintLetter(existing)
+        : await queueComplaintLetterDeliveryTx(client, { letter: existing, actor, settings });
+      await client.query('COMMIT');
+      return letter;
+    }
+
     let nextStatus = requestedStatus ?? existingStatus;
     if (contentChanged && ['approved', 'sent', 'under_review', 'rejected_for_rework'].includes(existingStatus) && requestedStatus == null) {
       nextStatus = 'draft';
@@ -1470,22 +1792,6 @@ export async function updateComplaintLetter(input: {
       });
     }
 
-    if (existingStatus !== nextStatus && nextStatus === 'sent') {
-      await insertComplaintActivityTx(client, {
-        complaintId: String(existing.complaint_id || ''),
-        activityType: 'letter_sent',
-        description: `${labelForLetterTemplate(normalizeLetterTemplateKey(existing.template_key))} marked as sent.`,
-        oldValue: String(existing.status || 'draft'),
-        newValue: nextStatus,
-        performedBy: actor.name,
-        metadata: {
-          letterId: String(existing.id || ''),
-          subject: String(updated.subject || ''),
-          actorRole: actor.role,
-        },
-      });
-    }
-
     await client.query('COMMIT');
     return mapComplaintLetter(updated);
   } catch (error) {
@@ -1496,100 +1802,340 @@ export async function updateComplaintLetter(input: {
   }
 }
 
-export async function createComplaint(input: ComplaintMutationInput, performedBy?: string | null): Promise<ComplaintRecord> {
+export async function listComplaintLetterDeliveries(letterId: string): Promise<ComplaintLetterDelivery[]> {
+  await ensureComplaintsWorkspaceSchema();
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT *
+      FROM complaint_letter_outbox
+      WHERE letter_id = $1
+      ORDER BY created_at DESC
+    `,
+    [letterId]
+  );
+
+  return rows.map(mapComplaintLetterDelivery);
+}
+
+/**
+ * Sends due outbox entries, optionally only those for one letter. Entries are
+ * claimed with SKIP LOCKED so the cron and an immediate send after approval
+ * never deliver the same entry twice.
+ */
+export async function processComplaintLetterOutbox(options: {
+  letterId?: string | null;
+  limit?: number;
+} = {}): Promise<ComplaintLetterOutboxRunResult> {
+  await ensureComplaintsWorkspaceSchema();
+  const result: ComplaintLetterOutboxRunResult = { processed: 0, delivered: 0, retrying: 0, failed: 0 };
+  const transport = resolveLetterDeliveryTransport();
+  if (!transport) return result;
+
+  const claimed = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      UPDATE complaint_letter_outbox o
+      SET status = 'sending', attempts = o.attempts + 1, updated_at = NOW()
+      WHERE o.id IN (
+        SELECT id
+        FROM complaint_letter_outbox
+        WHERE (
+          (status = 'queued' AND next_attempt_at <= NOW())
+          OR (status = 'sending' AND updated_at < NOW() - ($3::INT * INTERVAL '1 minute'))
+        )
+          AND ($1::UUID IS NULL OR letter_id = $1::UUID)
+        ORDER BY next_attempt_at ASC
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING o.*
+    `,
+    [options.letterId || null, clamp(options.limit ?? LETTER_OUTBOX_BATCH_SIZE, 1, 100), LETTER_OUTBOX_STALE_SENDING_MINUTES]
+  );
+
+  for (const entry of claimed) {
+    const outcome = await deliverComplaintLetterOutboxEntry(entry, transport);
+    result.processed += 1;
+    result[outcome] += 1;
+  }
+  return result;
+}
+
+/** Records that a delivered letter bounced, e.g. from a non-delivery report received by the complaints mailbox. */
+export async function recordComplaintLetterBounce(input: {
+  letterId: string;
+  reason?: string | null;
+  performedBy?: string | null;
+  performedByRole?: ComplaintWorkspaceActorRole | null;
+}): Promise<ComplaintLetter | null> {
   await ensureComplaintsWorkspaceSchema();
-  const payload = normalizeComplaintMutationInput(input, true);
+  const settings = await getComplaintWorkspaceSettings();
+  const actor = resolveComplaintWorkspaceActor(settings, input.performedBy, input.performedByRole);
+  const reason = sanitizeText(input.reason).slice(0, 1000) || 'Recipient mail server reported the letter as undeliverable.';
   const client = await pool.connect();
 
   try {
     await client.query('BEGIN');
-    const inserted = await client.query<Record<string, unknown>>(
+    const letterResult = await client.query<Record<string, unknown>>(
+      `SELECT * FROM complaint_letters WHERE id = $1 FOR UPDATE`,
+      [input.letterId]
+    );
+    const letter = letterResult.rows[0];
+    if (!letter) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const deliveryResult = await client.query<Record<string, unknown>>(
       `
-        INSERT INTO complaints_records (
-          complaint_reference,
-          linked_fos_case_id,
-          complainant_name,
-          complainant_email,
-          complainant_phone,
-          complainant_address,
-          firm_name,
-          product,
-          complaint_type,
-          complaint_category,
-          description,
-          received_date,
-          acknowledged_date,
-          four_week_due_date,
-          eight_week_due_date,
-          final_response_date,
-          resolved_date,
-          root_cause,
-          remedial_action,
-          resolution,
-          compensation_amount,
-          fos_referred,
-          fos_outcome,
-          status,
-          priority,
-          assigned_to,
-          notes,
-          created_by,
-          updated_by
-        ) VALUES (
-          $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,
-          $11,$12,$13,$14,$15,$16,$17,$18,$19,$20,
-          $21,$22,$23,$24,$25,$26,$27,$28,$29
+        UPDATE complaint_letter_outbox
+        SET status = 'bounced', bounced_at = NOW(), last_error = $2, updated_at = NOW()
+        WHERE id = (
+          SELECT id
+          FROM complaint_letter_outbox
+          WHERE letter_id = $1 AND status = 'delivered'
+          ORDER BY delivered_at DESC
+          LIMIT 1
         )
         RETURNING *
       `,
-      [
-        payload.complaintReference,
-        payload.linkedFosCaseId,
-        payload.complainantName,
-        payload.complainantEmail,
-        payload.complainantPhone,
-        payload.complainantAddress,
-        payload.firmName,
-        payload.product,
-        payload.complaintType,
-        payload.complaintCategory,
-        payload.description,
-        payload.receivedDate,
-        payload.acknowledgedDate,
-        payload.fourWeekDueDate,
-        payload.eightWeekDueDate,
-        payload.finalResponseDate,
-        payload.resolvedDate,
-        payload.rootCause,
-        payload.remedialAction,
-        payload.resolution,
-        payload.compensationAmount,
-        payload.fosReferred,
-        payload.fosOutcome,
-        payload.status,
-        payload.priority,
-        payload.assignedTo,
-        payload.notes,
-        performedBy || payload.createdBy,
-        performedBy || payload.updatedBy,
+      [input.letterId, reason]
+    );
+    const delivery = deliveryResult.rows[0];
+    if (!delivery) {
+      throw Object.assign(new Error('Only a delivered letter can be marked as bounced.'), { status: 409 });
+    }
+
+    const updatedResult = await client.query<Record<string, unknown>>(
+      `
+        UPDATE complaint_letters
+        SET delivery_status = 'bounced', delivery_error = $2, updated_at = NOW()
+        WHERE id = $1
+        RETURNING *
+      `,
+      [input.letterId, reason]
+    );
+
+    await insertComplaintActivityTx(client, {
+      complaintId: String(letter.complaint_id || ''),
+      activityType: 'letter_bounced',
+      description: `${labelForLetterTemplate(normalizeLetterTemplateKey(letter.template_key))} to ${String(delivery.recipient_email || '')} bounced: ${reason}`,
+      oldValue: 'delivered',
+      newValue: 'bounced',
+      performedBy: actor.name,
+      metadata: {
+        letterId: String(letter.id || ''),
+        deliveryId: String(delivery.id || ''),
+        messageId: sanitizeNullable(delivery.message_id),
+        actorRole: actor.role,
+      },
+    });
+
+    await client.query('COMMIT');
+    return mapComplaintLetter(updatedResult.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function listComplaintInboundEmails(limit = 25): Promise<ComplaintInboundEmail[]> {
+  await ensureComplaintsWorkspaceSchema();
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT e.*, c.complaint_reference
+      FROM complaint_inbound_emails e
+      LEFT JOIN complaints_records c ON c.id = e.complaint_id
+      ORDER BY e.created_at DESC
+      LIMIT $1
+    `,
+    [clamp(limit, 1, 200)]
+  );
+
+  return rows.map(mapComplaintInboundEmail);
+}
+
+/**
+ * Files an inbound email against a complaint. A reply to a sent letter or to
+ * an earlier ingested email is matched by Message-ID, then a complaint
+ * reference in the subject; otherwise a new complaint is drafted from the
+ * sender and body. The message and each attachment are stored as `email`
+ * evidence. Ingesting the same message twice returns the first result; the
+ * draft, evidence and ledger row commit together, so a failed ingest can simply
+ * be retried.
+ */
+export async function ingestInboundComplaintEmail(input: {
+  raw: Buffer;
+  source: ComplaintInboundEmailSource;
+  receivedBy?: string | null;
+}): Promise<ComplaintInboundEmailResult> {
+  await ensureComplaintsWorkspaceSchema();
+  let message: ParsedInboundEmail;
+  try {
+    message = parseInboundEmail(input.raw);
+  } catch (error) {
+    throw Object.assign(new Error(`The email could not be parsed: ${error instanceof Error ? error.message : 'malformed message'}.`), { status: 400 });
+  }
+  const sha256 = createHash('sha256').update(input.raw).digest('hex');
+  const messageKey = message.messageId || `sha256:${sha256}`;
+  const receivedBy = sanitizeNullable(input.receivedBy) || 'Inbound email';
+
+  const existing = await findInboundEmailByKey(messageKey);
+  if (existing) return existing;
+  if (!message.from) {
+    throw Object.assign(new Error('The email has no sender address.'), { status: 400 });
+  }
+
+  const match = await matchInboundEmailComplaint(message);
+  let complaint = match ? await getComplaintById(match.complaintId) : null;
+  const matchedBy: ComplaintInboundEmailMatch = complaint ? match!.matchedBy : 'created';
+
+  const sender = message.from.name ? `${message.from.name} <${message.from.email}>` : message.from.email;
+  const subject = message.subject || '(no subject)';
+  const preview = [
+    `From: ${sender}`,
+    message.to.length > 0 ? `To: ${message.to.map((address) => address.email).join(', ')}` : null,
+    message.sentAt ? `Date: ${message.sentAt}` : null,
+    `Subject: ${subject}`,
+    '',
+    message.text,
+  ].filter((line) => line !== null).join('\n');
+  const fileStem = subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'email';
+  const files = [
+    input.raw.length <= INBOUND_EMAIL_MAX_EVIDENCE_BYTES
+      ? { fileName: `${fileStem}.eml`, contentType: 'message/rfc822', content: input.raw, summary: `Email from ${sender}: ${subject}`, previewText: preview }
+      : { fileName: `${fileStem}.txt`, contentType: 'text/plain', content: Buffer.from(preview, 'utf8'), summary: `Email from ${sender}: ${subject} (text only; the original exceeded the evidence limit)`, previewText: preview },
+    ...message.attachments.map((attachment) => ({
+      fileName: attachment.fileName,
+      contentType: attachment.contentType,
+      content: attachment.content,
+      summary: `Attachment to email from ${sender}: ${subject}`,
+      previewText: undefined,
+    })),
+  ];
+  const slaClock = complaint ? null : await loadComplaintSlaClockContext();
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    // Claim the ledger row first: a concurrent ingest of the same message waits
+    // on the unique key and then finds it taken, and a failure anywhere below
+    // rolls back the drafted complaint and its evidence with it.
+    const claimed = await client.query<{ id: string }>(
+      `
+        INSERT INTO complaint_inbound_emails (message_key, message_id, matched_by, source, received_by)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (message_key) DO NOTHING
+        RETURNING id
+      `,
+      [messageKey, message.messageId, matchedBy, input.source, receivedBy]
+    );
+    if (!claimed.rows[0]) {
+      await client.query('ROLLBACK');
+      return (await findInboundEmailByKey(messageKey))!;
+    }
+
+    if (!complaint) {
+      complaint = await draftComplaintFromInboundEmailTx(client, message, `EML-${sha256.slice(0, 10).toUpperCase()}`, receivedBy, slaClock!);
+    }
+
+    const evidenceIds: string[] = [];
+    const skippedAttachments: Array<{ fileName: string; reason: string }> = [];
+    for (const file of files) {
+      if (file.content.length > INBOUND_EMAIL_MAX_EVIDENCE_BYTES) {
+        skippedAttachments.push({ fileName: file.fileName, reason: 'Exceeds the 5MB evidence limit.' });
+        continue;
+      }
+      try {
+        const evidence = await createComplaintEvidenceTx(client, {
+          complaintId: complaint.id,
+          fileName: file.fileName,
+          contentType: file.contentType,
+          fileBytes: file.content,
+          category: 'email',
+          summary: file.summary,
+          uploadedBy: receivedBy,
+          previewText: file.previewText,
+        });
+        evidenceIds.push(evidence.id);
+      } catch (error) {
+        const duplicate = (error as { duplicateEvidence?: ComplaintEvidence }).duplicateEvidence;
+        if (!duplicate) throw error;
+        evidenceIds.push(duplicate.id);
+      }
+    }
+
+    const updated = await client.query<Record<string, unknown>>(
+      `
+        UPDATE complaint_inbound_emails
+        SET
+          complaint_id = $2,
+          from_email = $3,
+          from_name = $4,
+          subject = $5,
+          sent_at = $6,
+          attachment_count = $7,
+          evidence_ids = $8::jsonb,
+          skipped_attachments = $9::jsonb
+        WHERE id = $1
+        RETURNING *
+      `,
+      [
+        claimed.rows[0].id,
+        complaint.id,
+        message.from.email,
+        message.from.name,
+        message.subject,
+        message.sentAt,
+        message.attachments.length,
+        JSON.stringify(evidenceIds),
+        JSON.stringify(skippedAttachments),
       ]
     );
+    const row = updated.rows[0];
 
-    const row = inserted.rows[0];
     await insertComplaintActivityTx(client, {
-      complaintId: String(row.id),
-      activityType: 'complaint_created',
-      description: 'Complaint created.',
-      performedBy: performedBy || payload.createdBy,
+      complaintId: complaint.id,
+      activityType: 'email_received',
+      description: matchedBy === 'created'
+        ? `Complaint drafted from an email from ${message.from.email}: ${subject}`
+        : `Email received from ${message.from.email}: ${subject}`,
+      newValue: matchedBy,
+      performedBy: receivedBy,
       metadata: {
-        complaintReference: payload.complaintReference,
-        firmName: payload.firmName,
+        inboundEmailId: String(row.id),
+        messageId: message.messageId,
+        source: input.source,
+        evidenceIds,
+        skippedAttachments: skippedAttachments.length,
       },
     });
-    await syncComplaintSlaActionsTx(client, mapComplaintRecord(row), performedBy || payload.updatedBy);
+    await client.query('COMMIT');
+
+    return {
+      email: mapComplaintInboundEmail({ ...row, complaint_reference: complaint.complaintReference }),
+      complaint,
+      duplicate: false,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function createComplaint(input: ComplaintMutationInput, performedBy?: string | null): Promise<ComplaintRecord> {
+  await ensureComplaintsWorkspaceSchema();
+  const payload = normalizeComplaintMutationInput(input, true, undefined, await loadComplaintSlaClockContext());
+  const client = await pool.connect();
 
+  try {
+    await client.query('BEGIN');
+    const complaint = await insertComplaintTx(client, input, payload, performedBy);
     await client.query('COMMIT');
-    return mapComplaintRecord(row);
+    return complaint;
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
@@ -1598,15 +2144,133 @@ export async function createComplaint(input: ComplaintMutationInput, performedBy
   }
 }
 
+async function insertComplaintTx(
+  client: PoolClient,
+  input: ComplaintMutationInput,
+  payload: ReturnType<typeof normalizeComplaintMutationInput>,
+  performedBy?: string | null
+): Promise<ComplaintRecord> {
+  const assignment = await resolveComplaintAssignmentTx(client, input, null, { allocate: true });
+  const inserted = await client.query<Record<string, unknown>>(
+    `
+      INSERT INTO complaints_records (
+        complaint_reference,
+        linked_fos_case_id,
+        complainant_name,
+        complainant_email,
+        complainant_phone,
+        complainant_address,
+        firm_name,
+        product,
+        complaint_type,
+        complaint_category,
+        description,
+        received_date,
+        acknowledged_date,
+        four_week_due_date,
+        eight_week_due_date,
+        final_response_date,
+        resolved_date,
+        root_cause,
+        remedial_action,
+        resolution,
+        compensation_amount,
+        fos_referred,
+        fos_outcome,
+        status,
+        priority,
+        assigned_to,
+        notes,
+        created_by,
+        updated_by,
+        sla_rule_set,
+        sla_progress_label,
+        sla_final_label,
+        sla_paused_since,
+        sla_paused_days,
+        assigned_user_id,
+        queue_id
+      ) VALUES (
+        $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,
+        $11,$12,$13,$14,$15,$16,$17,$18,$19,$20,
+        $21,$22,$23,$24,$25,$26,$27,$28,$29,$30,
+        $31,$32,$33,$34,$35,$36
+      )
+      RETURNING *
+    `,
+    [
+      payload.complaintReference,
+      payload.linkedFosCaseId,
+      payload.complainantName,
+      payload.complainantEmail,
+      payload.complainantPhone,
+      payload.complainantAddress,
+      payload.firmName,
+      payload.product,
+      payload.complaintType,
+      payload.complaintCategory,
+      payload.description,
+      payload.receivedDate,
+      payload.acknowledgedDate,
+      payload.fourWeekDueDate,
+      payload.eightWeekDueDate,
+      payload.finalResponseDate,
+      payload.resolvedDate,
+      payload.rootCause,
+      payload.remedialAction,
+      payload.resolution,
+      payload.compensationAmount,
+      payload.fosReferred,
+      payload.fosOutcome,
+      payload.status,
+      payload.priority,
+      assignment.assignedTo,
+      payload.notes,
+      performedBy || payload.createdBy,
+      performedBy || payload.updatedBy,
+      payload.slaRuleSet.key,
+      payload.slaRuleSet.progress.label,
+      payload.slaRuleSet.final.label,
+      payload.slaPausedSince,
+      payload.slaPausedDays,
+      assignment.assignedUserId,
+      assignment.queueId,
+    ]
+  );
+
+  const row = inserted.rows[0];
+  await insertComplaintActivityTx(client, {
+    complaintId: String(row.id),
+    activityType: 'complaint_created',
+    description: 'Complaint created.',
+    performedBy: performedBy || payload.createdBy,
+    metadata: {
+      complaintReference: payload.complaintReference,
+      firmName: payload.firmName,
+    },
+  });
+  await insertAssignmentActivitiesTx(client, String(row.id), null, assignment, performedBy || payload.createdBy);
+  await syncComplaintSlaActionsTx(client, mapComplaintRecord(row), payload.slaRuleSet, performedBy || payload.updatedBy);
+
+  return mapComplaintRecord(row);
+}
+
 export async function updateComplaint(id: string, input: ComplaintMutationInput, performedBy?: string | null): Promise<ComplaintRecord | null> {
   await ensureComplaintsWorkspaceSchema();
   const existing = await getComplaintById(id);
   if (!existing) return null;
-  const payload = normalizeComplaintMutationInput({ ...existing, ...input }, false, existing);
+  // Stored due dates are recomputed unless the update sets them explicitly.
+  const payload = normalizeComplaintMutationInput(
+    { ...existing, ...input, fourWeekDueDate: input.fourWeekDueDate ?? null, eightWeekDueDate: input.eightWeekDueDate ?? null },
+    false,
+    existing,
+    await loadComplaintSlaClockContext(id)
+  );
   const client = await pool.connect();
 
   try {
     await client.query('BEGIN');
+    const assignment = await resolveComplaintAssignmentTx(client, input, existing, { allocate: false });
     const updated = await client.query<Record<string, unknown>>(
       `
         UPDATE complaints_records
@@ -1638,7 +2302,14 @@ export async function updateComplaint(id: string, input: ComplaintMutationInput,
           priority = $26,
           assigned_to = $27,
           notes = $28,
-          updated_by = $29
+          updated_by = $29,
+          sla_rule_set = $30,
+          sla_progress_label = $31,
+          sla_final_label = $32,
+          sla_paused_since = $33,
+          sla_paused_days = $34,
+          assigned_user_id = $35,
+          queue_id = $36
         WHERE id = $1
         RETURNING *
       `,
@@ -1669,14 +2340,22 @@ export async function updateComplaint(id: string, input: ComplaintMutationInput,
         payload.fosOutcome,
         payload.status,
         payload.priority,
-        payload.assignedTo,
+        assignment.assignedTo,
         payload.notes,
         performedBy || payload.updatedBy,
+        payload.slaRuleSet.key,
+        payload.slaRuleSet.progress.label,
+        payload.slaRuleSet.final.label,
+        payload.slaPausedSince,
+        payload.slaPausedDays,
+        assignment.assignedUserId,
+        assignment.queueId,
       ]
     );
 
     await insertChangeActivities(client, existing, payload, performedBy || payload.updatedBy);
-    await syncComplaintSlaActionsTx(client, mapComplaintRecord(updated.rows[0]), performedBy || payload.updatedBy);
+    await insertAssignmentActivitiesTx(client, id, existing, assignment, performedBy || payload.updatedBy);
+    await syncComplaintSlaActionsTx(client, mapComplaintRecord(updated.rows[0]), payload.slaRuleSet, performedBy || payload.updatedBy);
     await client.query('COMMIT');
     return mapComplaintRecord(updated.rows[0]);
   } catch (error) {
@@ -1696,6 +2375,335 @@ export async function deleteComplaint(id: string): Promise<boolean> {
   return result.length > 0;
 }
 
+export async function listComplaintSlaPauses(complaintId: string): Promise<ComplaintSlaPause[]> {
+  await ensureComplaintsWorkspaceSchema();
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT *
+      FROM complaint_sla_pauses
+      WHERE complaint_id = $1
+      ORDER BY paused_on DESC, created_at DESC
+    `,
+    [complaintId]
+  );
+
+  return rows.map(mapComplaintSlaPause);
+}
+
+/**
+ * Stops the complaint clock, e.g. while waiting for information from the
+ * customer. Days from `pausedOn` until the clock restarts do not count
+ * towards the progress and final deadlines.
+ */
+export async function pauseComplaintSlaClock(input: {
+  complaintId: string;
+  reason: string;
+  pausedOn?: string | null;
+  performedBy?: string | null;
+}): Promise<{ complaint: ComplaintRecord; pause: ComplaintSlaPause }> {
+  await ensureComplaintsWorkspaceSchema();
+  const complaint = await getComplaintById(input.complaintId);
+  if (!complaint) throw Object.assign(new Error('Complaint not found.'), { status: 404 });
+  if (complaint.slaSummary?.state === 'closed') {
+    throw Object.assign(new Error('A closed complaint has no running clock to pause.'), { status: 409 });
+  }
+  if (complaint.slaSummary?.clockPausedSince) {
+    throw Object.assign(new Error('The complaint clock is already paused.'), { status: 409 });
+  }
+  const reason = sanitizeText(input.reason);
+  if (!reason) throw Object.assign(new Error('A reason is required to pause the clock.'), { status: 400 });
+
+  const today = new Date().toISOString().slice(0, 10);
+  const pausedOn = input.pausedOn ? toDateOnly(input.pausedOn) : today;
+  const latestResume = (await listComplaintSlaPauses(complaint.id)).map((pause) => pause.resumedOn || '').sort().pop() || '';
+  if (!pausedOn || pausedOn < complaint.receivedDate || pausedOn > today || pausedOn < latestResume) {
+    throw Object.assign(
+      new Error('The pause date must be between the received date (or the last restart) and today.'),
+      { status: 400 }
+    );
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const inserted = await client.query<Record<string, unknown>>(
+      `
+        INSERT INTO complaint_sla_pauses (complaint_id, paused_on, reason, paused_by)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *
+      `,
+      [complaint.id, pausedOn, reason, sanitizeNullable(input.performedBy)]
+    );
+    const pause = mapComplaintSlaPause(inserted.rows[0]);
+    const updated = await applyComplaintSlaClockTx(client, complaint.id, input.performedBy);
+    await insertComplaintActivityTx(client, {
+      complaintId: complaint.id,
+      activityType: 'sla_clock_paused',
+      description: `Complaint clock paused from ${pausedOn}: ${reason}`,
+      newValue: pausedOn,
+      performedBy: input.performedBy,
+      metadata: { pauseId: pause.id, pausedOn, reason },
+    });
+    await client.query('COMMIT');
+    return { complaint: updated, pause };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if ((error as { code?: string }).code === '23505') {
+      throw Object.assign(new Error('The complaint clock is already paused.'), { status: 409 });
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/** Restarts a paused clock; both due dates move out by the paused period. */
+export async function resumeComplaintSlaClock(input: {
+  complaintId: string;
+  resumedOn?: string | null;
+  performedBy?: string | null;
+}): Promise<{ complaint: ComplaintRecord; pause: ComplaintSlaPause }> {
+  await ensureComplaintsWorkspaceSchema();
+  const complaint = await getComplaintById(input.complaintId);
+  if (!complaint) throw Object.assign(new Error('Complaint not found.'), { status: 404 });
+  const open = (await listComplaintSlaPauses(complaint.id)).find((pause) => !pause.resumedOn);
+  if (!open) throw Object.assign(new Error('The complaint clock is not paused.'), { status: 409 });
+
+  const today = new Date().toISOString().slice(0, 10);
+  const resumedOn = input.resumedOn ? toDateOnly(input.resumedOn) : today;
+  if (!resumedOn || resumedOn < open.pausedOn || resumedOn > today) {
+    throw Object.assign(new Error('The restart date must be between the pause date and today.'), { status: 400 });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const resumed = await client.query<Record<string, unknown>>(
+      `
+        UPDATE complaint_sla_pauses
+        SET resumed_on = $2, resumed_by = $3
+        WHERE id = $1 AND resumed_on IS NULL
+        RETURNING *
+      `,
+      [open.id, resumedOn, sanitizeNullable(input.performedBy)]
+    );
+    if (!resumed.rows[0]) throw Object.assign(new Error('The complaint clock is not paused.'), { status: 409 });
+    const pause = mapComplaintSlaPause(resumed.rows[0]);
+    const updated = await applyComplaintSlaClockTx(client, complaint.id, input.performedBy);
+    const pausedDays = Math.round((Date.parse(resumedOn) - Date.parse(open.pausedOn)) / (1000 * 60 * 60 * 24));
+    await insertComplaintActivityTx(client, {
+      complaintId: complaint.id,
+      activityType: 'sla_clock_resumed',
+      description: `Complaint clock restarted after ${pausedDays} day${pausedDays === 1 ? '' : 's'}. ${updated.slaSummary?.finalLabel || 'Final response'} now due ${updated.eightWeekDueDate}.`,
+      oldValue: complaint.eightWeekDueDate,
+      newValue: updated.eightWeekDueDate,
+      performedBy: input.performedBy,
+      metadata: {
+        pauseId: pause.id,
+        pausedOn: open.pausedOn,
+        resumedOn,
+        pausedDays,
+        fourWeekDueDate: updated.fourWeekDueDate,
+        eightWeekDueDate: updated.eightWeekDueDate,
+      },
+    });
+    await client.query('COMMIT');
+    return { complaint: updated, pause };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/** Queue rows with their members and open workload; callers append the WHERE and ORDER BY. */
+const COMPLAINT_QUEUE_SELECT_SQL = `
+  SELECT
+    q.*,
+    COALESCE(
+      (SELECT ARRAY_AGG(m.user_id::text ORDER BY m.created_at) FROM complaint_queue_members m WHERE m.queue_id = q.id),
+      ARRAY[]::text[]
+    ) AS member_user_ids,
+    (
+      SELECT COUNT(*)::INT
+      FROM complaints_records c
+      WHERE c.queue_id = q.id
+        AND c.status NOT IN ('resolved', 'closed')
+    ) AS open_complaints,
+    (
+      SELECT COUNT(*)::INT
+      FROM complaints_records c
+      WHERE c.queue_id = q.id
+        AND c.status NOT IN ('resolved', 'closed')
+        AND c.assigned_user_id IS NULL
+    ) AS unassigned_complaints
+  FROM complaint_queues q
+`;
+
+/** Every user with their allocation capacity and queue memberships. */
+const COMPLAINT_HANDLER_SELECT_SQL = `
+  SELECT
+    u.id::text AS user_id,
+    u.full_name,
+    u.email,
+    u.role,
+    u.is_active,
+    COALESCE(h.max_open_complaints, ${DEFAULT_HANDLER_CAPACITY})::INT AS capacity,
+    COALESCE(h.accepting_allocations, TRUE) AS accepting_allocations,
+    COALESCE(
+      (SELECT ARRAY_AGG(m.queue_id::text ORDER BY m.created_at) FROM complaint_queue_members m WHERE m.user_id = u.id),
+      ARRAY[]::text[]
+    ) AS queue_ids
+  FROM app_users u
+  LEFT JOIN complaint_handler_capacity h ON h.user_id = u.id
+`;
+
+export async function listComplaintQueues(): Promise<ComplaintQueue[]> {
+  await ensureComplaintsWorkspaceSchema();
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `${COMPLAINT_QUEUE_SELECT_SQL} ORDER BY q.is_default DESC, LOWER(q.name) ASC`
+  );
+  return rows.map(mapComplaintQueue);
+}
+
+export async function createComplaintQueue(input: ComplaintQueueInput, performedBy?: string | null): Promise<ComplaintQueue> {
+  await ensureComplaintsWorkspaceSchema();
+  const queueId = await saveComplaintQueue(null, normalizeComplaintQueueInput(input), performedBy);
+  return (await getComplaintQueueById(queueId))!;
+}
+
+export async function updateComplaintQueue(id: string, input: ComplaintQueueInput): Promise<ComplaintQueue | null> {
+  await ensureComplaintsWorkspaceSchema();
+  const existing = await getComplaintQueueById(id);
+  if (!existing) return null;
+  await saveComplaintQueue(existing.id, normalizeComplaintQueueInput(input, existing));
+  return getComplaintQueueById(existing.id);
+}
+
+/** Complaints in a deleted queue stay with their owners and leave the queue. */
+export async function deleteComplaintQueue(id: string): Promise<boolean> {
+  await ensureComplaintsWorkspaceSchema();
+  if (!UUID_PATTERN.test(id)) return false;
+  const result = await DatabaseClient.query<{ id: string }>(
+    `DELETE FROM complaint_queues WHERE id = $1::uuid RETURNING id`,
+    [id]
+  );
+  return result.length > 0;
+}
+
+/** Active users who can own complaints, with their allocation capacity and queues. */
+export async function listComplaintHandlers(): Promise<ComplaintHandler[]> {
+  await ensureComplaintsWorkspaceSchema();
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      ${COMPLAINT_HANDLER_SELECT_SQL}
+      WHERE u.is_active AND u.role = ANY($1::text[])
+      ORDER BY LOWER(u.full_name) ASC
+    `,
+    [HANDLER_ROLES]
+  );
+  return rows.map(mapComplaintHandler);
+}
+
+export async function updateComplaintHandlerCapacity(
+  userId: string,
+  input: ComplaintHandlerCapacityInput,
+  performedBy?: string | null
+): Promise<ComplaintHandler | null> {
+  await ensureComplaintsWorkspaceSchema();
+  const handler = (await listComplaintHandlers()).find((candidate) => candidate.userId === userId);
+  if (!handler) return null;
+
+  const capacity = input.capacity === undefined ? handler.capacity : Number(input.capacity);
+  if (!Number.isInteger(capacity) || capacity < 0 || capacity > MAX_HANDLER_CAPACITY) {
+    throw Object.assign(new Error(`Capacity must be a whole number from 0 to ${MAX_HANDLER_CAPACITY}.`), { status: 400 });
+  }
+  const acceptingAllocations = input.acceptingAllocations === undefined ? handler.acceptingAllocations : toBoolean(input.acceptingAllocations);
+
+  await DatabaseClient.query(
+    `
+      INSERT INTO complaint_handler_capacity (user_id, max_open_complaints, accepting_allocations, updated_by)
+      VALUES ($1::uuid, $2, $3, $4)
+      ON CONFLICT (user_id) DO UPDATE SET
+        max_open_complaints = EXCLUDED.max_open_complaints,
+        accepting_allocations = EXCLUDED.accepting_allocations,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = NOW()
+    `,
+    [handler.userId, capacity, acceptingAllocations, sanitizeNullable(performedBy)]
+  );
+  return { ...handler, capacity, acceptingAllocations };
+}
+
+/**
+ * Open, due-soon and overdue complaints per handler, per queue and for
+ * complaints without an owner. Inactive users still holding open complaints
+ * are listed so their work can be reassigned.
+ */
+export async function getComplaintWorkload(): Promise<ComplaintWorkload> {
+  await ensureComplaintsWorkspaceSchema();
+  const [handlerRows, queues, unassignedRow] = await Promise.all([
+    DatabaseClient.query<Record<string, unknown>>(
+      `
+        SELECT handlers.*, load.*
+        FROM (${COMPLAINT_HANDLER_SELECT_SQL}) handlers
+        CROSS JOIN LATERAL (
+          SELECT
+            COUNT(*) FILTER (WHERE c.status NOT IN ('resolved', 'closed'))::INT AS open_complaints,
+            COUNT(*) FILTER (
+              WHERE c.status NOT IN ('resolved', 'closed')
+                AND c.sla_paused_since IS NULL
+                AND c.eight_week_due_date BETWEEN CURRENT_DATE AND CURRENT_DATE + 7
+            )::INT AS due_soon_complaints,
+            COUNT(*) FILTER (
+              WHERE c.status NOT IN ('resolved', 'closed')
+                AND c.sla_paused_since IS NULL
+                AND c.eight_week_due_date < CURRENT_DATE
+            )::INT AS overdue_complaints,
+            COUNT(*) FILTER (WHERE c.status NOT IN ('resolved', 'closed') AND c.priority = 'urgent')::INT AS urgent_complaints
+          FROM complaints_records c
+          WHERE c.assigned_user_id = handlers.user_id::uuid
+        ) load
+        WHERE (handlers.is_active AND handlers.role = ANY($1::text[])) OR load.open_complaints > 0
+        ORDER BY LOWER(handlers.full_name) ASC
+      `,
+      [HANDLER_ROLES]
+    ),
+    listComplaintQueues(),
+    DatabaseClient.queryOne<Record<string, unknown>>(
+      `
+        SELECT
+          COUNT(*)::INT AS open_complaints,
+          COUNT(*) FILTER (
+            WHERE sla_paused_since IS NULL
+              AND eight_week_due_date BETWEEN CURRENT_DATE AND CURRENT_DATE + 7
+          )::INT AS due_soon_complaints,
+          COUNT(*) FILTER (WHERE sla_paused_since IS NULL AND eight_week_due_date < CURRENT_DATE)::INT AS overdue_complaints
+        FROM complaints_records
+        WHERE assigned_user_id IS NULL
+          AND status NOT IN ('resolved', 'closed')
+      `
+    ),
+  ]);
+
+  return {
+    handlers: handlerRows.map((row): ComplaintHandlerWorkload => ({
+      ...mapComplaintHandler(row),
+      openComplaints: toInt(row.open_complaints),
+      dueSoonComplaints: toInt(row.due_soon_complaints),
+      overdueComplaints: toInt(row.overdue_complaints),
+      urgentComplaints: toInt(row.urgent_complaints),
+    })),
+    queues,
+    unassigned: {
+      openComplaints: toInt(unassignedRow?.open_complaints),
+      dueSoonComplaints: toInt(unassignedRow?.due_soon_complaints),
+      overdueComplaints: toInt(unassignedRow?.overdue_complaints),
+    },
+  };
+}
+
 export async function createComplaintActivity(input: {
   complaintId: string;
   activityType: ComplaintActivityType;
@@ -1759,7 +2767,7 @@ export async function commitComplaintImport(params: {
   rows: ComplaintImportPreviewRow[];
   warnings: string[];
   createdBy?: string | null;
-}): Promise<{ importRunId: string; importedCount: number; overwrittenCount: number; skippedCount: number }> {
+}): Promise<{ importRunId: string; importedCount: number; overwrittenCount: number; skippedCount: number; warnings: string[] }> {
   await ensureComplaintsWorkspaceSchema();
   const client = await pool.connect();
   const validRows = params.rows.filter((row) => row.action === 'new' || row.action === 'overwrite');
@@ -1768,6 +2776,9 @@ export async function commitComplaintImport(params: {
   const overwrittenCount = validRows.filter((row) => row.action === 'overwrite').length;
   const skippedCount = skippedRows.length;
 
+  const clock = await loadComplaintSlaClockContext();
+  const assignmentWarnings: string[] = [];
+
   try {
     await client.query('BEGIN');
     const runResult = await client.query<{ id: string }>(
@@ -1823,7 +2834,38 @@ export async function commitComplaintImport(params: {
         continue;
       }
 
-      const normalized = normalizeComplaintMutationInput(row.normalizedFields as ComplaintMutationInput, true);
+      // An overwritten complaint keeps its clock pauses.
+      const pauses = row.action === 'overwrite'
+        ? (await client.query<Record<string, unknown>>(
+            `
+              SELECT p.paused_on, p.resumed_on
+              FROM complaint_sla_pauses p
+              JOIN complaints_records c ON c.id = p.complaint_id
+              WHERE LOWER(c.complaint_reference) = LOWER($1)
+            `,
+            [sanitizeText(row.complaintReference)]
+          )).rows.map((pause) => ({ pausedOn: toDateOnly(pause.paused_on) || '', resumedOn: toDateOnly(pause.resumed_on) }))
+        : [];
+      const fields = row.normalizedFields as ComplaintMutationInput;
+      const normalized = normalizeComplaintMutationInput(fields, true, undefined, { ...clock, pauses });
+      const existingRow = row.action === 'overwrite'
+        ? (await client.query<Record<string, unknown>>(
+            `SELECT * FROM complaints_records WHERE LOWER(complaint_reference) = LOWER($1)`,
+            [normalized.complaintReference]
+          )).rows[0]
+        : undefined;
+      const existing = existingRow ? mapComplaintRecord(existingRow) : null;
+      // Blank owner and queue cells keep an overwritten complaint's owner and queue; new complaints are allocated.
+      const assignment = await resolveComplaintAssignmentTx(
+        client,
+        {
+          ...(fields.assignedTo ? { assignedTo: fields.assignedTo } : {}),
+          ...(fields.queue ? { queue: fields.queue } : {}),
+        },
+        existing,
+        { allocate: !existing, lenient: true }
+      );
+      assignmentWarnings.push(...assignment.issues.map((issue) => `Row ${row.rowNumber}: ${issue} It was imported without it.`));
       const result = await client.query<Record<string, unknown>>(
         `
           INSERT INTO complaints_records (
@@ -1855,11 +2897,19 @@ export async function commitComplaintImport(params: {
             assigned_to,
             notes,
             created_by,
-            updated_by
+            updated_by,
+            sla_rule_set,
+            sla_progress_label,
+            sla_final_label,
+            sla_paused_since,
+            sla_paused_days,
+            assigned_user_id,
+            queue_id
           ) VALUES (
             $1,$2,$3,$4,$5,$6,$7,$8,$9,$10,
             $11,$12,$13,$14,$15,$16,$17,$18,$19,$20,
-            $21,$22,$23,$24,$25,$26,$27,$28,$29
+            $21,$22,$23,$24,$25,$26,$27,$28,$29,$30,
+            $31,$32,$33,$34,$35,$36
           )
           ON CONFLICT (complaint_reference)
           DO UPDATE SET
@@ -1889,7 +2939,14 @@ export async function commitComplaintImport(params: {
             priority = EXCLUDED.priority,
             assigned_to = EXCLUDED.assigned_to,
             notes = EXCLUDED.notes,
-            updated_by = EXCLUDED.updated_by
+            updated_by = EXCLUDED.updated_by,
+            sla_rule_set = EXCLUDED.sla_rule_set,
+            sla_progress_label = EXCLUDED.sla_progress_label,
+            sla_final_label = EXCLUDED.sla_final_label,
+            sla_paused_since = EXCLUDED.sla_paused_since,
+            sla_paused_days = EXCLUDED.sla_paused_days,
+            assigned_user_id = EXCLUDED.assigned_user_id,
+            queue_id = EXCLUDED.queue_id
           RETURNING *
         `,
         [
@@ -1918,10 +2975,17 @@ export async function commitComplaintImport(params: {
           normalized.fosOutcome,
           normalized.status,
           normalized.priority,
-          normalized.assignedTo,
+          assignment.assignedTo,
           normalized.notes,
           sanitizeNullable(params.createdBy),
           sanitizeNullable(params.createdBy),
+          normalized.slaRuleSet.key,
+          normalized.slaRuleSet.progress.label,
+          normalized.slaRuleSet.final.label,
+          normalized.slaPausedSince,
+          normalized.slaPausedDays,
+          assignment.assignedUserId,
+          assignment.queueId,
         ]
       );
 
@@ -1933,10 +2997,18 @@ export async function commitComplaintImport(params: {
         performedBy: params.createdBy,
         metadata: { importRunId, source: 'bulk_upload', fileName: params.fileName },
       });
+      await insertAssignmentActivitiesTx(client, complaintId, existing, assignment, params.createdBy);
+    }
+
+    if (assignmentWarnings.length > 0) {
+      await client.query(
+        `UPDATE complaint_import_runs SET warnings = $2::jsonb WHERE id = $1`,
+        [importRunId, JSON.stringify([...(params.warnings || []), ...assignmentWarnings])]
+      );
     }
 
     await client.query('COMMIT');
-    return { importRunId, importedCount, overwrittenCount, skippedCount };
+    return { importRunId, importedCount, overwrittenCount, skippedCount, warnings: assignmentWarnings };
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
@@ -2140,6 +3212,7 @@ export async function listComplaintAppendixArtifacts(dateFrom?: string | null, d
       FROM complaints_records c
       ${whereSql ? `${whereSql} AND` : 'WHERE'}
         status NOT IN ('resolved', 'closed')
+        AND sla_paused_since IS NULL
         AND eight_week_due_date IS NOT NULL
         AND eight_week_due_date < CURRENT_DATE
       ORDER BY eight_week_due_date ASC
@@ -2269,6 +3342,352 @@ async function insertComplaintLetterVersionTx(
   );
 }
 
+async function findInboundEmailByKey(messageKey: string): Promise<ComplaintInboundEmailResult | null> {
+  const row = await DatabaseClient.queryOne<Record<string, unknown>>(
+    `
+      SELECT e.*, c.complaint_reference
+      FROM complaint_inbound_emails e
+      LEFT JOIN complaints_records c ON c.id = e.complaint_id
+      WHERE e.message_key = $1
+    `,
+    [messageKey]
+  );
+  if (!row) return null;
+  const email = mapComplaintInboundEmail(row);
+  return {
+    email,
+    complaint: email.complaintId ? await getComplaintById(email.complaintId) : null,
+    duplicate: true,
+  };
+}
+
+async function matchInboundEmailComplaint(
+  message: ParsedInboundEmail
+): Promise<{ complaintId: string; matchedBy: ComplaintInboundEmailMatch } | null> {
+  if (message.references.length > 0) {
+    // Replies thread on the Message-ID of a letter we sent or of an email already filed.
+    const replyRow = await DatabaseClient.queryOne<{ complaint_id: string }>(
+      `
+        SELECT complaint_id
+        FROM (
+          SELECT complaint_id, LOWER(message_id) AS message_id, created_at FROM complaint_letter_outbox WHERE message_id IS NOT NULL
+          UNION ALL
+          SELECT complaint_id, LOWER(message_id) AS message_id, created_at FROM complaint_inbound_emails WHERE message_id IS NOT NULL AND complaint_id IS NOT NULL
+        ) threads
+        WHERE message_id = ANY($1::text[])
+        ORDER BY created_at DESC
+        LIMIT 1
+      `,
+      [message.references]
+    );
+    if (replyRow) return { complaintId: String(replyRow.complaint_id), matchedBy: 'reply' };
+  }
+
+  const candidates = extractComplaintReferenceCandidates(message.subject);
+  if (candidates.length === 0) return null;
+  const referenceRow = await DatabaseClient.queryOne<{ id: string }>(
+    `
+      SELECT id
+      FROM complaints_records
+      WHERE UPPER(complaint_reference) = ANY($1::text[])
+      ORDER BY LENGTH(complaint_reference) DESC, created_at DESC
+      LIMIT 1
+    `,
+    [candidates]
+  );
+  return referenceRow ? { complaintId: String(referenceRow.id), matchedBy: 'reference' } : null;
+}
+
+/** Drafts a complaint from an unmatched email. The reference is derived from the message so a retried ingest reuses it. */
+async function draftComplaintFromInboundEmailTx(
+  client: PoolClient,
+  message: ParsedInboundEmail,
+  reference: string,
+  receivedBy: string,
+  slaClock: ComplaintSlaClockContext
+): Promise<ComplaintRecord> {
+  // Earlier ingests could leave a draft without a ledger row; reuse it rather than fail on the reference.
+  const existing = await client.query<Record<string, unknown>>(
+    `SELECT * FROM complaints_records WHERE complaint_reference = $1`,
+    [reference]
+  );
+  if (existing.rows[0]) return mapComplaintRecord(existing.rows[0]);
+
+  const input: ComplaintMutationInput = {
+    complaintReference: reference,
+    complainantName: message.from?.name || message.from?.email || 'Unknown complainant',
+    complainantEmail: message.from?.email || null,
+    receivedDate: (message.sentAt || new Date().toISOString()).slice(0, 10),
+    description: [message.subject, message.text].filter(Boolean).join('\n\n').slice(0, 4000) || null,
+    status: 'open',
+    notes: 'Drafted from an inbound email. Confirm the firm, product and complaint type.',
+  };
+  return insertComplaintTx(client, input, normalizeComplaintMutationInput(input, true, undefined, slaClock), receivedBy);
+}
+
+async function queueComplaintLetterDeliveryTx(
+  client: PoolClient,
+  input: {
+    letter: Record<string, unknown>;
+    actor: { name: string; role: ComplaintWorkspaceActorRole };
+    settings: ComplaintWorkspaceSettings;
+  }
+): Promise<ComplaintLetter> {
+  const recipientEmail = sanitizeNullable(input.letter.recipient_email);
+  if (!recipientEmail) {
+    throw Object.assign(new Error('Add a recipient email address before sending this letter.'), { status: 400 });
+  }
+  const transport = resolveLetterDeliveryTransport();
+  if (!transport) {
+    throw Object.assign(new Error('Letter delivery is not configured. Set SMTP_HOST or LETTER_DELIVERY_TRANSPORT.'), { status: 503 });
+  }
+  if (!resolveLetterSender(input.settings)) {
+    throw Object.assign(new Error('Set a complaints email address in workspace settings (or LETTER_FROM_EMAIL) before sending letters.'), { status: 503 });
+  }
+
+  const letterId = String(input.letter.id || '');
+  const complaintId = String(input.letter.complaint_id || '');
+  const versionNumber = Math.max(1, toInt(input.letter.version_number) || 1);
+  const deliveryResult = await client.query<Record<string, unknown>>(
+    `
+      INSERT INTO complaint_letter_outbox (
+        letter_id,
+        complaint_id,
+        version_number,
+        transport,
+        recipient_email,
+        recipient_name,
+        subject,
+        requested_by,
+        requested_by_role
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING id
+    `,
+    [
+      letterId,
+      complaintId,
+      versionNumber,
+      transport.kind,
+      recipientEmail,
+      sanitizeNullable(input.letter.recipient_name),
+      String(input.letter.subject || 'Complaint correspondence'),
+      input.actor.name,
+      input.actor.role,
+    ]
+  );
+  const updatedResult = await client.query<Record<string, unknown>>(
+    `
+      UPDATE complaint_letters
+      SET delivery_status = 'queued', delivery_error = NULL, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `,
+    [letterId]
+  );
+
+  await insertComplaintActivityTx(client, {
+    complaintId,
+    activityType: 'letter_delivery_queued',
+    description: `${labelForLetterTemplate(normalizeLetterTemplateKey(input.letter.template_key))} queued for delivery to ${recipientEmail}.`,
+    oldValue: sanitizeNullable(input.letter.delivery_status),
+    newValue: 'queued',
+    performedBy: input.actor.name,
+    metadata: {
+      letterId,
+      deliveryId: String(deliveryResult.rows[0]?.id || ''),
+      versionNumber,
+      transport: transport.kind,
+      actorRole: input.actor.role,
+    },
+  });
+
+  return mapComplaintLetter(updatedResult.rows[0]);
+}
+
+/** Sends one claimed outbox entry and records the outcome. Never throws for transport failures. */
+async function deliverComplaintLetterOutboxEntry(
+  entry: Record<string, unknown>,
+  transport: LetterDeliveryTransport
+): Promise<'delivered' | 'retrying' | 'failed'> {
+  let messageId: string;
+  try {
+    const context = await getComplaintLetterContext(String(entry.letter_id || ''));
+    if (!context) {
+      throw createDeliveryError('Letter no longer exists.', true);
+    }
+    if (context.letter.status !== 'approved' || context.letter.versionNumber !== toInt(entry.version_number)) {
+      throw createDeliveryError('Letter changed after it was queued; approve and send it again.', true);
+    }
+    const sender = resolveLetterSender(context.settings);
+    if (!sender) {
+      throw createDeliveryError('No sender address is configured.', true);
+    }
+
+    const pdfBytes = await buildComplaintLetterPdf(context);
+    const sent = await transport.send({
+      id: String(entry.id || ''),
+      from: sender,
+      to: { email: String(entry.recipient_email || ''), name: sanitizeNullable(entry.recipient_name) },
+      subject: String(entry.subject || context.letter.subject),
+      text: buildLetterDeliveryText(context),
+      attachments: [{
+        fileName: `${context.complaint.complaintReference || 'complaint'}-${context.letter.templateKey}.pdf`.replace(/[^a-zA-Z0-9._-]+/g, '-'),
+        contentType: 'application/pdf',
+        content: pdfBytes,
+      }],
+    });
+    messageId = sent.messageId;
+  } catch (error) {
+    return failComplaintLetterDeliveryAttempt(entry, error);
+  }
+
+  await completeComplaintLetterDelivery(entry, transport, messageId);
+  return 'delivered';
+}
+
+async function completeComplaintLetterDelivery(entry: Record<string, unknown>, transport: LetterDeliveryTransport, messageId: string) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `
+        UPDATE complaint_letter_outbox
+        SET status = 'delivered', transport = $2, message_id = $3, last_error = NULL, delivered_at = NOW(), updated_at = NOW()
+        WHERE id = $1
+      `,
+      [String(entry.id || ''), transport.kind, messageId]
+    );
+    const updatedResult = await client.query<Record<string, unknown>>(
+      `
+        UPDATE complaint_letters
+        SET
+          status = 'sent',
+          sent_at = NOW(),
+          delivery_status = 'delivered',
+          delivery_error = NULL,
+          version_number = version_number + 1,
+          updated_at = NOW()
+        WHERE id = $1
+        RETURNING *
+      `,
+      [String(entry.letter_id || '')]
+    );
+    const updated = updatedResult.rows[0];
+    if (updated) {
+      const requestedBy = sanitizeNullable(entry.requested_by);
+      const requestedByRole = normalizeActorRole(entry.requested_by_role);
+      await insertComplaintLetterVersionTx(client, {
+        letter: updated,
+        complaintId: String(updated.complaint_id || ''),
+        snapshotReason: deriveLetterSnapshotReason({ previousStatus: 'approved', nextStatus: 'sent', contentChanged: false }),
+        snapshotBy: requestedBy,
+        snapshotByRole: requestedByRole,
+      });
+      await insertComplaintActivityTx(client, {
+        complaintId: String(updated.complaint_id || ''),
+        activityType: 'letter_sent',
+        description: `${labelForLetterTemplate(normalizeLetterTemplateKey(updated.template_key))} sent to ${String(entry.recipient_email || '')}.`,
+        oldValue: 'approved',
+        newValue: 'sent',
+        performedBy: requestedBy,
+        metadata: {
+          letterId: String(updated.id || ''),
+          deliveryId: String(entry.id || ''),
+          subject: String(updated.subject || ''),
+          messageId,
+          transport: transport.kind,
+          actorRole: requestedByRole,
+        },
+      });
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function failComplaintLetterDeliveryAttempt(entry: Record<string, unknown>, error: unknown): Promise<'retrying' | 'failed'> {
+  const message = (error instanceof Error ? error.message : String(error)).slice(0, 1000) || 'Delivery failed.';
+  const attempts = toInt(entry.attempts);
+  const deliveryId = String(entry.id || '');
+  const letterId = String(entry.letter_id || '');
+
+  if (!isPermanentDeliveryError(error) && attempts < toInt(entry.max_attempts)) {
+    const delayMs = LETTER_OUTBOX_RETRY_BASE_MS * 4 ** Math.max(0, attempts - 1);
+    await DatabaseClient.query(
+      `
+        UPDATE complaint_letter_outbox
+        SET status = 'queued', last_error = $2, next_attempt_at = NOW() + ($3::INT * INTERVAL '1 millisecond'), updated_at = NOW()
+        WHERE id = $1
+      `,
+      [deliveryId, message, delayMs]
+    );
+    await DatabaseClient.query(
+      `UPDATE complaint_letters SET delivery_error = $2, updated_at = NOW() WHERE id = $1`,
+      [letterId, message]
+    );
+    return 'retrying';
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `UPDATE complaint_letter_outbox SET status = 'failed', last_error = $2, updated_at = NOW() WHERE id = $1`,
+      [deliveryId, message]
+    );
+    const letterResult = await client.query<Record<string, unknown>>(
+      `
+        UPDATE complaint_letters
+        SET delivery_status = 'failed', delivery_error = $2, updated_at = NOW()
+        WHERE id = $1
+        RETURNING *
+      `,
+      [letterId, message]
+    );
+    const letter = letterResult.rows[0];
+    if (letter) {
+      await insertComplaintActivityTx(client, {
+        complaintId: String(letter.complaint_id || ''),
+        activityType: 'letter_delivery_failed',
+        description: `${labelForLetterTemplate(normalizeLetterTemplateKey(letter.template_key))} could not be delivered to ${String(entry.recipient_email || '')}: ${message}`,
+        oldValue: 'queued',
+        newValue: 'failed',
+        performedBy: sanitizeNullable(entry.requested_by),
+        metadata: {
+          letterId,
+          deliveryId,
+          attempts,
+          error: message,
+        },
+      });
+    }
+    await client.query('COMMIT');
+  } catch (txError) {
+    await client.query('ROLLBACK');
+    throw txError;
+  } finally {
+    client.release();
+  }
+  return 'failed';
+}
+
+function buildLetterDeliveryText(context: { complaint: ComplaintRecord; letter: ComplaintLetter; settings: ComplaintWorkspaceSettings }): string {
+  const greeting = context.letter.recipientName ? `Dear ${context.letter.recipientName},` : 'Dear customer,';
+  return [
+    greeting,
+    '',
+    `Please find attached our letter about your complaint (reference ${context.complaint.complaintReference}).`,
+    context.settings.complaintsEmail ? `If you have any questions, reply to this email or contact us at ${context.settings.complaintsEmail}.` : 'If you have any questions, reply to this email.',
+    '',
+    context.settings.complaintsTeamName,
+    context.settings.organizationName,
+  ].join('\n');
+}
+
 function deriveLetterSnapshotReason(input: {
   previousStatus: ComplaintLetterStatus;
   nextStatus: ComplaintLetterStatus;
@@ -2314,6 +3733,10 @@ export async function getComplaintOperationsSummary(dateFrom?: string | null, da
   openActions: number;
   overdueActions: number;
   topRootCauses: Array<{ label: string; count: number }>;
+  operationalRisk: {
+    levels: Record<ComplaintOperationalRiskLevel, number>;
+    factors: Array<{ key: ComplaintOperationalRiskFactorKey; count: number }>;
+  };
 }> {
   await ensureComplaintsWorkspaceSchema();
   const { whereSql, params } = buildComplaintDateRangeClause(dateFrom, dateTo, 'complaints_records', 1);
@@ -2324,7 +3747,7 @@ export async function getComplaintOperationsSummary(dateFrom?: string | null, da
         COUNT(*)::INT AS total,
         COUNT(*) FILTER (WHERE status NOT IN ('resolved', 'closed'))::INT AS open,
         COUNT(*) FILTER (WHERE fos_referred = TRUE)::INT AS referred_to_fos,
-        COUNT(*) FILTER (WHERE status NOT IN ('resolved', 'closed') AND eight_week_due_date < CURRENT_DATE)::INT AS overdue,
+        COUNT(*) FILTER (WHERE status NOT IN ('resolved', 'closed') AND sla_paused_since IS NULL AND eight_week_due_date < CURRENT_DATE)::INT AS overdue,
         COUNT(*) FILTER (WHERE priority = 'urgent')::INT AS urgent,
         (
           SELECT COUNT(*)::INT
@@ -2366,6 +3789,27 @@ export async function getComplaintOperationsSummary(dateFrom?: string | null, da
     params
   );
 
+  const risk = operationalRiskSql();
+  const factorKeys = Object.keys(risk.factors) as ComplaintOperationalRiskFactorKey[];
+  const operationalRiskRow = await DatabaseClient.queryOne<Record<string, unknown>>(
+    `
+      SELECT
+        COUNT(*) FILTER (WHERE scored.score >= ${OPERATIONAL_RISK_LEVEL_FLOORS.critical})::INT AS critical,
+        COUNT(*) FILTER (WHERE scored.score >= ${OPERATIONAL_RISK_LEVEL_FLOORS.high} AND scored.score < ${OPERATIONAL_RISK_LEVEL_FLOORS.critical})::INT AS high,
+        COUNT(*) FILTER (WHERE scored.score >= ${OPERATIONAL_RISK_LEVEL_FLOORS.medium} AND scored.score < ${OPERATIONAL_RISK_LEVEL_FLOORS.high})::INT AS medium,
+        COUNT(*) FILTER (WHERE scored.score < ${OPERATIONAL_RISK_LEVEL_FLOORS.medium})::INT AS low,
+        ${factorKeys.map((key) => `COUNT(*) FILTER (WHERE scored.${key} > 0)::INT AS factor_${key}`).join(',\n        ')}
+      FROM (
+        SELECT
+          ${risk.score} AS score,
+          ${factorKeys.map((key) => `${risk.factors[key]} AS ${key}`).join(',\n          ')}
+        FROM complaints_records
+        ${whereSql ? `${whereSql} AND ${risk.open}` : `WHERE ${risk.open}`}
+      ) AS scored
+    `,
+    params
+  );
+
   return {
     total: toInt(summaryRow?.total),
     open: toInt(summaryRow?.open),
@@ -2375,6 +3819,95 @@ export async function getComplaintOperationsSummary(dateFrom?: string | null, da
     openActions: toInt(summaryRow?.open_actions),
     overdueActions: toInt(summaryRow?.overdue_actions),
     topRootCauses: rootCauseRows.map((row) => ({ label: String(row.label || 'Unspecified'), count: toInt(row.count) })),
+    operationalRisk: {
+      levels: {
+        low: toInt(operationalRiskRow?.low),
+        medium: toInt(operationalRiskRow?.medium),
+        high: toInt(operationalRiskRow?.high),
+        critical: toInt(operationalRiskRow?.critical),
+      },
+      factors: factorKeys
+        .map((key) => ({ key, count: toInt(operationalRiskRow?.[`factor_${key}`]) }))
+        .filter((factor) => factor.count > 0)
+        .sort((a, b) => b.count - a.count),
+    },
+  };
+}
+
+/** When the linked FOS decision was last republished; the case id is the decision reference. */
+const LINKED_FOS_REVISION_SQL = `
+  (
+    SELECT MAX(fos_decision_revisions.detected_at)
+    FROM fos_decision_revisions
+    WHERE complaints_records.linked_fos_case_id IS NOT NULL
+      AND fos_decision_revisions.decision_reference = complaints_records.linked_fos_case_id
+  ) AS linked_fos_revised_at
+`;
+
+/** Per-row inputs `mapComplaintRecord` needs to attach `operationalRisk`. */
+const OPERATIONAL_RISK_INPUT_COLUMNS_SQL = `
+  (
+    SELECT COUNT(*)::INT
+    FROM complaint_letter_versions
+    WHERE complaint_letter_versions.complaint_id = complaints_records.id
+      AND complaint_letter_versions.status = 'rejected_for_rework'
+  ) AS letter_rework_count,
+  ARRAY(
+    SELECT DISTINCT complaint_evidence.category
+    FROM complaint_evidence
+    WHERE complaint_evidence.complaint_id = complaints_records.id
+      AND complaint_evidence.archived_at IS NULL
+  ) AS evidence_categories
+`;
+
+/**
+ * SQL mirror of `assessComplaintOperationalRisk`, correlated on `complaints_records`
+ * so the register can sort by score and board packs can aggregate without loading rows.
+ */
+function operationalRiskSql(): { open: string; score: string; factors: Record<ComplaintOperationalRiskFactorKey, string> } {
+  const weights = OPERATIONAL_RISK_WEIGHTS;
+  const closed = `(
+    complaints_records.final_response_date IS NOT NULL
+    OR complaints_records.resolved_date IS NOT NULL
+    OR complaints_records.status IN ('resolved', 'closed')
+  )`;
+  const overdueActions = `(
+    SELECT COUNT(*)
+    FROM complaint_actions risk_actions
+    WHERE risk_actions.complaint_id = complaints_records.id
+      AND risk_actions.status IN ('open', 'in_progress')
+      AND risk_actions.due_date < CURRENT_DATE
+  )`;
+  const letterRework = `(
+    SELECT COUNT(*)
+    FROM complaint_letter_versions risk_versions
+    WHERE risk_versions.complaint_id = complaints_records.id
+      AND risk_versions.status = 'rejected_for_rework'
+  )`;
+  const missingEvidence = EXPECTED_EVIDENCE_GROUPS.map((group) => `(
+    CASE WHEN EXISTS (
+      SELECT 1
+      FROM complaint_evidence risk_evidence
+      WHERE risk_evidence.complaint_id = complaints_records.id
+        AND risk_evidence.archived_at IS NULL
+        AND risk_evidence.category IN (${group.categories.map((category) => `'${category}'`).join(', ')})
+    ) THEN 0 ELSE ${weights.perMissingEvidenceGroup} END
+  )`).join(' + ');
+  const vulnerabilityText = `CONCAT_WS(' ', complaints_records.description, complaints_records.notes, complaints_records.complaint_type, complaints_records.complaint_category)`;
+
+  const factors: Record<ComplaintOperationalRiskFactorKey, string> = {
+    sla_overdue: `(CASE WHEN complaints_records.sla_paused_since IS NULL AND complaints_records.eight_week_due_date < CURRENT_DATE THEN ${weights.slaOverdue} ELSE 0 END)`,
+    sla_due_soon: `(CASE WHEN complaints_records.sla_paused_since IS NULL AND complaints_records.eight_week_due_date BETWEEN CURRENT_DATE AND CURRENT_DATE + 7 THEN ${weights.slaDueSoon} ELSE 0 END)`,
+    overdue_actions: `LEAST(${overdueActions} * ${weights.perOverdueAction}, ${weights.overdueActionsCap})`,
+    letter_rework: `LEAST(${letterRework} * ${weights.perLetterRework}, ${weights.letterReworkCap})`,
+    evidence_gap: `(${missingEvidence})`,
+    vulnerability: `(CASE WHEN ${vulnerabilityText} ~* '${VULNERABILITY_INDICATOR_PATTERNS.join('|')}' THEN ${weights.vulnerability} ELSE 0 END)`,
+  };
+
+  return {
+    open: `NOT ${closed}`,
+    score: `(CASE WHEN ${closed} THEN 0 ELSE LEAST(100, ${Object.values(factors).join(' + ')}) END)`,
+    factors,
   };
 }
 
@@ -2393,6 +3926,11 @@ function buildComplaintWhereClause(filters: ComplaintFilters, startIndex: number
     params.push(filters.priority);
     nextIndex += 1;
   }
+  if (filters.complaintType !== 'all') {
+    conditions.push(`complaint_type = $${nextIndex}`);
+    params.push(filters.complaintType);
+    nextIndex += 1;
+  }
   if (filters.firm) {
     conditions.push(`firm_name = $${nextIndex}`);
     params.push(filters.firm);
@@ -2408,6 +3946,20 @@ function buildComplaintWhereClause(filters: ComplaintFilters, startIndex: number
     params.push(`%${filters.assignedTo.replace(/[%_\\]/g, '\\$&')}%`);
     nextIndex += 1;
   }
+  if (filters.assignedUserId === 'unassigned') {
+    conditions.push('assigned_user_id IS NULL');
+  } else if (filters.assignedUserId) {
+    conditions.push(`assigned_user_id = $${nextIndex}::uuid`);
+    params.push(filters.assignedUserId);
+    nextIndex += 1;
+  }
+  if (filters.queueId === 'none') {
+    conditions.push('queue_id IS NULL');
+  } else if (filters.queueId) {
+    conditions.push(`queue_id = $${nextIndex}::uuid`);
+    params.push(filters.queueId);
+    nextIndex += 1;
+  }
   if (filters.reviewer) {
     conditions.push(`EXISTS (
       SELECT 1
@@ -2457,12 +4009,14 @@ function buildComplaintWhereClause(filters: ComplaintFilters, startIndex: number
   } else if (filters.slaState === 'overdue') {
     conditions.push(`(
       status NOT IN ('resolved', 'closed')
+      AND sla_paused_since IS NULL
       AND eight_week_due_date IS NOT NULL
       AND eight_week_due_date < CURRENT_DATE
     )`);
   } else if (filters.slaState === 'due_soon') {
     conditions.push(`(
       status NOT IN ('resolved', 'closed')
+      AND sla_paused_since IS NULL
       AND eight_week_due_date IS NOT NULL
       AND eight_week_due_date BETWEEN CURRENT_DATE AND CURRENT_DATE + 7
     )`);
@@ -2470,7 +4024,8 @@ function buildComplaintWhereClause(filters: ComplaintFilters, startIndex: number
     conditions.push(`(
       status NOT IN ('resolved', 'closed')
       AND (
-        eight_week_due_date IS NULL
+        sla_paused_since IS NOT NULL
+        OR eight_week_due_date IS NULL
         OR eight_week_due_date > CURRENT_DATE + 7
       )
     )`);
@@ -2575,17 +4130,6 @@ async function insertChangeActivities(
     });
   }
 
-  if ((existing.assignedTo || null) !== payload.assignedTo) {
-    await insertComplaintActivityTx(client, {
-      complaintId: existing.id,
-      activityType: 'assigned',
-      description: payload.assignedTo ? `Assigned to ${payload.assignedTo}.` : 'Assignment cleared.',
-      oldValue: existing.assignedTo,
-      newValue: payload.assignedTo,
-      performedBy,
-    });
-  }
-
   if (existing.fosReferred !== payload.fosReferred && payload.fosReferred) {
     await insertComplaintActivityTx(client, {
       complaintId: existing.id,
@@ -2607,12 +4151,461 @@ async function insertChangeActivities(
   }
 }
 
+/** Owner and queue for a complaint being written; see `resolveComplaintAssignmentTx`. */
+interface ComplaintAssignment {
+  assignedUserId: string | null;
+  assignedTo: string | null;
+  queueId: string | null;
+  queueName: string | null;
+  /** Set when the queue picked the owner. */
+  allocatedBy: ComplaintAllocationStrategy | null;
+  /** The queue allocates automatically but no member had capacity. */
+  awaitingCapacity: boolean;
+  /** Unknown owners or queues dropped in lenient mode. */
+  issues: string[];
+}
+
+/**
+ * Works out the owner and queue for a create, update or import. Omitted
+ * fields keep the existing values, and new complaints without a queue go to
+ * the default queue. Owners are linked users, given by `assignedUserId` or by
+ * an `assignedTo` matching a handler's email or full name. With `allocate`, a
+ * complaint left without an owner is allocated by its queue. Unknown owners and
+ * queues are a 400 unless `lenient`, which drops them into `issues`.
+ */
+async function resolveComplaintAssignmentTx(
+  client: PoolClient,
+  input: ComplaintMutationInput,
+  existing: ComplaintRecord | null,
+  options: { allocate: boolean; lenient?: boolean }
+): Promise<ComplaintAssignment> {
+  const issues: string[] = [];
+  const reject = (message: string) => {
+    if (!options.lenient) throw Object.assign(new Error(message), { status: 400 });
+    issues.push(message);
+  };
+
+  let queue: ComplaintQueueRef | null | undefined;
+  const queueValue = input.queueId !== undefined ? input.queueId : input.queue;
+  if (queueValue !== undefined) {
+    const value = sanitizeText(queueValue);
+    queue = value ? await findComplaintQueueTx(client, value) : null;
+    if (value && !queue) {
+      reject(`Unknown complaint queue "${value}".`);
+      queue = undefined;
+    }
+  }
+  if (queue === undefined) {
+    queue = existing
+      ? (existing.queueId ? await findComplaintQueueTx(client, existing.queueId) : null)
+      : await findComplaintQueueTx(client, null);
+  }
+
+  let owner: Pick<ComplaintAllocationCandidate, 'userId' | 'fullName'> | null | undefined;
+  if (input.assignedUserId !== undefined) {
+    const value = sanitizeText(input.assignedUserId);
+    owner = value ? await findComplaintHandlerTx(client, value) : null;
+    if (value && !owner) {
+      reject('Complaints can only be assigned to an active operator, reviewer, manager or admin.');
+      owner = undefined;
+    }
+  } else if (input.assignedTo !== undefined) {
+    const value = sanitizeText(input.assignedTo);
+    if (!value) {
+      owner = null;
+    } else if (!existing || value !== existing.assignedTo) {
+      owner = await findComplaintHandlerTx(client, value);
+      if (!owner) {
+        reject(`No single active complaint handler matches "${value}"; use their email address.`);
+        owner = undefined;
+      }
+    }
+  }
+
+  const assignment: ComplaintAssignment = {
+    assignedUserId: owner === undefined ? existing?.assignedUserId ?? null : owner?.userId ?? null,
+    assignedTo: owner === undefined ? existing?.assignedTo ?? null : owner?.fullName ?? null,
+    queueId: queue?.id ?? null,
+    queueName: queue?.name ?? null,
+    allocatedBy: null,
+    awaitingCapacity: false,
+    issues,
+  };
+  if (options.allocate && !assignment.assignedUserId && queue && queue.allocationStrategy !== 'manual') {
+    const picked = await allocateFromComplaintQueueTx(client, queue.id);
+    if (picked) {
+      assignment.assignedUserId = picked.handler.userId;
+      assignment.assignedTo = picked.handler.fullName;
+      assignment.allocatedBy = picked.strategy;
+    } else {
+      assignment.awaitingCapacity = true;
+    }
+  }
+  return assignment;
+}
+
+interface ComplaintQueueRef {
+  id: string;
+  name: string;
+  allocationStrategy: ComplaintAllocationStrategy;
+}
+
+/** A queue by id or name (case-insensitive); `null` finds the default queue. */
+async function findComplaintQueueTx(client: PoolClient, idOrName: string | null): Promise<ComplaintQueueRef | null> {
+  const result = await client.query<Record<string, unknown>>(
+    idOrName === null
+      ? `SELECT id, name, allocation_strategy FROM complaint_queues WHERE is_default LIMIT 1`
+      : `
+          SELECT id, name, allocation_strategy
+          FROM complaint_queues
+          WHERE id::text = $1 OR LOWER(name) = LOWER($1)
+          ORDER BY (id::text = $1) DESC
+          LIMIT 1
+        `,
+    idOrName === null ? [] : [idOrName]
+  );
+  const row = result.rows[0];
+  return row
+    ? { id: String(row.id), name: String(row.name || ''), allocationStrategy: normalizeAllocationStrategy(row.allocation_strategy) || 'manual' }
+    : null;
+}
+
+/** An active handler by id or email, or by full name when only one handler has it. */
+async function findComplaintHandlerTx(client: PoolClient, value: string): Promise<Pick<ComplaintAllocationCandidate, 'userId' | 'fullName'> | null> {
+  const result = await client.query<Record<string, unknown>>(
+    `
+      SELECT u.id::text AS user_id, u.full_name, (u.id::text = $1 OR LOWER(u.email) = LOWER($1)) AS exact_match
+      FROM app_users u
+      WHERE u.is_active
+        AND u.role = ANY($2::text[])
+        AND (u.id::text = $1 OR LOWER(u.email) = LOWER($1) OR LOWER(u.full_name) = LOWER($1))
+    `,
+    [value, HANDLER_ROLES]
+  );
+  const row = result.rows.find((candidate) => Boolean(candidate.exact_match)) || (result.rows.length === 1 ? result.rows[0] : null);
+  return row
+    ? { userId: String(row.user_id), fullName: String(row.full_name || '') }
+    : null;
+}
+
+/**
+ * Picks the next owner from the queue's members and records them as the
+ * queue's last assignee. The queue row is locked so concurrent creates and
+ * imports take turns.
+ */
+async function allocateFromComplaintQueueTx(
+  client: PoolClient,
+  queueId: string
+): Promise<{ handler: ComplaintAllocationCandidate; strategy: ComplaintAllocationStrategy } | null> {
+  const queue = (await client.query<Record<string, unknown>>(
+    `SELECT allocation_strategy, last_assigned_user_id FROM complaint_queues WHERE id = $1 FOR UPDATE`,
+    [queueId]
+  )).rows[0];
+  const strategy = normalizeAllocationStrategy(queue?.allocation_strategy);
+  if (!queue || !strategy || strategy === 'manual') return null;
+
+  const members = await client.query<Record<string, unknown>>(
+    `
+      SELECT
+        u.id::text AS user_id,
+        u.full_name,
+        COALESCE(h.max_open_complaints, $3)::INT AS capacity,
+        COALESCE(h.accepting_allocations, TRUE) AS accepting_allocations,
+        (
+          SELECT COUNT(*)::INT
+          FROM complaints_records c
+          WHERE c.assigned_user_id = u.id
+            AND c.status NOT IN ('resolved', 'closed')
+        ) AS open_complaints
+      FROM complaint_queue_members m
+      JOIN app_users u ON u.id = m.user_id
+      LEFT JOIN complaint_handler_capacity h ON h.user_id = u.id
+      WHERE m.queue_id = $1
+        AND u.is_active
+        AND u.role = ANY($2::text[])
+    `,
+    [queueId, HANDLER_ROLES, DEFAULT_HANDLER_CAPACITY]
+  );
+  const handler = pickComplaintHandler(
+    strategy,
+    members.rows.map((row) => ({
+      userId: String(row.user_id),
+      fullName: String(row.full_name || ''),
+      openComplaints: toInt(row.open_complaints),
+      capacity: toInt(row.capacity),
+      acceptingAllocations: Boolean(row.accepting_allocations),
+    })),
+    sanitizeNullable(queue.last_assigned_user_id)
+  );
+  if (!handler) return null;
+
+  await client.query(`UPDATE complaint_queues SET last_assigned_user_id = $2::uuid WHERE id = $1`, [queueId, handler.userId]);
+  return { handler, strategy };
+}
+
+/** Logs queue moves as `queue_changed` and owner changes, including automatic allocation, as `assigned`. */
+async function insertAssignmentActivitiesTx(
+  client: PoolClient,
+  complaintId: string,
+  before: Pick<ComplaintRecord, 'assignedUserId' | 'assignedTo' | 'queueId'> | null,
+  after: ComplaintAssignment,
+  performedBy?: string | null
+) {
+  const previousQueueId = before?.queueId ?? null;
+  if (previousQueueId !== after.queueId) {
+    const previousQueueName = previousQueueId
+      ? sanitizeNullable((await client.query<{ name: string }>(`SELECT name FROM complaint_queues WHERE id = $1`, [previousQueueId])).rows[0]?.name)
+      : null;
+    const from = previousQueueName ? `the ${previousQueueName} queue` : null;
+    let description = !after.queueId
+      ? `Removed from ${from || 'its queue'}.`
+      : from ? `Moved from ${from} to the ${after.queueName} queue.` : `Placed in the ${after.queueName} queue.`;
+    if (after.awaitingCapacity) {
+      description += ' No member had capacity, so it is waiting for assignment.';
+    }
+    await insertComplaintActivityTx(client, {
+      complaintId,
+      activityType: 'queue_changed',
+      description,
+      oldValue: previousQueueName,
+      newValue: after.queueName,
+      performedBy,
+      metadata: { fromQueueId: previousQueueId, toQueueId: after.queueId },
+    });
+  }
+
+  const previousOwner = before?.assignedTo ?? null;
+  if ((before?.assignedUserId ?? null) !== after.assignedUserId || previousOwner !== after.assignedTo) {
+    const description = after.allocatedBy
+      ? `Allocated to ${after.assignedTo} from the ${after.queueName} queue (${labelForAllocationStrategy(after.allocatedBy)}).`
+      : !after.assignedTo
+        ? 'Assignment cleared.'
+        : previousOwner ? `Reassigned from ${previousOwner} to ${after.assignedTo}.` : `Assigned to ${after.assignedTo}.`;
+    await insertComplaintActivityTx(client, {
+      complaintId,
+      activityType: 'assigned',
+      description,
+      oldValue: previousOwner,
+      newValue: after.assignedTo,
+      performedBy,
+      metadata: {
+        fromUserId: before?.assignedUserId ?? null,
+        toUserId: after.assignedUserId,
+        queueId: after.queueId,
+        allocationStrategy: after.allocatedBy,
+      },
+    });
+  }
+}
+
+async function getComplaintQueueById(id: string): Promise<ComplaintQueue | null> {
+  if (!UUID_PATTERN.test(id)) return null;
+  const row = await DatabaseClient.queryOne<Record<string, unknown>>(`${COMPLAINT_QUEUE_SELECT_SQL} WHERE q.id = $1::uuid`, [id]);
+  return row ? mapComplaintQueue(row) : null;
+}
+
+/** Inserts or updates a queue and replaces its members; only one queue can be the default. */
+async function saveComplaintQueue(
+  id: string | null,
+  queue: ReturnType<typeof normalizeComplaintQueueInput>,
+  performedBy?: string | null
+): Promise<string> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const members = await client.query<{ user_id: string }>(
+      `
+        SELECT id::text AS user_id
+        FROM app_users
+        WHERE id::text = ANY($1::text[])
+          AND is_active
+          AND role = ANY($2::text[])
+      `,
+      [queue.memberUserIds, HANDLER_ROLES]
+    );
+    if (members.rows.length !== queue.memberUserIds.length) {
+      throw Object.assign(new Error('Queue members must be active operators, reviewers, managers or admins.'), { status: 400 });
+    }
+
+    if (queue.isDefault) {
+      await client.query(
+        `UPDATE complaint_queues SET is_default = FALSE, updated_at = NOW() WHERE is_default AND id IS DISTINCT FROM $1::uuid`,
+        [id]
+      );
+    }
+    const saved = id
+      ? await client.query<{ id: string }>(
+          `
+            UPDATE complaint_queues
+            SET name = $2, description = $3, allocation_strategy = $4, is_default = $5, updated_at = NOW()
+            WHERE id = $1
+            RETURNING id
+          `,
+          [id, queue.name, queue.description, queue.allocationStrategy, queue.isDefault]
+        )
+      : await client.query<{ id: string }>(
+          `
+            INSERT INTO complaint_queues (name, description, allocation_strategy, is_default, created_by)
+            VALUES ($1, $2, $3, $4, $5)
+            RETURNING id
+          `,
+          [queue.name, queue.description, queue.allocationStrategy, queue.isDefault, sanitizeNullable(performedBy)]
+        );
+    const queueId = String(saved.rows[0].id);
+
+    await client.query(
+      `DELETE FROM complaint_queue_members WHERE queue_id = $1 AND NOT (user_id::text = ANY($2::text[]))`,
+      [queueId, queue.memberUserIds]
+    );
+    await client.query(
+      `
+        INSERT INTO complaint_queue_members (queue_id, user_id)
+        SELECT $1, member_id::uuid FROM UNNEST($2::text[]) AS member_id
+        ON CONFLICT (queue_id, user_id) DO NOTHING
+      `,
+      [queueId, queue.memberUserIds]
+    );
+
+    await client.query('COMMIT');
+    return queueId;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if ((error as { code?: string }).code === '23505') {
+      throw Object.assign(new Error(`A queue named "${queue.name}" already exists.`), { status: 409 });
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+function normalizeComplaintQueueInput(input: ComplaintQueueInput, fallback?: ComplaintQueue) {
+  const name = sanitizeText(input.name ?? fallback?.name).slice(0, 80);
+  if (!name) throw Object.assign(new Error('Queue name is required.'), { status: 400 });
+
+  const rawStrategy = input.allocationStrategy ?? fallback?.allocationStrategy ?? 'round_robin';
+  const allocationStrategy = normalizeAllocationStrategy(rawStrategy);
+  if (!allocationStrategy) {
+    throw Object.assign(
+      new Error(`Unknown allocation strategy "${sanitizeText(rawStrategy)}". Use one of: ${VALID_ALLOCATION_STRATEGIES.join(', ')}.`),
+      { status: 400 }
+    );
+  }
+
+  const memberUserIds = Array.isArray(input.memberUserIds)
+    ? Array.from(new Set(input.memberUserIds.map((userId) => sanitizeText(userId)).filter(Boolean)))
+    : fallback?.memberUserIds || [];
+
+  return {
+    name,
+    description: input.description === undefined ? fallback?.description ?? null : sanitizeNullable(input.description)?.slice(0, 500) ?? null,
+    allocationStrategy,
+    isDefault: input.isDefault === undefined ? Boolean(fallback?.isDefault) : toBoolean(input.isDefault),
+    memberUserIds,
+  };
+}
+
+async function loadComplaintSlaClockContext(complaintId?: string): Promise<ComplaintSlaClockContext> {
+  const settings = await getComplaintWorkspaceSettings();
+  const pauses = complaintId ? await listComplaintSlaPauses(complaintId) : [];
+  return { ruleSets: settings.slaRuleSets, region: settings.slaHolidayRegion, pauses };
+}
+
+/** Re-dates a complaint from its received date, type and pause history, then syncs the SLA actions. */
+async function applyComplaintSlaClockTx(
+  client: PoolClient,
+  complaintId: string,
+  performedBy?: string | null,
+  settings?: ComplaintWorkspaceSettings
+): Promise<ComplaintRecord> {
+  const { slaRuleSets, slaHolidayRegion } = settings || await getComplaintWorkspaceSettings();
+  const current = await client.query<Record<string, unknown>>(
+    `SELECT received_date, complaint_type FROM complaints_records WHERE id = $1 FOR UPDATE`,
+    [complaintId]
+  );
+  const pauses = await client.query<Record<string, unknown>>(
+    `SELECT paused_on, resumed_on FROM complaint_sla_pauses WHERE complaint_id = $1`,
+    [complaintId]
+  );
+  const deadlines = computeComplaintSlaDeadlines({
+    receivedDate: toDateOnly(current.rows[0]?.received_date) || new Date().toISOString().slice(0, 10),
+    complaintType: sanitizeText(current.rows[0]?.complaint_type),
+    ruleSets: slaRuleSets,
+    region: slaHolidayRegion,
+    pauses: pauses.rows.map((pause) => ({ pausedOn: toDateOnly(pause.paused_on) || '', resumedOn: toDateOnly(pause.resumed_on) })),
+  });
+
+  const updated = await client.query<Record<string, unknown>>(
+    `
+      UPDATE complaints_records
+      SET
+        four_week_due_date = $2,
+        eight_week_due_date = $3,
+        sla_rule_set = $4,
+        sla_progress_label = $5,
+        sla_final_label = $6,
+        sla_paused_since = $7,
+        sla_paused_days = $8
+      WHERE id = $1
+      RETURNING *
+    `,
+    [
+      complaintId,
+      deadlines.progressDueDate,
+      deadlines.finalDueDate,
+      deadlines.ruleSet.key,
+      deadlines.ruleSet.progress.label,
+      deadlines.ruleSet.final.label,
+      deadlines.pausedSince,
+      deadlines.pausedDays,
+    ]
+  );
+  const record = mapComplaintRecord(updated.rows[0]);
+  await syncComplaintSlaActionsTx(client, record, deadlines.ruleSet, performedBy);
+  return record;
+}
+
+/** Applies changed rule sets or holiday region to every complaint whose clock is still running. */
+async function recomputeOpenComplaintSlaDeadlines(settings: ComplaintWorkspaceSettings, performedBy?: string | null): Promise<void> {
+  const rows = await DatabaseClient.query<{ id: string }>(
+    `
+      SELECT id
+      FROM complaints_records
+      WHERE status NOT IN ('resolved', 'closed')
+        AND final_response_date IS NULL
+        AND resolved_date IS NULL
+    `
+  );
+  if (rows.length === 0) return;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    for (const row of rows) {
+      await applyComplaintSlaClockTx(client, String(row.id), performedBy, settings);
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Keeps the two system SLA actions in line with the complaint's rule set and
+ * due dates. While the clock is paused their due dates are cleared so they do
+ * not show as overdue; restarting the clock sets the moved dates.
+ */
 async function syncComplaintSlaActionsTx(
   client: PoolClient,
   complaint: ComplaintRecord,
+  ruleSet: ComplaintSlaRuleSet,
   performedBy?: string | null
 ) {
   const closed = Boolean(complaint.finalResponseDate || complaint.resolvedDate || complaint.status === 'resolved' || complaint.status === 'closed');
+  const paused = Boolean(complaint.slaSummary?.clockPausedSince);
   const actions: Array<{
     actionType: ComplaintActionType;
     title: string;
@@ -2621,15 +4614,15 @@ async function syncComplaintSlaActionsTx(
   }> = [
     {
       actionType: 'four_week_progress',
-      title: 'Issue 4-week progress update',
-      description: 'Prepare and issue a four-week progress update if the complaint remains unresolved.',
-      dueDate: complaint.fourWeekDueDate,
+      title: `Issue ${ruleSet.progress.label}`,
+      description: ruleSet.progress.description,
+      dueDate: paused ? null : complaint.fourWeekDueDate,
     },
     {
       actionType: 'eight_week_final_response',
-      title: 'Issue 8-week final response',
-      description: 'Prepare and issue the eight-week final response, including Ombudsman rights wording where required.',
-      dueDate: complaint.eightWeekDueDate,
+      title: `Issue ${ruleSet.final.label}`,
+      description: ruleSet.final.description,
+      dueDate: paused ? null : complaint.eightWeekDueDate,
     },
   ];
 
@@ -2784,22 +4777,42 @@ async function insertComplaintActivityTx(
   );
 }
 
+/**
+ * Due dates come from the SLA rule set for the complaint type unless the
+ * input supplies them explicitly.
+ */
 function normalizeComplaintMutationInput(
   input: ComplaintMutationInput,
   requireReference = false,
-  fallback?: ComplaintRecord
+  fallback?: ComplaintRecord,
+  clock: ComplaintSlaClockContext = DEFAULT_SLA_CLOCK_CONTEXT
 ) {
   const complaintReference = sanitizeText(input.complaintReference ?? fallback?.complaintReference);
   const complainantName = sanitizeText(input.complainantName ?? fallback?.complainantName);
   const firmName = sanitizeText(input.firmName ?? fallback?.firmName) || 'Unknown firm';
   const receivedDate = toDateOnly(input.receivedDate ?? fallback?.receivedDate);
+  const rawComplaintType = input.complaintType ?? fallback?.complaintType;
+  const complaintType = normalizeComplaintType(rawComplaintType);
 
   if (requireReference && !complaintReference) throw new Error('Complaint reference is required.');
+  if (!complaintType) {
+    throw Object.assign(
+      new Error(`Unknown complaint type "${sanitizeText(rawComplaintType)}". Use one of: ${VALID_COMPLAINT_TYPES.join(', ')}.`),
+      { status: 400 }
+    );
+  }
   if (!complainantName) throw new Error('Complainant name is required.');
   if (!receivedDate) throw new Error('Received date is required.');
 
-  const fourWeekDueDate = toDateOnly(input.fourWeekDueDate) || addDays(receivedDate, 28);
-  const eightWeekDueDate = toDateOnly(input.eightWeekDueDate) || addDays(receivedDate, 56);
+  const deadlines = computeComplaintSlaDeadlines({
+    receivedDate,
+    complaintType,
+    ruleSets: clock.ruleSets,
+    region: clock.region,
+    pauses: clock.pauses,
+  });
+  const fourWeekDueDate = toDateOnly(input.fourWeekDueDate) || deadlines.progressDueDate;
+  const eightWeekDueDate = toDateOnly(input.eightWeekDueDate) || deadlines.finalDueDate;
   const rawStatus = sanitizeText(input.status ?? fallback?.status) as ComplaintStatus | null;
   const rawPriority = sanitizeText(input.priority ?? fallback?.priority) as ComplaintPriority | null;
 
@@ -2812,13 +4825,16 @@ function normalizeComplaintMutationInput(
     complainantAddress: sanitizeNullable(input.complainantAddress ?? fallback?.complainantAddress),
     firmName,
     product: sanitizeNullable(input.product ?? fallback?.product),
-    complaintType: sanitizeText(input.complaintType ?? fallback?.complaintType) || 'general',
+    complaintType,
     complaintCategory: sanitizeText(input.complaintCategory ?? fallback?.complaintCategory) || 'pending',
     description: sanitizeNullable(input.description ?? fallback?.description),
     receivedDate,
     acknowledgedDate: toDateOnly(input.acknowledgedDate ?? fallback?.acknowledgedDate),
     fourWeekDueDate,
     eightWeekDueDate,
+    slaRuleSet: deadlines.ruleSet,
+    slaPausedSince: deadlines.pausedSince,
+    slaPausedDays: deadlines.pausedDays,
     finalResponseDate: toDateOnly(input.finalResponseDate ?? fallback?.finalResponseDate),
     resolvedDate: toDateOnly(input.resolvedDate ?? fallback?.resolvedDate),
     rootCause: sanitizeNullable(input.rootCause ?? fallback?.rootCause),
@@ -2829,7 +4845,6 @@ function normalizeComplaintMutationInput(
     fosOutcome: sanitizeNullable(input.fosOutcome ?? fallback?.fosOutcome),
     status: VALID_STATUSES.includes(rawStatus as ComplaintStatus) ? (rawStatus as ComplaintStatus) : 'open',
     priority: VALID_PRIORITIES.includes(rawPriority as ComplaintPriority) ? (rawPriority as ComplaintPriority) : 'medium',
-    assignedTo: sanitizeNullable(input.assignedTo ?? fallback?.assignedTo),
     notes: sanitizeNullable(input.notes ?? fallback?.notes),
     createdBy: sanitizeNullable(input.createdBy ?? fallback?.createdBy),
     updatedBy: sanitizeNullable(input.updatedBy ?? fallback?.updatedBy),
@@ -2847,7 +4862,7 @@ function mapComplaintRecord(row: Record<string, unknown>): ComplaintRecord {
     complainantAddress: sanitizeNullable(row.complainant_address),
     firmName: String(row.firm_name || 'Unknown firm'),
     product: sanitizeNullable(row.product),
-    complaintType: String(row.complaint_type || 'general'),
+    complaintType: normalizeComplaintType(row.complaint_type) || DEFAULT_COMPLAINT_TYPE,
     complaintCategory: String(row.complaint_category || 'pending'),
     description: sanitizeNullable(row.description),
     receivedDate: toDateOnly(row.received_date) || '',
@@ -2865,6 +4880,8 @@ function mapComplaintRecord(row: Record<string, unknown>): ComplaintRecord {
     status: normalizeStatus(row.status),
     priority: normalizePriority(row.priority),
     assignedTo: sanitizeNullable(row.assigned_to),
+    assignedUserId: sanitizeNullable(row.assigned_user_id),
+    queueId: sanitizeNullable(row.queue_id),
     notes: sanitizeNullable(row.notes),
     evidenceCount: toInt(row.evidence_count),
     latestLetterStatus: sanitizeNullable(row.latest_letter_status) ? normalizeLetterStatus(row.latest_letter_status) : null,
@@ -2877,7 +4894,29 @@ function mapComplaintRecord(row: Record<string, unknown>): ComplaintRecord {
     createdAt: toIsoDateTime(row.created_at),
     updatedAt: toIsoDateTime(row.updated_at),
   };
-  record.slaSummary = buildComplaintSlaSummary(record);
+  const ruleSetKey = sanitizeText(row.sla_rule_set) || DEFAULT_COMPLAINT_SLA_RULE_SETS[0].key;
+  const defaultRuleSet = DEFAULT_COMPLAINT_SLA_RULE_SETS.find((ruleSet) => ruleSet.key === ruleSetKey) || DEFAULT_COMPLAINT_SLA_RULE_SETS[0];
+  record.slaSummary = buildComplaintSlaSummary(record, {
+    ruleSet: ruleSetKey,
+    progressLabel: sanitizeText(row.sla_progress_label) || defaultRuleSet.progress.label,
+    finalLabel: sanitizeText(row.sla_final_label) || defaultRuleSet.final.label,
+    pausedSince: toDateOnly(row.sla_paused_since),
+    pausedDays: toInt(row.sla_paused_days),
+  });
+  if ('linked_fos_revised_at' in row) {
+    record.linkedFosRevisedAt = row.linked_fos_revised_at ? toIsoDateTime(row.linked_fos_revised_at) : null;
+  }
+  if ('evidence_categories' in row) {
+    record.letterReworkCount = toInt(row.letter_rework_count);
+    record.evidenceCategories = parseJsonStringArray(row.evidence_categories).map(normalizeEvidenceCategory);
+    record.operationalRisk = assessComplaintOperationalRisk({
+      slaState: record.slaSummary.state,
+      overdueActionCount: record.overdueActionCount || 0,
+      letterReworkCount: record.letterReworkCount,
+      evidenceCategories: record.evidenceCategories,
+      text: [record.description, record.notes, record.complaintType, record.complaintCategory],
+    });
+  }
   return record;
 }
 
@@ -2922,7 +4961,27 @@ function mapComplaintAction(row: Record<string, unknown>): ComplaintAction {
   };
 }
 
-function buildComplaintSlaSummary(complaint: ComplaintRecord): ComplaintSlaSummary {
+function mapComplaintPinnedDecision(row: Record<string, unknown>): ComplaintPinnedDecision {
+  return {
+    id: String(row.id || ''),
+    complaintId: String(row.complaint_id || ''),
+    caseId: String(row.case_id || ''),
+    decisionReference: String(row.decision_reference || row.case_id || ''),
+    decisionDate: toDateOnly(row.decision_date),
+    firmName: sanitizeNullable(row.firm_name),
+    productGroup: sanitizeNullable(row.product_group),
+    outcome: String(row.outcome || 'unknown'),
+    decisionSummary: sanitizeNullable(row.decision_summary),
+    note: sanitizeNullable(row.note),
+    pinnedBy: sanitizeNullable(row.pinned_by),
+    pinnedAt: toIsoDateTime(row.pinned_at),
+  };
+}
+
+function buildComplaintSlaSummary(
+  complaint: ComplaintRecord,
+  clock: { ruleSet: string; progressLabel: string; finalLabel: string; pausedSince: string | null; pausedDays: number }
+): ComplaintSlaSummary {
   const received = new Date(complaint.receivedDate);
   const now = new Date();
   const daysElapsed = Number.isNaN(received.getTime())
@@ -2931,16 +4990,18 @@ function buildComplaintSlaSummary(complaint: ComplaintRecord): ComplaintSlaSumma
   const daysToFourWeekDue = complaint.fourWeekDueDate ? diffDays(complaint.fourWeekDueDate, now) : null;
   const daysToEightWeekDue = complaint.eightWeekDueDate ? diffDays(complaint.eightWeekDueDate, now) : null;
   const closed = Boolean(complaint.finalResponseDate || complaint.resolvedDate || complaint.status === 'resolved' || complaint.status === 'closed');
-  const overdue = !closed && daysToEightWeekDue != null && daysToEightWeekDue < 0;
-  const dueSoon = !closed && !overdue && daysToEightWeekDue != null && daysToEightWeekDue <= 7;
+  // A stopped clock cannot run late; the due dates move out when it restarts.
+  const paused = !closed && Boolean(clock.pausedSince);
+  const overdue = !closed && !paused && daysToEightWeekDue != null && daysToEightWeekDue < 0;
+  const dueSoon = !closed && !paused && !overdue && daysToEightWeekDue != null && daysToEightWeekDue <= 7;
 
   let nextMilestoneLabel: string | null = null;
   let nextMilestoneDate: string | null = null;
   if (!closed && daysToFourWeekDue != null && daysToFourWeekDue >= 0) {
-    nextMilestoneLabel = '4-week progress update';
+    nextMilestoneLabel = clock.progressLabel;
     nextMilestoneDate = complaint.fourWeekDueDate;
   } else if (!closed && daysToEightWeekDue != null) {
-    nextMilestoneLabel = '8-week final response';
+    nextMilestoneLabel = clock.finalLabel;
     nextMilestoneDate = complaint.eightWeekDueDate;
   }
 
@@ -2953,6 +5014,11 @@ function buildComplaintSlaSummary(complaint: ComplaintRecord): ComplaintSlaSumma
     nextMilestoneDate,
     atRisk: dueSoon,
     overdue,
+    ruleSet: clock.ruleSet,
+    progressLabel: clock.progressLabel,
+    finalLabel: clock.finalLabel,
+    clockPausedSince: closed ? null : clock.pausedSince,
+    clockPausedDays: clock.pausedDays,
   };
 }
 
@@ -3000,11 +5066,101 @@ function mapComplaintLetter(row: Record<string, unknown>): ComplaintLetter {
     approvedBy: sanitizeNullable(row.approved_by),
     approvedRole: sanitizeNullable(row.approved_role) ? normalizeActorRole(row.approved_role) : null,
     sentAt: row.sent_at ? toIsoDateTime(row.sent_at) : null,
+    deliveryStatus: normalizeDeliveryStatus(row.delivery_status),
+    deliveryError: sanitizeNullable(row.delivery_error),
+    createdAt: toIsoDateTime(row.created_at),
+    updatedAt: toIsoDateTime(row.updated_at),
+  };
+}
+
+function mapComplaintLetterDelivery(row: Record<string, unknown>): ComplaintLetterDelivery {
+  return {
+    id: String(row.id || ''),
+    letterId: String(row.letter_id || ''),
+    complaintId: String(row.complaint_id || ''),
+    versionNumber: Math.max(1, toInt(row.version_number) || 1),
+    transport: row.transport === 'smtp' ? 'smtp' : 'file_outbox',
+    recipientEmail: String(row.recipient_email || ''),
+    recipientName: sanitizeNullable(row.recipient_name),
+    subject: String(row.subject || 'Complaint correspondence'),
+    status: normalizeDeliveryStatus(row.status) || 'queued',
+    attempts: toInt(row.attempts),
+    maxAttempts: toInt(row.max_attempts),
+    nextAttemptAt: toIsoDateTime(row.next_attempt_at),
+    messageId: sanitizeNullable(row.message_id),
+    lastError: sanitizeNullable(row.last_error),
+    requestedBy: sanitizeNullable(row.requested_by),
+    deliveredAt: row.delivered_at ? toIsoDateTime(row.delivered_at) : null,
+    bouncedAt: row.bounced_at ? toIsoDateTime(row.bounced_at) : null,
+    createdAt: toIsoDateTime(row.created_at),
+    updatedAt: toIsoDateTime(row.updated_at),
+  };
+}
+
+function mapComplaintSlaPause(row: Record<string, unknown>): ComplaintSlaPause {
+  return {
+    id: String(row.id || ''),
+    complaintId: String(row.complaint_id || ''),
+    pausedOn: toDateOnly(row.paused_on) || '',
+    resumedOn: toDateOnly(row.resumed_on),
+    reason: String(row.reason || ''),
+    pausedBy: sanitizeNullable(row.paused_by),
+    resumedBy: sanitizeNullable(row.resumed_by),
+    createdAt: toIsoDateTime(row.created_at),
+  };
+}
+
+function mapComplaintQueue(row: Record<string, unknown>): ComplaintQueue {
+  return {
+    id: String(row.id || ''),
+    name: String(row.name || ''),
+    description: sanitizeNullable(row.description),
+    allocationStrategy: normalizeAllocationStrategy(row.allocation_strategy) || 'manual',
+    isDefault: Boolean(row.is_default),
+    memberUserIds: Array.isArray(row.member_user_ids) ? row.member_user_ids.map(String) : [],
+    openComplaints: toInt(row.open_complaints),
+    unassignedComplaints: toInt(row.unassigned_complaints),
+    createdBy: sanitizeNullable(row.created_by),
     createdAt: toIsoDateTime(row.created_at),
     updatedAt: toIsoDateTime(row.updated_at),
   };
 }
 
+function mapComplaintHandler(row: Record<string, unknown>): ComplaintHandler {
+  return {
+    userId: String(row.user_id || ''),
+    fullName: String(row.full_name || ''),
+    email: String(row.email || ''),
+    role: String(row.role || ''),
+    isActive: Boolean(row.is_active),
+    capacity: toInt(row.capacity),
+    acceptingAllocations: Boolean(row.accepting_allocations),
+    queueIds: Array.isArray(row.queue_ids) ? row.queue_ids.map(String) : [],
+  };
+}
+
+function mapComplaintInboundEmail(row: Record<string, unknown>): ComplaintInboundEmail {
+  const skipped = Array.isArray(row.skipped_attachments) ? row.skipped_attachments as Array<Record<string, unknown>> : [];
+  return {
+    id: String(row.id || ''),
+    messageKey: String(row.message_key || ''),
+    messageId: sanitizeNullable(row.message_id),
+    complaintId: sanitizeNullable(row.complaint_id),
+    complaintReference: sanitizeNullable(row.complaint_reference),
+    matchedBy: row.matched_by === 'reply' || row.matched_by === 'reference' ? row.matched_by : 'created',
+    source: row.source === 'mailbox' ? 'mailbox' : 'upload',
+    fromEmail: sanitizeNullable(row.from_email),
+    fromName: sanitizeNullable(row.from_name),
+    subject: String(row.subject || ''),
+    sentAt: row.sent_at ? toIsoDateTime(row.sent_at) : null,
+    attachmentCount: toInt(row.attachment_count),
+    evidenceIds: parseJsonStringArray(row.evidence_ids),
+    skippedAttachments: skipped.map((item) => ({ fileName: sanitizeText(item.fileName), reason: sanitizeText(item.reason) })),
+    receivedBy: sanitizeNullable(row.received_by),
+    createdAt: toIsoDateTime(row.created_at),
+  };
+}
+
 function mapComplaintLetterVersion(row: Record<string, unknown>): ComplaintLetterVersion {
   return {
     id: String(row.id || ''),
@@ -3045,6 +5201,8 @@ function mapComplaintWorkspaceSettings(row: Record<string, unknown>): ComplaintW
     currentActorRole: normalizeActorRole(row.current_actor_role),
     letterApprovalRole: normalizeActorRole(row.letter_approval_role),
     requireIndependentReviewer: toBoolean(row.require_independent_reviewer, DEFAULT_COMPLAINT_WORKSPACE_SETTINGS.requireIndependentReviewer),
+    slaHolidayRegion: normalizeSlaHolidayRegion(row.sla_holiday_region),
+    slaRuleSets: withDefaultComplaintSlaRuleSets(normalizeComplaintSlaRuleSets(row.sla_rule_sets)),
     updatedAt: row.updated_at ? toIsoDateTime(row.updated_at) : DEFAULT_COMPLAINT_WORKSPACE_SETTINGS.updatedAt,
   };
 }
@@ -3179,6 +5337,12 @@ function normalizeLetterStatus(value: unknown): ComplaintLetterStatus {
     : 'draft';
 }
 
+function normalizeDeliveryStatus(value: unknown): ComplaintLetterDeliveryStatus | null {
+  return VALID_DELIVERY_STATUSES.includes(String(value) as ComplaintLetterDeliveryStatus)
+    ? (String(value) as ComplaintLetterDeliveryStatus)
+    : null;
+}
+
 function normalizeReviewDecisionCode(value: unknown): ComplaintLetterReviewDecisionCode {
   return VALID_REVIEW_DECISION_CODES.includes(String(value) as ComplaintLetterReviewDecisionCode)
     ? (String(value) as ComplaintLetterReviewDecisionCode)
@@ -3258,10 +5422,35 @@ function normalizeComplaintWorkspaceSettingsInput(
     requireIndependentReviewer: has('requireIndependentReviewer')
       ? Boolean(input.requireIndependentReviewer)
       : Boolean(fallback.requireIndependentReviewer),
+    slaHolidayRegion: normalizeSlaHolidayRegion(input.slaHolidayRegion ?? fallback.slaHolidayRegion),
+    slaRuleSets: has('slaRuleSets') ? normalizeSlaRuleSetsInput(input.slaRuleSets) : fallback.slaRuleSets,
     updatedAt: fallback.updatedAt,
   };
 }
 
+function normalizeAllocationStrategy(value: unknown): ComplaintAllocationStrategy | null {
+  const strategy = sanitizeText(value) as ComplaintAllocationStrategy;
+  return VALID_ALLOCATION_STRATEGIES.includes(strategy) ? strategy : null;
+}
+
+function normalizeSlaHolidayRegion(value: unknown): ComplaintSlaHolidayRegion {
+  return VALID_SLA_HOLIDAY_REGIONS.includes(String(value) as ComplaintSlaHolidayRegion)
+    ? (String(value) as ComplaintSlaHolidayRegion)
+    : DEFAULT_COMPLAINT_WORKSPACE_SETTINGS.slaHolidayRegion;
+}
+
+/** Rejects rule sets that would otherwise be silently dropped, so a settings save never loses a rule set. */
+function normalizeSlaRuleSetsInput(value: unknown): ComplaintSlaRuleSet[] {
+  const ruleSets = normalizeComplaintSlaRuleSets(value);
+  if (!Array.isArray(value) || value.length === 0 || ruleSets.length !== value.length) {
+    throw Object.assign(
+      new Error('Each SLA rule set needs a unique key, a label, and progress and final deadlines of 1 to 365 days.'),
+      { status: 400 }
+    );
+  }
+  return withDefaultComplaintSlaRuleSets(ruleSets);
+}
+
 function labelForLetterTemplate(templateKey: ComplaintLetterTemplateKey): string {
   switch (templateKey) {
     case 'acknowledgement':
@@ -3270,6 +5459,8 @@ function labelForLetterTemplate(templateKey: ComplaintLetterTemplateKey): string
       return 'Holding response';
     case 'final_response':
       return 'Final response';
+    case 'summary_resolution':
+      return 'Summary resolution communication';
     case 'fos_referral':
       return 'FOS referral letter';
     case 'custom':
@@ -3292,6 +5483,12 @@ function parsePositiveInt(value: string | null, fallback: number): number {
   return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
 }
 
+/** A UUID or the given keyword (`unassigned`, `none`); anything else is no filter. */
+function parseIdFilter(value: string | null, keyword: string): string {
+  const trimmed = (value || '').trim();
+  return trimmed === keyword || UUID_PATTERN.test(trimmed) ? trimmed : '';
+}
+
 function sanitizeText(value: unknown): string {
   return typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim();
 }
@@ -3382,6 +5579,7 @@ function sanitizeBoardPackRequestPayload(
     includeOperationalComplaints: value?.includeOperationalComplaints !== false,
     includeComparison: value?.includeComparison === true,
     includeRootCauseDeepDive: value?.includeRootCauseDeepDive !== false,
+    includeForecast: value?.includeForecast === true,
     includeAppendix: value?.includeAppendix !== false,
     executiveSummaryNote: sanitizeNullable(value?.executiveSummaryNote),
     boardFocusNote: sanitizeNullable(value?.boardFocusNote),
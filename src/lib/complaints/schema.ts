@@ -1,4 +1,5 @@
 import { DatabaseClient } from '@/lib/database';
+import { ensureAuthSchema } from '@/lib/auth/schema';
 
 const COMPLAINTS_WORKSPACE_SCHEMA_SQL = `
 CREATE EXTENSION IF NOT EXISTS pgcrypto;
@@ -487,6 +488,311 @@ BEGIN
 END $$;
 `;
 
+const COMPLAINTS_WORKSPACE_PINNED_DECISIONS_SQL = `
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS complaint_pinned_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES complaints_records(id) ON DELETE CASCADE,
+  case_id TEXT NOT NULL,
+  decision_reference TEXT NOT NULL,
+  decision_date DATE,
+  firm_name TEXT,
+  product_group TEXT,
+  outcome TEXT NOT NULL DEFAULT 'unknown',
+  decision_summary TEXT,
+  note TEXT,
+  pinned_by TEXT,
+  pinned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT complaint_pinned_decisions_unique UNIQUE (complaint_id, case_id)
+);
+CREATE INDEX IF NOT EXISTS idx_complaint_pinned_decisions_complaint ON complaint_pinned_decisions (complaint_id, pinned_at DESC);
+
+ALTER TABLE complaint_activities DROP CONSTRAINT IF EXISTS complaint_activities_activity_type_check;
+ALTER TABLE complaint_activities
+  ADD CONSTRAINT complaint_activities_activity_type_check CHECK (
+    activity_type IN (
+      'complaint_created', 'status_change', 'evidence_added', 'evidence_updated', 'evidence_archived', 'evidence_deleted',
+      'letter_generated', 'letter_submitted_for_review', 'letter_approved', 'letter_rejected', 'letter_sent', 'letter_superseded',
+      'note_added', 'action_created', 'action_updated', 'action_completed', 'action_deleted',
+      'decision_pinned', 'decision_unpinned',
+      'assigned', 'priority_change', 'fos_referred', 'resolved', 'closed'
+    )
+  );
+`;
+
+const COMPLAINTS_WORKSPACE_LETTER_DELIVERY_SQL = `
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE complaint_letters ADD COLUMN IF NOT EXISTS delivery_status TEXT;
+ALTER TABLE complaint_letters ADD COLUMN IF NOT EXISTS delivery_error TEXT;
+ALTER TABLE complaint_letters DROP CONSTRAINT IF EXISTS complaint_letters_delivery_status_check;
+ALTER TABLE complaint_letters
+  ADD CONSTRAINT complaint_letters_delivery_status_check CHECK (
+    delivery_status IS NULL OR delivery_status IN ('queued', 'sending', 'delivered', 'failed', 'bounced')
+  );
+
+CREATE TABLE IF NOT EXISTS complaint_letter_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  letter_id UUID NOT NULL REFERENCES complaint_letters(id) ON DELETE CASCADE,
+  complaint_id UUID NOT NULL REFERENCES complaints_records(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  transport TEXT NOT NULL,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  subject TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  message_id TEXT,
+  last_error TEXT,
+  requested_by TEXT,
+  requested_by_role TEXT NOT NULL DEFAULT 'operator',
+  delivered_at TIMESTAMPTZ,
+  bounced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT complaint_letter_outbox_status_check CHECK (status IN ('queued', 'sending', 'delivered', 'failed', 'bounced')),
+  CONSTRAINT complaint_letter_outbox_transport_check CHECK (transport IN ('smtp', 'file_outbox')),
+  CONSTRAINT complaint_letter_outbox_requested_by_role_check CHECK (requested_by_role IN ('operator', 'reviewer', 'manager', 'admin'))
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_complaint_letter_outbox_active_letter
+  ON complaint_letter_outbox (letter_id) WHERE status IN ('queued', 'sending');
+CREATE INDEX IF NOT EXISTS idx_complaint_letter_outbox_due ON complaint_letter_outbox (status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_complaint_letter_outbox_letter_created ON complaint_letter_outbox (letter_id, created_at DESC);
+
+ALTER TABLE complaint_activities DROP CONSTRAINT IF EXISTS complaint_activities_activity_type_check;
+ALTER TABLE complaint_activities
+  ADD CONSTRAINT complaint_activities_activity_type_check CHECK (
+    activity_type IN (
+      'complaint_created', 'status_change', 'evidence_added', 'evidence_updated', 'evidence_archived', 'evidence_deleted',
+      'letter_generated', 'letter_submitted_for_review', 'letter_approved', 'letter_rejected', 'letter_sent', 'letter_superseded',
+      'letter_delivery_queued', 'letter_delivery_failed', 'letter_bounced',
+      'note_added', 'action_created', 'action_updated', 'action_completed', 'action_deleted',
+      'decision_pinned', 'decision_unpinned',
+      'assigned', 'priority_change', 'fos_referred', 'resolved', 'closed'
+    )
+  );
+`;
+
+const COMPLAINTS_WORKSPACE_INBOUND_EMAIL_SQL = `
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS complaint_inbound_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_key TEXT NOT NULL,
+  message_id TEXT,
+  complaint_id UUID REFERENCES complaints_records(id) ON DELETE SET NULL,
+  matched_by TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'upload',
+  from_email TEXT,
+  from_name TEXT,
+  subject TEXT NOT NULL DEFAULT '',
+  sent_at TIMESTAMPTZ,
+  attachment_count INTEGER NOT NULL DEFAULT 0,
+  evidence_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  skipped_attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  received_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT complaint_inbound_emails_message_key_unique UNIQUE (message_key),
+  CONSTRAINT complaint_inbound_emails_matched_by_check CHECK (matched_by IN ('reply', 'reference', 'created')),
+  CONSTRAINT complaint_inbound_emails_source_check CHECK (source IN ('upload', 'mailbox'))
+);
+CREATE INDEX IF NOT EXISTS idx_complaint_inbound_emails_created ON complaint_inbound_emails (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_complaint_inbound_emails_complaint ON complaint_inbound_emails (complaint_id, created_at DESC);
+
+ALTER TABLE complaint_activities DROP CONSTRAINT IF EXISTS complaint_activities_activity_type_check;
+ALTER TABLE complaint_activities
+  ADD CONSTRAINT complaint_activities_activity_type_check CHECK (
+    activity_type IN (
+      'complaint_created', 'status_change', 'evidence_added', 'evidence_updated', 'evidence_archived', 'evidence_deleted',
+      'letter_generated', 'letter_submitted_for_review', 'letter_approved', 'letter_rejected', 'letter_sent', 'letter_superseded',
+      'letter_delivery_queued', 'letter_delivery_failed', 'letter_bounced', 'email_received',
+      'note_added', 'action_created', 'action_updated', 'action_completed', 'action_deleted',
+      'decision_pinned', 'decision_unpinned',
+      'assigned', 'priority_change', 'fos_referred', 'resolved', 'closed'
+    )
+  );
+`;
+
+const COMPLAINTS_WORKSPACE_SLA_CLOCK_SQL = `
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS sla_rule_set TEXT NOT NULL DEFAULT 'disp_standard';
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS sla_progress_label TEXT;
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS sla_final_label TEXT;
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS sla_paused_since DATE;
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS sla_paused_days INTEGER NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS idx_complaints_records_sla_paused ON complaints_records (sla_paused_since) WHERE sla_paused_since IS NOT NULL;
+
+ALTER TABLE complaints_workspace_settings ADD COLUMN IF NOT EXISTS sla_holiday_region TEXT NOT NULL DEFAULT 'england-and-wales';
+ALTER TABLE complaints_workspace_settings ADD COLUMN IF NOT EXISTS sla_rule_sets JSONB;
+ALTER TABLE complaints_workspace_settings DROP CONSTRAINT IF EXISTS complaints_workspace_settings_sla_holiday_region_check;
+ALTER TABLE complaints_workspace_settings
+  ADD CONSTRAINT complaints_workspace_settings_sla_holiday_region_check CHECK (sla_holiday_region IN ('england-and-wales', 'scotland', 'northern-ireland'));
+
+CREATE TABLE IF NOT EXISTS complaint_sla_pauses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID NOT NULL REFERENCES complaints_records(id) ON DELETE CASCADE,
+  paused_on DATE NOT NULL,
+  resumed_on DATE,
+  reason TEXT NOT NULL,
+  paused_by TEXT,
+  resumed_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT complaint_sla_pauses_dates_check CHECK (resumed_on IS NULL OR resumed_on >= paused_on)
+);
+CREATE INDEX IF NOT EXISTS idx_complaint_sla_pauses_complaint ON complaint_sla_pauses (complaint_id, paused_on);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_complaint_sla_pauses_open ON complaint_sla_pauses (complaint_id) WHERE resumed_on IS NULL;
+
+ALTER TABLE complaint_activities DROP CONSTRAINT IF EXISTS complaint_activities_activity_type_check;
+ALTER TABLE complaint_activities
+  ADD CONSTRAINT complaint_activities_activity_type_check CHECK (
+    activity_type IN (
+      'complaint_created', 'status_change', 'evidence_added', 'evidence_updated', 'evidence_archived', 'evidence_deleted',
+      'letter_generated', 'letter_submitted_for_review', 'letter_approved', 'letter_rejected', 'letter_sent', 'letter_superseded',
+      'letter_delivery_queued', 'letter_delivery_failed', 'letter_bounced', 'email_received',
+      'sla_clock_paused', 'sla_clock_resumed',
+      'note_added', 'action_created', 'action_updated', 'action_completed', 'action_deleted',
+      'decision_pinned', 'decision_unpinned',
+      'assigned', 'priority_change', 'fos_referred', 'resolved', 'closed'
+    )
+  );
+`;
+
+const COMPLAINTS_WORKSPACE_COMPLAINT_TYPE_SQL = `
+-- Free-text complaint types become the DISP classification. The original
+-- value is kept in legacy_complaint_type, and recognised spellings (the
+-- aliases in complaint-types.ts) map to their type.
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS legacy_complaint_type TEXT;
+
+UPDATE complaints_records
+SET legacy_complaint_type = COALESCE(legacy_complaint_type, complaint_type),
+  complaint_type = CASE TRIM(BOTH '_' FROM LOWER(REGEXP_REPLACE(COALESCE(complaint_type, ''), '[^A-Za-z0-9]+', '_', 'g')))
+    WHEN '' THEN 'standard'
+    WHEN 'general' THEN 'standard'
+    WHEN 'disp' THEN 'standard'
+    WHEN 'disp_standard' THEN 'standard'
+    WHEN 'service' THEN 'standard'
+    WHEN 'standard' THEN 'standard'
+    WHEN 'payment_services' THEN 'payment_services'
+    WHEN 'payment_service' THEN 'payment_services'
+    WHEN 'payments' THEN 'payment_services'
+    WHEN 'psd' THEN 'payment_services'
+    WHEN 'psd2' THEN 'payment_services'
+    WHEN 'psrs' THEN 'payment_services'
+    WHEN 'emd' THEN 'payment_services'
+    WHEN 'e_money' THEN 'payment_services'
+    WHEN 'emoney' THEN 'payment_services'
+    WHEN 'summary_resolution' THEN 'summary_resolution'
+    WHEN 'summary_resolution_communication' THEN 'summary_resolution'
+    WHEN 'src' THEN 'summary_resolution'
+    ELSE complaint_type
+  END
+WHERE complaint_type IS NULL OR complaint_type NOT IN ('standard', 'payment_services', 'summary_resolution');
+
+-- Anything still unrecognised is a standard DISP complaint. The count is
+-- raised as a warning so the fallbacks can be reviewed against the legacy column.
+DO $$
+DECLARE
+  defaulted INTEGER;
+BEGIN
+  UPDATE complaints_records
+  SET complaint_type = 'standard'
+  WHERE complaint_type IS NULL OR complaint_type NOT IN ('standard', 'payment_services', 'summary_resolution');
+  GET DIAGNOSTICS defaulted = ROW_COUNT;
+  IF defaulted > 0 THEN
+    RAISE WARNING '% complaint(s) had an unrecognised complaint_type and were classified as standard; originals are in legacy_complaint_type', defaulted;
+  END IF;
+END $$;
+
+ALTER TABLE complaints_records ALTER COLUMN complaint_type SET DEFAULT 'standard';
+ALTER TABLE complaints_records DROP CONSTRAINT IF EXISTS complaints_records_complaint_type_check;
+ALTER TABLE complaints_records
+  ADD CONSTRAINT complaints_records_complaint_type_check CHECK (complaint_type IN ('standard', 'payment_services', 'summary_resolution'));
+CREATE INDEX IF NOT EXISTS idx_complaints_records_complaint_type ON complaints_records (complaint_type);
+
+ALTER TABLE complaint_letters DROP CONSTRAINT IF EXISTS complaint_letters_template_key_check;
+ALTER TABLE complaint_letters
+  ADD CONSTRAINT complaint_letters_template_key_check CHECK (
+    template_key IN ('acknowledgement', 'holding_response', 'final_response', 'summary_resolution', 'fos_referral', 'custom')
+  );
+`;
+
+const COMPLAINTS_WORKSPACE_ASSIGNMENT_SQL = `
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS complaint_queues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  allocation_strategy TEXT NOT NULL DEFAULT 'round_robin',
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  last_assigned_user_id UUID REFERENCES app_users(id) ON DELETE SET NULL,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT complaint_queues_allocation_strategy_check CHECK (allocation_strategy IN ('manual', 'round_robin', 'least_loaded'))
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_complaint_queues_name ON complaint_queues (LOWER(name));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_complaint_queues_default ON complaint_queues (is_default) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS complaint_queue_members (
+  queue_id UUID NOT NULL REFERENCES complaint_queues(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (queue_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_complaint_queue_members_user ON complaint_queue_members (user_id);
+
+CREATE TABLE IF NOT EXISTS complaint_handler_capacity (
+  user_id UUID PRIMARY KEY REFERENCES app_users(id) ON DELETE CASCADE,
+  max_open_complaints INTEGER NOT NULL DEFAULT 20,
+  accepting_allocations BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT complaint_handler_capacity_range_check CHECK (max_open_complaints BETWEEN 0 AND 500)
+);
+
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS assigned_user_id UUID REFERENCES app_users(id) ON DELETE SET NULL;
+ALTER TABLE complaints_records ADD COLUMN IF NOT EXISTS queue_id UUID REFERENCES complaint_queues(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_complaints_records_assigned_user ON complaints_records (assigned_user_id, status);
+CREATE INDEX IF NOT EXISTS idx_complaints_records_queue ON complaints_records (queue_id, status);
+
+-- Link free-text owners to the one active handler whose email or full name matches.
+UPDATE complaints_records c
+SET assigned_user_id = matched.user_id,
+    assigned_to = matched.full_name
+FROM (
+  SELECT c2.id AS complaint_id, MIN(u.id::text)::uuid AS user_id, MIN(u.full_name) AS full_name
+  FROM complaints_records c2
+  JOIN app_users u
+    ON u.is_active
+   AND u.role IN ('operator', 'reviewer', 'manager', 'admin')
+   AND (LOWER(u.email) = LOWER(TRIM(c2.assigned_to)) OR LOWER(u.full_name) = LOWER(TRIM(c2.assigned_to)))
+  WHERE c2.assigned_user_id IS NULL
+    AND COALESCE(TRIM(c2.assigned_to), '') <> ''
+  GROUP BY c2.id
+  HAVING COUNT(DISTINCT u.id) = 1
+) matched
+WHERE c.id = matched.complaint_id;
+
+ALTER TABLE complaint_activities DROP CONSTRAINT IF EXISTS complaint_activities_activity_type_check;
+ALTER TABLE complaint_activities
+  ADD CONSTRAINT complaint_activities_activity_type_check CHECK (
+    activity_type IN (
+      'complaint_created', 'status_change', 'evidence_added', 'evidence_updated', 'evidence_archived', 'evidence_deleted',
+      'letter_generated', 'letter_submitted_for_review', 'letter_approved', 'letter_rejected', 'letter_sent', 'letter_superseded',
+      'letter_delivery_queued', 'letter_delivery_failed', 'letter_bounced', 'email_received',
+      'sla_clock_paused', 'sla_clock_resumed',
+      'note_added', 'action_created', 'action_updated', 'action_completed', 'action_deleted',
+      'decision_pinned', 'decision_unpinned',
+      'assigned', 'queue_changed', 'priority_change', 'fos_referred', 'resolved', 'closed'
+    )
+  );
+`;
+
 let schemaPromise: Promise<void> | null = null;
 let schemaReady = false;
 
@@ -519,6 +825,97 @@ const BOARD_PACK_DEFINITION_TABLES = [
   'board_pack_saved_definitions',
 ];
 
+const PINNED_DECISION_TABLES = [
+  'complaint_pinned_decisions',
+];
+
+const PINNED_DECISION_CONSTRAINTS = [
+  {
+    name: 'complaint_activities_activity_type_check',
+    includes: ['decision_pinned', 'decision_unpinned'],
+  },
+];
+
+const LETTER_DELIVERY_TABLES = [
+  'complaint_letter_outbox',
+];
+
+const LETTER_DELIVERY_COLUMNS = [
+  'delivery_status',
+  'delivery_error',
+];
+
+const LETTER_DELIVERY_CONSTRAINTS = [
+  {
+    name: 'complaint_activities_activity_type_check',
+    includes: ['letter_delivery_queued', 'letter_delivery_failed', 'letter_bounced'],
+  },
+];
+
+const INBOUND_EMAIL_TABLES = [
+  'complaint_inbound_emails',
+];
+
+const INBOUND_EMAIL_CONSTRAINTS = [
+  {
+    name: 'complaint_activities_activity_type_check',
+    includes: ['email_received'],
+  },
+];
+
+const SLA_CLOCK_TABLES = [
+  'complaint_sla_pauses',
+];
+
+const SLA_CLOCK_RECORD_COLUMNS = [
+  'sla_rule_set',
+  'sla_progress_label',
+  'sla_final_label',
+  'sla_paused_since',
+  'sla_paused_days',
+];
+
+const SLA_CLOCK_SETTINGS_COLUMNS = [
+  'sla_holiday_region',
+  'sla_rule_sets',
+];
+
+const SLA_CLOCK_CONSTRAINTS = [
+  {
+    name: 'complaint_activities_activity_type_check',
+    includes: ['sla_clock_paused', 'sla_clock_resumed'],
+  },
+];
+
+const COMPLAINT_TYPE_CONSTRAINTS = [
+  {
+    name: 'complaints_records_complaint_type_check',
+    includes: ['standard', 'payment_services', 'summary_resolution'],
+  },
+  {
+    name: 'complaint_letters_template_key_check',
+    includes: ['summary_resolution'],
+  },
+];
+
+const ASSIGNMENT_TABLES = [
+  'complaint_queues',
+  'complaint_queue_members',
+  'complaint_handler_capacity',
+];
+
+const ASSIGNMENT_RECORD_COLUMNS = [
+  'assigned_user_id',
+  'queue_id',
+];
+
+const ASSIGNMENT_CONSTRAINTS = [
+  {
+    name: 'complaint_activities_activity_type_check',
+    includes: ['queue_changed'],
+  },
+];
+
 const LETTER_REVIEW_COLUMNS = [
   'generated_by_role',
   'updated_by',
@@ -622,6 +1019,56 @@ export async function ensureComplaintsWorkspaceSchema(): Promise<void> {
     await ensureSchemaSql(COMPLAINTS_WORKSPACE_LETTER_REVIEW_SQL, [...LETTER_VERSIONING_TABLES, ...SETTINGS_TABLES]);
   }
 
+  // Runs after the letter review block because that block rewrites the activity type constraint.
+  const hasPinnedDecisionTables = await hasComplaintsWorkspaceTables(PINNED_DECISION_TABLES);
+  if (!hasPinnedDecisionTables || !await hasComplaintsWorkspaceConstraints(PINNED_DECISION_CONSTRAINTS)) {
+    await ensureSchemaSql(COMPLAINTS_WORKSPACE_PINNED_DECISIONS_SQL, PINNED_DECISION_TABLES);
+  }
+
+  // Runs after the pinned decisions block, which also rewrites the activity type constraint.
+  if (
+    !await hasComplaintsWorkspaceTables(LETTER_DELIVERY_TABLES)
+    || !await hasComplaintsWorkspaceColumns('complaint_letters', LETTER_DELIVERY_COLUMNS)
+    || !await hasComplaintsWorkspaceConstraints(LETTER_DELIVERY_CONSTRAINTS)
+  ) {
+    await ensureSchemaSql(COMPLAINTS_WORKSPACE_LETTER_DELIVERY_SQL, LETTER_DELIVERY_TABLES);
+  }
+
+  // Runs after the letter delivery block for the same reason.
+  if (!await hasComplaintsWorkspaceTables(INBOUND_EMAIL_TABLES) || !await hasComplaintsWorkspaceConstraints(INBOUND_EMAIL_CONSTRAINTS)) {
+    await ensureSchemaSql(COMPLAINTS_WORKSPACE_INBOUND_EMAIL_SQL, INBOUND_EMAIL_TABLES);
+  }
+
+  // Runs after the inbound email block for the same reason.
+  if (
+    !await hasComplaintsWorkspaceTables(SLA_CLOCK_TABLES)
+    || !await hasComplaintsWorkspaceColumns('complaints_records', SLA_CLOCK_RECORD_COLUMNS)
+    || !await hasComplaintsWorkspaceColumns('complaints_workspace_settings', SLA_CLOCK_SETTINGS_COLUMNS)
+    || !await hasComplaintsWorkspaceConstraints(SLA_CLOCK_CONSTRAINTS)
+  ) {
+    await ensureSchemaSql(COMPLAINTS_WORKSPACE_SLA_CLOCK_SQL, SLA_CLOCK_TABLES);
+  }
+
+  if (!await hasComplaintsWorkspaceConstraints(COMPLAINT_TYPE_CONSTRAINTS)) {
+    await ensureSchemaSql(COMPLAINTS_WORKSPACE_COMPLAINT_TYPE_SQL, BASE_TABLES);
+    const reclassified = await DatabaseClient.queryOne<{ count: number }>(
+      `SELECT COUNT(*)::INT AS count FROM complaints_records WHERE legacy_complaint_type IS NOT NULL AND complaint_type = 'standard'`
+    );
+    if (reclassified && reclassified.count > 0) {
+      console.warn(`[complaints] ${reclassified.count} free-text complaint type(s) now classified as standard; originals kept in legacy_complaint_type.`);
+    }
+  }
+
+  // Queues and owners reference app_users. Runs after the SLA clock block, which also rewrites the activity type constraint.
+  if (
+    !await hasComplaintsWorkspaceTables(ASSIGNMENT_TABLES)
+    || !await hasComplaintsWorkspaceColumns('complaints_records', ASSIGNMENT_RECORD_COLUMNS)
+    || !await hasComplaintsWorkspaceConstraints(ASSIGNMENT_CONSTRAINTS)
+  ) {
+    await ensureAuthSchema();
+    await ensureSchemaSql(COMPLAINTS_WORKSPACE_ASSIGNMENT_SQL, ASSIGNMENT_TABLES);
+  }
+
   if (
     await hasComplaintsWorkspaceTables(BASE_TABLES)
     && await hasComplaintsWorkspaceTables(EXTENSION_TABLES)
@@ -629,11 +1076,26 @@ export async function ensureComplaintsWorkspaceSchema(): Promise<void> {
     && await hasComplaintsWorkspaceTables(LETTER_VERSIONING_TABLES)
     && await hasComplaintsWorkspaceTables(ACTIONS_TABLES)
     && await hasComplaintsWorkspaceTables(BOARD_PACK_DEFINITION_TABLES)
+    && await hasComplaintsWorkspaceTables(PINNED_DECISION_TABLES)
+    && await hasComplaintsWorkspaceTables(LETTER_DELIVERY_TABLES)
+    && await hasComplaintsWorkspaceTables(INBOUND_EMAIL_TABLES)
+    && await hasComplaintsWorkspaceTables(SLA_CLOCK_TABLES)
     && await hasComplaintsWorkspaceColumns('complaint_evidence', EVIDENCE_MANAGEMENT_COLUMNS)
     && await hasComplaintsWorkspaceColumns('complaint_letters', LETTER_REVIEW_COLUMNS)
     && await hasComplaintsWorkspaceColumns('complaint_letter_versions', LETTER_VERSION_REVIEW_COLUMNS)
     && await hasComplaintsWorkspaceColumns('complaints_workspace_settings', SETTINGS_REVIEW_COLUMNS)
     && await hasComplaintsWorkspaceConstraints(EXPECTED_CONSTRAINT_DEFINITIONS)
+    && await hasComplaintsWorkspaceConstraints(PINNED_DECISION_CONSTRAINTS)
+    && await hasComplaintsWorkspaceColumns('complaint_letters', LETTER_DELIVERY_COLUMNS)
+    && await hasComplaintsWorkspaceConstraints(LETTER_DELIVERY_CONSTRAINTS)
+    && await hasComplaintsWorkspaceConstraints(INBOUND_EMAIL_CONSTRAINTS)
+    && await hasComplaintsWorkspaceColumns('complaints_records', SLA_CLOCK_RECORD_COLUMNS)
+    && await hasComplaintsWorkspaceColumns('complaints_workspace_settings', SLA_CLOCK_SETTINGS_COLUMNS)
+    && await hasComplaintsWorkspaceConstraints(SLA_CLOCK_CONSTRAINTS)
+    && await hasComplaintsWorkspaceConstraints(COMPLAINT_TYPE_CONSTRAINTS)
+    && await hasComplaintsWorkspaceTables(ASSIGNMENT_TABLES)
+    && await hasComplaintsWorkspaceColumns('complaints_records', ASSIGNMENT_RECORD_COLUMNS)
+    && await hasComplaintsWorkspaceConstraints(ASSIGNMENT_CONSTRAINTS)
   ) {
     schemaReady = true;
     return;
@@ -0,0 +1,223 @@
+import { normalizeComplaintType } from './complaint-types';
+import type {
+  ComplaintSlaDurationUnit,
+  ComplaintSlaHolidayRegion,
+  ComplaintSlaMilestoneRule,
+  ComplaintSlaPause,
+  ComplaintSlaRuleSet,
+  ComplaintType,
+} from './types';
+import { isUkBusinessDay } from './uk-bank-holidays';
+
+// Pure deadline calculation for the complaint clock. The repository stores the
+// result on the complaint (due dates, rule set, labels, pause state) so list
+// queries can filter on it without recomputing.
+
+export const DEFAULT_COMPLAINT_SLA_RULE_SET_KEY = 'disp_standard';
+
+export const DEFAULT_COMPLAINT_SLA_RULE_SETS: ComplaintSlaRuleSet[] = [
+  {
+    key: 'disp_standard',
+    label: 'DISP standard (8 weeks)',
+    complaintTypes: ['standard'],
+    progress: {
+      label: '4-week progress update',
+      description: 'Prepare and issue a four-week progress update if the complaint remains unresolved.',
+      amount: 28,
+      unit: 'calendar_days',
+    },
+    final: {
+      label: '8-week final response',
+      description: 'Prepare and issue the eight-week final response, including Ombudsman rights wording where required.',
+      amount: 56,
+      unit: 'calendar_days',
+    },
+  },
+  {
+    key: 'payment_services',
+    label: 'Payment services and e-money (15/35 business days)',
+    complaintTypes: ['payment_services'],
+    progress: {
+      label: '15-business-day response',
+      description: 'Issue the final response within 15 business days, or a holding reply explaining the delay and when the final response will follow.',
+      amount: 15,
+      unit: 'business_days',
+    },
+    final: {
+      label: '35-business-day final response',
+      description: 'Issue the final response, including Ombudsman rights wording, no later than 35 business days after receipt.',
+      amount: 35,
+      unit: 'business_days',
+    },
+  },
+  {
+    key: 'summary_resolution',
+    label: 'Summary resolution (3 business days)',
+    complaintTypes: ['summary_resolution'],
+    progress: {
+      label: '3-business-day resolution',
+      description: 'Resolve the complaint by the close of the third business day after receipt and send the summary resolution communication, or reclassify it as a standard complaint.',
+      amount: 3,
+      unit: 'business_days',
+    },
+    final: {
+      // Not resolved in time, the complaint falls back to the standard DISP timetable.
+      label: '8-week final response',
+      description: 'Prepare and issue the eight-week final response, including Ombudsman rights wording, if the complaint was not resolved within three business days.',
+      amount: 56,
+      unit: 'calendar_days',
+    },
+  },
+];
+
+const VALID_UNITS: ComplaintSlaDurationUnit[] = ['calendar_days', 'business_days'];
+const MAX_RULE_AMOUNT = 365;
+// Bounds the day walk; a year of calendar days plus a generous allowance for pauses.
+const MAX_WALK_DAYS = 3 * 366;
+
+export interface ComplaintSlaDeadlines {
+  ruleSet: ComplaintSlaRuleSet;
+  progressDueDate: string;
+  finalDueDate: string;
+  /** Start of the open pause, if the clock is currently stopped. */
+  pausedSince: string | null;
+  /** Calendar days stopped across completed pauses. */
+  pausedDays: number;
+}
+
+/** First rule set listing the complaint type, otherwise the DISP standard set (or the first set). */
+export function resolveComplaintSlaRuleSet(complaintType: string | null | undefined, ruleSets: ComplaintSlaRuleSet[]): ComplaintSlaRuleSet {
+  const available = ruleSets.length > 0 ? ruleSets : DEFAULT_COMPLAINT_SLA_RULE_SETS;
+  const type = normalizeComplaintType(complaintType);
+  return available.find((ruleSet) => type && ruleSet.complaintTypes.includes(type))
+    || available.find((ruleSet) => ruleSet.key === DEFAULT_COMPLAINT_SLA_RULE_SET_KEY)
+    || available[0];
+}
+
+/**
+ * Due dates for a complaint received on `receivedDate`. Days inside a
+ * completed pause do not count towards either deadline; business-day rules
+ * also skip weekends and the region's bank holidays. While a pause is open the
+ * dates are those the clock had reached when it stopped, and they move out by
+ * the paused period once it restarts.
+ */
+export function computeComplaintSlaDeadlines(input: {
+  receivedDate: string;
+  complaintType: string | null | undefined;
+  ruleSets: ComplaintSlaRuleSet[];
+  region: ComplaintSlaHolidayRegion;
+  pauses?: Array<Pick<ComplaintSlaPause, 'pausedOn' | 'resumedOn'>>;
+}): ComplaintSlaDeadlines {
+  const ruleSet = resolveComplaintSlaRuleSet(input.complaintType, input.ruleSets);
+  const completed = (input.pauses || []).filter((pause): pause is { pausedOn: string; resumedOn: string } => Boolean(pause.resumedOn));
+  const open = (input.pauses || []).find((pause) => !pause.resumedOn) || null;
+
+  return {
+    ruleSet,
+    progressDueDate: addComplaintClockDays(input.receivedDate, ruleSet.progress, input.region, completed),
+    finalDueDate: addComplaintClockDays(input.receivedDate, ruleSet.final, input.region, completed),
+    pausedSince: open?.pausedOn || null,
+    pausedDays: completed.reduce((total, pause) => total + Math.max(0, daysBetween(pause.pausedOn, pause.resumedOn)), 0),
+  };
+}
+
+/**
+ * Walks forward from the day after `start`, counting days that are outside
+ * every pause (`pausedOn` inclusive, `resumedOn` exclusive) and, for business
+ * days, are UK working days in the region.
+ */
+export function addComplaintClockDays(
+  start: string,
+  rule: Pick<ComplaintSlaMilestoneRule, 'amount' | 'unit'>,
+  region: ComplaintSlaHolidayRegion,
+  pauses: Array<{ pausedOn: string; resumedOn: string }> = []
+): string {
+  let date = start;
+  let counted = 0;
+  for (let step = 0; counted < rule.amount && step < MAX_WALK_DAYS; step += 1) {
+    date = shiftDate(date, 1);
+    if (pauses.some((pause) => date >= pause.pausedOn && date < pause.resumedOn)) continue;
+    if (rule.unit === 'business_days' && !isUkBusinessDay(date, region)) continue;
+    counted += 1;
+  }
+  return date;
+}
+
+/** Validates rule sets from settings input; falls back to the defaults when nothing usable is supplied. */
+export function normalizeComplaintSlaRuleSets(value: unknown): ComplaintSlaRuleSet[] {
+  if (!Array.isArray(value)) return DEFAULT_COMPLAINT_SLA_RULE_SETS.map(cloneRuleSet);
+  const seenKeys = new Set<string>();
+  const seenTypes = new Set<ComplaintType>();
+  const ruleSets: ComplaintSlaRuleSet[] = [];
+
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const raw = item as Record<string, unknown>;
+    const key = normalizeRuleSetKey(raw.key);
+    const progress = normalizeMilestoneRule(raw.progress);
+    const final = normalizeMilestoneRule(raw.final);
+    if (!key || seenKeys.has(key) || !progress || !final) continue;
+    seenKeys.add(key);
+    // A complaint type maps to one rule set; later duplicates are dropped.
+    const complaintTypes = (Array.isArray(raw.complaintTypes) ? raw.complaintTypes : [])
+      .map((type) => (type ? normalizeComplaintType(type) : null))
+      .filter((type): type is ComplaintType => Boolean(type) && !seenTypes.has(type as ComplaintType));
+    complaintTypes.forEach((type) => seenTypes.add(type));
+    ruleSets.push({
+      key,
+      label: String(raw.label || '').trim().slice(0, 120) || key,
+      complaintTypes: Array.from(new Set(complaintTypes)),
+      progress,
+      final,
+    });
+  }
+
+  return ruleSets.length > 0 ? ruleSets : DEFAULT_COMPLAINT_SLA_RULE_SETS.map(cloneRuleSet);
+}
+
+/**
+ * Appends default rule sets missing from saved settings, so a complaint type
+ * added after the settings were saved still gets its own deadlines. Types
+ * already mapped to another rule set stay where they are.
+ */
+export function withDefaultComplaintSlaRuleSets(ruleSets: ComplaintSlaRuleSet[]): ComplaintSlaRuleSet[] {
+  const keys = new Set(ruleSets.map((ruleSet) => ruleSet.key));
+  const mappedTypes = new Set(ruleSets.flatMap((ruleSet) => ruleSet.complaintTypes));
+  const missing = DEFAULT_COMPLAINT_SLA_RULE_SETS
+    .filter((ruleSet) => !keys.has(ruleSet.key))
+    .map((ruleSet) => ({ ...cloneRuleSet(ruleSet), complaintTypes: ruleSet.complaintTypes.filter((type) => !mappedTypes.has(type)) }));
+  return [...ruleSets, ...missing];
+}
+
+function normalizeRuleSetKey(value: unknown): string {
+  return String(value || '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+function normalizeMilestoneRule(value: unknown): ComplaintSlaMilestoneRule | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const amount = Math.round(Number(raw.amount));
+  const unit = VALID_UNITS.includes(raw.unit as ComplaintSlaDurationUnit) ? (raw.unit as ComplaintSlaDurationUnit) : null;
+  const label = String(raw.label || '').trim().slice(0, 120);
+  if (!Number.isFinite(amount) || amount < 1 || amount > MAX_RULE_AMOUNT || !unit || !label) return null;
+  return {
+    label,
+    description: String(raw.description || '').trim().slice(0, 500) || `Complete the ${label}.`,
+    amount,
+    unit,
+  };
+}
+
+function cloneRuleSet(ruleSet: ComplaintSlaRuleSet): ComplaintSlaRuleSet {
+  return { ...ruleSet, complaintTypes: [...ruleSet.complaintTypes], progress: { ...ruleSet.progress }, final: { ...ruleSet.final } };
+}
+
+function shiftDate(date: string, days: number): string {
+  const dt = new Date(`${date}T00:00:00Z`);
+  dt.setUTCDate(dt.getUTCDate() + days);
+  return dt.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (1000 * 60 * 60 * 24));
+}
@@ -1,8 +1,16 @@
+import type { FOSAdvisorRiskAssessment, FOSRiskPolicyReference } from '@/lib/fos/types';
+
 export type ComplaintStatus = 'open' | 'investigating' | 'resolved' | 'closed' | 'escalated' | 'referred_to_fos';
 export type ComplaintPriority = 'low' | 'medium' | 'high' | 'urgent';
+/** DISP classification; decides the deadline rule set, the response letter and the Ombudsman rights wording. */
+export type ComplaintType = 'standard' | 'payment_services' | 'summary_resolution';
 export type ComplaintEvidenceCategory = 'email' | 'statement' | 'screenshot' | 'call_recording' | 'policy_document' | 'letter' | 'other';
-export type ComplaintLetterTemplateKey = 'acknowledgement' | 'holding_response' | 'final_response' | 'fos_referral' | 'custom';
+export type ComplaintLetterTemplateKey = 'acknowledgement' | 'holding_response' | 'final_response' | 'summary_resolution' | 'fos_referral' | 'custom';
 export type ComplaintLetterStatus = 'draft' | 'generated' | 'under_review' | 'approved' | 'rejected_for_rework' | 'sent' | 'superseded';
+export type ComplaintLetterDeliveryStatus = 'queued' | 'sending' | 'delivered' | 'failed' | 'bounced';
+export type ComplaintLetterDeliveryTransportKind = 'smtp' | 'file_outbox';
+export type ComplaintInboundEmailSource = 'upload' | 'mailbox';
+export type ComplaintInboundEmailMatch = 'reply' | 'reference' | 'created';
 export type ComplaintLateReferralPosition = 'review_required' | 'consent' | 'do_not_consent' | 'custom';
 export type ComplaintLetterIntelligenceSourceScope = 'product_root_cause' | 'product_only' | 'none';
 export type ComplaintWorkspaceActorRole = 'operator' | 'reviewer' | 'manager' | 'admin';
@@ -10,6 +18,18 @@ export type ComplaintActionStatus = 'open' | 'in_progress' | 'completed' | 'canc
 export type ComplaintActionType = 'custom' | 'four_week_progress' | 'eight_week_final_response';
 export type ComplaintActionSource = 'manual' | 'system';
 export type ComplaintSlaState = 'on_track' | 'due_soon' | 'overdue' | 'closed';
+export type ComplaintSlaDurationUnit = 'calendar_days' | 'business_days';
+export type ComplaintSlaHolidayRegion = 'england-and-wales' | 'scotland' | 'northern-ireland';
+export type ComplaintAllocationStrategy = 'manual' | 'round_robin' | 'least_loaded';
+export type ComplaintOperationalRiskLevel = 'low' | 'medium' | 'high' | 'critical';
+export type ComplaintOperationalRiskFactorKey =
+  | 'sla_overdue'
+  | 'sla_due_soon'
+  | 'overdue_actions'
+  | 'letter_rework'
+  | 'evidence_gap'
+  | 'vulnerability';
+export type ComplaintSort = 'received_desc' | 'operational_risk_desc';
 export type ComplaintLetterReviewDecisionCode =
   | 'ready_to_issue'
   | 'reasoning_strengthened'
@@ -31,12 +51,21 @@ export type ComplaintActivityType =
   | 'letter_rejected'
   | 'letter_sent'
   | 'letter_superseded'
+  | 'letter_delivery_queued'
+  | 'letter_delivery_failed'
+  | 'letter_bounced'
+  | 'email_received'
+  | 'sla_clock_paused'
+  | 'sla_clock_resumed'
   | 'note_added'
   | 'action_created'
   | 'action_updated'
   | 'action_completed'
   | 'action_deleted'
+  | 'decision_pinned'
+  | 'decision_unpinned'
   | 'assigned'
+  | 'queue_changed'
   | 'priority_change'
   | 'fos_referred'
   | 'resolved'
@@ -69,19 +98,79 @@ export interface ComplaintSlaSummary {
   nextMilestoneDate: string | null;
   atRisk: boolean;
   overdue: boolean;
+  /** Rule set that produced the due dates, with its milestone labels. */
+  ruleSet: string;
+  progressLabel: string;
+  finalLabel: string;
+  /** Set while the clock is stopped; the due dates move out by the paused period when it restarts. */
+  clockPausedSince: string | null;
+  /** Calendar days the clock was stopped across completed pauses. */
+  clockPausedDays: number;
+}
+
+/** One deadline in an SLA rule set, counted from the day after receipt. */
+export interface ComplaintSlaMilestoneRule {
+  label: string;
+  description: string;
+  amount: number;
+  unit: ComplaintSlaDurationUnit;
+}
+
+/**
+ * Deadline rules for a group of complaint types. `progress` fills the
+ * four-week slot and `final` the eight-week slot on the complaint record.
+ */
+export interface ComplaintSlaRuleSet {
+  key: string;
+  label: string;
+  /** Normalized complaint types (lower-case, underscores) that use this rule set. */
+  complaintTypes: ComplaintType[];
+  progress: ComplaintSlaMilestoneRule;
+  final: ComplaintSlaMilestoneRule;
+}
+
+/** A period during which the complaint clock was stopped, e.g. awaiting information from the customer. */
+export interface ComplaintSlaPause {
+  id: string;
+  complaintId: string;
+  pausedOn: string;
+  resumedOn: string | null;
+  reason: string;
+  pausedBy: string | null;
+  resumedBy: string | null;
+  createdAt: string;
+}
+
+export interface ComplaintOperationalRiskFactor {
+  key: ComplaintOperationalRiskFactorKey;
+  label: string;
+  points: number;
+}
+
+/**
+ * Handling-risk signal for an open complaint, scored from SLA state, overdue
+ * actions, letter rework, evidence gaps and vulnerability indicators. Closed
+ * complaints score zero. Independent of Uphold Risk.
+ */
+export interface ComplaintOperationalRisk {
+  level: ComplaintOperationalRiskLevel;
+  score: number;
+  factors: ComplaintOperationalRiskFactor[];
 }
 
 export interface ComplaintRecord {
   id: string;
   complaintReference: string;
   linkedFosCaseId: string | null;
+  /** When the linked FOS decision was last republished with a different PDF; set on register and detail reads. */
+  linkedFosRevisedAt?: string | null;
   complainantName: string;
   complainantEmail: string | null;
   complainantPhone: string | null;
   complainantAddress: string | null;
   firmName: string;
   product: string | null;
-  complaintType: string;
+  complaintType: ComplaintType;
   complaintCategory: string;
   description: string | null;
   receivedDate: string;
@@ -98,7 +187,10 @@ export interface ComplaintRecord {
   fosOutcome: string | null;
   status: ComplaintStatus;
   priority: ComplaintPriority;
+  /** Display name of the owner; matches the linked user's name when `assignedUserId` is set. */
   assignedTo: string | null;
+  assignedUserId: string | null;
+  queueId: string | null;
   notes: string | null;
   evidenceCount?: number;
   latestLetterStatus?: ComplaintLetterStatus | null;
@@ -107,6 +199,9 @@ export interface ComplaintRecord {
   overdueActionCount?: number;
   dueSoonActionCount?: number;
   slaSummary?: ComplaintSlaSummary;
+  letterReworkCount?: number;
+  evidenceCategories?: ComplaintEvidenceCategory[];
+  operationalRisk?: ComplaintOperationalRisk;
   createdBy: string | null;
   updatedBy: string | null;
   createdAt: string;
@@ -125,6 +220,22 @@ export interface ComplaintActivity {
   createdAt: string;
 }
 
+/** A published FOS decision the handler has pinned to a complaint as a comparable. */
+export interface ComplaintPinnedDecision {
+  id: string;
+  complaintId: string;
+  caseId: string;
+  decisionReference: string;
+  decisionDate: string | null;
+  firmName: string | null;
+  productGroup: string | null;
+  outcome: string;
+  decisionSummary: string | null;
+  note: string | null;
+  pinnedBy: string | null;
+  pinnedAt: string;
+}
+
 export interface ComplaintEvidence {
   id: string;
   complaintId: string;
@@ -141,6 +252,35 @@ export interface ComplaintEvidence {
   createdAt: string;
 }
 
+/** Ledger entry for one ingested email; `messageKey` makes re-delivery of the same message a no-op. */
+export interface ComplaintInboundEmail {
+  id: string;
+  messageKey: string;
+  messageId: string | null;
+  complaintId: string | null;
+  complaintReference: string | null;
+  /** How the complaint was found: a reply to a sent letter, a reference in the subject, or drafted from the email. */
+  matchedBy: ComplaintInboundEmailMatch;
+  source: ComplaintInboundEmailSource;
+  fromEmail: string | null;
+  fromName: string | null;
+  subject: string;
+  sentAt: string | null;
+  attachmentCount: number;
+  evidenceIds: string[];
+  /** Attachments not stored as evidence, with the reason. */
+  skippedAttachments: Array<{ fileName: string; reason: string }>;
+  receivedBy: string | null;
+  createdAt: string;
+}
+
+export interface ComplaintInboundEmailResult {
+  email: ComplaintInboundEmail;
+  complaint: ComplaintRecord | null;
+  /** True when the message had already been ingested; nothing was stored. */
+  duplicate: boolean;
+}
+
 export interface ComplaintEvidencePreview {
   evidence: ComplaintEvidence;
   previewKind: 'image' | 'pdf' | 'text' | 'download';
@@ -174,10 +314,43 @@ export interface ComplaintLetter {
   approvedBy: string | null;
   approvedRole: ComplaintWorkspaceActorRole | null;
   sentAt: string | null;
+  /** Outcome of the latest delivery attempt; null until the letter is first sent. */
+  deliveryStatus: ComplaintLetterDeliveryStatus | null;
+  deliveryError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One outbox entry: a request to deliver a specific approved version of a letter. */
+export interface ComplaintLetterDelivery {
+  id: string;
+  letterId: string;
+  complaintId: string;
+  versionNumber: number;
+  transport: ComplaintLetterDeliveryTransportKind;
+  recipientEmail: string;
+  recipientName: string | null;
+  subject: string;
+  status: ComplaintLetterDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  messageId: string | null;
+  lastError: string | null;
+  requestedBy: string | null;
+  deliveredAt: string | null;
+  bouncedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ComplaintLetterOutboxRunResult {
+  processed: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
 export interface ComplaintLetterVersion {
   id: string;
   letterId: string;
@@ -215,9 +388,58 @@ export interface ComplaintWorkspaceSettings {
   currentActorRole: ComplaintWorkspaceActorRole;
   letterApprovalRole: ComplaintWorkspaceActorRole;
   requireIndependentReviewer: boolean;
+  /** Bank-holiday calendar used to count business days. */
+  slaHolidayRegion: ComplaintSlaHolidayRegion;
+  slaRuleSets: ComplaintSlaRuleSet[];
   updatedAt: string;
 }
 
+/** A team queue. Complaints placed in a queue without an owner are allocated to its members by `allocationStrategy`. */
+export interface ComplaintQueue {
+  id: string;
+  name: string;
+  description: string | null;
+  allocationStrategy: ComplaintAllocationStrategy;
+  /** New and imported complaints without a queue are placed in the default queue. */
+  isDefault: boolean;
+  memberUserIds: string[];
+  openComplaints: number;
+  unassignedComplaints: number;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** An active operator-or-above user who can own complaints, with their allocation capacity. */
+export interface ComplaintHandler {
+  userId: string;
+  fullName: string;
+  email: string;
+  role: string;
+  isActive: boolean;
+  /** Open complaints above which automatic allocation skips the handler; manual assignment is not limited. */
+  capacity: number;
+  acceptingAllocations: boolean;
+  queueIds: string[];
+}
+
+export interface ComplaintHandlerWorkload extends ComplaintHandler {
+  openComplaints: number;
+  dueSoonComplaints: number;
+  overdueComplaints: number;
+  urgentComplaints: number;
+}
+
+export interface ComplaintWorkload {
+  handlers: ComplaintHandlerWorkload[];
+  queues: ComplaintQueue[];
+  unassigned: {
+    openComplaints: number;
+    dueSoonComplaints: number;
+    overdueComplaints: number;
+  };
+}
+
 export interface ComplaintLetterIntelligenceTheme {
   theme: string;
   frequency: number;
@@ -236,6 +458,8 @@ export interface ComplaintLetterIntelligenceSampleCase {
   firmName: string | null;
   outcome: string;
   summary: string | null;
+  /** True when the handler pinned this decision to the complaint rather than it being sampled from the corpus. */
+  pinned?: boolean;
 }
 
 export interface ComplaintLetterComparableCaseReview {
@@ -263,8 +487,12 @@ export interface ComplaintLetterIntelligence {
     upheldRate: number;
     notUpheldRate: number;
     overallUpheldRate: number;
-    upholdRiskLevel: 'low' | 'medium' | 'high' | 'very_high';
+    upholdRiskLevel: 'insufficient_data' | 'low' | 'medium' | 'high' | 'very_high';
+    adjustedUpheldRate: number;
+    baselineUpheldRate: number | null;
+    confidenceInterval: FOSAdvisorRiskAssessment['confidenceInterval'];
     trendDirection: 'improving' | 'stable' | 'worsening';
+    riskPolicy: FOSRiskPolicyReference;
   };
   draftingGuidance: {
     reviewPoints: string[];
@@ -317,11 +545,17 @@ export interface ComplaintFilters {
   firm: string;
   product: string;
   assignedTo: string;
+  /** A user id, or `unassigned` for complaints without a linked owner. */
+  assignedUserId: string;
+  /** A queue id, or `none` for complaints outside every queue. */
+  queueId: string;
   reviewer: string;
   letterStatus: ComplaintLetterStatus | 'all';
   hasEvidence: 'all' | 'yes' | 'no';
   slaState: ComplaintSlaState | 'all';
+  complaintType: ComplaintType | 'all';
   fosReferred: 'all' | 'yes' | 'no';
+  sort: ComplaintSort;
   page: number;
   pageSize: number;
 }
@@ -393,6 +627,10 @@ export interface ComplaintImportRun {
   warnings: string[];
 }
 
+export type ComplaintQueueInput = Partial<Pick<ComplaintQueue, 'name' | 'description' | 'allocationStrategy' | 'isDefault' | 'memberUserIds'>>;
+
+export type ComplaintHandlerCapacityInput = Partial<Pick<ComplaintHandler, 'capacity' | 'acceptingAllocations'>>;
+
 export type ComplaintWorkspaceSettingsInput = Partial<Omit<ComplaintWorkspaceSettings, 'updatedAt'>>;
 
 export type ComplaintActionMutationInput = Partial<Omit<ComplaintAction, 'id' | 'complaintId' | 'source' | 'createdAt' | 'updatedAt'>> & {
@@ -400,8 +638,12 @@ export type ComplaintActionMutationInput = Partial<Omit<ComplaintAction, 'id' |
   source?: ComplaintActionSource;
 };
 
-export type ComplaintMutationInput = Partial<Omit<ComplaintRecord, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>> & {
+export type ComplaintMutationInput = Partial<Omit<ComplaintRecord, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy' | 'complaintType'>> & {
   complaintReference?: string;
+  /** A `ComplaintType` key or a recognised alias such as `psd`; anything else is rejected. */
+  complaintType?: string;
+  /** Queue name, as an alternative to `queueId` (used by imports). */
+  queue?: string | null;
   createdBy?: string | null;
   updatedBy?: string | null;
 };
@@ -423,6 +665,18 @@ export const COMPLAINT_WORKSPACE_ACTOR_ROLES: ComplaintWorkspaceActorRole[] = [
   'admin',
 ];
 
+export const COMPLAINT_SLA_HOLIDAY_REGIONS: Array<{ key: ComplaintSlaHolidayRegion; label: string }> = [
+  { key: 'england-and-wales', label: 'England and Wales' },
+  { key: 'scotland', label: 'Scotland' },
+  { key: 'northern-ireland', label: 'Northern Ireland' },
+];
+
+export const COMPLAINT_ALLOCATION_STRATEGIES: Array<{ key: ComplaintAllocationStrategy; label: string; description: string }> = [
+  { key: 'round_robin', label: 'Round robin', description: 'Each new complaint goes to the next member in turn who has capacity.' },
+  { key: 'least_loaded', label: 'Least loaded', description: 'Each new complaint goes to the member with the lowest share of their capacity in use.' },
+  { key: 'manual', label: 'Manual', description: 'Complaints wait in the queue until someone assigns them.' },
+];
+
 export const COMPLAINT_ACTION_STATUSES: ComplaintActionStatus[] = [
   'open',
   'in_progress',
@@ -446,10 +700,43 @@ export const COMPLAINT_LETTER_REVIEW_DECISION_CODES: ComplaintLetterReviewDecisi
   'other',
 ];
 
+export const COMPLAINT_TYPES: Array<{
+  key: ComplaintType;
+  label: string;
+  description: string;
+  /** Default SLA rule set for the type; workspace settings can map types to other rule sets. */
+  slaRuleSet: string;
+  /** Letter that closes the complaint for this type. */
+  responseTemplateKey: ComplaintLetterTemplateKey;
+}> = [
+  {
+    key: 'standard',
+    label: 'Standard DISP complaint',
+    description: 'Final response within eight weeks of receipt (DISP 1.6).',
+    slaRuleSet: 'disp_standard',
+    responseTemplateKey: 'final_response',
+  },
+  {
+    key: 'payment_services',
+    label: 'Payment services / e-money',
+    description: 'Final response within 15 business days, or 35 business days in exceptional circumstances (DISP 1.6.2A).',
+    slaRuleSet: 'payment_services',
+    responseTemplateKey: 'final_response',
+  },
+  {
+    key: 'summary_resolution',
+    label: 'Summary resolution',
+    description: 'Resolved by the close of the third business day after receipt and closed with a summary resolution communication (DISP 1.5).',
+    slaRuleSet: 'summary_resolution',
+    responseTemplateKey: 'summary_resolution',
+  },
+];
+
 export const COMPLAINT_LETTER_TEMPLATES: Array<{ key: ComplaintLetterTemplateKey; label: string; description: string }> = [
   { key: 'acknowledgement', label: 'Acknowledgement', description: 'Confirms receipt, scope, investigation steps, and expected timelines.' },
   { key: 'holding_response', label: 'Delay Response', description: 'Eight-week delay response with Ombudsman signposting, time-limit note, and next steps.' },
   { key: 'final_response', label: 'Final Response', description: 'Structured final response covering findings, redress, Ombudsman rights, and the late-referral review note.' },
+  { key: 'summary_resolution', label: 'Summary Resolution', description: 'Summary resolution communication for a complaint resolved within three business days, with Ombudsman rights.' },
   { key: 'fos_referral', label: 'FOS Referral', description: 'Explains when and how the complaint can be referred to FOS, including the late-referral review note.' },
   { key: 'custom', label: 'Custom Draft', description: 'Creates a manually-authored letter or response note.' },
 ];
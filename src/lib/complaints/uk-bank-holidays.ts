@@ -0,0 +1,166 @@
+import type { ComplaintSlaHolidayRegion } from './types';
+
+// UK bank holidays for England and Wales, Scotland and Northern Ireland. The
+// recurring holidays are generated from their statutory rules (including
+// weekend substitute days); one-off proclamations are listed in
+// PROCLAIMED_CHANGES. Add new proclamations there as they are announced.
+
+export interface UkBankHoliday {
+  date: string;
+  name: string;
+}
+
+interface ProclaimedChange {
+  regions: ComplaintSlaHolidayRegion[];
+  /** Removes the regular holiday of this name in the year. */
+  removes?: string;
+  add?: UkBankHoliday;
+}
+
+const ALL_REGIONS: ComplaintSlaHolidayRegion[] = ['england-and-wales', 'scotland', 'northern-ireland'];
+
+const PROCLAIMED_CHANGES: Record<number, ProclaimedChange[]> = {
+  2011: [
+    { regions: ALL_REGIONS, add: { date: '2011-04-29', name: 'Royal wedding' } },
+  ],
+  2012: [
+    { regions: ALL_REGIONS, removes: 'Spring bank holiday', add: { date: '2012-06-04', name: 'Spring bank holiday' } },
+    { regions: ALL_REGIONS, add: { date: '2012-06-05', name: 'Queen’s Diamond Jubilee' } },
+  ],
+  2020: [
+    { regions: ALL_REGIONS, removes: 'Early May bank holiday', add: { date: '2020-05-08', name: 'Early May bank holiday (VE day)' } },
+  ],
+  2022: [
+    { regions: ALL_REGIONS, removes: 'Spring bank holiday', add: { date: '2022-06-02', name: 'Spring bank holiday' } },
+    { regions: ALL_REGIONS, add: { date: '2022-06-03', name: 'Platinum Jubilee bank holiday' } },
+    { regions: ALL_REGIONS, add: { date: '2022-09-19', name: 'Bank holiday for the State Funeral of Queen Elizabeth II' } },
+  ],
+  2023: [
+    { regions: ALL_REGIONS, add: { date: '2023-05-08', name: 'Bank holiday for the coronation of King Charles III' } },
+  ],
+};
+
+const holidayCache = new Map<string, UkBankHoliday[]>();
+
+export function getUkBankHolidays(year: number, region: ComplaintSlaHolidayRegion): UkBankHoliday[] {
+  const cacheKey = `${region}:${year}`;
+  const cached = holidayCache.get(cacheKey);
+  if (cached) return cached;
+
+  const regular = withSubstituteDays(regularHolidays(year, region));
+  const changes = (PROCLAIMED_CHANGES[year] || []).filter((change) => change.regions.includes(region));
+  const removed = new Set(changes.map((change) => change.removes).filter(Boolean));
+  const holidays = [
+    ...regular.filter((holiday) => !removed.has(holiday.name)),
+    ...changes.flatMap((change) => (change.add ? [change.add] : [])),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  holidayCache.set(cacheKey, holidays);
+  return holidays;
+}
+
+export function isUkBankHoliday(date: string, region: ComplaintSlaHolidayRegion): boolean {
+  const year = Number(date.slice(0, 4));
+  return getUkBankHolidays(year, region).some((holiday) => holiday.date === date);
+}
+
+/** Monday to Friday and not a bank holiday in the region. */
+export function isUkBusinessDay(date: string, region: ComplaintSlaHolidayRegion): boolean {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !isUkBankHoliday(date, region);
+}
+
+function regularHolidays(year: number, region: ComplaintSlaHolidayRegion): UkBankHoliday[] {
+  const easter = easterSunday(year);
+  const holidays: UkBankHoliday[] = [
+    { date: isoDate(year, 1, 1), name: 'New Year’s Day' },
+    { date: shiftDays(easter, -2), name: 'Good Friday' },
+    { date: nthWeekday(year, 5, 1, 1), name: 'Early May bank holiday' },
+    { date: lastWeekday(year, 5, 1), name: 'Spring bank holiday' },
+    { date: isoDate(year, 12, 25), name: 'Christmas Day' },
+    { date: isoDate(year, 12, 26), name: 'Boxing Day' },
+  ];
+
+  if (region === 'scotland') {
+    holidays.push(
+      { date: isoDate(year, 1, 2), name: '2nd January' },
+      { date: nthWeekday(year, 8, 1, 1), name: 'Summer bank holiday' },
+      { date: isoDate(year, 11, 30), name: 'St Andrew’s Day' }
+    );
+  } else {
+    holidays.push(
+      { date: shiftDays(easter, 1), name: 'Easter Monday' },
+      { date: lastWeekday(year, 8, 1), name: 'Summer bank holiday' }
+    );
+  }
+
+  if (region === 'northern-ireland') {
+    holidays.push(
+      { date: isoDate(year, 3, 17), name: 'St Patrick’s Day' },
+      { date: isoDate(year, 7, 12), name: 'Battle of the Boyne (Orangemen’s Day)' }
+    );
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * A holiday falling on a weekend moves to the next weekday that is not already
+ * a holiday, so Christmas on a Saturday and Boxing Day on a Sunday become the
+ * 27th and 28th.
+ */
+function withSubstituteDays(holidays: UkBankHoliday[]): UkBankHoliday[] {
+  const taken = new Set(holidays.filter((holiday) => !isWeekend(holiday.date)).map((holiday) => holiday.date));
+  return holidays.map((holiday) => {
+    if (!isWeekend(holiday.date)) return holiday;
+    let date = holiday.date;
+    while (isWeekend(date) || taken.has(date)) date = shiftDays(date, 1);
+    taken.add(date);
+    return { date, name: `${holiday.name} (substitute day)` };
+  });
+}
+
+/** Anonymous Gregorian algorithm. */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return isoDate(year, month, day);
+}
+
+function nthWeekday(year: number, month: number, weekday: number, nth: number): string {
+  const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return isoDate(year, month, 1 + ((weekday - first + 7) % 7) + (nth - 1) * 7);
+}
+
+function lastWeekday(year: number, month: number, weekday: number): string {
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  const offset = (lastDay.getUTCDay() - weekday + 7) % 7;
+  return isoDate(year, month, lastDay.getUTCDate() - offset);
+}
+
+function isWeekend(date: string): boolean {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday === 0 || weekday === 6;
+}
+
+function shiftDays(date: string, days: number): string {
+  const dt = new Date(`${date}T00:00:00Z`);
+  dt.setUTCDate(dt.getUTCDate() + days);
+  return dt.toISOString().slice(0, 10);
+}
+
+function isoDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
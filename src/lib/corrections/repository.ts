@@ -0,0 +1,695 @@
+import type { PoolClient } from 'pg';
+import { pool, DatabaseClient } from '@/lib/database';
+import type { AuthenticatedAppUser } from '@/lib/auth/types';
+import { OUTCOME_LABELS } from '@/lib/fos/constants';
+import type { FOSOutcome } from '@/lib/fos/types';
+import {
+  caseIdExpression,
+  ensureDatabaseConfigured,
+  ensureFosDecisionsTableExists,
+  normalizeOutcome,
+  nullableString,
+  parseStringArray,
+  toInt,
+  toIsoDate,
+  toIsoTimestamp,
+} from '@/lib/fos/repo-helpers';
+import { getActiveTagRules, getTagRuleVersion } from '@/lib/tagging/repository';
+import type { TagField, TagRuleSet } from '@/lib/tagging/types';
+import { applyDecisionOverrides, type OverrideField } from '../../../scripts/lib/decision-overrides.mjs';
+import { MAX_TAGS_PER_FIELD, TAG_FIELDS, buildTagSource, compileTagRules, normalizeTagList, tagText } from '../../../scripts/lib/tag-rules.mjs';
+import { ensureCorrectionSchema } from './schema';
+import type {
+  CorrectionField,
+  CorrectionTagField,
+  CorrectionValue,
+  DecisionCorrectionInput,
+  DecisionCorrections,
+  DecisionLabels,
+  DecisionOverride,
+  DecisionOverrideAction,
+  DecisionOverrideEvent,
+  FieldAccuracy,
+  LabelQueueItem,
+  LabelQueueStatus,
+  LabelQueueSummary,
+  TaggerEvaluation,
+  TaggerFieldMetrics,
+  TaggerLabelMetrics,
+} from './types';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const FIELD_COLUMNS: Record<CorrectionField, OverrideField> = {
+  outcome: 'outcome',
+  product: 'product_sector',
+  precedents: 'precedents',
+  rootCauseTags: 'root_cause_tags',
+  vulnerabilityFlags: 'vulnerability_flags',
+};
+
+const TAG_CORRECTION_FIELDS: Record<CorrectionTagField, TagField> = {
+  precedents: 'precedents',
+  rootCauseTags: 'root_cause_tags',
+  vulnerabilityFlags: 'vulnerability_flags',
+};
+
+const CORRECTION_FIELDS = Object.keys(FIELD_COLUMNS) as CorrectionField[];
+const COLUMN_FIELDS = new Map(CORRECTION_FIELDS.map((field) => [FIELD_COLUMNS[field], field]));
+
+const MAX_NOTE_LENGTH = 1000;
+const MAX_PRODUCT_LENGTH = 120;
+const MAX_TAG_LENGTH = 80;
+const MAX_EVENTS = 50;
+const MAX_SAMPLE_SIZE = 100;
+const MAX_QUEUE_PAGE = 200;
+const MAX_GOLD_DECISIONS = 2000;
+/** Matches the cap in buildTagSource so evaluation sees the same text as the tagger. */
+const FULL_TEXT_SCAN_LENGTH = 18000;
+
+type CorrectionActor = Pick<AuthenticatedAppUser, 'id' | 'fullName'>;
+type CorrectionChange = { field: CorrectionField; value: CorrectionValue | null };
+
+const DECISION_LOOKUP_SQL = `
+  SELECT
+    d.decision_reference,
+    d.outcome,
+    d.product_sector,
+    d.precedents,
+    d.root_cause_tags,
+    d.vulnerability_flags
+  FROM fos_decisions d
+  WHERE ${caseIdExpression('d')} = $1
+     OR d.decision_reference = $1
+     OR COALESCE(d.pdf_sha256, '') = $1
+  LIMIT 1
+`;
+
+// ─── Corrections ─────────────────────────────────────────────────────────────
+
+export async function getDecisionCorrections(caseId: string): Promise<DecisionCorrections | null> {
+  await ensureReady();
+  const row = await DatabaseClient.queryOne<Record<string, unknown>>(DECISION_LOOKUP_SQL, [caseId]);
+  if (!row) return null;
+  const reference = requireReference(row);
+
+  const [overrideRows, eventRows, queueRow, active] = await Promise.all([
+    DatabaseClient.query<Record<string, unknown>>(
+      `SELECT * FROM fos_decision_overrides WHERE decision_reference = $1 ORDER BY field ASC`,
+      [reference]
+    ),
+    DatabaseClient.query<Record<string, unknown>>(
+      `
+        SELECT *
+        FROM fos_decision_override_events
+        WHERE decision_reference = $1
+        ORDER BY created_at DESC, field ASC
+        LIMIT ${MAX_EVENTS}
+      `,
+      [reference]
+    ),
+    DatabaseClient.queryOne<{ status: string }>(`SELECT status FROM fos_label_queue WHERE decision_reference = $1`, [reference]),
+    getActiveTagRules(),
+  ]);
+
+  const labelOptions = {} as DecisionCorrections['labelOptions'];
+  for (const [field, tagField] of Object.entries(TAG_CORRECTION_FIELDS) as Array<[CorrectionTagField, TagField]>) {
+    labelOptions[field] = active.rules[tagField].map((rule) => rule.label).sort((a, b) => a.localeCompare(b));
+  }
+
+  return {
+    decisionReference: reference,
+    labels: mapLabels(row),
+    overrides: overrideRows.map(mapOverride).filter((override): override is DecisionOverride => override !== null),
+    events: eventRows.map(mapEvent).filter((event): event is DecisionOverrideEvent => event !== null),
+    queueStatus: queueRow ? (String(queueRow.status) as LabelQueueStatus) : null,
+    labelOptions,
+  };
+}
+
+/**
+ * Records reviewer corrections and writes them through to `fos_decisions`. Tag labels are folded
+ * onto the active rules' canonical labels so "fca principles" and "PRIN" count as the same tag.
+ */
+export async function saveDecisionCorrections(
+  caseId: string,
+  input: DecisionCorrectionInput,
+  actor: CorrectionActor
+): Promise<DecisionCorrections | null> {
+  await ensureReady();
+  const aliasMaps = buildAliasMaps((await getActiveTagRules()).rules);
+  const changes = parseCorrectionInput(input, aliasMaps);
+  if (changes.length === 0) {
+    throw Object.assign(new Error('No corrections supplied.'), { status: 400 });
+  }
+
+  const reference = await withDecisionLock(caseId, async (client, row, decisionReference) => {
+    await writeCorrections(client, decisionReference, row, changes, { note: normalizeNote(input.note), actor });
+  });
+  return reference ? getDecisionCorrections(reference) : null;
+}
+
+// ─── Labelling queue ─────────────────────────────────────────────────────────
+
+/** Adds a random sample of decisions that have never been queued. Returns how many were added. */
+export async function sampleLabelQueue(size: number, actor: CorrectionActor): Promise<number> {
+  await ensureReady();
+  const limit = Math.max(1, Math.min(Math.trunc(size) || 0, MAX_SAMPLE_SIZE));
+  const rows = await DatabaseClient.query<{ decision_reference: string }>(
+    `
+      INSERT INTO fos_label_queue (decision_reference, sampled_by)
+      SELECT d.decision_reference, $2
+      FROM fos_decisions d
+      WHERE NULLIF(BTRIM(d.decision_reference), '') IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM fos_label_queue q WHERE q.decision_reference = d.decision_reference)
+      ORDER BY RANDOM()
+      LIMIT $1
+      ON CONFLICT (decision_reference) DO NOTHING
+      RETURNING decision_reference
+    `,
+    [limit, actor.fullName]
+  );
+  return rows.length;
+}
+
+export async function listLabelQueue(options: { status?: LabelQueueStatus; limit?: number } = {}): Promise<LabelQueueItem[]> {
+  await ensureReady();
+  const status = options.status || 'pending';
+  const limit = Math.max(1, Math.min(options.limit || 50, MAX_QUEUE_PAGE));
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT
+        q.*,
+        d.decision_date,
+        NULLIF(BTRIM(d.business_name), '') AS firm_name,
+        NULLIF(BTRIM(d.product_sector), '') AS product,
+        d.outcome
+      FROM fos_label_queue q
+      LEFT JOIN fos_decisions d ON d.decision_reference = q.decision_reference
+      WHERE q.status = $1
+      ORDER BY ${status === 'pending' ? 'q.sampled_at ASC' : 'q.reviewed_at DESC NULLS LAST'}, q.decision_reference ASC
+      LIMIT $2
+    `,
+    [status, limit]
+  );
+  return rows.map(mapQueueItem);
+}
+
+export async function getLabelQueueSummary(): Promise<LabelQueueSummary> {
+  await ensureReady();
+  const rows = await DatabaseClient.query<{ status: string; count: number }>(
+    `SELECT status, COUNT(*)::INT AS count FROM fos_label_queue GROUP BY status`
+  );
+  const summary: LabelQueueSummary = { pending: 0, reviewed: 0, skipped: 0 };
+  for (const row of rows) {
+    if (row.status in summary) summary[row.status as LabelQueueStatus] = toInt(row.count);
+  }
+  return summary;
+}
+
+/**
+ * Confirming a queued decision pins every field as a correction, using the supplied values where
+ * given and the current ones otherwise, so the decision joins the gold set. Skipping leaves it
+ * untouched.
+ */
+export async function reviewLabelQueueItem(
+  reference: string,
+  input: { action: 'confirm' | 'skip'; corrections?: DecisionCorrectionInput },
+  actor: CorrectionActor
+): Promise<DecisionCorrections | null> {
+  await ensureReady();
+  const queued = await DatabaseClient.queryOne<{ status: string }>(`SELECT status FROM fos_label_queue WHERE decision_reference = $1`, [
+    reference,
+  ]);
+  if (!queued) return null;
+
+  const corrections = input.corrections || {};
+  const changes = input.action === 'confirm' ? parseCorrectionInput(corrections, buildAliasMaps((await getActiveTagRules()).rules)) : [];
+
+  const locked = await withDecisionLock(reference, async (client, row, decisionReference) => {
+    if (input.action === 'confirm') {
+      const current = mapLabels(row);
+      const supplied = new Map(changes.map((change) => [change.field, change.value]));
+      const confirmed: CorrectionChange[] = [];
+      for (const field of CORRECTION_FIELDS) {
+        const value = supplied.get(field) ?? current[field];
+        if (value != null) confirmed.push({ field, value });
+      }
+      await writeCorrections(client, decisionReference, row, confirmed, { note: normalizeNote(corrections.note), actor });
+    }
+
+    await client.query(
+      `
+        UPDATE fos_label_queue
+        SET status = $2, reviewed_by = $3, reviewed_at = NOW()
+        WHERE decision_reference = $1
+      `,
+      [decisionReference, input.action === 'confirm' ? 'reviewed' : 'skipped', actor.fullName]
+    );
+  });
+  return locked ? getDecisionCorrections(locked) : null;
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────────────
+
+/**
+ * Re-tags the gold set with a rule version (the active one by default) and scores the result
+ * against the corrected tags. Outcome and product accuracy compare the ingested values kept on
+ * each correction.
+ */
+export async function evaluateTagger(options: { versionId?: string | null; scope?: 'queue' | 'all' } = {}): Promise<TaggerEvaluation> {
+  await ensureReady();
+  const scope = options.scope === 'all' ? 'all' : 'queue';
+
+  let rules: TagRuleSet;
+  let ruleVersion: number;
+  let ruleState: TaggerEvaluation['ruleState'] = 'active';
+  if (options.versionId) {
+    const version = await getTagRuleVersion(options.versionId);
+    if (!version) {
+      throw Object.assign(new Error('Tag rule version not found.'), { status: 404 });
+    }
+    rules = version.rules;
+    ruleVersion = version.version;
+    ruleState = version.state;
+  } else {
+    const active = await getActiveTagRules();
+    rules = active.rules;
+    ruleVersion = active.version;
+  }
+
+  const overrideRows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      WITH gold AS (
+        SELECT o.decision_reference, MAX(o.updated_at) AS updated_at
+        FROM fos_decision_overrides o
+        WHERE $1 = 'all'
+           OR EXISTS (
+             SELECT 1 FROM fos_label_queue q
+             WHERE q.decision_reference = o.decision_reference AND q.status = 'reviewed'
+           )
+        GROUP BY o.decision_reference
+        ORDER BY updated_at DESC
+        LIMIT $2
+      )
+      SELECT o.decision_reference, o.field, o.value, o.machine_value
+      FROM fos_decision_overrides o
+      JOIN gold g ON g.decision_reference = o.decision_reference
+    `,
+    [scope, MAX_GOLD_DECISIONS]
+  );
+
+  const goldReferences = new Set(overrideRows.map((row) => String(row.decision_reference)));
+  const tagReferences = Array.from(
+    new Set(overrideRows.filter((row) => TAG_FIELDS.includes(String(row.field) as TagField)).map((row) => String(row.decision_reference)))
+  );
+
+  const compiled = compileTagRules(rules);
+  const predictions = new Map<string, ReturnType<typeof tagText>>();
+  if (tagReferences.length > 0) {
+    const textRows = await DatabaseClient.query<Record<string, unknown>>(
+      `
+        SELECT
+          decision_reference,
+          decision_logic,
+          decision_summary,
+          complaint_text,
+          firm_response_text,
+          ombudsman_reasoning_text,
+          final_decision_text,
+          LEFT(full_text, ${FULL_TEXT_SCAN_LENGTH}) AS full_text
+        FROM fos_decisions
+        WHERE decision_reference = ANY($1::TEXT[])
+      `,
+      [tagReferences]
+    );
+    for (const row of textRows) {
+      const text = buildTagSource({
+        decisionLogic: nullableString(row.decision_logic),
+        decisionSummary: nullableString(row.decision_summary),
+        complaint: nullableString(row.complaint_text),
+        firmResponse: nullableString(row.firm_response_text),
+        reasoning: nullableString(row.ombudsman_reasoning_text),
+        finalDecision: nullableString(row.final_decision_text),
+        fullText: nullableString(row.full_text),
+      });
+      predictions.set(String(row.decision_reference), tagText(text, compiled));
+    }
+  }
+
+  const fields: TaggerFieldMetrics[] = TAG_FIELDS.map((tagField) => {
+    const aliasMap = compiled[tagField].aliasMap;
+    const labelStats = new Map<string, TaggerLabelMetrics>();
+    const statFor = (label: string) => {
+      const key = label.toLowerCase();
+      let stat = labelStats.get(key);
+      if (!stat) {
+        stat = { label, support: 0, predicted: 0, truePositives: 0, precision: null, recall: null };
+        labelStats.set(key, stat);
+      }
+      return stat;
+    };
+
+    let decisions = 0;
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+    for (const row of overrideRows) {
+      if (row.field !== tagField) continue;
+      const prediction = predictions.get(String(row.decision_reference));
+      if (!prediction) continue;
+      decisions += 1;
+
+      const gold = normalizeTagList(parseStringArray(row.value), aliasMap);
+      const goldKeys = new Set(gold.map((label) => label.toLowerCase()));
+      const predicted = prediction[tagField].labels;
+      const predictedKeys = new Set(predicted.map((label) => label.toLowerCase()));
+
+      for (const label of gold) {
+        const stat = statFor(label);
+        stat.support += 1;
+        if (predictedKeys.has(label.toLowerCase())) {
+          stat.truePositives += 1;
+          truePositives += 1;
+        } else {
+          falseNegatives += 1;
+        }
+      }
+      for (const label of predicted) {
+        statFor(label).predicted += 1;
+        if (!goldKeys.has(label.toLowerCase())) falsePositives += 1;
+      }
+    }
+
+    const precision = ratio(truePositives, truePositives + falsePositives);
+    const recall = ratio(truePositives, truePositives + falseNegatives);
+    return {
+      field: tagField,
+      decisions,
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision,
+      recall,
+      f1: precision != null && recall != null && precision + recall > 0 ? round((2 * precision * recall) / (precision + recall)) : null,
+      labels: Array.from(labelStats.values())
+        .map((stat) => ({
+          ...stat,
+          precision: ratio(stat.truePositives, stat.predicted),
+          recall: ratio(stat.truePositives, stat.support),
+        }))
+        .sort((a, b) => b.support - a.support || b.predicted - a.predicted || a.label.localeCompare(b.label)),
+    };
+  });
+
+  return {
+    scope,
+    ruleVersion,
+    ruleState,
+    goldDecisions: goldReferences.size,
+    fields,
+    outcome: fieldAccuracy(overrideRows, 'outcome', (value) => normalizeOutcome(value)),
+    product: fieldAccuracy(overrideRows, 'product_sector', (value) => value.trim().toLowerCase()),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────────
+
+async function ensureReady(): Promise<void> {
+  ensureDatabaseConfigured();
+  await ensureFosDecisionsTableExists();
+  await ensureCorrectionSchema();
+}
+
+/** Runs `work` in a transaction holding the decision row; returns the decision reference, or null when no decision matches. */
+async function withDecisionLock(
+  caseId: string,
+  work: (client: PoolClient, row: Record<string, unknown>, reference: string) => Promise<void>
+): Promise<string | null> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await client.query<Record<string, unknown>>(`${DECISION_LOOKUP_SQL} FOR UPDATE`, [caseId]);
+    const row = result.rows[0];
+    if (!row) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    const reference = requireReference(row);
+    await work(client, row, reference);
+    await client.query('COMMIT');
+    return reference;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function writeCorrections(
+  client: PoolClient,
+  reference: string,
+  row: Record<string, unknown>,
+  changes: CorrectionChange[],
+  options: { note: string | null; actor: CorrectionActor }
+): Promise<void> {
+  const existingRows = await client.query<Record<string, unknown>>(
+    `SELECT * FROM fos_decision_overrides WHERE decision_reference = $1 FOR UPDATE`,
+    [reference]
+  );
+  const existing = new Map<CorrectionField, DecisionOverride>();
+  for (const existingRow of existingRows.rows) {
+    const override = mapOverride(existingRow);
+    if (override) existing.set(override.field, override);
+  }
+  const current = mapLabels(row);
+
+  for (const change of changes) {
+    const column = FIELD_COLUMNS[change.field];
+    const previous = existing.get(change.field);
+
+    if (change.value === null) {
+      if (!previous) continue;
+      await client.query(`DELETE FROM fos_decision_overrides WHERE decision_reference = $1 AND field = $2`, [reference, column]);
+      await client.query(
+        `UPDATE fos_decisions SET ${column} = ${restoreExpression(change.field)}, updated_at = NOW() WHERE decision_reference = $1`,
+        [reference, previous.machineValue == null ? null : JSON.stringify(previous.machineValue)]
+      );
+      await insertEvent(client, reference, column, 'cleared', previous.value, previous.machineValue, options);
+      continue;
+    }
+
+    if (previous && valuesEqual(previous.value, change.value)) continue;
+
+    const currentValue = current[change.field];
+    const action: DecisionOverrideAction = currentValue != null && valuesEqual(currentValue, change.value) ? 'confirmed' : 'set';
+    const machineValue = previous ? previous.machineValue : currentValue;
+    await client.query(
+      `
+        INSERT INTO fos_decision_overrides (decision_reference, field, value, machine_value, note, created_by, updated_by)
+        VALUES ($1, $2, $3::jsonb, $4::jsonb, $5, $6, $6)
+        ON CONFLICT (decision_reference, field) DO UPDATE SET
+          value = EXCLUDED.value,
+          note = EXCLUDED.note,
+          updated_by = EXCLUDED.updated_by,
+          updated_at = NOW()
+      `,
+      [
+        reference,
+        column,
+        JSON.stringify(change.value),
+        machineValue == null ? null : JSON.stringify(machineValue),
+        options.note,
+        options.actor.fullName,
+      ]
+    );
+    await insertEvent(client, reference, column, action, previous?.value ?? currentValue, change.value, options);
+  }
+
+  await applyDecisionOverrides(client, { references: [reference] });
+}
+
+async function insertEvent(
+  client: PoolClient,
+  reference: string,
+  column: OverrideField,
+  action: DecisionOverrideAction,
+  previousValue: CorrectionValue | null,
+  value: CorrectionValue | null,
+  options: { note: string | null; actor: CorrectionActor }
+): Promise<void> {
+  await client.query(
+    `
+      INSERT INTO fos_decision_override_events (decision_reference, field, action, previous_value, value, note, actor)
+      VALUES ($1, $2, $3, $4::jsonb, $5::jsonb, $6, $7)
+    `,
+    [
+      reference,
+      column,
+      action,
+      previousValue == null ? null : JSON.stringify(previousValue),
+      value == null ? null : JSON.stringify(value),
+      options.note,
+      options.actor.fullName,
+    ]
+  );
+}
+
+/** SQL that puts a field back to its machine value ($2, JSON) when a correction is removed. */
+function restoreExpression(field: CorrectionField): string {
+  if (field === 'outcome') return `COALESCE($2::jsonb #>> '{}', outcome)`;
+  if (field === 'product') return `$2::jsonb #>> '{}'`;
+  return `COALESCE($2::jsonb, '[]'::jsonb)`;
+}
+
+function parseCorrectionInput(input: DecisionCorrectionInput, aliasMaps: Record<TagField, Map<string, string>>): CorrectionChange[] {
+  const changes: CorrectionChange[] = [];
+  for (const field of CORRECTION_FIELDS) {
+    if (!(field in input) || input[field] === undefined) continue;
+    const raw = input[field];
+    changes.push({ field, value: raw === null ? null : parseCorrectionValue(field, raw, aliasMaps) });
+  }
+  return changes;
+}
+
+function parseCorrectionValue(field: CorrectionField, raw: unknown, aliasMaps: Record<TagField, Map<string, string>>): CorrectionValue {
+  if (field === 'outcome') {
+    if (typeof raw !== 'string' || !(raw in OUTCOME_LABELS)) {
+      throw Object.assign(new Error(`Outcome must be one of: ${Object.keys(OUTCOME_LABELS).join(', ')}.`), { status: 400 });
+    }
+    return raw;
+  }
+
+  if (field === 'product') {
+    const product = typeof raw === 'string' ? raw.replace(/\s+/g, ' ').trim() : '';
+    if (!product || product.length > MAX_PRODUCT_LENGTH) {
+      throw Object.assign(new Error(`Product must be 1-${MAX_PRODUCT_LENGTH} characters.`), { status: 400 });
+    }
+    return product;
+  }
+
+  if (!Array.isArray(raw) || raw.some((value) => typeof value !== 'string')) {
+    throw Object.assign(new Error(`${field} must be a list of labels.`), { status: 400 });
+  }
+  const labels = normalizeTagList(raw, aliasMaps[TAG_CORRECTION_FIELDS[field]]);
+  if (labels.length > MAX_TAGS_PER_FIELD || labels.some((label) => label.length > MAX_TAG_LENGTH)) {
+    throw Object.assign(new Error(`${field} accepts up to ${MAX_TAGS_PER_FIELD} labels of at most ${MAX_TAG_LENGTH} characters.`), {
+      status: 400,
+    });
+  }
+  return labels;
+}
+
+function buildAliasMaps(rules: TagRuleSet): Record<TagField, Map<string, string>> {
+  const compiled = compileTagRules(rules);
+  return {
+    precedents: compiled.precedents.aliasMap,
+    root_cause_tags: compiled.root_cause_tags.aliasMap,
+    vulnerability_flags: compiled.vulnerability_flags.aliasMap,
+  };
+}
+
+function requireReference(row: Record<string, unknown>): string {
+  const reference = nullableString(row.decision_reference);
+  if (!reference) {
+    throw Object.assign(new Error('Only decisions with a decision reference can be corrected.'), { status: 422 });
+  }
+  return reference;
+}
+
+function normalizeNote(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim().slice(0, MAX_NOTE_LENGTH);
+  return trimmed || null;
+}
+
+/** Tag lists compare as sets; a reviewer's ordering carries no meaning. */
+function valuesEqual(left: CorrectionValue, right: CorrectionValue): boolean {
+  if (typeof left === 'string' || typeof right === 'string') return left === right;
+  if (left.length !== right.length) return false;
+  const keys = new Set(left.map((value) => value.toLowerCase()));
+  return right.every((value) => keys.has(value.toLowerCase()));
+}
+
+function fieldAccuracy(rows: Record<string, unknown>[], column: OverrideField, normalize: (value: string) => string): FieldAccuracy {
+  let decisions = 0;
+  let correct = 0;
+  for (const row of rows) {
+    if (row.field !== column || typeof row.machine_value !== 'string' || typeof row.value !== 'string') continue;
+    decisions += 1;
+    if (normalize(row.machine_value) === normalize(row.value)) correct += 1;
+  }
+  return { decisions, correct, accuracy: ratio(correct, decisions) };
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? round(numerator / denominator) : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function toCorrectionValue(value: unknown): CorrectionValue | null {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map((item) => String(item));
+  return null;
+}
+
+function mapLabels(row: Record<string, unknown>): DecisionLabels {
+  return {
+    outcome: normalizeOutcome(String(row.outcome || 'unknown')) as FOSOutcome,
+    product: nullableString(row.product_sector),
+    precedents: parseStringArray(row.precedents),
+    rootCauseTags: parseStringArray(row.root_cause_tags),
+    vulnerabilityFlags: parseStringArray(row.vulnerability_flags),
+  };
+}
+
+function mapOverride(row: Record<string, unknown>): DecisionOverride | null {
+  const field = COLUMN_FIELDS.get(String(row.field) as OverrideField);
+  const value = toCorrectionValue(row.value);
+  if (!field || value == null) return null;
+  return {
+    field,
+    value,
+    machineValue: toCorrectionValue(row.machine_value),
+    note: nullableString(row.note),
+    createdBy: nullableString(row.created_by),
+    updatedBy: nullableString(row.updated_by),
+    createdAt: toIsoTimestamp(row.created_at) || new Date().toISOString(),
+    updatedAt: toIsoTimestamp(row.updated_at) || new Date().toISOString(),
+  };
+}
+
+function mapEvent(row: Record<string, unknown>): DecisionOverrideEvent | null {
+  const field = COLUMN_FIELDS.get(String(row.field) as OverrideField);
+  if (!field) return null;
+  return {
+    id: String(row.id),
+    field,
+    action: String(row.action || 'set') as DecisionOverrideAction,
+    previousValue: toCorrectionValue(row.previous_value),
+    value: toCorrectionValue(row.value),
+    note: nullableString(row.note),
+    actor: nullableString(row.actor),
+    createdAt: toIsoTimestamp(row.created_at) || new Date().toISOString(),
+  };
+}
+
+function mapQueueItem(row: Record<string, unknown>): LabelQueueItem {
+  return {
+    decisionReference: String(row.decision_reference),
+    status: String(row.status || 'pending') as LabelQueueStatus,
+    sampledBy: nullableString(row.sampled_by),
+    sampledAt: toIsoTimestamp(row.sampled_at) || new Date().toISOString(),
+    reviewedBy: nullableString(row.reviewed_by),
+    reviewedAt: toIsoTimestamp(row.reviewed_at),
+    decisionDate: toIsoDate(row.decision_date),
+    firmName: nullableString(row.firm_name),
+    product: nullableString(row.product),
+    outcome: normalizeOutcome(String(row.outcome || 'unknown')),
+  };
+}
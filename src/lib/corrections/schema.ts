@@ -0,0 +1,63 @@
+import { DatabaseClient } from '@/lib/database';
+
+let ensurePromise: Promise<void> | null = null;
+let schemaReady = false;
+
+/** Mirrors db/migrations/20260402_fos_decision_corrections.sql. */
+export async function ensureCorrectionSchema(): Promise<void> {
+  if (schemaReady) return;
+  if (!ensurePromise) {
+    ensurePromise = DatabaseClient.query(`
+      CREATE TABLE IF NOT EXISTS fos_decision_overrides (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        decision_reference TEXT NOT NULL,
+        field TEXT NOT NULL,
+        value JSONB NOT NULL,
+        machine_value JSONB,
+        note TEXT,
+        created_by TEXT,
+        updated_by TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT fos_decision_overrides_field_check
+          CHECK (field IN ('outcome', 'product_sector', 'precedents', 'root_cause_tags', 'vulnerability_flags')),
+        CONSTRAINT fos_decision_overrides_unique UNIQUE (decision_reference, field)
+      );
+
+      CREATE TABLE IF NOT EXISTS fos_decision_override_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        decision_reference TEXT NOT NULL,
+        field TEXT NOT NULL,
+        action TEXT NOT NULL,
+        previous_value JSONB,
+        value JSONB,
+        note TEXT,
+        actor TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT fos_decision_override_events_action_check CHECK (action IN ('set', 'confirmed', 'cleared'))
+      );
+
+      CREATE INDEX IF NOT EXISTS fos_decision_override_events_reference_idx
+        ON fos_decision_override_events (decision_reference, created_at DESC);
+
+      CREATE TABLE IF NOT EXISTS fos_label_queue (
+        decision_reference TEXT PRIMARY KEY,
+        status TEXT NOT NULL DEFAULT 'pending',
+        sampled_by TEXT,
+        sampled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        reviewed_by TEXT,
+        reviewed_at TIMESTAMPTZ,
+        CONSTRAINT fos_label_queue_status_check CHECK (status IN ('pending', 'reviewed', 'skipped'))
+      );
+
+      CREATE INDEX IF NOT EXISTS fos_label_queue_status_idx
+        ON fos_label_queue (status, sampled_at);
+    `).then(() => {
+      schemaReady = true;
+    }).finally(() => {
+      ensurePromise = null;
+    });
+  }
+
+  await ensurePromise;
+}
@@ -0,0 +1,119 @@
+import type { FOSOutcome } from '@/lib/fos/types';
+import type { TagField } from '@/lib/tagging/types';
+
+/** Correctable decision fields, keyed as in `FOSCaseDetail`. */
+export type CorrectionField = 'outcome' | 'product' | 'precedents' | 'rootCauseTags' | 'vulnerabilityFlags';
+
+export type CorrectionTagField = Exclude<CorrectionField, 'outcome' | 'product'>;
+
+export interface DecisionLabels {
+  outcome: FOSOutcome;
+  product: string | null;
+  precedents: string[];
+  rootCauseTags: string[];
+  vulnerabilityFlags: string[];
+}
+
+export type CorrectionValue = string | string[];
+
+export interface DecisionOverride {
+  field: CorrectionField;
+  value: CorrectionValue;
+  /** What ingestion or the tagger last produced; null when it produced nothing. */
+  machineValue: CorrectionValue | null;
+  note: string | null;
+  createdBy: string | null;
+  updatedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DecisionOverrideAction = 'set' | 'confirmed' | 'cleared';
+
+export interface DecisionOverrideEvent {
+  id: string;
+  field: CorrectionField;
+  action: DecisionOverrideAction;
+  previousValue: CorrectionValue | null;
+  value: CorrectionValue | null;
+  note: string | null;
+  actor: string | null;
+  createdAt: string;
+}
+
+export type LabelQueueStatus = 'pending' | 'reviewed' | 'skipped';
+
+export interface DecisionCorrections {
+  decisionReference: string;
+  /** Current values, with corrections applied. */
+  labels: DecisionLabels;
+  overrides: DecisionOverride[];
+  events: DecisionOverrideEvent[];
+  queueStatus: LabelQueueStatus | null;
+  /** Labels the active tag rules can produce, offered as suggestions when correcting tags. */
+  labelOptions: Record<CorrectionTagField, string[]>;
+}
+
+/** A value sets the correction, `null` removes it and restores the machine value, and an absent key leaves it alone. */
+export type DecisionCorrectionInput = Partial<Record<CorrectionField, unknown>> & {
+  note?: string | null;
+};
+
+export interface LabelQueueItem {
+  decisionReference: string;
+  status: LabelQueueStatus;
+  sampledBy: string | null;
+  sampledAt: string;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  decisionDate: string | null;
+  firmName: string | null;
+  product: string | null;
+  outcome: FOSOutcome;
+}
+
+export type LabelQueueSummary = Record<LabelQueueStatus, number>;
+
+export interface TaggerLabelMetrics {
+  label: string;
+  /** Gold decisions carrying the label. */
+  support: number;
+  predicted: number;
+  truePositives: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface TaggerFieldMetrics {
+  field: TagField;
+  decisions: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  labels: TaggerLabelMetrics[];
+}
+
+export interface FieldAccuracy {
+  decisions: number;
+  correct: number;
+  accuracy: number | null;
+}
+
+/**
+ * Tagger scores against the gold set. `queue` limits the gold set to reviewed queue samples, which
+ * are random; `all` adds ad-hoc corrections, which skew towards decisions the tagger got wrong.
+ */
+export interface TaggerEvaluation {
+  scope: 'queue' | 'all';
+  ruleVersion: number;
+  ruleState: 'active' | 'draft' | 'superseded' | 'discarded';
+  goldDecisions: number;
+  fields: TaggerFieldMetrics[];
+  /** Ingested outcome and product against the corrected values. */
+  outcome: FieldAccuracy;
+  product: FieldAccuracy;
+  generatedAt: string;
+}
@@ -0,0 +1,316 @@
+import { pool, DatabaseClient } from '@/lib/database';
+import type { AuthenticatedAppUser } from '@/lib/auth/types';
+import type { FOSSectionSource } from '@/lib/fos/types';
+import {
+  caseIdExpression,
+  ensureDatabaseConfigured,
+  ensureFosDecisionsTableExists,
+  nullableString,
+  parseJsonValue,
+  toInt,
+  toIsoDate,
+  toIsoTimestamp,
+  toNumber,
+} from '@/lib/fos/repo-helpers';
+import {
+  SECTION_COLUMNS,
+  SECTION_KEYS,
+  SECTION_SPLITTER_VERSION,
+  readSectionCoverage,
+  sectionPresentSql,
+  sectionScoreSql,
+} from '../../../scripts/lib/section-quality.mjs';
+import type { SectionCoverage, SectionKey } from '../../../scripts/lib/section-quality.mjs';
+import { ensureDataQualitySchema } from './schema';
+import type {
+  SectionCoveragePoint,
+  SectionCoverageSource,
+  SectionQualityDecision,
+  SectionQualityFilters,
+  SectionQualityOverview,
+  SectionReprocessCriteria,
+  SectionReprocessRun,
+  SectionReprocessRunStatus,
+} from './types';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const TREND_LIMIT = 30;
+const RUN_LIMIT = 10;
+const DEFAULT_BATCH_LIMIT = 100;
+const MAX_BATCH = 500;
+const MAX_PRODUCT_LENGTH = 120;
+
+const SECTION_FIELDS: Record<SectionKey, keyof SectionQualityDecision['sectionSources']> = {
+  complaint: 'complaint',
+  firm_response: 'firmResponse',
+  ombudsman_reasoning: 'ombudsmanReasoning',
+  final_decision: 'finalDecision',
+};
+
+type ReprocessActor = Pick<AuthenticatedAppUser, 'id' | 'fullName'>;
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Section coverage now and over time, decisions with missing or unstored
+ * sections ranked worst first, and recent reprocess runs.
+ */
+export async function getSectionQualityOverview(filters: SectionQualityFilters = {}): Promise<SectionQualityOverview> {
+  await ensureReady();
+  const page = Math.max(1, Math.trunc(filters.page || 1));
+  const pageSize = Math.max(1, Math.min(Math.trunc(filters.pageSize || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE));
+  const scope = normalizeScope(filters);
+
+  const [coverage, snapshotRows, decisionRows, runRows] = await Promise.all([
+    readSectionCoverage(pool),
+    DatabaseClient.query<Record<string, unknown>>(
+      `SELECT * FROM fos_section_coverage_snapshots ORDER BY captured_at DESC LIMIT $1`,
+      [TREND_LIMIT]
+    ),
+    DatabaseClient.query<Record<string, unknown>>(
+      `
+        ${rankedDecisionsSql()}
+        SELECT *, COUNT(*) OVER()::INT AS total_count
+        FROM ranked
+        WHERE ($5::BOOLEAN IS FALSE OR reprocessable)
+        ORDER BY score ASC, decision_date DESC NULLS LAST, id ASC
+        LIMIT $6 OFFSET $7
+      `,
+      [
+        scope.productSector,
+        scope.yearFrom,
+        scope.yearTo,
+        SECTION_SPLITTER_VERSION,
+        Boolean(filters.reprocessableOnly),
+        pageSize,
+        (page - 1) * pageSize,
+      ]
+    ),
+    DatabaseClient.query<Record<string, unknown>>(
+      `SELECT * FROM fos_section_reprocess_runs ORDER BY created_at DESC LIMIT $1`,
+      [RUN_LIMIT]
+    ),
+  ]);
+
+  const total = toInt(decisionRows[0]?.total_count);
+  return {
+    splitterVersion: SECTION_SPLITTER_VERSION,
+    current: mapCoverage(coverage, new Date().toISOString(), 'live'),
+    trend: snapshotRows.reverse().map(mapSnapshot),
+    decisions: decisionRows.map(mapDecision),
+    pagination: { page, pageSize, total, totalPages: Math.max(1, Math.ceil(total / pageSize)) },
+    runs: runRows.map(mapRun),
+  };
+}
+
+/**
+ * Queues the listed decisions (by case id or reference), or else the `limit`
+ * lowest-scoring reprocessable decisions matching the filters, for
+ * `npm run db:reprocess-fos-sections`. Decisions without full text, or already
+ * split by the current splitter, are left out.
+ */
+export async function queueSectionReprocessRun(
+  input: SectionReprocessCriteria,
+  actor: ReprocessActor
+): Promise<SectionReprocessRun> {
+  const references = Array.isArray(input.references)
+    ? Array.from(new Set(input.references.map((value) => String(value).trim()).filter(Boolean)))
+    : [];
+  if (references.length > MAX_BATCH) {
+    throw Object.assign(new Error(`At most ${MAX_BATCH} decisions can be reprocessed at once.`), { status: 400 });
+  }
+  const limit = references.length > 0 ? references.length : Math.trunc(Number(input.limit ?? DEFAULT_BATCH_LIMIT));
+  if (!Number.isFinite(limit) || limit < 1 || limit > MAX_BATCH) {
+    throw Object.assign(new Error(`The batch size must be between 1 and ${MAX_BATCH}.`), { status: 400 });
+  }
+
+  await ensureReady();
+  const scope = normalizeScope(input);
+  const criteria: SectionReprocessCriteria =
+    references.length > 0 ? { references } : { limit, productSector: scope.productSector, yearFrom: scope.yearFrom, yearTo: scope.yearTo };
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const selected = await client.query<{ id: string }>(
+      references.length > 0
+        ? `
+            SELECT d.id::TEXT AS id
+            FROM fos_decisions d
+            WHERE (${caseIdExpression('d')} = ANY($1::TEXT[]) OR d.decision_reference = ANY($1::TEXT[]))
+              AND COALESCE(octet_length(d.full_text), 0) > 0
+              AND COALESCE(d.section_splitter_version, 1) < $2
+          `
+        : `
+            ${rankedDecisionsSql()}
+            SELECT id::TEXT AS id
+            FROM ranked
+            WHERE reprocessable
+            ORDER BY score ASC, decision_date DESC NULLS LAST, id ASC
+            LIMIT $5
+          `,
+      references.length > 0
+        ? [references, SECTION_SPLITTER_VERSION]
+        : [scope.productSector, scope.yearFrom, scope.yearTo, SECTION_SPLITTER_VERSION, limit]
+    );
+    const ids = selected.rows.map((row) => String(row.id));
+    if (ids.length === 0) {
+      throw Object.assign(
+        new Error('No matching decisions can be reprocessed: they have no full text or were already split by the current splitter.'),
+        { status: 409 }
+      );
+    }
+
+    const inserted = await client.query<{ id: string }>(
+      `
+        INSERT INTO fos_section_reprocess_runs (splitter_version, requested_by, decision_ids, criteria, total_decisions)
+        VALUES ($1, $2, $3::uuid[], $4::jsonb, $5)
+        RETURNING id
+      `,
+      [SECTION_SPLITTER_VERSION, actor.fullName, ids, JSON.stringify(criteria), ids.length]
+    );
+    await client.query('COMMIT');
+    const row = await DatabaseClient.queryOne<Record<string, unknown>>(`SELECT * FROM fos_section_reprocess_runs WHERE id = $1`, [
+      inserted.rows[0].id,
+    ]);
+    return mapRun(row!);
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+async function ensureReady(): Promise<void> {
+  ensureDatabaseConfigured();
+  await ensureFosDecisionsTableExists();
+  await ensureDataQualitySchema();
+}
+
+/**
+ * A `ranked` CTE of decisions missing at least one stored section, with
+ * parameters $1 product, $2 year from, $3 year to and $4 the current splitter version.
+ */
+function rankedDecisionsSql(): string {
+  const hasFullText = `COALESCE(octet_length(d.full_text), 0) > 0`;
+  const present = SECTION_KEYS.map((key) => sectionPresentSql(`d.${SECTION_COLUMNS[key]}`));
+  return `
+    WITH ranked AS (
+      SELECT
+        d.id,
+        ${caseIdExpression('d')} AS case_id,
+        d.decision_reference,
+        d.decision_date,
+        d.business_name,
+        d.product_sector,
+        COALESCE(d.section_splitter_version, 1) AS splitter_version,
+        ${SECTION_KEYS.map((key, index) => `${present[index]} AS has_${key}`).join(',\n        ')},
+        ${hasFullText} AS has_full_text,
+        ${hasFullText} AND COALESCE(d.section_splitter_version, 1) < $4 AS reprocessable,
+        ${sectionScoreSql('d')} AS score
+      FROM fos_decisions d
+      WHERE NOT (${present.join(' AND ')})
+        AND ($1::TEXT IS NULL OR d.product_sector ILIKE '%' || $1::TEXT || '%')
+        AND ($2::INT IS NULL OR EXTRACT(YEAR FROM d.decision_date)::INT >= $2::INT)
+        AND ($3::INT IS NULL OR EXTRACT(YEAR FROM d.decision_date)::INT <= $3::INT)
+    )
+  `;
+}
+
+function normalizeScope(input: { productSector?: string | null; yearFrom?: number | null; yearTo?: number | null }) {
+  const year = (value: unknown) => {
+    const parsed = Math.trunc(Number(value));
+    return value != null && value !== '' && Number.isFinite(parsed) && parsed >= 1990 && parsed <= 2100 ? parsed : null;
+  };
+  const productSector = nullableString(input.productSector)?.slice(0, MAX_PRODUCT_LENGTH) || null;
+  return { productSector, yearFrom: year(input.yearFrom), yearTo: year(input.yearTo) };
+}
+
+// ─── Mappers ─────────────────────────────────────────────────────────────────
+
+function pct(part: number, total: number): number {
+  if (!total) return 0;
+  return Number(((part / total) * 100).toFixed(2));
+}
+
+function mapCoverage(coverage: SectionCoverage, capturedAt: string, source: SectionCoverageSource): SectionCoveragePoint {
+  return {
+    capturedAt,
+    source,
+    total: coverage.total,
+    withFullText: coverage.withFullText,
+    coveragePct: {
+      complaint: pct(coverage.sections.complaint, coverage.total),
+      firmResponse: pct(coverage.sections.firm_response, coverage.total),
+      ombudsmanReasoning: pct(coverage.sections.ombudsman_reasoning, coverage.total),
+      finalDecision: pct(coverage.sections.final_decision, coverage.total),
+      complete: pct(coverage.complete, coverage.total),
+    },
+    averageScore: coverage.averageScore,
+  };
+}
+
+function mapSnapshot(row: Record<string, unknown>): SectionCoveragePoint {
+  return mapCoverage(
+    {
+      total: toInt(row.total_decisions),
+      withFullText: toInt(row.with_full_text),
+      sections: {
+        complaint: toInt(row.complaint),
+        firm_response: toInt(row.firm_response),
+        ombudsman_reasoning: toInt(row.ombudsman_reasoning),
+        final_decision: toInt(row.final_decision),
+      },
+      complete: toInt(row.complete),
+      averageScore: toNumber(row.average_score),
+    },
+    toIsoTimestamp(row.captured_at) || new Date(0).toISOString(),
+    String(row.source) as SectionCoverageSource
+  );
+}
+
+function mapDecision(row: Record<string, unknown>): SectionQualityDecision {
+  const hasFullText = Boolean(row.has_full_text);
+  const sectionSources = Object.fromEntries(
+    SECTION_KEYS.map((key) => {
+      const source: FOSSectionSource = row[`has_${key}`] ? 'stored' : hasFullText ? 'inferred' : 'missing';
+      return [SECTION_FIELDS[key], source];
+    })
+  ) as unknown as SectionQualityDecision['sectionSources'];
+
+  return {
+    caseId: String(row.case_id),
+    decisionReference: nullableString(row.decision_reference),
+    decisionDate: toIsoDate(row.decision_date),
+    firmName: nullableString(row.business_name),
+    productGroup: nullableString(row.product_sector),
+    sectionSources,
+    score: toNumber(row.score),
+    splitterVersion: toInt(row.splitter_version) || 1,
+    reprocessable: Boolean(row.reprocessable),
+  };
+}
+
+function mapRun(row: Record<string, unknown>): SectionReprocessRun {
+  return {
+    id: String(row.id),
+    splitterVersion: toInt(row.splitter_version),
+    status: String(row.status || 'queued') as SectionReprocessRunStatus,
+    requestedBy: nullableString(row.requested_by),
+    criteria: parseJsonValue<SectionReprocessCriteria>(row.criteria) || {},
+    totalDecisions: toInt(row.total_decisions),
+    processed: toInt(row.processed),
+    improved: toInt(row.improved),
+    sectionsAdded: toInt(row.sections_added),
+    error: nullableString(row.error),
+    createdAt: toIsoTimestamp(row.created_at) || new Date(0).toISOString(),
+    startedAt: toIsoTimestamp(row.started_at),
+    completedAt: toIsoTimestamp(row.completed_at),
+  };
+}
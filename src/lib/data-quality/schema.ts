@@ -0,0 +1,60 @@
+import { DatabaseClient } from '@/lib/database';
+
+let ensurePromise: Promise<void> | null = null;
+let schemaReady = false;
+
+/** Mirrors db/migrations/20260406_fos_section_quality.sql. Needs `fos_decisions` to exist. */
+export async function ensureDataQualitySchema(): Promise<void> {
+  if (schemaReady) return;
+  if (!ensurePromise) {
+    ensurePromise = DatabaseClient.query(`
+      ALTER TABLE fos_decisions ADD COLUMN IF NOT EXISTS section_splitter_version INTEGER;
+
+      CREATE TABLE IF NOT EXISTS fos_section_reprocess_runs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        splitter_version INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        requested_by TEXT,
+        decision_ids UUID[] NOT NULL DEFAULT '{}',
+        criteria JSONB NOT NULL DEFAULT '{}'::jsonb,
+        total_decisions INTEGER,
+        processed INTEGER NOT NULL DEFAULT 0,
+        improved INTEGER NOT NULL DEFAULT 0,
+        sections_added INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        started_at TIMESTAMPTZ,
+        completed_at TIMESTAMPTZ,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT fos_section_reprocess_runs_status_check CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled'))
+      );
+
+      CREATE INDEX IF NOT EXISTS fos_section_reprocess_runs_created_idx
+        ON fos_section_reprocess_runs (created_at DESC);
+
+      CREATE TABLE IF NOT EXISTS fos_section_coverage_snapshots (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        source TEXT NOT NULL,
+        total_decisions INTEGER NOT NULL,
+        with_full_text INTEGER NOT NULL,
+        complaint INTEGER NOT NULL,
+        firm_response INTEGER NOT NULL,
+        ombudsman_reasoning INTEGER NOT NULL,
+        final_decision INTEGER NOT NULL,
+        complete INTEGER NOT NULL,
+        average_score NUMERIC(6, 4) NOT NULL,
+        captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT fos_section_coverage_snapshots_source_check CHECK (source IN ('report', 'reprocess'))
+      );
+
+      CREATE INDEX IF NOT EXISTS fos_section_coverage_snapshots_captured_idx
+        ON fos_section_coverage_snapshots (captured_at DESC);
+    `).then(() => {
+      schemaReady = true;
+    }).finally(() => {
+      ensurePromise = null;
+    });
+  }
+
+  await ensurePromise;
+}
@@ -0,0 +1,83 @@
+import type { FOSCaseSectionSources, FOSPagination } from '@/lib/fos/types';
+
+export type SectionReprocessRunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** `live` is computed on request; the others are stored snapshots. */
+export type SectionCoverageSource = 'live' | 'report' | 'reprocess';
+
+/** A decision whose stored sections are incomplete, scored like `FOSCaseDetail.sectionConfidence`. */
+export interface SectionQualityDecision {
+  caseId: string;
+  decisionReference: string | null;
+  decisionDate: string | null;
+  firmName: string | null;
+  productGroup: string | null;
+  /** `inferred` means the section is not stored but the case view can look for it in the full text. */
+  sectionSources: FOSCaseSectionSources;
+  /** Mean section confidence, 0–1. */
+  score: number;
+  /** 1 for the original splitter. */
+  splitterVersion: number;
+  /** Has full text and was split by an older splitter, so reprocessing may help. */
+  reprocessable: boolean;
+}
+
+export interface SectionCoveragePoint {
+  capturedAt: string;
+  source: SectionCoverageSource;
+  total: number;
+  withFullText: number;
+  /** Percentage of decisions with each section stored; `complete` means all four. */
+  coveragePct: {
+    complaint: number;
+    firmResponse: number;
+    ombudsmanReasoning: number;
+    finalDecision: number;
+    complete: number;
+  };
+  averageScore: number;
+}
+
+export interface SectionReprocessCriteria {
+  references?: string[];
+  limit?: number;
+  productSector?: string | null;
+  yearFrom?: number | null;
+  yearTo?: number | null;
+}
+
+export interface SectionReprocessRun {
+  id: string;
+  splitterVersion: number;
+  status: SectionReprocessRunStatus;
+  requestedBy: string | null;
+  criteria: SectionReprocessCriteria;
+  totalDecisions: number;
+  processed: number;
+  /** Decisions that gained at least one stored section. */
+  improved: number;
+  sectionsAdded: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface SectionQualityFilters {
+  productSector?: string | null;
+  yearFrom?: number | null;
+  yearTo?: number | null;
+  reprocessableOnly?: boolean;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface SectionQualityOverview {
+  splitterVersion: number;
+  current: SectionCoveragePoint;
+  /** Stored snapshots, oldest first. */
+  trend: SectionCoveragePoint[];
+  decisions: SectionQualityDecision[];
+  pagination: FOSPagination;
+  runs: SectionReprocessRun[];
+}
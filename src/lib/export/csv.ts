@@ -1,4 +1,5 @@
 import type { FOSDashboardSnapshot, FOSAnalysisSnapshot } from '@/lib/fos/types';
+import type { FOSSavedSearchDigest } from '@/lib/saved-searches/types';
 
 /**
  * Escape a value for CSV output.
@@ -49,7 +50,8 @@ export function snapshotToCsv(snapshot: FOSDashboardSnapshot): string {
 
 /**
  * Generate CSV content from an analysis snapshot.
- * Includes two sections: Year-Product-Outcome data and Firm Benchmark data.
+ * Includes Year-Product-Outcome and Firm Benchmark sections, plus typical
+ * redress by award type once extraction has run.
  */
 export function analysisToCsv(snapshot: FOSAnalysisSnapshot): string {
   const sections: string[] = [];
@@ -92,9 +94,57 @@ export function analysisToCsv(snapshot: FOSAnalysisSnapshot): string {
   );
   sections.push(buildCsvRow(fbHeaders), ...fbRows);
 
+  // Section 3: Typical redress by award type, when extraction has run
+  if (snapshot.redress && snapshot.redress.byType.length > 0) {
+    sections.push('');
+    const redressHeaders = ['Award Type', 'Decisions', 'Share of Decisions With Redress', 'Median Amount (GBP)'];
+    const redressRows = snapshot.redress.byType.map((r) =>
+      buildCsvRow([r.type, r.decisions, `${r.share.toFixed(1)}%`, r.medianAmount == null ? '' : r.medianAmount.toFixed(2)])
+    );
+    sections.push(buildCsvRow(redressHeaders), ...redressRows);
+  }
+
   return sections.join('\n');
 }
 
+/**
+ * Generate CSV content from a saved-search digest: one row per new decision,
+ * prefixed with the saved search it matched.
+ */
+export function savedSearchDigestToCsv(digest: FOSSavedSearchDigest): string {
+  const headers = [
+    'Saved Search',
+    'New Since',
+    'New Decisions',
+    'Decision Reference',
+    'Decision Date',
+    'Firm Name',
+    'Product Group',
+    'Outcome',
+    'Imported At',
+  ];
+
+  const rows = digest.entries.flatMap((entry) =>
+    entry.decisions.length === 0
+      ? [buildCsvRow([entry.name, entry.since, entry.newDecisionCount, null, null, null, null, null, null])]
+      : entry.decisions.map((decision) =>
+          buildCsvRow([
+            entry.name,
+            entry.since,
+            entry.newDecisionCount,
+            decision.decisionReference,
+            decision.decisionDate,
+            decision.firmName,
+            decision.productGroup,
+            decision.outcome,
+            decision.importedAt,
+          ])
+        )
+  );
+
+  return [buildCsvRow(headers), ...rows].join('\n');
+}
+
 /**
  * Trigger a browser download of CSV content.
  */
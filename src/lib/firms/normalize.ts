@@ -0,0 +1,104 @@
+import type { FirmMatchSuggestion } from './types';
+
+/** Tokens that distinguish legal entities but not firms ("Lloyds Bank plc" vs "Lloyds Bank"). */
+const LEGAL_FORM_TOKENS = new Set([
+  'the',
+  'plc',
+  'ltd',
+  'limited',
+  'llp',
+  'lp',
+  'inc',
+  'incorporated',
+  'co',
+  'company',
+  'corp',
+  'corporation',
+  'uk',
+  'group',
+  'holdings',
+]);
+
+const DEFAULT_SUGGESTION_THRESHOLD = 0.72;
+
+/**
+ * Registry key for a raw firm name: lower case, runs of non-alphanumerics
+ * collapsed to a single space, trimmed. Must match `firmKeyExpression` in
+ * src/lib/fos/repo-helpers.ts so aliases resolve inside SQL.
+ */
+export function normalizeFirmKey(name: string): string {
+  return String(name || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** Firm key with legal-form and filler tokens removed; falls back to the full key when nothing else is left. */
+export function coreFirmKey(name: string): string {
+  const key = normalizeFirmKey(name);
+  const core = key
+    .split(' ')
+    .filter((token) => token && !LEGAL_FORM_TOKENS.has(token))
+    .join(' ')
+    .replace(/\band\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return core || key;
+}
+
+/** Sørensen–Dice similarity over character bigrams of the core keys, 0–1. */
+export function firmNameSimilarity(a: string, b: string): number {
+  const left = coreFirmKey(a).replace(/ /g, '');
+  const right = coreFirmKey(b).replace(/ /g, '');
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const gram = left.slice(i, i + 2);
+    bigrams.set(gram, (bigrams.get(gram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const gram = right.slice(i, i + 2);
+    const count = bigrams.get(gram) || 0;
+    if (count > 0) {
+      bigrams.set(gram, count - 1);
+      overlap += 1;
+    }
+  }
+
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+}
+
+/** Best registered firms for an unmapped name, scored against each firm's name and aliases. */
+export function rankFirmSuggestions(
+  name: string,
+  firms: Array<{ id: string; name: string; aliases: string[] }>,
+  options: { limit?: number; threshold?: number } = {}
+): FirmMatchSuggestion[] {
+  const threshold = options.threshold ?? DEFAULT_SUGGESTION_THRESHOLD;
+  const suggestions: FirmMatchSuggestion[] = [];
+
+  for (const firm of firms) {
+    let best: { score: number; alias: string } | null = null;
+    for (const candidate of [firm.name, ...firm.aliases]) {
+      const score = firmNameSimilarity(name, candidate);
+      if (!best || score > best.score) best = { score, alias: candidate };
+    }
+    if (best && best.score >= threshold) {
+      suggestions.push({
+        firmId: firm.id,
+        firmName: firm.name,
+        score: Math.round(best.score * 1000) / 1000,
+        matchedAlias: best.alias,
+      });
+    }
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score || a.firmName.localeCompare(b.firmName))
+    .slice(0, options.limit ?? 3);
+}
@@ -0,0 +1,601 @@
+import { pool, DatabaseClient } from '@/lib/database';
+import type { AuthenticatedAppUser } from '@/lib/auth/types';
+import {
+  ensureDatabaseConfigured,
+  firmKeyExpression,
+  isMissingRelationError,
+  nullableString,
+  parseJsonValue,
+  resetFirmRegistryCaches,
+  toInt,
+  toIsoTimestamp,
+} from '@/lib/fos/repo-helpers';
+import { normalizeFirmKey, rankFirmSuggestions } from './normalize';
+import { ensureFirmRegistrySchema } from './schema';
+import type {
+  FirmAlias,
+  FirmAliasSource,
+  FirmEvent,
+  FirmEventType,
+  FirmInput,
+  FirmRecord,
+  UnregisteredFirmName,
+} from './types';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const MAX_NAME_LENGTH = 200;
+const MAX_NOTES_LENGTH = 2000;
+const MAX_UNREGISTERED_NAMES = 200;
+const ALIAS_SOURCES: FirmAliasSource[] = ['manual', 'suggestion', 'merge', 'canonical'];
+
+type FirmActor = Pick<AuthenticatedAppUser, 'id' | 'fullName'>;
+type QueryClient = { query: (text: string, params?: unknown[]) => Promise<{ rows: Record<string, unknown>[]; rowCount: number | null }> };
+
+// ─── Firms ───────────────────────────────────────────────────────────────────
+
+export async function listFirms(): Promise<FirmRecord[]> {
+  await ensureReady();
+  const [firmRows, aliasRows, counts] = await Promise.all([
+    DatabaseClient.query<Record<string, unknown>>(
+      `
+        SELECT f.*, p.name AS parent_name
+        FROM fos_firms f
+        LEFT JOIN fos_firms p ON p.id = f.parent_id
+        ORDER BY LOWER(f.name) ASC
+      `
+    ),
+    DatabaseClient.query<Record<string, unknown>>(`SELECT * FROM fos_firm_aliases ORDER BY LOWER(alias) ASC`),
+    queryAliasDecisionCounts(),
+  ]);
+
+  return buildFirmRecords(firmRows, aliasRows, counts);
+}
+
+export async function getFirm(id: string): Promise<FirmRecord | null> {
+  await ensureReady();
+  const firmRows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT f.*, p.name AS parent_name
+      FROM fos_firms f
+      LEFT JOIN fos_firms p ON p.id = f.parent_id
+      WHERE f.id = $1 OR f.parent_id = $1
+    `,
+    [id]
+  );
+  if (!firmRows.some((row) => String(row.id) === id)) return null;
+
+  const [aliasRows, counts] = await Promise.all([
+    DatabaseClient.query<Record<string, unknown>>(
+      `SELECT * FROM fos_firm_aliases WHERE firm_id = $1 ORDER BY LOWER(alias) ASC`,
+      [id]
+    ),
+    queryAliasDecisionCounts(id),
+  ]);
+
+  return buildFirmRecords(firmRows, aliasRows, counts).find((firm) => firm.id === id) || null;
+}
+
+/** Registers a firm. Its name and any extra spellings become aliases in the same transaction. */
+export async function createFirm(input: FirmInput, actor: FirmActor): Promise<FirmRecord> {
+  await ensureReady();
+  const name = normalizeName(input.name);
+  const notes = normalizeNotes(input.notes);
+  const aliases = Array.isArray(input.aliases) ? input.aliases : [];
+
+  const client = await pool.connect();
+  let firmId: string;
+  try {
+    await client.query('BEGIN');
+    await assertNameAvailable(client, name, null);
+    if (input.parentId) await assertValidParent(client, input.parentId, null);
+
+    const inserted = await client.query<Record<string, unknown>>(
+      `
+        INSERT INTO fos_firms (name, parent_id, notes, created_by)
+        VALUES ($1, $2, $3, $4)
+        RETURNING id
+      `,
+      [name, input.parentId || null, notes, actor.fullName]
+    );
+    firmId = String(inserted.rows[0].id);
+
+    await insertAlias(client, firmId, name, 'canonical', actor);
+    for (const alias of aliases) {
+      if (typeof alias === 'string' && normalizeFirmKey(alias) && normalizeFirmKey(alias) !== normalizeFirmKey(name)) {
+        await insertAlias(client, firmId, alias, 'manual', actor);
+      }
+    }
+    await insertEvent(client, { firmId, firmName: name, eventType: 'created', actor, details: { parentId: input.parentId || null, aliases } });
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  resetFirmRegistryCaches();
+  return (await getFirm(firmId))!;
+}
+
+/**
+ * Renames a firm, moves it under a group (or out of one) and edits notes.
+ * A rename keeps the old spelling as an alias so existing decisions still resolve.
+ */
+export async function updateFirm(id: string, input: FirmInput, actor: FirmActor): Promise<FirmRecord | null> {
+  await ensureReady();
+  const current = await getFirm(id);
+  if (!current) return null;
+
+  const name = input.name === undefined ? current.name : normalizeName(input.name);
+  const parentId = input.parentId === undefined ? current.parentId : input.parentId || null;
+  const notes = input.notes === undefined ? current.notes : normalizeNotes(input.notes);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    if (name !== current.name) {
+      await assertNameAvailable(client, name, id);
+      if (!current.aliases.some((alias) => alias.aliasKey === normalizeFirmKey(name))) {
+        await insertAlias(client, id, name, 'canonical', actor);
+      }
+      await insertEvent(client, { firmId: id, firmName: name, eventType: 'renamed', actor, details: { from: current.name, to: name } });
+    }
+    if (parentId !== current.parentId) {
+      let parentName: string | null = null;
+      if (parentId) {
+        parentName = await assertValidParent(client, parentId, id);
+        if (current.children.length > 0) {
+          throw Object.assign(new Error(`${current.name} is a group with ${current.children.length} member firm(s) and cannot join another group.`), {
+            status: 409,
+          });
+        }
+      }
+      await insertEvent(client, {
+        firmId: id,
+        firmName: name,
+        eventType: 'parent_changed',
+        actor,
+        details: { from: current.parentId, fromName: current.parentName, to: parentId, toName: parentName },
+      });
+    }
+
+    await client.query(
+      `UPDATE fos_firms SET name = $2, parent_id = $3, notes = $4, updated_at = NOW() WHERE id = $1`,
+      [id, name, parentId, notes]
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  resetFirmRegistryCaches();
+  return getFirm(id);
+}
+
+/** Removes a firm and its aliases. Member firms are detached from the group rather than deleted. */
+export async function deleteFirm(id: string, actor: FirmActor): Promise<boolean> {
+  await ensureReady();
+  const current = await getFirm(id);
+  if (!current) return false;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(`DELETE FROM fos_firms WHERE id = $1`, [id]);
+    await insertEvent(client, {
+      firmId: id,
+      firmName: current.name,
+      eventType: 'deleted',
+      actor,
+      details: { aliases: current.aliases.map((alias) => alias.alias), detachedMembers: current.children.map((child) => child.name) },
+    });
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  resetFirmRegistryCaches();
+  return true;
+}
+
+/**
+ * Folds `sourceId` into `targetId`: every alias moves across, member firms are
+ * re-parented, and the source firm is removed.
+ */
+export async function mergeFirms(sourceId: string, targetId: string, actor: FirmActor): Promise<FirmRecord | null> {
+  await ensureReady();
+  if (sourceId === targetId) {
+    throw Object.assign(new Error('A firm cannot be merged into itself.'), { status: 400 });
+  }
+  const [source, target] = await Promise.all([getFirm(sourceId), getFirm(targetId)]);
+  if (!source || !target) return null;
+  if (source.children.length > 0 && target.parentId) {
+    throw Object.assign(new Error(`${source.name} has member firms, and ${target.name} already belongs to a group.`), { status: 409 });
+  }
+  if (target.parentId === source.id) {
+    throw Object.assign(new Error(`${target.name} is a member of ${source.name}; detach it before merging.`), { status: 409 });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(`UPDATE fos_firm_aliases SET firm_id = $2, source = CASE WHEN source = 'canonical' THEN 'merge' ELSE source END WHERE firm_id = $1`, [sourceId, targetId]);
+    await client.query(`UPDATE fos_firms SET parent_id = $2, updated_at = NOW() WHERE parent_id = $1`, [sourceId, targetId]);
+    await client.query(`DELETE FROM fos_firms WHERE id = $1`, [sourceId]);
+    await client.query(`UPDATE fos_firms SET updated_at = NOW() WHERE id = $1`, [targetId]);
+    await insertEvent(client, {
+      firmId: targetId,
+      firmName: target.name,
+      eventType: 'merged',
+      actor,
+      details: {
+        sourceId,
+        sourceName: source.name,
+        aliasesMoved: source.aliases.map((alias) => alias.alias),
+        membersMoved: source.children.map((child) => child.name),
+      },
+    });
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  resetFirmRegistryCaches();
+  return getFirm(targetId);
+}
+
+// ─── Aliases ─────────────────────────────────────────────────────────────────
+
+export async function addFirmAlias(
+  firmId: string,
+  alias: string,
+  source: FirmAliasSource,
+  actor: FirmActor
+): Promise<FirmRecord | null> {
+  await ensureReady();
+  const firm = await getFirm(firmId);
+  if (!firm) return null;
+  const spelling = normalizeName(alias);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await insertAlias(client, firmId, spelling, ALIAS_SOURCES.includes(source) ? source : 'manual', actor);
+    await insertEvent(client, { firmId, firmName: firm.name, eventType: 'alias_added', actor, details: { alias: spelling, source } });
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  resetFirmRegistryCaches();
+  return getFirm(firmId);
+}
+
+export async function removeFirmAlias(firmId: string, aliasKey: string, actor: FirmActor): Promise<FirmRecord | null> {
+  await ensureReady();
+  const firm = await getFirm(firmId);
+  if (!firm) return null;
+  const alias = firm.aliases.find((item) => item.aliasKey === aliasKey);
+  if (!alias) {
+    throw Object.assign(new Error('Alias not found for this firm.'), { status: 404 });
+  }
+  if (alias.aliasKey === normalizeFirmKey(firm.name)) {
+    throw Object.assign(new Error('The spelling of the firm name itself cannot be removed; rename the firm instead.'), { status: 409 });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(`DELETE FROM fos_firm_aliases WHERE alias_key = $1 AND firm_id = $2`, [aliasKey, firmId]);
+    await insertEvent(client, { firmId, firmName: firm.name, eventType: 'alias_removed', actor, details: { alias: alias.alias } });
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  resetFirmRegistryCaches();
+  return getFirm(firmId);
+}
+
+// ─── Suggestions ─────────────────────────────────────────────────────────────
+
+/**
+ * Raw `business_name` spellings not yet covered by an alias, busiest first,
+ * each with the registered firms it most resembles.
+ */
+export async function listUnregisteredFirmNames(options: { limit?: number; query?: string | null } = {}): Promise<UnregisteredFirmName[]> {
+  await ensureReady();
+  const limit = Math.max(1, Math.min(options.limit || 50, MAX_UNREGISTERED_NAMES));
+  const params: unknown[] = [limit];
+  let searchSql = '';
+  const query = nullableString(options.query);
+  if (query) {
+    params.push(`%${query.toLowerCase()}%`);
+    searchSql = `AND LOWER(d.business_name) LIKE $2`;
+  }
+
+  const [nameRows, firms] = await Promise.all([
+    queryOrEmpty(
+      'fos_decisions',
+      `
+        SELECT
+          MODE() WITHIN GROUP (ORDER BY BTRIM(d.business_name)) AS name,
+          ${firmKeyExpression('d')} AS alias_key,
+          COUNT(*)::INT AS decision_count
+        FROM fos_decisions d
+        WHERE NULLIF(BTRIM(d.business_name), '') IS NOT NULL
+          ${searchSql}
+          AND NOT EXISTS (
+            SELECT 1 FROM fos_firm_aliases a WHERE a.alias_key = ${firmKeyExpression('d')}
+          )
+        GROUP BY ${firmKeyExpression('d')}
+        ORDER BY decision_count DESC, alias_key ASC
+        LIMIT $1
+      `,
+      params
+    ),
+    listFirms(),
+  ]);
+
+  const candidates = firms.map((firm) => ({ id: firm.id, name: firm.name, aliases: firm.aliases.map((alias) => alias.alias) }));
+  return nameRows.map((row) => {
+    const name = String(row.name || '');
+    return {
+      name,
+      aliasKey: String(row.alias_key || ''),
+      decisionCount: toInt(row.decision_count),
+      suggestions: rankFirmSuggestions(name, candidates),
+    };
+  });
+}
+
+// ─── Hierarchy lookup ────────────────────────────────────────────────────────
+
+/**
+ * Where a firm label sits in the registry: its group, if it belongs to one,
+ * and its member firms, if it is a group. Null when the registry is absent or
+ * the name is not registered.
+ */
+export async function findFirmHierarchy(name: string): Promise<{ name: string; groupName: string | null; members: string[] } | null> {
+  ensureDatabaseConfigured();
+  const rows = await queryOrEmpty(
+    'fos_firms',
+    `
+      SELECT f.name, p.name AS group_name, c.name AS member_name
+      FROM fos_firm_aliases a
+      JOIN fos_firms f ON f.id = a.firm_id
+      LEFT JOIN fos_firms p ON p.id = f.parent_id
+      LEFT JOIN fos_firms c ON c.parent_id = f.id
+      WHERE a.alias_key = $1
+      ORDER BY c.name ASC
+    `,
+    [normalizeFirmKey(name)]
+  );
+  if (rows.length === 0) return null;
+  return {
+    name: String(rows[0].name),
+    groupName: nullableString(rows[0].group_name),
+    members: rows.map((row) => nullableString(row.member_name)).filter((value): value is string => Boolean(value)),
+  };
+}
+
+// ─── Audit log ───────────────────────────────────────────────────────────────
+
+export async function listFirmEvents(options: { firmId?: string | null; limit?: number } = {}): Promise<FirmEvent[]> {
+  await ensureReady();
+  const limit = Math.max(1, Math.min(options.limit || 100, 500));
+  const params: unknown[] = [limit];
+  let where = '';
+  if (options.firmId) {
+    params.push(options.firmId);
+    where = `WHERE firm_id = $2`;
+  }
+
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT *
+      FROM fos_firm_events
+      ${where}
+      ORDER BY created_at DESC
+      LIMIT $1
+    `,
+    params
+  );
+  return rows.map(mapEvent);
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────────
+
+async function ensureReady(): Promise<void> {
+  ensureDatabaseConfigured();
+  await ensureFirmRegistrySchema();
+}
+
+async function queryOrEmpty(relation: string, sql: string, params: unknown[] = []): Promise<Record<string, unknown>[]> {
+  try {
+    return await DatabaseClient.query<Record<string, unknown>>(sql, params);
+  } catch (error) {
+    if (isMissingRelationError(error, relation)) return [];
+    throw error;
+  }
+}
+
+/** Decisions per alias key, optionally limited to one firm's aliases. */
+async function queryAliasDecisionCounts(firmId?: string): Promise<Map<string, number>> {
+  const params: unknown[] = [];
+  let firmFilter = '';
+  if (firmId) {
+    params.push(firmId);
+    firmFilter = 'WHERE a.firm_id = $1';
+  }
+  const rows = await queryOrEmpty(
+    'fos_decisions',
+    `
+      SELECT a.alias_key, COUNT(*)::INT AS decision_count
+      FROM fos_firm_aliases a
+      JOIN fos_decisions d ON ${firmKeyExpression('d')} = a.alias_key
+      ${firmFilter}
+      GROUP BY a.alias_key
+    `,
+    params
+  );
+  return new Map(rows.map((row) => [String(row.alias_key), toInt(row.decision_count)]));
+}
+
+function buildFirmRecords(
+  firmRows: Record<string, unknown>[],
+  aliasRows: Record<string, unknown>[],
+  counts: Map<string, number>
+): FirmRecord[] {
+  const aliasesByFirm = new Map<string, FirmAlias[]>();
+  for (const row of aliasRows) {
+    const firmId = String(row.firm_id);
+    const aliasKey = String(row.alias_key);
+    const list = aliasesByFirm.get(firmId) || [];
+    list.push({
+      aliasKey,
+      alias: String(row.alias || ''),
+      source: String(row.source || 'manual') as FirmAliasSource,
+      createdBy: nullableString(row.created_by),
+      createdAt: toIsoTimestamp(row.created_at) || new Date().toISOString(),
+      decisionCount: counts.get(aliasKey) || 0,
+    });
+    aliasesByFirm.set(firmId, list);
+  }
+
+  const childrenByParent = new Map<string, Array<{ id: string; name: string }>>();
+  for (const row of firmRows) {
+    const parentId = nullableString(row.parent_id);
+    if (!parentId) continue;
+    const list = childrenByParent.get(parentId) || [];
+    list.push({ id: String(row.id), name: String(row.name) });
+    childrenByParent.set(parentId, list);
+  }
+
+  return firmRows.map((row) => {
+    const id = String(row.id);
+    const aliases = aliasesByFirm.get(id) || [];
+    return {
+      id,
+      name: String(row.name),
+      parentId: nullableString(row.parent_id),
+      parentName: nullableString(row.parent_name),
+      notes: nullableString(row.notes),
+      aliases,
+      children: (childrenByParent.get(id) || []).sort((a, b) => a.name.localeCompare(b.name)),
+      decisionCount: aliases.reduce((sum, alias) => sum + alias.decisionCount, 0),
+      createdBy: nullableString(row.created_by),
+      createdAt: toIsoTimestamp(row.created_at) || new Date().toISOString(),
+      updatedAt: toIsoTimestamp(row.updated_at) || new Date().toISOString(),
+    };
+  });
+}
+
+async function assertNameAvailable(client: QueryClient, name: string, exceptId: string | null): Promise<void> {
+  const existing = await client.query(
+    `SELECT id FROM fos_firms WHERE LOWER(name) = LOWER($1) AND ($2::uuid IS NULL OR id <> $2::uuid) LIMIT 1`,
+    [name, exceptId]
+  );
+  if (existing.rows.length > 0) {
+    throw Object.assign(new Error(`A firm called "${name}" is already registered.`), { status: 409, code: 'FIRM_EXISTS' });
+  }
+}
+
+/** Groups are one level deep: the parent must exist, must not itself have a parent, and cannot be the firm itself. */
+async function assertValidParent(client: QueryClient, parentId: string, firmId: string | null): Promise<string> {
+  if (parentId === firmId) {
+    throw Object.assign(new Error('A firm cannot be its own group.'), { status: 400 });
+  }
+  const parent = await client.query(`SELECT id, name, parent_id FROM fos_firms WHERE id = $1`, [parentId]);
+  if (parent.rows.length === 0) {
+    throw Object.assign(new Error('Parent firm not found.'), { status: 404 });
+  }
+  if (parent.rows[0].parent_id) {
+    throw Object.assign(new Error(`${String(parent.rows[0].name)} is itself a member of a group; choose the top-level group instead.`), {
+      status: 409,
+    });
+  }
+  return String(parent.rows[0].name);
+}
+
+async function insertAlias(client: QueryClient, firmId: string, alias: string, source: FirmAliasSource, actor: FirmActor): Promise<void> {
+  const aliasKey = normalizeFirmKey(alias);
+  if (!aliasKey) {
+    throw Object.assign(new Error('Alias must contain letters or digits.'), { status: 400 });
+  }
+  const existing = await client.query(
+    `SELECT a.firm_id, f.name FROM fos_firm_aliases a JOIN fos_firms f ON f.id = a.firm_id WHERE a.alias_key = $1`,
+    [aliasKey]
+  );
+  if (existing.rows.length > 0) {
+    if (String(existing.rows[0].firm_id) === firmId) return;
+    throw Object.assign(new Error(`"${alias}" is already an alias of ${String(existing.rows[0].name)}. Merge the firms instead.`), {
+      status: 409,
+      code: 'ALIAS_TAKEN',
+    });
+  }
+  await client.query(
+    `INSERT INTO fos_firm_aliases (alias_key, alias, firm_id, source, created_by) VALUES ($1, $2, $3, $4, $5)`,
+    [aliasKey, alias.trim().slice(0, MAX_NAME_LENGTH), firmId, source, actor.fullName]
+  );
+}
+
+async function insertEvent(
+  client: QueryClient,
+  event: { firmId: string; firmName: string; eventType: FirmEventType; actor: FirmActor; details: Record<string, unknown> }
+): Promise<void> {
+  await client.query(
+    `
+      INSERT INTO fos_firm_events (firm_id, firm_name, event_type, actor_id, actor_name, details)
+      VALUES ($1, $2, $3, $4, $5, $6::jsonb)
+    `,
+    [event.firmId, event.firmName, event.eventType, event.actor.id, event.actor.fullName, JSON.stringify(event.details)]
+  );
+}
+
+function normalizeName(value: unknown): string {
+  const name = typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+  if (!name || !normalizeFirmKey(name)) {
+    throw Object.assign(new Error('Firm name is required.'), { status: 400 });
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    throw Object.assign(new Error(`Firm name must be ${MAX_NAME_LENGTH} characters or fewer.`), { status: 400 });
+  }
+  return name;
+}
+
+function normalizeNotes(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim().slice(0, MAX_NOTES_LENGTH);
+  return trimmed || null;
+}
+
+function mapEvent(row: Record<string, unknown>): FirmEvent {
+  return {
+    id: String(row.id),
+    firmId: nullableString(row.firm_id),
+    firmName: String(row.firm_name || ''),
+    eventType: String(row.event_type) as FirmEventType,
+    actorId: nullableString(row.actor_id),
+    actorName: nullableString(row.actor_name),
+    details: parseJsonValue<Record<string, unknown>>(row.details) || {},
+    createdAt: toIsoTimestamp(row.created_at) || new Date().toISOString(),
+  };
+}
@@ -0,0 +1,72 @@
+/** How a raw `business_name` spelling came to be mapped onto a registered firm. */
+export type FirmAliasSource = 'manual' | 'suggestion' | 'merge' | 'canonical';
+
+export interface FirmAlias {
+  /** Normalised spelling the alias is matched on; see `normalizeFirmKey`. */
+  aliasKey: string;
+  alias: string;
+  source: FirmAliasSource;
+  createdBy: string | null;
+  createdAt: string;
+  decisionCount: number;
+}
+
+export interface FirmSummary {
+  id: string;
+  name: string;
+}
+
+/**
+ * A registered firm. The hierarchy is two levels deep: a group has no parent,
+ * and its entities/brands point at it through `parentId`.
+ */
+export interface FirmRecord {
+  id: string;
+  name: string;
+  parentId: string | null;
+  parentName: string | null;
+  notes: string | null;
+  aliases: FirmAlias[];
+  children: FirmSummary[];
+  /** Decisions whose `business_name` resolves to one of this firm's aliases (children excluded). */
+  decisionCount: number;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FirmInput {
+  name?: string;
+  parentId?: string | null;
+  notes?: string | null;
+  aliases?: string[];
+}
+
+export type FirmEventType = 'created' | 'renamed' | 'parent_changed' | 'alias_added' | 'alias_removed' | 'merged' | 'deleted';
+
+export interface FirmEvent {
+  id: string;
+  firmId: string | null;
+  firmName: string;
+  eventType: FirmEventType;
+  actorId: string | null;
+  actorName: string | null;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface FirmMatchSuggestion {
+  firmId: string;
+  firmName: string;
+  /** 0–1 similarity between the raw name and the firm's closest alias. */
+  score: number;
+  matchedAlias: string;
+}
+
+/** A `business_name` spelling in the corpus that no alias covers yet. */
+export interface UnregisteredFirmName {
+  name: string;
+  aliasKey: string;
+  decisionCount: number;
+  suggestions: FirmMatchSuggestion[];
+}
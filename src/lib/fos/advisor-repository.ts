@@ -2,17 +2,25 @@ import { DatabaseClient } from '@/lib/database';
 import {
   FOSAdvisorBrief,
   FOSAdvisorChecklist,
+  FOSAdvisorOptions,
+  FOSAiCitation,
+  FOSAiSectionKey,
   FOSAdvisorPrecedent,
   FOSAdvisorQuery,
   FOSAdvisorRootCausePattern,
   FOSAdvisorSampleCase,
   FOSAdvisorThemeExtract,
   FOSAdvisorVulnerability,
+  FOSFirmLevel,
   FOSOutcomeDistribution,
 } from './types';
 import {
   caseIdExpression,
   ensureDatabaseConfigured,
+  ensureFosDecisionsTableExists,
+  firmFilterCondition,
+  hasFirmRegistry,
+  hasProductTaxonomy,
   isMissingRelationError,
   normalizeOutcome,
   normalizeTagLabel,
@@ -20,18 +28,33 @@ import {
   outcomeExpression,
   parseJsonValue,
   parseStringArray,
+  productFilterCondition,
   toInt,
   toIsoDate,
   toNumber,
 } from './repo-helpers';
+import { groundAiSection } from './ai-grounding';
+import { queryAdvisorRedressDistribution } from './redress-repository';
+import { queryAdvisorForecast } from './forecast-repository';
+import { normalizeFirmKey } from '@/lib/firms/normalize';
+import { assessUpholdRisk } from '@/lib/risk-policy/policy';
+import { getActiveRiskPolicy } from '@/lib/risk-policy/repository';
 
-export async function getAdvisorOptions(): Promise<{ products: string[]; rootCauses: string[] }> {
+const FEATURED_PRODUCT_LIMIT = 6;
+
+export async function getAdvisorOptions(): Promise<FOSAdvisorOptions> {
   ensureDatabaseConfigured();
 
   try {
     const [productRows, rootCauseRows] = await Promise.all([
-      DatabaseClient.query<{ product: string }>(
-        `SELECT DISTINCT product FROM fos_advisor_briefs WHERE total_cases > 0 ORDER BY product`
+      DatabaseClient.query<{ product: string; total_cases: number | null }>(
+        `
+          SELECT product, MAX(total_cases) FILTER (WHERE root_cause IS NULL) AS total_cases
+          FROM fos_advisor_briefs
+          WHERE total_cases > 0
+          GROUP BY product
+          ORDER BY product
+        `
       ),
       DatabaseClient.query<{ root_cause: string }>(
         `SELECT DISTINCT root_cause FROM fos_advisor_briefs WHERE root_cause IS NOT NULL AND total_cases > 0 ORDER BY root_cause`
@@ -41,10 +64,15 @@ export async function getAdvisorOptions(): Promise<{ products: string[]; rootCau
     return {
       products: productRows.map((r) => r.product),
       rootCauses: rootCauseRows.map((r) => r.root_cause),
+      featuredProducts: productRows
+        .filter((r) => toInt(r.total_cases) > 0)
+        .sort((a, b) => toInt(b.total_cases) - toInt(a.total_cases) || a.product.localeCompare(b.product))
+        .slice(0, FEATURED_PRODUCT_LIMIT)
+        .map((r) => r.product),
     };
   } catch (error) {
     if (isMissingRelationError(error, 'fos_advisor_briefs')) {
-      return { products: [], rootCauses: [] };
+      return { products: [], rootCauses: [], featuredProducts: [] };
     }
     throw error;
   }
@@ -67,6 +95,7 @@ export async function getAdvisorBrief(query: FOSAdvisorQuery): Promise<FOSAdviso
     }
 
     if (!row) return null;
+    await ensureFosDecisionsTableExists();
 
     const totalCases = toInt(row.total_cases);
     const upheldRate = toNumber(row.upheld_rate);
@@ -95,8 +124,28 @@ export async function getAdvisorBrief(query: FOSAdvisorQuery): Promise<FOSAdviso
     );
     const overallUpheldRate = toNumber(overallRow?.rate);
 
-    const upholdRiskLevel = String(row.risk_level || 'medium') as FOSAdvisorBrief['riskAssessment']['upholdRiskLevel'];
+    // Root-cause briefs shrink toward the product-wide brief, product briefs toward the corpus.
+    let baselineUpheldRate = overallUpheldRate;
+    if (row.root_cause != null) {
+      const productRow = await DatabaseClient.queryOne<{ upheld_rate: string }>(
+        `SELECT upheld_rate FROM fos_advisor_briefs WHERE product = $1 AND root_cause IS NULL`,
+        [row.product]
+      );
+      if (productRow) baselineUpheldRate = toNumber(productRow.upheld_rate);
+    }
+
+    // Classify at read time so a newly published risk policy applies without regenerating briefs.
+    const riskPolicy = await getActiveRiskPolicy();
+    const estimate = assessUpholdRisk({ upheldRate, totalCases, baselineUpheldRate }, riskPolicy.thresholds);
     const trendDirection = String(row.trend_direction || 'stable') as FOSAdvisorBrief['riskAssessment']['trendDirection'];
+    const [typicalRedress, forecast] = await Promise.all([
+      queryAdvisorRedressDistribution(String(row.product), nullableString(row.root_cause)),
+      queryAdvisorForecast(String(row.product), nullableString(row.root_cause)),
+    ]);
+    const ai = groundAdvisorAiSections(row, [
+      ...(parseJsonValue<FOSAiCitation[]>(row.ai_context_cases) || []),
+      ...sampleCases,
+    ]);
 
     return {
       query: {
@@ -111,19 +160,23 @@ export async function getAdvisorBrief(query: FOSAdvisorQuery): Promise<FOSAdviso
         upheldRate,
         notUpheldRate,
         overallUpheldRate,
-        upholdRiskLevel,
+        ...estimate,
         trendDirection,
         yearTrend,
+        riskPolicy: { version: riskPolicy.version, thresholds: riskPolicy.thresholds },
       },
       keyPrecedents,
       rootCausePatterns,
       whatWins,
       whatLoses,
-      aiWhatWins: nullableString(row.ai_what_wins),
-      aiWhatLoses: nullableString(row.ai_what_loses),
-      aiGuidance: nullableString(row.ai_guidance),
-      aiExecutiveSummary: nullableString(row.ai_executive_summary),
+      aiWhatWins: ai.text.whatWins,
+      aiWhatLoses: ai.text.whatLoses,
+      aiGuidance: ai.text.guidance,
+      aiExecutiveSummary: ai.text.executiveSummary,
+      aiGrounding: ai.grounding,
       outcomeDistribution: parseJsonValue<FOSOutcomeDistribution[]>(row.outcome_distribution) || null,
+      typicalRedress,
+      forecast,
       vulnerabilities,
       sampleCases,
       recommendedActions,
@@ -136,6 +189,30 @@ export async function getAdvisorBrief(query: FOSAdvisorQuery): Promise<FOSAdviso
   }
 }
 
+const AI_SECTION_COLUMNS: Record<FOSAiSectionKey, string> = {
+  executiveSummary: 'ai_executive_summary',
+  whatWins: 'ai_what_wins',
+  whatLoses: 'ai_what_loses',
+  guidance: 'ai_guidance',
+};
+
+/** Re-checks stored AI sections on read, so briefs generated before citations existed are flagged too. */
+function groundAdvisorAiSections(row: Record<string, unknown>, context: FOSAiCitation[]) {
+  const text = {} as Record<FOSAiSectionKey, string | null>;
+  const grounding: FOSAdvisorBrief['aiGrounding'] = {};
+  for (const [key, column] of Object.entries(AI_SECTION_COLUMNS) as [FOSAiSectionKey, string][]) {
+    const raw = nullableString(row[column]);
+    if (!raw) {
+      text[key] = null;
+      continue;
+    }
+    const result = groundAiSection(raw, context);
+    text[key] = result.text || null;
+    grounding[key] = result.report;
+  }
+  return { text, grounding };
+}
+
 export async function getReasoningTextsForAdvisor(
   product: string,
   rootCause: string | null,
@@ -143,7 +220,9 @@ export async function getReasoningTextsForAdvisor(
   limit: number
 ): Promise<string[]> {
   ensureDatabaseConfigured();
+  await ensureFosDecisionsTableExists();
   const params: unknown[] = [product, outcome, limit];
+  const productMatch = productFilterCondition('d', 'ARRAY[$1]::TEXT[]', { taxonomyAvailable: hasProductTaxonomy(), includeSectors: false });
   let rootCauseFilter = '';
 
   if (rootCause) {
@@ -158,7 +237,7 @@ export async function getReasoningTextsForAdvisor(
     `
     SELECT COALESCE(d.ombudsman_reasoning_text, '') || E'\n' || COALESCE(d.decision_logic, '') AS text
     FROM fos_decisions d
-    WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1
+    WHERE ${productMatch}
     AND ${outcomeExpression('d')} = $2
     ${rootCauseFilter}
     AND (d.ombudsman_reasoning_text IS NOT NULL OR d.decision_logic IS NOT NULL)
@@ -177,8 +256,10 @@ export async function generateAndStoreAdvisorBrief(
   aiAnalysis: { whatWins: string; whatLoses: string; guidance: string }
 ): Promise<void> {
   ensureDatabaseConfigured();
+  await ensureFosDecisionsTableExists();
 
   const params: unknown[] = [product];
+  const productMatch = productFilterCondition('d', 'ARRAY[$1]::TEXT[]', { taxonomyAvailable: hasProductTaxonomy(), includeSectors: false });
   let rootCauseFilter = '';
   if (rootCause) {
     rootCauseFilter = `AND EXISTS (
@@ -196,7 +277,7 @@ export async function generateAndStoreAdvisorBrief(
       ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate,
       ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'not_upheld') / NULLIF(COUNT(*), 0), 2) AS not_upheld_rate
     FROM fos_decisions d
-    WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1
+    WHERE ${productMatch}
     ${rootCauseFilter}
     `,
     params
@@ -215,7 +296,7 @@ export async function generateAndStoreAdvisorBrief(
       ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate,
       COUNT(*)::INT AS total
     FROM fos_decisions d
-    WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1
+    WHERE ${productMatch}
     ${rootCauseFilter}
     AND d.decision_date IS NOT NULL
     GROUP BY EXTRACT(YEAR FROM d.decision_date)
@@ -230,7 +311,8 @@ export async function generateAndStoreAdvisorBrief(
     total: toInt(r.total),
   }));
 
-  const upholdRiskLevel = upheldRate >= 60 ? 'very_high' : upheldRate >= 45 ? 'high' : upheldRate >= 30 ? 'medium' : 'low';
+  // Stored for reference only; getAdvisorBrief re-derives the level with baselines at read time.
+  const { upholdRiskLevel } = assessUpholdRisk({ upheldRate, totalCases }, (await getActiveRiskPolicy()).thresholds);
   let trendDirection: 'improving' | 'stable' | 'worsening' = 'stable';
   if (yearTrend.length >= 2) {
     const recent = yearTrend[yearTrend.length - 1].upheldRate;
@@ -247,7 +329,7 @@ export async function generateAndStoreAdvisorBrief(
       ROUND(100.0 * COUNT(*) / $${paramOffset + 1}::NUMERIC, 1) AS pct
     FROM fos_decisions d,
       jsonb_array_elements_text(COALESCE(d.precedents, '[]'::jsonb)) AS p(value)
-    WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1
+    WHERE ${productMatch}
     ${rootCauseFilter}
     GROUP BY BTRIM(p.value)
     ORDER BY count DESC
@@ -269,7 +351,7 @@ export async function generateAndStoreAdvisorBrief(
       ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate
     FROM fos_decisions d,
       jsonb_array_elements_text(COALESCE(d.root_cause_tags, '[]'::jsonb)) AS rc(value)
-    WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1
+    WHERE ${productMatch}
     ${rootCauseFilter}
     GROUP BY BTRIM(rc.value)
     ORDER BY count DESC
@@ -291,7 +373,7 @@ export async function generateAndStoreAdvisorBrief(
       ROUND(100.0 * COUNT(*) / $${paramOffset + 1}::NUMERIC, 1) AS pct
     FROM fos_decisions d,
       jsonb_array_elements_text(COALESCE(d.vulnerability_flags, '[]'::jsonb)) AS v(value)
-    WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1
+    WHERE ${productMatch}
     ${rootCauseFilter}
     GROUP BY BTRIM(v.value)
     ORDER BY count DESC
@@ -314,7 +396,7 @@ export async function generateAndStoreAdvisorBrief(
       ${outcomeExpression('d')} AS outcome,
       d.decision_summary, d.root_cause_tags, d.precedents
     FROM fos_decisions d
-    WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1
+    WHERE ${productMatch}
     ${rootCauseFilter}
     AND ${outcomeExpression('d')} = 'upheld'
     ORDER BY d.decision_date DESC NULLS LAST
@@ -331,7 +413,7 @@ export async function generateAndStoreAdvisorBrief(
       ${outcomeExpression('d')} AS outcome,
       d.decision_summary, d.root_cause_tags, d.precedents
     FROM fos_decisions d
-    WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1
+    WHERE ${productMatch}
     ${rootCauseFilter}
     AND ${outcomeExpression('d')} = 'not_upheld'
     ORDER BY d.decision_date DESC NULLS LAST
@@ -442,8 +524,13 @@ export interface EstimatorFirmOverlay {
   upheldRate: number;
   notUpheldRate: number;
   sourceScope: 'product_root_cause' | 'product_only';
+  firmLevel: FOSFirmLevel;
+  /** `registry` when the input resolved to a registered firm alias, `name` for fuzzy name matching. */
+  matchedBy: 'registry' | 'name';
 }
 
+type EstimatorFirmOverlaySummary = Omit<EstimatorFirmOverlay, 'sourceScope' | 'firmLevel' | 'matchedBy'>;
+
 const MIN_ESTIMATOR_FIRM_OVERLAY_CASES = 10;
 const FIRM_NAME_NOISE_TOKENS = new Set([
   'and',
@@ -483,7 +570,7 @@ async function queryEstimatorFirmOverlaySummary(
   product: string,
   rootCause: string | null,
   firm: string
-): Promise<Omit<EstimatorFirmOverlay, 'sourceScope'> | null> {
+): Promise<EstimatorFirmOverlaySummary | null> {
   const escapedFirm = `%${escapeLikePattern(firm)}%`;
   const compactInput = compactFirmName(firm);
   const compactCore = compactFirmName(
@@ -492,6 +579,7 @@ async function queryEstimatorFirmOverlaySummary(
   const tokenPatterns = significantFirmTokens(firm).map((token) => `%${escapeLikePattern(token)}%`);
 
   const params: unknown[] = [product, escapedFirm, compactInput, compactCore];
+  const productMatch = productFilterCondition('d', 'ARRAY[$1]::TEXT[]', { taxonomyAvailable: hasProductTaxonomy(), includeSectors: false });
   const tokenClauses: string[] = [];
 
   for (const pattern of tokenPatterns) {
@@ -517,7 +605,7 @@ async function queryEstimatorFirmOverlaySummary(
         COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') AS firm_name,
         ${outcomeExpression('d')} AS outcome
       FROM fos_decisions d
-      WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1
+      WHERE ${productMatch}
       ${rootCauseFilter}
       AND (
         d.business_name ILIKE $2 ESCAPE '\\'
@@ -562,22 +650,102 @@ async function queryEstimatorFirmOverlaySummary(
   };
 }
 
+/** Resolves a typed firm name through the registry alias table, or null when it is not registered. */
+async function resolveRegisteredFirm(firm: string, firmLevel: FOSFirmLevel): Promise<string | null> {
+  const aliasKey = normalizeFirmKey(firm);
+  if (!aliasKey || !hasFirmRegistry()) return null;
+
+  const row = await DatabaseClient.queryOne<{ entity_name: string; group_name: string | null }>(
+    `SELECT entity_name, group_name FROM fos_firm_lookup WHERE alias_key = $1`,
+    [aliasKey]
+  );
+  if (!row) return null;
+  return firmLevel === 'group' ? row.group_name || row.entity_name : row.entity_name;
+}
+
+async function queryRegisteredFirmOverlaySummary(
+  product: string,
+  rootCause: string | null,
+  firmLabel: string,
+  firmLevel: FOSFirmLevel
+): Promise<EstimatorFirmOverlaySummary | null> {
+  const params: unknown[] = [product, firmLabel];
+  const productMatch = productFilterCondition('d', 'ARRAY[$1]::TEXT[]', { taxonomyAvailable: hasProductTaxonomy(), includeSectors: false });
+
+  let rootCauseFilter = '';
+  if (rootCause) {
+    params.push(rootCause);
+    rootCauseFilter = `AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(COALESCE(d.root_cause_tags, '[]'::jsonb)) AS rt(value)
+      WHERE LOWER(BTRIM(rt.value)) = LOWER($3)
+    )`;
+  }
+
+  const row = await DatabaseClient.queryOne<Record<string, unknown>>(
+    `
+    WITH matched AS (
+      SELECT ${outcomeExpression('d')} AS outcome
+      FROM fos_decisions d
+      WHERE ${productMatch}
+      ${rootCauseFilter}
+      AND ${firmFilterCondition('d', firmLevel, 'ARRAY[$2]::TEXT[]', { registryAvailable: true, includesUnknown: false })}
+    )
+    SELECT
+      COUNT(*)::INT AS total_cases,
+      ROUND(100.0 * COUNT(*) FILTER (WHERE outcome = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate,
+      ROUND(100.0 * COUNT(*) FILTER (WHERE outcome = 'not_upheld') / NULLIF(COUNT(*), 0), 2) AS not_upheld_rate
+    FROM matched
+    `,
+    params
+  );
+
+  const totalCases = toInt(row?.total_cases);
+  if (totalCases < MIN_ESTIMATOR_FIRM_OVERLAY_CASES) return null;
+
+  return {
+    firmName: firmLabel,
+    totalCases,
+    upheldRate: toNumber(row?.upheld_rate),
+    notUpheldRate: toNumber(row?.not_upheld_rate),
+  };
+}
+
+/**
+ * Firm overlay for the complaint estimator. Names that resolve through the firm
+ * registry match exactly at the requested level; anything else falls back to
+ * fuzzy name matching at entity level.
+ */
 export async function getEstimatorFirmOverlay(
   product: string,
   rootCause: string | null,
-  firm: string
+  firm: string,
+  firmLevel: FOSFirmLevel = 'entity'
 ): Promise<EstimatorFirmOverlay | null> {
   ensureDatabaseConfigured();
+  await ensureFosDecisionsTableExists();
 
-  const scopedOverlay = await queryEstimatorFirmOverlaySummary(product, rootCause, firm);
+  const registeredLabel = await resolveRegisteredFirm(firm, firmLevel);
+  const matchedBy: EstimatorFirmOverlay['matchedBy'] = registeredLabel ? 'registry' : 'name';
+  const resolvedLevel: FOSFirmLevel = registeredLabel ? firmLevel : 'entity';
+  const summarise = (scopeRootCause: string | null) =>
+    registeredLabel
+      ? queryRegisteredFirmOverlaySummary(product, scopeRootCause, registeredLabel, firmLevel)
+      : queryEstimatorFirmOverlaySummary(product, scopeRootCause, firm);
+
+  const scopedOverlay = await summarise(rootCause);
   if (scopedOverlay) {
-    return { ...scopedOverlay, sourceScope: rootCause ? 'product_root_cause' : 'product_only' };
+    return {
+      ...scopedOverlay,
+      sourceScope: rootCause ? 'product_root_cause' : 'product_only',
+      firmLevel: resolvedLevel,
+      matchedBy,
+    };
   }
 
   if (rootCause) {
-    const productOnlyOverlay = await queryEstimatorFirmOverlaySummary(product, null, firm);
+    const productOnlyOverlay = await summarise(null);
     if (productOnlyOverlay) {
-      return { ...productOnlyOverlay, sourceScope: 'product_only' };
+      return { ...productOnlyOverlay, sourceScope: 'product_only', firmLevel: resolvedLevel, matchedBy };
     }
   }
 
@@ -595,6 +763,7 @@ async function queryAdvisorTextMatchCases(
   const escaped = freeText.replace(/[%_\\]/g, '\\$&');
   const pattern = `%${escaped}%`;
   const params: unknown[] = [product, pattern, limit];
+  const productMatch = productFilterCondition('d', 'ARRAY[$1]::TEXT[]', { taxonomyAvailable: hasProductTaxonomy(), includeSectors: false });
   let rootCauseFilter = '';
 
   if (rootCause) {
@@ -617,7 +786,7 @@ async function queryAdvisorTextMatchCases(
       d.root_cause_tags,
       d.precedents
     FROM fos_decisions d
-    WHERE COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $1
+    WHERE ${productMatch}
     ${rootCauseFilter}
     AND (
       d.decision_summary ILIKE $2
@@ -0,0 +1,118 @@
+import type { FOSAiCitation, FOSAiGroundingReport } from './types';
+
+// Post-generation checks for AI narrative sections. Pure so the offline brief
+// generator and the read path apply identical rules.
+
+/** Appended to prompts so the model cites in a form `groundAiSection` can verify. */
+export const AI_CITATION_INSTRUCTIONS = `CITATIONS: Every finding, statistic or description of ombudsman reasoning must end with the decision reference(s) it relies on in square brackets, e.g. [DRN-1234567] or [DRN-1234567, DRN-7654321]. Only cite references listed in the excerpts above. Do not invent references. Recommendations that follow from cited findings do not need their own citation.`;
+
+const BRACKET_PATTERN = /\[([^\]]{3,120})\]/g;
+const REFERENCE_TOKEN = /^[A-Z]{2,5}-?\d{3,10}$/i;
+const CLAIM_SIGNAL = /\d|%|\b(ombudsman|upheld|found|finds|concluded|decided|held|investigator|evidence shows?)\b/i;
+const MIN_CLAIM_WORDS = 6;
+
+export interface AiGroundingResult {
+  /** Section text with unknown references removed (and uncited claims too in `strip` mode). */
+  text: string;
+  report: FOSAiGroundingReport;
+}
+
+export function normalizeDecisionReference(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Checks one AI section against the decisions supplied as context. Citations
+ * to references outside the context are always removed; uncited claims are
+ * flagged, or dropped when `mode` is `strip`.
+ */
+export function groundAiSection(
+  text: string,
+  context: FOSAiCitation[],
+  mode: 'flag' | 'strip' = 'flag'
+): AiGroundingResult {
+  const known = new Map<string, FOSAiCitation>();
+  for (const item of context) {
+    if (item.decisionReference) {
+      known.set(normalizeDecisionReference(item.decisionReference), { decisionReference: item.decisionReference, caseId: item.caseId });
+    }
+  }
+
+  const citations = new Map<string, FOSAiCitation>();
+  const unknownReferences = new Set<string>();
+
+  const cleaned = text.replace(BRACKET_PATTERN, (match, inner: string) => {
+    const tokens = inner.split(/[,;]/).map((token) => token.trim()).filter(Boolean);
+    if (tokens.length === 0 || !tokens.every((token) => REFERENCE_TOKEN.test(token))) return match;
+
+    const kept: string[] = [];
+    for (const token of tokens) {
+      const citation = known.get(normalizeDecisionReference(token));
+      if (citation) {
+        citations.set(citation.decisionReference, citation);
+        kept.push(citation.decisionReference);
+      } else {
+        unknownReferences.add(token.toUpperCase());
+      }
+    }
+    return kept.length > 0 ? `[${kept.join(', ')}]` : '';
+  });
+
+  const uncitedClaims: string[] = [];
+  const paragraphs = cleaned.split(/\n/).map((paragraph) => {
+    const sentences = splitSentences(paragraph);
+    const keptSentences = sentences.filter((sentence) => {
+      if (!isClaim(sentence) || hasCitation(sentence)) return true;
+      uncitedClaims.push(sentence.replace(/\s+/g, ' ').replace(/\s([.,;:])/g, '$1').trim());
+      return mode === 'flag';
+    });
+    return keptSentences.join(' ').replace(/[ \t]{2,}/g, ' ').replace(/\s+([.,;:])/g, '$1').trim();
+  });
+
+  const claimsChecked = citations.size > 0 || uncitedClaims.length > 0;
+  const status: FOSAiGroundingReport['status'] =
+    citations.size === 0 && claimsChecked
+      ? 'ungrounded'
+      : uncitedClaims.length > 0 || unknownReferences.size > 0
+        ? 'partially_grounded'
+        : 'grounded';
+
+  return {
+    text: paragraphs.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    report: {
+      status,
+      citations: Array.from(citations.values()),
+      unknownReferences: Array.from(unknownReferences),
+      uncitedClaims,
+    },
+  };
+}
+
+/** Splits prose into sentences, keeping a leading citation with the sentence before it. */
+function splitSentences(paragraph: string): string[] {
+  // Shield decimals and common abbreviations from the sentence boundary match.
+  const shielded = paragraph.replace(/(\d)\.(\d)/g, '$1\u0000$2').replace(/\b(e\.g|i\.e|etc|vs)\./gi, (match) => match.replace(/\./g, '\u0000'));
+  const raw = (shielded.match(/[^.!?]+[.!?]*/g) || []).map((piece) => piece.replace(/\u0000/g, '.'));
+  const sentences: string[] = [];
+  for (const piece of raw) {
+    const leadingCitations = piece.match(/^\s*(\[[^\]]+\]\s*)+/);
+    if (leadingCitations && sentences.length > 0) {
+      sentences[sentences.length - 1] += ` ${leadingCitations[0].trim()}`;
+      const rest = piece.slice(leadingCitations[0].length);
+      if (rest.trim()) sentences.push(rest.trim());
+      continue;
+    }
+    if (piece.trim()) sentences.push(piece.trim());
+  }
+  return sentences;
+}
+
+function hasCitation(sentence: string): boolean {
+  const matches = sentence.match(BRACKET_PATTERN) || [];
+  return matches.some((match) => match.slice(1, -1).split(/[,;]/).every((token) => REFERENCE_TOKEN.test(token.trim())));
+}
+
+function isClaim(sentence: string): boolean {
+  const stripped = sentence.replace(/^[-*•\d.)\s]+/, '');
+  return stripped.split(/\s+/).filter(Boolean).length >= MIN_CLAIM_WORDS && CLAIM_SIGNAL.test(stripped);
+}
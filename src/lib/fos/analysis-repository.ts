@@ -10,18 +10,25 @@ import {
   buildFilteredTagCte,
   ensureDatabaseConfigured,
   ensureFosDecisionsTableExists,
+  firmExpression,
   hasActiveScopeFilters,
+  hasFirmRegistry,
+  hasProductTaxonomy,
   hasTagValues,
   normalizeLabel,
   normalizeTagLabel,
   nullableString,
+  ombudsmanExpression,
   outcomeExpression,
   percentage,
+  productExpression,
   querySummarySnapshot,
   SUMMARY_SNAPSHOT_KEYS,
   toInt,
   toNumber,
+  toOmbudsmanStat,
 } from './repo-helpers';
+import { queryRedressDistribution } from './redress-repository';
 
 export async function getAnalysisSnapshot(
   filters: FOSDashboardFilters,
@@ -34,7 +41,9 @@ export async function getAnalysisSnapshot(
   if (!hasActiveScopeFilters(filters)) {
     const summary = await querySummarySnapshot<FOSAnalysisSnapshot>(SUMMARY_SNAPSHOT_KEYS.analysis);
     if (summary) {
-      return summary;
+      // Snapshots refreshed before redress extraction or ombudsman analytics existed lack those keys.
+      const ombudsmen = summary.ombudsmen ?? (await queryOmbudsmanDistribution(filters)).map(toOmbudsmanStat);
+      return { ...summary, redress: summary.redress ?? null, ombudsmen };
     }
   }
 
@@ -46,6 +55,8 @@ export async function getAnalysisSnapshot(
     topFirmByYear,
     monthlyProductBreakdown,
     decisionDayMonthGrid,
+    redress,
+    ombudsmanRows,
   ] = await Promise.all([
     queryYearProductOutcome(filters),
     queryFirmBenchmark(filters),
@@ -54,6 +65,8 @@ export async function getAnalysisSnapshot(
     queryTopFirmByYear(filters),
     queryMonthlyProductBreakdown(filters),
     queryDecisionDayMonthGrid(filters),
+    queryRedressDistribution(filters),
+    queryOmbudsmanDistribution(filters),
   ]);
 
   const yearProductOutcome = yearProductOutcomeRows.map((row) => ({
@@ -92,18 +105,21 @@ export async function getAnalysisSnapshot(
     yearNarratives,
     monthlyProductBreakdown,
     decisionDayMonthGrid,
+    redress,
+    ombudsmen: ombudsmanRows.map(toOmbudsmanStat),
   };
 }
 
 // ─── Private helpers ─────────────────────────────────────────────────────────
 
 async function queryYearProductOutcome(filters: FOSDashboardFilters): Promise<Record<string, unknown>[]> {
+  const productLabel = productExpression('d', 'product', hasProductTaxonomy());
   if (!hasActiveScopeFilters(filters)) {
     return DatabaseClient.query<Record<string, unknown>>(
       `
         SELECT
           EXTRACT(YEAR FROM d.decision_date)::INT AS year,
-          COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS product,
+          ${productLabel} AS product,
           COUNT(*)::INT AS total,
           COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld')::INT AS upheld,
           COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'not_upheld')::INT AS not_upheld,
@@ -126,7 +142,7 @@ async function queryYearProductOutcome(filters: FOSDashboardFilters): Promise<Re
           ) AS not_upheld_rate
         FROM fos_decisions d
         WHERE d.decision_date IS NOT NULL
-        GROUP BY EXTRACT(YEAR FROM d.decision_date)::INT, COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified')
+        GROUP BY EXTRACT(YEAR FROM d.decision_date)::INT, ${productLabel}
         ORDER BY year ASC, total DESC, product ASC
       `
     );
@@ -138,7 +154,7 @@ async function queryYearProductOutcome(filters: FOSDashboardFilters): Promise<Re
       ${filtered.cteSql}
       SELECT
         EXTRACT(YEAR FROM decision_date)::INT AS year,
-        COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') AS product,
+        product_label AS product,
         COUNT(*)::INT AS total,
         COUNT(*) FILTER (WHERE outcome_bucket = 'upheld')::INT AS upheld,
         COUNT(*) FILTER (WHERE outcome_bucket = 'not_upheld')::INT AS not_upheld,
@@ -161,7 +177,7 @@ async function queryYearProductOutcome(filters: FOSDashboardFilters): Promise<Re
         ) AS not_upheld_rate
       FROM filtered
       WHERE decision_date IS NOT NULL
-      GROUP BY EXTRACT(YEAR FROM decision_date)::INT, COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified')
+      GROUP BY EXTRACT(YEAR FROM decision_date)::INT, product_label
       ORDER BY year ASC, total DESC, product ASC
     `,
     filtered.params
@@ -169,11 +185,13 @@ async function queryYearProductOutcome(filters: FOSDashboardFilters): Promise<Re
 }
 
 async function queryFirmBenchmark(filters: FOSDashboardFilters): Promise<Record<string, unknown>[]> {
+  const firmLabel = firmExpression('d', 'entity', hasFirmRegistry());
+  const productLabel = productExpression('d', 'product', hasProductTaxonomy());
   if (!hasActiveScopeFilters(filters)) {
     return DatabaseClient.query<Record<string, unknown>>(
       `
         SELECT
-          COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') AS firm,
+          ${firmLabel} AS firm,
           COUNT(*)::INT AS total,
           ROUND(
             COALESCE(
@@ -192,9 +210,9 @@ async function queryFirmBenchmark(filters: FOSDashboardFilters): Promise<Record<
             2
           ) AS not_upheld_rate,
           ROUND(AVG(EXTRACT(YEAR FROM d.decision_date)))::INT AS avg_decision_year,
-          MODE() WITHIN GROUP (ORDER BY COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified')) AS predominant_product
+          MODE() WITHIN GROUP (ORDER BY ${productLabel}) AS predominant_product
         FROM fos_decisions d
-        GROUP BY COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm')
+        GROUP BY ${firmLabel}
         ORDER BY total DESC, firm ASC
         LIMIT 120
       `
@@ -206,7 +224,7 @@ async function queryFirmBenchmark(filters: FOSDashboardFilters): Promise<Record<
     `
       ${filtered.cteSql}
       SELECT
-        COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm') AS firm,
+        firm_label AS firm,
         COUNT(*)::INT AS total,
         ROUND(
           COALESCE(
@@ -225,9 +243,9 @@ async function queryFirmBenchmark(filters: FOSDashboardFilters): Promise<Record<
           2
         ) AS not_upheld_rate,
         ROUND(AVG(EXTRACT(YEAR FROM decision_date)))::INT AS avg_decision_year,
-        MODE() WITHIN GROUP (ORDER BY COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified')) AS predominant_product
+        MODE() WITHIN GROUP (ORDER BY product_label) AS predominant_product
       FROM filtered
-      GROUP BY COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm')
+      GROUP BY firm_label
       ORDER BY total DESC, firm ASC
       LIMIT 120
     `,
@@ -235,6 +253,41 @@ async function queryFirmBenchmark(filters: FOSDashboardFilters): Promise<Record<
   );
 }
 
+async function queryOmbudsmanDistribution(filters: FOSDashboardFilters): Promise<Record<string, unknown>[]> {
+  if (!hasActiveScopeFilters(filters)) {
+    return DatabaseClient.query<Record<string, unknown>>(
+      `
+        SELECT
+          ${ombudsmanExpression('d')} AS ombudsman,
+          COUNT(*)::INT AS total,
+          COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld')::INT AS upheld,
+          COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'not_upheld')::INT AS not_upheld
+        FROM fos_decisions d
+        GROUP BY ${ombudsmanExpression('d')}
+        ORDER BY total DESC, ombudsman ASC
+        LIMIT 60
+      `
+    );
+  }
+
+  const filtered = buildFilteredAggregateCte(filters);
+  return DatabaseClient.query<Record<string, unknown>>(
+    `
+      ${filtered.cteSql}
+      SELECT
+        ombudsman_label AS ombudsman,
+        COUNT(*)::INT AS total,
+        COUNT(*) FILTER (WHERE outcome_bucket = 'upheld')::INT AS upheld,
+        COUNT(*) FILTER (WHERE outcome_bucket = 'not_upheld')::INT AS not_upheld
+      FROM filtered
+      GROUP BY ombudsman_label
+      ORDER BY total DESC, ombudsman ASC
+      LIMIT 60
+    `,
+    filtered.params
+  );
+}
+
 async function queryPrecedentRootCauseMatrix(filters: FOSDashboardFilters): Promise<Record<string, unknown>[]> {
   const [hasPrecedentValues, hasRootCauseValues] = await Promise.all([
     hasTagValues('precedents'),
@@ -283,15 +336,17 @@ async function queryPrecedentRootCauseMatrix(filters: FOSDashboardFilters): Prom
 async function queryProductTree(
   filters: FOSDashboardFilters
 ): Promise<Array<{ product: string; total: number; firms: Array<{ firm: string; total: number; upheldRate: number }> }>> {
+  const firmLabel = firmExpression('d', 'entity', hasFirmRegistry());
+  const productLabel = productExpression('d', 'product', hasProductTaxonomy());
   const rows = !hasActiveScopeFilters(filters)
     ? await DatabaseClient.query<Record<string, unknown>>(
         `
           WITH product_totals AS (
             SELECT
-              COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS product,
+              ${productLabel} AS product,
               COUNT(*)::INT AS product_total
             FROM fos_decisions d
-            GROUP BY COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified')
+            GROUP BY ${productLabel}
           ),
           ranked_products AS (
             SELECT
@@ -302,8 +357,8 @@ async function queryProductTree(
           ),
           firm_totals AS (
             SELECT
-              COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS product,
-              COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') AS firm,
+              ${productLabel} AS product,
+              ${firmLabel} AS firm,
               COUNT(*)::INT AS total,
               ROUND(
                 COALESCE(
@@ -315,8 +370,8 @@ async function queryProductTree(
               ) AS upheld_rate
             FROM fos_decisions d
             GROUP BY
-              COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified'),
-              COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm')
+              ${productLabel},
+              ${firmLabel}
           ),
           ranked_firms AS (
             SELECT
@@ -350,10 +405,10 @@ async function queryProductTree(
             ,
             product_totals AS (
               SELECT
-                COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') AS product,
+                product_label AS product,
                 COUNT(*)::INT AS product_total
               FROM filtered
-              GROUP BY COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified')
+              GROUP BY product_label
             ),
             ranked_products AS (
               SELECT
@@ -364,8 +419,8 @@ async function queryProductTree(
             ),
             firm_totals AS (
               SELECT
-                COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') AS product,
-                COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm') AS firm,
+                product_label AS product,
+                firm_label AS firm,
                 COUNT(*)::INT AS total,
                 ROUND(
                   COALESCE(
@@ -377,8 +432,8 @@ async function queryProductTree(
                 ) AS upheld_rate
               FROM filtered
               GROUP BY
-                COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified'),
-                COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm')
+                product_label,
+                firm_label
             ),
             ranked_firms AS (
               SELECT
@@ -433,21 +488,22 @@ async function queryProductTree(
 }
 
 async function queryTopFirmByYear(filters: FOSDashboardFilters): Promise<Array<{ year: number; firm: string }>> {
+  const firmLabel = firmExpression('d', 'entity', hasFirmRegistry());
   const rows = !hasActiveScopeFilters(filters)
     ? await DatabaseClient.query<Record<string, unknown>>(
         `
           WITH ranked AS (
             SELECT
               EXTRACT(YEAR FROM d.decision_date)::INT AS year,
-              COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') AS firm,
+              ${firmLabel} AS firm,
               COUNT(*)::INT AS total,
               ROW_NUMBER() OVER (
                 PARTITION BY EXTRACT(YEAR FROM d.decision_date)::INT
-                ORDER BY COUNT(*) DESC, COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') ASC
+                ORDER BY COUNT(*) DESC, ${firmLabel} ASC
               ) AS rank_in_year
             FROM fos_decisions d
             WHERE d.decision_date IS NOT NULL
-            GROUP BY EXTRACT(YEAR FROM d.decision_date)::INT, COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm')
+            GROUP BY EXTRACT(YEAR FROM d.decision_date)::INT, ${firmLabel}
           )
           SELECT year, firm
           FROM ranked
@@ -464,15 +520,15 @@ async function queryTopFirmByYear(filters: FOSDashboardFilters): Promise<Array<{
             ranked AS (
               SELECT
                 EXTRACT(YEAR FROM decision_date)::INT AS year,
-                COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm') AS firm,
+                firm_label AS firm,
                 COUNT(*)::INT AS total,
                 ROW_NUMBER() OVER (
                   PARTITION BY EXTRACT(YEAR FROM decision_date)::INT
-                  ORDER BY COUNT(*) DESC, COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm') ASC
+                  ORDER BY COUNT(*) DESC, firm_label ASC
                 ) AS rank_in_year
               FROM filtered
               WHERE decision_date IS NOT NULL
-              GROUP BY EXTRACT(YEAR FROM decision_date)::INT, COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm')
+              GROUP BY EXTRACT(YEAR FROM decision_date)::INT, firm_label
             )
             SELECT year, firm
             FROM ranked
@@ -493,6 +549,7 @@ async function queryMonthlyProductBreakdown(
   filters: FOSDashboardFilters
 ): Promise<{ month: string; product: string; count: number }[]> {
   const hasFilters = hasActiveScopeFilters(filters);
+  const productLabel = productExpression('d', 'product', hasProductTaxonomy());
   const filtered = hasFilters ? buildFilteredAggregateCte(filters) : null;
   const rows = hasFilters
     ? await DatabaseClient.query<Record<string, unknown>>(
@@ -500,12 +557,12 @@ async function queryMonthlyProductBreakdown(
           ${filtered!.cteSql}
           SELECT
             TO_CHAR(decision_date, 'YYYY-MM') AS month,
-            COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') AS product,
+            product_label AS product,
             COUNT(*)::INT AS count
           FROM filtered
           WHERE decision_date IS NOT NULL
           GROUP BY TO_CHAR(decision_date, 'YYYY-MM'),
-                   COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified')
+                   product_label
           ORDER BY month ASC, count DESC
         `,
         filtered!.params
@@ -514,12 +571,12 @@ async function queryMonthlyProductBreakdown(
         `
           SELECT
             TO_CHAR(d.decision_date, 'YYYY-MM') AS month,
-            COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS product,
+            ${productLabel} AS product,
             COUNT(*)::INT AS count
           FROM fos_decisions d
           WHERE d.decision_date IS NOT NULL
           GROUP BY TO_CHAR(d.decision_date, 'YYYY-MM'),
-                   COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified')
+                   ${productLabel}
           ORDER BY month ASC, count DESC
         `
       );
@@ -3,9 +3,13 @@ import {
   FOSCaseContext,
   FOSCaseDetail,
   FOSCaseListItem,
+  FOSComparableDecisionQuery,
   FOSDashboardFilters,
   FOSSectionSource,
   FOSSimilarCase,
+  FOSSimilarCasesResult,
+  FOSSimilarityMode,
+  FOSSimilaritySignal,
 } from './types';
 import {
   buildFilteredCte,
@@ -15,17 +19,29 @@ import {
   ensureDatabaseConfigured,
   ensureFosDecisionsTableExists,
   hasActiveScopeFilters,
+  hasProductTaxonomy,
   normalizeLabel,
   normalizeOutcome,
   normalizeTagLabel,
   nullableString,
   outcomeExpression,
   parseStringArray,
+  productFilterCondition,
+  searchVectorExpression,
   toInt,
   toIsoDate,
   toNumber,
   trimText,
 } from './repo-helpers';
+import { searchHeadlineExpression } from './search-query';
+import {
+  FOSTextEncoder,
+  buildEmbeddingDocument,
+  cosineSimilarity,
+  getTextEncoder,
+  extractKeywords,
+  parseEmbedding,
+} from './embeddings';
 
 // ─── Section marker constants ────────────────────────────────────────────────
 
@@ -173,6 +189,8 @@ export async function getCaseDetail(caseId: string): Promise<FOSCaseDetail | nul
     vulnerabilityFlags: parseStringArray(row.vulnerability_flags),
     pdfUrl: nullableString(row.pdf_url),
     sourceUrl: nullableString(row.source_url),
+    searchRank: null,
+    searchSnippet: null,
     complaintText: nullableString(row.complaint_text),
     firmResponseText: nullableString(row.firm_response_text),
     ombudsmanReasoningText: nullableString(row.ombudsman_reasoning_text),
@@ -277,11 +295,52 @@ export async function queryCases(filters: FOSDashboardFilters, totalOverride?: n
   }
 
   const filtered = buildFilteredCte(filters);
+  const searchQuerySql = filtered.searchQuerySql;
+  const orderSql = searchQuerySql
+    ? 'f.search_rank DESC NULLS LAST, f.decision_date DESC NULLS LAST, f.decision_reference ASC NULLS LAST'
+    : 'f.decision_date DESC NULLS LAST, f.decision_reference ASC NULLS LAST';
   const runPageQuery = async (page: number) => {
     const offset = (page - 1) * filters.pageSize;
     const limitIndex = filtered.nextIndex;
     const offsetIndex = filtered.nextIndex + 1;
 
+    // Snippets are generated only for the page being returned; ts_headline is too costly to run across the filtered set.
+    if (searchQuerySql) {
+      return DatabaseClient.query<Record<string, unknown>>(
+        `
+          ${filtered.cteSql},
+          page_rows AS (
+            SELECT *
+            FROM filtered f
+            ORDER BY ${orderSql}
+            LIMIT $${limitIndex}
+            OFFSET $${offsetIndex}
+          )
+          SELECT
+            ${caseIdExpression('f')} AS case_id,
+            f.decision_reference,
+            f.decision_date,
+            EXTRACT(YEAR FROM f.decision_date)::INT AS year,
+            NULLIF(BTRIM(f.business_name), '') AS firm_name,
+            NULLIF(BTRIM(f.product_sector), '') AS product_group,
+            f.outcome_bucket AS outcome,
+            NULLIF(BTRIM(f.ombudsman_name), '') AS ombudsman_name,
+            f.decision_summary,
+            f.decision_logic,
+            f.precedents,
+            f.root_cause_tags,
+            f.vulnerability_flags,
+            f.pdf_url,
+            f.source_url,
+            f.search_rank,
+            ${searchHeadlineExpression('f', searchQuerySql)} AS search_snippet
+          FROM page_rows f
+          ORDER BY ${orderSql}
+        `,
+        [...filtered.params, filters.pageSize, offset]
+      );
+    }
+
     return DatabaseClient.query<Record<string, unknown>>(
       `
         ${filtered.cteSql}
@@ -300,9 +359,10 @@ export async function queryCases(filters: FOSDashboardFilters, totalOverride?: n
           f.root_cause_tags,
           f.vulnerability_flags,
           f.pdf_url,
-          f.source_url
+          f.source_url,
+          f.search_rank
         FROM filtered f
-        ORDER BY f.decision_date DESC NULLS LAST, f.decision_reference ASC NULLS LAST
+        ORDER BY ${orderSql}
         LIMIT $${limitIndex}
         OFFSET $${offsetIndex}
       `,
@@ -350,12 +410,16 @@ export async function queryCases(filters: FOSDashboardFilters, totalOverride?: n
   };
 }
 
-export async function getSimilarCases(caseId: string, limit = 10): Promise<FOSSimilarCase[]> {
+export async function getSimilarCases(
+  caseId: string,
+  limit = 10,
+  options: { mode?: FOSSimilarityMode } = {}
+): Promise<FOSSimilarCasesResult> {
   ensureDatabaseConfigured();
   await ensureFosDecisionsTableExists();
 
   const detail = await getCaseDetail(caseId);
-  if (!detail) return [];
+  if (!detail) return { mode: options.mode || 'attribute', embeddingModel: null, cases: [] };
 
   const product = detail.productGroup || 'Unspecified';
   const rootCauses = detail.rootCauseTags;
@@ -363,71 +427,186 @@ export async function getSimilarCases(caseId: string, limit = 10): Promise<FOSSi
   const firm = detail.firmName || '';
   const outcome = detail.outcome;
 
+  const params: unknown[] = [
+    caseId,
+    product,
+    firm,
+    outcome,
+    rootCauses.map((t) => t.toLowerCase()),
+    precedents.map((t) => t.toLowerCase()),
+  ];
+
+  if (options.mode === 'semantic') {
+    const encoder = getTextEncoder();
+    const semantic = await getSemanticSimilarCases(detail, encoder, params, limit);
+    if (semantic) return { mode: 'semantic', embeddingModel: encoder.model, cases: semantic };
+  }
+
   // Attribute-based similarity scoring via SQL
   const rows = await DatabaseClient.query<Record<string, unknown>>(
     `
-    WITH source_case AS (
-      SELECT
-        ${caseIdExpression('d')} AS case_id
-      FROM fos_decisions d
-      WHERE ${caseIdExpression('d')} = $1
-         OR d.decision_reference = $1
-      LIMIT 1
-    ),
-    scored AS (
-      SELECT
-        ${caseIdExpression('d')} AS case_id,
-        d.decision_reference,
-        d.decision_date,
-        NULLIF(BTRIM(d.business_name), '') AS firm_name,
-        NULLIF(BTRIM(d.product_sector), '') AS product_group,
-        ${outcomeExpression('d')} AS outcome,
-        d.decision_summary,
-        (
-          CASE WHEN COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $2 THEN 3 ELSE 0 END
-          + CASE WHEN COALESCE(NULLIF(BTRIM(d.business_name), ''), '') = $3 THEN 1 ELSE 0 END
-          + CASE WHEN ${outcomeExpression('d')} = $4 THEN 1 ELSE 0 END
-          + COALESCE((
-            SELECT COUNT(*)::INT * 2
-            FROM jsonb_array_elements_text(COALESCE(d.root_cause_tags, '[]'::jsonb)) AS rt(value)
-            WHERE LOWER(BTRIM(rt.value)) = ANY($5::TEXT[])
-          ), 0)
-          + COALESCE((
-            SELECT COUNT(*)::INT
-            FROM jsonb_array_elements_text(COALESCE(d.precedents, '[]'::jsonb)) AS p(value)
-            WHERE LOWER(BTRIM(p.value)) = ANY($6::TEXT[])
-          ), 0)
-        ) AS similarity_score
-      FROM fos_decisions d
-      WHERE ${caseIdExpression('d')} NOT IN (SELECT case_id FROM source_case)
-        AND d.decision_reference IS DISTINCT FROM $1
-    )
+    ${similarityScoredCte('')}
     SELECT * FROM scored
-    WHERE similarity_score >= 3
+    WHERE similarity_score >= ${MIN_ATTRIBUTE_SIMILARITY}
     ORDER BY similarity_score DESC, decision_date DESC NULLS LAST
     LIMIT $7
     `,
-    [
-      caseId,
-      product,
-      firm,
-      outcome,
-      rootCauses.map((t) => t.toLowerCase()),
-      precedents.map((t) => t.toLowerCase()),
-      limit,
-    ]
+    [...params, limit]
   );
 
-  return rows.map((row) => ({
-    caseId: String(row.case_id || row.decision_reference || ''),
-    decisionReference: String(row.decision_reference || ''),
-    decisionDate: toIsoDate(row.decision_date),
-    firmName: nullableString(row.firm_name),
-    productGroup: nullableString(row.product_group),
-    outcome: normalizeOutcome(String(row.outcome || 'unknown')),
-    decisionSummary: nullableString(row.decision_summary),
-    similarityScore: toInt(row.similarity_score),
-  }));
+  return {
+    mode: 'attribute',
+    embeddingModel: null,
+    cases: rows.map((row) => {
+      const signals = buildAttributeSignals(row);
+      return {
+        ...mapSimilarCaseRow(row),
+        similarityScore: toInt(row.similarity_score),
+        semanticScore: null,
+        signals,
+      };
+    }),
+  };
+}
+
+/**
+ * Ranks decisions against a free-text complaint narrative plus optional
+ * product and root cause, for workspace "find decisions like this" search.
+ */
+export async function getComparableDecisions(query: FOSComparableDecisionQuery, limit = 10): Promise<FOSSimilarCase[]> {
+  ensureDatabaseConfigured();
+  await ensureFosDecisionsTableExists();
+
+  const text = query.text.trim().slice(0, COMPARABLE_TEXT_MAX_CHARS);
+  const product = query.product?.trim() || null;
+  const rootCause = query.rootCause?.trim() || null;
+  const keywords = extractKeywords(text, COMPARABLE_KEYWORD_LIMIT);
+  // Keywords are [a-z0-9] only, so they are safe to splice into to_tsquery syntax; prefix
+  // matching absorbs differences between our light stemmer and the Postgres English stemmer.
+  const tsQueryText = keywords.length > 0 ? keywords.map((keyword) => `${keyword}:*`).join(' | ') : null;
+  if (!product && !rootCause && !tsQueryText) return [];
+
+  const vectorSql = searchVectorExpression('d');
+  const productMatch = productFilterCondition('d', 'ARRAY[$1]::TEXT[]', { taxonomyAvailable: hasProductTaxonomy(), includeSectors: false });
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      WITH candidates AS (
+        SELECT
+          ${caseIdExpression('d')} AS case_id,
+          d.decision_reference,
+          d.decision_date,
+          NULLIF(BTRIM(d.business_name), '') AS firm_name,
+          NULLIF(BTRIM(d.product_sector), '') AS product_group,
+          ${outcomeExpression('d')} AS outcome,
+          d.decision_summary,
+          d.decision_logic,
+          d.embedding,
+          d.embedding_model,
+          COALESCE($1::TEXT IS NOT NULL AND ${productMatch}, FALSE) AS product_match,
+          ARRAY(
+            SELECT DISTINCT BTRIM(rt.value)
+            FROM jsonb_array_elements_text(COALESCE(d.root_cause_tags, '[]'::jsonb)) AS rt(value)
+            WHERE $2::TEXT IS NOT NULL AND LOWER(BTRIM(rt.value)) = LOWER($2)
+          ) AS shared_root_causes,
+          CASE
+            WHEN $3::TEXT IS NULL THEN 0
+            ELSE ts_rank_cd(${vectorSql}, to_tsquery('english'::regconfig, $3), 32)
+          END AS keyword_rank
+        FROM fos_decisions d
+        WHERE ${productMatch}
+           OR ($3::TEXT IS NOT NULL AND ${vectorSql} @@ to_tsquery('english'::regconfig, $3))
+           OR (
+             $2::TEXT IS NOT NULL
+             AND EXISTS (
+               SELECT 1
+               FROM jsonb_array_elements_text(COALESCE(d.root_cause_tags, '[]'::jsonb)) AS rc(value)
+               WHERE LOWER(BTRIM(rc.value)) = LOWER($2)
+             )
+           )
+      )
+      SELECT *
+      FROM candidates
+      ORDER BY
+        keyword_rank
+          + CASE WHEN product_match THEN 0.3 ELSE 0 END
+          + CASE WHEN COALESCE(array_length(shared_root_causes, 1), 0) > 0 THEN 0.3 ELSE 0 END DESC,
+        decision_date DESC NULLS LAST
+      LIMIT $4
+    `,
+    [product, rootCause, tsQueryText, COMPARABLE_CANDIDATE_POOL]
+  );
+  if (rows.length === 0) return [];
+
+  const encoder = getTextEncoder();
+  const queryVector = text ? encoder.encode(text) : null;
+  const maxKeywordRank = Math.max(...rows.map((row) => toNumber(row.keyword_rank)), 0);
+  const keywordSet = new Set(keywords);
+
+  const ranked = rows.map((row): FOSSimilarCase => {
+    let semanticScore: number | null = null;
+    if (queryVector) {
+      const stored = row.embedding_model === encoder.model ? parseEmbedding(row.embedding, encoder.dim) : null;
+      const vector =
+        stored ||
+        encoder.encode(
+          buildEmbeddingDocument({
+            decisionSummary: nullableString(row.decision_summary),
+            decisionLogic: nullableString(row.decision_logic),
+          })
+        );
+      semanticScore = clamp(cosineSimilarity(queryVector, vector), 0, 1);
+    }
+
+    const keywordScore = maxKeywordRank > 0 ? toNumber(row.keyword_rank) / maxKeywordRank : 0;
+    const rootCauses = parseStringArray(row.shared_root_causes).map(normalizeTagLabel);
+    const signals: FOSSimilaritySignal[] = [];
+
+    if (semanticScore != null && semanticScore > 0) {
+      signals.push({
+        kind: 'semantic',
+        label: `Narrative wording ${Math.round(semanticScore * 100)}% similar`,
+        contribution: roundContribution(COMPARABLE_WEIGHTS.semantic * 100 * semanticScore),
+      });
+    }
+    if (keywordScore > 0) {
+      const candidateTerms = new Set(
+        extractKeywords(`${nullableString(row.decision_summary) || ''} ${nullableString(row.decision_logic) || ''}`, 200)
+      );
+      signals.push({
+        kind: 'keyword',
+        label: 'Shared key terms',
+        contribution: roundContribution(COMPARABLE_WEIGHTS.keyword * 100 * keywordScore),
+        matches: Array.from(keywordSet).filter((keyword) => candidateTerms.has(keyword)),
+      });
+    }
+    if (row.product_match === true) {
+      signals.push({ kind: 'product', label: 'Same product', contribution: COMPARABLE_WEIGHTS.product * 100 });
+    }
+    if (rootCauses.length > 0) {
+      signals.push({
+        kind: 'root_cause',
+        label: 'Same root cause',
+        contribution: COMPARABLE_WEIGHTS.rootCause * 100,
+        matches: rootCauses,
+      });
+    }
+
+    return {
+      ...mapSimilarCaseRow(row),
+      similarityScore: Math.round(signals.reduce((sum, signal) => sum + signal.contribution, 0)),
+      semanticScore: semanticScore == null ? null : Math.round(semanticScore * 1000) / 1000,
+      signals,
+    };
+  });
+
+  return ranked
+    .filter((item) => item.similarityScore >= MIN_COMPARABLE_SCORE)
+    .sort(
+      (a, b) =>
+        b.similarityScore - a.similarityScore ||
+        String(b.decisionDate || '').localeCompare(String(a.decisionDate || ''))
+    )
+    .slice(0, limit);
 }
 
 export async function getCaseContext(caseId: string): Promise<FOSCaseContext | null> {
@@ -495,6 +674,211 @@ export async function getCaseContext(caseId: string): Promise<FOSCaseContext | n
   };
 }
 
+// ─── Similarity helpers ──────────────────────────────────────────────────────
+
+const MIN_ATTRIBUTE_SIMILARITY = 3;
+/** Attribute points at which the attribute half of the blend saturates (same product + firm + outcome + 2 shared tags). */
+const ATTRIBUTE_SCORE_CEILING = 9;
+const SEMANTIC_WEIGHT = 0.65;
+const MIN_SEMANTIC_SIMILARITY = 0.15;
+/**
+ * Candidates are pre-ranked by attribute overlap in SQL and only this many are
+ * scored semantically, which keeps cosine scoring out of the database while
+ * still letting close wording outrank weak attribute matches.
+ */
+const SEMANTIC_CANDIDATE_POOL = 600;
+
+const COMPARABLE_TEXT_MAX_CHARS = 8000;
+const COMPARABLE_KEYWORD_LIMIT = 16;
+const COMPARABLE_CANDIDATE_POOL = 400;
+const MIN_COMPARABLE_SCORE = 10;
+/** Blend weights for free-text comparable search; they sum to 1 so scores read as 0-100. */
+const COMPARABLE_WEIGHTS = {
+  semantic: 0.45,
+  keyword: 0.25,
+  product: 0.15,
+  rootCause: 0.15,
+};
+
+/**
+ * Shared CTE for both similarity modes. Expects $1 case id, $2 product, $3 firm,
+ * $4 outcome, $5 lower-cased root causes and $6 lower-cased precedents.
+ */
+function similarityScoredCte(extraColumns: string, extraWhere = ''): string {
+  return `
+    WITH source_case AS (
+      SELECT
+        ${caseIdExpression('d')} AS case_id
+      FROM fos_decisions d
+      WHERE ${caseIdExpression('d')} = $1
+         OR d.decision_reference = $1
+      LIMIT 1
+    ),
+    matched AS (
+      SELECT
+        ${caseIdExpression('d')} AS case_id,
+        d.decision_reference,
+        d.decision_date,
+        NULLIF(BTRIM(d.business_name), '') AS firm_name,
+        NULLIF(BTRIM(d.product_sector), '') AS product_group,
+        ${outcomeExpression('d')} AS outcome,
+        d.decision_summary,
+        COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') = $2 AS product_match,
+        COALESCE(NULLIF(BTRIM(d.business_name), ''), '') = $3 AS firm_match,
+        ${outcomeExpression('d')} = $4 AS outcome_match,
+        ARRAY(
+          SELECT DISTINCT BTRIM(rt.value)
+          FROM jsonb_array_elements_text(COALESCE(d.root_cause_tags, '[]'::jsonb)) AS rt(value)
+          WHERE LOWER(BTRIM(rt.value)) = ANY($5::TEXT[])
+        ) AS shared_root_causes,
+        ARRAY(
+          SELECT DISTINCT BTRIM(p.value)
+          FROM jsonb_array_elements_text(COALESCE(d.precedents, '[]'::jsonb)) AS p(value)
+          WHERE LOWER(BTRIM(p.value)) = ANY($6::TEXT[])
+        ) AS shared_precedents
+        ${extraColumns}
+      FROM fos_decisions d
+      WHERE ${caseIdExpression('d')} NOT IN (SELECT case_id FROM source_case)
+        AND d.decision_reference IS DISTINCT FROM $1
+        ${extraWhere}
+    ),
+    scored AS (
+      SELECT
+        m.*,
+        (
+          CASE WHEN m.product_match THEN 3 ELSE 0 END
+          + CASE WHEN m.firm_match THEN 1 ELSE 0 END
+          + CASE WHEN m.outcome_match THEN 1 ELSE 0 END
+          + COALESCE(array_length(m.shared_root_causes, 1), 0) * 2
+          + COALESCE(array_length(m.shared_precedents, 1), 0)
+        ) AS similarity_score
+      FROM matched m
+    )
+  `;
+}
+
+async function getSemanticSimilarCases(
+  detail: FOSCaseDetail,
+  encoder: FOSTextEncoder,
+  params: unknown[],
+  limit: number
+): Promise<FOSSimilarCase[] | null> {
+  const source = await DatabaseClient.queryOne<Record<string, unknown>>(
+    `
+      SELECT d.embedding
+      FROM fos_decisions d
+      WHERE (${caseIdExpression('d')} = $1 OR d.decision_reference = $1)
+        AND d.embedding_model = $2
+      LIMIT 1
+    `,
+    [detail.caseId, encoder.model]
+  );
+  // Cases that have not been backfilled yet are encoded on the fly from their sections.
+  const sourceVector =
+    parseEmbedding(source?.embedding, encoder.dim) || encoder.encode(buildEmbeddingDocument(detail));
+
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+    ${similarityScoredCte(', d.embedding', 'AND d.embedding IS NOT NULL AND d.embedding_model = $7')}
+    SELECT * FROM scored
+    ORDER BY similarity_score DESC, decision_date DESC NULLS LAST
+    LIMIT $8
+    `,
+    [...params, encoder.model, SEMANTIC_CANDIDATE_POOL]
+  );
+  if (rows.length === 0) return null;
+
+  const ranked: FOSSimilarCase[] = [];
+  for (const row of rows) {
+    const vector = parseEmbedding(row.embedding, encoder.dim);
+    if (!vector) continue;
+
+    const semanticScore = clamp(cosineSimilarity(sourceVector, vector), 0, 1);
+    const attributeScore = toInt(row.similarity_score);
+    if (semanticScore < MIN_SEMANTIC_SIMILARITY && attributeScore < MIN_ATTRIBUTE_SIMILARITY) continue;
+
+    const attributeShare = (1 - SEMANTIC_WEIGHT) * 100 * (Math.min(attributeScore, ATTRIBUTE_SCORE_CEILING) / ATTRIBUTE_SCORE_CEILING);
+    const semanticShare = SEMANTIC_WEIGHT * 100 * semanticScore;
+    const attributeScale = attributeScore > 0 ? attributeShare / attributeScore : 0;
+
+    const signals: FOSSimilaritySignal[] = [
+      {
+        kind: 'semantic',
+        label: `Decision wording ${Math.round(semanticScore * 100)}% similar`,
+        contribution: roundContribution(semanticShare),
+      },
+      ...buildAttributeSignals(row).map((signal) => ({
+        ...signal,
+        contribution: roundContribution(signal.contribution * attributeScale),
+      })),
+    ];
+
+    ranked.push({
+      ...mapSimilarCaseRow(row),
+      similarityScore: Math.round(semanticShare + attributeShare),
+      semanticScore: Math.round(semanticScore * 1000) / 1000,
+      signals,
+    });
+  }
+
+  ranked.sort(
+    (a, b) =>
+      b.similarityScore - a.similarityScore ||
+      (b.semanticScore || 0) - (a.semanticScore || 0) ||
+      String(b.decisionDate || '').localeCompare(String(a.decisionDate || ''))
+  );
+  return ranked.slice(0, limit);
+}
+
+function mapSimilarCaseRow(row: Record<string, unknown>): Omit<FOSSimilarCase, 'similarityScore' | 'semanticScore' | 'signals'> {
+  return {
+    caseId: String(row.case_id || row.decision_reference || ''),
+    decisionReference: String(row.decision_reference || ''),
+    decisionDate: toIsoDate(row.decision_date),
+    firmName: nullableString(row.firm_name),
+    productGroup: nullableString(row.product_group),
+    outcome: normalizeOutcome(String(row.outcome || 'unknown')),
+    decisionSummary: nullableString(row.decision_summary),
+  };
+}
+
+/** Signals use the same point weights as the attribute score in `similarityScoredCte`. */
+function buildAttributeSignals(row: Record<string, unknown>): FOSSimilaritySignal[] {
+  const signals: FOSSimilaritySignal[] = [];
+  if (row.product_match === true) {
+    signals.push({ kind: 'product', label: 'Same product', contribution: 3 });
+  }
+  if (row.firm_match === true) {
+    signals.push({ kind: 'firm', label: 'Same firm', contribution: 1 });
+  }
+  if (row.outcome_match === true) {
+    signals.push({ kind: 'outcome', label: 'Same outcome', contribution: 1 });
+  }
+  const rootCauses = parseStringArray(row.shared_root_causes).map(normalizeTagLabel);
+  if (rootCauses.length > 0) {
+    signals.push({
+      kind: 'root_cause',
+      label: `${rootCauses.length} shared root cause${rootCauses.length === 1 ? '' : 's'}`,
+      contribution: rootCauses.length * 2,
+      matches: rootCauses,
+    });
+  }
+  const sharedPrecedents = parseStringArray(row.shared_precedents).map(normalizeTagLabel);
+  if (sharedPrecedents.length > 0) {
+    signals.push({
+      kind: 'precedent',
+      label: `${sharedPrecedents.length} shared precedent${sharedPrecedents.length === 1 ? '' : 's'}`,
+      contribution: sharedPrecedents.length,
+      matches: sharedPrecedents,
+    });
+  }
+  return signals;
+}
+
+function roundContribution(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
 // ─── Private helpers ─────────────────────────────────────────────────────────
 
 function mapCaseListItem(row: Record<string, unknown>): FOSCaseListItem {
@@ -515,6 +899,8 @@ function mapCaseListItem(row: Record<string, unknown>): FOSCaseListItem {
     vulnerabilityFlags: parseStringArray(row.vulnerability_flags),
     pdfUrl: nullableString(row.pdf_url),
     sourceUrl: nullableString(row.source_url),
+    searchRank: row.search_rank == null ? null : toNumber(row.search_rank),
+    searchSnippet: nullableString(row.search_snippet),
   };
 }
 
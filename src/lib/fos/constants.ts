@@ -1,4 +1,4 @@
-import { FOSDashboardFilters, FOSOutcome } from './types';
+import { FOSDashboardFilters, FOSOutcome, FOSRedressAwardType } from './types';
 
 export const OUTCOME_LABELS: Record<FOSOutcome, string> = {
   upheld: 'Upheld',
@@ -9,6 +9,17 @@ export const OUTCOME_LABELS: Record<FOSOutcome, string> = {
   unknown: 'Unknown',
 };
 
+export const REDRESS_AWARD_TYPE_LABELS: Record<FOSRedressAwardType, string> = {
+  distress_inconvenience: 'Distress & inconvenience',
+  refund: 'Refund',
+  financial_loss: 'Financial loss',
+  claim_settlement: 'Claim settlement',
+  interest: 'Interest',
+  credit_file: 'Credit file correction',
+  apology: 'Apology',
+  other: 'Other payment',
+};
+
 export const STATUS_STYLES: Record<
   'running' | 'idle' | 'warning' | 'error',
   { badge: string; dot: string; label: string }
@@ -25,11 +36,16 @@ export const INITIAL_FILTERS: FOSDashboardFilters = {
   outcomes: [],
   products: [],
   firms: [],
+  firmLevel: 'entity',
+  ombudsmen: [],
   tags: [],
   page: 1,
   pageSize: 25,
 };
 
+/** Fewest decisions an ombudsman needs in scope before their outcome rates are shown. */
+export const OMBUDSMAN_MIN_DECISIONS = 30;
+
 export const OUTCOME_COLORS: Record<FOSOutcome, string> = {
   upheld: '#10b981',
   not_upheld: '#f43f5e',
@@ -39,5 +55,9 @@ export const OUTCOME_COLORS: Record<FOSOutcome, string> = {
   unknown: '#64748b',
 };
 
+// Delimiters wrapped around matched terms in search snippets (see `searchHeadlineExpression`).
+export const SEARCH_HIGHLIGHT_START = '\u00ab';
+export const SEARCH_HIGHLIGHT_END = '\u00bb';
+
 export const DASHBOARD_TIMEOUT_MS = 45_000;
 export const ANALYSIS_TIMEOUT_MS = 60_000;
@@ -10,12 +10,17 @@ import {
   DashboardSummaryPayload,
   ensureDatabaseConfigured,
   ensureFosDecisionsTableExists,
+  firmExpression,
   hasActiveScopeFilters,
+  hasFirmRegistry,
+  hasProductTaxonomy,
   normalizeLabel,
   normalizeOutcome,
   normalizeTagLabel,
+  ombudsmanScopedRate,
   outcomeExpression,
   percentage,
+  productExpression,
   queryFilterOptions,
   queryIngestionStatus,
   querySummarySnapshot,
@@ -79,7 +84,7 @@ export async function getDashboardSnapshot(
     queryDashboardAggregateBundle(filters),
     precedentsPromise,
     rootCausesPromise,
-    queryFilterOptions(),
+    queryFilterOptions(filters.firmLevel),
     queryIngestionStatus(),
   ]);
 
@@ -102,8 +107,8 @@ export async function getDashboardSnapshot(
     upheldCases: toInt(aggregateRow?.upheld_cases),
     notUpheldCases: toInt(aggregateRow?.not_upheld_cases),
     partiallyUpheldCases: toInt(aggregateRow?.partially_upheld_cases),
-    upheldRate: toNumber(aggregateRow?.upheld_rate),
-    notUpheldRate: toNumber(aggregateRow?.not_upheld_rate),
+    upheldRate: ombudsmanScopedRate(filters, totalCases, toNumber(aggregateRow?.upheld_rate)),
+    notUpheldRate: ombudsmanScopedRate(filters, totalCases, toNumber(aggregateRow?.not_upheld_rate)),
     topRootCause: rootCauseRows[0]?.label ? normalizeTagLabel(String(rootCauseRows[0].label)) : null,
     topPrecedent: precedentRows[0]?.label ? normalizeTagLabel(String(precedentRows[0].label)) : null,
     earliestDecisionDate: toIsoDate(aggregateRow?.earliest_decision_date),
@@ -180,7 +185,8 @@ async function queryDashboardAggregateBundle(filters: FOSDashboardFilters): Prom
           SELECT
             d.decision_date,
             d.business_name,
-            d.product_sector,
+            ${firmExpression('d', 'entity', hasFirmRegistry())} AS firm_label,
+            ${productExpression('d', 'product', hasProductTaxonomy())} AS product_label,
             d.ombudsman_reasoning_text,
             ${outcomeExpression('d')} AS outcome_bucket
           FROM fos_decisions d
@@ -254,7 +260,7 @@ async function queryDashboardAggregateBundle(filters: FOSDashboardFilters): Prom
               SELECT jsonb_agg(row_to_json(p) ORDER BY p.total DESC, p.product ASC)
               FROM (
                 SELECT
-                  COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') AS product,
+                  product_label AS product,
                   COUNT(*)::INT AS total,
                   ROUND(
                     COALESCE(
@@ -265,7 +271,7 @@ async function queryDashboardAggregateBundle(filters: FOSDashboardFilters): Prom
                     2
                   ) AS upheld_rate
                 FROM base
-                GROUP BY COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified')
+                GROUP BY product_label
                 ORDER BY total DESC, product ASC
                 LIMIT 12
               ) p
@@ -277,7 +283,7 @@ async function queryDashboardAggregateBundle(filters: FOSDashboardFilters): Prom
               SELECT jsonb_agg(row_to_json(fm) ORDER BY fm.total DESC, fm.firm ASC)
               FROM (
                 SELECT
-                  COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm') AS firm,
+                  firm_label AS firm,
                   COUNT(*)::INT AS total,
                   ROUND(
                     COALESCE(
@@ -296,7 +302,7 @@ async function queryDashboardAggregateBundle(filters: FOSDashboardFilters): Prom
                     2
                   ) AS not_upheld_rate
                 FROM base
-                GROUP BY COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm')
+                GROUP BY firm_label
                 ORDER BY total DESC, firm ASC
                 LIMIT 15
               ) fm
@@ -382,7 +388,7 @@ async function queryDashboardAggregateBundle(filters: FOSDashboardFilters): Prom
             SELECT jsonb_agg(row_to_json(p) ORDER BY p.total DESC, p.product ASC)
             FROM (
               SELECT
-                COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') AS product,
+                product_label AS product,
                 COUNT(*)::INT AS total,
                 ROUND(
                   COALESCE(
@@ -393,7 +399,7 @@ async function queryDashboardAggregateBundle(filters: FOSDashboardFilters): Prom
                   2
                 ) AS upheld_rate
               FROM filtered
-              GROUP BY COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified')
+              GROUP BY product_label
               ORDER BY total DESC, product ASC
               LIMIT 12
             ) p
@@ -405,7 +411,7 @@ async function queryDashboardAggregateBundle(filters: FOSDashboardFilters): Prom
             SELECT jsonb_agg(row_to_json(fm) ORDER BY fm.total DESC, fm.firm ASC)
             FROM (
               SELECT
-                COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm') AS firm,
+                firm_label AS firm,
                 COUNT(*)::INT AS total,
                 ROUND(
                   COALESCE(
@@ -424,7 +430,7 @@ async function queryDashboardAggregateBundle(filters: FOSDashboardFilters): Prom
                   2
                 ) AS not_upheld_rate
               FROM filtered
-              GROUP BY COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm')
+              GROUP BY firm_label
               ORDER BY total DESC, firm ASC
               LIMIT 15
             ) fm
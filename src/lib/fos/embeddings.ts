@@ -0,0 +1,194 @@
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * A text encoder produces fixed-length, L2-normalised vectors so cosine
+ * similarity reduces to a dot product. Encoders must be deterministic: the
+ * backfill script and the API encode with the same implementation.
+ */
+export interface FOSTextEncoder {
+  /** Stored in `fos_decisions.embedding_model`; vectors from different models are never compared. */
+  model: string;
+  dim: number;
+  encode(text: string): number[];
+}
+
+export interface FOSEmbeddingSource {
+  decisionSummary?: string | null;
+  decisionLogic?: string | null;
+  complaintText?: string | null;
+  ombudsmanReasoningText?: string | null;
+  finalDecisionText?: string | null;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+export const DEFAULT_EMBEDDING_MODEL = 'hashing-v1-512';
+
+const HASHING_DIM = 512;
+const MAX_DOCUMENT_CHARS = 24000;
+const MIN_TOKEN_LENGTH = 3;
+
+const STOP_WORDS = new Set(
+  (
+    'about above after again against all also and any are because been before being below between both but can could ' +
+    'did does doing down during each few for from further had has have having her here hers him his how into its itself ' +
+    'just more most mrs miss not now off once only other our ours out over own same she should some such than that the ' +
+    'their theirs them then there these they this those through too under until very was were what when where which while ' +
+    'who whom why will with would you your yours yourself think thought said says told asked made make also however ' +
+    'complaint complained complaining decision ombudsman investigator firm business bank lender insurer mr ms'
+  ).split(' ')
+);
+
+// ─── Encoders ────────────────────────────────────────────────────────────────
+
+/**
+ * Offline baseline encoder: signed feature hashing of unigrams and bigrams
+ * with sublinear term frequency. No corpus statistics or network access are
+ * needed, so it runs identically in scripts and request handlers.
+ */
+export function createHashingEncoder(dim = HASHING_DIM): FOSTextEncoder {
+  return {
+    model: dim === HASHING_DIM ? DEFAULT_EMBEDDING_MODEL : `hashing-v1-${dim}`,
+    dim,
+    encode(text: string): number[] {
+      const counts = new Map<string, number>();
+      const tokens = tokenize(text);
+      for (let i = 0; i < tokens.length; i += 1) {
+        counts.set(tokens[i], (counts.get(tokens[i]) || 0) + 1);
+        if (i > 0) {
+          const bigram = `${tokens[i - 1]} ${tokens[i]}`;
+          counts.set(bigram, (counts.get(bigram) || 0) + 1);
+        }
+      }
+
+      const vector = new Array<number>(dim).fill(0);
+      counts.forEach((count, feature) => {
+        const hash = fnv1a(feature);
+        const bucket = hash % dim;
+        const sign = (hash >>> 31) === 0 ? 1 : -1;
+        // Bigrams carry more topical signal than single words.
+        const weight = (1 + Math.log(count)) * (feature.includes(' ') ? 1.5 : 1);
+        vector[bucket] += sign * weight;
+      });
+
+      return normalizeVector(vector);
+    },
+  };
+}
+
+const encoderRegistry = new Map<string, FOSTextEncoder>();
+registerTextEncoder(createHashingEncoder());
+
+/** Makes an encoder available to `getTextEncoder()`, e.g. a locally hosted model wrapper. */
+export function registerTextEncoder(encoder: FOSTextEncoder): void {
+  encoderRegistry.set(encoder.model, encoder);
+}
+
+/** Resolves the named encoder, falling back to `FOS_EMBEDDING_MODEL` and then the hashing baseline. */
+export function getTextEncoder(model?: string | null): FOSTextEncoder {
+  const requested = (model || process.env.FOS_EMBEDDING_MODEL || '').trim();
+  return encoderRegistry.get(requested) || encoderRegistry.get(DEFAULT_EMBEDDING_MODEL)!;
+}
+
+// ─── Documents and vectors ───────────────────────────────────────────────────
+
+/** Text used to embed a decision: summary and logic first, then the narrative sections. */
+export function buildEmbeddingDocument(source: FOSEmbeddingSource): string {
+  return [
+    source.decisionSummary,
+    source.decisionLogic,
+    source.complaintText,
+    source.ombudsmanReasoningText,
+    source.finalDecisionText,
+  ]
+    .map((part) => (part || '').trim())
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_DOCUMENT_CHARS);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+/** Parses a stored `embedding` JSONB value, rejecting vectors whose length does not match `dim`. */
+export function parseEmbedding(value: unknown, dim: number): number[] | null {
+  let parsed: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(parsed) || parsed.length !== dim) return null;
+  const vector = parsed.map((item) => Number(item));
+  return vector.every((item) => Number.isFinite(item)) ? vector : null;
+}
+
+/** Rounds components so stored JSONB vectors stay compact. */
+export function serializeEmbedding(vector: number[]): string {
+  return JSON.stringify(vector.map((value) => Math.round(value * 1e5) / 1e5));
+}
+
+/**
+ * Most frequent content words in a narrative (stemmed, stop words removed),
+ * used to build keyword queries for free-text comparable-decision search.
+ */
+export function extractKeywords(text: string, limit = 12): string[] {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || b[0].length - a[0].length)
+    .slice(0, limit)
+    .map(([token]) => token);
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[‘’']/g, '')
+    .split(/[^a-z0-9À-ɏ]+/)
+    .filter((token) => token.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(token) && !/^\d+$/.test(token))
+    .map(stem);
+}
+
+/** Light suffix stripping so "refunds"/"refunded"/"refunding" share a feature. */
+function stem(token: string): string {
+  if (token.length <= 5) return token;
+  for (const suffix of ['ations', 'ation', 'ments', 'ment', 'ings', 'ing', 'ies', 'ied', 'edly', 'ed', 'ly', 'es', 's']) {
+    if (token.endsWith(suffix) && token.length - suffix.length >= 4) {
+      return token.slice(0, -suffix.length);
+    }
+  }
+  return token;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) return vector;
+  return vector.map((value) => value / norm);
+}
@@ -0,0 +1,82 @@
+import { DatabaseClient } from '@/lib/database';
+import { FOSDashboardFilters, FOSForecast } from './types';
+import { buildForecast } from './forecast';
+import {
+  buildFilteredAggregateCte,
+  ensureDatabaseConfigured,
+  ensureFosDecisionsTableExists,
+  hasProductTaxonomy,
+  outcomeExpression,
+  productFilterCondition,
+  toInt,
+} from './repo-helpers';
+
+/**
+ * Forecast for a dashboard/analysis filter scope. The year filter is ignored:
+ * a projection is always fitted on the full quarterly history of the scope.
+ */
+export async function getForecast(filters: FOSDashboardFilters): Promise<FOSForecast | null> {
+  ensureDatabaseConfigured();
+  await ensureFosDecisionsTableExists();
+
+  const filtered = buildFilteredAggregateCte({ ...filters, years: [] });
+  return queryForecastFromCte(filtered.cteSql, filtered.params);
+}
+
+/** Forecast for an advisor brief scope: one product, optionally narrowed to a root cause. */
+export async function queryAdvisorForecast(product: string, rootCause: string | null): Promise<FOSForecast | null> {
+  const params: unknown[] = [product];
+  let rootCauseFilter = '';
+  if (rootCause) {
+    params.push(rootCause);
+    rootCauseFilter = `AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(COALESCE(d.root_cause_tags, '[]'::jsonb)) AS rt(value)
+      WHERE LOWER(BTRIM(rt.value)) = LOWER($2)
+    )`;
+  }
+
+  return queryForecastFromCte(
+    `
+      WITH filtered AS (
+        SELECT
+          d.decision_date,
+          ${outcomeExpression('d')} AS outcome_bucket
+        FROM fos_decisions d
+        WHERE ${productFilterCondition('d', 'ARRAY[$1]::TEXT[]', { taxonomyAvailable: hasProductTaxonomy(), includeSectors: false })}
+        ${rootCauseFilter}
+      )
+    `,
+    params
+  );
+}
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+/** Buckets the `filtered` CTE into complete quarters and projects them forward. */
+async function queryForecastFromCte(cteSql: string, params: unknown[]): Promise<FOSForecast | null> {
+  const asOf = new Date();
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      ${cteSql}
+      SELECT
+        TO_CHAR(DATE_TRUNC('quarter', decision_date), 'YYYY-MM-DD') AS quarter_start,
+        COUNT(*)::INT AS total,
+        COUNT(*) FILTER (WHERE outcome_bucket = 'upheld')::INT AS upheld
+      FROM filtered
+      WHERE decision_date IS NOT NULL
+        AND decision_date < DATE_TRUNC('quarter', $${params.length + 1}::DATE)
+      GROUP BY 1
+      ORDER BY 1 ASC
+    `,
+    [...params, asOf.toISOString().slice(0, 10)]
+  );
+
+  return buildForecast(
+    rows.map((row) => ({
+      quarterStart: String(row.quarter_start),
+      total: toInt(row.total),
+      upheld: toInt(row.upheld),
+    })),
+    asOf
+  );
+}
@@ -0,0 +1,210 @@
+import type { FOSForecast, FOSForecastPeriod, FOSForecastRange, FOSForecastYear } from './types';
+
+// Quarterly volume and uphold-rate projections. Pure so every read path (API,
+// advisor brief, board pack) projects the same series the same way.
+
+/** Two-sided coverage of the prediction intervals. */
+export const FORECAST_INTERVAL_LEVEL = 0.8;
+/** Fewest complete quarters of history a forecast is fitted on. */
+export const MIN_FORECAST_QUARTERS = 8;
+
+const INTERVAL_Z = 1.2816;
+const MAX_HISTORY_QUARTERS = 40;
+// Damping keeps long horizons from extrapolating a recent swing indefinitely.
+const DAMPING = 0.9;
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+export interface FOSQuarterObservation {
+  /** First day of the quarter, `YYYY-MM-DD`. */
+  quarterStart: string;
+  total: number;
+  upheld: number;
+}
+
+interface DampedHoltFit {
+  alpha: number;
+  beta: number;
+  level: number;
+  trend: number;
+  sigma: number;
+}
+
+interface Quarter {
+  year: number;
+  /** 0-based quarter within the year. */
+  index: number;
+}
+
+/**
+ * Projects quarterly decision volume and uphold rate from the quarter `asOf`
+ * falls in to the end of the following calendar year. The quarter in progress
+ * is never used as history. Returns null with fewer than
+ * `MIN_FORECAST_QUARTERS` complete quarters.
+ */
+export function buildForecast(observations: FOSQuarterObservation[], asOf: Date = new Date()): FOSForecast | null {
+  const current = quarterOf(asOf);
+  const byKey = new Map<number, FOSQuarterObservation>();
+  for (const observation of observations) {
+    const date = new Date(`${observation.quarterStart}T00:00:00Z`);
+    if (Number.isNaN(date.getTime())) continue;
+    const key = quarterKey(quarterOf(date));
+    if (key < quarterKey(current)) byKey.set(key, observation);
+  }
+  if (byKey.size === 0) return null;
+
+  const lastKey = quarterKey(current) - 1;
+  const firstKey = Math.max(Math.min(...byKey.keys()), lastKey - MAX_HISTORY_QUARTERS + 1);
+  const history: Array<{ quarter: Quarter; total: number; upheld: number }> = [];
+  for (let key = firstKey; key <= lastKey; key += 1) {
+    const observation = byKey.get(key);
+    history.push({ quarter: fromQuarterKey(key), total: observation?.total ?? 0, upheld: observation?.upheld ?? 0 });
+  }
+  if (history.length < MIN_FORECAST_QUARTERS) return null;
+
+  // Quarters without decisions have no rate; the rate model skips them.
+  const volumeFit = fitDampedHolt(history.map((row) => row.total));
+  const rateFit = fitDampedHolt(history.filter((row) => row.total > 0).map((row) => (row.upheld / row.total) * 100));
+
+  const horizon = 4 - current.index + 4;
+  const quarters: FOSForecastPeriod[] = [];
+  for (let h = 1; h <= horizon; h += 1) {
+    const quarter = fromQuarterKey(lastKey + h);
+    quarters.push({
+      label: `${quarter.year}-Q${quarter.index + 1}`,
+      start: quarterStart(quarter),
+      end: quarterEnd(quarter),
+      total: roundRange(project(volumeFit, h, 0, Number.POSITIVE_INFINITY), 0),
+      upheldRate: roundRange(project(rateFit, h, 0, 100), 2),
+    });
+  }
+
+  const years: FOSForecastYear[] = [current.year, current.year + 1].map((year) => {
+    const projected = quarters.filter((quarter) => quarter.start.startsWith(`${year}-`));
+    const actual = history.filter((row) => row.quarter.year === year);
+    const period = combinePeriods(projected, {
+      total: actual.reduce((sum, row) => sum + row.total, 0),
+      upheld: actual.reduce((sum, row) => sum + row.upheld, 0),
+    });
+    return { ...period, label: String(year), start: `${year}-01-01`, year, actualToDate: actual.reduce((sum, row) => sum + row.total, 0) };
+  });
+
+  return {
+    method: 'damped_holt',
+    intervalLevel: FORECAST_INTERVAL_LEVEL,
+    historyQuarters: history.length,
+    lastCompleteQuarter: `${history[history.length - 1].quarter.year}-Q${history[history.length - 1].quarter.index + 1}`,
+    // quarters[0] is the quarter in progress; "next" starts after it.
+    nextQuarter: quarters[1],
+    nextYear: combinePeriods(quarters.slice(1, 5)),
+    quarters,
+    years,
+  };
+}
+
+/** Damped-trend Holt smoothing; alpha and beta are picked by one-step-ahead squared error. */
+function fitDampedHolt(series: number[]): DampedHoltFit {
+  if (series.length < 2) {
+    return { alpha: 0.5, beta: 0.1, level: series[0] ?? 0, trend: 0, sigma: 0 };
+  }
+
+  const seedSpan = Math.min(4, series.length - 1);
+  const initialTrend = (series[seedSpan] - series[0]) / seedSpan;
+  let best: (DampedHoltFit & { sse: number }) | null = null;
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      let level = series[0];
+      let trend = initialTrend;
+      let sse = 0;
+      for (let t = 1; t < series.length; t += 1) {
+        const error = series[t] - (level + DAMPING * trend);
+        level = level + DAMPING * trend + alpha * error;
+        trend = DAMPING * trend + alpha * beta * error;
+        sse += error * error;
+      }
+      if (!best || sse < best.sse) {
+        best = { alpha, beta, level, trend, sigma: Math.sqrt(sse / Math.max(1, series.length - 3)), sse };
+      }
+    }
+  }
+
+  const { alpha, beta, level, trend, sigma } = best!;
+  return { alpha, beta, level, trend, sigma };
+}
+
+function project(fit: DampedHoltFit, h: number, min: number, max: number): FOSForecastRange {
+  const value = fit.level + dampingSum(h) * fit.trend;
+  let variance = 1;
+  for (let j = 1; j < h; j += 1) {
+    variance += (fit.alpha * (1 + fit.beta * dampingSum(j))) ** 2;
+  }
+  const margin = INTERVAL_Z * fit.sigma * Math.sqrt(variance);
+  return {
+    value: clamp(value, min, max),
+    lower: clamp(value - margin, min, max),
+    upper: clamp(value + margin, min, max),
+  };
+}
+
+/**
+ * Sums projected quarters, plus any actuals already recorded. Interval widths
+ * add as if quarterly errors were fully correlated, which errs wide. Rates are
+ * weighted by projected (and actual) volume.
+ */
+function combinePeriods(periods: FOSForecastPeriod[], actual = { total: 0, upheld: 0 }): FOSForecastPeriod {
+  const projectedTotal = periods.reduce((sum, period) => sum + period.total.value, 0);
+  const total: FOSForecastRange = {
+    value: actual.total + projectedTotal,
+    lower: actual.total + periods.reduce((sum, period) => sum + period.total.lower, 0),
+    upper: actual.total + periods.reduce((sum, period) => sum + period.total.upper, 0),
+  };
+
+  const weightOf = (period: FOSForecastPeriod) => (projectedTotal > 0 ? period.total.value : 1);
+  const weight = actual.total + periods.reduce((sum, period) => sum + weightOf(period), 0);
+  const actualUpheld = actual.upheld * 100;
+  const weighted = (pick: (range: FOSForecastRange) => number) =>
+    weight > 0 ? (actualUpheld + periods.reduce((sum, period) => sum + pick(period.upheldRate) * weightOf(period), 0)) / weight : 0;
+
+  return {
+    label: periods.length > 0 ? `${periods[0].label} to ${periods[periods.length - 1].label}` : '',
+    start: periods[0]?.start ?? '',
+    end: periods[periods.length - 1]?.end ?? '',
+    total: roundRange(total, 0),
+    upheldRate: roundRange({ value: weighted((r) => r.value), lower: weighted((r) => r.lower), upper: weighted((r) => r.upper) }, 2),
+  };
+}
+
+function dampingSum(h: number): number {
+  let sum = 0;
+  for (let i = 1; i <= h; i += 1) sum += DAMPING ** i;
+  return sum;
+}
+
+function roundRange(range: FOSForecastRange, digits: number): FOSForecastRange {
+  const factor = 10 ** digits;
+  const round = (value: number) => Math.round(value * factor) / factor;
+  return { value: round(range.value), lower: round(range.lower), upper: round(range.upper) };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function quarterOf(date: Date): Quarter {
+  return { year: date.getUTCFullYear(), index: Math.floor(date.getUTCMonth() / 3) };
+}
+
+function quarterKey(quarter: Quarter): number {
+  return quarter.year * 4 + quarter.index;
+}
+
+function fromQuarterKey(key: number): Quarter {
+  return { year: Math.floor(key / 4), index: key % 4 };
+}
+
+function quarterStart(quarter: Quarter): string {
+  return `${quarter.year}-${String(quarter.index * 3 + 1).padStart(2, '0')}-01`;
+}
+
+function quarterEnd(quarter: Quarter): string {
+  return new Date(Date.UTC(quarter.year, quarter.index * 3 + 3, 0)).toISOString().slice(0, 10);
+}
@@ -0,0 +1,145 @@
+import { DatabaseClient } from '@/lib/database';
+import { FOSDashboardFilters, FOSRedressAwardType, FOSRedressDistribution } from './types';
+import {
+  buildFilteredRedressCte,
+  hasProductTaxonomy,
+  isMissingColumnError,
+  percentage,
+  productFilterCondition,
+  toInt,
+  toNumber,
+} from './repo-helpers';
+
+/** Typical redress for a dashboard/analysis filter scope. */
+export async function queryRedressDistribution(filters: FOSDashboardFilters): Promise<FOSRedressDistribution | null> {
+  const filtered = buildFilteredRedressCte(filters);
+  return queryRedressFromCte(filtered.cteSql, filtered.params);
+}
+
+/** Typical redress for an advisor brief scope: one product, optionally narrowed to a root cause. */
+export async function queryAdvisorRedressDistribution(
+  product: string,
+  rootCause: string | null
+): Promise<FOSRedressDistribution | null> {
+  const params: unknown[] = [product];
+  let rootCauseFilter = '';
+  if (rootCause) {
+    params.push(rootCause);
+    rootCauseFilter = `AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(COALESCE(d.root_cause_tags, '[]'::jsonb)) AS rt(value)
+      WHERE LOWER(BTRIM(rt.value)) = LOWER($2)
+    )`;
+  }
+
+  return queryRedressFromCte(
+    `
+      WITH filtered AS (
+        SELECT
+          d.redress_awards,
+          d.redress_award_types,
+          d.redress_total_amount,
+          d.redress_interest_rate,
+          d.redress_interest_basis,
+          d.redress_extracted_at
+        FROM fos_decisions d
+        WHERE ${productFilterCondition('d', 'ARRAY[$1]::TEXT[]', { taxonomyAvailable: hasProductTaxonomy(), includeSectors: false })}
+        ${rootCauseFilter}
+      )
+    `,
+    params
+  );
+}
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Summarises the `filtered` CTE. Returns null when the redress columns have not
+ * been migrated yet or no decision in scope has been through extraction.
+ */
+async function queryRedressFromCte(cteSql: string, params: unknown[]): Promise<FOSRedressDistribution | null> {
+  try {
+    const [summaryRow, typeRows] = await Promise.all([
+      DatabaseClient.queryOne<Record<string, unknown>>(
+        `
+          ${cteSql}
+          SELECT
+            COUNT(*) FILTER (WHERE redress_extracted_at IS NOT NULL)::INT AS decisions_analysed,
+            COUNT(*) FILTER (WHERE jsonb_array_length(COALESCE(redress_award_types, '[]'::jsonb)) > 0)::INT AS decisions_with_redress,
+            COUNT(redress_total_amount)::INT AS decisions_with_amount,
+            PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY redress_total_amount) AS p25,
+            PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY redress_total_amount) AS median,
+            PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY redress_total_amount) AS p75,
+            PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY redress_total_amount) AS p90,
+            AVG(redress_total_amount) AS mean,
+            COUNT(redress_interest_rate)::INT AS decisions_with_interest,
+            COUNT(*) FILTER (WHERE redress_interest_basis = 'simple')::INT AS simple_interest,
+            MODE() WITHIN GROUP (ORDER BY redress_interest_rate) AS common_interest_rate
+          FROM filtered
+        `,
+        params
+      ),
+      DatabaseClient.query<Record<string, unknown>>(
+        `
+          ${cteSql}
+          SELECT
+            award.award_type,
+            COUNT(*)::INT AS decisions,
+            PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY award.amount) AS median_amount
+          FROM filtered
+          CROSS JOIN LATERAL (
+            SELECT
+              a.value->>'type' AS award_type,
+              SUM((a.value->>'amount')::NUMERIC) AS amount
+            FROM jsonb_array_elements(COALESCE(filtered.redress_awards, '[]'::jsonb)) AS a(value)
+            GROUP BY a.value->>'type'
+          ) AS award
+          GROUP BY award.award_type
+          ORDER BY decisions DESC, award.award_type ASC
+        `,
+        params
+      ),
+    ]);
+
+    const decisionsAnalysed = toInt(summaryRow?.decisions_analysed);
+    if (decisionsAnalysed === 0) return null;
+
+    const decisionsWithRedress = toInt(summaryRow?.decisions_with_redress);
+    const decisionsWithMonetaryAward = toInt(summaryRow?.decisions_with_amount);
+    const decisionsWithInterest = toInt(summaryRow?.decisions_with_interest);
+
+    return {
+      decisionsAnalysed,
+      decisionsWithRedress,
+      decisionsWithMonetaryAward,
+      amounts:
+        decisionsWithMonetaryAward > 0
+          ? {
+              p25: roundAmount(summaryRow?.p25),
+              median: roundAmount(summaryRow?.median),
+              p75: roundAmount(summaryRow?.p75),
+              p90: roundAmount(summaryRow?.p90),
+              mean: roundAmount(summaryRow?.mean),
+            }
+          : null,
+      byType: typeRows.map((row) => ({
+        type: String(row.award_type || 'other') as FOSRedressAwardType,
+        decisions: toInt(row.decisions),
+        share: percentage(toInt(row.decisions), decisionsWithRedress),
+        medianAmount: row.median_amount == null ? null : roundAmount(row.median_amount),
+      })),
+      interest: {
+        decisions: decisionsWithInterest,
+        share: percentage(decisionsWithInterest, decisionsWithRedress),
+        commonRate: summaryRow?.common_interest_rate == null ? null : toNumber(summaryRow.common_interest_rate),
+        simpleShare: percentage(toInt(summaryRow?.simple_interest), decisionsWithInterest),
+      },
+    };
+  } catch (error) {
+    if (isMissingColumnError(error, 'redress_extracted_at')) return null;
+    throw error;
+  }
+}
+
+function roundAmount(value: unknown): number {
+  return Math.round(toNumber(value) * 100) / 100;
+}
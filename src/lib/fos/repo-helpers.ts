@@ -3,10 +3,21 @@ import {
   FOSDashboardFilters,
   FOSDashboardSnapshot,
   FOSFilterOptions,
+  FOSFirmLevel,
   FOSIngestionStatus,
+  FOSOmbudsmanStat,
   FOSOutcome,
   FOSTagCount,
 } from './types';
+import {
+  buildSearchConditions,
+  parseSearchQuery,
+  searchDocumentExpression,
+  searchRankExpression,
+} from './search-query';
+import { OMBUDSMAN_MIN_DECISIONS } from './constants';
+import { productLabelSql, rawProductLabelSql } from '@/lib/products/sql';
+import type { ProductLevel } from '@/lib/products/types';
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 
@@ -50,12 +61,14 @@ export type WhereBuildResult = {
   whereSql: string;
   params: unknown[];
   nextIndex: number;
+  searchQuerySql: string | null;
 };
 
 export type CteBuildResult = {
   cteSql: string;
   params: unknown[];
   nextIndex: number;
+  searchQuerySql: string | null;
 };
 
 export type DashboardSummaryPayload = Pick<
@@ -65,7 +78,9 @@ export type DashboardSummaryPayload = Pick<
 
 // ─── Caches ──────────────────────────────────────────────────────────────────
 
-let tableCheckCache: { exists: boolean; checkedAt: number } | null = null;
+let tableCheckCache:
+  | { exists: boolean; hasSearchVector: boolean; hasFirmRegistry: boolean; hasProductTaxonomy: boolean; checkedAt: number }
+  | null = null;
 let tagPresenceCache:
   | {
       checkedAt: number;
@@ -73,7 +88,7 @@ let tagPresenceCache:
       rootCauseTags: boolean;
     }
   | null = null;
-let filterOptionsCache: { checkedAt: number; value: FOSFilterOptions } | null = null;
+let filterOptionsCache: Partial<Record<FOSFirmLevel, { checkedAt: number; value: FOSFilterOptions }>> = {};
 
 // ─── Filter parsing ──────────────────────────────────────────────────────────
 
@@ -89,6 +104,8 @@ export function parseFilters(searchParams: URLSearchParams): FOSDashboardFilters
     outcomes,
     products: parseStringList(searchParams, 'product'),
     firms: parseStringList(searchParams, 'firm'),
+    firmLevel: parseFirmLevel(searchParams.get('firmLevel')),
+    ombudsmen: parseStringList(searchParams, 'ombudsman'),
     tags: parseStringList(searchParams, 'tag').map((value) => value.toLowerCase()),
     page: parsePositiveInt(searchParams.get('page'), DEFAULT_PAGE),
     pageSize: clamp(parsePositiveInt(searchParams.get('pageSize'), DEFAULT_PAGE_SIZE), 5, MAX_PAGE_SIZE),
@@ -102,10 +119,16 @@ export function hasActiveScopeFilters(filters: FOSDashboardFilters): boolean {
     filters.outcomes.length > 0 ||
     filters.products.length > 0 ||
     filters.firms.length > 0 ||
+    filters.firmLevel === 'group' ||
+    filters.ombudsmen.length > 0 ||
     filters.tags.length > 0
   );
 }
 
+export function parseFirmLevel(value: string | null): FOSFirmLevel {
+  return value === 'group' ? 'group' : 'entity';
+}
+
 // ─── SQL expression builders ─────────────────────────────────────────────────
 
 export function outcomeExpression(alias: string): string {
@@ -145,6 +168,114 @@ export function caseIdExpression(alias: string): string {
   `;
 }
 
+/** Registry key for a decision's firm name. Mirrors normalizeFirmKey in src/lib/firms/normalize.ts. */
+export function firmKeyExpression(alias: string): string {
+  return firmKeySql(`${alias}.business_name`);
+}
+
+function firmKeySql(nameSql: string): string {
+  return `BTRIM(REGEXP_REPLACE(LOWER(COALESCE(${nameSql}, '')), '[^a-z0-9]+', ' ', 'g'))`;
+}
+
+function firmLookupLabelColumn(level: FOSFirmLevel): string {
+  return level === 'group' ? 'COALESCE(firm_lookup.group_name, firm_lookup.entity_name)' : 'firm_lookup.entity_name';
+}
+
+/**
+ * Firm label for a decision row. With the firm registry (`hasFirmRegistry()`),
+ * aliased names resolve to their registered entity, or at `group` level to the
+ * entity's parent; unregistered names fall through verbatim.
+ */
+export function firmExpression(alias: string, level: FOSFirmLevel, registryAvailable: boolean): string {
+  const raw = `COALESCE(NULLIF(BTRIM(${alias}.business_name), ''), 'Unknown firm')`;
+  if (!registryAvailable) return raw;
+  return `
+    COALESCE(
+      (SELECT ${firmLookupLabelColumn(level)} FROM fos_firm_lookup firm_lookup WHERE firm_lookup.alias_key = ${firmKeyExpression(alias)}),
+      ${raw}
+    )
+  `;
+}
+
+/**
+ * Matches decisions whose `firmExpression` label is in `namesSql`, a TEXT[]
+ * expression. With the registry, the labels are resolved once to the raw
+ * spellings behind their aliases (unregistered names stand for themselves),
+ * so rows are matched on `business_name` instead of a per-row alias lookup.
+ */
+export function firmFilterCondition(
+  alias: string,
+  level: FOSFirmLevel,
+  namesSql: string,
+  options: { registryAvailable: boolean; includesUnknown: boolean }
+): string {
+  if (!options.registryAvailable) return `${firmExpression(alias, level, false)} = ANY(${namesSql})`;
+  const unknown = options.includesUnknown ? ` OR NULLIF(BTRIM(${alias}.business_name), '') IS NULL` : '';
+  return `
+    (
+      ${alias}.business_name = ANY(ARRAY(
+        SELECT spelling.business_name
+        FROM fos_decisions spelling
+        WHERE ${firmKeyExpression('spelling')} IN (
+          SELECT firm_lookup.alias_key FROM fos_firm_lookup firm_lookup WHERE ${firmLookupLabelColumn(level)} = ANY(${namesSql})
+        )
+        UNION
+        SELECT unregistered.name
+        FROM UNNEST(${namesSql}) AS unregistered(name)
+        WHERE NOT EXISTS (SELECT 1 FROM fos_firm_aliases firm_alias WHERE firm_alias.alias_key = ${firmKeySql('unregistered.name')})
+      ))${unknown}
+    )
+  `;
+}
+
+export function ombudsmanExpression(alias: string): string {
+  return `COALESCE(NULLIF(BTRIM(${alias}.ombudsman_name), ''), 'Unknown ombudsman')`;
+}
+
+export function hasFirmRegistry(): boolean {
+  return Boolean(tableCheckCache?.hasFirmRegistry);
+}
+
+/**
+ * Product label for a decision row. With the product taxonomy
+ * (`hasProductTaxonomy()`), mapped `product_sector` values resolve to their
+ * managed product, or at `sector` level to its sector; unmapped values fall
+ * through verbatim.
+ */
+export function productExpression(alias: string, level: ProductLevel, taxonomyAvailable: boolean): string {
+  return productLabelSql(`${alias}.product_sector`, level, taxonomyAvailable);
+}
+
+/**
+ * Matches decisions whose `productExpression` label is in `labelsSql`, a
+ * TEXT[] expression, or with `includeSectors` whose sector label is. With the
+ * taxonomy, the labels are resolved once to the raw `product_sector` values
+ * mapped onto them, so rows are matched on the raw label (and its index)
+ * instead of a per-row rule lookup.
+ */
+export function productFilterCondition(
+  alias: string,
+  labelsSql: string,
+  options: { taxonomyAvailable: boolean; includeSectors: boolean }
+): string {
+  const raw = rawProductLabelSql(`${alias}.product_sector`);
+  if (!options.taxonomyAvailable) return `${raw} = ANY(${labelsSql})`;
+  const sectorMatch = options.includeSectors
+    ? ` OR ${productLabelSql('raw_value.product_sector', 'sector', true)} = ANY(${labelsSql})`
+    : '';
+  return `
+    ${raw} = ANY(ARRAY(
+      SELECT ${rawProductLabelSql('raw_value.product_sector')}
+      FROM (SELECT DISTINCT value_source.product_sector FROM fos_decisions value_source) raw_value
+      WHERE ${productLabelSql('raw_value.product_sector', 'product', true)} = ANY(${labelsSql})${sectorMatch}
+    ))
+  `;
+}
+
+export function hasProductTaxonomy(): boolean {
+  return Boolean(tableCheckCache?.hasProductTaxonomy);
+}
+
 // ─── CTE builders ────────────────────────────────────────────────────────────
 
 export function buildWhereClause(filters: FOSDashboardFilters, alias: string, startIndex: number): WhereBuildResult {
@@ -165,17 +296,31 @@ export function buildWhereClause(filters: FOSDashboardFilters, alias: string, st
   }
 
   if (filters.products.length > 0) {
-    conditions.push(`COALESCE(NULLIF(BTRIM(${alias}.product_sector), ''), 'Unspecified') = ANY($${index}::TEXT[])`);
+    // A sector name selects every product filed under it.
+    conditions.push(
+      productFilterCondition(alias, `$${index}::TEXT[]`, { taxonomyAvailable: hasProductTaxonomy(), includeSectors: true })
+    );
     params.push(filters.products);
     index += 1;
   }
 
   if (filters.firms.length > 0) {
-    conditions.push(`COALESCE(NULLIF(BTRIM(${alias}.business_name), ''), 'Unknown firm') = ANY($${index}::TEXT[])`);
+    conditions.push(
+      firmFilterCondition(alias, filters.firmLevel ?? 'entity', `$${index}::TEXT[]`, {
+        registryAvailable: hasFirmRegistry(),
+        includesUnknown: filters.firms.includes('Unknown firm'),
+      })
+    );
     params.push(filters.firms);
     index += 1;
   }
 
+  if (filters.ombudsmen.length > 0) {
+    conditions.push(`${ombudsmanExpression(alias)} = ANY($${index}::TEXT[])`);
+    params.push(filters.ombudsmen);
+    index += 1;
+  }
+
   if (filters.tags.length > 0) {
     conditions.push(`
       (
@@ -195,56 +340,56 @@ export function buildWhereClause(filters: FOSDashboardFilters, alias: string, st
     index += 1;
   }
 
+  let searchQuerySql: string | null = null;
   if (filters.query) {
-    const terms = filters.query
-      .split(/\s+/)
-      .map((term) => term.trim())
-      .filter(Boolean)
-      .slice(0, 6);
-
-    for (const term of terms) {
-      const escaped = term.replace(/[%_\\]/g, '\\$&');
-      const searchPattern = `%${escaped}%`;
-      conditions.push(`
-        (
-          ${alias}.decision_reference ILIKE $${index}
-          OR ${alias}.business_name ILIKE $${index}
-          OR ${alias}.product_sector ILIKE $${index}
-          OR ${alias}.decision_summary ILIKE $${index}
-          OR ${alias}.decision_logic ILIKE $${index}
-        )
-      `);
-      params.push(searchPattern);
-      index += 1;
-    }
+    const search = buildSearchConditions(parseSearchQuery(filters.query), alias, searchVectorExpression(alias), index);
+    conditions.push(...search.conditions);
+    params.push(...search.params);
+    index = search.nextIndex;
+    searchQuerySql = search.rankQuerySql;
   }
 
   return {
     whereSql: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
     params,
     nextIndex: index,
+    searchQuerySql,
   };
 }
 
+/** Weighted full-text vector for a decision row; uses the indexed generated column once it has been added. */
+export function searchVectorExpression(alias: string): string {
+  return tableCheckCache?.hasSearchVector ? `${alias}.search_vector` : searchDocumentExpression(alias);
+}
+
 export function buildFilteredSelectCte(
   filters: FOSDashboardFilters,
   selectColumns: string[],
-  options: { materialized?: boolean } = {}
+  options: { materialized?: boolean; includeSearchRank?: boolean } = {}
 ): CteBuildResult {
   const where = buildWhereClause(filters, 'd', 1);
   const materializedClause = options.materialized ? ' MATERIALIZED' : '';
+  const columns = options.includeSearchRank
+    ? [
+        ...selectColumns,
+        where.searchQuerySql
+          ? `${searchRankExpression(searchVectorExpression('d'), where.searchQuerySql)} AS search_rank`
+          : 'NULL::REAL AS search_rank',
+      ]
+    : selectColumns;
 
   return {
     cteSql: `
       WITH filtered AS${materializedClause} (
         SELECT
-          ${selectColumns.join(',\n          ')}
+          ${columns.join(',\n          ')}
         FROM fos_decisions d
         ${where.whereSql}
       )
     `,
     params: where.params,
     nextIndex: where.nextIndex,
+    searchQuerySql: where.searchQuerySql,
   };
 }
 
@@ -252,7 +397,9 @@ export function buildFilteredAggregateCte(filters: FOSDashboardFilters): CteBuil
   return buildFilteredSelectCte(filters, [
     'd.decision_date',
     'd.business_name',
-    'd.product_sector',
+    `${firmExpression('d', filters.firmLevel ?? 'entity', hasFirmRegistry())} AS firm_label`,
+    `${productExpression('d', 'product', hasProductTaxonomy())} AS product_label`,
+    `${ombudsmanExpression('d')} AS ombudsman_label`,
     'd.ombudsman_reasoning_text',
     `${outcomeExpression('d')} AS outcome_bucket`,
   ]);
@@ -266,6 +413,17 @@ export function buildFilteredTagCte(filters: FOSDashboardFilters): CteBuildResul
   ]);
 }
 
+export function buildFilteredRedressCte(filters: FOSDashboardFilters): CteBuildResult {
+  return buildFilteredSelectCte(filters, [
+    'd.redress_awards',
+    'd.redress_award_types',
+    'd.redress_total_amount',
+    'd.redress_interest_rate',
+    'd.redress_interest_basis',
+    'd.redress_extracted_at',
+  ]);
+}
+
 export function buildFilteredCte(filters: FOSDashboardFilters): CteBuildResult {
   return buildFilteredSelectCte(
     filters,
@@ -287,7 +445,7 @@ export function buildFilteredCte(filters: FOSDashboardFilters): CteBuildResult {
       'd.ombudsman_reasoning_text',
       `${outcomeExpression('d')} AS outcome_bucket`,
     ],
-    { materialized: true }
+    { materialized: true, includeSearchRank: true }
   );
 }
 
@@ -308,25 +466,68 @@ export async function ensureFosDecisionsTableExists(): Promise<void> {
     return;
   }
 
-  const result = await DatabaseClient.queryOne<{ exists: boolean }>(
+  const result = await DatabaseClient.queryOne<{
+    exists: boolean;
+    has_search_vector: boolean;
+    has_firm_registry: boolean;
+    has_product_taxonomy: boolean;
+  }>(
     `
-      SELECT EXISTS (
-        SELECT 1
-        FROM information_schema.tables
-        WHERE table_schema = 'public'
-          AND table_name = 'fos_decisions'
-      ) AS exists
+      SELECT
+        EXISTS (
+          SELECT 1
+          FROM information_schema.tables
+          WHERE table_schema = 'public'
+            AND table_name = 'fos_decisions'
+        ) AS exists,
+        EXISTS (
+          SELECT 1
+          FROM information_schema.columns
+          WHERE table_schema = 'public'
+            AND table_name = 'fos_decisions'
+            AND column_name = 'search_vector'
+        ) AS has_search_vector,
+        EXISTS (
+          SELECT 1
+          FROM information_schema.views
+          WHERE table_schema = 'public'
+            AND table_name = 'fos_firm_lookup'
+        ) AS has_firm_registry,
+        EXISTS (
+          SELECT 1
+          FROM information_schema.views
+          WHERE table_schema = 'public'
+            AND table_name = 'fos_product_lookup'
+        ) AS has_product_taxonomy
     `
   );
 
   const exists = Boolean(result?.exists);
-  tableCheckCache = { exists, checkedAt: now };
+  tableCheckCache = {
+    exists,
+    hasSearchVector: Boolean(result?.has_search_vector),
+    hasFirmRegistry: Boolean(result?.has_firm_registry),
+    hasProductTaxonomy: Boolean(result?.has_product_taxonomy),
+    checkedAt: now,
+  };
 
   if (!exists) {
     throw new Error('FOS dataset table `fos_decisions` is unavailable.');
   }
 }
 
+/** Drops cached firm labels after registry edits so the next request re-checks the registry and rebuilds filter options. */
+export function resetFirmRegistryCaches(): void {
+  tableCheckCache = null;
+  filterOptionsCache = {};
+}
+
+/** Same as `resetFirmRegistryCaches`, for taxonomy and mapping-rule edits. */
+export function resetProductTaxonomyCaches(): void {
+  tableCheckCache = null;
+  filterOptionsCache = {};
+}
+
 // ─── Cross-domain queries ────────────────────────────────────────────────────
 
 export async function querySummarySnapshot<T>(snapshotKey: string): Promise<T | null> {
@@ -410,12 +611,16 @@ export async function hasTagValues(column: 'precedents' | 'root_cause_tags'): Pr
   return column === 'precedents' ? tagPresenceCache.precedents : tagPresenceCache.rootCauseTags;
 }
 
-export async function queryFilterOptions(): Promise<FOSFilterOptions> {
+/** Filter option lists; firm and product options use the same registry/taxonomy labels their filters match on. */
+export async function queryFilterOptions(firmLevel: FOSFirmLevel = 'entity'): Promise<FOSFilterOptions> {
   const now = Date.now();
-  if (filterOptionsCache && now - filterOptionsCache.checkedAt < FILTER_OPTIONS_CACHE_TTL_MS) {
-    return filterOptionsCache.value;
+  const cached = filterOptionsCache[firmLevel];
+  if (cached && now - cached.checkedAt < FILTER_OPTIONS_CACHE_TTL_MS) {
+    return cached.value;
   }
 
+  const firm = firmExpression('d', firmLevel, hasFirmRegistry());
+  const product = productExpression('d', 'product', hasProductTaxonomy());
   const [yearRows, productRows, firmRows] = await Promise.all([
     DatabaseClient.query<Record<string, unknown>>(
       `
@@ -428,9 +633,9 @@ export async function queryFilterOptions(): Promise<FOSFilterOptions> {
     DatabaseClient.query<Record<string, unknown>>(
       `
         SELECT
-          COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified') AS product
-        FROM fos_decisions
-        GROUP BY COALESCE(NULLIF(BTRIM(product_sector), ''), 'Unspecified')
+          ${product} AS product
+        FROM fos_decisions d
+        GROUP BY ${product}
         ORDER BY COUNT(*) DESC, product ASC
         LIMIT 40
       `
@@ -438,9 +643,9 @@ export async function queryFilterOptions(): Promise<FOSFilterOptions> {
     DatabaseClient.query<Record<string, unknown>>(
       `
         SELECT
-          COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm') AS firm
-        FROM fos_decisions
-        GROUP BY COALESCE(NULLIF(BTRIM(business_name), ''), 'Unknown firm')
+          ${firm} AS firm
+        FROM fos_decisions d
+        GROUP BY ${firm}
         ORDER BY COUNT(*) DESC, firm ASC
         LIMIT 120
       `
@@ -455,7 +660,7 @@ export async function queryFilterOptions(): Promise<FOSFilterOptions> {
     tags: [],
   };
 
-  filterOptionsCache = { checkedAt: now, value };
+  filterOptionsCache[firmLevel] = { checkedAt: now, value };
   return value;
 }
 
@@ -631,6 +836,31 @@ export function percentage(numerator: number, denominator: number): number {
   return (numerator / denominator) * 100;
 }
 
+/** Withholds a scope-wide rate when an ombudsman filter narrows the scope below the small-sample floor. */
+export function ombudsmanScopedRate(filters: FOSDashboardFilters, total: number, rate: number): number | null {
+  return filters.ombudsmen.length > 0 && total < OMBUDSMAN_MIN_DECISIONS ? null : rate;
+}
+
+/** Maps an `ombudsman, total, upheld, not_upheld` row, withholding outcomes below the small-sample floor. */
+export function toOmbudsmanStat(row: Record<string, unknown>): FOSOmbudsmanStat {
+  const total = toInt(row.total);
+  const ombudsman = normalizeLabel(row.ombudsman, 'Unknown ombudsman');
+  if (total < OMBUDSMAN_MIN_DECISIONS) {
+    return { ombudsman, total, upheld: null, notUpheld: null, upheldRate: null, notUpheldRate: null, suppressed: true };
+  }
+  const upheld = toInt(row.upheld);
+  const notUpheld = toInt(row.not_upheld);
+  return {
+    ombudsman,
+    total,
+    upheld,
+    notUpheld,
+    upheldRate: Number(percentage(upheld, total).toFixed(2)),
+    notUpheldRate: Number(percentage(notUpheld, total).toFixed(2)),
+    suppressed: false,
+  };
+}
+
 // ─── Parsing ─────────────────────────────────────────────────────────────────
 
 export function parseIntegerList(searchParams: URLSearchParams, key: string): number[] {
@@ -733,6 +963,13 @@ export function isMissingRelationError(error: unknown, relationName: string): bo
   return message.includes(`relation "${relationName.toLowerCase()}" does not exist`);
 }
 
+export function isMissingColumnError(error: unknown, columnName: string): boolean {
+  const code = String((error as { code?: string })?.code || '').toUpperCase();
+  if (code === '42703') return true;
+  const message = String((error as { message?: string })?.message || '').toLowerCase();
+  return message.includes(`column "${columnName.toLowerCase()}"`) && message.includes('does not exist');
+}
+
 // ─── Text ────────────────────────────────────────────────────────────────────
 
 export function cleanDecisionText(value: string | null): string | null {
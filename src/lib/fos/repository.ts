@@ -13,11 +13,17 @@ import {
   clamp,
   ensureDatabaseConfigured,
   ensureFosDecisionsTableExists,
+  firmExpression,
+  firmFilterCondition,
   hasActiveScopeFilters,
+  hasFirmRegistry,
+  hasProductTaxonomy,
   hasTagValues,
   normalizeLabel,
   normalizeTagLabel,
+  ombudsmanExpression,
   outcomeExpression,
+  productExpression,
   queryIngestionStatus,
   querySummarySnapshot,
   SUMMARY_SNAPSHOT_KEYS,
@@ -25,6 +31,7 @@ import {
   toIsoDate,
   toNumber,
   toObjectArray,
+  toOmbudsmanStat,
   DEFAULT_PAGE,
   DEFAULT_PAGE_SIZE,
 } from './repo-helpers';
@@ -34,7 +41,8 @@ import {
 export { parseFilters, hasActiveScopeFilters } from './repo-helpers';
 export { getDashboardSnapshot } from './dashboard-repository';
 export { getAnalysisSnapshot } from './analysis-repository';
-export { getCaseDetail, getCaseList, getSimilarCases, getCaseContext } from './cases-repository';
+export { getForecast } from './forecast-repository';
+export { getCaseDetail, getCaseList, getSimilarCases, getComparableDecisions, getCaseContext } from './cases-repository';
 export {
   getAdvisorOptions,
   getAdvisorBrief,
@@ -62,9 +70,10 @@ export async function searchFirmDirectory(
   const where = buildWhereClause(searchFilters, 'd', 1);
   const normalizedSearch = searchQuery.trim().toLowerCase();
   const safeLimit = clamp(limit, 1, 100);
-  const firmExpression = `COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm')`;
+  const firm = firmExpression('d', filters.firmLevel ?? 'entity', hasFirmRegistry());
   const params = [...where.params];
   let searchFilterSql = '';
+  let havingSql = '';
   let orderSql = 'COUNT(*) DESC, firm ASC';
 
   if (normalizedSearch) {
@@ -72,11 +81,16 @@ export async function searchFirmDirectory(
     const prefixIndex = params.length;
     params.push(`%${normalizedSearch}%`);
     const containsIndex = params.length;
-    searchFilterSql = `AND LOWER(${firmExpression}) LIKE $${containsIndex}`;
+    if (hasFirmRegistry()) {
+      // Registered firms are also found by any of their raw spellings, counted across all of them.
+      havingSql = `HAVING LOWER(${firm}) LIKE $${containsIndex} OR BOOL_OR(LOWER(COALESCE(d.business_name, '')) LIKE $${containsIndex})`;
+    } else {
+      searchFilterSql = `AND LOWER(${firm}) LIKE $${containsIndex}`;
+    }
     orderSql = `
       CASE
-        WHEN LOWER(${firmExpression}) LIKE $${prefixIndex} THEN 0
-        WHEN LOWER(${firmExpression}) LIKE $${containsIndex} THEN 1
+        WHEN LOWER(${firm}) LIKE $${prefixIndex} THEN 0
+        WHEN LOWER(${firm}) LIKE $${containsIndex} THEN 1
         ELSE 2
       END ASC,
       COUNT(*) DESC,
@@ -90,13 +104,14 @@ export async function searchFirmDirectory(
   const rows = await DatabaseClient.query<Record<string, unknown>>(
     `
       SELECT
-        ${firmExpression} AS firm,
+        ${firm} AS firm,
         COUNT(*)::INT AS total_cases,
         MAX(d.decision_date) AS latest_decision_date
       FROM fos_decisions d
       ${where.whereSql || 'WHERE TRUE'}
       ${searchFilterSql}
-      GROUP BY ${firmExpression}
+      GROUP BY ${firm}
+      ${havingSql}
       ORDER BY ${orderSql}
       LIMIT $${limitIndex}
     `,
@@ -266,76 +281,99 @@ async function queryFirmComparisonData(
 ): Promise<FOSFirmComparisonData> {
   const where = buildWhereClause(filters, 'd', 1);
   const firmIndex = where.nextIndex;
-  const firmCondition = `COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') = $${firmIndex}`;
+  const matchesFirm = (alias: string) =>
+    firmFilterCondition(alias, filters.firmLevel ?? 'entity', `ARRAY[$${firmIndex}]::TEXT[]`, {
+      registryAvailable: hasFirmRegistry(),
+      includesUnknown: firmName === 'Unknown firm',
+    });
+  const firmCondition = matchesFirm('d');
+  const productLabel = productExpression('d2', 'product', hasProductTaxonomy());
   const fullWhere = where.whereSql
     ? `${where.whereSql} AND ${firmCondition}`
     : `WHERE ${firmCondition}`;
 
-  const rows = await DatabaseClient.query<Record<string, unknown>>(
-    `
-      SELECT
-        COUNT(*)::INT AS total_cases,
-        ROUND(
+  const [rows, ombudsmanRows] = await Promise.all([
+    DatabaseClient.query<Record<string, unknown>>(
+      `
+        SELECT
+          COUNT(*)::INT AS total_cases,
+          ROUND(
+            COALESCE(
+              COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld')::NUMERIC
+              / NULLIF(COUNT(*), 0) * 100, 0
+            ), 2
+          ) AS upheld_rate,
+          ROUND(
+            COALESCE(
+              COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'not_upheld')::NUMERIC
+              / NULLIF(COUNT(*), 0) * 100, 0
+            ), 2
+          ) AS not_upheld_rate,
           COALESCE(
-            COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld')::NUMERIC
-            / NULLIF(COUNT(*), 0) * 100, 0
-          ), 2
-        ) AS upheld_rate,
-        ROUND(
+            (
+              SELECT jsonb_agg(row_to_json(tp) ORDER BY tp.total DESC)
+              FROM (
+                SELECT
+                  ${productLabel} AS product,
+                  COUNT(*)::INT AS total,
+                  ROUND(
+                    COALESCE(
+                      COUNT(*) FILTER (WHERE ${outcomeExpression('d2')} = 'upheld')::NUMERIC
+                      / NULLIF(COUNT(*), 0) * 100, 0
+                    ), 2
+                  ) AS upheld_rate
+                FROM fos_decisions d2
+                WHERE ${matchesFirm('d2')}
+                GROUP BY ${productLabel}
+                ORDER BY total DESC
+                LIMIT 10
+              ) tp
+            ),
+            '[]'::jsonb
+          ) AS top_products,
           COALESCE(
-            COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'not_upheld')::NUMERIC
-            / NULLIF(COUNT(*), 0) * 100, 0
-          ), 2
-        ) AS not_upheld_rate,
-        COALESCE(
-          (
-            SELECT jsonb_agg(row_to_json(tp) ORDER BY tp.total DESC)
-            FROM (
-              SELECT
-                COALESCE(NULLIF(BTRIM(d2.product_sector), ''), 'Unspecified') AS product,
-                COUNT(*)::INT AS total,
-                ROUND(
-                  COALESCE(
-                    COUNT(*) FILTER (WHERE ${outcomeExpression('d2')} = 'upheld')::NUMERIC
-                    / NULLIF(COUNT(*), 0) * 100, 0
-                  ), 2
-                ) AS upheld_rate
-              FROM fos_decisions d2
-              WHERE COALESCE(NULLIF(BTRIM(d2.business_name), ''), 'Unknown firm') = $${firmIndex}
-              GROUP BY COALESCE(NULLIF(BTRIM(d2.product_sector), ''), 'Unspecified')
-              ORDER BY total DESC
-              LIMIT 10
-            ) tp
-          ),
-          '[]'::jsonb
-        ) AS top_products,
-        COALESCE(
-          (
-            SELECT jsonb_agg(row_to_json(yb) ORDER BY yb.year ASC)
-            FROM (
-              SELECT
-                EXTRACT(YEAR FROM d3.decision_date)::INT AS year,
-                COUNT(*)::INT AS total,
-                ROUND(
-                  COALESCE(
-                    COUNT(*) FILTER (WHERE ${outcomeExpression('d3')} = 'upheld')::NUMERIC
-                    / NULLIF(COUNT(*), 0) * 100, 0
-                  ), 2
-                ) AS upheld_rate
-              FROM fos_decisions d3
-              WHERE COALESCE(NULLIF(BTRIM(d3.business_name), ''), 'Unknown firm') = $${firmIndex}
-                AND d3.decision_date IS NOT NULL
-              GROUP BY EXTRACT(YEAR FROM d3.decision_date)::INT
-              ORDER BY year ASC
-            ) yb
-          ),
-          '[]'::jsonb
-        ) AS year_breakdown
-      FROM fos_decisions d
-      ${fullWhere}
-    `,
-    [...where.params, firmName]
-  );
+            (
+              SELECT jsonb_agg(row_to_json(yb) ORDER BY yb.year ASC)
+              FROM (
+                SELECT
+                  EXTRACT(YEAR FROM d3.decision_date)::INT AS year,
+                  COUNT(*)::INT AS total,
+                  ROUND(
+                    COALESCE(
+                      COUNT(*) FILTER (WHERE ${outcomeExpression('d3')} = 'upheld')::NUMERIC
+                      / NULLIF(COUNT(*), 0) * 100, 0
+                    ), 2
+                  ) AS upheld_rate
+                FROM fos_decisions d3
+                WHERE ${matchesFirm('d3')}
+                  AND d3.decision_date IS NOT NULL
+                GROUP BY EXTRACT(YEAR FROM d3.decision_date)::INT
+                ORDER BY year ASC
+              ) yb
+            ),
+            '[]'::jsonb
+          ) AS year_breakdown
+        FROM fos_decisions d
+        ${fullWhere}
+      `,
+      [...where.params, firmName]
+    ),
+    DatabaseClient.query<Record<string, unknown>>(
+      `
+        SELECT
+          ${ombudsmanExpression('d')} AS ombudsman,
+          COUNT(*)::INT AS total,
+          COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld')::INT AS upheld,
+          COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'not_upheld')::INT AS not_upheld
+        FROM fos_decisions d
+        ${fullWhere}
+        GROUP BY ${ombudsmanExpression('d')}
+        ORDER BY total DESC, ombudsman ASC
+        LIMIT 10
+      `,
+      [...where.params, firmName]
+    ),
+  ]);
 
   const row = rows[0] || {};
   return {
@@ -353,5 +391,6 @@ async function queryFirmComparisonData(
       total: toInt(y.total),
       upheldRate: toNumber(y.upheld_rate),
     })),
+    ombudsmanBreakdown: ombudsmanRows.map(toOmbudsmanStat),
   };
 }
@@ -0,0 +1,271 @@
+import { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START } from './constants';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type FOSSearchField =
+  | 'reference'
+  | 'firm'
+  | 'product'
+  | 'ombudsman'
+  | 'summary'
+  | 'logic'
+  | 'complaint'
+  | 'response'
+  | 'reasoning'
+  | 'final'
+  | 'text';
+
+export interface FOSSearchTerm {
+  text: string;
+  phrase: boolean;
+  field: FOSSearchField | null;
+}
+
+export interface FOSParsedSearchQuery {
+  /** Each group is OR-ed internally; groups are AND-ed together. */
+  groups: FOSSearchTerm[][];
+  exclusions: FOSSearchTerm[];
+}
+
+export type SearchSqlBuildResult = {
+  conditions: string[];
+  params: unknown[];
+  nextIndex: number;
+  /** tsquery expression combining every positive full-text term, used for ranking and snippets. */
+  rankQuerySql: string | null;
+};
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const MAX_SEARCH_TERMS = 12;
+const MAX_TERM_LENGTH = 200;
+const TS_CONFIG = `'english'::regconfig`;
+
+const FIELD_ALIASES: Record<string, FOSSearchField> = {
+  ref: 'reference',
+  reference: 'reference',
+  drn: 'reference',
+  firm: 'firm',
+  business: 'firm',
+  product: 'product',
+  sector: 'product',
+  ombudsman: 'ombudsman',
+  summary: 'summary',
+  logic: 'logic',
+  complaint: 'complaint',
+  response: 'response',
+  reasoning: 'reasoning',
+  final: 'final',
+  decision: 'final',
+  text: 'text',
+  fulltext: 'text',
+};
+
+/** Short identifier-style columns are matched with ILIKE so partial names still hit the trigram indexes. */
+const LIKE_FIELD_COLUMNS: Partial<Record<FOSSearchField, string>> = {
+  reference: 'decision_reference',
+  firm: 'business_name',
+  product: 'product_sector',
+  ombudsman: 'ombudsman_name',
+};
+
+/**
+ * Long-text columns with the same length caps as the combined document. Each
+ * capped vector is backed by a GIN expression index (see the field search
+ * index migration), so the expression must match it exactly.
+ */
+const TEXT_FIELD_COLUMNS: Partial<Record<FOSSearchField, { column: string; maxLength: number }>> = {
+  summary: { column: 'decision_summary', maxLength: 200000 },
+  logic: { column: 'decision_logic', maxLength: 200000 },
+  complaint: { column: 'complaint_text', maxLength: 200000 },
+  response: { column: 'firm_response_text', maxLength: 200000 },
+  reasoning: { column: 'ombudsman_reasoning_text', maxLength: 200000 },
+  final: { column: 'final_decision_text', maxLength: 200000 },
+  text: { column: 'full_text', maxLength: 400000 },
+};
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Parses the dashboard search box syntax: bare words, `"quoted phrases"`, `OR`
+ * between terms, `-term` exclusions and `field:term` prefixes (for example
+ * `firm:lloyds reasoning:"irresponsible lending" -motor`).
+ */
+export function parseSearchQuery(input: string): FOSParsedSearchQuery {
+  const groups: FOSSearchTerm[][] = [];
+  const exclusions: FOSSearchTerm[] = [];
+  const tokenPattern = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+  let pendingOr = false;
+  let termCount = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(input)) !== null && termCount < MAX_SEARCH_TERMS) {
+    const [raw, negation, rawField, quoted, bare] = match;
+
+    if (!negation && !rawField && quoted == null && (bare === 'OR' || bare === '|')) {
+      pendingOr = groups.length > 0;
+      continue;
+    }
+
+    const field = rawField ? FIELD_ALIASES[rawField.toLowerCase()] ?? null : null;
+    // Unknown prefixes such as `http:` are kept as literal text rather than silently dropped.
+    const literal = rawField && !field ? raw.replace(/^-/, '') : null;
+    const text = normalizeTermText(literal ?? (quoted != null ? quoted : bare || ''));
+    if (!/[A-Za-z0-9\u00c0-\u024f]/.test(text)) {
+      pendingOr = false;
+      continue;
+    }
+
+    const term: FOSSearchTerm = {
+      text,
+      phrase: literal == null && quoted != null && /\s/.test(text),
+      field,
+    };
+    termCount += 1;
+
+    if (negation) {
+      exclusions.push(term);
+      pendingOr = false;
+      continue;
+    }
+
+    if (pendingOr) {
+      groups[groups.length - 1].push(term);
+    } else {
+      groups.push([term]);
+    }
+    pendingOr = false;
+  }
+
+  return { groups, exclusions };
+}
+
+export function isEmptySearchQuery(parsed: FOSParsedSearchQuery): boolean {
+  return parsed.groups.length === 0 && parsed.exclusions.length === 0;
+}
+
+// ─── SQL compilation ─────────────────────────────────────────────────────────
+
+/**
+ * Compiles a parsed query into WHERE conditions against `fos_decisions`.
+ * `vectorSql` is the weighted document vector for the row (the stored
+ * `search_vector` column when present, otherwise the equivalent expression).
+ */
+export function buildSearchConditions(
+  parsed: FOSParsedSearchQuery,
+  alias: string,
+  vectorSql: string,
+  startIndex: number
+): SearchSqlBuildResult {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const rankQueries: string[] = [];
+  let index = startIndex;
+
+  const compileTerm = (term: FOSSearchTerm): { sql: string; tsQuerySql: string | null } => {
+    const likeColumn = term.field ? LIKE_FIELD_COLUMNS[term.field] : undefined;
+    if (likeColumn) {
+      params.push(`%${escapeLikePattern(term.text)}%`);
+      const sql = `${alias}.${likeColumn} ILIKE $${index}`;
+      index += 1;
+      return { sql, tsQuerySql: null };
+    }
+
+    params.push(term.text);
+    const tsQuerySql = `${term.phrase ? 'phraseto_tsquery' : 'plainto_tsquery'}(${TS_CONFIG}, $${index})`;
+    index += 1;
+
+    const textColumn = term.field ? TEXT_FIELD_COLUMNS[term.field] : undefined;
+    if (textColumn) {
+      return {
+        sql: `to_tsvector(${TS_CONFIG}, LEFT(COALESCE(${alias}.${textColumn.column}, ''), ${textColumn.maxLength})) @@ ${tsQuerySql}`,
+        tsQuerySql,
+      };
+    }
+
+    // Stop-word-only terms compile to an empty tsquery; fall back to a substring match so they are not lost.
+    // Kept as plain ORs (not CASE) so the planner can still use the search_vector GIN index.
+    params.push(`%${escapeLikePattern(term.text)}%`);
+    const likeIndex = index;
+    index += 1;
+    return {
+      sql: `
+        (
+          ${vectorSql} @@ ${tsQuerySql}
+          OR (numnode(${tsQuerySql}) = 0 AND ${alias}.decision_summary ILIKE $${likeIndex})
+          OR ${alias}.decision_reference ILIKE $${likeIndex}
+          OR ${alias}.business_name ILIKE $${likeIndex}
+        )
+      `,
+      tsQuerySql: `(CASE WHEN numnode(${tsQuerySql}) = 0 THEN NULL ELSE ${tsQuerySql} END)`,
+    };
+  };
+
+  for (const group of parsed.groups) {
+    const compiled = group.map(compileTerm);
+    conditions.push(compiled.length === 1 ? compiled[0].sql : `(${compiled.map((item) => item.sql).join(' OR ')})`);
+    for (const item of compiled) {
+      if (item.tsQuerySql) rankQueries.push(item.tsQuerySql);
+    }
+  }
+
+  for (const term of parsed.exclusions) {
+    const compiled = compileTerm(term);
+    conditions.push(`NOT COALESCE(${compiled.sql}, FALSE)`);
+  }
+
+  return {
+    conditions,
+    params,
+    nextIndex: index,
+    rankQuerySql: rankQueries.length > 0 ? rankQueries.map((query) => `COALESCE(${query}, ''::tsquery)`).join(' || ') : null,
+  };
+}
+
+/**
+ * Weighted document vector: identifiers rank highest, then summaries, then
+ * reasoning, then the raw decision text. Must stay in sync with the
+ * `search_vector` generated column in the full-text search migration.
+ */
+export function searchDocumentExpression(alias: string): string {
+  return `(
+    setweight(to_tsvector(${TS_CONFIG}, COALESCE(${alias}.decision_reference, '') || ' ' || COALESCE(${alias}.business_name, '')), 'A')
+    || setweight(to_tsvector(${TS_CONFIG}, COALESCE(${alias}.product_sector, '') || ' ' || COALESCE(${alias}.decision_summary, '')), 'B')
+    || setweight(to_tsvector(${TS_CONFIG}, COALESCE(${alias}.decision_logic, '') || ' ' || LEFT(COALESCE(${alias}.ombudsman_reasoning_text, ''), 200000)), 'C')
+    || setweight(to_tsvector(${TS_CONFIG}, LEFT(COALESCE(${alias}.full_text, ''), 400000)), 'D')
+  )`;
+}
+
+export function searchRankExpression(vectorSql: string, rankQuerySql: string): string {
+  return `ts_rank_cd(${vectorSql}, ${rankQuerySql}, 32)`;
+}
+
+export function searchHeadlineExpression(alias: string, rankQuerySql: string): string {
+  return `
+    ts_headline(
+      ${TS_CONFIG},
+      CONCAT_WS(
+        ' … ',
+        NULLIF(BTRIM(${alias}.decision_summary), ''),
+        NULLIF(BTRIM(${alias}.decision_logic), ''),
+        LEFT(COALESCE(${alias}.ombudsman_reasoning_text, ''), 20000)
+      ),
+      ${rankQuerySql},
+      'StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxFragments=2, MaxWords=28, MinWords=12, FragmentDelimiter=" … "'
+    )
+  `;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function normalizeTermText(value: string): string {
+  return value
+    .replace(/[\u0000-\u001f]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_TERM_LENGTH);
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[%_\\]/g, '\\$&');
+}
@@ -1,3 +1,5 @@
+import type { UpholdRiskInterval, UpholdRiskThresholds } from '@/lib/risk-policy/types';
+
 export type FOSOutcome =
   | 'upheld'
   | 'not_upheld'
@@ -6,12 +8,18 @@ export type FOSOutcome =
   | 'not_settled'
   | 'unknown';
 
+/** `entity` aggregates by registered firm; `group` rolls brands and subsidiaries up to their parent. */
+export type FOSFirmLevel = 'entity' | 'group';
+
 export interface FOSDashboardFilters {
   query: string;
   years: number[];
   outcomes: FOSOutcome[];
   products: string[];
   firms: string[];
+  /** Level `firms` values and firm breakdowns are expressed at; defaults to `entity`. */
+  firmLevel?: FOSFirmLevel;
+  ombudsmen: string[];
   tags: string[];
   page: number;
   pageSize: number;
@@ -22,8 +30,9 @@ export interface FOSOverview {
   upheldCases: number;
   notUpheldCases: number;
   partiallyUpheldCases: number;
-  upheldRate: number;
-  notUpheldRate: number;
+  /** Null when an ombudsman filter leaves fewer than `OMBUDSMAN_MIN_DECISIONS` decisions in scope. */
+  upheldRate: number | null;
+  notUpheldRate: number | null;
   topRootCause: string | null;
   topPrecedent: string | null;
   earliestDecisionDate: string | null;
@@ -78,6 +87,10 @@ export interface FOSCaseListItem {
   vulnerabilityFlags: string[];
   pdfUrl: string | null;
   sourceUrl: string | null;
+  /** Full-text relevance for the active `query`; null when the list is not a search result. */
+  searchRank: number | null;
+  /** Matched excerpt with terms wrapped in `SEARCH_HIGHLIGHT_START` / `SEARCH_HIGHLIGHT_END`. */
+  searchSnippet: string | null;
 }
 
 export type FOSSectionSource = 'stored' | 'inferred' | 'missing';
@@ -181,6 +194,21 @@ export interface FOSFirmBenchmarkPoint {
   predominantProduct: string | null;
 }
 
+/**
+ * Decisions signed by one ombudsman. Below the small-sample floor
+ * (`OMBUDSMAN_MIN_DECISIONS`) only the volume is reported: outcome counts and
+ * rates are nulled so an individual's uphold rate cannot be read or derived.
+ */
+export interface FOSOmbudsmanStat {
+  ombudsman: string;
+  total: number;
+  upheld: number | null;
+  notUpheld: number | null;
+  upheldRate: number | null;
+  notUpheldRate: number | null;
+  suppressed: boolean;
+}
+
 export interface FOSPrecedentRootCauseCell {
   precedent: string;
   rootCause: string;
@@ -222,6 +250,51 @@ export interface FOSDecisionDayMonthCell {
   count: number;
 }
 
+// Redress extracted from decision text (see scripts/lib/redress-extraction.mjs)
+export type FOSRedressAwardType =
+  | 'distress_inconvenience'
+  | 'refund'
+  | 'financial_loss'
+  | 'claim_settlement'
+  | 'interest'
+  | 'credit_file'
+  | 'apology'
+  | 'other';
+
+export interface FOSRedressAmountSummary {
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+  mean: number;
+}
+
+export interface FOSRedressTypeShare {
+  type: FOSRedressAwardType;
+  decisions: number;
+  /** Percentage of decisions with any extracted redress. */
+  share: number;
+  /** Median per-decision amount for this award type; null for non-monetary directions. */
+  medianAmount: number | null;
+}
+
+export interface FOSRedressDistribution {
+  /** Decisions in scope that the extractor has processed. */
+  decisionsAnalysed: number;
+  decisionsWithRedress: number;
+  decisionsWithMonetaryAward: number;
+  /** Total monetary award per decision, excluding interest. Null when no amounts were found. */
+  amounts: FOSRedressAmountSummary | null;
+  byType: FOSRedressTypeShare[];
+  interest: {
+    decisions: number;
+    /** Percentage of decisions with any extracted redress. */
+    share: number;
+    commonRate: number | null;
+    simpleShare: number;
+  };
+}
+
 export interface FOSAnalysisSnapshot {
   yearProductOutcome: FOSYearProductOutcomeCell[];
   firmBenchmark: FOSFirmBenchmarkPoint[];
@@ -230,6 +303,9 @@ export interface FOSAnalysisSnapshot {
   yearNarratives: FOSYearNarrative[];
   monthlyProductBreakdown: FOSMonthlyProductBreakdown[];
   decisionDayMonthGrid: FOSDecisionDayMonthCell[];
+  /** Null until the redress columns exist and the enrichment pass has run. */
+  redress: FOSRedressDistribution | null;
+  ombudsmen: FOSOmbudsmanStat[];
 }
 
 // Root Cause Analysis types
@@ -258,14 +334,63 @@ export interface FOSFirmComparisonData {
   notUpheldRate: number;
   topProducts: { product: string; total: number; upheldRate: number }[];
   yearBreakdown: { year: number; total: number; upheldRate: number }[];
+  /** Busiest ombudsmen on this firm's decisions in scope, with small-sample suppression. */
+  ombudsmanBreakdown: FOSOmbudsmanStat[];
 }
 
 export interface FOSComparisonSnapshot {
   firms: FOSFirmComparisonData[];
 }
 
+// Forecast types
+
+/** A projected value and its prediction interval. */
+export interface FOSForecastRange {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface FOSForecastPeriod {
+  /** `2026-Q4` for a quarter; a date range for longer periods. */
+  label: string;
+  start: string;
+  end: string;
+  total: FOSForecastRange;
+  upheldRate: FOSForecastRange;
+}
+
+export interface FOSForecastYear extends FOSForecastPeriod {
+  year: number;
+  /** Decisions already in complete quarters of the year; `total` adds the projected remainder. */
+  actualToDate: number;
+}
+
+export interface FOSForecast {
+  method: 'damped_holt';
+  /** Two-sided coverage of every lower/upper pair, e.g. 0.8. */
+  intervalLevel: number;
+  historyQuarters: number;
+  lastCompleteQuarter: string;
+  /** The quarter after the one in progress. */
+  nextQuarter: FOSForecastPeriod;
+  /** The four quarters after the one in progress. */
+  nextYear: FOSForecastPeriod;
+  /** From the quarter in progress to the end of next year. */
+  quarters: FOSForecastPeriod[];
+  /** Calendar-year projections for the current year and the next. */
+  years: FOSForecastYear[];
+}
+
 // Complaint Advisor types
 
+export interface FOSAdvisorOptions {
+  products: string[];
+  rootCauses: string[];
+  /** Products with the most decisions behind their brief, busiest first; used for example prompts. */
+  featuredProducts: string[];
+}
+
 export interface FOSAdvisorQuery {
   product: string;
   rootCause: string | null;
@@ -278,9 +403,20 @@ export interface FOSAdvisorRiskAssessment {
   upheldRate: number;
   notUpheldRate: number;
   overallUpheldRate: number;
-  upholdRiskLevel: 'low' | 'medium' | 'high' | 'very_high';
+  upholdRiskLevel: 'insufficient_data' | 'low' | 'medium' | 'high' | 'very_high';
+  /** `upheldRate` shrunk toward `baselineUpheldRate`; the band is read from this. */
+  adjustedUpheldRate: number;
+  baselineUpheldRate: number | null;
+  confidenceInterval: UpholdRiskInterval;
   trendDirection: 'improving' | 'stable' | 'worsening';
   yearTrend: { year: number; upheldRate: number; total: number }[];
+  /** Risk policy version and bands `upholdRiskLevel` was derived with. */
+  riskPolicy: FOSRiskPolicyReference;
+}
+
+export interface FOSRiskPolicyReference {
+  version: number;
+  thresholds: UpholdRiskThresholds;
 }
 
 export interface FOSAdvisorPrecedent {
@@ -324,6 +460,23 @@ export interface FOSAdvisorChecklist {
   priority: 'critical' | 'important' | 'recommended';
 }
 
+/** A decision the model cited, resolved against the context it was given. */
+export interface FOSAiCitation {
+  decisionReference: string;
+  caseId: string;
+}
+
+export type FOSAiSectionKey = 'executiveSummary' | 'whatWins' | 'whatLoses' | 'guidance';
+
+export interface FOSAiGroundingReport {
+  status: 'grounded' | 'partially_grounded' | 'ungrounded';
+  citations: FOSAiCitation[];
+  /** Cited references that were not in the supplied context; removed from the section text. */
+  unknownReferences: string[];
+  /** Sentences stating a finding or statistic without a citation. */
+  uncitedClaims: string[];
+}
+
 export interface FOSAdvisorBrief {
   query: FOSAdvisorQuery;
   generatedAt: string;
@@ -336,7 +489,13 @@ export interface FOSAdvisorBrief {
   aiWhatLoses: string | null;
   aiGuidance: string | null;
   aiExecutiveSummary: string | null;
+  /** Citation check for each AI section that has text. */
+  aiGrounding: Partial<Record<FOSAiSectionKey, FOSAiGroundingReport>>;
   outcomeDistribution: FOSOutcomeDistribution[] | null;
+  /** Typical redress across the brief's decisions, computed at read time. */
+  typicalRedress: FOSRedressDistribution | null;
+  /** Volume and uphold-rate projection for the brief's decisions, computed at read time. */
+  forecast: FOSForecast | null;
   vulnerabilities: FOSAdvisorVulnerability[];
   sampleCases: FOSAdvisorSampleCase[];
   recommendedActions: FOSAdvisorChecklist[];
@@ -362,6 +521,13 @@ export interface FOSSubsetAnalysis {
   precedents: FOSSubsetPrecedent[];
   totalCases: number;
   upheldRate: number;
+  /** Which provider wrote the narrative; `degraded` means a statistics-only summary was returned instead. */
+  generation?: {
+    provider: string | null;
+    model: string | null;
+    cached: boolean;
+    degraded: boolean;
+  };
 }
 
 // Similar decisions types
@@ -374,7 +540,37 @@ export interface FOSSimilarCase {
   productGroup: string | null;
   outcome: FOSOutcome;
   decisionSummary: string | null;
+  /** Attribute points in `attribute` mode; blended 0-100 score in `semantic` mode. */
   similarityScore: number;
+  /** Cosine similarity of decision embeddings (0-1), or null when not scored semantically. */
+  semanticScore: number | null;
+  signals: FOSSimilaritySignal[];
+}
+
+export type FOSSimilarityMode = 'attribute' | 'semantic';
+
+export type FOSSimilaritySignalKind = 'semantic' | 'keyword' | 'product' | 'firm' | 'outcome' | 'root_cause' | 'precedent';
+
+export interface FOSSimilaritySignal {
+  kind: FOSSimilaritySignalKind;
+  label: string;
+  /** Points this signal added to `similarityScore`. */
+  contribution: number;
+  matches?: string[];
+}
+
+export interface FOSSimilarCasesResult {
+  /** The mode actually used; semantic requests fall back to `attribute` when no embeddings exist. */
+  mode: FOSSimilarityMode;
+  embeddingModel: string | null;
+  cases: FOSSimilarCase[];
+}
+
+/** Free-text input for "find decisions like this complaint" search. */
+export interface FOSComparableDecisionQuery {
+  text: string;
+  product: string | null;
+  rootCause: string | null;
 }
 
 export interface FOSCaseContext {
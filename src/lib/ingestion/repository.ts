@@ -0,0 +1,232 @@
+import { pool, DatabaseClient } from '@/lib/database';
+import type { AuthenticatedAppUser } from '@/lib/auth/types';
+import { ensureDatabaseConfigured, nullableString, toInt, toIsoTimestamp } from '@/lib/fos/repo-helpers';
+import { ensureIngestionLedgerSchema } from './schema';
+import type {
+  IngestionErrorStage,
+  IngestionItem,
+  IngestionItemStage,
+  IngestionItemStatus,
+  IngestionLedger,
+  IngestionRetryInput,
+  IngestionRetryResult,
+  IngestionWindow,
+  IngestionWindowStatus,
+} from './types';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_WINDOW_LIMIT = 30;
+const MAX_WINDOW_LIMIT = 200;
+const DEFAULT_FAILURE_LIMIT = 100;
+const MAX_FAILURE_LIMIT = 500;
+const MAX_RETRY_ITEMS = 500;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const WINDOW_STATUSES: IngestionWindowStatus[] = ['pending', 'running', 'completed', 'failed'];
+
+type RetryActor = Pick<AuthenticatedAppUser, 'id' | 'fullName'>;
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/** Recent windows, failed decisions (optionally for one window) and ledger totals. */
+export async function getIngestionLedger(
+  options: { windowLimit?: number; failureLimit?: number; windowId?: string | null } = {}
+): Promise<IngestionLedger> {
+  ensureDatabaseConfigured();
+  await ensureIngestionLedgerSchema();
+  const windowLimit = clampLimit(options.windowLimit, DEFAULT_WINDOW_LIMIT, MAX_WINDOW_LIMIT);
+  const failureLimit = clampLimit(options.failureLimit, DEFAULT_FAILURE_LIMIT, MAX_FAILURE_LIMIT);
+  const windowId = options.windowId && UUID_PATTERN.test(options.windowId) ? options.windowId : null;
+
+  const [windowRows, failureRows, windowCounts, itemCounts] = await Promise.all([
+    DatabaseClient.query<Record<string, unknown>>(
+      `
+        SELECT *, window_start::TEXT AS start_date, window_end::TEXT AS end_date
+        FROM fos_ingestion_windows
+        ORDER BY updated_at DESC, window_start DESC
+        LIMIT $1
+      `,
+      [windowLimit]
+    ),
+    DatabaseClient.query<Record<string, unknown>>(
+      `
+        SELECT i.*, w.source AS window_source, w.window_start::TEXT AS start_date, w.window_end::TEXT AS end_date
+        FROM fos_ingestion_items i
+        JOIN fos_ingestion_windows w ON w.id = i.window_id
+        WHERE i.status = 'failed'
+          AND ($2::uuid IS NULL OR i.window_id = $2::uuid)
+        ORDER BY i.updated_at DESC, i.decision_key ASC
+        LIMIT $1
+      `,
+      [failureLimit, windowId]
+    ),
+    DatabaseClient.query<{ status: string; count: number }>(
+      `SELECT status, COUNT(*)::INT AS count FROM fos_ingestion_windows GROUP BY status`
+    ),
+    DatabaseClient.queryOne<{ failed: number; pending: number }>(
+      `
+        SELECT
+          COUNT(*) FILTER (WHERE status = 'failed')::INT AS failed,
+          COUNT(*) FILTER (WHERE status = 'pending')::INT AS pending
+        FROM fos_ingestion_items
+      `
+    ),
+  ]);
+
+  const windows = Object.fromEntries(WINDOW_STATUSES.map((status) => [status, 0])) as Record<IngestionWindowStatus, number>;
+  for (const row of windowCounts) {
+    if (WINDOW_STATUSES.includes(row.status as IngestionWindowStatus)) {
+      windows[row.status as IngestionWindowStatus] = toInt(row.count);
+    }
+  }
+
+  return {
+    windows: windowRows.map(mapWindow),
+    failures: failureRows.map(mapItem),
+    totals: {
+      windows,
+      failedItems: toInt(itemCounts?.failed),
+      pendingItems: toInt(itemCounts?.pending),
+    },
+  };
+}
+
+/**
+ * Queues failed decisions for the next ingestion run: every failed decision in
+ * `windowId`, or the listed `itemIds`. Their windows go back to `pending`,
+ * which the daily job picks up before its own windows regardless of attempts.
+ */
+export async function requestIngestionRetry(input: IngestionRetryInput, actor: RetryActor): Promise<IngestionRetryResult> {
+  ensureDatabaseConfigured();
+  const windowId = nullableString(input.windowId);
+  const itemIds = Array.isArray(input.itemIds) ? Array.from(new Set(input.itemIds.map(String))) : [];
+
+  if (!windowId && itemIds.length === 0) {
+    throw Object.assign(new Error('Provide a windowId or itemIds to retry.'), { status: 400 });
+  }
+  if ((windowId && !UUID_PATTERN.test(windowId)) || itemIds.some((id) => !UUID_PATTERN.test(id))) {
+    throw Object.assign(new Error('Ledger ids must be UUIDs.'), { status: 400 });
+  }
+  if (itemIds.length > MAX_RETRY_ITEMS) {
+    throw Object.assign(new Error(`At most ${MAX_RETRY_ITEMS} decisions can be retried at once.`), { status: 400 });
+  }
+
+  await ensureIngestionLedgerSchema();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    let windowIds: string[];
+    let items: number;
+
+    if (windowId) {
+      const windowResult = await client.query<{ status: string }>(
+        `SELECT status FROM fos_ingestion_windows WHERE id = $1 FOR UPDATE`,
+        [windowId]
+      );
+      const window = windowResult.rows[0];
+      if (!window) {
+        throw Object.assign(new Error('Ingestion window not found.'), { status: 404 });
+      }
+      if (window.status === 'running') {
+        throw Object.assign(new Error('The window is being processed; retry it once the run finishes.'), { status: 409 });
+      }
+      const itemResult = await client.query(
+        `
+          UPDATE fos_ingestion_items
+          SET status = 'pending', error_stage = NULL, last_error = NULL, updated_at = NOW()
+          WHERE window_id = $1 AND status = 'failed'
+        `,
+        [windowId]
+      );
+      items = itemResult.rowCount || 0;
+      if (items === 0 && window.status !== 'failed') {
+        throw Object.assign(new Error('The window has no failures to retry.'), { status: 409 });
+      }
+      windowIds = [windowId];
+    } else {
+      const itemResult = await client.query<{ window_id: string }>(
+        `
+          UPDATE fos_ingestion_items AS i
+          SET status = 'pending', error_stage = NULL, last_error = NULL, updated_at = NOW()
+          FROM fos_ingestion_windows AS w
+          WHERE w.id = i.window_id
+            AND i.id = ANY($1::uuid[])
+            AND i.status = 'failed'
+            AND w.status <> 'running'
+          RETURNING i.window_id
+        `,
+        [itemIds]
+      );
+      items = itemResult.rowCount || 0;
+      if (items === 0) {
+        throw Object.assign(new Error('No failed decisions matched; they may already be queued or being processed.'), { status: 404 });
+      }
+      windowIds = Array.from(new Set(itemResult.rows.map((row) => String(row.window_id))));
+    }
+
+    await client.query(
+      `
+        UPDATE fos_ingestion_windows
+        SET status = 'pending', retry_requested_by = $2, retry_requested_at = NOW(), updated_at = NOW()
+        WHERE id = ANY($1::uuid[])
+      `,
+      [windowIds, actor.fullName]
+    );
+    await client.query('COMMIT');
+    return { windows: windowIds.length, items };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ─── Mappers ─────────────────────────────────────────────────────────────────
+
+function mapWindow(row: Record<string, unknown>): IngestionWindow {
+  return {
+    id: String(row.id),
+    runId: nullableString(row.run_id),
+    source: String(row.source || 'fos-website'),
+    startDate: String(row.start_date),
+    endDate: String(row.end_date),
+    status: String(row.status) as IngestionWindowStatus,
+    attempts: toInt(row.attempts),
+    discovered: toInt(row.discovered),
+    completed: toInt(row.completed),
+    failed: toInt(row.failed),
+    lastError: nullableString(row.last_error),
+    discoveredAt: toIsoTimestamp(row.discovered_at),
+    startedAt: toIsoTimestamp(row.started_at),
+    finishedAt: toIsoTimestamp(row.finished_at),
+    retryRequestedBy: nullableString(row.retry_requested_by),
+    retryRequestedAt: toIsoTimestamp(row.retry_requested_at),
+    updatedAt: toIsoTimestamp(row.updated_at) || new Date(0).toISOString(),
+  };
+}
+
+function mapItem(row: Record<string, unknown>): IngestionItem {
+  return {
+    id: String(row.id),
+    windowId: String(row.window_id),
+    windowStart: String(row.start_date),
+    windowEnd: String(row.end_date),
+    windowSource: String(row.window_source || 'fos-website'),
+    decisionKey: String(row.decision_key),
+    decisionReference: nullableString(row.decision_reference),
+    pdfUrl: nullableString(row.pdf_url),
+    stage: String(row.stage) as IngestionItemStage,
+    status: String(row.status) as IngestionItemStatus,
+    errorStage: nullableString(row.error_stage) as IngestionErrorStage | null,
+    lastError: nullableString(row.last_error),
+    attempts: toInt(row.attempts),
+    updatedAt: toIsoTimestamp(row.updated_at) || new Date(0).toISOString(),
+  };
+}
+
+function clampLimit(value: number | undefined, fallback: number, max: number): number {
+  if (!Number.isFinite(value) || !value) return fallback;
+  return Math.max(1, Math.min(Math.trunc(value), max));
+}
@@ -0,0 +1,79 @@
+import { DatabaseClient } from '@/lib/database';
+
+let ensurePromise: Promise<void> | null = null;
+let schemaReady = false;
+
+/** Mirrors db/migrations/20260403_fos_ingestion_ledger.sql and 20260404_fos_ingestion_sources.sql. */
+export async function ensureIngestionLedgerSchema(): Promise<void> {
+  if (schemaReady) return;
+  if (!ensurePromise) {
+    ensurePromise = DatabaseClient.query(`
+      CREATE TABLE IF NOT EXISTS fos_ingestion_windows (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        run_id UUID,
+        window_start DATE NOT NULL,
+        window_end DATE NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        discovered INTEGER NOT NULL DEFAULT 0,
+        completed INTEGER NOT NULL DEFAULT 0,
+        failed INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        discovered_at TIMESTAMPTZ,
+        started_at TIMESTAMPTZ,
+        finished_at TIMESTAMPTZ,
+        retry_requested_by TEXT,
+        retry_requested_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT fos_ingestion_windows_status_check CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+        CONSTRAINT fos_ingestion_windows_range_unique UNIQUE (window_start, window_end)
+      );
+
+      CREATE INDEX IF NOT EXISTS fos_ingestion_windows_status_idx
+        ON fos_ingestion_windows (status, updated_at DESC);
+
+      CREATE TABLE IF NOT EXISTS fos_ingestion_items (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        window_id UUID NOT NULL REFERENCES fos_ingestion_windows (id) ON DELETE CASCADE,
+        decision_key TEXT NOT NULL,
+        decision_reference TEXT,
+        pdf_url TEXT,
+        discovery JSONB NOT NULL,
+        stage TEXT NOT NULL DEFAULT 'discovered',
+        status TEXT NOT NULL DEFAULT 'pending',
+        error_stage TEXT,
+        last_error TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        pdf_sha256 TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT fos_ingestion_items_stage_check CHECK (stage IN ('discovered', 'fetched', 'parsed', 'tagged', 'upserted')),
+        CONSTRAINT fos_ingestion_items_status_check CHECK (status IN ('pending', 'completed', 'failed')),
+        CONSTRAINT fos_ingestion_items_error_stage_check
+          CHECK (error_stage IS NULL OR error_stage IN ('fetch', 'parse', 'tag', 'upsert')),
+        CONSTRAINT fos_ingestion_items_window_key_unique UNIQUE (window_id, decision_key)
+      );
+
+      CREATE INDEX IF NOT EXISTS fos_ingestion_items_status_idx
+        ON fos_ingestion_items (status, updated_at DESC);
+
+      CREATE INDEX IF NOT EXISTS fos_ingestion_items_reference_idx
+        ON fos_ingestion_items (decision_reference);
+
+      ALTER TABLE fos_ingestion_windows
+        ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'fos-website';
+
+      ALTER TABLE fos_ingestion_windows DROP CONSTRAINT IF EXISTS fos_ingestion_windows_range_unique;
+      ALTER TABLE fos_ingestion_windows DROP CONSTRAINT IF EXISTS fos_ingestion_windows_source_range_unique;
+      ALTER TABLE fos_ingestion_windows
+        ADD CONSTRAINT fos_ingestion_windows_source_range_unique UNIQUE (source, window_start, window_end);
+    `).then(() => {
+      schemaReady = true;
+    }).finally(() => {
+      ensurePromise = null;
+    });
+  }
+
+  await ensurePromise;
+}
@@ -0,0 +1,71 @@
+export type IngestionWindowStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/** Last stage a decision completed; `upserted` means it landed in fos_decisions. */
+export type IngestionItemStage = 'discovered' | 'fetched' | 'parsed' | 'tagged' | 'upserted';
+
+export type IngestionItemStatus = 'pending' | 'completed' | 'failed';
+
+/** The stage that failed. */
+export type IngestionErrorStage = 'fetch' | 'parse' | 'tag' | 'upsert';
+
+export interface IngestionWindow {
+  id: string;
+  runId: string | null;
+  /** `fos-website`, or `local:<name>` for an archive loaded with `--source local`. */
+  source: string;
+  startDate: string;
+  endDate: string;
+  status: IngestionWindowStatus;
+  attempts: number;
+  discovered: number;
+  completed: number;
+  failed: number;
+  /** Window-level failure (discovery or import). */
+  lastError: string | null;
+  discoveredAt: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  retryRequestedBy: string | null;
+  retryRequestedAt: string | null;
+  updatedAt: string;
+}
+
+export interface IngestionItem {
+  id: string;
+  windowId: string;
+  windowStart: string;
+  windowEnd: string;
+  windowSource: string;
+  /** PDF URL, else the path inside a local archive, else the reference. */
+  decisionKey: string;
+  decisionReference: string | null;
+  pdfUrl: string | null;
+  stage: IngestionItemStage;
+  status: IngestionItemStatus;
+  errorStage: IngestionErrorStage | null;
+  lastError: string | null;
+  attempts: number;
+  updatedAt: string;
+}
+
+export interface IngestionLedger {
+  windows: IngestionWindow[];
+  /** Failed decisions, most recent first. */
+  failures: IngestionItem[];
+  totals: {
+    windows: Record<IngestionWindowStatus, number>;
+    failedItems: number;
+    pendingItems: number;
+  };
+}
+
+/** Either a whole window (all its failed decisions) or specific decisions. */
+export interface IngestionRetryInput {
+  windowId?: string;
+  itemIds?: string[];
+}
+
+export interface IngestionRetryResult {
+  windows: number;
+  items: number;
+}
@@ -6,7 +6,20 @@ import { getAdvisorBrief } from '@/lib/fos/advisor-repository';
 import { getCaseList } from '@/lib/fos/cases-repository';
 import { getDashboardSnapshot } from '@/lib/fos/dashboard-repository';
 import { getComparisonSnapshot } from '@/lib/fos/repository';
-import { ensureDatabaseConfigured, ensureFosDecisionsTableExists, normalizeTagLabel, outcomeExpression, caseIdExpression } from '@/lib/fos/repo-helpers';
+import {
+  caseIdExpression,
+  ensureDatabaseConfigured,
+  ensureFosDecisionsTableExists,
+  firmExpression,
+  firmKeyExpression,
+  hasFirmRegistry,
+  hasProductTaxonomy,
+  normalizeTagLabel,
+  nullableString,
+  outcomeExpression,
+  productExpression,
+} from '@/lib/fos/repo-helpers';
+import { findFirmHierarchy } from '@/lib/firms/repository';
 import type { FOSDashboardFilters, FOSCaseListItem } from '@/lib/fos/types';
 import { formatDate, formatNumber, formatPercent } from '@/lib/utils';
 import { ensureInsightsSchema } from './schema';
@@ -46,6 +59,7 @@ const EMPTY_FILTERS: FOSDashboardFilters = {
   outcomes: [],
   products: [],
   firms: [],
+  ombudsmen: [],
   tags: [],
   page: 1,
   pageSize: MAX_REPRESENTATIVE_CASES,
@@ -54,6 +68,7 @@ const EMPTY_FILTERS: FOSDashboardFilters = {
 type ArchiveRow = {
   entity_key: string | number | null;
   title: string | null;
+  sector?: string | null;
   total_cases: number | string | null;
   upheld_rate: number | string | null;
   latest_decision_date: string | Date | null;
@@ -94,7 +109,7 @@ type InsightOverrideRow = {
 
 type PublicDashboardOverview = {
   totalCases: number;
-  upheldRate: number;
+  upheldRate: number | null;
   upheldCases: number;
   latestDecisionDate: string | null;
 };
@@ -619,12 +634,16 @@ export const getFirmInsightPage = unstable_cache(async (slug: string): Promise<I
   const override = findOverride(overrides, current.kind, current.entityKey);
   if (override && !override.isPublished) return null;
 
-  const filters = { ...EMPTY_FILTERS, firms: [current.title] };
+  // Group pages aggregate every member firm; entity pages cover the firm's own spellings only.
+  const hierarchy = await findFirmHierarchy(current.title);
+  const firmLevel = hierarchy && hierarchy.members.length > 0 ? 'group' : 'entity';
+  const filters: FOSDashboardFilters = { ...EMPTY_FILTERS, firms: [current.title], firmLevel };
   const [dashboard, comparison, cases] = await Promise.all([
     getDashboardSnapshot(filters, { includeCases: false }),
-    getComparisonSnapshot([current.title], EMPTY_FILTERS),
+    getComparisonSnapshot([current.title], { ...EMPTY_FILTERS, firmLevel }),
     getCaseList(filters),
   ]);
+  const groupPage = hierarchy?.groupName ? findItemByTitle(firms, hierarchy.groupName) : null;
 
   const firm = comparison.firms[0];
   const topProduct = firm?.topProducts[0];
@@ -642,6 +661,8 @@ export const getFirmInsightPage = unstable_cache(async (slug: string): Promise<I
           : `No single product line dominated the published decisions strongly enough to define the firm’s profile outright.`,
       ],
       bullets: buildBullets([
+        hierarchy && hierarchy.members.length > 0 ? `Group figures include ${joinLabels(hierarchy.members, 4)}` : null,
+        hierarchy?.groupName ? `Part of the ${hierarchy.groupName} group` : null,
         latestYear ? `Latest active year in the published data: ${latestYear.year} (${formatNumber(latestYear.total)} decisions)` : null,
         topTheme ? `Most common complaint theme: ${topTheme.label}` : null,
         dashboard.precedents[0] ? `Most common precedent signal: ${dashboard.precedents[0].label}` : null,
@@ -701,6 +722,7 @@ export const getFirmInsightPage = unstable_cache(async (slug: string): Promise<I
   ];
 
   const relatedLinks = compactLinks([
+    groupPage ? linkForItem(groupPage, `Read the ${groupPage.title} group analysis`) : null,
     topProduct ? findLink(products, topProduct.product, `Explore ${topProduct.product} analysis`) : null,
     topProduct ? findCompositeLink(firmProducts, current.title, topProduct.product, `See ${current.title} in ${topProduct.product}`) : null,
     topTheme ? findLink(types, topTheme.label, `Explore the ${topTheme.label.toLowerCase()} complaint-theme page`) : null,
@@ -774,6 +796,9 @@ export const getProductInsightPage = unstable_cache(async (slug: string): Promis
   const topFirm = dashboard.firms[0];
   const topTheme = dashboard.rootCauses[0];
   const latestYear = yearly[yearly.length - 1];
+  const sectorSiblings = current.sector
+    ? products.filter((item) => item.sector === current.sector && item.slug !== current.slug).slice(0, 3)
+    : [];
 
   const sections: InsightNarrativeSection[] = [
     {
@@ -786,6 +811,7 @@ export const getProductInsightPage = unstable_cache(async (slug: string): Promis
           : `${topTheme ? `${topTheme.label} is the clearest complaint-theme signal in ${current.title}.` : 'No dominant firm or theme signal emerged strongly enough to define the product on its own.'}`,
       ],
       bullets: buildBullets([
+        current.sector ? `Sector: ${current.sector}` : null,
         latestYear ? `Latest year in the product series: ${latestYear.year}` : null,
         dashboard.precedents[0] ? `Leading precedent signal: ${dashboard.precedents[0].label}` : null,
         advisor?.riskAssessment?.upholdRiskLevel ? `Advisor uphold-risk signal: ${advisor.riskAssessment.upholdRiskLevel.replace(/_/g, ' ')}` : null,
@@ -852,6 +878,7 @@ export const getProductInsightPage = unstable_cache(async (slug: string): Promis
     topTheme ? findLink(types, topTheme.label, `Explore the ${topTheme.label.toLowerCase()} complaint-theme page`) : null,
     latestYear ? findLink(years, String(latestYear.year), `Read the ${latestYear.year} year analysis`) : null,
     latestYear ? findCompositeLink(yearProducts, String(latestYear.year), current.title, `See ${current.title} in ${latestYear.year}`) : null,
+    ...sectorSiblings.map((item) => linkForItem(item, `Compare with another ${current.sector} product`)),
     { title: 'Browse all product pages', href: '/insights/products', description: 'See the full archive of product-level analysis pages.' },
   ]);
 
@@ -1357,17 +1384,46 @@ async function queryYearArchive(): Promise<InsightArchiveItem[]> {
 }
 
 async function queryFirmArchive(): Promise<InsightArchiveItem[]> {
-  const rows = await queryArchiveRows(
-    `
+  ensureDatabaseConfigured();
+  await ensureFosDecisionsTableExists();
+  const groupLabel = firmExpression('d', 'group', hasFirmRegistry());
+  const entityLabel = firmExpression('d', 'entity', hasFirmRegistry());
+  // With the firm registry, groups get one page covering every member, and
+  // member firms keep a page of their own alongside it.
+  const memberPagesSql = hasFirmRegistry()
+    ? `
+      UNION ALL
       SELECT
-        COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') AS entity_key,
-        COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') AS title,
+        ${entityLabel} AS entity_key,
+        ${entityLabel} AS title,
         COUNT(*)::INT AS total_cases,
         ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate,
         MAX(d.decision_date) AS latest_decision_date
       FROM fos_decisions d
-      GROUP BY COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm')
+      WHERE EXISTS (
+        SELECT 1 FROM fos_firm_lookup member_lookup
+        WHERE member_lookup.alias_key = ${firmKeyExpression('d')}
+          AND member_lookup.group_name IS NOT NULL
+      )
+      GROUP BY ${entityLabel}
       HAVING COUNT(*) >= $1
+    `
+    : '';
+  const rows = await queryArchiveRows(
+    `
+      SELECT entity_key, title, total_cases, upheld_rate, latest_decision_date
+      FROM (
+        SELECT
+          ${groupLabel} AS entity_key,
+          ${groupLabel} AS title,
+          COUNT(*)::INT AS total_cases,
+          ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate,
+          MAX(d.decision_date) AS latest_decision_date
+        FROM fos_decisions d
+        GROUP BY ${groupLabel}
+        HAVING COUNT(*) >= $1
+        ${memberPagesSql}
+      ) firms
       ORDER BY total_cases DESC, title ASC
       LIMIT $2
     `,
@@ -1377,39 +1433,50 @@ async function queryFirmArchive(): Promise<InsightArchiveItem[]> {
 }
 
 async function queryProductArchive(): Promise<InsightArchiveItem[]> {
+  // Resolve the taxonomy flag before the label SQL is built.
+  ensureDatabaseConfigured();
+  await ensureFosDecisionsTableExists();
+  const productLabel = productExpression('d', 'product', hasProductTaxonomy());
   const rows = await queryArchiveRows(
     `
       SELECT
-        COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS entity_key,
-        COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS title,
+        ${productLabel} AS entity_key,
+        ${productLabel} AS title,
+        MIN(${productExpression('d', 'sector', hasProductTaxonomy())}) AS sector,
         COUNT(*)::INT AS total_cases,
         ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate,
         MAX(d.decision_date) AS latest_decision_date
       FROM fos_decisions d
-      GROUP BY COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified')
+      GROUP BY ${productLabel}
       HAVING COUNT(*) >= $1
       ORDER BY total_cases DESC, title ASC
     `,
     [MIN_PRODUCT_CASES]
   );
-  return toArchiveItems('product', rows, (totalCases, upheldRate) => `${formatNumber(totalCases)} published decisions with ${formatPercent(upheldRate)} upheld.`);
+  const sectors = new Map(rows.map((row) => [String(row.entity_key || row.title || '').trim(), nullableString(row.sector)]));
+  return toArchiveItems('product', rows, (totalCases, upheldRate) => `${formatNumber(totalCases)} published decisions with ${formatPercent(upheldRate)} upheld.`)
+    .map((item) => {
+      const sector = sectors.get(item.entityKey);
+      return sector && sector !== item.title ? { ...item, sector, highlight: `${sector} · product analysis` } : item;
+    });
 }
 
 async function queryYearProductArchive(): Promise<InsightArchiveItem[]> {
   ensureDatabaseConfigured();
   await ensureFosDecisionsTableExists();
+  const productLabel = productExpression('d', 'product', hasProductTaxonomy());
   const products = await getProductArchive();
   const rows = await DatabaseClient.query<CompositeArchiveRow>(
     `
       SELECT
         EXTRACT(YEAR FROM d.decision_date)::INT AS primary_label,
-        COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS secondary_label,
+        ${productLabel} AS secondary_label,
         COUNT(*)::INT AS total_cases,
         ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate,
         MAX(d.decision_date) AS latest_decision_date
       FROM fos_decisions d
       WHERE d.decision_date IS NOT NULL
-      GROUP BY EXTRACT(YEAR FROM d.decision_date)::INT, COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified')
+      GROUP BY EXTRACT(YEAR FROM d.decision_date)::INT, ${productLabel}
       HAVING COUNT(*) >= $1
       ORDER BY total_cases DESC, primary_label DESC, secondary_label ASC
     `,
@@ -1441,17 +1508,19 @@ async function queryYearProductArchive(): Promise<InsightArchiveItem[]> {
 async function queryFirmProductArchive(): Promise<InsightArchiveItem[]> {
   ensureDatabaseConfigured();
   await ensureFosDecisionsTableExists();
+  const firmLabel = firmExpression('d', 'entity', hasFirmRegistry());
+  const productLabel = productExpression('d', 'product', hasProductTaxonomy());
   const [firms, products] = await Promise.all([getFirmArchive(), getProductArchive()]);
   const rows = await DatabaseClient.query<CompositeArchiveRow>(
     `
       SELECT
-        COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') AS primary_label,
-        COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS secondary_label,
+        ${firmLabel} AS primary_label,
+        ${productLabel} AS secondary_label,
         COUNT(*)::INT AS total_cases,
         ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate,
         MAX(d.decision_date) AS latest_decision_date
       FROM fos_decisions d
-      GROUP BY COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm'), COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified')
+      GROUP BY ${firmLabel}, ${productLabel}
       HAVING COUNT(*) >= $1
       ORDER BY total_cases DESC, primary_label ASC, secondary_label ASC
     `,
@@ -1545,6 +1614,8 @@ async function queryTypeInsightData(label: string): Promise<{
   await ensureFosDecisionsTableExists();
   const params = [label.toLowerCase()];
   const tagCondition = `EXISTS (SELECT 1 FROM jsonb_array_elements_text(COALESCE(d.root_cause_tags, '[]'::jsonb)) AS tag(value) WHERE LOWER(BTRIM(tag.value)) = $1)`;
+  const firmLabel = firmExpression('d', 'entity', hasFirmRegistry());
+  const productLabel = productExpression('d', 'product', hasProductTaxonomy());
   const [overview, trends, firms, products, precedents, cases] = await Promise.all([
     DatabaseClient.queryOne<Record<string, unknown>>(
       `
@@ -1574,12 +1645,12 @@ async function queryTypeInsightData(label: string): Promise<{
     DatabaseClient.query<RankRow>(
       `
         SELECT
-          COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm') AS label,
+          ${firmLabel} AS label,
           COUNT(*)::INT AS total,
           ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate
         FROM fos_decisions d
         WHERE ${tagCondition}
-        GROUP BY COALESCE(NULLIF(BTRIM(d.business_name), ''), 'Unknown firm')
+        GROUP BY ${firmLabel}
         ORDER BY total DESC, label ASC
         LIMIT 8
       `,
@@ -1588,12 +1659,12 @@ async function queryTypeInsightData(label: string): Promise<{
     DatabaseClient.query<RankRow>(
       `
         SELECT
-          COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified') AS label,
+          ${productLabel} AS label,
           COUNT(*)::INT AS total,
           ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS upheld_rate
         FROM fos_decisions d
         WHERE ${tagCondition}
-        GROUP BY COALESCE(NULLIF(BTRIM(d.product_sector), ''), 'Unspecified')
+        GROUP BY ${productLabel}
         ORDER BY total DESC, label ASC
         LIMIT 8
       `,
@@ -16,6 +16,8 @@ export type InsightArchiveItem = {
   latestDecisionDate: string | null;
   summary: string;
   highlight: string;
+  /** Product pages only: the taxonomy sector the product is filed under, when it differs from the product. */
+  sector?: string | null;
   featuredRank?: number | null;
   isNoindex?: boolean;
 };
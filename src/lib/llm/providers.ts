@@ -0,0 +1,430 @@
+import { createHash } from 'node:crypto';
+import type {
+  LlmCompletion,
+  LlmCompletionOptions,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderKind,
+  LlmProviderResult,
+  LlmRequestOptions,
+  LlmStore,
+} from './types';
+
+// Provider chain, retries and caching. Kept free of database imports so the
+// offline scripts can run the same chain against their own pool.
+
+export const DEFAULT_OPENAI_COMPATIBLE_URL = 'https://api.groq.com/openai/v1/chat/completions';
+export const DEFAULT_OPENAI_COMPATIBLE_MODEL = 'llama-3.3-70b-versatile';
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+export const DEFAULT_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const DEFAULT_MAX_RETRIES = 2;
+// Routes that call the chain run under `maxDuration = 30`. The chain gets one
+// budget inside that, leaving headroom to query statistics and return the
+// statistics-only fallback before the platform kills the function.
+const DEFAULT_ROUTE_BUDGET_MS = 30_000;
+const ROUTE_HEADROOM_MS = 10_000;
+const DEFAULT_DEADLINE_MS = DEFAULT_ROUTE_BUDGET_MS - ROUTE_HEADROOM_MS;
+// Half the deadline per attempt, so a hung first provider still leaves time to fall back.
+const DEFAULT_TIMEOUT_MS = DEFAULT_DEADLINE_MS / 2;
+const RETRY_BASE_MS = 750;
+const RETRY_MAX_MS = 20_000;
+// Groq list price for llama-3.3-70b-versatile, USD per million tokens.
+const DEFAULT_INPUT_COST_PER_MILLION = 0.59;
+const DEFAULT_OUTPUT_COST_PER_MILLION = 0.79;
+
+type LlmEnv = Record<string, string | undefined>;
+
+interface HttpProviderConfig {
+  kind: Exclude<LlmProviderKind, 'fixture'>;
+  name: string;
+  url: string;
+  model: string;
+  apiKey?: string | null;
+  timeoutMs?: number;
+  maxRetries?: number;
+  pricing?: LlmProvider['pricing'];
+}
+
+// ─── Providers ───────────────────────────────────────────────────────────────
+
+/** Any `/chat/completions` endpoint that speaks the OpenAI wire format (Groq, OpenAI, Azure, vLLM, Ollama). */
+export function createOpenAICompatibleProvider(config: HttpProviderConfig): LlmProvider {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  return {
+    kind: config.kind,
+    name: config.name,
+    model: config.model,
+    pricing: config.pricing || { inputPerMillion: 0, outputPerMillion: 0 },
+    complete(messages, options) {
+      return withRetries(() => postChatCompletion(config, messages, options, timeoutMs), maxRetries, config.name, options.signal);
+    },
+  };
+}
+
+/**
+ * Deterministic provider for tests and offline demos. Echoes the section
+ * headings the prompt asks for (`## Heading` or `=== HEADING ===`) so
+ * downstream parsers see well-formed output without network access.
+ */
+export function createFixtureProvider(respond?: (messages: LlmMessage[]) => string): LlmProvider {
+  return {
+    kind: 'fixture',
+    name: 'fixture',
+    model: 'fixture-v1',
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+    async complete(messages) {
+      const content = respond ? respond(messages) : buildFixtureResponse(messages);
+      return {
+        content,
+        usage: {
+          promptTokens: estimateTokens(messages.map((message) => message.content).join('\n')),
+          completionTokens: estimateTokens(content),
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Builds the fallback chain from the environment. `LLM_PROVIDERS` lists
+ * provider kinds in order (e.g. `openai_compatible,local`); without it, any
+ * configured hosted key comes first and a configured local endpoint second.
+ */
+export function resolveLlmProviders(env: LlmEnv = process.env): LlmProvider[] {
+  const apiKey = (env.LLM_API_KEY || env.GROQ_API_KEY || '').trim();
+  const localUrl = (env.LLM_LOCAL_URL || '').trim();
+  const timeoutMs = parseIntEnv(env.LLM_TIMEOUT_MS, DEFAULT_TIMEOUT_MS, 1_000, 120_000);
+  const maxRetries = parseIntEnv(env.LLM_MAX_RETRIES, DEFAULT_MAX_RETRIES, 0, 5);
+
+  const requested = (env.LLM_PROVIDERS || '')
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+  const kinds: string[] = requested.length > 0
+    ? requested
+    : [...(apiKey ? ['openai_compatible'] : []), ...(localUrl ? ['local'] : [])];
+
+  const providers: LlmProvider[] = [];
+  for (const kind of kinds) {
+    if (kind === 'fixture') {
+      providers.push(createFixtureProvider());
+    } else if (kind === 'openai_compatible' && apiKey) {
+      const url = (env.LLM_API_URL || '').trim() || DEFAULT_OPENAI_COMPATIBLE_URL;
+      providers.push(createOpenAICompatibleProvider({
+        kind: 'openai_compatible',
+        name: url.includes('api.groq.com') ? 'groq' : 'openai_compatible',
+        url,
+        model: (env.LLM_MODEL || '').trim() || DEFAULT_OPENAI_COMPATIBLE_MODEL,
+        apiKey,
+        timeoutMs,
+        maxRetries,
+        pricing: {
+          inputPerMillion: parseCostEnv(env.LLM_INPUT_COST_PER_MILLION, DEFAULT_INPUT_COST_PER_MILLION),
+          outputPerMillion: parseCostEnv(env.LLM_OUTPUT_COST_PER_MILLION, DEFAULT_OUTPUT_COST_PER_MILLION),
+        },
+      }));
+    } else if (kind === 'local' && localUrl) {
+      providers.push(createOpenAICompatibleProvider({
+        kind: 'local',
+        name: 'local',
+        url: localUrl,
+        model: (env.LLM_LOCAL_MODEL || '').trim() || DEFAULT_LOCAL_MODEL,
+        apiKey: (env.LLM_LOCAL_API_KEY || '').trim() || null,
+        timeoutMs,
+        maxRetries,
+      }));
+    }
+  }
+  return providers;
+}
+
+/** Overall budget for one completion across every provider and retry, from `LLM_DEADLINE_MS`. */
+export function resolveLlmDeadlineMs(env: LlmEnv = process.env): number {
+  return parseIntEnv(env.LLM_DEADLINE_MS, DEFAULT_DEADLINE_MS, 1_000, 600_000);
+}
+
+/** Chain deadline for a route with the given `maxDuration`, never above `LLM_DEADLINE_MS`. */
+export function llmDeadlineForRoute(maxDurationSeconds: number, env: LlmEnv = process.env): number {
+  return Math.min(resolveLlmDeadlineMs(env), Math.max(1_000, maxDurationSeconds * 1000 - ROUTE_HEADROOM_MS));
+}
+
+// ─── Chain ───────────────────────────────────────────────────────────────────
+
+/**
+ * Tries each provider in order, serving from the cache when a fresh entry
+ * exists for that provider and model. Every attempt is recorded as usage.
+ * The chain shares one deadline (and the caller's signal, if any): when it
+ * passes, the in-flight request is aborted and no further provider is tried.
+ * Throws a 503 `llm_unavailable` error when the whole chain fails.
+ */
+export async function completeWithProviders(input: {
+  providers: LlmProvider[];
+  messages: LlmMessage[];
+  options: LlmRequestOptions;
+  store?: LlmStore | null;
+}): Promise<LlmCompletion> {
+  const { providers, messages, options, store } = input;
+  const cacheTtlSeconds = options.cacheTtlSeconds ?? DEFAULT_CACHE_TTL_SECONDS;
+  const completionOptions: LlmCompletionOptions = { maxTokens: options.maxTokens ?? 1500, temperature: options.temperature ?? 0.3 };
+  const deadlineMs = options.deadlineMs ?? resolveLlmDeadlineMs();
+  const signal = AbortSignal.any([AbortSignal.timeout(deadlineMs), ...(options.signal ? [options.signal] : [])]);
+  let lastError: unknown = null;
+
+  for (const provider of providers) {
+    if (signal.aborted) {
+      lastError = abortError(signal, deadlineMs);
+      break;
+    }
+    const requestHash = hashLlmRequest(provider, messages, completionOptions);
+    const startedAt = Date.now();
+
+    if (store && cacheTtlSeconds > 0) {
+      const hit = await store.readCache(requestHash, cacheTtlSeconds).catch(() => null);
+      if (hit) {
+        const completion: LlmCompletion = {
+          content: hit.content,
+          provider: provider.name,
+          model: provider.model,
+          cached: true,
+          promptTokens: hit.promptTokens,
+          completionTokens: hit.completionTokens,
+          costUsd: 0,
+          latencyMs: Date.now() - startedAt,
+          requestHash,
+        };
+        await recordUsageSafely(store, options.purpose, completion, null);
+        return completion;
+      }
+    }
+
+    try {
+      const result = await provider.complete(messages, { ...completionOptions, signal });
+      const content = result.content.trim();
+      if (!content) {
+        throw llmError(`${provider.name} returned an empty response.`, 502);
+      }
+      const promptTokens = result.usage?.promptTokens ?? estimateTokens(messages.map((message) => message.content).join('\n'));
+      const completionTokens = result.usage?.completionTokens ?? estimateTokens(content);
+      const completion: LlmCompletion = {
+        content,
+        provider: provider.name,
+        model: provider.model,
+        cached: false,
+        promptTokens,
+        completionTokens,
+        costUsd: estimateCostUsd(provider.pricing, promptTokens, completionTokens),
+        latencyMs: Date.now() - startedAt,
+        requestHash,
+      };
+      if (store && cacheTtlSeconds > 0) {
+        await store.writeCache({
+          requestHash,
+          provider: provider.name,
+          model: provider.model,
+          content,
+          promptTokens,
+          completionTokens,
+        }).catch(() => undefined);
+      }
+      await recordUsageSafely(store, options.purpose, completion, null);
+      return completion;
+    } catch (error) {
+      lastError = signal.aborted ? abortError(signal, deadlineMs) : error;
+      await recordUsageSafely(store, options.purpose, {
+        content: '',
+        provider: provider.name,
+        model: provider.model,
+        cached: false,
+        promptTokens: 0,
+        completionTokens: 0,
+        costUsd: 0,
+        latencyMs: Date.now() - startedAt,
+        requestHash,
+      }, lastError);
+    }
+  }
+
+  const detail = lastError instanceof Error ? lastError.message : 'no provider is configured';
+  throw Object.assign(new Error(`AI service is unavailable (${detail}).`), { status: 503, code: 'llm_unavailable' });
+}
+
+export function isLlmUnavailableError(error: unknown): boolean {
+  return Boolean(error && typeof error === 'object' && (error as { code?: string }).code === 'llm_unavailable');
+}
+
+export function hashLlmRequest(provider: Pick<LlmProvider, 'name' | 'model'>, messages: LlmMessage[], options: LlmCompletionOptions): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      provider: provider.name,
+      model: provider.model,
+      maxTokens: options.maxTokens ?? null,
+      temperature: options.temperature ?? null,
+      messages: messages.map((message) => [message.role, message.content]),
+    }))
+    .digest('hex');
+}
+
+export function estimateCostUsd(pricing: LlmProvider['pricing'], promptTokens: number, completionTokens: number): number {
+  const cost = (promptTokens * pricing.inputPerMillion + completionTokens * pricing.outputPerMillion) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+// ─── Internals ───────────────────────────────────────────────────────────────
+
+async function postChatCompletion(
+  config: HttpProviderConfig,
+  messages: LlmMessage[],
+  options: LlmCompletionOptions,
+  timeoutMs: number
+): Promise<LlmProviderResult> {
+  const chainSignal = options.signal;
+  chainSignal?.throwIfAborted();
+  let response: Response;
+  try {
+    response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+      }),
+      signal: chainSignal ? AbortSignal.any([AbortSignal.timeout(timeoutMs), chainSignal]) : AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    if (chainSignal?.aborted) throw chainSignal.reason;
+    const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+    throw llmError(
+      timedOut ? `${config.name} timed out after ${timeoutMs}ms.` : `${config.name} request failed: ${error instanceof Error ? error.message : String(error)}`,
+      timedOut ? 504 : 502,
+      { retryable: true }
+    );
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw llmError(`${config.name} API error (${response.status}): ${body.slice(0, 200)}`, response.status, {
+      retryable: response.status === 429 || response.status >= 500,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    });
+  }
+
+  const data = (await response.json()) as {
+    choices?: { message?: { content?: string } }[];
+    usage?: { prompt_tokens?: number; completion_tokens?: number };
+  };
+
+  return {
+    content: data.choices?.[0]?.message?.content || '',
+    usage: data.usage
+      ? { promptTokens: Number(data.usage.prompt_tokens || 0), completionTokens: Number(data.usage.completion_tokens || 0) }
+      : null,
+  };
+}
+
+async function withRetries<T>(run: () => Promise<T>, maxRetries: number, name: string, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await run();
+    } catch (error) {
+      const details = error as { retryable?: boolean; retryAfterMs?: number | null };
+      if (!details?.retryable || attempt >= maxRetries || signal?.aborted) throw error;
+      const backoff = Math.min(RETRY_MAX_MS, details.retryAfterMs ?? RETRY_BASE_MS * 2 ** attempt);
+      console.warn(`[llm] ${name} attempt ${attempt + 1} failed, retrying in ${backoff}ms: ${(error as Error).message}`);
+      await delay(backoff, signal);
+    }
+  }
+}
+
+async function recordUsageSafely(store: LlmStore | null | undefined, purpose: string, completion: LlmCompletion, error: unknown): Promise<void> {
+  if (!store) return;
+  await store.recordUsage({
+    purpose,
+    provider: completion.provider,
+    model: completion.model,
+    requestHash: completion.requestHash,
+    cached: completion.cached,
+    status: error ? 'error' : 'success',
+    promptTokens: completion.promptTokens,
+    completionTokens: completion.completionTokens,
+    costUsd: completion.costUsd,
+    latencyMs: completion.latencyMs,
+    errorMessage: error ? (error instanceof Error ? error.message : String(error)).slice(0, 500) : null,
+  }).catch(() => undefined);
+}
+
+function buildFixtureResponse(messages: LlmMessage[]): string {
+  const prompt = [...messages].reverse().find((message) => message.role === 'user')?.content || '';
+  const digest = createHash('sha256').update(prompt).digest('hex').slice(0, 12);
+  const markdownHeadings = (prompt.match(/^##\s+.+$/gm) || []).map((line) => line.replace(/^##\s+/, '').trim());
+  const delimitedHeadings = (prompt.match(/^===\s*.+?\s*===\s*$/gm) || []).map((line) => line.replace(/=/g, '').trim());
+
+  if (delimitedHeadings.length > 0) {
+    return delimitedHeadings
+      .map((heading) => `=== ${heading} ===\nFixture analysis for ${heading.toLowerCase()} (${digest}).`)
+      .join('\n\n');
+  }
+  if (markdownHeadings.length > 0) {
+    return markdownHeadings
+      .map((heading) => `## ${heading}\nFixture analysis for ${heading.toLowerCase()} (${digest}).`)
+      .join('\n\n');
+  }
+  return `Fixture response (${digest}).`;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Explains why the chain stopped: its own deadline, or the caller cancelling. */
+function abortError(signal: AbortSignal, deadlineMs: number): Error {
+  const reason = signal.reason as { name?: string } | undefined;
+  return reason?.name === 'TimeoutError'
+    ? llmError(`deadline of ${deadlineMs}ms reached`, 504)
+    : llmError('request was cancelled', 499);
+}
+
+function llmError(message: string, status: number, extra: { retryable?: boolean; retryAfterMs?: number | null } = {}): Error {
+  return Object.assign(new Error(message), { status, retryable: false, ...extra });
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : null;
+}
+
+function parseIntEnv(value: string | undefined, fallback: number, min: number, max: number): number {
+  const parsed = Number.parseInt(String(value ?? ''), 10);
+  if (!Number.isInteger(parsed)) return fallback;
+  return Math.min(max, Math.max(min, parsed));
+}
+
+function parseCostEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value != null && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,85 @@
+import { DatabaseClient } from '@/lib/database';
+import { completeWithProviders, resolveLlmProviders } from './providers';
+import { ensureLlmSchema } from './schema';
+import { createSqlLlmStore } from './store';
+import type { LlmCompletion, LlmMessage, LlmRequestOptions, LlmStore, LlmUsageSummary, LlmUsageSummaryRow } from './types';
+
+const databaseStore = createSqlLlmStore((text, params) => DatabaseClient.query(text, params));
+
+/**
+ * Runs a chat completion through the configured provider chain with the
+ * Postgres cache and usage ledger. The store is skipped when the database is
+ * not configured or its schema cannot be created.
+ */
+export async function completeChat(messages: LlmMessage[], options: LlmRequestOptions): Promise<LlmCompletion> {
+  return completeWithProviders({
+    providers: resolveLlmProviders(),
+    messages,
+    options,
+    store: await resolveStore(),
+  });
+}
+
+export async function getLlmUsageSummary(days = 30): Promise<LlmUsageSummary> {
+  const windowDays = Math.min(365, Math.max(1, Math.round(days)));
+  await ensureLlmSchema();
+
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT
+        purpose,
+        provider,
+        model,
+        COUNT(*)::INT AS calls,
+        COUNT(*) FILTER (WHERE cached)::INT AS cached_calls,
+        COUNT(*) FILTER (WHERE status = 'error')::INT AS failed_calls,
+        COALESCE(SUM(prompt_tokens), 0)::BIGINT AS prompt_tokens,
+        COALESCE(SUM(completion_tokens), 0)::BIGINT AS completion_tokens,
+        COALESCE(SUM(cost_usd), 0)::NUMERIC(14,6) AS cost_usd
+      FROM llm_usage_events
+      WHERE created_at >= NOW() - ($1::INT * INTERVAL '1 day')
+      GROUP BY purpose, provider, model
+      ORDER BY cost_usd DESC, calls DESC
+    `,
+    [windowDays]
+  );
+
+  const summaryRows: LlmUsageSummaryRow[] = rows.map((row) => ({
+    purpose: String(row.purpose),
+    provider: String(row.provider),
+    model: String(row.model),
+    calls: Number(row.calls || 0),
+    cachedCalls: Number(row.cached_calls || 0),
+    failedCalls: Number(row.failed_calls || 0),
+    promptTokens: Number(row.prompt_tokens || 0),
+    completionTokens: Number(row.completion_tokens || 0),
+    costUsd: Number(row.cost_usd || 0),
+  }));
+
+  return {
+    days: windowDays,
+    totals: summaryRows.reduce(
+      (totals, row) => ({
+        calls: totals.calls + row.calls,
+        cachedCalls: totals.cachedCalls + row.cachedCalls,
+        failedCalls: totals.failedCalls + row.failedCalls,
+        promptTokens: totals.promptTokens + row.promptTokens,
+        completionTokens: totals.completionTokens + row.completionTokens,
+        costUsd: Math.round((totals.costUsd + row.costUsd) * 1_000_000) / 1_000_000,
+      }),
+      { calls: 0, cachedCalls: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 }
+    ),
+    rows: summaryRows,
+  };
+}
+
+async function resolveStore(): Promise<LlmStore | null> {
+  if (!process.env.DATABASE_URL) return null;
+  try {
+    await ensureLlmSchema();
+    return databaseStore;
+  } catch (error) {
+    console.warn('[llm] cache and usage ledger unavailable:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
@@ -0,0 +1,18 @@
+import { DatabaseClient } from '@/lib/database';
+import { LLM_SCHEMA_SQL } from './store';
+
+let ensurePromise: Promise<void> | null = null;
+let schemaReady = false;
+
+export async function ensureLlmSchema(): Promise<void> {
+  if (schemaReady) return;
+  if (!ensurePromise) {
+    ensurePromise = DatabaseClient.query(LLM_SCHEMA_SQL).then(() => {
+      schemaReady = true;
+    }).finally(() => {
+      ensurePromise = null;
+    });
+  }
+
+  await ensurePromise;
+}
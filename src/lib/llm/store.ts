@@ -0,0 +1,113 @@
+import type { LlmCacheEntry, LlmStore } from './types';
+
+// SQL-backed cache and usage ledger. Takes a bare query function so the app
+// (DatabaseClient) and offline scripts (their own pg pool) share one
+// implementation.
+
+type QueryFn = <T = Record<string, unknown>>(text: string, params?: unknown[]) => Promise<T[]>;
+
+export const LLM_SCHEMA_SQL = `
+  CREATE TABLE IF NOT EXISTS llm_response_cache (
+    request_hash TEXT PRIMARY KEY,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    content TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_hit_at TIMESTAMPTZ
+  );
+
+  CREATE INDEX IF NOT EXISTS llm_response_cache_created_idx
+    ON llm_response_cache (created_at);
+
+  CREATE TABLE IF NOT EXISTS llm_usage_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    purpose TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    request_hash TEXT NOT NULL,
+    cached BOOLEAN NOT NULL DEFAULT FALSE,
+    status TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    error_message TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT llm_usage_events_status_check CHECK (status IN ('success', 'error'))
+  );
+
+  CREATE INDEX IF NOT EXISTS llm_usage_events_created_idx
+    ON llm_usage_events (created_at DESC);
+`;
+
+export function createSqlLlmStore(query: QueryFn): LlmStore {
+  return {
+    async readCache(requestHash, maxAgeSeconds) {
+      const rows = await query<Record<string, unknown>>(
+        `
+          UPDATE llm_response_cache
+          SET hit_count = hit_count + 1, last_hit_at = NOW()
+          WHERE request_hash = $1
+            AND created_at >= NOW() - ($2::INT * INTERVAL '1 second')
+          RETURNING request_hash, provider, model, content, prompt_tokens, completion_tokens
+        `,
+        [requestHash, Math.round(maxAgeSeconds)]
+      );
+      const row = rows[0];
+      if (!row) return null;
+      return {
+        requestHash: String(row.request_hash),
+        provider: String(row.provider),
+        model: String(row.model),
+        content: String(row.content),
+        promptTokens: Number(row.prompt_tokens || 0),
+        completionTokens: Number(row.completion_tokens || 0),
+      } satisfies LlmCacheEntry;
+    },
+
+    async writeCache(entry) {
+      await query(
+        `
+          INSERT INTO llm_response_cache (request_hash, provider, model, content, prompt_tokens, completion_tokens)
+          VALUES ($1, $2, $3, $4, $5, $6)
+          ON CONFLICT (request_hash) DO UPDATE SET
+            content = EXCLUDED.content,
+            prompt_tokens = EXCLUDED.prompt_tokens,
+            completion_tokens = EXCLUDED.completion_tokens,
+            hit_count = 0,
+            created_at = NOW(),
+            last_hit_at = NULL
+        `,
+        [entry.requestHash, entry.provider, entry.model, entry.content, entry.promptTokens, entry.completionTokens]
+      );
+    },
+
+    async recordUsage(event) {
+      await query(
+        `
+          INSERT INTO llm_usage_events (
+            purpose, provider, model, request_hash, cached, status,
+            prompt_tokens, completion_tokens, cost_usd, latency_ms, error_message
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        `,
+        [
+          event.purpose,
+          event.provider,
+          event.model,
+          event.requestHash,
+          event.cached,
+          event.status,
+          event.promptTokens,
+          event.completionTokens,
+          event.costUsd,
+          event.latencyMs,
+          event.errorMessage,
+        ]
+      );
+    },
+  };
+}
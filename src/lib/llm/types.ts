@@ -0,0 +1,107 @@
+export type LlmProviderKind = 'openai_compatible' | 'local' | 'fixture';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmCompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  /** Aborts the in-flight request and any pending retry; not part of the cache key. */
+  signal?: AbortSignal;
+}
+
+export interface LlmRequestOptions extends LlmCompletionOptions {
+  /** Short label recorded against usage, e.g. `fos_synthesis`. */
+  purpose: string;
+  /** Cached responses older than this are ignored. `0` disables the cache for the call. */
+  cacheTtlSeconds?: number;
+  /** Budget for the whole provider chain, retries included. Defaults to `LLM_DEADLINE_MS`. */
+  deadlineMs?: number;
+}
+
+export interface LlmTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** Raw provider output, before caching and accounting. */
+export interface LlmProviderResult {
+  content: string;
+  usage: LlmTokenUsage | null;
+}
+
+export interface LlmProvider {
+  kind: LlmProviderKind;
+  /** Stable name recorded in the cache and usage ledger, e.g. `groq`, `local`, `fixture`. */
+  name: string;
+  model: string;
+  /** USD per million tokens; `0` for local and fixture providers. */
+  pricing: { inputPerMillion: number; outputPerMillion: number };
+  complete(messages: LlmMessage[], options: LlmCompletionOptions): Promise<LlmProviderResult>;
+}
+
+export interface LlmCompletion {
+  content: string;
+  provider: string;
+  model: string;
+  cached: boolean;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  /** `sha256` of provider, model, options and messages; the cache key. */
+  requestHash: string;
+}
+
+export interface LlmCacheEntry {
+  requestHash: string;
+  provider: string;
+  model: string;
+  content: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmUsageEvent {
+  purpose: string;
+  provider: string;
+  model: string;
+  requestHash: string;
+  cached: boolean;
+  status: 'success' | 'error';
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  errorMessage: string | null;
+}
+
+/**
+ * Persistence for the provider chain. Both methods are best effort: a failing
+ * store must never fail the completion.
+ */
+export interface LlmStore {
+  readCache(requestHash: string, maxAgeSeconds: number): Promise<LlmCacheEntry | null>;
+  writeCache(entry: LlmCacheEntry): Promise<void>;
+  recordUsage(event: LlmUsageEvent): Promise<void>;
+}
+
+export interface LlmUsageSummaryRow {
+  purpose: string;
+  provider: string;
+  model: string;
+  calls: number;
+  cachedCalls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface LlmUsageSummary {
+  days: number;
+  totals: Omit<LlmUsageSummaryRow, 'purpose' | 'provider' | 'model'>;
+  rows: LlmUsageSummaryRow[];
+}
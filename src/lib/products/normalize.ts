@@ -0,0 +1,11 @@
+/**
+ * Rule key for a raw product value: lower case, runs of non-alphanumerics
+ * collapsed to a single space, trimmed. Must match `productKeySql` in
+ * src/lib/products/sql.ts so rules resolve inside SQL.
+ */
+export function normalizeProductKey(value: string): string {
+  return String(value || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,365 @@
+import { pool, DatabaseClient } from '@/lib/database';
+import type { AuthenticatedAppUser } from '@/lib/auth/types';
+import {
+  ensureDatabaseConfigured,
+  isMissingRelationError,
+  nullableString,
+  resetProductTaxonomyCaches,
+  toInt,
+  toIsoTimestamp,
+} from '@/lib/fos/repo-helpers';
+import { normalizeProductKey } from './normalize';
+import { ensureProductTaxonomySchema } from './schema';
+import { productRuleMatchSql, rawProductLabelSql } from './sql';
+import type {
+  ProductCategory,
+  ProductCategoryInput,
+  ProductMapping,
+  ProductMappingInput,
+  ProductMatchType,
+  ProductSourceValue,
+} from './types';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const MAX_NAME_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_PRIORITY = 100;
+const MAX_SOURCE_VALUES = 500;
+const MATCH_TYPES: ProductMatchType[] = ['exact', 'contains'];
+
+type ProductActor = Pick<AuthenticatedAppUser, 'id' | 'fullName'>;
+type QueryClient = { query: (text: string, params?: unknown[]) => Promise<{ rows: Record<string, unknown>[]; rowCount: number | null }> };
+
+// ─── Categories ──────────────────────────────────────────────────────────────
+
+export async function listProductCategories(): Promise<ProductCategory[]> {
+  await ensureReady();
+  const [categoryRows, mappingRows, values] = await Promise.all([
+    DatabaseClient.query<Record<string, unknown>>(
+      `
+        SELECT c.*, p.name AS parent_name
+        FROM fos_product_categories c
+        LEFT JOIN fos_product_categories p ON p.id = c.parent_id
+        ORDER BY LOWER(c.name) ASC
+      `
+    ),
+    DatabaseClient.query<Record<string, unknown>>(`SELECT * FROM fos_product_mappings ORDER BY LOWER(pattern) ASC`),
+    querySourceValues(),
+  ]);
+
+  return buildCategoryRecords(categoryRows, mappingRows, values);
+}
+
+export async function getProductCategory(id: string): Promise<ProductCategory | null> {
+  const categories = await listProductCategories();
+  return categories.find((category) => category.id === id) || null;
+}
+
+/** Adds a sector (no parent) or a product under an existing sector. */
+export async function createProductCategory(input: ProductCategoryInput, actor: ProductActor): Promise<ProductCategory> {
+  await ensureReady();
+  const name = normalizeName(input.name);
+  const description = normalizeDescription(input.description);
+
+  const client = await pool.connect();
+  let categoryId: string;
+  try {
+    await client.query('BEGIN');
+    await assertNameAvailable(client, name, null);
+    if (input.parentId) await assertValidParent(client, input.parentId, null);
+
+    const inserted = await client.query<Record<string, unknown>>(
+      `
+        INSERT INTO fos_product_categories (name, parent_id, description, created_by)
+        VALUES ($1, $2, $3, $4)
+        RETURNING id
+      `,
+      [name, input.parentId || null, description, actor.fullName]
+    );
+    categoryId = String(inserted.rows[0].id);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  resetProductTaxonomyCaches();
+  return (await getProductCategory(categoryId))!;
+}
+
+/** Renames a category, moves a product to another sector, or edits its description. */
+export async function updateProductCategory(id: string, input: ProductCategoryInput): Promise<ProductCategory | null> {
+  await ensureReady();
+  const current = await getProductCategory(id);
+  if (!current) return null;
+
+  const name = input.name === undefined ? current.name : normalizeName(input.name);
+  const parentId = input.parentId === undefined ? current.parentId : input.parentId || null;
+  const description = input.description === undefined ? current.description : normalizeDescription(input.description);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    if (name !== current.name) await assertNameAvailable(client, name, id);
+    if (parentId && parentId !== current.parentId) {
+      await assertValidParent(client, parentId, id);
+      if (current.children.length > 0) {
+        throw Object.assign(new Error(`${current.name} is a sector with ${current.children.length} product(s) and cannot sit under another sector.`), {
+          status: 409,
+        });
+      }
+    }
+
+    await client.query(
+      `UPDATE fos_product_categories SET name = $2, parent_id = $3, description = $4, updated_at = NOW() WHERE id = $1`,
+      [id, name, parentId, description]
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  resetProductTaxonomyCaches();
+  return getProductCategory(id);
+}
+
+/** Removes a category and its mapping rules; sectors must be emptied of products first. */
+export async function deleteProductCategory(id: string): Promise<boolean> {
+  await ensureReady();
+  const current = await getProductCategory(id);
+  if (!current) return false;
+  if (current.children.length > 0) {
+    throw Object.assign(new Error(`Move or delete the ${current.children.length} product(s) under ${current.name} first.`), { status: 409 });
+  }
+
+  await DatabaseClient.query(`DELETE FROM fos_product_categories WHERE id = $1`, [id]);
+  resetProductTaxonomyCaches();
+  return true;
+}
+
+// ─── Mapping rules ───────────────────────────────────────────────────────────
+
+/** Adds a rule mapping raw `product_sector` values onto a category; returns the updated category. */
+export async function addProductMapping(input: ProductMappingInput, actor: ProductActor): Promise<ProductCategory | null> {
+  await ensureReady();
+  const pattern = typeof input.pattern === 'string' ? input.pattern.replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH) : '';
+  const patternKey = normalizeProductKey(pattern);
+  if (!patternKey) {
+    throw Object.assign(new Error('Pattern must contain letters or digits.'), { status: 400 });
+  }
+  const matchType = input.matchType === undefined ? 'exact' : input.matchType;
+  if (!MATCH_TYPES.includes(matchType)) {
+    throw Object.assign(new Error(`Match type must be one of: ${MATCH_TYPES.join(', ')}.`), { status: 400 });
+  }
+  const priority = Number.isFinite(input.priority) ? Math.max(-MAX_PRIORITY, Math.min(MAX_PRIORITY, Math.round(input.priority!))) : 0;
+  const categoryId = input.categoryId || '';
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const category = await client.query(`SELECT id FROM fos_product_categories WHERE id::TEXT = $1`, [categoryId]);
+    if (category.rows.length === 0) {
+      throw Object.assign(new Error('Product category not found.'), { status: 404 });
+    }
+    const existing = await client.query(
+      `
+        SELECT c.name
+        FROM fos_product_mappings m
+        JOIN fos_product_categories c ON c.id = m.category_id
+        WHERE m.match_type = $1 AND m.pattern_key = $2
+      `,
+      [matchType, patternKey]
+    );
+    if (existing.rows.length > 0) {
+      throw Object.assign(new Error(`An ${matchType} rule for "${pattern}" already maps to ${String(existing.rows[0].name)}.`), {
+        status: 409,
+        code: 'MAPPING_EXISTS',
+      });
+    }
+    await client.query(
+      `
+        INSERT INTO fos_product_mappings (pattern, pattern_key, match_type, category_id, priority, created_by)
+        VALUES ($1, $2, $3, $4, $5, $6)
+      `,
+      [pattern, patternKey, matchType, categoryId, priority, actor.fullName]
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  resetProductTaxonomyCaches();
+  return getProductCategory(categoryId);
+}
+
+export async function deleteProductMapping(id: string): Promise<boolean> {
+  await ensureReady();
+  const result = await DatabaseClient.query<{ id: string }>(`DELETE FROM fos_product_mappings WHERE id::TEXT = $1 RETURNING id`, [id]);
+  if (result.length === 0) return false;
+  resetProductTaxonomyCaches();
+  return true;
+}
+
+// ─── Source values ───────────────────────────────────────────────────────────
+
+/**
+ * Distinct raw `product_sector` values with their decision counts and the rule
+ * that currently resolves them, busiest first. `unmappedOnly` keeps the values
+ * no rule covers yet.
+ */
+export async function listProductSourceValues(options: { unmappedOnly?: boolean; limit?: number } = {}): Promise<ProductSourceValue[]> {
+  await ensureReady();
+  const limit = Math.max(1, Math.min(options.limit || 100, MAX_SOURCE_VALUES));
+  const values = await querySourceValues();
+  return values.filter((value) => !options.unmappedOnly || !value.mappingId).slice(0, limit);
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────────
+
+async function ensureReady(): Promise<void> {
+  ensureDatabaseConfigured();
+  await ensureProductTaxonomySchema();
+}
+
+async function querySourceValues(): Promise<ProductSourceValue[]> {
+  try {
+    const rows = await DatabaseClient.query<Record<string, unknown>>(
+      `
+        WITH source_values AS (
+          SELECT ${rawProductLabelSql('d.product_sector')} AS value, COUNT(*)::INT AS decision_count
+          FROM fos_decisions d
+          GROUP BY 1
+        )
+        SELECT
+          v.value,
+          v.decision_count,
+          rule.mapping_id,
+          rule.category_id,
+          rule.product_name,
+          rule.sector_name
+        FROM source_values v
+        LEFT JOIN LATERAL (
+          SELECT product_lookup.mapping_id, product_lookup.category_id, product_lookup.product_name, product_lookup.sector_name
+          ${productRuleMatchSql('v.value')}
+        ) rule ON TRUE
+        ORDER BY v.decision_count DESC, v.value ASC
+      `
+    );
+    return rows.map((row) => ({
+      value: String(row.value),
+      decisionCount: toInt(row.decision_count),
+      mappingId: nullableString(row.mapping_id),
+      categoryId: nullableString(row.category_id),
+      productName: nullableString(row.product_name),
+      sectorName: nullableString(row.sector_name),
+    }));
+  } catch (error) {
+    if (isMissingRelationError(error, 'fos_decisions')) return [];
+    throw error;
+  }
+}
+
+function buildCategoryRecords(
+  categoryRows: Record<string, unknown>[],
+  mappingRows: Record<string, unknown>[],
+  values: ProductSourceValue[]
+): ProductCategory[] {
+  const mappingsByCategory = new Map<string, ProductMapping[]>();
+  for (const row of mappingRows) {
+    const categoryId = String(row.category_id);
+    const list = mappingsByCategory.get(categoryId) || [];
+    list.push({
+      id: String(row.id),
+      pattern: String(row.pattern || ''),
+      patternKey: String(row.pattern_key || ''),
+      matchType: String(row.match_type || 'exact') as ProductMatchType,
+      categoryId,
+      priority: toInt(row.priority),
+      createdBy: nullableString(row.created_by),
+      createdAt: toIsoTimestamp(row.created_at) || new Date().toISOString(),
+    });
+    mappingsByCategory.set(categoryId, list);
+  }
+
+  const countsByCategory = new Map<string, number>();
+  for (const value of values) {
+    if (!value.categoryId) continue;
+    countsByCategory.set(value.categoryId, (countsByCategory.get(value.categoryId) || 0) + value.decisionCount);
+  }
+
+  const childrenByParent = new Map<string, Array<{ id: string; name: string }>>();
+  for (const row of categoryRows) {
+    const parentId = nullableString(row.parent_id);
+    if (!parentId) continue;
+    const list = childrenByParent.get(parentId) || [];
+    list.push({ id: String(row.id), name: String(row.name) });
+    childrenByParent.set(parentId, list);
+  }
+
+  return categoryRows.map((row) => {
+    const id = String(row.id);
+    return {
+      id,
+      name: String(row.name),
+      parentId: nullableString(row.parent_id),
+      parentName: nullableString(row.parent_name),
+      description: nullableString(row.description),
+      mappings: mappingsByCategory.get(id) || [],
+      children: (childrenByParent.get(id) || []).sort((a, b) => a.name.localeCompare(b.name)),
+      decisionCount: countsByCategory.get(id) || 0,
+      createdBy: nullableString(row.created_by),
+      createdAt: toIsoTimestamp(row.created_at) || new Date().toISOString(),
+      updatedAt: toIsoTimestamp(row.updated_at) || new Date().toISOString(),
+    };
+  });
+}
+
+async function assertNameAvailable(client: QueryClient, name: string, exceptId: string | null): Promise<void> {
+  const existing = await client.query(
+    `SELECT id FROM fos_product_categories WHERE LOWER(name) = LOWER($1) AND ($2::uuid IS NULL OR id <> $2::uuid) LIMIT 1`,
+    [name, exceptId]
+  );
+  if (existing.rows.length > 0) {
+    throw Object.assign(new Error(`A product category called "${name}" already exists.`), { status: 409, code: 'PRODUCT_CATEGORY_EXISTS' });
+  }
+}
+
+/** The taxonomy is two levels deep: the parent must exist, must be a sector, and cannot be the category itself. */
+async function assertValidParent(client: QueryClient, parentId: string, categoryId: string | null): Promise<void> {
+  if (parentId === categoryId) {
+    throw Object.assign(new Error('A category cannot be its own sector.'), { status: 400 });
+  }
+  const parent = await client.query(`SELECT id, name, parent_id FROM fos_product_categories WHERE id::TEXT = $1`, [parentId]);
+  if (parent.rows.length === 0) {
+    throw Object.assign(new Error('Parent sector not found.'), { status: 404 });
+  }
+  if (parent.rows[0].parent_id) {
+    throw Object.assign(new Error(`${String(parent.rows[0].name)} is a product, not a sector; choose its sector instead.`), { status: 409 });
+  }
+}
+
+function normalizeName(value: unknown): string {
+  const name = typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+  if (!name || !normalizeProductKey(name)) {
+    throw Object.assign(new Error('Category name is required.'), { status: 400 });
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    throw Object.assign(new Error(`Category name must be ${MAX_NAME_LENGTH} characters or fewer.`), { status: 400 });
+  }
+  return name;
+}
+
+function normalizeDescription(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim().slice(0, MAX_DESCRIPTION_LENGTH);
+  return trimmed || null;
+}
@@ -0,0 +1,61 @@
+import { DatabaseClient } from '@/lib/database';
+
+let ensurePromise: Promise<void> | null = null;
+let schemaReady = false;
+
+export async function ensureProductTaxonomySchema(): Promise<void> {
+  if (schemaReady) return;
+  if (!ensurePromise) {
+    ensurePromise = DatabaseClient.query(`
+      CREATE TABLE IF NOT EXISTS fos_product_categories (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name TEXT NOT NULL UNIQUE,
+        parent_id UUID REFERENCES fos_product_categories(id),
+        description TEXT,
+        created_by TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT fos_product_categories_parent_check CHECK (parent_id IS NULL OR parent_id <> id)
+      );
+
+      CREATE INDEX IF NOT EXISTS fos_product_categories_parent_idx
+        ON fos_product_categories (parent_id)
+        WHERE parent_id IS NOT NULL;
+
+      CREATE TABLE IF NOT EXISTS fos_product_mappings (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        pattern TEXT NOT NULL,
+        pattern_key TEXT NOT NULL,
+        match_type TEXT NOT NULL DEFAULT 'exact',
+        category_id UUID NOT NULL REFERENCES fos_product_categories(id) ON DELETE CASCADE,
+        priority INTEGER NOT NULL DEFAULT 0,
+        created_by TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT fos_product_mappings_match_type_check CHECK (match_type IN ('exact', 'contains')),
+        CONSTRAINT fos_product_mappings_pattern_unique UNIQUE (match_type, pattern_key)
+      );
+
+      CREATE INDEX IF NOT EXISTS fos_product_mappings_category_idx
+        ON fos_product_mappings (category_id);
+
+      CREATE OR REPLACE VIEW fos_product_lookup AS
+      SELECT
+        m.id AS mapping_id,
+        m.pattern_key,
+        m.match_type,
+        m.priority,
+        c.id AS category_id,
+        c.name AS product_name,
+        COALESCE(p.name, c.name) AS sector_name
+      FROM fos_product_mappings m
+      JOIN fos_product_categories c ON c.id = m.category_id
+      LEFT JOIN fos_product_categories p ON p.id = c.parent_id;
+    `).then(() => {
+      schemaReady = true;
+    }).finally(() => {
+      ensurePromise = null;
+    });
+  }
+
+  await ensurePromise;
+}
@@ -0,0 +1,46 @@
+import type { ProductLevel } from './types';
+
+// Dependency-free so the offline scripts can build the same labels as the app.
+
+/** The published value as the app has always labelled it; empty values become "Unspecified". */
+export function rawProductLabelSql(column: string): string {
+  return `COALESCE(NULLIF(BTRIM(${column}), ''), 'Unspecified')`;
+}
+
+/** SQL twin of `normalizeProductKey`. */
+export function productKeySql(valueSql: string): string {
+  return `BTRIM(REGEXP_REPLACE(LOWER(${valueSql}), '[^a-z0-9]+', ' ', 'g'))`;
+}
+
+/**
+ * FROM/WHERE/ORDER tail picking the `fos_product_lookup` row (aliased
+ * `product_lookup`) that wins for `valueSql`: exact rules first, then priority,
+ * then the longest pattern.
+ */
+export function productRuleMatchSql(valueSql: string): string {
+  const key = productKeySql(valueSql);
+  return `
+    FROM fos_product_lookup product_lookup
+    WHERE (product_lookup.match_type = 'exact' AND product_lookup.pattern_key = ${key})
+      OR (product_lookup.match_type = 'contains' AND ' ' || ${key} || ' ' LIKE '% ' || product_lookup.pattern_key || ' %')
+    ORDER BY (product_lookup.match_type = 'exact') DESC, product_lookup.priority DESC, LENGTH(product_lookup.pattern_key) DESC
+    LIMIT 1
+  `;
+}
+
+/** Correlated subquery selecting `selectSql` from the winning rule for `valueSql`; NULL when no rule matches. */
+export function productRuleSql(valueSql: string, selectSql: string): string {
+  return `(SELECT ${selectSql} ${productRuleMatchSql(valueSql)})`;
+}
+
+/**
+ * Product label for `column` (a `product_sector` reference). With the taxonomy
+ * in place, mapped values resolve to their product, or at `sector` level to the
+ * product's sector; unmapped values fall through verbatim.
+ */
+export function productLabelSql(column: string, level: ProductLevel, taxonomyAvailable: boolean): string {
+  const raw = rawProductLabelSql(column);
+  if (!taxonomyAvailable) return raw;
+  const selected = level === 'sector' ? 'product_lookup.sector_name' : 'product_lookup.product_name';
+  return `COALESCE(${productRuleSql(raw, selected)}, ${raw})`;
+}
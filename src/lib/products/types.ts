@@ -0,0 +1,59 @@
+/** Which level of the taxonomy a product label resolves to. */
+export type ProductLevel = 'product' | 'sector';
+
+/** `exact` rules match the whole normalised value; `contains` rules match a whole-word phrase inside it. */
+export type ProductMatchType = 'exact' | 'contains';
+
+export interface ProductMapping {
+  id: string;
+  pattern: string;
+  /** Normalised pattern the rule is matched on; see `normalizeProductKey`. */
+  patternKey: string;
+  matchType: ProductMatchType;
+  categoryId: string;
+  priority: number;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * A taxonomy node. The taxonomy is two levels deep: a sector has no parent,
+ * and its products point at it through `parentId`.
+ */
+export interface ProductCategory {
+  id: string;
+  name: string;
+  parentId: string | null;
+  parentName: string | null;
+  description: string | null;
+  mappings: ProductMapping[];
+  children: Array<{ id: string; name: string }>;
+  /** Decisions whose `product_sector` resolves to this category (children excluded). */
+  decisionCount: number;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProductCategoryInput {
+  name?: string;
+  parentId?: string | null;
+  description?: string | null;
+}
+
+export interface ProductMappingInput {
+  pattern?: string;
+  matchType?: ProductMatchType;
+  categoryId?: string;
+  priority?: number;
+}
+
+/** A distinct raw `product_sector` value in the corpus and where the taxonomy currently puts it. */
+export interface ProductSourceValue {
+  value: string;
+  decisionCount: number;
+  mappingId: string | null;
+  categoryId: string | null;
+  productName: string | null;
+  sectorName: string | null;
+}
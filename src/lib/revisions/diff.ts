@@ -0,0 +1,117 @@
+import type { RevisionDiffLine } from './types';
+
+const CONTEXT_LINES = 2;
+const MAX_OUTPUT_LINES = 400;
+// Above this many LCS cells (16 MB) the changed block is shown as removed-then-added instead of aligned.
+const MAX_LCS_CELLS = 8_000_000;
+
+export interface LineDiff {
+  lines: RevisionDiffLine[];
+  added: number;
+  removed: number;
+  truncated: boolean;
+}
+
+/** Line diff of two decision texts. Blank lines and runs of spaces are ignored. */
+export function diffText(before: string | null, after: string | null): LineDiff {
+  const left = toLines(before);
+  const right = toLines(after);
+
+  let prefix = 0;
+  while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) prefix += 1;
+  let suffix = 0;
+  while (
+    suffix < left.length - prefix &&
+    suffix < right.length - prefix &&
+    left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const ops: Array<{ type: 'same' | 'added' | 'removed'; text: string }> = [];
+  for (const text of left.slice(0, prefix)) ops.push({ type: 'same', text });
+  ops.push(...alignMiddle(left.slice(prefix, left.length - suffix), right.slice(prefix, right.length - suffix)));
+  for (const text of left.slice(left.length - suffix)) ops.push({ type: 'same', text });
+
+  const added = ops.filter((op) => op.type === 'added').length;
+  const removed = ops.filter((op) => op.type === 'removed').length;
+  const { lines, truncated } = collapse(ops);
+  return { lines, added, removed, truncated };
+}
+
+function toLines(text: string | null): string[] {
+  return String(text || '')
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+function alignMiddle(left: string[], right: string[]): Array<{ type: 'same' | 'added' | 'removed'; text: string }> {
+  if (left.length === 0 || right.length === 0 || left.length * right.length > MAX_LCS_CELLS) {
+    return [
+      ...left.map((text) => ({ type: 'removed' as const, text })),
+      ...right.map((text) => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  // lengths[i][j] = LCS of left[i..] and right[j..], flattened. The cell cap keeps the shorter side, and so every LCS, under 2^16.
+  const width = right.length + 1;
+  const lengths = new Uint16Array((left.length + 1) * width);
+  for (let i = left.length - 1; i >= 0; i -= 1) {
+    for (let j = right.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        left[i] === right[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: Array<{ type: 'same' | 'added' | 'removed'; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      ops.push({ type: 'same', text: left[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ type: 'removed', text: left[i] });
+      i += 1;
+    } else {
+      ops.push({ type: 'added', text: right[j] });
+      j += 1;
+    }
+  }
+  while (i < left.length) ops.push({ type: 'removed', text: left[i++] });
+  while (j < right.length) ops.push({ type: 'added', text: right[j++] });
+  return ops;
+}
+
+function collapse(ops: Array<{ type: 'same' | 'added' | 'removed'; text: string }>): { lines: RevisionDiffLine[]; truncated: boolean } {
+  const keep = ops.map(() => false);
+  ops.forEach((op, index) => {
+    if (op.type === 'same') return;
+    for (let k = Math.max(0, index - CONTEXT_LINES); k <= Math.min(ops.length - 1, index + CONTEXT_LINES); k += 1) {
+      keep[k] = true;
+    }
+  });
+
+  const lines: RevisionDiffLine[] = [];
+  let skipped = 0;
+  let emitted = 0;
+  for (const [index, op] of ops.entries()) {
+    if (!keep[index]) {
+      skipped += 1;
+      continue;
+    }
+    if (emitted >= MAX_OUTPUT_LINES) return { lines, truncated: true };
+    if (skipped > 0) {
+      lines.push({ type: 'skipped', count: skipped });
+      skipped = 0;
+    }
+    lines.push(op);
+    emitted += 1;
+  }
+  if (skipped > 0 && lines.length > 0) lines.push({ type: 'skipped', count: skipped });
+  return { lines, truncated: false };
+}
@@ -0,0 +1,120 @@
+import { DatabaseClient } from '@/lib/database';
+import {
+  caseIdExpression,
+  ensureDatabaseConfigured,
+  ensureFosDecisionsTableExists,
+  normalizeOutcome,
+  nullableString,
+  parseStringArray,
+  toIsoDate,
+  toIsoTimestamp,
+} from '@/lib/fos/repo-helpers';
+import { diffText } from './diff';
+import { ensureDecisionRevisionsSchema } from './schema';
+import type { DecisionRevision, DecisionRevisionHistory, RevisionField, RevisionFieldChange } from './types';
+
+const VERSION_COLUMNS = `
+  decision_reference,
+  pdf_sha256,
+  decision_date,
+  business_name,
+  product_sector,
+  outcome,
+  ombudsman_name,
+  full_text,
+  complaint_text,
+  firm_response_text,
+  ombudsman_reasoning_text,
+  final_decision_text,
+  precedents,
+  root_cause_tags,
+  vulnerability_flags
+`;
+
+const FIELD_READERS: Array<[RevisionField, (row: Record<string, unknown>) => string | null]> = [
+  ['decisionDate', (row) => toIsoDate(row.decision_date)],
+  ['firmName', (row) => nullableString(row.business_name)],
+  ['productGroup', (row) => nullableString(row.product_sector)],
+  ['outcome', (row) => normalizeOutcome(String(row.outcome || 'unknown'))],
+  ['ombudsmanName', (row) => nullableString(row.ombudsman_name)],
+  ['precedents', (row) => joinTags(row.precedents)],
+  ['rootCauseTags', (row) => joinTags(row.root_cause_tags)],
+  ['vulnerabilityFlags', (row) => joinTags(row.vulnerability_flags)],
+];
+
+/**
+ * Earlier versions of a decision, newest first, each compared with the version
+ * that replaced it. Null when no decision matches `caseId`; a decision that was
+ * never republished has no revisions.
+ */
+export async function getDecisionRevisions(caseId: string): Promise<DecisionRevisionHistory | null> {
+  ensureDatabaseConfigured();
+  await ensureFosDecisionsTableExists();
+  await ensureDecisionRevisionsSchema();
+
+  const current = await DatabaseClient.queryOne<Record<string, unknown>>(
+    `
+      SELECT ${VERSION_COLUMNS}
+      FROM fos_decisions d
+      WHERE ${caseIdExpression('d')} = $1
+         OR d.decision_reference = $1
+         OR COALESCE(d.pdf_sha256, '') = $1
+      LIMIT 1
+    `,
+    [caseId]
+  );
+  if (!current) return null;
+  const reference = nullableString(current.decision_reference);
+  if (!reference) return { decisionReference: caseId, revisions: [] };
+
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT id, replaced_by_sha256, detected_at, ${VERSION_COLUMNS}
+      FROM fos_decision_revisions
+      WHERE decision_reference = $1
+      ORDER BY detected_at ASC, id ASC
+    `,
+    [reference]
+  );
+
+  const revisions = rows.map((row, index) => compareVersions(row, rows[index + 1] || current));
+  return { decisionReference: reference, revisions: revisions.reverse() };
+}
+
+function compareVersions(previous: Record<string, unknown>, next: Record<string, unknown>): DecisionRevision {
+  const fieldChanges: RevisionFieldChange[] = [];
+  for (const [field, read] of FIELD_READERS) {
+    const before = read(previous);
+    const after = read(next);
+    if (before !== after) fieldChanges.push({ field, before, after });
+  }
+
+  // Full text when both versions have it; otherwise the sections, so a version imported without full text still compares.
+  const useFullText = Boolean(nullableString(previous.full_text) && nullableString(next.full_text));
+  const diff = diffText(versionText(previous, useFullText), versionText(next, useFullText));
+
+  return {
+    id: String(previous.id),
+    detectedAt: toIsoTimestamp(previous.detected_at) || new Date(0).toISOString(),
+    previousSha256: String(previous.pdf_sha256 || ''),
+    nextSha256: String(previous.replaced_by_sha256 || ''),
+    fieldChanges,
+    diff: diff.lines,
+    addedLines: diff.added,
+    removedLines: diff.removed,
+    truncated: diff.truncated,
+  };
+}
+
+function versionText(row: Record<string, unknown>, useFullText: boolean): string {
+  if (useFullText) return String(row.full_text || '');
+  return [row.complaint_text, row.firm_response_text, row.ombudsman_reasoning_text, row.final_decision_text]
+    .map(nullableString)
+    .filter(Boolean)
+    .join('\n');
+}
+
+function joinTags(value: unknown): string | null {
+  const tags = parseStringArray(value);
+  return tags.length > 0 ? [...tags].sort((a, b) => a.localeCompare(b)).join(', ') : null;
+}
@@ -0,0 +1,45 @@
+import { DatabaseClient } from '@/lib/database';
+
+let ensurePromise: Promise<void> | null = null;
+let schemaReady = false;
+
+/** Mirrors db/migrations/20260405_fos_decision_revisions.sql. */
+export async function ensureDecisionRevisionsSchema(): Promise<void> {
+  if (schemaReady) return;
+  if (!ensurePromise) {
+    ensurePromise = DatabaseClient.query(`
+      CREATE TABLE IF NOT EXISTS fos_decision_revisions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        decision_reference TEXT NOT NULL,
+        pdf_sha256 TEXT NOT NULL,
+        replaced_by_sha256 TEXT NOT NULL,
+        decision_date DATE,
+        business_name TEXT,
+        product_sector TEXT,
+        outcome TEXT,
+        ombudsman_name TEXT,
+        pdf_url TEXT,
+        full_text TEXT,
+        complaint_text TEXT,
+        firm_response_text TEXT,
+        ombudsman_reasoning_text TEXT,
+        final_decision_text TEXT,
+        decision_summary TEXT,
+        precedents JSONB NOT NULL DEFAULT '[]'::jsonb,
+        root_cause_tags JSONB NOT NULL DEFAULT '[]'::jsonb,
+        vulnerability_flags JSONB NOT NULL DEFAULT '[]'::jsonb,
+        detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT fos_decision_revisions_change_unique UNIQUE (decision_reference, pdf_sha256, replaced_by_sha256)
+      );
+
+      CREATE INDEX IF NOT EXISTS fos_decision_revisions_reference_idx
+        ON fos_decision_revisions (decision_reference, detected_at DESC);
+    `).then(() => {
+      schemaReady = true;
+    }).finally(() => {
+      ensurePromise = null;
+    });
+  }
+
+  await ensurePromise;
+}
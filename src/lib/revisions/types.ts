@@ -0,0 +1,42 @@
+/** Decision fields compared between versions, keyed as in `FOSCaseDetail`. */
+export type RevisionField =
+  | 'decisionDate'
+  | 'firmName'
+  | 'productGroup'
+  | 'outcome'
+  | 'ombudsmanName'
+  | 'precedents'
+  | 'rootCauseTags'
+  | 'vulnerabilityFlags';
+
+export interface RevisionFieldChange {
+  field: RevisionField;
+  before: string | null;
+  after: string | null;
+}
+
+/** One line of a text diff; unchanged stretches away from a change are collapsed into `skipped`. */
+export type RevisionDiffLine =
+  | { type: 'same' | 'added' | 'removed'; text: string }
+  | { type: 'skipped'; count: number };
+
+export interface DecisionRevision {
+  id: string;
+  /** When the import saw the new PDF. */
+  detectedAt: string;
+  previousSha256: string;
+  nextSha256: string;
+  fieldChanges: RevisionFieldChange[];
+  /** The replaced text against the version that replaced it. */
+  diff: RevisionDiffLine[];
+  addedLines: number;
+  removedLines: number;
+  /** The diff was cut off after too many changed lines; the counts still cover all of it. */
+  truncated: boolean;
+}
+
+export interface DecisionRevisionHistory {
+  decisionReference: string;
+  /** Newest first. */
+  revisions: DecisionRevision[];
+}
@@ -0,0 +1,131 @@
+import type { ActiveRiskPolicy, UpholdRiskEstimate, UpholdRiskInterval, UpholdRiskLevel, UpholdRiskThresholds } from './types';
+
+// Pure policy helpers. Kept free of database imports so offline scripts can share them.
+
+export const DEFAULT_UPHOLD_RISK_THRESHOLDS: UpholdRiskThresholds = Object.freeze({
+  veryHigh: 60,
+  high: 45,
+  medium: 30,
+  minimumSampleSize: 10,
+  priorStrength: 10,
+});
+
+export const DEFAULT_RISK_POLICY: ActiveRiskPolicy = Object.freeze({
+  id: null,
+  version: 0,
+  thresholds: DEFAULT_UPHOLD_RISK_THRESHOLDS,
+  effectiveFrom: null,
+});
+
+export const UPHOLD_RISK_LEVELS: UpholdRiskLevel[] = ['insufficient_data', 'low', 'medium', 'high', 'very_high'];
+
+const WILSON_Z_95 = 1.959964;
+
+export function classifyUpholdRisk(
+  upheldRate: number,
+  thresholds: UpholdRiskThresholds = DEFAULT_UPHOLD_RISK_THRESHOLDS
+): UpholdRiskLevel {
+  if (upheldRate >= thresholds.veryHigh) return 'very_high';
+  if (upheldRate >= thresholds.high) return 'high';
+  if (upheldRate >= thresholds.medium) return 'medium';
+  return 'low';
+}
+
+/**
+ * Applies the policy's evidence rules to an observed rate: a Wilson interval
+ * on the raw rate, shrinkage toward the baseline, and `insufficient_data`
+ * when the sample is below the floor. Rates are percentages.
+ */
+export function assessUpholdRisk(
+  input: { upheldRate: number; totalCases: number; baselineUpheldRate?: number | null },
+  thresholds: UpholdRiskThresholds = DEFAULT_UPHOLD_RISK_THRESHOLDS
+): UpholdRiskEstimate {
+  const totalCases = Math.max(0, Math.round(input.totalCases));
+  const upheldRate = clampPercent(input.upheldRate);
+  const baselineUpheldRate = input.baselineUpheldRate == null ? null : clampPercent(input.baselineUpheldRate);
+  const priorStrength = baselineUpheldRate == null ? 0 : thresholds.priorStrength;
+
+  const adjustedUpheldRate = totalCases + priorStrength > 0
+    ? roundRate((totalCases * upheldRate + priorStrength * (baselineUpheldRate ?? 0)) / (totalCases + priorStrength))
+    : upheldRate;
+
+  return {
+    upholdRiskLevel: totalCases < thresholds.minimumSampleSize
+      ? 'insufficient_data'
+      : classifyUpholdRisk(adjustedUpheldRate, thresholds),
+    adjustedUpheldRate,
+    baselineUpheldRate,
+    confidenceInterval: wilsonInterval(upheldRate, totalCases),
+  };
+}
+
+export function wilsonInterval(upheldRate: number, totalCases: number, z = WILSON_Z_95): UpholdRiskInterval {
+  if (totalCases <= 0) return { lower: 0, upper: 100, confidence: 0.95, method: 'wilson' };
+  const p = clampPercent(upheldRate) / 100;
+  const z2 = z * z;
+  const denominator = 1 + z2 / totalCases;
+  const centre = (p + z2 / (2 * totalCases)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / totalCases + z2 / (4 * totalCases * totalCases))) / denominator;
+  return {
+    lower: roundRate(Math.max(0, centre - margin) * 100),
+    upper: roundRate(Math.min(1, centre + margin) * 100),
+    confidence: 0.95,
+    method: 'wilson',
+  };
+}
+
+export function compareUpholdRiskLevels(a: UpholdRiskLevel, b: UpholdRiskLevel): number {
+  return UPHOLD_RISK_LEVELS.indexOf(a) - UPHOLD_RISK_LEVELS.indexOf(b);
+}
+
+/** One-line explanation of the bands behind a level, for tooltips and notes. */
+export function describeRiskPolicy(policy: { version: number; thresholds: UpholdRiskThresholds } | null | undefined): string {
+  const { version, thresholds } = policy || DEFAULT_RISK_POLICY;
+  const source = version > 0 ? `risk policy v${version}` : 'default policy';
+  return `Bands (${source}): very high ≥ ${thresholds.veryHigh}%, high ≥ ${thresholds.high}%, medium ≥ ${thresholds.medium}%; fewer than ${thresholds.minimumSampleSize} decisions is insufficient data.`;
+}
+
+/**
+ * Merges a partial threshold update onto a base and validates the result:
+ * every bound must be a percentage, the bands must strictly ascend, and the
+ * evidence settings must be whole, non-negative counts.
+ */
+export function normalizeUpholdRiskThresholds(
+  input: Partial<Record<keyof UpholdRiskThresholds, unknown>> | null | undefined,
+  base: UpholdRiskThresholds = DEFAULT_UPHOLD_RISK_THRESHOLDS
+): UpholdRiskThresholds {
+  const thresholds: UpholdRiskThresholds = {
+    veryHigh: readThreshold(input?.veryHigh, base.veryHigh, 'veryHigh'),
+    high: readThreshold(input?.high, base.high, 'high'),
+    medium: readThreshold(input?.medium, base.medium, 'medium'),
+    minimumSampleSize: Math.round(readThreshold(input?.minimumSampleSize, base.minimumSampleSize, 'minimumSampleSize')),
+    priorStrength: Math.round(readThreshold(input?.priorStrength, base.priorStrength, 'priorStrength')),
+  };
+
+  if (!(thresholds.medium > 0 && thresholds.medium < thresholds.high && thresholds.high < thresholds.veryHigh && thresholds.veryHigh <= 100)) {
+    throw Object.assign(new Error('Thresholds must satisfy 0 < medium < high < veryHigh <= 100.'), { status: 400 });
+  }
+
+  if (!(thresholds.minimumSampleSize >= 1 && thresholds.minimumSampleSize <= 1000 && thresholds.priorStrength >= 0 && thresholds.priorStrength <= 1000)) {
+    throw Object.assign(new Error('minimumSampleSize must be 1-1000 and priorStrength 0-1000.'), { status: 400 });
+  }
+
+  return thresholds;
+}
+
+function readThreshold(value: unknown, fallback: number, key: keyof UpholdRiskThresholds): number {
+  if (value == null || value === '') return fallback;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw Object.assign(new Error(`Threshold \`${key}\` must be a number.`), { status: 400 });
+  }
+  return Math.round(parsed * 100) / 100;
+}
+
+function clampPercent(value: number): number {
+  return Math.max(0, Math.min(100, Number(value) || 0));
+}
+
+function roundRate(value: number): number {
+  return Math.round(value * 100) / 100;
+}
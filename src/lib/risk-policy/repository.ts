@@ -0,0 +1,582 @@
+import { pool, DatabaseClient } from '@/lib/database';
+import type { AuthenticatedAppUser } from '@/lib/auth/types';
+import {
+  ensureDatabaseConfigured,
+  isMissingRelationError,
+  nullableString,
+  outcomeExpression,
+  parseJsonValue,
+  toInt,
+  toIsoTimestamp,
+  toNumber,
+} from '@/lib/fos/repo-helpers';
+import {
+  DEFAULT_RISK_POLICY,
+  UPHOLD_RISK_LEVELS,
+  assessUpholdRisk,
+  compareUpholdRiskLevels,
+  normalizeUpholdRiskThresholds,
+} from './policy';
+import { ensureRiskPolicySchema } from './schema';
+import type {
+  ActiveRiskPolicy,
+  RiskPolicyDraftInput,
+  RiskPolicyEvent,
+  RiskPolicyEventType,
+  RiskPolicySimulation,
+  RiskPolicySimulationBriefItem,
+  RiskPolicySimulationComplaintItem,
+  RiskPolicySimulationSummary,
+  RiskPolicyState,
+  RiskPolicyStatus,
+  RiskPolicyVersion,
+  UpholdRiskLevel,
+  UpholdRiskThresholds,
+} from './types';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const ACTIVE_POLICY_TTL_MS = 60_000;
+const MAX_NOTES_LENGTH = 2000;
+/** Small allowance so a publish form submitted "now" is not rejected as backdated. */
+const BACKDATE_TOLERANCE_MS = 5 * 60_000;
+const CLOSED_COMPLAINT_STATUSES = ['resolved', 'closed'];
+
+type PolicyActor = Pick<AuthenticatedAppUser, 'id' | 'fullName'>;
+
+// ─── Active policy ───────────────────────────────────────────────────────────
+
+let activePolicyCache: { value: ActiveRiskPolicy; expiresAt: number } | null = null;
+
+/**
+ * The published policy with the latest effective date that has passed.
+ * Falls back to the built-in 60/45/30 bands until a policy is published.
+ */
+export async function getActiveRiskPolicy(): Promise<ActiveRiskPolicy> {
+  if (activePolicyCache && activePolicyCache.expiresAt > Date.now()) {
+    return activePolicyCache.value;
+  }
+
+  ensureDatabaseConfigured();
+  let value: ActiveRiskPolicy = DEFAULT_RISK_POLICY;
+  try {
+    const row = await DatabaseClient.queryOne<Record<string, unknown>>(
+      `
+        SELECT id, version, thresholds, effective_from
+        FROM uphold_risk_policies
+        WHERE status = 'published'
+          AND effective_from <= NOW()
+        ORDER BY effective_from DESC, version DESC
+        LIMIT 1
+      `
+    );
+    if (row) {
+      value = {
+        id: String(row.id),
+        version: toInt(row.version),
+        thresholds: parseThresholds(row.thresholds),
+        effectiveFrom: toIsoTimestamp(row.effective_from),
+      };
+    }
+  } catch (error) {
+    if (!isMissingRelationError(error, 'uphold_risk_policies')) throw error;
+  }
+
+  activePolicyCache = { value, expiresAt: Date.now() + ACTIVE_POLICY_TTL_MS };
+  return value;
+}
+
+export function resetActiveRiskPolicyCache(): void {
+  activePolicyCache = null;
+}
+
+// ─── Versions ────────────────────────────────────────────────────────────────
+
+export async function listRiskPolicies(): Promise<RiskPolicyVersion[]> {
+  await ensureReady();
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `SELECT *, ${EFFECTIVE_FLAG_SQL} FROM uphold_risk_policies ORDER BY version DESC`
+  );
+  const activeId = await findActivePolicyId();
+  return rows.map((row) => mapPolicy(row, activeId));
+}
+
+export async function getRiskPolicy(id: string): Promise<RiskPolicyVersion | null> {
+  await ensureReady();
+  const row = await DatabaseClient.queryOne<Record<string, unknown>>(
+    `SELECT *, ${EFFECTIVE_FLAG_SQL} FROM uphold_risk_policies WHERE id = $1`,
+    [id]
+  );
+  if (!row) return null;
+  return mapPolicy(row, await findActivePolicyId());
+}
+
+/** Starts a new draft from the active thresholds. Only one draft may be open at a time. */
+export async function createRiskPolicyDraft(input: RiskPolicyDraftInput, actor: PolicyActor): Promise<RiskPolicyVersion> {
+  await ensureReady();
+  const active = await getActiveRiskPolicy();
+  const thresholds = normalizeUpholdRiskThresholds(input.thresholds, active.thresholds);
+  const notes = normalizeNotes(input.notes);
+
+  const client = await pool.connect();
+  let policyId: string;
+  try {
+    await client.query('BEGIN');
+    await client.query('LOCK TABLE uphold_risk_policies IN SHARE ROW EXCLUSIVE MODE');
+    const openDraft = await client.query(`SELECT id FROM uphold_risk_policies WHERE status = 'draft' LIMIT 1`);
+    if (openDraft.rows.length > 0) {
+      throw Object.assign(new Error('A draft risk policy already exists. Publish or discard it first.'), {
+        status: 409,
+        code: 'DRAFT_EXISTS',
+      });
+    }
+
+    const inserted = await client.query<Record<string, unknown>>(
+      `
+        INSERT INTO uphold_risk_policies (version, status, thresholds, notes, created_by)
+        SELECT COALESCE(MAX(version), 0) + 1, 'draft', $1::jsonb, $2, $3
+        FROM uphold_risk_policies
+        RETURNING id
+      `,
+      [JSON.stringify(thresholds), notes, actor.fullName]
+    );
+    policyId = String(inserted.rows[0].id);
+    await insertEvent(client, {
+      policyId,
+      eventType: 'draft_created',
+      actor,
+      previousThresholds: active.thresholds,
+      thresholds,
+      notes,
+    });
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return (await getRiskPolicy(policyId))!;
+}
+
+export async function updateRiskPolicyDraft(
+  id: string,
+  input: RiskPolicyDraftInput,
+  actor: PolicyActor
+): Promise<RiskPolicyVersion | null> {
+  await ensureReady();
+  const current = await getRiskPolicy(id);
+  if (!current) return null;
+  assertDraft(current);
+
+  const thresholds = normalizeUpholdRiskThresholds(input.thresholds, current.thresholds);
+  const notes = input.notes === undefined ? current.notes : normalizeNotes(input.notes);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const updated = await client.query(
+      `
+        UPDATE uphold_risk_policies
+        SET thresholds = $2::jsonb, notes = $3, updated_at = NOW()
+        WHERE id = $1 AND status = 'draft'
+      `,
+      [id, JSON.stringify(thresholds), notes]
+    );
+    if (updated.rowCount === 0) {
+      throw Object.assign(new Error('Only draft risk policies can be edited.'), { status: 409 });
+    }
+    await insertEvent(client, {
+      policyId: id,
+      eventType: 'draft_updated',
+      actor,
+      previousThresholds: current.thresholds,
+      thresholds,
+      notes,
+    });
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return getRiskPolicy(id);
+}
+
+/**
+ * Publishes a draft. `effectiveFrom` defaults to now; a future date schedules
+ * the version, and the current policy stays in force until then.
+ */
+export async function publishRiskPolicy(
+  id: string,
+  options: { effectiveFrom?: string | null },
+  actor: PolicyActor
+): Promise<RiskPolicyVersion | null> {
+  await ensureReady();
+  const current = await getRiskPolicy(id);
+  if (!current) return null;
+  assertDraft(current);
+
+  const effectiveFrom = options.effectiveFrom ? new Date(options.effectiveFrom) : new Date();
+  if (Number.isNaN(effectiveFrom.getTime())) {
+    throw Object.assign(new Error('`effectiveFrom` must be a valid date.'), { status: 400 });
+  }
+  if (effectiveFrom.getTime() < Date.now() - BACKDATE_TOLERANCE_MS) {
+    throw Object.assign(new Error('Risk policies cannot be backdated.'), { status: 400 });
+  }
+
+  const previous = await getActiveRiskPolicy();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const updated = await client.query(
+      `
+        UPDATE uphold_risk_policies
+        SET status = 'published',
+            effective_from = $2,
+            published_by = $3,
+            published_at = NOW(),
+            updated_at = NOW()
+        WHERE id = $1 AND status = 'draft'
+      `,
+      [id, effectiveFrom.toISOString(), actor.fullName]
+    );
+    if (updated.rowCount === 0) {
+      throw Object.assign(new Error('Only draft risk policies can be published.'), { status: 409 });
+    }
+    await insertEvent(client, {
+      policyId: id,
+      eventType: 'published',
+      actor,
+      previousThresholds: previous.thresholds,
+      thresholds: current.thresholds,
+      notes: current.notes,
+    });
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  resetActiveRiskPolicyCache();
+  return getRiskPolicy(id);
+}
+
+export async function discardRiskPolicyDraft(id: string, actor: PolicyActor): Promise<RiskPolicyVersion | null> {
+  await ensureReady();
+  const current = await getRiskPolicy(id);
+  if (!current) return null;
+  assertDraft(current);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `UPDATE uphold_risk_policies SET status = 'discarded', updated_at = NOW() WHERE id = $1 AND status = 'draft'`,
+      [id]
+    );
+    await insertEvent(client, {
+      policyId: id,
+      eventType: 'discarded',
+      actor,
+      previousThresholds: null,
+      thresholds: current.thresholds,
+      notes: current.notes,
+    });
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return getRiskPolicy(id);
+}
+
+// ─── Audit log ───────────────────────────────────────────────────────────────
+
+export async function listRiskPolicyEvents(options: { policyId?: string | null; limit?: number } = {}): Promise<RiskPolicyEvent[]> {
+  await ensureReady();
+  const limit = Math.max(1, Math.min(options.limit || 100, 500));
+  const params: unknown[] = [limit];
+  let where = '';
+  if (options.policyId) {
+    params.push(options.policyId);
+    where = `WHERE e.policy_id = $2`;
+  }
+
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT e.*, p.version
+      FROM uphold_risk_policy_events e
+      JOIN uphold_risk_policies p ON p.id = e.policy_id
+      ${where}
+      ORDER BY e.created_at DESC
+      LIMIT $1
+    `,
+    params
+  );
+  return rows.map(mapEvent);
+}
+
+// ─── Simulator ───────────────────────────────────────────────────────────────
+
+/**
+ * Reclassifies every stored advisor brief and every open complaint under the
+ * proposed thresholds and compares the result with the active policy. Open
+ * complaints use the same brief lookup as letter intelligence: the exact
+ * product + root cause brief, else the product-wide brief.
+ */
+export async function simulateRiskPolicy(proposed: UpholdRiskThresholds): Promise<RiskPolicySimulation> {
+  ensureDatabaseConfigured();
+  const baseline = await getActiveRiskPolicy();
+
+  const briefRows = await queryOrEmpty(
+    'fos_advisor_briefs',
+    `
+      SELECT product, root_cause, total_cases, upheld_rate
+      FROM fos_advisor_briefs
+      WHERE total_cases > 0
+      ORDER BY product ASC, root_cause ASC NULLS FIRST
+    `
+  );
+
+  const [overallRow] = await queryOrEmpty(
+    'fos_decisions',
+    `SELECT ROUND(100.0 * COUNT(*) FILTER (WHERE ${outcomeExpression('d')} = 'upheld') / NULLIF(COUNT(*), 0), 2) AS rate FROM fos_decisions d`
+  );
+  const overallUpheldRate = overallRow?.rate == null ? null : toNumber(overallRow.rate);
+  const productRates = new Map(
+    briefRows.filter((row) => row.root_cause == null).map((row) => [String(row.product || ''), toNumber(row.upheld_rate)])
+  );
+
+  // Same baselines as the advisor: product-wide brief for root-cause briefs, the corpus for product briefs.
+  const briefItems: RiskPolicySimulationBriefItem[] = briefRows.map((row) => {
+    const product = String(row.product || '');
+    const rootCause = nullableString(row.root_cause);
+    const upheldRate = toNumber(row.upheld_rate);
+    const totalCases = toInt(row.total_cases);
+    const baselineUpheldRate = rootCause ? productRates.get(product) ?? overallUpheldRate : overallUpheldRate;
+    const evidence = { upheldRate, totalCases, baselineUpheldRate };
+    return {
+      product,
+      rootCause,
+      totalCases,
+      upheldRate,
+      currentLevel: assessUpholdRisk(evidence, baseline.thresholds).upholdRiskLevel,
+      proposedLevel: assessUpholdRisk(evidence, proposed).upholdRiskLevel,
+    };
+  });
+
+  const briefIndex = new Map(briefItems.map((item) => [briefKey(item.product, item.rootCause), item]));
+
+  const complaintRows = await queryOrEmpty(
+    'complaints_records',
+    `
+      SELECT id, complaint_reference, status, BTRIM(product) AS product, NULLIF(BTRIM(root_cause), '') AS root_cause
+      FROM complaints_records
+      WHERE status <> ALL($1::text[])
+        AND NULLIF(BTRIM(product), '') IS NOT NULL
+      ORDER BY received_date DESC, complaint_reference ASC
+    `,
+    [CLOSED_COMPLAINT_STATUSES]
+  );
+
+  let unclassified = 0;
+  const complaintItems: RiskPolicySimulationComplaintItem[] = [];
+  for (const row of complaintRows) {
+    const product = String(row.product || '');
+    const rootCause = nullableString(row.root_cause);
+    const exact = rootCause ? briefIndex.get(briefKey(product, rootCause)) : undefined;
+    const brief = exact || briefIndex.get(briefKey(product, null));
+    if (!brief) {
+      unclassified += 1;
+      continue;
+    }
+    complaintItems.push({
+      complaintId: String(row.id),
+      complaintReference: String(row.complaint_reference || ''),
+      status: String(row.status || ''),
+      product,
+      rootCause,
+      briefScope: exact ? 'product_root_cause' : 'product_only',
+      upheldRate: brief.upheldRate,
+      currentLevel: brief.currentLevel,
+      proposedLevel: brief.proposedLevel,
+    });
+  }
+
+  return {
+    baseline,
+    proposed,
+    briefs: { ...summarizeReclassification(briefItems), items: briefItems },
+    openComplaints: { ...summarizeReclassification(complaintItems), items: complaintItems, unclassified },
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────────
+
+const EFFECTIVE_FLAG_SQL = `(status = 'published' AND effective_from <= NOW()) AS is_effective`;
+
+async function ensureReady(): Promise<void> {
+  ensureDatabaseConfigured();
+  await ensureRiskPolicySchema();
+}
+
+async function findActivePolicyId(): Promise<string | null> {
+  const row = await DatabaseClient.queryOne<{ id: string }>(
+    `
+      SELECT id
+      FROM uphold_risk_policies
+      WHERE status = 'published' AND effective_from <= NOW()
+      ORDER BY effective_from DESC, version DESC
+      LIMIT 1
+    `
+  );
+  return row ? String(row.id) : null;
+}
+
+async function queryOrEmpty(relation: string, sql: string, params: unknown[] = []): Promise<Record<string, unknown>[]> {
+  try {
+    return await DatabaseClient.query<Record<string, unknown>>(sql, params);
+  } catch (error) {
+    if (isMissingRelationError(error, relation)) return [];
+    throw error;
+  }
+}
+
+async function insertEvent(
+  client: { query: (text: string, params?: unknown[]) => Promise<unknown> },
+  event: {
+    policyId: string;
+    eventType: RiskPolicyEventType;
+    actor: PolicyActor;
+    previousThresholds: UpholdRiskThresholds | null;
+    thresholds: UpholdRiskThresholds;
+    notes: string | null;
+  }
+): Promise<void> {
+  await client.query(
+    `
+      INSERT INTO uphold_risk_policy_events (
+        policy_id, event_type, actor_id, actor_name, previous_thresholds, thresholds, notes
+      ) VALUES ($1, $2, $3, $4, $5::jsonb, $6::jsonb, $7)
+    `,
+    [
+      event.policyId,
+      event.eventType,
+      event.actor.id,
+      event.actor.fullName,
+      event.previousThresholds ? JSON.stringify(event.previousThresholds) : null,
+      JSON.stringify(event.thresholds),
+      event.notes,
+    ]
+  );
+}
+
+function assertDraft(policy: RiskPolicyVersion): void {
+  if (policy.status !== 'draft') {
+    throw Object.assign(new Error(`Risk policy v${policy.version} is ${policy.status} and can no longer change.`), { status: 409 });
+  }
+}
+
+function normalizeNotes(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim().slice(0, MAX_NOTES_LENGTH);
+  return trimmed || null;
+}
+
+function briefKey(product: string, rootCause: string | null): string {
+  return `${product}\u0000${rootCause ?? ''}`;
+}
+
+function summarizeReclassification(
+  items: Array<{ currentLevel: UpholdRiskLevel; proposedLevel: UpholdRiskLevel }>
+): RiskPolicySimulationSummary {
+  const emptyCounts = () => Object.fromEntries(UPHOLD_RISK_LEVELS.map((level) => [level, 0])) as Record<UpholdRiskLevel, number>;
+  const current = emptyCounts();
+  const proposed = emptyCounts();
+  const transitions = new Map<string, { from: UpholdRiskLevel; to: UpholdRiskLevel; count: number }>();
+  let escalated = 0;
+  let deescalated = 0;
+
+  for (const item of items) {
+    current[item.currentLevel] += 1;
+    proposed[item.proposedLevel] += 1;
+    const direction = compareUpholdRiskLevels(item.proposedLevel, item.currentLevel);
+    if (direction === 0) continue;
+    if (direction > 0) escalated += 1;
+    else deescalated += 1;
+    const key = `${item.currentLevel}->${item.proposedLevel}`;
+    const entry = transitions.get(key) || { from: item.currentLevel, to: item.proposedLevel, count: 0 };
+    entry.count += 1;
+    transitions.set(key, entry);
+  }
+
+  return {
+    total: items.length,
+    changed: escalated + deescalated,
+    escalated,
+    deescalated,
+    transitions: Array.from(transitions.values()).sort((a, b) => b.count - a.count),
+    levelCounts: { current, proposed },
+  };
+}
+
+function parseThresholds(value: unknown): UpholdRiskThresholds {
+  const parsed = parseJsonValue<Partial<UpholdRiskThresholds>>(value) || {};
+  return {
+    veryHigh: toNumber(parsed.veryHigh, DEFAULT_RISK_POLICY.thresholds.veryHigh),
+    high: toNumber(parsed.high, DEFAULT_RISK_POLICY.thresholds.high),
+    medium: toNumber(parsed.medium, DEFAULT_RISK_POLICY.thresholds.medium),
+    minimumSampleSize: toInt(parsed.minimumSampleSize, DEFAULT_RISK_POLICY.thresholds.minimumSampleSize),
+    priorStrength: toInt(parsed.priorStrength, DEFAULT_RISK_POLICY.thresholds.priorStrength),
+  };
+}
+
+function mapPolicy(row: Record<string, unknown>, activeId: string | null): RiskPolicyVersion {
+  const id = String(row.id);
+  const status = String(row.status || 'draft') as RiskPolicyStatus;
+  let state: RiskPolicyState = status === 'published' ? 'superseded' : status;
+  if (status === 'published') {
+    if (id === activeId) state = 'active';
+    else if (row.is_effective !== true) state = 'scheduled';
+  }
+
+  return {
+    id,
+    version: toInt(row.version),
+    status,
+    state,
+    thresholds: parseThresholds(row.thresholds),
+    notes: nullableString(row.notes),
+    effectiveFrom: toIsoTimestamp(row.effective_from),
+    createdBy: nullableString(row.created_by),
+    publishedBy: nullableString(row.published_by),
+    publishedAt: toIsoTimestamp(row.published_at),
+    createdAt: toIsoTimestamp(row.created_at) || new Date().toISOString(),
+    updatedAt: toIsoTimestamp(row.updated_at) || new Date().toISOString(),
+  };
+}
+
+function mapEvent(row: Record<string, unknown>): RiskPolicyEvent {
+  return {
+    id: String(row.id),
+    policyId: String(row.policy_id),
+    version: toInt(row.version),
+    eventType: String(row.event_type) as RiskPolicyEventType,
+    actorId: nullableString(row.actor_id),
+    actorName: nullableString(row.actor_name),
+    previousThresholds: row.previous_thresholds == null ? null : parseThresholds(row.previous_thresholds),
+    thresholds: parseThresholds(row.thresholds),
+    notes: nullableString(row.notes),
+    createdAt: toIsoTimestamp(row.created_at) || new Date().toISOString(),
+  };
+}
@@ -0,0 +1,136 @@
+export type UpholdRiskLevel = 'insufficient_data' | 'low' | 'medium' | 'high' | 'very_high';
+
+/**
+ * Lower bounds (upheld rate, percent) for each band above `low`, plus the
+ * evidence rules applied before a band is assigned.
+ */
+export interface UpholdRiskThresholds {
+  veryHigh: number;
+  high: number;
+  medium: number;
+  /** Fewest comparable decisions needed for a band; smaller samples are `insufficient_data`. */
+  minimumSampleSize: number;
+  /** Weight, in pseudo-decisions, of the baseline rate blended into the observed rate. `0` disables shrinkage. */
+  priorStrength: number;
+}
+
+/** Two-sided Wilson score interval around the observed upheld rate, in percent. */
+export interface UpholdRiskInterval {
+  lower: number;
+  upper: number;
+  confidence: number;
+  method: 'wilson';
+}
+
+export interface UpholdRiskEstimate {
+  upholdRiskLevel: UpholdRiskLevel;
+  /** Observed rate shrunk toward `baselineUpheldRate`; the band is read from this value. */
+  adjustedUpheldRate: number;
+  /** Product-wide rate for root-cause scopes, the corpus rate for product scopes. */
+  baselineUpheldRate: number | null;
+  confidenceInterval: UpholdRiskInterval;
+}
+
+export type RiskPolicyStatus = 'draft' | 'published' | 'discarded';
+
+/**
+ * Derived lifecycle state. `published` versions are `scheduled` until their
+ * effective date, `active` while they are the latest effective version and
+ * `superseded` afterwards.
+ */
+export type RiskPolicyState = 'draft' | 'scheduled' | 'active' | 'superseded' | 'discarded';
+
+export interface RiskPolicyVersion {
+  id: string;
+  version: number;
+  status: RiskPolicyStatus;
+  state: RiskPolicyState;
+  thresholds: UpholdRiskThresholds;
+  notes: string | null;
+  effectiveFrom: string | null;
+  createdBy: string | null;
+  publishedBy: string | null;
+  publishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The policy consumers classify with; version `0` is the built-in default used before anything is published. */
+export interface ActiveRiskPolicy {
+  id: string | null;
+  version: number;
+  thresholds: UpholdRiskThresholds;
+  effectiveFrom: string | null;
+}
+
+export type RiskPolicyEventType = 'draft_created' | 'draft_updated' | 'published' | 'discarded';
+
+export interface RiskPolicyEvent {
+  id: string;
+  policyId: string;
+  version: number;
+  eventType: RiskPolicyEventType;
+  actorId: string | null;
+  actorName: string | null;
+  previousThresholds: UpholdRiskThresholds | null;
+  thresholds: UpholdRiskThresholds;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface RiskPolicyDraftInput {
+  thresholds?: Partial<UpholdRiskThresholds>;
+  notes?: string | null;
+}
+
+export interface RiskPolicyLevelTransition {
+  from: UpholdRiskLevel;
+  to: UpholdRiskLevel;
+  count: number;
+}
+
+export interface RiskPolicySimulationBriefItem {
+  product: string;
+  rootCause: string | null;
+  totalCases: number;
+  upheldRate: number;
+  currentLevel: UpholdRiskLevel;
+  proposedLevel: UpholdRiskLevel;
+}
+
+export interface RiskPolicySimulationComplaintItem {
+  complaintId: string;
+  complaintReference: string;
+  status: string;
+  product: string;
+  rootCause: string | null;
+  /** Which advisor brief supplied the rate: the exact product + root cause pair or the product-wide brief. */
+  briefScope: 'product_root_cause' | 'product_only';
+  upheldRate: number;
+  currentLevel: UpholdRiskLevel;
+  proposedLevel: UpholdRiskLevel;
+}
+
+export interface RiskPolicySimulationSummary {
+  total: number;
+  changed: number;
+  escalated: number;
+  deescalated: number;
+  transitions: RiskPolicyLevelTransition[];
+  levelCounts: {
+    current: Record<UpholdRiskLevel, number>;
+    proposed: Record<UpholdRiskLevel, number>;
+  };
+}
+
+export interface RiskPolicySimulation {
+  baseline: ActiveRiskPolicy;
+  proposed: UpholdRiskThresholds;
+  briefs: RiskPolicySimulationSummary & { items: RiskPolicySimulationBriefItem[] };
+  openComplaints: RiskPolicySimulationSummary & {
+    items: RiskPolicySimulationComplaintItem[];
+    /** Open complaints with a product but no advisor brief to classify against. */
+    unclassified: number;
+  };
+  generatedAt: string;
+}
@@ -0,0 +1,549 @@
+import { DatabaseClient } from '@/lib/database';
+import {
+  DEFAULT_PAGE_SIZE,
+  buildWhereClause,
+  caseIdExpression,
+  ensureDatabaseConfigured,
+  ensureFosDecisionsTableExists,
+  nullableString,
+  outcomeExpression,
+  parseFilters,
+  parseStringArray,
+  toInt,
+  toIsoDate,
+  toIsoTimestamp,
+} from '@/lib/fos/repo-helpers';
+import type { FOSDashboardFilters, FOSOutcome } from '@/lib/fos/types';
+import { ensureSavedSearchesSchema } from './schema';
+import type {
+  FOSSavedSearch,
+  FOSSavedSearchAlert,
+  FOSSavedSearchDigest,
+  FOSSavedSearchDigestDecision,
+  FOSSavedSearchDigestEntry,
+  FOSSavedSearchFilters,
+  FOSSavedSearchInput,
+} from './types';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const MAX_SAVED_SEARCHES_PER_USER = 25;
+const MAX_NAME_LENGTH = 120;
+const ALERT_SAMPLE_SIZE = 5;
+const DEFAULT_ALERT_FEED_LIMIT = 50;
+const DEFAULT_DIGEST_DECISIONS_PER_SEARCH = 50;
+
+// ─── Filters ─────────────────────────────────────────────────────────────────
+
+/**
+ * Normalises a client-supplied filter object through `parseFilters`, so saved
+ * searches store exactly what the dashboard routes would apply.
+ */
+export function normalizeSavedSearchFilters(input: unknown): FOSSavedSearchFilters {
+  const source = input && typeof input === 'object' && !Array.isArray(input) ? (input as Record<string, unknown>) : {};
+  const params = new URLSearchParams();
+  if (typeof source.query === 'string') params.set('query', source.query);
+  if (typeof source.firmLevel === 'string') params.set('firmLevel', source.firmLevel);
+  for (const [key, param] of [
+    ['years', 'year'],
+    ['outcomes', 'outcome'],
+    ['products', 'product'],
+    ['firms', 'firm'],
+    ['ombudsmen', 'ombudsman'],
+    ['tags', 'tag'],
+  ] as const) {
+    const values = Array.isArray(source[key]) ? (source[key] as unknown[]) : [];
+    values.forEach((value) => {
+      if (typeof value === 'string' || typeof value === 'number') params.append(param, String(value));
+    });
+  }
+
+  const { query, years, outcomes, products, firms, firmLevel, ombudsmen, tags } = parseFilters(params);
+  return { query, years, outcomes, products, firms, firmLevel, ombudsmen, tags };
+}
+
+export function hasSavedSearchScope(filters: FOSSavedSearchFilters): boolean {
+  return (
+    Boolean(filters.query) ||
+    filters.years.length > 0 ||
+    filters.outcomes.length > 0 ||
+    filters.products.length > 0 ||
+    filters.firms.length > 0 ||
+    filters.ombudsmen.length > 0 ||
+    filters.tags.length > 0
+  );
+}
+
+// ─── Saved searches ──────────────────────────────────────────────────────────
+
+export async function listSavedSearches(userId: string): Promise<FOSSavedSearch[]> {
+  await ensureReady();
+  await syncSavedSearchAlerts(userId);
+
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT
+        s.*,
+        (
+          SELECT COUNT(*)::INT
+          FROM fos_saved_search_alerts a
+          WHERE a.saved_search_id = s.id
+            AND a.read_at IS NULL
+        ) AS unread_alert_count
+      FROM fos_saved_searches s
+      WHERE s.user_id = $1
+      ORDER BY s.updated_at DESC
+    `,
+    [userId]
+  );
+
+  return Promise.all(
+    rows.map(async (row) => {
+      const filters = normalizeSavedSearchFilters(row.filters);
+      const newSinceLastViewed = await countDecisionsImportedSince(filters, row.last_viewed_at);
+      return mapSavedSearch(row, newSinceLastViewed);
+    })
+  );
+}
+
+export async function getSavedSearch(userId: string, savedSearchId: string): Promise<FOSSavedSearch | null> {
+  await ensureReady();
+  const row = await DatabaseClient.queryOne<Record<string, unknown>>(
+    `
+      SELECT
+        s.*,
+        (
+          SELECT COUNT(*)::INT
+          FROM fos_saved_search_alerts a
+          WHERE a.saved_search_id = s.id
+            AND a.read_at IS NULL
+        ) AS unread_alert_count
+      FROM fos_saved_searches s
+      WHERE s.id = $1
+        AND s.user_id = $2
+    `,
+    [savedSearchId, userId]
+  );
+  if (!row) return null;
+
+  const filters = normalizeSavedSearchFilters(row.filters);
+  return mapSavedSearch(row, await countDecisionsImportedSince(filters, row.last_viewed_at));
+}
+
+export async function createSavedSearch(userId: string, input: FOSSavedSearchInput): Promise<FOSSavedSearch> {
+  await ensureReady();
+  const name = normalizeName(input.name);
+  const filters = normalizeSavedSearchFilters(input.filters);
+  if (!hasSavedSearchScope(filters)) {
+    throw Object.assign(new Error('Apply at least one filter or search term before saving.'), { status: 400 });
+  }
+
+  const existing = await DatabaseClient.queryOne<{ total: number; name_taken: boolean }>(
+    `
+      SELECT
+        COUNT(*)::INT AS total,
+        COALESCE(BOOL_OR(LOWER(name) = LOWER($2)), FALSE) AS name_taken
+      FROM fos_saved_searches
+      WHERE user_id = $1
+    `,
+    [userId, name]
+  );
+  if (existing?.name_taken) {
+    throw createDuplicateNameError(name);
+  }
+  if (toInt(existing?.total) >= MAX_SAVED_SEARCHES_PER_USER) {
+    throw Object.assign(new Error(`You can keep up to ${MAX_SAVED_SEARCHES_PER_USER} saved searches.`), { status: 409 });
+  }
+
+  const row = await DatabaseClient.queryOne<Record<string, unknown>>(
+    `
+      INSERT INTO fos_saved_searches (user_id, name, filters, alerts_enabled)
+      VALUES ($1, $2, $3::jsonb, $4)
+      RETURNING *
+    `,
+    [userId, name, JSON.stringify(filters), input.alertsEnabled !== false]
+  );
+  if (!row) throw new Error('Failed to save search.');
+  return mapSavedSearch({ ...row, unread_alert_count: 0 }, 0);
+}
+
+export async function updateSavedSearch(
+  userId: string,
+  savedSearchId: string,
+  input: FOSSavedSearchInput
+): Promise<FOSSavedSearch | null> {
+  await ensureReady();
+  const name = input.name !== undefined ? normalizeName(input.name) : null;
+  const filters = input.filters !== undefined ? normalizeSavedSearchFilters(input.filters) : null;
+  if (filters && !hasSavedSearchScope(filters)) {
+    throw Object.assign(new Error('A saved search needs at least one filter or search term.'), { status: 400 });
+  }
+  if (name) {
+    const clash = await DatabaseClient.queryOne<{ id: string }>(
+      `SELECT id FROM fos_saved_searches WHERE user_id = $1 AND LOWER(name) = LOWER($2) AND id <> $3`,
+      [userId, name, savedSearchId]
+    );
+    if (clash) throw createDuplicateNameError(name);
+  }
+
+  const row = await DatabaseClient.queryOne<{ id: string }>(
+    `
+      UPDATE fos_saved_searches
+      SET
+        name = COALESCE($3, name),
+        filters = COALESCE($4::jsonb, filters),
+        alerts_enabled = COALESCE($5, alerts_enabled),
+        updated_at = NOW()
+      WHERE id = $1
+        AND user_id = $2
+      RETURNING id
+    `,
+    [
+      savedSearchId,
+      userId,
+      name,
+      filters ? JSON.stringify(filters) : null,
+      typeof input.alertsEnabled === 'boolean' ? input.alertsEnabled : null,
+    ]
+  );
+  if (!row) return null;
+  return getSavedSearch(userId, savedSearchId);
+}
+
+/** Resets the "new since you last looked" counter and clears the search's unread alerts. */
+export async function markSavedSearchViewed(userId: string, savedSearchId: string): Promise<FOSSavedSearch | null> {
+  await ensureReady();
+  const row = await DatabaseClient.queryOne<{ id: string }>(
+    `
+      UPDATE fos_saved_searches
+      SET last_viewed_at = NOW()
+      WHERE id = $1
+        AND user_id = $2
+      RETURNING id
+    `,
+    [savedSearchId, userId]
+  );
+  if (!row) return null;
+
+  await DatabaseClient.query(
+    `
+      UPDATE fos_saved_search_alerts
+      SET read_at = NOW()
+      WHERE saved_search_id = $1
+        AND user_id = $2
+        AND read_at IS NULL
+    `,
+    [savedSearchId, userId]
+  );
+  return getSavedSearch(userId, savedSearchId);
+}
+
+export async function deleteSavedSearch(userId: string, savedSearchId: string): Promise<boolean> {
+  await ensureReady();
+  const row = await DatabaseClient.queryOne<{ id: string }>(
+    `DELETE FROM fos_saved_searches WHERE id = $1 AND user_id = $2 RETURNING id`,
+    [savedSearchId, userId]
+  );
+  return Boolean(row);
+}
+
+// ─── Alerts ──────────────────────────────────────────────────────────────────
+
+/**
+ * Materialises feed alerts for ingestion runs that finished since each
+ * watchlist was last checked. A run only counts decisions first imported
+ * inside its window, so re-imports of existing references never alert.
+ */
+export async function syncSavedSearchAlerts(userId: string): Promise<number> {
+  await ensureReady();
+  const runsTable = await DatabaseClient.queryOne<{ exists: boolean }>(
+    `SELECT to_regclass('public.fos_ingestion_runs') IS NOT NULL AS exists`
+  );
+  if (!runsTable?.exists) return 0;
+
+  const searches = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT s.id, s.filters, s.created_at, s.last_alert_check_at, latest.finished_at AS latest_finished_at
+      FROM fos_saved_searches s
+      CROSS JOIN LATERAL (
+        SELECT MAX(r.finished_at)::TIMESTAMPTZ AS finished_at
+        FROM fos_ingestion_runs r
+        WHERE r.finished_at IS NOT NULL
+      ) latest
+      WHERE s.user_id = $1
+        AND s.alerts_enabled = TRUE
+        AND latest.finished_at > s.last_alert_check_at
+    `,
+    [userId]
+  );
+
+  let created = 0;
+  for (const search of searches) {
+    const filters = normalizeSavedSearchFilters(search.filters);
+    const matching = buildMatchingDecisionsCte(filters, 3);
+    const runs = await DatabaseClient.query<Record<string, unknown>>(
+      `
+        WITH ${matching.cteSql},
+        runs AS (
+          SELECT
+            r.id,
+            GREATEST(r.started_at::TIMESTAMPTZ, $1::TIMESTAMPTZ) AS window_start,
+            r.finished_at::TIMESTAMPTZ AS window_end
+          FROM fos_ingestion_runs r
+          WHERE r.finished_at IS NOT NULL
+            AND r.finished_at::TIMESTAMPTZ > $2::TIMESTAMPTZ
+        )
+        SELECT
+          runs.id::TEXT AS run_id,
+          runs.window_start,
+          runs.window_end,
+          COUNT(*)::INT AS new_decision_count,
+          (ARRAY_AGG(m.case_id ORDER BY m.decision_date DESC NULLS LAST))[1:${ALERT_SAMPLE_SIZE}] AS sample_case_ids
+        FROM runs
+        JOIN matching m
+          ON m.created_at::TIMESTAMPTZ > runs.window_start
+         AND m.created_at::TIMESTAMPTZ <= runs.window_end
+        GROUP BY runs.id, runs.window_start, runs.window_end
+      `,
+      [search.created_at, search.last_alert_check_at, ...matching.params]
+    );
+
+    for (const run of runs) {
+      const inserted = await DatabaseClient.queryOne<{ id: string }>(
+        `
+          INSERT INTO fos_saved_search_alerts (
+            saved_search_id,
+            user_id,
+            ingestion_run_id,
+            new_decision_count,
+            sample_case_ids,
+            window_start,
+            window_end
+          ) VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7)
+          ON CONFLICT (saved_search_id, ingestion_run_id) DO NOTHING
+          RETURNING id
+        `,
+        [
+          search.id,
+          userId,
+          run.run_id,
+          toInt(run.new_decision_count),
+          JSON.stringify(parseStringArray(run.sample_case_ids)),
+          run.window_start,
+          run.window_end,
+        ]
+      );
+      if (inserted) created += 1;
+    }
+
+    await DatabaseClient.query(
+      `UPDATE fos_saved_searches SET last_alert_check_at = $2 WHERE id = $1`,
+      [search.id, search.latest_finished_at]
+    );
+  }
+
+  return created;
+}
+
+export async function listSavedSearchAlerts(
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<FOSSavedSearchAlert[]> {
+  await ensureReady();
+  await syncSavedSearchAlerts(userId);
+  const limit = Math.max(1, Math.min(options.limit || DEFAULT_ALERT_FEED_LIMIT, 200));
+
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT a.*, s.name AS saved_search_name
+      FROM fos_saved_search_alerts a
+      JOIN fos_saved_searches s ON s.id = a.saved_search_id
+      WHERE a.user_id = $1
+        AND ($2::BOOLEAN = FALSE OR a.read_at IS NULL)
+      ORDER BY a.created_at DESC
+      LIMIT $3
+    `,
+    [userId, Boolean(options.unreadOnly), limit]
+  );
+
+  return rows.map(mapSavedSearchAlert);
+}
+
+/** Marks the given alerts read, or every unread alert for the user when `alertIds` is omitted. */
+export async function markSavedSearchAlertsRead(userId: string, alertIds?: string[]): Promise<number> {
+  await ensureReady();
+  const rows = await DatabaseClient.query<{ id: string }>(
+    `
+      UPDATE fos_saved_search_alerts
+      SET read_at = NOW()
+      WHERE user_id = $1
+        AND read_at IS NULL
+        AND ($2::UUID[] IS NULL OR id = ANY($2::UUID[]))
+      RETURNING id
+    `,
+    [userId, alertIds && alertIds.length > 0 ? alertIds : null]
+  );
+  return rows.length;
+}
+
+// ─── Digest ──────────────────────────────────────────────────────────────────
+
+/**
+ * New matching decisions per saved search, either since an explicit date or
+ * since each search was last viewed. Used for the digest export.
+ */
+export async function getSavedSearchDigest(
+  userId: string,
+  options: { since?: string | null; decisionsPerSearch?: number } = {}
+): Promise<FOSSavedSearchDigest> {
+  await ensureReady();
+  const since = options.since ? toIsoTimestamp(options.since) : null;
+  if (options.since && !since) {
+    throw Object.assign(new Error('`since` must be a valid date.'), { status: 400 });
+  }
+  const perSearch = Math.max(1, Math.min(options.decisionsPerSearch || DEFAULT_DIGEST_DECISIONS_PER_SEARCH, 500));
+
+  const searches = await DatabaseClient.query<Record<string, unknown>>(
+    `SELECT id, name, filters, last_viewed_at FROM fos_saved_searches WHERE user_id = $1 ORDER BY name ASC`,
+    [userId]
+  );
+
+  const entries: FOSSavedSearchDigestEntry[] = [];
+  for (const search of searches) {
+    const filters = normalizeSavedSearchFilters(search.filters);
+    const windowStart = since || search.last_viewed_at || new Date(0).toISOString();
+    const matching = buildMatchingDecisionsCte(filters, 3);
+    const rows = await DatabaseClient.query<Record<string, unknown>>(
+      `
+        WITH ${matching.cteSql}
+        SELECT m.*, COUNT(*) OVER()::INT AS total_rows
+        FROM matching m
+        WHERE m.created_at::TIMESTAMPTZ > $1::TIMESTAMPTZ
+        ORDER BY m.created_at DESC, m.decision_date DESC NULLS LAST
+        LIMIT $2
+      `,
+      [windowStart, perSearch, ...matching.params]
+    );
+
+    entries.push({
+      savedSearchId: String(search.id),
+      name: String(search.name || ''),
+      filters,
+      since: toIsoTimestamp(windowStart) || new Date(0).toISOString(),
+      newDecisionCount: toInt(rows[0]?.total_rows),
+      decisions: rows.map(mapDigestDecision),
+    });
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    since,
+    entries,
+  };
+}
+
+// ─── Private helpers ─────────────────────────────────────────────────────────
+
+async function ensureReady(): Promise<void> {
+  ensureDatabaseConfigured();
+  await ensureFosDecisionsTableExists();
+  await ensureSavedSearchesSchema();
+}
+
+function buildMatchingDecisionsCte(
+  filters: FOSSavedSearchFilters,
+  startIndex: number
+): { cteSql: string; params: unknown[] } {
+  const dashboardFilters: FOSDashboardFilters = { ...filters, page: 1, pageSize: DEFAULT_PAGE_SIZE };
+  const where = buildWhereClause(dashboardFilters, 'd', startIndex);
+  return {
+    cteSql: `
+      matching AS (
+        SELECT
+          ${caseIdExpression('d')} AS case_id,
+          d.decision_reference,
+          d.decision_date,
+          NULLIF(BTRIM(d.business_name), '') AS firm_name,
+          NULLIF(BTRIM(d.product_sector), '') AS product_group,
+          ${outcomeExpression('d')} AS outcome,
+          d.created_at
+        FROM fos_decisions d
+        ${where.whereSql}
+      )
+    `,
+    params: where.params,
+  };
+}
+
+/** `since` is passed through as the driver returned it, so sub-second precision survives. */
+async function countDecisionsImportedSince(filters: FOSSavedSearchFilters, since: unknown): Promise<number> {
+  if (since == null) return 0;
+  const matching = buildMatchingDecisionsCte(filters, 2);
+  const row = await DatabaseClient.queryOne<{ total: number }>(
+    `
+      WITH ${matching.cteSql}
+      SELECT COUNT(*)::INT AS total
+      FROM matching
+      WHERE created_at::TIMESTAMPTZ > $1::TIMESTAMPTZ
+    `,
+    [since, ...matching.params]
+  );
+  return toInt(row?.total);
+}
+
+function normalizeName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : '';
+  if (!name) {
+    throw Object.assign(new Error('Saved search name is required.'), { status: 400 });
+  }
+  return name.slice(0, MAX_NAME_LENGTH);
+}
+
+function createDuplicateNameError(name: string) {
+  return Object.assign(new Error(`A saved search named "${name}" already exists.`), {
+    status: 409,
+    code: 'DUPLICATE_SAVED_SEARCH',
+  });
+}
+
+function mapSavedSearch(row: Record<string, unknown>, newSinceLastViewed: number): FOSSavedSearch {
+  return {
+    id: String(row.id || ''),
+    userId: String(row.user_id || ''),
+    name: String(row.name || ''),
+    filters: normalizeSavedSearchFilters(row.filters),
+    alertsEnabled: row.alerts_enabled !== false,
+    lastViewedAt: toIsoTimestamp(row.last_viewed_at) || new Date(0).toISOString(),
+    newSinceLastViewed,
+    unreadAlertCount: toInt(row.unread_alert_count),
+    createdAt: toIsoTimestamp(row.created_at) || new Date(0).toISOString(),
+    updatedAt: toIsoTimestamp(row.updated_at) || new Date(0).toISOString(),
+  };
+}
+
+function mapSavedSearchAlert(row: Record<string, unknown>): FOSSavedSearchAlert {
+  return {
+    id: String(row.id || ''),
+    savedSearchId: String(row.saved_search_id || ''),
+    savedSearchName: String(row.saved_search_name || ''),
+    ingestionRunId: nullableString(row.ingestion_run_id),
+    newDecisionCount: toInt(row.new_decision_count),
+    sampleCaseIds: parseStringArray(row.sample_case_ids),
+    windowStart: toIsoTimestamp(row.window_start),
+    windowEnd: toIsoTimestamp(row.window_end),
+    readAt: toIsoTimestamp(row.read_at),
+    createdAt: toIsoTimestamp(row.created_at) || new Date(0).toISOString(),
+  };
+}
+
+function mapDigestDecision(row: Record<string, unknown>): FOSSavedSearchDigestDecision {
+  return {
+    caseId: String(row.case_id || ''),
+    decisionReference: String(row.decision_reference || row.case_id || ''),
+    decisionDate: toIsoDate(row.decision_date),
+    firmName: nullableString(row.firm_name),
+    productGroup: nullableString(row.product_group),
+    outcome: String(row.outcome || 'unknown') as FOSOutcome,
+    importedAt: toIsoTimestamp(row.created_at),
+  };
+}
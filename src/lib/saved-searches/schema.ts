@@ -0,0 +1,52 @@
+import { DatabaseClient } from '@/lib/database';
+import { ensureAuthSchema } from '@/lib/auth/schema';
+
+let ensurePromise: Promise<void> | null = null;
+let schemaReady = false;
+
+export async function ensureSavedSearchesSchema(): Promise<void> {
+  if (schemaReady) return;
+  await ensureAuthSchema();
+  if (!ensurePromise) {
+    ensurePromise = DatabaseClient.query(`
+      CREATE TABLE IF NOT EXISTS fos_saved_searches (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+        alerts_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        last_viewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        last_alert_check_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT fos_saved_searches_user_name_key UNIQUE (user_id, name)
+      );
+
+      CREATE INDEX IF NOT EXISTS fos_saved_searches_user_idx
+        ON fos_saved_searches (user_id, updated_at DESC);
+
+      CREATE TABLE IF NOT EXISTS fos_saved_search_alerts (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        saved_search_id UUID NOT NULL REFERENCES fos_saved_searches(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+        ingestion_run_id UUID,
+        new_decision_count INTEGER NOT NULL DEFAULT 0,
+        sample_case_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+        window_start TIMESTAMPTZ,
+        window_end TIMESTAMPTZ,
+        read_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        CONSTRAINT fos_saved_search_alerts_run_key UNIQUE (saved_search_id, ingestion_run_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS fos_saved_search_alerts_user_idx
+        ON fos_saved_search_alerts (user_id, read_at, created_at DESC);
+    `).then(() => {
+      schemaReady = true;
+    }).finally(() => {
+      ensurePromise = null;
+    });
+  }
+
+  await ensurePromise;
+}
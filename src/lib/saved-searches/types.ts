@@ -0,0 +1,63 @@
+import type { FOSDashboardFilters, FOSOutcome } from '@/lib/fos/types';
+
+/** Filter scope persisted for a saved search; paging is a view concern and is not stored. */
+export type FOSSavedSearchFilters = Omit<FOSDashboardFilters, 'page' | 'pageSize'>;
+
+export interface FOSSavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  filters: FOSSavedSearchFilters;
+  /** Watchlist mode: raise a feed alert when an ingestion run adds matching decisions. */
+  alertsEnabled: boolean;
+  lastViewedAt: string;
+  /** Matching decisions imported since `lastViewedAt`. */
+  newSinceLastViewed: number;
+  unreadAlertCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FOSSavedSearchInput {
+  name?: string;
+  filters?: Partial<FOSSavedSearchFilters>;
+  alertsEnabled?: boolean;
+}
+
+export interface FOSSavedSearchAlert {
+  id: string;
+  savedSearchId: string;
+  savedSearchName: string;
+  ingestionRunId: string | null;
+  newDecisionCount: number;
+  sampleCaseIds: string[];
+  windowStart: string | null;
+  windowEnd: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface FOSSavedSearchDigestDecision {
+  caseId: string;
+  decisionReference: string;
+  decisionDate: string | null;
+  firmName: string | null;
+  productGroup: string | null;
+  outcome: FOSOutcome;
+  importedAt: string | null;
+}
+
+export interface FOSSavedSearchDigestEntry {
+  savedSearchId: string;
+  name: string;
+  filters: FOSSavedSearchFilters;
+  since: string;
+  newDecisionCount: number;
+  decisions: FOSSavedSearchDigestDecision[];
+}
+
+export interface FOSSavedSearchDigest {
+  generatedAt: string;
+  since: string | null;
+  entries: FOSSavedSearchDigestEntry[];
+}
@@ -0,0 +1,488 @@
+import { pool, DatabaseClient } from '@/lib/database';
+import type { AuthenticatedAppUser } from '@/lib/auth/types';
+import {
+  ensureDatabaseConfigured,
+  isMissingColumnError,
+  isMissingRelationError,
+  nullableString,
+  parseJsonValue,
+  toInt,
+  toIsoDate,
+  toIsoTimestamp,
+} from '@/lib/fos/repo-helpers';
+import {
+  DEFAULT_TAG_RULES,
+  TAG_FIELDS,
+  buildTagSource,
+  compileTagRules,
+  tagText,
+  validateTagRules,
+} from '../../../scripts/lib/tag-rules.mjs';
+import { ensureTagRuleSchema } from './schema';
+import type {
+  ActiveTagRules,
+  TagField,
+  TagRetagRun,
+  TagRetagRunStatus,
+  TagRulePreview,
+  TagRulePreviewDecision,
+  TagRulePreviewLabel,
+  TagRuleCoverage,
+  TagRuleSet,
+  TagRuleVersion,
+  TagRuleVersionInput,
+  TagRuleVersionState,
+  TagRuleVersionStatus,
+} from './types';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const ACTIVE_RULES_TTL_MS = 60_000;
+const MAX_NOTES_LENGTH = 2000;
+const DEFAULT_PREVIEW_SAMPLE = 50;
+const MAX_PREVIEW_SAMPLE = 200;
+/** Matches the cap in buildTagSource so previews see the same text as the re-tag job. */
+const FULL_TEXT_SCAN_LENGTH = 18000;
+const MAX_REPORTED_ERRORS = 3;
+
+type TagRuleActor = Pick<AuthenticatedAppUser, 'id' | 'fullName'>;
+
+// ─── Active rules ────────────────────────────────────────────────────────────
+
+let activeRulesCache: { value: ActiveTagRules; expiresAt: number } | null = null;
+
+/** The newest published version, or the built-in rules as version 0. */
+export async function getActiveTagRules(): Promise<ActiveTagRules> {
+  if (activeRulesCache && activeRulesCache.expiresAt > Date.now()) {
+    return activeRulesCache.value;
+  }
+
+  ensureDatabaseConfigured();
+  let value: ActiveTagRules = { id: null, version: 0, rules: DEFAULT_TAG_RULES };
+  try {
+    const row = await DatabaseClient.queryOne<Record<string, unknown>>(
+      `
+        SELECT id, version, rules
+        FROM fos_tag_rule_versions
+        WHERE status = 'published'
+        ORDER BY version DESC
+        LIMIT 1
+      `
+    );
+    if (row) {
+      value = { id: String(row.id), version: toInt(row.version), rules: parseRules(row.rules) };
+    }
+  } catch (error) {
+    if (!isMissingRelationError(error, 'fos_tag_rule_versions')) throw error;
+  }
+
+  activeRulesCache = { value, expiresAt: Date.now() + ACTIVE_RULES_TTL_MS };
+  return value;
+}
+
+export function resetActiveTagRulesCache(): void {
+  activeRulesCache = null;
+}
+
+// ─── Versions ────────────────────────────────────────────────────────────────
+
+export async function listTagRuleVersions(): Promise<TagRuleVersion[]> {
+  await ensureReady();
+  const rows = await DatabaseClient.query<Record<string, unknown>>(`SELECT * FROM fos_tag_rule_versions ORDER BY version DESC`);
+  const activeId = await findActiveVersionId();
+  return rows.map((row) => mapVersion(row, activeId));
+}
+
+export async function getTagRuleVersion(id: string): Promise<TagRuleVersion | null> {
+  await ensureReady();
+  const row = await DatabaseClient.queryOne<Record<string, unknown>>(`SELECT * FROM fos_tag_rule_versions WHERE id::TEXT = $1`, [id]);
+  if (!row) return null;
+  return mapVersion(row, await findActiveVersionId());
+}
+
+/** Starts a draft from the active rules (or the supplied ones). Only one draft may be open at a time. */
+export async function createTagRuleDraft(input: TagRuleVersionInput, actor: TagRuleActor): Promise<TagRuleVersion> {
+  await ensureReady();
+  const active = await getActiveTagRules();
+  const rules = input.rules === undefined ? active.rules : assertValidRules(input.rules);
+  const notes = normalizeNotes(input.notes);
+
+  const client = await pool.connect();
+  let versionId: string;
+  try {
+    await client.query('BEGIN');
+    await client.query('LOCK TABLE fos_tag_rule_versions IN SHARE ROW EXCLUSIVE MODE');
+    const openDraft = await client.query(`SELECT id FROM fos_tag_rule_versions WHERE status = 'draft' LIMIT 1`);
+    if (openDraft.rows.length > 0) {
+      throw Object.assign(new Error('A draft tag rule version already exists. Publish or discard it first.'), {
+        status: 409,
+        code: 'DRAFT_EXISTS',
+      });
+    }
+
+    const inserted = await client.query<Record<string, unknown>>(
+      `
+        INSERT INTO fos_tag_rule_versions (version, status, rules, notes, created_by)
+        SELECT COALESCE(MAX(version), 0) + 1, 'draft', $1::jsonb, $2, $3
+        FROM fos_tag_rule_versions
+        RETURNING id
+      `,
+      [JSON.stringify(rules), notes, actor.fullName]
+    );
+    versionId = String(inserted.rows[0].id);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return (await getTagRuleVersion(versionId))!;
+}
+
+export async function updateTagRuleDraft(id: string, input: TagRuleVersionInput): Promise<TagRuleVersion | null> {
+  await ensureReady();
+  const current = await getTagRuleVersion(id);
+  if (!current) return null;
+  assertDraft(current);
+
+  const rules = input.rules === undefined ? current.rules : assertValidRules(input.rules);
+  const notes = input.notes === undefined ? current.notes : normalizeNotes(input.notes);
+  const updated = await DatabaseClient.query(
+    `
+      UPDATE fos_tag_rule_versions
+      SET rules = $2::jsonb, notes = $3, updated_at = NOW()
+      WHERE id = $1 AND status = 'draft'
+      RETURNING id
+    `,
+    [current.id, JSON.stringify(rules), notes]
+  );
+  if (updated.length === 0) {
+    throw Object.assign(new Error('Only draft tag rule versions can be edited.'), { status: 409 });
+  }
+
+  return getTagRuleVersion(id);
+}
+
+/**
+ * Publishes a draft so ingestion tags new decisions with it, and queues a
+ * re-tag run that applies it to the rest of the corpus.
+ */
+export async function publishTagRuleVersion(
+  id: string,
+  actor: TagRuleActor
+): Promise<{ version: TagRuleVersion; run: TagRetagRun } | null> {
+  await ensureReady();
+  const current = await getTagRuleVersion(id);
+  if (!current) return null;
+  assertDraft(current);
+  assertValidRules(current.rules);
+
+  const client = await pool.connect();
+  let runId: string;
+  try {
+    await client.query('BEGIN');
+    const updated = await client.query(
+      `
+        UPDATE fos_tag_rule_versions
+        SET status = 'published', published_by = $2, published_at = NOW(), updated_at = NOW()
+        WHERE id = $1 AND status = 'draft'
+      `,
+      [current.id, actor.fullName]
+    );
+    if (updated.rowCount === 0) {
+      throw Object.assign(new Error('Only draft tag rule versions can be published.'), { status: 409 });
+    }
+    runId = await insertRetagRun(client, current.version, actor);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  resetActiveTagRulesCache();
+  const [version, run] = await Promise.all([getTagRuleVersion(id), getRetagRun(runId)]);
+  return { version: version!, run: run! };
+}
+
+export async function discardTagRuleDraft(id: string): Promise<TagRuleVersion | null> {
+  await ensureReady();
+  const current = await getTagRuleVersion(id);
+  if (!current) return null;
+  assertDraft(current);
+
+  await DatabaseClient.query(
+    `UPDATE fos_tag_rule_versions SET status = 'discarded', updated_at = NOW() WHERE id = $1 AND status = 'draft'`,
+    [current.id]
+  );
+  return getTagRuleVersion(id);
+}
+
+// ─── Re-tag runs ─────────────────────────────────────────────────────────────
+
+export async function listRetagRuns(options: { limit?: number } = {}): Promise<TagRetagRun[]> {
+  await ensureReady();
+  const limit = Math.max(1, Math.min(options.limit || 20, 100));
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `SELECT * FROM fos_tag_retag_runs ORDER BY created_at DESC LIMIT $1`,
+    [limit]
+  );
+  return rows.map(mapRun);
+}
+
+/**
+ * Queues a re-tag of the corpus with the active rules, for example after a run
+ * failed. Any queued or running run is cancelled; `npm run db:retag-fos-decisions`
+ * picks up the new one.
+ */
+export async function queueRetagRun(actor: TagRuleActor): Promise<TagRetagRun> {
+  await ensureReady();
+  const active = await getActiveTagRules();
+
+  const client = await pool.connect();
+  let runId: string;
+  try {
+    await client.query('BEGIN');
+    runId = await insertRetagRun(client, active.version, actor);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return (await getRetagRun(runId))!;
+}
+
+/** How many decisions each rule version tagged. Empty until the tag_rule_version column exists. */
+export async function getTagRuleCoverage(): Promise<TagRuleCoverage[]> {
+  ensureDatabaseConfigured();
+  try {
+    const rows = await DatabaseClient.query<{ tag_rule_version: number | null; decisions: number }>(
+      `
+        SELECT tag_rule_version, COUNT(*)::INT AS decisions
+        FROM fos_decisions
+        GROUP BY tag_rule_version
+        ORDER BY tag_rule_version DESC NULLS LAST
+      `
+    );
+    return rows.map((row) => ({
+      version: row.tag_rule_version == null ? null : toInt(row.tag_rule_version),
+      decisions: toInt(row.decisions),
+    }));
+  } catch (error) {
+    if (isMissingColumnError(error, 'tag_rule_version') || isMissingRelationError(error, 'fos_decisions')) return [];
+    throw error;
+  }
+}
+
+// ─── Preview ─────────────────────────────────────────────────────────────────
+
+/**
+ * Tags a sample of decisions with both the active rules and the proposed ones
+ * and reports, per label, how many sample decisions each set hits and which
+ * decisions gain or lose a tag. The sample is the most recent decisions, or the
+ * given references.
+ */
+export async function previewTagRules(
+  proposed: unknown,
+  options: { sampleSize?: number; references?: string[] } = {}
+): Promise<TagRulePreview> {
+  ensureDatabaseConfigured();
+  const proposedRules = assertValidRules(proposed);
+  const baseline = await getActiveTagRules();
+  const references = (options.references || []).map((value) => value.trim()).filter(Boolean).slice(0, MAX_PREVIEW_SAMPLE);
+  const sampleSize = references.length || Math.max(1, Math.min(options.sampleSize || DEFAULT_PREVIEW_SAMPLE, MAX_PREVIEW_SAMPLE));
+
+  const rows = await DatabaseClient.query<Record<string, unknown>>(
+    `
+      SELECT
+        decision_reference,
+        business_name,
+        product_sector,
+        decision_date,
+        decision_logic,
+        decision_summary,
+        complaint_text,
+        firm_response_text,
+        ombudsman_reasoning_text,
+        final_decision_text,
+        LEFT(full_text, ${FULL_TEXT_SCAN_LENGTH}) AS full_text
+      FROM fos_decisions
+      WHERE (CARDINALITY($1::TEXT[]) = 0 OR decision_reference = ANY($1::TEXT[]))
+      ORDER BY decision_date DESC NULLS LAST, decision_reference ASC
+      LIMIT $2
+    `,
+    [references, sampleSize]
+  );
+
+  const currentRules = compileTagRules(baseline.rules);
+  const proposedCompiled = compileTagRules(proposedRules);
+  const labelStats = new Map<string, TagRulePreviewLabel>();
+  const statFor = (field: TagField, label: string) => {
+    const key = `${field}\u0000${label.toLowerCase()}`;
+    let stat = labelStats.get(key);
+    if (!stat) {
+      stat = { field, label, currentHits: 0, proposedHits: 0, gained: 0, lost: 0 };
+      labelStats.set(key, stat);
+    }
+    return stat;
+  };
+  for (const field of TAG_FIELDS) {
+    for (const rule of proposedRules[field]) statFor(field, rule.label);
+  }
+
+  const decisions: TagRulePreviewDecision[] = rows.map((row) => {
+    const text = buildTagSource({
+      decisionLogic: nullableString(row.decision_logic),
+      decisionSummary: nullableString(row.decision_summary),
+      complaint: nullableString(row.complaint_text),
+      firmResponse: nullableString(row.firm_response_text),
+      reasoning: nullableString(row.ombudsman_reasoning_text),
+      finalDecision: nullableString(row.final_decision_text),
+      fullText: nullableString(row.full_text),
+    });
+    const current = tagText(text, currentRules);
+    const next = tagText(text, proposedCompiled);
+
+    let changed = false;
+    const fields = {} as TagRulePreviewDecision['fields'];
+    for (const field of TAG_FIELDS) {
+      const before = current[field].labels;
+      const after = next[field].labels;
+      const added = after.filter((label) => !before.includes(label));
+      const removed = before.filter((label) => !after.includes(label));
+      if (added.length > 0 || removed.length > 0) changed = true;
+      fields[field] = { current: before, proposed: after, added, removed };
+
+      for (const label of before) statFor(field, label).currentHits += 1;
+      for (const label of after) statFor(field, label).proposedHits += 1;
+      for (const label of added) statFor(field, label).gained += 1;
+      for (const label of removed) statFor(field, label).lost += 1;
+    }
+
+    return {
+      decisionReference: String(row.decision_reference || ''),
+      businessName: nullableString(row.business_name),
+      product: nullableString(row.product_sector),
+      decisionDate: toIsoDate(row.decision_date),
+      changed,
+      fields,
+    };
+  });
+
+  return {
+    baselineVersion: baseline.version,
+    sampleSize: decisions.length,
+    changedDecisions: decisions.filter((decision) => decision.changed).length,
+    labels: Array.from(labelStats.values()).sort(
+      (a, b) => TAG_FIELDS.indexOf(a.field) - TAG_FIELDS.indexOf(b.field) || b.proposedHits - a.proposedHits || a.label.localeCompare(b.label)
+    ),
+    decisions,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+// ─── Internal helpers ────────────────────────────────────────────────────────
+
+async function ensureReady(): Promise<void> {
+  ensureDatabaseConfigured();
+  await ensureTagRuleSchema();
+}
+
+async function findActiveVersionId(): Promise<string | null> {
+  const row = await DatabaseClient.queryOne<{ id: string }>(
+    `SELECT id FROM fos_tag_rule_versions WHERE status = 'published' ORDER BY version DESC LIMIT 1`
+  );
+  return row ? String(row.id) : null;
+}
+
+async function getRetagRun(id: string): Promise<TagRetagRun | null> {
+  const row = await DatabaseClient.queryOne<Record<string, unknown>>(`SELECT * FROM fos_tag_retag_runs WHERE id = $1`, [id]);
+  return row ? mapRun(row) : null;
+}
+
+async function insertRetagRun(
+  client: { query: (text: string, params?: unknown[]) => Promise<{ rows: Record<string, unknown>[] }> },
+  version: number,
+  actor: TagRuleActor
+): Promise<string> {
+  await client.query(
+    `UPDATE fos_tag_retag_runs SET status = 'cancelled', updated_at = NOW() WHERE status IN ('queued', 'running')`
+  );
+  const inserted = await client.query(
+    `INSERT INTO fos_tag_retag_runs (rule_version, requested_by) VALUES ($1, $2) RETURNING id`,
+    [version, actor.fullName]
+  );
+  return String(inserted.rows[0].id);
+}
+
+function assertValidRules(input: unknown): TagRuleSet {
+  const { rules, errors } = validateTagRules(input);
+  if (errors.length > 0) {
+    const extra = errors.length > MAX_REPORTED_ERRORS ? ` (${errors.length - MAX_REPORTED_ERRORS} more)` : '';
+    throw Object.assign(new Error(`${errors.slice(0, MAX_REPORTED_ERRORS).join(' ')}${extra}`), { status: 400 });
+  }
+  if (TAG_FIELDS.every((field) => rules[field].length === 0)) {
+    throw Object.assign(new Error('A tag rule version needs at least one rule.'), { status: 400 });
+  }
+  return rules;
+}
+
+function assertDraft(version: TagRuleVersion): void {
+  if (version.status !== 'draft') {
+    throw Object.assign(new Error(`Tag rules v${version.version} are ${version.status} and can no longer change.`), { status: 409 });
+  }
+}
+
+function normalizeNotes(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim().slice(0, MAX_NOTES_LENGTH);
+  return trimmed || null;
+}
+
+/** Stored versions were validated on write; re-validating drops anything a manual edit broke. */
+function parseRules(value: unknown): TagRuleSet {
+  return validateTagRules(parseJsonValue<unknown>(value)).rules;
+}
+
+function mapVersion(row: Record<string, unknown>, activeId: string | null): TagRuleVersion {
+  const id = String(row.id);
+  const status = String(row.status || 'draft') as TagRuleVersionStatus;
+  const state: TagRuleVersionState = status === 'published' ? (id === activeId ? 'active' : 'superseded') : status;
+
+  return {
+    id,
+    version: toInt(row.version),
+    status,
+    state,
+    rules: parseRules(row.rules),
+    notes: nullableString(row.notes),
+    createdBy: nullableString(row.created_by),
+    publishedBy: nullableString(row.published_by),
+    publishedAt: toIsoTimestamp(row.published_at),
+    createdAt: toIsoTimestamp(row.created_at) || new Date().toISOString(),
+    updatedAt: toIsoTimestamp(row.updated_at) || new Date().toISOString(),
+  };
+}
+
+function mapRun(row: Record<string, unknown>): TagRetagRun {
+  return {
+    id: String(row.id),
+    ruleVersion: toInt(row.rule_version),
+    status: String(row.status || 'queued') as TagRetagRunStatus,
+    requestedBy: nullableString(row.requested_by),
+    totalDecisions: row.total_decisions == null ? null : toInt(row.total_decisions),
+    processed: toInt(row.processed),
+    changed: toInt(row.changed),
+    error: nullableString(row.error),
+    createdAt: toIsoTimestamp(row.created_at) || new Date().toISOString(),
+    startedAt: toIsoTimestamp(row.started_at),
+    completedAt: toIsoTimestamp(row.completed_at),
+    updatedAt: toIsoTimestamp(row.updated_at) || new Date().toISOString(),
+  };
+}
@@ -0,0 +1,86 @@
+import type { TagField, TagRuleSet } from '../../../scripts/lib/tag-rules.mjs';
+
+export type { TagField, TagRule, TagRulePattern, TagRuleSet } from '../../../scripts/lib/tag-rules.mjs';
+
+export type TagRuleVersionStatus = 'draft' | 'published' | 'discarded';
+
+/** Derived lifecycle state: the newest published version is `active`, older ones `superseded`. */
+export type TagRuleVersionState = 'draft' | 'active' | 'superseded' | 'discarded';
+
+export interface TagRuleVersion {
+  id: string;
+  version: number;
+  status: TagRuleVersionStatus;
+  state: TagRuleVersionState;
+  rules: TagRuleSet;
+  notes: string | null;
+  createdBy: string | null;
+  publishedBy: string | null;
+  publishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The rules ingestion tags with; version `0` is the built-in set used before anything is published. */
+export interface ActiveTagRules {
+  id: string | null;
+  version: number;
+  rules: TagRuleSet;
+}
+
+export interface TagRuleVersionInput {
+  rules?: unknown;
+  notes?: string | null;
+}
+
+export type TagRetagRunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface TagRetagRun {
+  id: string;
+  ruleVersion: number;
+  status: TagRetagRunStatus;
+  requestedBy: string | null;
+  totalDecisions: number | null;
+  processed: number;
+  changed: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  updatedAt: string;
+}
+
+/** Decisions per tagging version; `version` is null for tags that predate versioned rules. */
+export interface TagRuleCoverage {
+  version: number | null;
+  decisions: number;
+}
+
+export interface TagRulePreviewLabel {
+  field: TagField;
+  label: string;
+  /** Sample decisions the active rules tag with this label. */
+  currentHits: number;
+  /** Sample decisions the proposed rules tag with this label. */
+  proposedHits: number;
+  gained: number;
+  lost: number;
+}
+
+export interface TagRulePreviewDecision {
+  decisionReference: string;
+  businessName: string | null;
+  product: string | null;
+  decisionDate: string | null;
+  changed: boolean;
+  fields: Record<TagField, { current: string[]; proposed: string[]; added: string[]; removed: string[] }>;
+}
+
+export interface TagRulePreview {
+  baselineVersion: number;
+  sampleSize: number;
+  changedDecisions: number;
+  labels: TagRulePreviewLabel[];
+  decisions: TagRulePreviewDecision[];
+  generatedAt: string;
+}
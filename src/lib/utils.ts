@@ -9,8 +9,12 @@ export function formatNumber(value: number): string {
   return new Intl.NumberFormat('en-GB').format(value);
 }
 
-export function formatPercent(value: number): string {
-  return `${Number(value).toFixed(1)}%`;
+export function formatPercent(value: number | null): string {
+  return value == null ? '–' : `${Number(value).toFixed(1)}%`;
+}
+
+export function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP', maximumFractionDigits: 0 }).format(value);
 }
 
 export function formatDate(value: string): string {
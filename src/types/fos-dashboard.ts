@@ -1,14 +1,17 @@
 import {
   FOSAdvisorBrief,
+  FOSAdvisorOptions,
   FOSAdvisorRiskAssessment,
   FOSAnalysisSnapshot,
   FOSCaseDetail,
   FOSCaseListItem,
   FOSDashboardFilters,
   FOSDashboardSnapshot,
+  FOSForecast,
   FOSPagination,
   FOSSubsetAnalysis,
   FOSSimilarCase,
+  FOSSimilarityMode,
   FOSCaseContext,
 } from '@/lib/fos/types';
 
@@ -50,6 +53,15 @@ export interface FOSAnalysisApiResponse {
   error?: string;
 }
 
+export interface FOSForecastApiResponse {
+  success: boolean;
+  generatedAt: string;
+  filters: FOSDashboardFilters;
+  data?: FOSForecast | null;
+  meta?: FOSApiMeta;
+  error?: string;
+}
+
 export interface FOSAdvisorApiResponse {
   success: boolean;
   data?: FOSAdvisorBriefApi;
@@ -58,7 +70,7 @@ export interface FOSAdvisorApiResponse {
 
 export interface FOSAdvisorOptionsApiResponse {
   success: boolean;
-  data?: { products: string[]; rootCauses: string[] };
+  data?: FOSAdvisorOptions;
   error?: string;
 }
 
@@ -84,6 +96,8 @@ export interface FOSSimilarCasesApiResponse {
   data?: {
     cases: FOSSimilarCase[];
     context: FOSCaseContext;
+    mode: FOSSimilarityMode;
+    embeddingModel: string | null;
   };
   error?: string;
 }